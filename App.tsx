@@ -20,6 +20,8 @@ import ChatbotCallScreen from './src/screens/chatbot/ChatbotCallScreen';
 import ConversationHistoryScreen from './src/screens/chatbot/ConversationHistoryScreen';
 import PersonalInformationScreen from './src/screens/profile/PersonalInformationScreen';
 import VoiceDebugScreen from './src/screens/debug/VoiceDebugScreen';
+import PronunciationLexiconScreen from './src/screens/profile/PronunciationLexiconScreen';
+import HearingScreen from './src/screens/profile/HearingScreen';
 import { SupabaseProvider } from './src/contexts/SupabaseContext';
 import { CulturalProvider } from './src/contexts/CulturalContext';
 import { initializeApp, InitializationResult } from './src/utils/appInitialization';
@@ -37,6 +39,8 @@ export type RootStackParamList = {
   Memories: undefined;
   PersonalInformation: undefined;
   VoiceDebug: undefined;
+  PronunciationLexicon: undefined;
+  Hearing: undefined;
   Phase4UIDemo: undefined;
 };
 
@@ -51,6 +55,8 @@ function ProfileStackScreen() {
       <ProfileStack.Screen name="Memories" component={MemoriesScreen} />
       <ProfileStack.Screen name="Settings" component={SettingsScreen} />
       <ProfileStack.Screen name="PersonalInformation" component={PersonalInformationScreen} />
+      <ProfileStack.Screen name="PronunciationLexicon" component={PronunciationLexiconScreen} />
+      <ProfileStack.Screen name="Hearing" component={HearingScreen} />
     </ProfileStack.Navigator>
   );
 }
@@ -19,6 +19,22 @@ export default function (api) {
             "ELEVEN_LABS_API_KEY",
             "APP_ENV",
             "DEBUG_MODE",
+            "LLM_PROVIDER",
+            "LLM_API_URL",
+            "LLM_API_KEY",
+            "LLM_MODEL",
+            "STT_PROVIDER",
+            "STT_LANGUAGE_PROVIDERS",
+            "STT_API_URL",
+            "STT_API_KEY",
+            "STT_MODEL",
+            "STT_COST_PER_MINUTE",
+            "TTS_PROVIDERS",
+            "TTS_API_URL",
+            "TTS_API_KEY",
+            "TTS_VOICE",
+            "TTS_NATIVE_LANGUAGES",
+            "HANDS_FREE_WAKE_PHRASES",
           ],
         },
       ],
@@ -52,6 +52,8 @@ RCT_EXPORT_METHOD(requestPermissions:(RCTPromiseResolveBlock)resolve
 
 RCT_EXPORT_METHOD(recognizeAudio:(NSString *)audioUri
                   language:(NSString *)language
+                  contextualStrings:(NSArray<NSString *> *)contextualStrings
+                  onDeviceOnly:(BOOL)onDeviceOnly
                   resolver:(RCTPromiseResolveBlock)resolve
                   rejecter:(RCTPromiseRejectBlock)reject) {
     
@@ -80,6 +82,23 @@ RCT_EXPORT_METHOD(recognizeAudio:(NSString *)audioUri
     // Create recognition request
     SFSpeechURLRecognitionRequest *request = [[SFSpeechURLRecognitionRequest alloc] initWithURL:audioURL];
     request.shouldReportPartialResults = NO;
+    // Words from other languages the speaker mixes in, which the recognizer would otherwise miss
+    if (contextualStrings.count > 0) {
+        request.contextualStrings = contextualStrings;
+    }
+    // Keeps the audio off Apple's servers, e.g. for speech overheard while waiting for a wake phrase
+    if (onDeviceOnly) {
+        if (@available(iOS 13, *)) {
+            if (!self.speechRecognizer.supportsOnDeviceRecognition) {
+                reject(@"on_device_unavailable", @"On-device recognition not available for this language", nil);
+                return;
+            }
+            request.requiresOnDeviceRecognition = YES;
+        } else {
+            reject(@"on_device_unavailable", @"On-device recognition needs iOS 13", nil);
+            return;
+        }
+    }
     
     // Start recognition
     self.recognitionTask = [self.speechRecognizer recognitionTaskWithRequest:request
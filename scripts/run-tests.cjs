@@ -0,0 +1,47 @@
+/**
+ * Runs the unit tests with Node's built-in test runner.
+ *
+ *   yarn test                                   # every *.test.ts under src/
+ *   yarn test src/services/voice                # the tests under one folder
+ *
+ * Tests are TypeScript, compiled on load by sucrase, so they need no bundler.
+ * Code that imports React Native or Supabase is tested with those modules
+ * swapped out by src/__tests__/mockModule.ts. Each file runs in its own Node
+ * process, so one file's stand-ins never leak into another. Exits with
+ * status 1 when any test fails.
+ */
+const { spawnSync } = require('child_process');
+const { readdirSync, statSync } = require('fs');
+const { join, relative, resolve } = require('path');
+
+const ROOT = join(__dirname, '..');
+
+const findTests = directory => readdirSync(directory).flatMap(name => {
+  const path = join(directory, name);
+  if (statSync(path).isDirectory()) return name === 'node_modules' ? [] : findTests(path);
+  return name.endsWith('.test.ts') ? [path] : [];
+});
+
+const roots = process.argv.length > 2
+  ? process.argv.slice(2).map(path => resolve(path))
+  : [join(ROOT, 'src')];
+
+const files = roots.flatMap(path => (statSync(path).isDirectory() ? findTests(path) : [path])).sort();
+
+if (files.length === 0) {
+  console.error(`No tests found under ${roots.map(path => relative(ROOT, path)).join(', ')}`);
+  process.exit(1);
+}
+
+const failed = files.filter(file => {
+  const { status } = spawnSync(process.execPath, ['-r', 'sucrase/register/ts', '-e', 'require(process.argv[1])', file], {
+    cwd: ROOT,
+    stdio: 'inherit'
+  });
+  return status !== 0;
+});
+
+if (failed.length > 0) {
+  console.error(`\nFailed: ${failed.map(file => relative(ROOT, file)).join(', ')}`);
+  process.exit(1);
+}
@@ -0,0 +1,46 @@
+/**
+ * Checks cultural pack JSON files before they are bundled or published.
+ *
+ *   yarn packs:validate                 # the packs bundled with the app
+ *   yarn packs:validate ./maori.json    # a pack an advisor is about to publish
+ *
+ * Uses the app's own validator, so the CLI and the app accept the same packs.
+ * Exits with status 1 when any file is not a valid pack.
+ */
+require('sucrase/register/ts');
+const { readdirSync, readFileSync } = require('fs');
+const { basename, join } = require('path');
+const { validateCulturalPack } = require('../src/services/cultural/culturalPack.ts');
+
+const BUNDLED_PACKS_DIRECTORY = join(__dirname, '..', 'src', 'services', 'cultural', 'packs');
+
+const files = process.argv.length > 2
+  ? process.argv.slice(2)
+  : readdirSync(BUNDLED_PACKS_DIRECTORY)
+    .filter(name => name.endsWith('.json'))
+    .map(name => join(BUNDLED_PACKS_DIRECTORY, name));
+
+let failures = 0;
+files.forEach(file => {
+  let pack = {};
+  let errors;
+  try {
+    pack = JSON.parse(readFileSync(file, 'utf8'));
+    errors = validateCulturalPack(pack);
+  } catch (error) {
+    errors = [error.message];
+  }
+
+  if (errors.length === 0) {
+    console.log(`✓ ${basename(file)} (${pack.culturalGroup}, version ${pack.version})`);
+    return;
+  }
+  failures++;
+  console.error(`✗ ${basename(file)}`);
+  errors.forEach(error => console.error(`    ${error}`));
+});
+
+if (failures > 0) {
+  console.error(`\n${failures} of ${files.length} cultural packs are invalid`);
+  process.exit(1);
+}
@@ -0,0 +1,16 @@
+/**
+ * Puts `exports` in place of the module at `filename` for every later
+ * require, as jest.mock does, so code that pulls in React Native or Supabase
+ * can run under Node. Resolve `filename` with require.resolve from the test,
+ * and load the code under test afterwards with a dynamic import.
+ */
+export const mockModule = (filename: string, exports: Record<string, unknown>): void => {
+  require.cache[filename] = {
+    id: filename,
+    filename,
+    loaded: true,
+    exports: { __esModule: true, ...exports },
+    children: [],
+    paths: []
+  } as unknown as NodeJS.Module;
+};
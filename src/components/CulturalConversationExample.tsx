@@ -10,7 +10,8 @@ import {
 } from 'react-native';
 import { useCulturalContext } from '../contexts/CulturalContext';
 import { useConversationState } from '../hooks/useConversationState';
-import { CulturalGroup, ConversationContext } from '../types';
+import { CULTURAL_GROUPS, CulturalGroup, ConversationContext } from '../types';
+import CulturalPackService from '../services/cultural/CulturalPackService';
 
 interface CulturalConversationExampleProps {
   userId: string;
@@ -132,7 +133,7 @@ export const CulturalConversationExample: React.FC<CulturalConversationExamplePr
   };
 
   const handleCultureChange = (culture: CulturalGroup) => {
-    const language = culture === 'maori' ? 'mi' : culture === 'chinese' ? 'zh' : 'en';
+    const language = CulturalPackService.getInstance().getPack(culture).profile.preferredLanguage;
     setPreferredLanguage(language);
     
     // Restart conversation with new cultural profile
@@ -198,7 +199,7 @@ export const CulturalConversationExample: React.FC<CulturalConversationExamplePr
       <View style={styles.cultureSelector}>
         <Text style={styles.sectionTitle}>Select Culture:</Text>
         <View style={styles.buttonRow}>
-          {(['maori', 'chinese', 'western'] as CulturalGroup[]).map(culture => (
+          {CULTURAL_GROUPS.map(culture => (
             <TouchableOpacity
               key={culture}
               style={[
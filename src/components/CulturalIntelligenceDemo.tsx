@@ -10,8 +10,8 @@ import {
 } from 'react-native';
 import { useCulturalContext } from '../contexts/CulturalContext';
 import { useConversationState } from '../hooks/useConversationState';
-import { CulturalGroup, ConversationContext } from '../types';
-import { getCulturalServices } from '../services/cultural';
+import { CULTURAL_GROUPS, CulturalGroup, ConversationContext } from '../types';
+import { CulturalPackService, getCulturalServices } from '../services/cultural';
 
 export const CulturalIntelligenceDemo: React.FC = () => {
   const [selectedCulture, setSelectedCulture] = useState<CulturalGroup>('western');
@@ -40,6 +40,7 @@ export const CulturalIntelligenceDemo: React.FC = () => {
     getFamilyInvolvementGuidance,
     adaptTerminology,
     detectCulturalPreferences,
+    respondToCulturalSuggestion,
     warmSpeechCache,
     getCachedPhrase,
     validateCulturalAppropriateness,
@@ -75,7 +76,7 @@ export const CulturalIntelligenceDemo: React.FC = () => {
 
   const handleCultureChange = (culture: CulturalGroup) => {
     setSelectedCulture(culture);
-    const language = culture === 'maori' ? 'mi' : culture === 'chinese' ? 'zh' : 'en';
+    const language = CulturalPackService.getInstance().getPack(culture).profile.preferredLanguage;
     setPreferredLanguage(language);
   };
 
@@ -111,12 +112,27 @@ export const CulturalIntelligenceDemo: React.FC = () => {
   };
 
   const testCulturalDetection = async () => {
-    const languageUsage = { en: 10, mi: 2, zh: 0 };
-    const detected = await detectCulturalPreferences(detectionHistory, languageUsage);
+    const result = await detectCulturalPreferences(detectionHistory);
+    if (!result) return;
+    
+    const probabilities = CULTURAL_GROUPS
+      .map(group => `- ${group}: ${Math.round(result.probabilities[group] * 100)}%`)
+      .join('\n');
+    const summary = `Most likely: ${result.mostLikely} (${Math.round(result.confidence * 100)}%) after ${result.sessions} conversation(s)\n\n${probabilities}`;
+    const { suggestion } = result;
+    
+    if (!suggestion) {
+      Alert.alert('Cultural Detection', summary);
+      return;
+    }
     
     Alert.alert(
       'Cultural Detection',
-      `Detected Cultural Group: ${detected}\n\nBased on conversation history:\n${detectionHistory.join('\n')}`
+      `${summary}\n\nSwitch the profile from ${suggestion.currentGroup} to ${suggestion.suggestedGroup}?`,
+      [
+        { text: 'Not now', style: 'cancel', onPress: () => respondToCulturalSuggestion(false, 'user') },
+        { text: 'Switch', onPress: () => respondToCulturalSuggestion(true, 'user') }
+      ]
     );
   };
 
@@ -204,7 +220,7 @@ export const CulturalIntelligenceDemo: React.FC = () => {
         </Text>
         
         <View style={styles.buttonRow}>
-          {(['maori', 'chinese', 'western'] as CulturalGroup[]).map(culture => (
+          {CULTURAL_GROUPS.map(culture => (
             <TouchableOpacity
               key={culture}
               style={[
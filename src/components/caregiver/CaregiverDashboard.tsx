@@ -21,6 +21,12 @@ import Icon from "react-native-vector-icons/MaterialIcons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { format, subDays, isToday } from "date-fns";
 import { supabase } from "../../services/supabase";
+import { tables } from "../../services/supabase/repositories";
+import {
+  toCaregiverAlert,
+  toCheckInSchedule,
+  toWellnessIndicator,
+} from "../../services/supabase/mappers";
 import {
   notificationService as _notificationService,
   backgroundScheduler as _backgroundScheduler,
@@ -33,6 +39,7 @@ import {
 } from "../../types/notifications";
 import { CulturalGroup } from "../../types/cultural";
 import { theme } from "../../theme";
+import CulturalPackService from "../../services/cultural/CulturalPackService";
 
 const { width: _width } = Dimensions.get("window");
 
@@ -108,98 +115,42 @@ const CaregiverDashboard: React.FC = () => {
         id,
         full_name,
         cultural_profiles (cultural_group),
-        check_in_schedules (last_check_in),
-        wellness_indicators (
-          date,
-          check_in_completed,
-          conversation_quality
-        )
+        check_in_schedules (last_check_in)
       `,
       )
       .order("full_name");
 
     if (error) throw error;
-
-    interface DatabaseUser {
-      id: string;
-      full_name: string;
-      cultural_profiles: Array<{ cultural_group: string }>;
-      check_in_schedules: Array<{ last_check_in: string }>;
-      wellness_indicators: Array<{
-        id?: string;
-        user_id?: string;
-        date: string;
-        check_in_completed: boolean;
-        conversation_quality: string;
-        concerns?: string[];
-        positive_notes?: string[];
-        cultural_engagement?: number;
-        created_at?: string;
-        updated_at?: string;
-      }>;
-    }
-
-    interface RawWellnessIndicator {
-      id?: string;
-      user_id?: string;
-      date: string;
-      check_in_completed: boolean;
-      conversation_quality: string;
-      concerns?: string[];
-      positive_notes?: string[];
-      cultural_engagement?: number;
-      created_at?: string;
-      updated_at?: string;
-    }
-
-    const patientsData: PatientOverview[] =
-      data?.map((user: DatabaseUser) => {
-        const rawWellness = user.wellness_indicators
-          ?.filter(
-            (w: RawWellnessIndicator) => w.date >= format(subDays(new Date(), 7), "yyyy-MM-dd"),
-          )
-          ?.sort((a: RawWellnessIndicator, b: RawWellnessIndicator) => b.date.localeCompare(a.date));
-
-        // Transform raw wellness data to WellnessIndicator format
-        const recentWellness: WellnessIndicator[] = rawWellness?.map((w: RawWellnessIndicator) => ({
-          id: w.id || `${user.id}_${w.date}`,
-          userId: w.user_id || user.id,
-          date: w.date,
-          checkInCompleted: Boolean(w.check_in_completed),
-          conversationQuality: (w.conversation_quality || 'fair') as 'poor' | 'fair' | 'good' | 'excellent',
-          moodIndicators: {
-            anxious: false,
-            confused: false,
-            content: true,
-            agitated: false,
-            responsive: true
-          },
-          culturalEngagement: {
-            traditionalGreetingsUsed: false,
-            familyMentioned: false,
-            culturalTopicsDiscussed: false,
-            spiritualReferencesNoted: false
-          },
-          concerns: Array.isArray(w.concerns) ? w.concerns : [],
-          positiveNotes: Array.isArray(w.positive_notes) ? w.positive_notes : [],
-          createdAt: w.created_at || new Date().toISOString(),
-          updatedAt: w.updated_at || new Date().toISOString()
-        })) || [];
-
-        const lastCheckIn = user.check_in_schedules?.[0]?.last_check_in;
-        const wellnessScore = calculateWellnessScore(recentWellness);
-        const checkInStreak = calculateCheckInStreak(recentWellness);
-
-        return {
-          id: user.id,
-          fullName: user.full_name,
-          culturalGroup: (user.cultural_profiles?.[0]?.cultural_group || "western") as CulturalGroup,
-          lastCheckIn,
-          currentWellnessScore: wellnessScore,
-          alertsCount: 0, // Will be loaded separately
-          checkInStreak,
-        };
-      }) || [];
+    const users = data || [];
+
+    // wellness_indicators references auth.users, so it cannot be embedded above
+    const wellnessRows = await tables.wellness_indicators.find(
+      {},
+      {
+        in: { column: "user_id", values: users.map((user) => user.id) },
+        gte: { date: format(subDays(new Date(), 7), "yyyy-MM-dd") },
+        orderBy: "date",
+        ascending: false,
+      },
+    );
+    const recentWellness = wellnessRows.map(toWellnessIndicator);
+
+    const patientsData: PatientOverview[] = users.map((user) => {
+      const userWellness = recentWellness.filter(
+        (indicator) => indicator.userId === user.id,
+      );
+
+      return {
+        id: user.id,
+        fullName: user.full_name,
+        culturalGroup: (user.cultural_profiles?.cultural_group ||
+          "western") as CulturalGroup,
+        lastCheckIn: user.check_in_schedules[0]?.last_check_in ?? null,
+        currentWellnessScore: calculateWellnessScore(userWellness),
+        alertsCount: 0, // Will be loaded separately
+        checkInStreak: calculateCheckInStreak(userWellness),
+      };
+    });
 
     setPatients(patientsData);
     if (patientsData.length > 0 && !selectedPatient) {
@@ -208,15 +159,11 @@ const CaregiverDashboard: React.FC = () => {
   };
 
   const loadAlerts = async () => {
-    const { data, error } = await supabase
-      .from("caregiver_alerts")
-      .select("*")
-      .eq("is_resolved", false)
-      .order("timestamp", { ascending: false })
-      .limit(20);
-
-    if (error) throw error;
-    setAlerts(data || []);
+    const rows = await tables.caregiver_alerts.find(
+      { is_resolved: false },
+      { orderBy: "timestamp", ascending: false, limit: 20 },
+    );
+    setAlerts(rows.map(toCaregiverAlert));
   };
 
   const loadPatientDetails = async (patientId: string) => {
@@ -228,18 +175,14 @@ const CaregiverDashboard: React.FC = () => {
   };
 
   const loadConversationSummaries = async (patientId: string) => {
-    const { data, error } = await supabase
-      .from("conversations")
-      .select("*")
-      .eq("user_id", patientId)
-      .order("created_at", { ascending: false })
-      .limit(10);
-
-    if (error) throw error;
+    const data = await tables.conversations.find(
+      { user_id: patientId },
+      { orderBy: "created_at", ascending: false, limit: 10 },
+    );
 
     // Transform conversation data to summaries
     const summaries: ConversationSummary[] =
-      data?.map((conv) => ({
+      data.map((conv) => ({
         id: conv.id,
         date: conv.created_at,
         quality: "good", // Would be calculated from conversation analysis
@@ -260,36 +203,31 @@ const CaregiverDashboard: React.FC = () => {
   };
 
   const loadPatientWellnessData = async (patientId: string) => {
-    const { data, error } = await supabase
-      .from("wellness_indicators")
-      .select("*")
-      .eq("user_id", patientId)
-      .gte("date", format(subDays(new Date(), 30), "yyyy-MM-dd"))
-      .order("date", { ascending: false });
-
-    if (error) throw error;
-    setWellnessData(data || []);
+    const rows = await tables.wellness_indicators.find(
+      { user_id: patientId },
+      {
+        gte: { date: format(subDays(new Date(), 30), "yyyy-MM-dd") },
+        orderBy: "date",
+        ascending: false,
+      },
+    );
+    setWellnessData(rows.map(toWellnessIndicator));
   };
 
   const loadPatientSchedules = async (patientId: string) => {
-    const { data, error } = await supabase
-      .from("check_in_schedules")
-      .select("*")
-      .eq("user_id", patientId)
-      .eq("is_active", true);
-
-    if (error) throw error;
-    setCheckInSchedules(data || []);
+    const rows = await tables.check_in_schedules.find({
+      user_id: patientId,
+      is_active: true,
+    });
+    setCheckInSchedules(rows.map(toCheckInSchedule));
   };
 
   const loadWellnessData = async () => {
-    const { data, error } = await supabase
-      .from("wellness_indicators")
-      .select("*")
-      .gte("date", format(subDays(new Date(), 7), "yyyy-MM-dd"));
-
-    if (error) throw error;
-    setWellnessData(data || []);
+    const rows = await tables.wellness_indicators.find(
+      {},
+      { gte: { date: format(subDays(new Date(), 7), "yyyy-MM-dd") } },
+    );
+    setWellnessData(rows.map(toWellnessIndicator));
   };
 
   const calculateWellnessScore = (indicators: WellnessIndicator[]): number => {
@@ -324,27 +262,11 @@ const CaregiverDashboard: React.FC = () => {
     return streak;
   };
 
-  const getCulturalIcon = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case "maori":
-        return "nature-people";
-      case "chinese":
-        return "language";
-      default:
-        return "person";
-    }
-  };
+  const getCulturalIcon = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.icon;
 
-  const getCulturalColor = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case "maori":
-        return "#2E7D32";
-      case "chinese":
-        return "#C62828";
-      default:
-        return theme.colors.primary;
-    }
-  };
+  const getCulturalColor = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.dashboardColor || theme.colors.primary;
 
   const getWellnessColor = (score: number): string => {
     if (score >= 80) return "#4CAF50";
@@ -368,15 +290,12 @@ const CaregiverDashboard: React.FC = () => {
 
   const handleResolveAlert = async (alertId: string, notes?: string) => {
     try {
-      await supabase
-        .from("caregiver_alerts")
-        .update({
-          is_resolved: true,
-          resolved_by: "caregiver",
-          resolved_at: new Date().toISOString(),
-          notes: notes || "Resolved by caregiver",
-        })
-        .eq("id", alertId);
+      await tables.caregiver_alerts.update(alertId, {
+        is_resolved: true,
+        resolved_by: "caregiver",
+        resolved_at: new Date().toISOString(),
+        notes: notes || "Resolved by caregiver",
+      });
 
       setAlerts((prev) => prev.filter((alert) => alert.id !== alertId));
       setShowAlertDialog(false);
@@ -15,6 +15,13 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { format, subDays, isToday, differenceInDays as _differenceInDays } from 'date-fns';
 import { LineChart, BarChart as _BarChart } from 'react-native-chart-kit';
 import { supabase } from '../../services/supabase';
+import { tables } from '../../services/supabase/repositories';
+import {
+  toCheckInSchedule,
+  toFamilyNotification,
+  toNotificationPreferences,
+  toWellnessIndicator,
+} from '../../services/supabase/mappers';
 import { notificationService } from '../../services/notifications';
 import {
   FamilyNotification,
@@ -23,7 +30,9 @@ import {
   NotificationPreferences,
 } from '../../types/notifications';
 import { CulturalGroup } from '../../types/cultural';
+import { Tables } from '../../types/database';
 import { theme } from '../../theme';
+import CulturalPackService from '../../services/cultural/CulturalPackService';
 
 const { width } = Dimensions.get('window');
 
@@ -50,6 +59,17 @@ interface WeeklySummary {
   positives: string[];
 }
 
+const toWeeklySummary = (report: Tables<'wellness_reports'>): WeeklySummary => ({
+  weekStart: report.week_start,
+  checkInsCompleted: report.check_ins_completed ?? 0,
+  totalDays: report.total_days ?? 0,
+  completionRate: report.completion_rate ?? 0,
+  averageQuality: report.average_conversation_quality ?? 0,
+  culturalEngagement: report.cultural_engagement_score ?? 0,
+  concerns: report.concerns || [],
+  positives: report.positive_notes || [],
+});
+
 const FamilyDashboard: React.FC = () => {
   const insets = useSafeAreaInsets();
   const [refreshing, setRefreshing] = useState(false);
@@ -117,80 +137,54 @@ const FamilyDashboard: React.FC = () => {
   const loadFamilyNotifications = async () => {
     if (!lovedOne) return;
 
-    const { data, error } = await supabase
-      .from('family_notifications')
-      .select('*')
-      .eq('user_id', lovedOne.id)
-      .order('timestamp', { ascending: false })
-      .limit(20);
-
-    if (error) throw error;
-    setNotifications(data || []);
+    const rows = await tables.family_notifications.find(
+      { user_id: lovedOne.id },
+      { orderBy: 'timestamp', ascending: false, limit: 20 }
+    );
+    setNotifications(rows.map(toFamilyNotification));
   };
 
   const loadWeeklySummaries = async () => {
     if (!lovedOne) return;
 
-    const { data, error } = await supabase
-      .from('wellness_reports')
-      .select('*')
-      .eq('user_id', lovedOne.id)
-      .order('week_start', { ascending: false })
-      .limit(8);
-
-    if (error) throw error;
-    setWeeklySummaries(data || []);
+    const rows = await tables.wellness_reports.find(
+      { user_id: lovedOne.id },
+      { orderBy: 'week_start', ascending: false, limit: 8 }
+    );
+    setWeeklySummaries(rows.map(toWeeklySummary));
   };
 
   const loadWellnessData = async () => {
     if (!lovedOne) return;
 
-    const { data, error } = await supabase
-      .from('wellness_indicators')
-      .select('*')
-      .eq('user_id', lovedOne.id)
-      .gte('date', format(subDays(new Date(), 30), 'yyyy-MM-dd'))
-      .order('date', { ascending: false });
-
-    if (error) throw error;
-    setWellnessData(data || []);
+    const rows = await tables.wellness_indicators.find(
+      { user_id: lovedOne.id },
+      { gte: { date: format(subDays(new Date(), 30), 'yyyy-MM-dd') }, orderBy: 'date', ascending: false }
+    );
+    setWellnessData(rows.map(toWellnessIndicator));
   };
 
   const loadCheckInSchedules = async () => {
     if (!lovedOne) return;
 
-    const { data, error } = await supabase
-      .from('check_in_schedules')
-      .select('*')
-      .eq('user_id', lovedOne.id);
-
-    if (error) throw error;
-    setSchedules(data || []);
+    const rows = await tables.check_in_schedules.find({ user_id: lovedOne.id });
+    setSchedules(rows.map(toCheckInSchedule));
   };
 
   const loadNotificationPreferences = async () => {
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) return;
 
-    const { data, error } = await supabase
-      .from('notification_preferences')
-      .select('*')
-      .eq('user_id', user.user.id)
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error;
-    setNotificationPrefs(data);
+    const row = await tables.notification_preferences.findOne({ user_id: user.user.id });
+    setNotificationPrefs(row ? toNotificationPreferences(row) : null);
   };
 
-  const getRecentWellnessData = async (userId: string) => {
-    const { data } = await supabase
-      .from('wellness_indicators')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('date', format(subDays(new Date(), 7), 'yyyy-MM-dd'))
-      .order('date', { ascending: false });
-
-    return data || [];
+  const getRecentWellnessData = async (userId: string): Promise<WellnessIndicator[]> => {
+    const rows = await tables.wellness_indicators.find(
+      { user_id: userId },
+      { gte: { date: format(subDays(new Date(), 7), 'yyyy-MM-dd') }, orderBy: 'date', ascending: false }
+    );
+    return rows.map(toWellnessIndicator);
   };
 
   const calculateWellnessScore = (indicators: WellnessIndicator[]): number => {
@@ -228,29 +222,14 @@ const FamilyDashboard: React.FC = () => {
     return [...new Set(allPositives)].slice(0, 3);
   };
 
-  const getCulturalGreeting = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return 'Kia ora';
-      case 'chinese': return '你好';
-      default: return 'Hello';
-    }
-  };
+  const getCulturalGreeting = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.greeting;
 
-  const getFamilyTerm = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return 'whānau';
-      case 'chinese': return '家人';
-      default: return 'family';
-    }
-  };
+  const getFamilyTerm = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.familyTerm;
 
-  const getCulturalColor = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return '#2E7D32';
-      case 'chinese': return '#C62828';
-      default: return theme.colors.primary;
-    }
-  };
+  const getCulturalColor = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.dashboardColor || theme.colors.primary;
 
   const getWellnessColor = (score: number): string => {
     if (score >= 80) return '#4CAF50';
@@ -278,10 +257,7 @@ const FamilyDashboard: React.FC = () => {
   };
 
   const markNotificationRead = async (notificationId: string) => {
-    await supabase
-      .from('family_notifications')
-      .update({ is_read: true })
-      .eq('id', notificationId);
+    await tables.family_notifications.update(notificationId, { is_read: true });
 
     setNotifications(prev => 
       prev.map(notif => 
@@ -16,13 +16,16 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { format, subDays, addHours as _addHours, isToday as _isToday } from 'date-fns';
 import { BarChart as _BarChart, PieChart } from 'react-native-chart-kit';
 import { supabase } from '../../services/supabase';
+import { tables } from '../../services/supabase/repositories';
+import { toCulturalProfile, toWellnessIndicator } from '../../services/supabase/mappers';
 import { notificationService as _notificationService } from '../../services/notifications';
 import {
   CaregiverAlert as _CaregiverAlert,
   WellnessIndicator,
   CheckInSchedule as _CheckInSchedule,
 } from '../../types/notifications';
-import { CulturalGroup, CulturalProfile, PreferredLanguage } from '../../types/cultural';
+import { CulturalGroup, CulturalProfile } from '../../types/cultural';
+import CulturalPackService from '../../services/cultural/CulturalPackService';
 import { theme } from '../../theme';
 
 const { width } = Dimensions.get('window');
@@ -132,124 +135,87 @@ const StaffDashboard: React.FC = () => {
         full_name,
         cultural_profiles (*),
         emergency_contacts (*),
-        check_in_schedules (last_check_in),
-        wellness_indicators (
-          date,
-          check_in_completed,
-          conversation_quality,
-          concerns
-        ),
-        caregiver_alerts (id, is_resolved)
+        check_in_schedules (last_check_in)
       `)
-      .eq('user_type', 'resident')
       .order('full_name');
 
     if (error) throw error;
-
-    const residentsData: ResidentProfile[] = data?.map((user, index) => {
-      const rawWellness = user.wellness_indicators
-        ?.filter(w => w.date >= format(subDays(new Date(), 7), 'yyyy-MM-dd'))
-        ?.sort((a, b) => b.date.localeCompare(a.date));
-
-      // Transform wellness data to match WellnessIndicator interface
-      const recentWellness: WellnessIndicator[] = rawWellness?.map(w => ({
-        id: (w as { id?: string }).id || `${user.id}_${w.date}`,
-        userId: user.id,
-        date: w.date,
-        checkInCompleted: Boolean(w.check_in_completed),
-        conversationQuality: (w.conversation_quality || 'fair') as 'poor' | 'fair' | 'good' | 'excellent',
-        moodIndicators: {
-          anxious: false,
-          confused: false,
-          content: true,
-          agitated: false,
-          responsive: true
-        },
-        culturalEngagement: {
-          traditionalGreetingsUsed: false,
-          familyMentioned: false,
-          culturalTopicsDiscussed: false,
-          spiritualReferencesNoted: false
-        },
-        concerns: Array.isArray((w as { concerns?: string[] }).concerns) ? (w as { concerns?: string[] }).concerns : [],
-        positiveNotes: Array.isArray((w as { positive_notes?: string[] }).positive_notes) ? (w as { positive_notes?: string[] }).positive_notes : [],
-        createdAt: (w as { created_at?: string }).created_at || new Date().toISOString(),
-        updatedAt: (w as { updated_at?: string }).updated_at || new Date().toISOString()
-      })) || [];
-
-      const wellnessScore = calculateWellnessScore(recentWellness);
-      const currentAlerts = user.caregiver_alerts?.filter(alert => !alert.is_resolved).length || 0;
-      const culturalProfile = user.cultural_profiles?.[0];
+    const users = data || [];
+    const userIds = users.map(user => user.id);
+
+    // Wellness and alerts reference auth.users, so they are fetched alongside rather than embedded
+    const [wellnessRows, openAlerts] = await Promise.all([
+      tables.wellness_indicators.find({}, {
+        in: { column: 'user_id', values: userIds },
+        gte: { date: format(subDays(new Date(), 7), 'yyyy-MM-dd') },
+        orderBy: 'date',
+        ascending: false,
+      }),
+      tables.caregiver_alerts.find({ is_resolved: false }, { in: { column: 'user_id', values: userIds } }),
+    ]);
+    const recentWellness = wellnessRows.map(toWellnessIndicator);
+
+    const residentsData: ResidentProfile[] = users.map((user, index) => {
+      const wellnessScore = calculateWellnessScore(recentWellness.filter(indicator => indicator.userId === user.id));
+      const currentAlerts = openAlerts.filter(alert => alert.user_id === user.id).length;
+      const culturalProfile: CulturalProfile = user.cultural_profiles
+        ? toCulturalProfile(user.cultural_profiles)
+        : { id: `${user.id}_profile`, ...CulturalPackService.getInstance().getProfileDefaults('western') };
 
       return {
         id: user.id,
         fullName: user.full_name,
         room: `Room ${100 + index}`,
-        culturalGroup: culturalProfile?.cultural_group || 'western',
-        preferredLanguage: culturalProfile?.preferred_language || 'en',
-        culturalProfile: culturalProfile || {
-          id: `${user.id}_profile`,
-          culturalGroup: 'western' as CulturalGroup,
-          preferredLanguage: 'en' as PreferredLanguage,
-          preferredTerms: {},
-          communicationStyle: 'direct',
-          familyInvolvementLevel: 'medium',
-          spiritualConsiderations: [],
-          dietaryRestrictions: [],
-          holidaysObserved: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
+        culturalGroup: culturalProfile.culturalGroup,
+        preferredLanguage: culturalProfile.preferredLanguage,
+        culturalProfile,
         admissionDate: '2024-01-15',
-        emergencyContacts: user.emergency_contacts?.map(contact => ({
+        emergencyContacts: user.emergency_contacts.map(contact => ({
           name: contact.name,
           relationship: contact.relationship,
           phone: contact.phone,
           preferredLanguage: 'en',
-        })) || [],
+        })),
         careTeam: ['Dr. Smith', 'Nurse Johnson'],
         currentAlerts,
-        lastCheckIn: user.check_in_schedules?.[0]?.last_check_in || null,
+        lastCheckIn: user.check_in_schedules[0]?.last_check_in ?? null,
         wellnessScore,
         culturalCarePlan: {
           id: `plan_${user.id}`,
           lastUpdated: '2024-12-01',
-          keyConsiderations: generateCulturalConsiderations(culturalProfile?.cultural_group),
-          familyInvolvement: getFamilyInvolvementLevel(culturalProfile?.cultural_group),
-          communicationPreferences: getCommunicationPreferences(culturalProfile?.cultural_group),
-          spiritualNeeds: getSpiritualNeeds(culturalProfile?.cultural_group),
+          keyConsiderations: generateCulturalConsiderations(culturalProfile.culturalGroup),
+          familyInvolvement: getFamilyInvolvementLevel(culturalProfile.culturalGroup),
+          communicationPreferences: getCommunicationPreferences(culturalProfile.culturalGroup),
+          spiritualNeeds: getSpiritualNeeds(culturalProfile.culturalGroup),
         },
       };
-    }) || [];
+    });
 
     setResidents(residentsData);
   };
 
   const loadCulturalAlerts = async () => {
-    const { data, error } = await supabase
-      .from('caregiver_alerts')
-      .select(`
-        *,
-        users (full_name)
-      `)
-      .eq('is_resolved', false)
-      .order('timestamp', { ascending: false });
-
-    if (error) throw error;
+    const alerts = await tables.caregiver_alerts.find(
+      { is_resolved: false },
+      { orderBy: 'timestamp', ascending: false }
+    );
+    const residentIds = [...new Set(alerts.map(alert => alert.user_id).filter((id): id is string => !!id))];
+    const residentRows = await tables.users.find({}, { in: { column: 'id', values: residentIds } });
+    const residentNames = new Map(residentRows.map(user => [user.id, user.full_name]));
 
-    const alertsData: CulturalAlert[] = data?.map(alert => ({
+    const alertsData: CulturalAlert[] = alerts.map(alert => ({
       id: alert.id,
-      residentId: alert.user_id,
-      residentName: alert.users?.full_name || 'Unknown',
+      residentId: alert.user_id || '',
+      residentName: (alert.user_id && residentNames.get(alert.user_id)) || 'Unknown',
       alertType: mapAlertType(alert.alert_type),
-      severity: alert.severity as 'low' | 'medium' | 'high' | 'critical',
+      severity: alert.severity as CulturalAlert['severity'],
       message: alert.description,
       culturalContext: alert.cultural_context || '',
       recommendations: alert.suggested_actions || [],
-      timestamp: alert.timestamp,
-      isResolved: alert.is_resolved,
-      assignedStaff: alert.caregiver_id,
-    })) || [];
+      timestamp: alert.timestamp || new Date().toISOString(),
+      isResolved: alert.is_resolved ?? false,
+      assignedStaff: alert.caregiver_id ?? undefined,
+    }));
 
     setCulturalAlerts(alertsData);
   };
@@ -343,54 +309,17 @@ const StaffDashboard: React.FC = () => {
     setEducationResources(mockResources);
   };
 
-  const generateCulturalConsiderations = (culturalGroup: CulturalGroup): string[] => {
-    switch (culturalGroup) {
-      case 'maori':
-        return [
-          'Use traditional greetings (Kia ora)',
-          'Involve whānau in care decisions',
-          'Respect spiritual connections',
-          'Consider holistic wellbeing approach',
-        ];
-      case 'chinese':
-        return [
-          'Show respect for family hierarchy',
-          'Use formal communication style',
-          'Consider face-saving approaches',
-          'Involve eldest family members in decisions',
-        ];
-      default:
-        return [
-          'Direct communication preferred',
-          'Individual autonomy important',
-          'Medical facts presented clearly',
-        ];
-    }
-  };
+  const generateCulturalConsiderations = (culturalGroup: CulturalGroup): string[] =>
+    [...CulturalPackService.getInstance().getPack(culturalGroup).care.considerations];
 
-  const getFamilyInvolvementLevel = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return 'High - Whānau central to care decisions';
-      case 'chinese': return 'High - Hierarchical family involvement';
-      default: return 'Moderate - Individual choice with family support';
-    }
-  };
+  const getFamilyInvolvementLevel = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).care.familyInvolvement;
 
-  const getCommunicationPreferences = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return 'Indirect, respectful, storytelling approach';
-      case 'chinese': return 'Formal, hierarchical, face-saving';
-      default: return 'Direct, medical terminology acceptable';
-    }
-  };
+  const getCommunicationPreferences = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).care.communication;
 
-  const getSpiritualNeeds = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return 'Connection to land, ancestors, traditional healing';
-      case 'chinese': return 'Harmony, balance, traditional medicine concepts';
-      default: return 'Individual spiritual preferences to be discussed';
-    }
-  };
+  const getSpiritualNeeds = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).care.spiritualNeeds;
 
   const mapAlertType = (alertType: string): CulturalAlert['alertType'] => {
     const mapping: Record<string, CulturalAlert['alertType']> = {
@@ -416,21 +345,11 @@ const StaffDashboard: React.FC = () => {
     return Math.round(((avgQuality / 4) * 0.6 + completionRate * 0.4) * 100);
   };
 
-  const getCulturalIcon = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return 'nature-people';
-      case 'chinese': return 'language';
-      default: return 'person';
-    }
-  };
+  const getCulturalIcon = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.icon;
 
-  const getCulturalColor = (culturalGroup: CulturalGroup): string => {
-    switch (culturalGroup) {
-      case 'maori': return '#2E7D32';
-      case 'chinese': return '#C62828';
-      default: return theme.colors.primary;
-    }
-  };
+  const getCulturalColor = (culturalGroup: CulturalGroup): string =>
+    CulturalPackService.getInstance().getPack(culturalGroup).presentation.dashboardColor || theme.colors.primary;
 
   const getAlertSeverityColor = (severity: string): string => {
     switch (severity) {
@@ -458,15 +377,12 @@ const StaffDashboard: React.FC = () => {
 
   const handleResolveAlert = async (alertId: string, notes?: string) => {
     try {
-      await supabase
-        .from('caregiver_alerts')
-        .update({
-          is_resolved: true,
-          resolved_by: 'staff',
-          resolved_at: new Date().toISOString(),
-          notes: notes || 'Resolved by staff',
-        })
-        .eq('id', alertId);
+      await tables.caregiver_alerts.update(alertId, {
+        is_resolved: true,
+        resolved_by: 'staff',
+        resolved_at: new Date().toISOString(),
+        notes: notes || 'Resolved by staff',
+      });
 
       setCulturalAlerts(prev => prev.filter(alert => alert.id !== alertId));
       setShowAlertDialog(false);
@@ -602,9 +518,13 @@ const StaffDashboard: React.FC = () => {
           }
         >
           <Menu.Item onPress={() => { setSelectedCulturalGroup('all'); setFilterMenuVisible(false); }} title="All Groups" />
-          <Menu.Item onPress={() => { setSelectedCulturalGroup('maori'); setFilterMenuVisible(false); }} title="Māori" />
-          <Menu.Item onPress={() => { setSelectedCulturalGroup('chinese'); setFilterMenuVisible(false); }} title="Chinese" />
-          <Menu.Item onPress={() => { setSelectedCulturalGroup('western'); setFilterMenuVisible(false); }} title="Western" />
+          {CulturalPackService.getInstance().getPacks().map(pack => (
+            <Menu.Item
+              key={pack.culturalGroup}
+              onPress={() => { setSelectedCulturalGroup(pack.culturalGroup); setFilterMenuVisible(false); }}
+              title={pack.name}
+            />
+          ))}
         </Menu>
       </View>
 
@@ -1,5 +1,5 @@
 import { format } from "date-fns";
-import { enUS, zhCN } from "date-fns/locale";
+import { enUS, hi, ko, zhCN } from "date-fns/locale";
 import React, { useCallback, useMemo, useState } from "react";
 import {
   Alert,
@@ -25,6 +25,9 @@ import {
 } from "react-native-paper";
 import Icon from "react-native-vector-icons/MaterialCommunityIcons";
 import { useCulturalContext } from "../../contexts/CulturalContext";
+import CulturalPackService from "../../services/cultural/CulturalPackService";
+import { LANGUAGES } from "../../config/languages";
+import { PREFERRED_LANGUAGES, PreferredLanguage } from "../../types/cultural";
 
 interface ConversationMessage {
   id: string;
@@ -33,7 +36,7 @@ interface ConversationMessage {
   isUser: boolean;
   culturalContext?: string;
   emotions?: string[];
-  language: "en" | "mi" | "zh";
+  language: PreferredLanguage;
 }
 
 interface ConversationSession {
@@ -80,7 +83,7 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   const [filterTags, setFilterTags] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState<
-    "all" | "en" | "mi" | "zh"
+    "all" | PreferredLanguage
   >("all");
   const [expandedSessions, setExpandedSessions] = useState<Set<string>>(
     new Set()
@@ -88,51 +91,8 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   const [menuVisible, setMenuVisible] = useState(false);
 
   // Cultural colors and styling
-  const getCulturalColors = () => {
-    const baseColors = isHighContrast
-      ? {
-          maori: {
-            primary: "#000000",
-            secondary: "#FFFFFF",
-            accent: "#FF0000",
-            background: "#FFFFFF",
-          },
-          chinese: {
-            primary: "#000000",
-            secondary: "#FFFFFF",
-            accent: "#FFD700",
-            background: "#FFFFFF",
-          },
-          western: {
-            primary: "#000000",
-            secondary: "#FFFFFF",
-            accent: "#0066CC",
-            background: "#FFFFFF",
-          },
-        }
-      : {
-          maori: {
-            primary: "#8B4513",
-            secondary: "#F5DEB3",
-            accent: "#228B22",
-            background: "#FFF8DC",
-          },
-          chinese: {
-            primary: "#DC143C",
-            secondary: "#FFD700",
-            accent: "#FF6347",
-            background: "#FFF5EE",
-          },
-          western: {
-            primary: "#6366F1",
-            secondary: "#E0E7FF",
-            accent: "#8B5CF6",
-            background: "#F9FAFB",
-          },
-        };
-
-    return baseColors[culturalProfile.culturalGroup];
-  };
+  const getCulturalColors = () =>
+    CulturalPackService.getInstance().getColors(culturalProfile.culturalGroup, isHighContrast);
 
   const colors = getCulturalColors();
 
@@ -149,9 +109,13 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
 
   // Cultural date formatting
   const getDateLocale = () => {
-    switch (culturalProfile.culturalGroup) {
-      case "chinese":
+    switch (culturalProfile.preferredLanguage) {
+      case "zh":
         return zhCN;
+      case "hi":
+        return hi;
+      case "ko":
+        return ko;
       default:
         return enUS;
     }
@@ -662,7 +626,7 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
             </Text>
 
             <View style={styles.languageFilters}>
-              {["all", "en", "mi", "zh"].map((lang) => (
+              {["all", ...PREFERRED_LANGUAGES].map((lang) => (
                 <Chip
                   key={lang}
                   mode={selectedLanguage === lang ? "flat" : "outlined"}
@@ -684,11 +648,7 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                 >
                   {lang === "all"
                     ? "All Languages"
-                    : lang === "en"
-                    ? "English"
-                    : lang === "mi"
-                    ? "Māori"
-                    : "中文"}
+                    : LANGUAGES[lang as PreferredLanguage].nativeName}
                 </Chip>
               ))}
             </View>
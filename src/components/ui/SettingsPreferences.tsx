@@ -1,19 +1,16 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, Vibration } from 'react-native';
 import { Text, Surface, Switch, Menu } from 'react-native-paper';
 import Slider from '@react-native-community/slider';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useCulturalContext } from '../../contexts/CulturalContext';
-import { CulturalGroup, PreferredLanguage } from '../../types/cultural';
-
-interface VoiceProfile {
-  id: string;
-  name: string;
-  culture: CulturalGroup;
-  gender: 'male' | 'female' | 'neutral';
-  age: 'young' | 'middle' | 'elder';
-  warmth: number; // 1-10 scale
-}
+import { CULTURAL_GROUPS, CulturalGroup, PREFERRED_LANGUAGES, PreferredLanguage } from '../../types/cultural';
+import { LANGUAGES } from '../../config/languages';
+import { VoiceProfile } from '../../types/conversation';
+import VoiceProfileService, { VoiceProfileChanges } from '../../services/voice/VoiceProfileService';
+import { getCurrentUserId } from '../../services/supabase/auth';
+import { VOICE_OPTIONS } from '../../services/tts/voices';
+import CulturalPackService from '../../services/cultural/CulturalPackService';
 
 interface FamilyContact {
   id: string;
@@ -44,13 +41,13 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
   // Settings state
   const [selectedCulture, setSelectedCulture] = useState<CulturalGroup>(culturalProfile.culturalGroup);
   const [selectedLanguage, setSelectedLanguage] = useState<PreferredLanguage>(culturalProfile.preferredLanguage);
-  const [selectedVoice, setSelectedVoice] = useState<string>('default');
+  const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null>(null);
+  const [previewingLanguage, setPreviewingLanguage] = useState<PreferredLanguage | null>(null);
   const [conversationFrequency, setConversationFrequency] = useState<'daily' | 'weekly' | 'as-needed'>('daily');
   const [enableNotifications, setEnableNotifications] = useState(true);
   const [enableHapticFeedback, setEnableHapticFeedback] = useState(true);
   const [textSizePreference, setTextSizePreference] = useState(textSize);
   const [highContrastMode, setHighContrastMode] = useState(isHighContrast);
-  const [voiceSpeed, setVoiceSpeed] = useState(1.0);
   const [familyContacts, setFamilyContacts] = useState<FamilyContact[]>([]);
   const [privacyLevel, setPrivacyLevel] = useState<'open' | 'family-only' | 'private'>('family-only');
   
@@ -60,30 +57,34 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
 
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['cultural']));
 
-  // Voice profiles for each culture
-  const voiceProfiles: VoiceProfile[] = [
-    { id: 'maori-elder-f', name: 'Kuia (Elder Woman)', culture: 'maori', gender: 'female', age: 'elder', warmth: 9 },
-    { id: 'maori-elder-m', name: 'Kaumātua (Elder Man)', culture: 'maori', gender: 'male', age: 'elder', warmth: 8 },
-    { id: 'chinese-elder-f', name: '奶奶 (Grandmother)', culture: 'chinese', gender: 'female', age: 'elder', warmth: 9 },
-    { id: 'chinese-middle-f', name: '阿姨 (Aunt)', culture: 'chinese', gender: 'female', age: 'middle', warmth: 7 },
-    { id: 'western-elder-f', name: 'Caring Grandmother', culture: 'western', gender: 'female', age: 'elder', warmth: 8 },
-    { id: 'western-middle-m', name: 'Friendly Doctor', culture: 'western', gender: 'male', age: 'middle', warmth: 6 },
-  ];
+  // The saved voice for the selected language, loaded for the signed-in user
+  useEffect(() => {
+    const voiceProfiles = VoiceProfileService.getInstance();
+    const unsubscribe = voiceProfiles.subscribe(profile => {
+      if (profile.language === selectedLanguage) {
+        setVoiceProfile(profile);
+      }
+    });
+
+    if (voiceProfiles.isLoaded()) {
+      setVoiceProfile(voiceProfiles.getProfile(selectedLanguage));
+    } else {
+      getCurrentUserId()
+        .then(async userId => {
+          if (userId) {
+            await voiceProfiles.load(userId);
+            setVoiceProfile(voiceProfiles.getProfile(selectedLanguage));
+          }
+        })
+        .catch(error => console.warn('Failed to load voice profile:', error));
+    }
+
+    return unsubscribe;
+  }, [selectedLanguage]);
 
   // Cultural colors
-  const getCulturalColors = () => {
-    const baseColors = isHighContrast ? {
-      maori: { primary: '#000000', secondary: '#FFFFFF', accent: '#FF0000', background: '#FFFFFF' },
-      chinese: { primary: '#000000', secondary: '#FFFFFF', accent: '#FFD700', background: '#FFFFFF' },
-      western: { primary: '#000000', secondary: '#FFFFFF', accent: '#0066CC', background: '#FFFFFF' }
-    } : {
-      maori: { primary: '#8B4513', secondary: '#F5DEB3', accent: '#228B22', background: '#FFF8DC' },
-      chinese: { primary: '#DC143C', secondary: '#FFD700', accent: '#FF6347', background: '#FFF5EE' },
-      western: { primary: '#6366F1', secondary: '#E0E7FF', accent: '#8B5CF6', background: '#F9FAFB' }
-    };
-    
-    return baseColors[selectedCulture];
-  };
+  const getCulturalColors = () =>
+    CulturalPackService.getInstance().getColors(selectedCulture, isHighContrast);
 
   const colors = getCulturalColors();
 
@@ -112,9 +113,7 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
     setCultureMenuVisible(false);
     
     // Auto-select appropriate language
-    const defaultLanguage: PreferredLanguage = 
-      culture === 'maori' ? 'mi' : 
-      culture === 'chinese' ? 'zh' : 'en';
+    const defaultLanguage = CulturalPackService.getInstance().getPack(culture).profile.preferredLanguage;
     
     setSelectedLanguage(defaultLanguage);
     setPreferredLanguage(defaultLanguage);
@@ -130,8 +129,33 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
     setPreferredLanguage(language);
   };
 
-  const getAvailableVoices = () => {
-    return voiceProfiles.filter(voice => voice.culture === selectedCulture);
+  // Shown at once; saved when a slider is released or an option tapped
+  const updateVoiceProfile = (changes: VoiceProfileChanges, save = true) => {
+    if (!voiceProfile) return;
+    setVoiceProfile({ ...voiceProfile, ...changes });
+    if (save) {
+      VoiceProfileService.getInstance()
+        .saveProfile(selectedLanguage, changes)
+        .catch(error => {
+          console.error('Failed to save voice profile:', error);
+          Alert.alert('Voice not saved', 'Your voice settings could not be saved. Please try again.');
+        });
+    }
+  };
+
+  const previewVoice = async (language: PreferredLanguage) => {
+    const voiceProfiles = VoiceProfileService.getInstance();
+    setPreviewingLanguage(language);
+    try {
+      // Unsaved slider positions are heard too
+      const profile = language === selectedLanguage && voiceProfile ? voiceProfile : voiceProfiles.getProfile(language);
+      await voiceProfiles.preview(language, profile);
+    } catch (error) {
+      console.error('Voice preview failed:', error);
+      Alert.alert('Preview unavailable', 'The voice could not be played just now.');
+    } finally {
+      setPreviewingLanguage(current => current === language ? null : current);
+    }
   };
 
   const addFamilyContact = () => {
@@ -165,39 +189,8 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
     setFamilyContacts(familyContacts.filter(contact => contact.id !== id));
   };
 
-  const getCulturalPrivacyGuidance = () => {
-    const guidance = {
-      maori: {
-        title: 'Whānau Privacy',
-        description: 'Information sharing follows whānau protocols and collective decision-making.',
-        levels: {
-          'open': 'Share with extended whānau and community',
-          'family-only': 'Share with immediate whānau only',
-          'private': 'Individual privacy maintained'
-        }
-      },
-      chinese: {
-        title: 'Family Honor',
-        description: 'Privacy settings respect family dignity and hierarchical considerations.',
-        levels: {
-          'open': 'Share with trusted family and community elders',
-          'family-only': 'Share with immediate family members',
-          'private': 'Maintain individual confidentiality'
-        }
-      },
-      western: {
-        title: 'Personal Privacy',
-        description: 'Individual autonomy and consent guide information sharing.',
-        levels: {
-          'open': 'Share with chosen support network',
-          'family-only': 'Share with immediate family',
-          'private': 'Maintain strict confidentiality'
-        }
-      }
-    };
-    
-    return guidance[selectedCulture];
-  };
+  const getCulturalPrivacyGuidance = () =>
+    CulturalPackService.getInstance().getPack(selectedCulture).care.privacy;
 
   const renderSectionHeader = (title: string, sectionKey: string, icon: string) => {
     const isExpanded = expandedSections.has(sectionKey);
@@ -244,16 +237,19 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
                 onPress={() => setCultureMenuVisible(true)}
               >
                 <Text style={[styles.menuButtonText, { fontSize: textSizes.body, color: colors.primary }]}>
-                  {selectedCulture === 'maori' ? 'Māori' : 
-                   selectedCulture === 'chinese' ? 'Chinese' : 'Western'}
+                  {CulturalPackService.getInstance().getPack(selectedCulture).name}
                 </Text>
                 <Icon name="chevron-down" size={20} color={colors.primary} />
               </TouchableOpacity>
             }
           >
-            <Menu.Item title="Māori" onPress={() => handleCultureChange('maori')} />
-            <Menu.Item title="Chinese" onPress={() => handleCultureChange('chinese')} />
-            <Menu.Item title="Western" onPress={() => handleCultureChange('western')} />
+            {CULTURAL_GROUPS.map(culture => (
+              <Menu.Item
+                key={culture}
+                title={CulturalPackService.getInstance().getPack(culture).name}
+                onPress={() => handleCultureChange(culture)}
+              />
+            ))}
           </Menu>
         </View>
 
@@ -271,54 +267,21 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
                 onPress={() => setLanguageMenuVisible(true)}
               >
                 <Text style={[styles.menuButtonText, { fontSize: textSizes.body, color: colors.primary }]}>
-                  {selectedLanguage === 'mi' ? 'Te Reo Māori' : 
-                   selectedLanguage === 'zh' ? '中文' : 'English'}
+                  {LANGUAGES[selectedLanguage].nativeName}
                 </Text>
                 <Icon name="chevron-down" size={20} color={colors.primary} />
               </TouchableOpacity>
             }
           >
-            <Menu.Item title="English" onPress={() => handleLanguageChange('en')} />
-            <Menu.Item title="Te Reo Māori" onPress={() => handleLanguageChange('mi')} />
-            <Menu.Item title="中文" onPress={() => handleLanguageChange('zh')} />
+            {PREFERRED_LANGUAGES.map(language => (
+              <Menu.Item
+                key={language}
+                title={LANGUAGES[language].nativeName}
+                onPress={() => handleLanguageChange(language)}
+              />
+            ))}
           </Menu>
         </View>
-
-        {/* Voice Selection */}
-        <View style={styles.settingItem}>
-          <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
-            Voice Preference
-          </Text>
-          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-            <View style={styles.voiceOptions}>
-              {getAvailableVoices().map((voice) => (
-                <TouchableOpacity
-                  key={voice.id}
-                  style={[
-                    styles.voiceOption,
-                    selectedVoice === voice.id && { backgroundColor: colors.accent }
-                  ]}
-                  onPress={() => setSelectedVoice(voice.id)}
-                >
-                  <Text style={[
-                    styles.voiceOptionText,
-                    { 
-                      fontSize: textSizes.caption,
-                      color: selectedVoice === voice.id ? '#FFFFFF' : colors.primary
-                    }
-                  ]}>
-                    {voice.name}
-                  </Text>
-                  <View style={styles.warmthIndicator}>
-                    {Array.from({ length: voice.warmth }, (_, i) => (
-                      <Icon key={i} name="heart" size={8} color={selectedVoice === voice.id ? '#FFFFFF' : colors.accent} />
-                    ))}
-                  </View>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </ScrollView>
-        </View>
       </View>
     );
   };
@@ -357,23 +320,6 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
           </View>
         </View>
 
-        {/* Voice Speed */}
-        <View style={styles.settingItem}>
-          <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
-            Voice Speed: {voiceSpeed.toFixed(1)}x
-          </Text>
-          <Slider
-            style={styles.slider}
-            minimumValue={0.5}
-            maximumValue={2.0}
-            value={voiceSpeed}
-            onValueChange={setVoiceSpeed}
-            step={0.1}
-            minimumTrackTintColor={colors.accent}
-            maximumTrackTintColor={colors.secondary}
-          />
-        </View>
-
         {/* Notifications */}
         <View style={styles.settingItem}>
           <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
@@ -389,6 +335,168 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
     );
   };
 
+  const renderVoiceSlider = (
+    label: string,
+    field: 'rate' | 'pitch' | 'volume' | 'stability',
+    minimumValue: number,
+    maximumValue: number,
+    format: (value: number) => string
+  ) => {
+    if (!voiceProfile) return null;
+
+    return (
+      <View style={styles.settingItem}>
+        <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
+          {label}: {format(voiceProfile[field])}
+        </Text>
+        <Slider
+          style={styles.slider}
+          minimumValue={minimumValue}
+          maximumValue={maximumValue}
+          value={voiceProfile[field]}
+          onValueChange={value => updateVoiceProfile({ [field]: value }, false)}
+          onSlidingComplete={value => updateVoiceProfile({ [field]: value })}
+          step={0.05}
+          minimumTrackTintColor={colors.accent}
+          maximumTrackTintColor={colors.secondary}
+          accessibilityLabel={label}
+        />
+      </View>
+    );
+  };
+
+  const renderVoiceSection = () => {
+    if (!expandedSections.has('voice')) return null;
+
+    if (!voiceProfile) {
+      return (
+        <View style={styles.sectionContent}>
+          <Text style={[styles.privacyDescription, { fontSize: textSizes.caption, color: colors.primary }]}>
+            Sign in to choose the voice that speaks to you.
+          </Text>
+        </View>
+      );
+    }
+
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    return (
+      <View style={styles.sectionContent}>
+        <Text style={[styles.privacyDescription, { fontSize: textSizes.caption, color: colors.primary }]}>
+          Your voice for {LANGUAGES[selectedLanguage].nativeName}, kept on all your devices.
+        </Text>
+
+        {/* Voice Gender */}
+        <View style={styles.settingItem}>
+          <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
+            Voice Gender
+          </Text>
+          <View style={styles.frequencyOptions}>
+            {(['female', 'male'] as const).map((gender) => (
+              <TouchableOpacity
+                key={gender}
+                style={[
+                  styles.frequencyOption,
+                  voiceProfile.preferredGender === gender && { backgroundColor: colors.accent }
+                ]}
+                onPress={() => updateVoiceProfile({ preferredGender: gender })}
+              >
+                <Text style={[
+                  styles.frequencyText,
+                  {
+                    fontSize: textSizes.caption,
+                    color: voiceProfile.preferredGender === gender ? '#FFFFFF' : colors.primary
+                  }
+                ]}>
+                  {gender === 'female' ? 'Female' : 'Male'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Voice Selection */}
+        <View style={styles.settingItem}>
+          <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
+            Voice
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.voiceOptions}>
+              {VOICE_OPTIONS.filter(voice => voice.gender === voiceProfile.preferredGender).map((voice) => (
+                <TouchableOpacity
+                  key={voice.id}
+                  style={[
+                    styles.voiceOption,
+                    voiceProfile.voiceId === voice.id && { backgroundColor: colors.accent }
+                  ]}
+                  onPress={() => updateVoiceProfile({ voiceId: voice.id })}
+                >
+                  <Text style={[
+                    styles.voiceOptionText,
+                    {
+                      fontSize: textSizes.caption,
+                      color: voiceProfile.voiceId === voice.id ? '#FFFFFF' : colors.primary
+                    }
+                  ]}>
+                    {voice.name}
+                  </Text>
+                  <Text style={{
+                    fontSize: textSizes.caption - 2,
+                    color: voiceProfile.voiceId === voice.id ? '#FFFFFF' : colors.primary
+                  }}>
+                    {voice.description}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+
+        {renderVoiceSlider('Voice Speed', 'rate', 0.5, 2.0, value => `${value.toFixed(1)}x`)}
+        {renderVoiceSlider('Voice Pitch', 'pitch', 0.5, 2.0, value => `${value.toFixed(1)}x`)}
+        {renderVoiceSlider('Voice Volume', 'volume', 0.1, 1.0, percent)}
+        {renderVoiceSlider('Voice Steadiness', 'stability', 0, 1, percent)}
+
+        {/* Preview */}
+        <View style={styles.settingItem}>
+          <Text style={[styles.settingLabel, { fontSize: textSizes.body, color: colors.primary }]}>
+            Hear a Sample
+          </Text>
+          <View style={styles.frequencyOptions}>
+            {PREFERRED_LANGUAGES.map((language) => (
+              <TouchableOpacity
+                key={language}
+                style={[
+                  styles.frequencyOption,
+                  previewingLanguage === language && { backgroundColor: colors.accent }
+                ]}
+                onPress={() => previewVoice(language)}
+                disabled={previewingLanguage !== null}
+                accessibilityRole="button"
+                accessibilityLabel={`Play a sample in ${LANGUAGES[language].nativeName}`}
+              >
+                <Icon
+                  name={previewingLanguage === language ? 'volume-high' : 'play'}
+                  size={20}
+                  color={previewingLanguage === language ? '#FFFFFF' : colors.primary}
+                />
+                <Text style={[
+                  styles.frequencyText,
+                  {
+                    fontSize: textSizes.caption,
+                    color: previewingLanguage === language ? '#FFFFFF' : colors.primary
+                  }
+                ]}>
+                  {LANGUAGES[language].nativeName}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
   const renderAccessibilitySection = () => {
     if (!expandedSections.has('accessibility')) return null;
 
@@ -549,6 +657,12 @@ const SettingsPreferences: React.FC<SettingsPreferencesProps> = ({
         {renderConversationSection()}
       </Surface>
 
+      {/* Voice Settings */}
+      <Surface style={[styles.section, { backgroundColor: colors.secondary }]} elevation={2}>
+        {renderSectionHeader('Voice', 'voice', 'account-voice')}
+        {renderVoiceSection()}
+      </Surface>
+
       {/* Accessibility Settings */}
       <Surface style={[styles.section, { backgroundColor: colors.secondary }]} elevation={2}>
         {renderSectionHeader('Accessibility', 'accessibility', 'eye')}
@@ -632,10 +746,6 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 4,
   },
-  warmthIndicator: {
-    flexDirection: 'row',
-    gap: 2,
-  },
   frequencyOptions: {
     flexDirection: 'row',
     gap: 8,
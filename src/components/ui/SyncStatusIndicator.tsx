@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { SyncStatus } from '../../types';
+
+const STATUS_DISPLAY: Record<SyncStatus, { icon: string; color: string }> = {
+  synced: { icon: 'cloud-check-outline', color: '#10B981' },
+  pending: { icon: 'cloud-upload-outline', color: '#6366F1' },
+  syncing: { icon: 'cloud-sync-outline', color: '#6366F1' },
+  offline: { icon: 'cloud-off-outline', color: '#F59E0B' },
+  error: { icon: 'cloud-alert', color: '#EF4444' }
+};
+
+const changesLabel = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+
+const SyncStatusIndicator = () => {
+  const { status, pending, recentConflicts, retry, dismissRejected } = useSyncStatus();
+  const { icon, color } = STATUS_DISPLAY[status];
+  const rejected = recentConflicts.filter(conflict => conflict.resolution === 'rejected').length;
+  const rejectedLabel = `${changesLabel(rejected)} couldn't be saved and ${rejected === 1 ? 'was' : 'were'} undone. Tap to dismiss`;
+
+  const label = (() => {
+    switch (status) {
+      case 'synced':
+        return 'All changes saved';
+      case 'pending':
+      case 'syncing':
+        return `Saving ${changesLabel(pending)}...`;
+      case 'offline':
+        return pending > 0 ? `Offline - ${changesLabel(pending)} will be saved when you reconnect` : 'Offline';
+      case 'error':
+        return "Couldn't save changes. Tap to try again";
+    }
+  })();
+
+  return (
+    <View>
+      <TouchableOpacity
+        onPress={status === 'error' ? retry : undefined}
+        disabled={status !== 'error'}
+        accessibilityRole={status === 'error' ? 'button' : 'text'}
+        accessibilityLabel={label}
+        accessibilityLiveRegion="polite"
+      >
+        <View style={styles.container}>
+          <Icon name={icon} size={24} color={color} />
+          <Text style={[styles.text, { color }]}>{label}</Text>
+        </View>
+      </TouchableOpacity>
+      {rejected > 0 && (
+        <TouchableOpacity
+          onPress={dismissRejected}
+          accessibilityRole="button"
+          accessibilityLabel={rejectedLabel}
+          accessibilityLiveRegion="polite"
+        >
+          <View style={styles.container}>
+            <Icon name="alert-circle-outline" size={24} color={STATUS_DISPLAY.error.color} />
+            <Text style={[styles.text, styles.rejected]}>{rejectedLabel}</Text>
+          </View>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  text: {
+    fontSize: 18,
+    fontWeight: '500',
+  },
+  rejected: {
+    color: STATUS_DISPLAY.error.color,
+    flexShrink: 1,
+  },
+});
+
+export default SyncStatusIndicator;
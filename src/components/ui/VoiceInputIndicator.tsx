@@ -2,11 +2,34 @@ import React from 'react';
 import { View, StyleSheet, Animated, Easing } from 'react-native';
 import { Text } from 'react-native-paper';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { VoiceActivityState } from '../../hooks/useVoiceCommunication';
 
-const VoiceInputIndicator = ({ active }: { active: boolean }) => {
+// Loudness above the noise floor that grows the microphone to full size
+const FULL_SCALE_DB = 30;
+
+interface VoiceInputIndicatorProps {
+  active: boolean;
+  voiceActivity?: VoiceActivityState; // When given, the icon follows the voice instead of pulsing
+}
+
+const VoiceInputIndicator = ({ active, voiceActivity }: VoiceInputIndicatorProps) => {
   const scale = React.useRef(new Animated.Value(1)).current;
+  const followsVoice = !!voiceActivity;
+  const levelAboveFloor = voiceActivity ? Math.max(0, voiceActivity.levelDb - voiceActivity.noiseFloorDb) : 0;
+
+  React.useEffect(() => {
+    if (!active || !followsVoice) return;
+
+    Animated.timing(scale, {
+      toValue: 1 + 0.4 * Math.min(1, levelAboveFloor / FULL_SCALE_DB),
+      duration: 100,
+      useNativeDriver: true,
+    }).start();
+  }, [active, followsVoice, levelAboveFloor]);
 
   React.useEffect(() => {
+    if (followsVoice) return;
+
     if (active) {
       Animated.loop(
         Animated.sequence([
@@ -17,15 +40,15 @@ const VoiceInputIndicator = ({ active }: { active: boolean }) => {
     } else {
       scale.setValue(1);
     }
-  }, [active]);
+  }, [active, followsVoice]);
 
   if (!active) return null;
   return (
     <View style={styles.container}>
       <Animated.View style={{ transform: [{ scale }] }}>
-        <Icon name="microphone" size={48} color="#6366F1" />
+        <Icon name={voiceActivity?.isUserSpeaking ? 'account-voice' : 'microphone'} size={48} color="#6366F1" />
       </Animated.View>
-      <Text style={styles.text}>Listening...</Text>
+      <Text style={styles.text}>{voiceActivity?.isUserSpeaking ? 'Hearing you...' : 'Listening...'}</Text>
     </View>
   );
 };
@@ -4,6 +4,8 @@ import { Text, Surface, Portal, Modal } from 'react-native-paper';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import * as Animatable from 'react-native-animatable';
 import { useCulturalContext } from '../../contexts/CulturalContext';
+import CulturalPackService from '../../services/cultural/CulturalPackService';
+import { PreferredLanguage } from '../../types/cultural';
 
 interface VoiceInterfaceProps {
   onStartListening: () => void;
@@ -18,6 +20,51 @@ interface VoiceInterfaceProps {
 
 type ConversationState = 'idle' | 'listening' | 'processing' | 'speaking';
 
+const STATE_TEXTS: Record<PreferredLanguage, Record<ConversationState, string>> = {
+  en: {
+    idle: 'Ready to Listen',
+    listening: 'Listening...',
+    processing: 'Processing...',
+    speaking: 'Speaking...'
+  },
+  mi: {
+    idle: 'Tēnā koe - Pēhea koe?',
+    listening: 'Kei te whakarongo...',
+    processing: 'Kei te whakaaroaro...',
+    speaking: 'Kei te kōrero...'
+  },
+  zh: {
+    idle: '您好 - 我在这里倾听',
+    listening: '正在聆听...',
+    processing: '正在思考...',
+    speaking: '正在说话...'
+  },
+  sm: {
+    idle: 'Talofa - O a mai oe?',
+    listening: "O lo'o fa'alogo...",
+    processing: "O lo'o mafaufau...",
+    speaking: "O lo'o tautala..."
+  },
+  to: {
+    idle: 'Mālō e lelei - Fēfē hake?',
+    listening: "'Oku fanongo...",
+    processing: "'Oku fakakaukau...",
+    speaking: "'Oku lea..."
+  },
+  hi: {
+    idle: 'नमस्ते - मैं सुनने के लिए तैयार हूँ',
+    listening: 'सुन रहे हैं...',
+    processing: 'सोच रहे हैं...',
+    speaking: 'बोल रहे हैं...'
+  },
+  ko: {
+    idle: '안녕하세요 - 말씀하세요',
+    listening: '듣고 있어요...',
+    processing: '생각하고 있어요...',
+    speaking: '말하고 있어요...'
+  }
+};
+
 const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   onStartListening,
   onStopListening,
@@ -48,19 +95,8 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
     isListening ? 'listening' : 'idle';
 
   // Cultural theme colors
-  const getCulturalColors = () => {
-    const baseColors = isHighContrast ? {
-      maori: { primary: '#000000', secondary: '#FFFFFF', accent: '#FF0000' },
-      chinese: { primary: '#000000', secondary: '#FFFFFF', accent: '#FFD700' },
-      western: { primary: '#000000', secondary: '#FFFFFF', accent: '#0066CC' }
-    } : {
-      maori: { primary: '#8B4513', secondary: '#F5DEB3', accent: '#228B22' },
-      chinese: { primary: '#DC143C', secondary: '#FFD700', accent: '#FF6347' },
-      western: { primary: '#6366F1', secondary: '#E0E7FF', accent: '#8B5CF6' }
-    };
-    
-    return baseColors[culturalProfile.culturalGroup];
-  };
+  const getCulturalColors = () =>
+    CulturalPackService.getInstance().getColors(culturalProfile.culturalGroup, isHighContrast);
 
   const colors = getCulturalColors();
 
@@ -151,48 +187,19 @@ const VoiceInterface: React.FC<VoiceInterfaceProps> = ({
   };
 
   const getStateText = () => {
-    const stateTexts = {
-      maori: {
-        idle: 'Tēnā koe - Pēhea koe?',
-        listening: 'Kei te whakarongo...',
-        processing: 'Kei te whakaaroaro...',
-        speaking: 'Kei te kōrero...'
-      },
-      chinese: {
-        idle: '您好 - 我在这里倾听',
-        listening: '正在聆听...',
-        processing: '正在思考...',
-        speaking: '正在说话...'
-      },
-      western: {
-        idle: 'Ready to Listen',
-        listening: 'Listening...',
-        processing: 'Processing...',
-        speaking: 'Speaking...'
-      }
-    };
-    
-    return stateTexts[culturalProfile.culturalGroup][conversationState];
+    const language = culturalProfile.preferredLanguage;
+    return (STATE_TEXTS[language] || STATE_TEXTS.en)[conversationState];
   };
 
   const renderProcessingIndicator = () => {
     if (!isProcessing) return null;
 
+    const { processingIndicator } = CulturalPackService.getInstance().getPack(culturalProfile.culturalGroup).presentation;
     const ProcessingComponent = showCulturalIndicators ? (
-      culturalProfile.culturalGroup === 'maori' ? 
-        // Koru spiral for Māori
-        <Animatable.View animation="rotate" iterationCount="infinite" duration={2000}>
-          <Icon name="spiral" size={60} color={colors.primary} />
-        </Animatable.View> :
-        culturalProfile.culturalGroup === 'chinese' ?
-        // Yin-yang for Chinese
-        <Animatable.View animation="rotate" iterationCount="infinite" duration={1500}>
-          <Icon name="yin-yang" size={60} color={colors.primary} />
-        </Animatable.View> :
-        // Gear for Western
-        <Animatable.View animation="rotate" iterationCount="infinite" duration={1000}>
-          <Icon name="cog" size={60} color={colors.primary} />
-        </Animatable.View>
+      // The group's own symbol, e.g. a koru spiral for Māori
+      <Animatable.View animation="rotate" iterationCount="infinite" duration={processingIndicator.spinMs}>
+        <Icon name={processingIndicator.icon} size={60} color={colors.primary} />
+      </Animatable.View>
     ) : (
       <Animatable.View animation="rotate" iterationCount="infinite" duration={1000}>
         <Icon name="brain" size={60} color={colors.primary} />
@@ -1,4 +1,34 @@
-import { SUPABASE_URL, SUPABASE_ANON_KEY, DEEPSEEK_API_KEY, DEEPSEEK_API_URL, ELEVEN_LABS_API_KEY, APP_ENV, DEBUG_MODE } from '@env';
+import {
+  SUPABASE_URL,
+  SUPABASE_ANON_KEY,
+  DEEPSEEK_API_KEY,
+  DEEPSEEK_API_URL,
+  ELEVEN_LABS_API_KEY,
+  APP_ENV,
+  DEBUG_MODE,
+  LLM_PROVIDER,
+  LLM_API_URL,
+  LLM_API_KEY,
+  LLM_MODEL,
+  STT_PROVIDER,
+  STT_LANGUAGE_PROVIDERS,
+  STT_API_URL,
+  STT_API_KEY,
+  STT_MODEL,
+  STT_COST_PER_MINUTE,
+  TTS_PROVIDERS,
+  TTS_API_URL,
+  TTS_API_KEY,
+  TTS_VOICE,
+  TTS_NATIVE_LANGUAGES,
+  HANDS_FREE_WAKE_PHRASES
+} from '@env';
+import type { PreferredLanguage } from '../types/cultural';
+import { isPreferredLanguage } from './languages';
+
+export type ChatProviderType = 'deepseek' | 'openai_compatible' | 'mock';
+export type SpeechToTextProviderType = 'native' | 'whisper' | 'mock';
+export type TextToSpeechProviderType = 'cache' | 'elevenlabs' | 'http' | 'device';
 
 export interface AppConfig {
   supabase: {
@@ -15,6 +45,47 @@ export interface AppConfig {
     apiKey: string;
     isConfigured: boolean;
   };
+  llm: {
+    provider: ChatProviderType;
+    apiUrl: string; // Base URL or full chat completions URL
+    apiKey: string; // Optional for local model servers
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    timeoutMs: number;
+    maxRetries: number;
+    contextTokenBudgets: Record<string, number>; // Prompt tokens per model (system, memories, summary and history)
+    defaultContextTokenBudget: number; // Used for models missing from contextTokenBudgets
+    isConfigured: boolean;
+  };
+  stt: {
+    provider: SpeechToTextProviderType; // Used for languages missing from languageProviders
+    languageProviders: Partial<Record<PreferredLanguage, SpeechToTextProviderType>>;
+    apiUrl: string; // Whisper-compatible base URL or full transcriptions URL
+    apiKey: string; // Optional for local whisper.cpp servers
+    model: string;
+    timeoutMs: number;
+    maxRetries: number;
+    costPerMinute: number; // USD per audio minute, 0 for on-device and self-hosted servers
+  };
+  tts: {
+    providers: TextToSpeechProviderType[]; // Tried in order for each sentence
+    failureThreshold: number; // Consecutive failures before a provider is rested
+    cooldownMs: number;
+    elevenLabs: {
+      model: string;
+      timeoutMs: number;
+      costPerCharacter: number; // USD
+    };
+    http: {
+      apiUrl: string; // Piper-style server that returns WAV
+      apiKey: string;
+      voice: string; // Optional, for servers that host several voices
+      nativeLanguages: PreferredLanguage[]; // Languages the voice speaks natively, e.g. ['mi'] for a Māori voice
+      timeoutMs: number;
+      costPerCharacter: number;
+    };
+  };
   app: {
     env: string;
     debugMode: boolean;
@@ -22,17 +93,38 @@ export interface AppConfig {
     isProduction: boolean;
   };
   audio: {
-    silenceThreshold: number; // dB
-    silenceDuration: number; // milliseconds
+    silenceThreshold: number; // dB, noise floor assumed until voice activity detection has calibrated
     sampleRate: number;
     bitRate: number;
     maxRecordingDuration: number; // milliseconds
+    vad: {
+      meteringIntervalMs: number;
+      calibrationMs: number;
+      startMarginDb: number; // Above the noise floor
+      endMarginDb: number; // Above the noise floor, below startMarginDb
+      minSpeechMs: number;
+      endOfUtteranceMs: number; // Starting point, adapts to the speaker's pauses
+      minEndOfUtteranceMs: number;
+      maxEndOfUtteranceMs: number;
+    };
   };
   voice: {
     autoStopOnSilence: boolean;
     defaultSilenceTimeout: number; // seconds
     maxTranscriptLength: number;
     recognitionTimeoutMs: number;
+    bargeIn: {
+      enabled: boolean; // Keep listening while the assistant speaks so the user can cut in
+      startMarginDb: number; // Above the noise floor; higher than audio.vad to ignore the assistant's own voice
+      minSpeechMs: number;
+      confirmMs: number; // Speech is ducked at first, and stops the reply once it lasts this long
+      duckVolume: number; // 0-1
+      echoMarginDb: number; // Above the reply's own voice through the microphone, once heard, see BargeInDetector
+    };
+    handsFree: {
+      wakePhrases: Record<PreferredLanguage, string[]>; // Any of these starts a conversation
+      idleTimeoutMs: number; // Quiet time after a reply before saying goodbye and waiting for a wake phrase
+    };
   };
 }
 
@@ -44,6 +136,103 @@ const validateEnvVar = (value: string | undefined, name: string): string => {
   return value.trim();
 };
 
+const parseChatProvider = (value: string | undefined): ChatProviderType => {
+  const provider = (value || '').trim().toLowerCase();
+  if (provider === 'openai_compatible' || provider === 'mock') {
+    return provider;
+  }
+  if (provider && provider !== 'deepseek') {
+    console.warn(`Unknown LLM_PROVIDER "${value}", falling back to deepseek`);
+  }
+  return 'deepseek';
+};
+
+const llmProvider = parseChatProvider(LLM_PROVIDER);
+
+const SPEECH_TO_TEXT_PROVIDERS: SpeechToTextProviderType[] = ['native', 'whisper', 'mock'];
+
+const parseSpeechToTextProvider = (value: string | undefined): SpeechToTextProviderType => {
+  const provider = (value || '').trim().toLowerCase() as SpeechToTextProviderType;
+  if (SPEECH_TO_TEXT_PROVIDERS.includes(provider)) {
+    return provider;
+  }
+  if (provider) {
+    console.warn(`Unknown STT_PROVIDER "${value}", falling back to native`);
+  }
+  return 'native';
+};
+
+// "mi=whisper,zh=native" -> { mi: 'whisper', zh: 'native' }
+const parseLanguageProviders = (value: string | undefined): AppConfig['stt']['languageProviders'] => {
+  if (!value || !value.trim()) {
+    // Te Reo Māori is poorly served by the on-device recognisers
+    return { mi: 'whisper' };
+  }
+
+  return value.split(',').reduce<AppConfig['stt']['languageProviders']>((providers, entry) => {
+    const [language, provider] = entry.split('=').map(part => part.trim());
+    if (language && provider) {
+      providers[language as PreferredLanguage] = parseSpeechToTextProvider(provider);
+    }
+    return providers;
+  }, {});
+};
+
+const TEXT_TO_SPEECH_PROVIDERS: TextToSpeechProviderType[] = ['cache', 'elevenlabs', 'http', 'device'];
+
+// "cache,elevenlabs,device" -> ['cache', 'elevenlabs', 'device']; the device voice is always kept as the last resort
+const parseTextToSpeechProviders = (value: string | undefined): TextToSpeechProviderType[] => {
+  if (!value || !value.trim()) {
+    return [...TEXT_TO_SPEECH_PROVIDERS];
+  }
+
+  const providers = value.split(',').reduce<TextToSpeechProviderType[]>((list, entry) => {
+    const provider = entry.trim().toLowerCase() as TextToSpeechProviderType;
+    if (TEXT_TO_SPEECH_PROVIDERS.includes(provider)) {
+      list.push(provider);
+    } else if (provider) {
+      console.warn(`Unknown TTS provider "${entry.trim()}" in TTS_PROVIDERS, ignoring it`);
+    }
+    return list;
+  }, []);
+
+  return providers.includes('device') ? providers : [...providers, 'device'];
+};
+
+// "mi,en" -> ['mi', 'en']
+const parseLanguages = (value: string | undefined): PreferredLanguage[] => {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(isPreferredLanguage);
+};
+
+const DEFAULT_WAKE_PHRASES: Record<PreferredLanguage, string[]> = {
+  en: ['Hello Momenko', 'Kia ora Momenko'],
+  mi: ['Kia ora Momenko'],
+  zh: ['你好'],
+  // Samoan and Tongan go through the NZ English recogniser, so the English phrase is kept as well
+  sm: ['Talofa Momenko', 'Hello Momenko'],
+  to: ['Malo e lelei Momenko', 'Hello Momenko'],
+  hi: ['नमस्ते'],
+  ko: ['안녕하세요']
+};
+
+// "mi=Kia ora Momenko|Tēnā koe Momenko,zh=你好" -> { ...defaults, mi: [...], zh: ['你好'] }
+const parseWakePhrases = (value: string | undefined): Record<PreferredLanguage, string[]> => {
+  const phrases = { ...DEFAULT_WAKE_PHRASES };
+  (value || '').split(',').forEach(entry => {
+    const [language, list] = entry.split('=').map(part => part.trim());
+    const wakePhrases = (list || '').split('|').map(phrase => phrase.trim()).filter(Boolean);
+    if (language && language in phrases && wakePhrases.length) {
+      phrases[language as PreferredLanguage] = wakePhrases;
+    } else if (entry.trim()) {
+      console.warn(`Ignoring HANDS_FREE_WAKE_PHRASES entry "${entry.trim()}"`);
+    }
+  });
+  return phrases;
+};
+
 const config: AppConfig = {
   supabase: {
     url: validateEnvVar(SUPABASE_URL, 'SUPABASE_URL'),
@@ -65,6 +254,63 @@ const config: AppConfig = {
       return !!this.apiKey;
     }
   },
+  llm: {
+    provider: llmProvider,
+    // DeepSeek keeps using its own credentials unless LLM_* overrides are set
+    apiUrl: (LLM_API_URL || '').trim() || (llmProvider === 'deepseek' ? (DEEPSEEK_API_URL || '').trim() : ''),
+    apiKey: (LLM_API_KEY || '').trim() || (llmProvider === 'deepseek' ? (DEEPSEEK_API_KEY || '').trim() : ''),
+    model: (LLM_MODEL || '').trim() || (llmProvider === 'deepseek' ? 'deepseek-chat' : 'local-model'),
+    temperature: 0.7,
+    maxTokens: 500,
+    timeoutMs: 30000, // 30 seconds
+    maxRetries: 2,
+    contextTokenBudgets: {
+      'deepseek-chat': 6000,
+      'deepseek-reasoner': 6000,
+      'gpt-4o-mini': 6000,
+      'local-model': 2000 // Small local servers often run with a 4k context
+    },
+    defaultContextTokenBudget: 3000,
+    get isConfigured() {
+      switch (this.provider) {
+        case 'mock':
+          return true;
+        case 'openai_compatible':
+          return !!this.apiUrl;
+        case 'deepseek':
+        default:
+          return !!(this.apiKey && this.apiUrl);
+      }
+    }
+  },
+  stt: {
+    provider: parseSpeechToTextProvider(STT_PROVIDER),
+    languageProviders: parseLanguageProviders(STT_LANGUAGE_PROVIDERS),
+    apiUrl: (STT_API_URL || '').trim(),
+    apiKey: (STT_API_KEY || '').trim(),
+    model: (STT_MODEL || '').trim() || 'whisper-1',
+    timeoutMs: 60000, // 60 seconds, long recordings on a CPU-only server are slow
+    maxRetries: 1,
+    costPerMinute: parseFloat(STT_COST_PER_MINUTE || '') || 0
+  },
+  tts: {
+    providers: parseTextToSpeechProviders(TTS_PROVIDERS),
+    failureThreshold: 2,
+    cooldownMs: 60000, // 1 minute
+    elevenLabs: {
+      model: 'eleven_monolingual_v1',
+      timeoutMs: 20000,
+      costPerCharacter: 0.0003
+    },
+    http: {
+      apiUrl: (TTS_API_URL || '').trim(),
+      apiKey: (TTS_API_KEY || '').trim(),
+      voice: (TTS_VOICE || '').trim(),
+      nativeLanguages: parseLanguages(TTS_NATIVE_LANGUAGES),
+      timeoutMs: 15000,
+      costPerCharacter: 0
+    }
+  },
   app: {
     env: APP_ENV || 'development',
     debugMode: DEBUG_MODE === 'true',
@@ -77,19 +323,45 @@ const config: AppConfig = {
   },
   audio: {
     silenceThreshold: -65, // dB (more sensitive)
-    silenceDuration: 6000, // 6 seconds (longer before stopping)
     sampleRate: 44100,
     bitRate: 128000,
     maxRecordingDuration: 300000, // 5 minutes
+    vad: {
+      meteringIntervalMs: 100,
+      calibrationMs: 600,
+      startMarginDb: 12,
+      endMarginDb: 6,
+      minSpeechMs: 200,
+      endOfUtteranceMs: 2000, // Older speakers often pause for a second or more mid-sentence
+      minEndOfUtteranceMs: 1200,
+      maxEndOfUtteranceMs: 6000,
+    },
   },
   voice: {
     autoStopOnSilence: true,
     defaultSilenceTimeout: 6, // seconds (longer timeout)
     maxTranscriptLength: 5000,
     recognitionTimeoutMs: 300000, // 5 minutes
+    bargeIn: {
+      enabled: true,
+      startMarginDb: 20,
+      minSpeechMs: 300,
+      confirmMs: 600,
+      duckVolume: 0.25,
+      echoMarginDb: 6,
+    },
+    handsFree: {
+      wakePhrases: parseWakePhrases(HANDS_FREE_WAKE_PHRASES),
+      idleTimeoutMs: 120000, // 2 minutes
+    },
   }
 };
 
+// Prompt token budget for a chat model
+export const getContextTokenBudget = (model: string = config.llm.model): number => {
+  return config.llm.contextTokenBudgets[model] ?? config.llm.defaultContextTokenBudget;
+};
+
 // Validate critical configurations on startup
 export const validateConfiguration = (): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
@@ -98,8 +370,8 @@ export const validateConfiguration = (): { isValid: boolean; errors: string[] }
     errors.push('Supabase credentials not configured');
   }
   
-  if (!config.deepseek.isConfigured) {
-    errors.push('DeepSeek API not configured');
+  if (!config.llm.isConfigured) {
+    errors.push(`Chat provider (${config.llm.provider}) not configured`);
   }
   
   if (!config.elevenLabs.isConfigured) {
@@ -121,6 +393,19 @@ export const logConfigurationStatus = (): void => {
         url: config.deepseek.apiUrl,
         keyLength: config.deepseek.apiKey ? config.deepseek.apiKey.length : 0
       },
+      llm: {
+        provider: config.llm.provider,
+        configured: config.llm.isConfigured,
+        url: config.llm.apiUrl,
+        model: config.llm.model,
+        contextTokenBudget: getContextTokenBudget()
+      },
+      stt: {
+        provider: config.stt.provider,
+        languageProviders: config.stt.languageProviders,
+        url: config.stt.apiUrl,
+        model: config.stt.model
+      },
       elevenLabs: {
         configured: config.elevenLabs.isConfigured,
         keyLength: config.elevenLabs.apiKey ? config.elevenLabs.apiKey.length : 0
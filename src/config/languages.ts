@@ -0,0 +1,92 @@
+import { PREFERRED_LANGUAGES, PreferredLanguage } from '../types/cultural';
+
+/**
+ * How the app hears and speaks one language. Everything else about a culture
+ * (greetings, family terms, colours, notification hours) lives in its
+ * cultural pack; this is only what the speech layers need.
+ */
+export interface LanguageDefinition {
+  name: string; // In English, for settings and staff screens
+  nativeName: string;
+  speechLocale: string; // Device text-to-speech voice, e.g. en-NZ
+  recognitionLocale: string; // Device speech recogniser; the nearest one the platforms ship
+  whisperLanguage?: string; // ISO 639-1 code Whisper accepts; left out so Whisper detects the language itself
+  speech: {
+    rate: number; // 1 is the voice's normal pace
+    pitch: number;
+    volume: number; // 0-1
+  };
+  pauses: {
+    clause: number; // After a comma, in ms
+    sentence: number; // After a full sentence, in ms
+  };
+}
+
+export const LANGUAGES: Record<PreferredLanguage, LanguageDefinition> = {
+  en: {
+    name: 'English',
+    nativeName: 'English',
+    speechLocale: 'en-NZ',
+    recognitionLocale: 'en-NZ',
+    whisperLanguage: 'en',
+    speech: { rate: 1.0, pitch: 1.0, volume: 0.8 }, // Standard warm pace
+    pauses: { clause: 150, sentence: 350 }
+  },
+  mi: {
+    name: 'Te Reo Māori',
+    nativeName: 'Te Reo Māori',
+    speechLocale: 'mi-NZ',
+    // iOS has no Te Reo Māori recogniser, so Māori speech goes through the NZ English model
+    recognitionLocale: 'en-NZ',
+    whisperLanguage: 'mi',
+    speech: { rate: 0.7, pitch: 1.0, volume: 0.75 }, // Slower, more respectful pace, slightly softer
+    pauses: { clause: 300, sentence: 700 } // Unhurried, room to reflect
+  },
+  zh: {
+    name: 'Chinese (Mandarin)',
+    nativeName: '中文',
+    speechLocale: 'zh-CN',
+    recognitionLocale: 'zh-CN',
+    whisperLanguage: 'zh',
+    speech: { rate: 0.9, pitch: 1.0, volume: 0.85 }, // Slightly slower for tonal clarity
+    pauses: { clause: 250, sentence: 500 } // Clear breaks between phrases
+  },
+  sm: {
+    name: 'Samoan',
+    nativeName: 'Gagana Sāmoa',
+    speechLocale: 'sm-WS',
+    // Neither platform recognises Samoan; NZ English copes best with the loanwords and names
+    recognitionLocale: 'en-NZ',
+    speech: { rate: 0.8, pitch: 1.0, volume: 0.8 }, // Unhurried, as when addressing an elder
+    pauses: { clause: 250, sentence: 600 }
+  },
+  to: {
+    name: 'Tongan',
+    nativeName: 'Lea Faka-Tonga',
+    speechLocale: 'to-TO',
+    recognitionLocale: 'en-NZ',
+    speech: { rate: 0.8, pitch: 1.0, volume: 0.8 },
+    pauses: { clause: 250, sentence: 600 }
+  },
+  hi: {
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    speechLocale: 'hi-IN',
+    recognitionLocale: 'hi-IN',
+    whisperLanguage: 'hi',
+    speech: { rate: 0.9, pitch: 1.0, volume: 0.85 },
+    pauses: { clause: 200, sentence: 500 }
+  },
+  ko: {
+    name: 'Korean',
+    nativeName: '한국어',
+    speechLocale: 'ko-KR',
+    recognitionLocale: 'ko-KR',
+    whisperLanguage: 'ko',
+    speech: { rate: 0.9, pitch: 1.0, volume: 0.85 }, // Measured pace for formal speech to elders
+    pauses: { clause: 200, sentence: 500 }
+  }
+};
+
+export const isPreferredLanguage = (value: string): value is PreferredLanguage =>
+  (PREFERRED_LANGUAGES as readonly string[]).includes(value);
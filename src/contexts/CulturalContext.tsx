@@ -1,9 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CulturalProfile, PreferredLanguage, CulturalGroup, ConversationContext } from '../types';
-import { DEFAULT_CULTURAL_PROFILES } from '../types/cultural';
-import CulturalContextService from '../services/cultural/CulturalContextService';
+import { CulturalProfile, PreferredLanguage, ConversationContext } from '../types';
+import CulturalContextService, {
+  CulturalDetectionResult,
+  CulturalProfileSuggestion,
+  CulturalSuggestionRespondent
+} from '../services/cultural/CulturalContextService';
+import CulturalPackService from '../services/cultural/CulturalPackService';
 import SpeechCacheService from '../services/cultural/SpeechCacheService';
+import { TemplateVariables } from '../services/cultural/templateEngine';
 
 interface CulturalContextType {
   culturalProfile: CulturalProfile;
@@ -11,13 +16,15 @@ interface CulturalContextType {
   setPreferredLanguage: (language: PreferredLanguage) => void;
   
   // Cultural adaptation methods
-  getAdaptedResponse: (baseMessage: string, context: ConversationContext, variables?: Record<string, string>) => string;
+  getAdaptedResponse: (baseMessage: string, context: ConversationContext, variables?: TemplateVariables) => string;
   getCulturalGreeting: (timeOfDay?: 'morning' | 'afternoon' | 'evening') => string;
   getFamilyInvolvementGuidance: () => { level: 'high' | 'medium' | 'low'; guidance: string };
   adaptTerminology: (message: string) => string;
   
-  // Cultural detection
-  detectCulturalPreferences: (conversationHistory: string[], languageUsage: Record<PreferredLanguage, number>) => Promise<CulturalGroup>;
+  // Cultural detection: only ever suggests a change, which someone must accept
+  detectCulturalPreferences: (conversationHistory: string[], languageUsage?: Partial<Record<PreferredLanguage, number>>) => Promise<CulturalDetectionResult | null>;
+  culturalSuggestion: CulturalProfileSuggestion | null;
+  respondToCulturalSuggestion: (accepted: boolean, respondent: CulturalSuggestionRespondent) => Promise<void>;
   
   // Cache management
   warmSpeechCache: () => Promise<void>;
@@ -37,7 +44,7 @@ const generateProfileId = () => `profile_${Date.now()}_${Math.random().toString(
 
 const defaultCulturalProfile: CulturalProfile = {
   id: generateProfileId(),
-  ...DEFAULT_CULTURAL_PROFILES.western,
+  ...CulturalPackService.getInstance().getProfileDefaults('western'),
 };
 
 const CulturalContext = createContext<CulturalContextType>({
@@ -48,7 +55,9 @@ const CulturalContext = createContext<CulturalContextType>({
   getCulturalGreeting: () => 'Hello',
   getFamilyInvolvementGuidance: () => ({ level: 'medium', guidance: 'Consider family involvement' }),
   adaptTerminology: (message) => message,
-  detectCulturalPreferences: async () => 'western',
+  detectCulturalPreferences: async () => null,
+  culturalSuggestion: null,
+  respondToCulturalSuggestion: async () => {},
   warmSpeechCache: async () => {},
   getCachedPhrase: async () => null,
   validateCulturalAppropriateness: () => ({ isAppropriate: true, concerns: [] }),
@@ -67,6 +76,7 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
   const [culturalProfile, setCulturalProfile] = useState<CulturalProfile>(defaultCulturalProfile);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [culturalSuggestion, setCulturalSuggestion] = useState<CulturalProfileSuggestion | null>(null);
   
   const culturalService = useRef(CulturalContextService.getInstance());
   const cacheService = useRef(SpeechCacheService.getInstance());
@@ -76,6 +86,13 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
     loadCulturalProfile();
   }, []);
 
+  // Pick up cultural packs advisors publish, now and while the app runs
+  useEffect(() => {
+    const packs = CulturalPackService.getInstance();
+    packs.refresh();
+    return packs.watch();
+  }, []);
+
   const loadCulturalProfile = async () => {
     try {
       setIsLoading(true);
@@ -122,11 +139,8 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
   };
 
   const setPreferredLanguage = (language: PreferredLanguage) => {
-    const culturalGroup: CulturalGroup = 
-      language === 'mi' ? 'maori' :
-      language === 'zh' ? 'chinese' : 'western';
-
-    const defaultProfile = DEFAULT_CULTURAL_PROFILES[culturalGroup];
+    const packs = CulturalPackService.getInstance();
+    const defaultProfile = packs.getProfileDefaults(packs.getCulturalGroupForLanguage(language));
     updateCulturalProfile({
       ...defaultProfile,
       id: culturalProfile.id, // Preserve the existing ID
@@ -134,7 +148,7 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
   };
 
   // Cultural adaptation methods
-  const getAdaptedResponse = (baseMessage: string, context: ConversationContext, variables: Record<string, string> = {}): string => {
+  const getAdaptedResponse = (baseMessage: string, context: ConversationContext, variables: TemplateVariables = {}): string => {
     return culturalService.current.getAdaptedResponse(culturalProfile.culturalGroup, context, baseMessage, variables);
   };
 
@@ -151,13 +165,9 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
     const level = culturalService.current.getFamilyInvolvementLevel(culturalProfile.culturalGroup, 'casual');
     const _strategy = culturalService.current.getStigmaHandlingStrategy(culturalProfile.culturalGroup);
     
-    const guidance = {
-      maori: 'Whānau involvement is essential for holistic care and decision-making',
-      chinese: 'Family should be respectfully included while maintaining face and dignity',
-      western: 'Respect individual autonomy while offering family support options'
-    };
+    const guidance = CulturalPackService.getInstance().getPack(culturalProfile.culturalGroup).care.familyGuidance;
 
-    return { level, guidance: guidance[culturalProfile.culturalGroup] };
+    return { level, guidance };
   };
 
   const adaptTerminology = (message: string): string => {
@@ -167,36 +177,42 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
   // Cultural detection
   const detectCulturalPreferences = async (
     conversationHistory: string[], 
-    languageUsage: Record<PreferredLanguage, number>
-  ): Promise<CulturalGroup> => {
+    languageUsage: Partial<Record<PreferredLanguage, number>> = {}
+  ): Promise<CulturalDetectionResult | null> => {
     try {
       setIsLoading(true);
-      const detectedGroup = culturalService.current.detectCulturalPreferences(
+      const result = await culturalService.current.detectCulturalPreferences(
         culturalProfile.id, 
+        culturalProfile.culturalGroup,
         conversationHistory, 
         languageUsage
       );
       
-      // If detected group differs significantly, suggest profile update
-      if (detectedGroup !== culturalProfile.culturalGroup) {
-        const _newProfile = {
-          ...DEFAULT_CULTURAL_PROFILES[detectedGroup],
-          id: culturalProfile.id
-        };
-        
-        // Don't auto-update, but could emit event for UI to suggest change
-        console.log(`Detected cultural preference: ${detectedGroup}, current: ${culturalProfile.culturalGroup}`);
+      // The profile stays as it is until the person or their family accepts
+      if (result.suggestion) {
+        setCulturalSuggestion(result.suggestion);
       }
       
-      return detectedGroup;
+      return result;
     } catch (err) {
       console.error('Error detecting cultural preferences:', err);
-      return culturalProfile.culturalGroup;
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
 
+  const respondToCulturalSuggestion = async (accepted: boolean, respondent: CulturalSuggestionRespondent): Promise<void> => {
+    const suggestion = culturalSuggestion;
+    if (!suggestion) return;
+    
+    setCulturalSuggestion(null);
+    await culturalService.current.respondToSuggestion(suggestion, accepted, respondent);
+    if (accepted) {
+      updateCulturalProfile(CulturalPackService.getInstance().getProfileDefaults(suggestion.suggestedGroup));
+    }
+  };
+
   // Cache management
   const warmSpeechCache = async (): Promise<void> => {
     try {
@@ -235,6 +251,8 @@ export const CulturalProvider: React.FC<CulturalProviderProps> = ({ children })
         getFamilyInvolvementGuidance,
         adaptTerminology,
         detectCulturalPreferences,
+        culturalSuggestion,
+        respondToCulturalSuggestion,
         warmSpeechCache,
         getCachedPhrase,
         validateCulturalAppropriateness,
@@ -2,15 +2,9 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase, initializeSupabase } from '../lib/supabase';
 import { userService, culturalService } from '../services/supabase';
-import { CulturalProfile } from '../types';
+import { CulturalProfile, Tables } from '../types';
 
-interface UserProfile {
-  id: string;
-  email: string;
-  cultural_profile_id?: string;
-  created_at: string;
-  updated_at: string;
-}
+type UserProfile = Tables<'users'>;
 
 interface SupabaseContextType {
   user: User | null;
@@ -13,6 +13,10 @@ import {
 } from '../types';
 import CulturalContextService from '../services/cultural/CulturalContextService';
 import SpeechCacheService from '../services/cultural/SpeechCacheService';
+import CulturalPackService from '../services/cultural/CulturalPackService';
+import { TemplateVariables } from '../services/cultural/templateEngine';
+import ConversationRepository from '../services/conversation/ConversationRepository';
+import { SpeechInterruption } from '../services/voice/VoiceCommunicationService';
 
 interface ConversationStateHook {
   conversationState: ConversationState | null;
@@ -25,6 +29,7 @@ interface ConversationStateHook {
   endConversation: () => Promise<void>;
   pauseConversation: () => void;
   resumeConversation: () => void;
+  recordBargeIn: (interruption: SpeechInterruption) => void;
   
   // Message handling
   addMessage: (content: string, speaker: 'user' | 'assistant', metadata?: Partial<ConversationMessage>) => Promise<void>;
@@ -37,7 +42,7 @@ interface ConversationStateHook {
   setConversationMode: (mode: ConversationMode) => void;
   
   // Cultural adaptation
-  getAdaptedResponse: (baseMessage: string, variables?: Record<string, string>) => Promise<string>;
+  getAdaptedResponse: (baseMessage: string, variables?: TemplateVariables) => Promise<string>;
   getCulturallyAppropriateGreeting: () => Promise<string>;
   getFamilyInvolvementGuidance: () => { level: 'high' | 'medium' | 'low'; guidance: string };
   
@@ -67,7 +72,11 @@ interface ConversationInterruption {
   timestamp: Date;
   context: ConversationContext;
   messageIndex: number;
-  reason: 'user_initiated' | 'technical' | 'emergency' | 'timeout';
+  reason: 'user_initiated' | 'technical' | 'emergency' | 'timeout' | 'barge_in';
+  // Barge-in only: where the reply was cut and what the user missed
+  playbackPositionMs?: number;
+  heardText?: string;
+  unheardText?: string;
 }
 
 interface CulturalConversationMetrics {
@@ -164,10 +173,9 @@ export const useConversationState = (userId: string): ConversationStateHook => {
         const parsedState = JSON.parse(stored);
         // Convert date strings back to Date objects
         parsedState.lastInteraction = new Date(parsedState.lastInteraction);
-        parsedState.messages = parsedState.messages.map((msg: ConversationMessage) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
+        // Messages are kept by the conversation repository, not in the saved state
+        const session = await ConversationRepository.getConversation(parsedState.id);
+        parsedState.messages = session ? session.messages : [];
         setConversationState(parsedState);
       }
     } catch (err) {
@@ -213,8 +221,12 @@ export const useConversationState = (userId: string): ConversationStateHook => {
       // Warm the cache for this cultural profile
       await cacheService.current.warmCacheForUser(culturalProfile.culturalGroup, userId);
 
+      const session = await ConversationRepository.startConversation(userId, {
+        culturalGroup: culturalProfile.culturalGroup
+      });
+
       const newConversationState: ConversationState = {
-        id: `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: session.id,
         userId,
         culturalProfile,
         messages: [],
@@ -261,6 +273,8 @@ export const useConversationState = (userId: string): ConversationStateHook => {
         emotionalState: 'neutral'
       });
 
+      await ConversationRepository.endConversation(conversationState.id);
+
       // Update final state
       setConversationState(prev => prev ? {
         ...prev,
@@ -301,6 +315,24 @@ export const useConversationState = (userId: string): ConversationStateHook => {
     }
   };
 
+  // The user talked over the assistant; the conversation carries on with their turn.
+  // Saved straight away, as calls keep their messages in the repository and may hold no state here
+  const recordBargeIn = (interruption: SpeechInterruption): void => {
+    const updated: ConversationInterruption[] = [...interruptions, {
+      timestamp: interruption.timestamp,
+      context: conversationState?.context ?? 'casual',
+      messageIndex: conversationState?.messages.length ?? 0,
+      reason: 'barge_in',
+      playbackPositionMs: interruption.playbackPositionMs,
+      heardText: interruption.heardText,
+      unheardText: interruption.unheardText
+    }];
+
+    setInterruptions(updated);
+    AsyncStorage.setItem(INTERRUPTION_KEY, JSON.stringify(updated))
+      .catch(err => console.error('Error saving interruptions:', err));
+  };
+
   const resumeConversation = (): void => {
     if (!conversationState) return;
 
@@ -329,9 +361,13 @@ export const useConversationState = (userId: string): ConversationStateHook => {
         speaker,
         emotionalState: metadata.emotionalState || 'neutral',
         context: metadata.context || conversationState.context,
-        audioUrl: metadata.audioUrl
+        audioUrl: metadata.audioUrl,
+        channel: metadata.channel,
+        culturalContext: metadata.culturalContext
       };
 
+      await ConversationRepository.appendMessage(conversationState.id, message);
+
       setConversationState(prev => prev ? {
         ...prev,
         messages: [...prev.messages, message],
@@ -451,7 +487,7 @@ export const useConversationState = (userId: string): ConversationStateHook => {
     } : null);
   };
 
-  const getAdaptedResponse = async (baseMessage: string, variables: Record<string, string> = {}): Promise<string> => {
+  const getAdaptedResponse = async (baseMessage: string, variables: TemplateVariables = {}): Promise<string> => {
     if (!conversationState) return baseMessage;
 
     const culturalGroup = conversationState.culturalProfile.culturalGroup;
@@ -482,13 +518,9 @@ export const useConversationState = (userId: string): ConversationStateHook => {
     const context = conversationState.context;
     const level = culturalService.current.getFamilyInvolvementLevel(culturalGroup, context);
     
-    const guidance = {
-      maori: 'Whānau involvement is essential for holistic care and decision-making',
-      chinese: 'Family should be respectfully included while maintaining face and dignity',
-      western: 'Respect individual autonomy while offering family support options'
-    };
+    const guidance = CulturalPackService.getInstance().getPack(culturalGroup).care.familyGuidance;
 
-    return { level, guidance: guidance[culturalGroup] };
+    return { level, guidance };
   };
 
   const checkFamilyInvolvementRequirement = (): boolean => {
@@ -526,7 +558,8 @@ export const useConversationState = (userId: string): ConversationStateHook => {
       case 'medical':
         return stigmaStrategy.directness !== 'low';
       case 'personal':
-        return culturalGroup === 'western' || culturalMetrics.respectfulnessScore > 7;
+        return conversationState.culturalProfile.familyStructure === 'individual_focused' ||
+          culturalMetrics.respectfulnessScore > 7;
       case 'family':
         return stigmaStrategy.familyInvolvement !== 'optional';
       default:
@@ -539,20 +572,15 @@ export const useConversationState = (userId: string): ConversationStateHook => {
     
     const culturalGroup = conversationState.culturalProfile.culturalGroup;
     
-    const guidance = {
-      maori: 'Information will be shared respectfully with whānau as appropriate',
-      chinese: 'We will protect your dignity and family honor in all communications',
-      western: 'You have full control over your personal information sharing'
-    };
-
-    return guidance[culturalGroup];
+    return CulturalPackService.getInstance().getPack(culturalGroup).care.privacyGuidance;
   };
 
   const saveConversationState = async (): Promise<void> => {
     if (!conversationState) return;
     
     try {
-      await AsyncStorage.setItem(CONVERSATION_KEY, JSON.stringify(conversationState));
+      // Messages are already saved by the repository as they arrive
+      await AsyncStorage.setItem(CONVERSATION_KEY, JSON.stringify({ ...conversationState, messages: [] }));
       await AsyncStorage.setItem(INTERRUPTION_KEY, JSON.stringify(interruptions));
     } catch (err) {
       console.error('Error saving conversation state:', err);
@@ -603,6 +631,7 @@ export const useConversationState = (userId: string): ConversationStateHook => {
     endConversation,
     pauseConversation,
     resumeConversation,
+    recordBargeIn,
     addMessage,
     updateCurrentMessage,
     clearCurrentMessage,
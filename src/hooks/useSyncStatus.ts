@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import SyncEngine from '../services/sync/SyncEngine';
+import { SyncState } from '../types';
+
+/**
+ * Live state of the offline outbox: whether edits are saved to Supabase,
+ * waiting for a connection, or failing, and which were rejected.
+ */
+export const useSyncStatus = (): SyncState & {
+  retry: () => Promise<void>;
+  dismissRejected: () => Promise<void>;
+} => {
+  const [state, setState] = useState<SyncState>(SyncEngine.getState());
+
+  useEffect(() => SyncEngine.subscribe(setState), []);
+
+  return { ...state, retry: () => SyncEngine.retry(), dismissRejected: () => SyncEngine.dismissRejected() };
+};
+
+export default useSyncStatus;
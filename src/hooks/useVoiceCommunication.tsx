@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Audio } from 'expo-av';
-import { VoiceCommunicationService, VoiceCommunicationOptions } from '../services/voice/VoiceCommunicationService';
-import { PreferredLanguage } from '../types';
+import { VoiceCommunicationService, VoiceCommunicationOptions, SpeechInterruption } from '../services/voice/VoiceCommunicationService';
+import VoiceProfileService from '../services/voice/VoiceProfileService';
+import { HandsFreeState } from '../services/voice/HandsFreeController';
+import BatteryOptimizer from '../services/performance/BatteryOptimizer';
+import { VoiceActivityEvent } from '../services/audio/VoiceActivityDetector';
+import { getCurrentUserId } from '../services/supabase/auth';
+import { PreferredLanguage, CulturalProfile, LanguageSegment, VoiceProfile } from '../types';
+import config from '../config';
 
 export interface UseVoiceCommunicationOptions {
   preferredLanguage: PreferredLanguage;
@@ -10,11 +16,14 @@ export interface UseVoiceCommunicationOptions {
   modelId?: string;
   stability?: number;
   similarityBoost?: number;
-  onTranscriptUpdate?: (text: string, isFinal: boolean) => void;
+  onTranscriptUpdate?: (text: string, isFinal: boolean, segments?: LanguageSegment[]) => void;
   onError?: (error: string) => void;
   onSpeechStart?: () => void;
   onSpeechEnd?: () => void;
-  onAIResponseReceived?: (response: string) => void;
+  onAIResponseReceived?: (response: string, isFinal: boolean, segments?: LanguageSegment[]) => void;
+  onInterruption?: (interruption: SpeechInterruption) => void;
+  streamResponses?: boolean;
+  culturalProfile?: CulturalProfile | null;
 }
 
 export interface AudioState {
@@ -24,18 +33,29 @@ export interface AudioState {
   error: string | null;
 }
 
+// What the microphone is hearing while listening, for VoiceInputIndicator
+export interface VoiceActivityState {
+  isUserSpeaking: boolean;
+  levelDb: number;
+  noiseFloorDb: number;
+}
+
 export interface VoiceCommunicationState {
   isListening: boolean;
   isSpeaking: boolean;
   interimTranscript: string;
   finalTranscript: string;
   aiResponse: string;
+  isAIResponseFinal: boolean;
   error: string | null;
   audioState: AudioState;
   detectedLanguage: PreferredLanguage;
   isInitialized: boolean;
   isSimulatedTranscription: boolean;
   hasConversationHistory: boolean;
+  voiceActivity: VoiceActivityState;
+  voiceProfile: VoiceProfile | null; // The user's saved voice for the current language, once loaded
+  handsFree: HandsFreeState;
 }
 
 export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) => {
@@ -50,7 +70,10 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     onError,
     onSpeechStart,
     onSpeechEnd,
-    onAIResponseReceived
+    onAIResponseReceived,
+    onInterruption,
+    streamResponses,
+    culturalProfile
   } = options;
   
   // State
@@ -60,6 +83,7 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     interimTranscript: '',
     finalTranscript: '',
     aiResponse: '',
+    isAIResponseFinal: true,
     error: null,
     audioState: {
       isRecording: false,
@@ -71,14 +95,39 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     isInitialized: false,
     isSimulatedTranscription: true, // Using simulated transcription since DeepSeek API is unavailable
     hasConversationHistory: false,
+    voiceActivity: {
+      isUserSpeaking: false,
+      levelDb: -160,
+      noiseFloorDb: -160,
+    },
+    voiceProfile: null,
+    handsFree: {
+      phase: 'off',
+      isMicLive: false,
+      wakePhrase: config.voice.handsFree.wakePhrases[preferredLanguage][0],
+    },
   });
 
   // Refs
   const serviceRef = useRef<VoiceCommunicationService | null>(null);
   const isMounted = useRef<boolean>(true);
+  const languageRef = useRef<PreferredLanguage>(preferredLanguage);
+
+  // Voice, stability and similarity passed to the hook win over the saved profile
+  const applyVoiceProfile = useCallback((profile: VoiceProfile) => {
+    if (!isMounted.current || profile.language !== languageRef.current) return;
+    
+    serviceRef.current?.setVoiceProfile({
+      ...profile,
+      voiceId: voiceId || profile.voiceId,
+      stability: stability || profile.stability,
+      similarityBoost: similarityBoost || profile.similarityBoost
+    });
+    setState(prev => ({ ...prev, voiceProfile: profile }));
+  }, [voiceId, stability, similarityBoost]);
 
   // Memoize callback functions to prevent unnecessary re-initialization
-  const memoizedUpdateCallback = useCallback((text: string, isFinal: boolean) => {
+  const memoizedUpdateCallback = useCallback((text: string, isFinal: boolean, segments?: LanguageSegment[]) => {
     if (!isMounted.current) return;
     
     setState(prev => ({
@@ -88,7 +137,7 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     }));
     
     if (onTranscriptUpdate) {
-      onTranscriptUpdate(text, isFinal);
+      onTranscriptUpdate(text, isFinal, segments);
     }
   }, [onTranscriptUpdate]);
   
@@ -130,20 +179,68 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     }
   }, [onSpeechEnd]);
   
-  const memoizedAIResponseCallback = useCallback((response: string) => {
+  const memoizedAIResponseCallback = useCallback((response: string, isFinal: boolean, segments?: LanguageSegment[]) => {
     if (!isMounted.current) return;
     
     setState(prev => ({
       ...prev,
       aiResponse: response,
+      isAIResponseFinal: isFinal,
       hasConversationHistory: true
     }));
     
     if (onAIResponseReceived) {
-      onAIResponseReceived(response);
+      onAIResponseReceived(response, isFinal, segments);
     }
   }, [onAIResponseReceived]);
 
+  // The service keeps the callbacks it was created with; read the caller's latest handler
+  const onInterruptionRef = useRef(onInterruption);
+  onInterruptionRef.current = onInterruption;
+
+  const memoizedInterruptionCallback = useCallback((interruption: SpeechInterruption) => {
+    if (!isMounted.current) return;
+    
+    // The service keeps the barge-in recording as the user's turn
+    setState(prev => ({ ...prev, isListening: true, isSpeaking: false }));
+    
+    if (onInterruptionRef.current) {
+      onInterruptionRef.current(interruption);
+    }
+  }, []);
+
+  const memoizedVoiceActivityCallback = useCallback((event: VoiceActivityEvent) => {
+    if (!isMounted.current) return;
+    
+    setState(prev => {
+      const current = prev.voiceActivity;
+      let next = current;
+      
+      if (event.type === 'speech_start' || event.type === 'speech_resume') {
+        next = { ...current, isUserSpeaking: true };
+      } else if (event.type === 'speech_pause' || event.type === 'speech_end') {
+        next = { ...current, isUserSpeaking: false };
+      } else if (event.type === 'level' && Math.round(event.levelDb) !== Math.round(current.levelDb)) {
+        // Whole-dB changes only, metering arrives ten times a second
+        next = { ...current, levelDb: event.levelDb, noiseFloorDb: event.noiseFloorDb };
+      }
+      
+      return next === current ? prev : { ...prev, voiceActivity: next };
+    });
+  }, []);
+
+  const memoizedHandsFreeCallback = useCallback((handsFree: HandsFreeState) => {
+    if (!isMounted.current) return;
+    
+    // In hands-free mode the service opens and closes the microphone by itself
+    const serviceListening = serviceRef.current?.getState().isListening;
+    setState(prev => ({
+      ...prev,
+      handsFree,
+      isListening: handsFree.phase === 'off' ? prev.isListening : serviceListening ?? prev.isListening
+    }));
+  }, []);
+
   // Initialize service
   useEffect(() => {
     isMounted.current = true;
@@ -169,14 +266,31 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
           modelId,
           stability,
           similarityBoost,
+          streamResponses,
+          culturalProfile: culturalProfile || undefined,
           onTranscriptUpdate: memoizedUpdateCallback,
           onError: memoizedErrorCallback,
           onSpeechStart: memoizedSpeechStartCallback,
           onSpeechEnd: memoizedSpeechEndCallback,
-          onAIResponseReceived: memoizedAIResponseCallback
+          onAIResponseReceived: memoizedAIResponseCallback,
+          onVoiceActivity: memoizedVoiceActivityCallback,
+          onInterruption: memoizedInterruptionCallback,
+          onHandsFreeChange: memoizedHandsFreeCallback
         };
         
         serviceRef.current = new VoiceCommunicationService(serviceOptions);
+        languageRef.current = preferredLanguage;
+        
+        // Load the user's voice for this language; the defaults speak until it arrives
+        const voiceProfiles = VoiceProfileService.getInstance();
+        getCurrentUserId()
+          .then(async userId => {
+            if (userId) {
+              await voiceProfiles.load(userId);
+              applyVoiceProfile(voiceProfiles.getProfile(preferredLanguage));
+            }
+          })
+          .catch(error => console.warn('Failed to load voice profile:', error));
         
         // Wait for service to fully initialize
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -198,6 +312,7 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
               interimTranscript: serviceState.interimTranscript,
               finalTranscript: serviceState.finalTranscript,
               hasConversationHistory: serviceState.hasConversationHistory || false,
+              handsFree: serviceRef.current ? serviceRef.current.getHandsFreeState() : prev.handsFree,
               error: null // Clear any previous errors
             };
             console.log('🔄 Hook state updated:', { 
@@ -256,6 +371,26 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     };
   }, [preferredLanguage, voiceId, modelId, stability, similarityBoost]);
 
+  // Edits in settings, or a newer copy from another device, are heard from the next sentence
+  useEffect(() => VoiceProfileService.getInstance().subscribe(applyVoiceProfile), [applyVoiceProfile]);
+
+  // Power saving modes for low battery close the hands-free microphone until they are left
+  useEffect(() => BatteryOptimizer.onHandsFreeListeningChange(allowed => {
+    const service = serviceRef.current;
+    if (!service) return;
+    
+    (allowed ? service.resumeHandsFree() : service.suspendHandsFree()).catch(error => {
+      console.warn('Failed to apply power saving to hands-free listening:', error);
+    });
+  }), []);
+
+  // Keep the assistant's system prompt in step with profile edits
+  useEffect(() => {
+    if (serviceRef.current && culturalProfile) {
+      serviceRef.current.setCulturalProfile(culturalProfile);
+    }
+  }, [culturalProfile]);
+
 
 
   // Method to start listening
@@ -354,7 +489,8 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     setState(prev => ({
       ...prev,
       isListening: false,
-      audioState: { ...prev.audioState, isRecording: false }
+      audioState: { ...prev.audioState, isRecording: false },
+      voiceActivity: { ...prev.voiceActivity, isUserSpeaking: false }
     }));
     
     // If service isn't available, just update state
@@ -495,6 +631,7 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     setState(prev => ({
       ...prev,
       aiResponse: '',
+      isAIResponseFinal: true,
       hasConversationHistory: false
     }));
     
@@ -503,6 +640,45 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     }
   }, []);
 
+  // Hands-free conversation, started suspended if the power saving mode does not allow it
+  const startHandsFree = useCallback(async () => {
+    if (!isMounted.current || !serviceRef.current) return;
+    
+    try {
+      await serviceRef.current.startHandsFree({ suspended: !BatteryOptimizer.isHandsFreeListeningAllowed() });
+    } catch (error) {
+      if (onError) {
+        onError(`Failed to start hands-free: ${error}`);
+      }
+    }
+  }, [onError]);
+
+  const stopHandsFree = useCallback(async () => {
+    if (!serviceRef.current) return;
+    
+    try {
+      await serviceRef.current.stopHandsFree();
+    } catch (error) {
+      if (onError) {
+        onError(`Failed to stop hands-free: ${error}`);
+      }
+    }
+  }, [onError]);
+
+  // Asks a yes/no question aloud; null when the answer was unclear or never came
+  const confirmByVoice = useCallback(async (question: string): Promise<boolean | null> => {
+    if (!isMounted.current || !serviceRef.current) return null;
+    
+    try {
+      return await serviceRef.current.confirmByVoice(question);
+    } catch (error) {
+      if (onError) {
+        onError(`Failed to ask for confirmation: ${error}`);
+      }
+      return null;
+    }
+  }, [onError]);
+
   // Method to change language
   const changeLanguage = useCallback(async (language: PreferredLanguage) => {
     try {
@@ -511,6 +687,12 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
       }
       
       await serviceRef.current.changeLanguage(language);
+      languageRef.current = language;
+      
+      const voiceProfiles = VoiceProfileService.getInstance();
+      if (voiceProfiles.isLoaded()) {
+        applyVoiceProfile(voiceProfiles.getProfile(language));
+      }
     } catch (error) {
       setState(prev => ({
         ...prev,
@@ -521,6 +703,17 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
         onError(`Failed to change language: ${error}`);
       }
     }
+  }, [onError, applyVoiceProfile]);
+
+  // Plays a sample sentence in the user's voice for a language, the current one by default
+  const previewVoice = useCallback(async (language: PreferredLanguage = languageRef.current) => {
+    try {
+      await VoiceProfileService.getInstance().preview(language);
+    } catch (error) {
+      if (onError) {
+        onError(`Failed to preview voice: ${error}`);
+      }
+    }
   }, [onError]);
 
   return {
@@ -529,17 +722,25 @@ export const useVoiceCommunication = (options: UseVoiceCommunicationOptions) =>
     interimTranscript: state.interimTranscript,
     finalTranscript: state.finalTranscript,
     aiResponse: state.aiResponse,
+    isAIResponseFinal: state.isAIResponseFinal,
     error: state.error,
     audioState: state.audioState,
     isInitialized: state.isInitialized,
     isSimulatedTranscription: state.isSimulatedTranscription,
     hasConversationHistory: state.hasConversationHistory,
+    voiceActivity: state.voiceActivity,
+    voiceProfile: state.voiceProfile,
+    handsFree: state.handsFree,
     startListening,
     stopListening,
     speak,
     stopSpeaking,
     resetTranscript,
     resetConversation,
-    changeLanguage
+    changeLanguage,
+    previewVoice,
+    startHandsFree,
+    stopHandsFree,
+    confirmByVoice
   };
 };
\ No newline at end of file
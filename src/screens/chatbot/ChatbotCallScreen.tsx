@@ -17,25 +17,134 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList } from "../../../App";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useVoiceCommunication } from "../../hooks/useVoiceCommunication";
-import { PreferredLanguage } from "../../types";
+import { useConversationState } from "../../hooks/useConversationState";
+import { LanguageSegment, PreferredLanguage } from "../../types";
 import { useCulturalContext } from "../../contexts/CulturalContext";
 import VoiceInputIndicator from "../../components/ui/VoiceInputIndicator";
 import { Audio } from 'expo-av';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import ConversationRepository from "../../services/conversation/ConversationRepository";
+import { getCurrentUserId } from "../../services/supabase/auth";
+import CulturalPackService from "../../services/cultural/CulturalPackService";
+import { getCulturalSuggestionQuestion } from "../../services/voice/voiceConfirmation";
+import { getMainSegmentLanguage } from "../../services/cultural/languageIdentification";
 
 import AVATAR_BG from "../../../assets/chatbot_avatar.jpg";
 
+// Hands-free stays on from call to call once chosen
+const HANDS_FREE_KEY = 'hands_free_mode';
+
+const HANDS_FREE_TEXT: Record<PreferredLanguage, {
+  suspended: string;
+  micOff: string;
+  sleeping: (wakePhrase: string) => string;
+  listening: string;
+}> = {
+  en: {
+    suspended: "Hands-free paused · Battery low",
+    micOff: "Microphone off",
+    sleeping: wakePhrase => `Microphone on · Say "${wakePhrase}"`,
+    listening: "Microphone on · I'm listening",
+  },
+  mi: {
+    suspended: "Kua tatari te ringa-kore · Kua heke te hiko",
+    micOff: "Kua kati te hopuoro",
+    sleeping: wakePhrase => `Kei te tuwhera te hopuoro · Kīia mai "${wakePhrase}"`,
+    listening: "Kei te tuwhera te hopuoro · Kei te whakarongo ahau",
+  },
+  zh: {
+    suspended: "免提已暂停 · 电量不足",
+    micOff: "麦克风已关闭",
+    sleeping: wakePhrase => `麦克风已开启 · 请说"${wakePhrase}"`,
+    listening: "麦克风已开启 · 我在听",
+  },
+  sm: {
+    suspended: "Ua taofi le aunoa ma lima · Ua maualalo le maa",
+    micOff: "Ua tape le masini fa'alogo",
+    sleeping: wakePhrase => `Ua ola le masini fa'alogo · Fai mai "${wakePhrase}"`,
+    listening: "Ua ola le masini fa'alogo · Ou te fa'alogo atu",
+  },
+  to: {
+    suspended: "Kuo ta'ofi 'a e ta'e nima · Kuo ma'ulalo 'a e mahafu",
+    micOff: "Kuo tāmate'i 'a e maikolofoni",
+    sleeping: wakePhrase => `Kuo fakaava 'a e maikolofoni · Lea mai "${wakePhrase}"`,
+    listening: "Kuo fakaava 'a e maikolofoni · 'Oku ou fanongo atu",
+  },
+  hi: {
+    suspended: "हैंड्स-फ़्री रुका हुआ है · बैटरी कम है",
+    micOff: "माइक्रोफ़ोन बंद है",
+    sleeping: wakePhrase => `माइक्रोफ़ोन चालू है · "${wakePhrase}" कहिए`,
+    listening: "माइक्रोफ़ोन चालू है · जी, बोलिए",
+  },
+  ko: {
+    suspended: "핸즈프리 일시 중지 · 배터리 부족",
+    micOff: "마이크 꺼짐",
+    sleeping: wakePhrase => `마이크 켜짐 · "${wakePhrase}"라고 말씀하세요`,
+    listening: "마이크 켜짐 · 듣고 있어요",
+  },
+};
+
 const ChatbotCallScreen = () => {
   const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
-  const { culturalProfile, getCulturalGreeting, getAdaptedResponse } = useCulturalContext();
+  const {
+    culturalProfile,
+    getCulturalGreeting,
+    getAdaptedResponse,
+    detectCulturalPreferences,
+    culturalSuggestion,
+    respondToCulturalSuggestion,
+  } = useCulturalContext();
   const [callSeconds, setCallSeconds] = useState(0);
   const [transcripts, setTranscripts] = useState<
-    Array<{ text: string; isFinal: boolean; timestamp: Date }>
+    Array<{ text: string; isFinal: boolean; timestamp: Date; speaker: 'user' | 'assistant' }>
   >([]);
   const [isHighContrast, setIsHighContrast] = useState(false);
   const [textSize, setTextSize] = useState<'small' | 'medium' | 'large' | 'extra-large'>('large');
   const [conversationSummary, setConversationSummary] = useState<string>('');
   const isScreenMounted = useRef(true);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
+  // Saves run in order so each reply follows the question it answers
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const suggestionAskedRef = useRef(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const { recordBargeIn } = useConversationState(userId ?? '');
+
+  useEffect(() => {
+    getCurrentUserId()
+      .then(uid => {
+        if (isScreenMounted.current) setUserId(uid);
+      })
+      .catch(err => console.warn('Failed to read the signed-in user:', err));
+  }, []);
+
+  // Records what was said in the shared conversation history, with its languages when it mixes them
+  const saveTranscript = useCallback((content: string, speaker: 'user' | 'assistant', segments: LanguageSegment[] = []) => {
+    const timestamp = new Date();
+    const isMixed = new Set(segments.map(segment => segment.language)).size > 1;
+    saveQueue.current = saveQueue.current.then(async () => {
+      try {
+        if (!conversationIdRef.current) {
+          const uid = await getCurrentUserId();
+          if (!uid) return;
+          const conversation = await ConversationRepository.resumeOrStartConversation(uid, {
+            culturalGroup: culturalProfile.culturalGroup
+          });
+          conversationIdRef.current = conversation.id;
+        }
+        await ConversationRepository.appendMessage(conversationIdRef.current, {
+          content,
+          speaker,
+          language: getMainSegmentLanguage(segments, culturalProfile.preferredLanguage),
+          segments: isMixed ? segments : undefined,
+          channel: 'voice',
+          timestamp
+        });
+      } catch (err) {
+        console.warn('Failed to save call transcript:', err);
+      }
+    });
+  }, [culturalProfile]);
 
   // Handle navigation back with cleanup
   const handleNavigateBack = useCallback(() => {
@@ -48,23 +157,32 @@ const ChatbotCallScreen = () => {
     isSpeaking,
     interimTranscript,
     finalTranscript: _finalTranscript,
+    aiResponse,
+    isAIResponseFinal,
     error,
     audioState: _audioState,
     isInitialized,
     isSimulatedTranscription,
+    voiceActivity,
+    handsFree,
     startListening,
     stopListening,
     speak: _speak,
     stopSpeaking,
+    startHandsFree,
+    stopHandsFree,
+    confirmByVoice,
   } = useVoiceCommunication({
     preferredLanguage: culturalProfile.preferredLanguage as PreferredLanguage,
     enableTTS: true, // Enable text-to-speech for responses
-    onTranscriptUpdate: (text, isFinal) => {
+    culturalProfile, // Shapes the assistant's system prompt
+    onTranscriptUpdate: (text, isFinal, segments) => {
       console.log('📝 Transcript update:', { text, isFinal });
-      setTranscripts((prev) => [...prev, { text, isFinal, timestamp: new Date() }]);
+      setTranscripts((prev) => [...prev, { text, isFinal, timestamp: new Date(), speaker: 'user' }]);
       
       // Auto-generate cultural response for final transcripts
       if (isFinal && text.trim()) {
+        saveTranscript(text.trim(), 'user', segments);
         const adaptedResponse = getAdaptedResponse(
           "Thank you for sharing that with me. How else can I help you today?",
           'casual',
@@ -73,6 +191,19 @@ const ChatbotCallScreen = () => {
         console.log('Generated cultural response:', adaptedResponse);
       }
     },
+    onAIResponseReceived: (response, isFinal, segments) => {
+      // Partial replies render from aiResponse; keep only the finished reply in the log
+      if (isFinal && response.trim()) {
+        setTranscripts((prev) => [...prev, { text: response, isFinal: true, timestamp: new Date(), speaker: 'assistant' }]);
+        saveTranscript(response, 'assistant', segments);
+      }
+    },
+    onInterruption: (interruption) => {
+      // Logged per user, so only once we know who is talking
+      if (userId) {
+        recordBargeIn(interruption);
+      }
+    },
     onError: (err) => {
       console.error('❌ Voice communication error:', err);
       Alert.alert("Voice Recognition Error", err, [
@@ -97,6 +228,8 @@ const ChatbotCallScreen = () => {
     // Stop all voice services (wrap in try/catch to prevent navigation blocking)
     const cleanup = async () => {
       try {
+        // Before anything else, so the service does not open the microphone again
+        await stopHandsFree();
         if (isListening) await stopListening();
         if (isSpeaking) await stopSpeaking();
         
@@ -105,6 +238,21 @@ const ChatbotCallScreen = () => {
           allowsRecordingIOS: false,
           playsInSilentModeIOS: false,
         });
+
+        // Hanging up ends the conversation once the last transcript is saved
+        const conversationId = conversationIdRef.current;
+        conversationIdRef.current = null;
+        if (conversationId) {
+          saveQueue.current = saveQueue.current.then(() => ConversationRepository.endConversation(conversationId));
+        }
+
+        // What the user said in this call is evidence for cultural detection
+        const userTurns = transcripts
+          .filter(transcript => transcript.speaker === 'user' && transcript.isFinal && transcript.text.trim())
+          .map(transcript => transcript.text);
+        if (userTurns.length) {
+          detectCulturalPreferences(userTurns);
+        }
       } catch (err) {
         console.warn('Error during call cleanup:', err);
       } finally {
@@ -115,7 +263,7 @@ const ChatbotCallScreen = () => {
     
     // Execute cleanup
     cleanup();
-  }, [navigation, stopListening, stopSpeaking, isListening, isSpeaking]);
+  }, [navigation, stopListening, stopSpeaking, stopHandsFree, isListening, isSpeaking, transcripts, detectCulturalPreferences]);
 
   // Set up audio mode once at the beginning
   useEffect(() => {
@@ -176,9 +324,15 @@ const ChatbotCallScreen = () => {
   useEffect(() => {
     if (isInitialized && !isListening && !isSpeaking && isScreenMounted.current) {
       console.log('🎤 Auto-starting listening on initialization');
-      const timer = setTimeout(() => {
+      const timer = setTimeout(async () => {
         if (isScreenMounted.current && !isListening && !isSpeaking) {
-          startListening();
+          const handsFreePreference = await AsyncStorage.getItem(HANDS_FREE_KEY).catch(() => null);
+          if (!isScreenMounted.current) return;
+          if (handsFreePreference === 'true') {
+            startHandsFree();
+          } else {
+            startListening();
+          }
         }
       }, 1500);
       
@@ -186,6 +340,21 @@ const ChatbotCallScreen = () => {
     }
   }, [isInitialized]);
 
+  // A profile change suggested by earlier calls is put to the user once per call, never applied without a yes
+  useEffect(() => {
+    if (!isInitialized || !culturalSuggestion || suggestionAskedRef.current) return;
+    suggestionAskedRef.current = true;
+    
+    const pack = CulturalPackService.getInstance().getPack(culturalSuggestion.suggestedGroup);
+    const question = getCulturalSuggestionQuestion(culturalProfile.preferredLanguage, pack.name, pack.profile.preferredLanguage);
+    confirmByVoice(question).then(answer => {
+      // An unclear answer, or none, leaves the suggestion for a later call
+      if (answer !== null) {
+        respondToCulturalSuggestion(answer, 'user');
+      }
+    });
+  }, [isInitialized, culturalSuggestion]);
+
   const toggleListening = useCallback(() => {
     if (!isScreenMounted.current) return;
     
@@ -206,6 +375,20 @@ const ChatbotCallScreen = () => {
     }
   }, [isListening, startListening, stopListening, isInitialized]);
 
+  const toggleHandsFree = useCallback(() => {
+    if (!isScreenMounted.current || !isInitialized) return;
+    
+    const enable = handsFree.phase === 'off';
+    AsyncStorage.setItem(HANDS_FREE_KEY, String(enable)).catch(err => {
+      console.warn('Failed to save hands-free preference:', err);
+    });
+    if (enable) {
+      startHandsFree();
+    } else {
+      stopHandsFree();
+    }
+  }, [handsFree.phase, isInitialized, startHandsFree, stopHandsFree]);
+
   // Format call duration as HH:MM:SS
   const formatDuration = (secs: number) => {
     const h = Math.floor(secs / 3600)
@@ -258,21 +441,27 @@ const ChatbotCallScreen = () => {
     return isSimulatedTranscription ? "Using device transcription" : "";
   };
 
-  // Get cultural theme colors
-  const getCulturalColors = () => {
-    const baseColors = isHighContrast ? {
-      maori: { primary: '#000000', secondary: '#FFFFFF', accent: '#FF0000' },
-      chinese: { primary: '#000000', secondary: '#FFFFFF', accent: '#FFD700' },
-      western: { primary: '#000000', secondary: '#FFFFFF', accent: '#0066CC' }
-    } : {
-      maori: { primary: '#8B4513', secondary: '#F5DEB3', accent: '#228B22' },
-      chinese: { primary: '#DC143C', secondary: '#FFD700', accent: '#FF6347' },
-      western: { primary: '#6366F1', secondary: '#E0E7FF', accent: '#8B5CF6' }
-    };
-    
-    return baseColors[culturalProfile.culturalGroup];
+  // Says whether the microphone is open while hands-free, and how to start talking
+  const getHandsFreeText = () => {
+    const { phase, isMicLive, wakePhrase } = handsFree;
+    const text = HANDS_FREE_TEXT[culturalProfile.preferredLanguage] || HANDS_FREE_TEXT.en;
+    if (phase === 'suspended') {
+      return text.suspended;
+    }
+    if (!isMicLive) {
+      return text.micOff;
+    }
+    if (phase === 'sleeping') {
+      return text.sleeping(wakePhrase);
+    }
+    return text.listening;
   };
 
+
+  // Get cultural theme colors
+  const getCulturalColors = () =>
+    CulturalPackService.getInstance().getColors(culturalProfile.culturalGroup, isHighContrast);
+
   const colors = getCulturalColors();
 
   // Text size mappings
@@ -355,6 +544,23 @@ const ChatbotCallScreen = () => {
           {getStatusText()}
         </Text>
 
+        {/* Hands-free microphone indicator */}
+        {handsFree.phase !== 'off' && (
+          <View
+            style={[styles.handsFreeBanner, handsFree.isMicLive ? styles.handsFreeBannerLive : null]}
+            accessibilityLiveRegion="polite"
+          >
+            <Icon
+              name={handsFree.isMicLive ? "microphone" : "microphone-off"}
+              size={textSizes.body}
+              color="#fff"
+            />
+            <Text style={[styles.handsFreeText, { fontSize: textSizes.caption }]}>
+              {getHandsFreeText()}
+            </Text>
+          </View>
+        )}
+
         {/* Voice recognition info */}
         {isSimulatedTranscription && (
           <View style={styles.deviceBanner}>
@@ -382,7 +588,10 @@ const ChatbotCallScreen = () => {
             style={styles.waveContainer}
             accessibilityLabel="Voice input waves"
           >
-            <VoiceInputIndicator active={isListening || isSpeaking} />
+            <VoiceInputIndicator
+              active={isListening || isSpeaking}
+              voiceActivity={isListening ? voiceActivity : undefined}
+            />
           </View>
         )}
 
@@ -394,6 +603,7 @@ const ChatbotCallScreen = () => {
               animation="fadeIn"
               style={[
                 styles.transcriptBubble,
+                transcript.speaker === 'assistant' ? styles.assistantBubble : null,
                 {
                   backgroundColor: transcript.isFinal 
                     ? (isHighContrast ? '#FFFFFF' : 'rgba(255, 255, 255, 0.9)')
@@ -451,6 +661,28 @@ const ChatbotCallScreen = () => {
               </Text>
             </Animatable.View>
           )}
+          {!isAIResponseFinal && aiResponse && (
+            <View
+              style={[
+                styles.transcriptBubble,
+                styles.assistantBubble,
+                { backgroundColor: isHighContrast ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.6)' }
+              ]}
+              accessibilityLiveRegion="polite"
+            >
+              <Text
+                style={[
+                  styles.transcriptText,
+                  {
+                    fontSize: textSizes.body,
+                    color: isHighContrast ? '#000000' : '#333333'
+                  }
+                ]}
+              >
+                {aiResponse}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Call controls */}
@@ -489,6 +721,36 @@ const ChatbotCallScreen = () => {
             </TouchableOpacity>
           </Surface>
           
+          <Surface 
+            style={[
+              styles.callButtonSurface,
+              { backgroundColor: handsFree.phase !== 'off' ? '#16A34A' : colors.primary }
+            ]}
+            elevation={5}
+          >
+            <TouchableOpacity
+              onPress={() => {
+                Vibration.vibrate(50);
+                toggleHandsFree();
+              }}
+              style={[styles.callButton, !isInitialized ? styles.disabledButton : null]}
+              accessible
+              accessibilityRole="switch"
+              accessibilityState={{ checked: handsFree.phase !== 'off' }}
+              accessibilityLabel="Hands-free conversation"
+              accessibilityHint={`When on, say "${handsFree.wakePhrase}" to talk without tapping`}
+              activeOpacity={0.7}
+              disabled={!isInitialized}
+            >
+              <Icon
+                name={handsFree.phase !== 'off' ? "account-voice" : "gesture-tap"}
+                size={54}
+                color="#fff"
+                style={{ alignSelf: "center" }}
+              />
+            </TouchableOpacity>
+          </Surface>
+          
           <Surface 
             style={[styles.callButtonSurface, { backgroundColor: '#EF4444' }]}
             elevation={5}
@@ -616,6 +878,10 @@ const styles = StyleSheet.create({
     maxWidth: '90%',
     alignSelf: 'center',
   },
+  assistantBubble: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#6366F1',
+  },
   transcriptText: {
     textAlign: "center",
     marginBottom: 4,
@@ -630,7 +896,7 @@ const styles = StyleSheet.create({
     alignItems: "center",
     width: "100%",
     paddingBottom: 48,
-    gap: 24,
+    gap: 12, // Three buttons fit a 360dp wide phone
   },
   callButtonSurface: {
     borderRadius: 48,
@@ -643,6 +909,24 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  handsFreeBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "rgba(55, 65, 81, 0.85)",
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    marginVertical: 8,
+  },
+  handsFreeBannerLive: {
+    backgroundColor: "rgba(220, 38, 38, 0.9)",
+  },
+  handsFreeText: {
+    color: "#fff",
+    fontWeight: "600",
+    textAlign: "center",
+  },
   deviceBanner: {
     backgroundColor: "rgba(0, 120, 255, 0.8)",
     padding: 8,
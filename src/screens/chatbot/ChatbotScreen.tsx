@@ -1,29 +1,32 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { View, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { Text, Surface, Button } from 'react-native-paper';
 import * as Animatable from 'react-native-animatable';
 import ProgressIndicator from '../../components/ui/ProgressIndicator';
 import VoiceInterface from '../../components/ui/VoiceInterface';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../../App';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useCulturalContext } from '../../contexts/CulturalContext';
+import { ConversationMessage } from '../../types';
+import ConversationRepository from '../../services/conversation/ConversationRepository';
+import { getCurrentUserId } from '../../services/supabase/auth';
+import CulturalPackService from '../../services/cultural/CulturalPackService';
 
-interface Message {
-  id: string;
-  text: string;
-  isUser: boolean;
-  timestamp: Date;
-  culturalContext?: string;
-}
+// Messages from earlier chats and calls shown when the screen opens
+const RECENT_MESSAGE_LIMIT = 20;
 
 const ChatbotScreen = () => {
   const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const { culturalProfile, getCulturalGreeting, getAdaptedResponse } = useCulturalContext();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
   const [thinking, setThinking] = useState(false);
+  const userIdRef = useRef<string | null>(null);
+  // Saves run in order so a quick reply lands in the conversation its question started
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
   
   // Voice interface states
   const [isListening, setIsListening] = useState(false);
@@ -35,23 +38,39 @@ const ChatbotScreen = () => {
   const [textSize, setTextSize] = useState<'small' | 'medium' | 'large' | 'extra-large'>('large');
   const [showCulturalIndicators, setShowCulturalIndicators] = useState(true);
 
+  // Reload on focus so what was said on a call shows up here
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      const loadRecentMessages = async () => {
+        try {
+          const uid = userIdRef.current || await getCurrentUserId();
+          userIdRef.current = uid;
+          if (uid) {
+            const recent = await ConversationRepository.getRecentMessages(uid, RECENT_MESSAGE_LIMIT);
+            if (active) setMessages(recent);
+          }
+        } catch (error) {
+          console.warn('Failed to load recent messages:', error);
+        } finally {
+          if (active) setHistoryLoaded(true);
+        }
+      };
+      loadRecentMessages();
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
   // Initialize greeting message
   useEffect(() => {
+    if (!historyLoaded || messages.length > 0) return;
+
     const timeOfDay = new Date().getHours() < 12 ? 'morning' : 
                      new Date().getHours() < 18 ? 'afternoon' : 'evening';
-    const greeting = getCulturalGreeting(timeOfDay);
-    
-    if (messages.length === 0) {
-      const welcomeMessage: Message = {
-        id: '1',
-        text: greeting,
-        isUser: false,
-        timestamp: new Date(),
-        culturalContext: 'greeting'
-      };
-      setMessages([welcomeMessage]);
-    }
-  }, [culturalProfile, getCulturalGreeting, messages.length]);
+    addMessage(getCulturalGreeting(timeOfDay), false, 'greeting');
+  }, [culturalProfile, getCulturalGreeting, historyLoaded, messages.length]);
 
   const handleStartListening = () => {
     setIsListening(true);
@@ -72,14 +91,30 @@ const ChatbotScreen = () => {
   };
 
   const addMessage = (text: string, isUser: boolean, culturalContext?: string) => {
-    const newMessage: Message = {
-      id: Date.now().toString(),
-      text,
-      isUser,
+    const newMessage: ConversationMessage = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      content: text,
+      speaker: isUser ? 'user' : 'assistant',
+      language: culturalProfile.preferredLanguage,
       timestamp: new Date(),
+      channel: 'text',
       culturalContext
     };
     setMessages(prev => [...prev, newMessage]);
+    saveQueue.current = saveQueue.current.then(() => saveMessage(newMessage));
+  };
+
+  const saveMessage = async (message: ConversationMessage) => {
+    const uid = userIdRef.current;
+    if (!uid) return;
+    try {
+      const conversation = await ConversationRepository.resumeOrStartConversation(uid, {
+        culturalGroup: culturalProfile.culturalGroup
+      });
+      await ConversationRepository.appendMessage(conversation.id, message);
+    } catch (error) {
+      console.warn('Failed to save message:', error);
+    }
   };
 
   const handleQuickResponse = (response: string) => {
@@ -99,19 +134,8 @@ const ChatbotScreen = () => {
   };
 
   // Get cultural theme colors
-  const getCulturalColors = () => {
-    const baseColors = isHighContrast ? {
-      maori: { primary: '#000000', secondary: '#FFFFFF', accent: '#FF0000', background: '#FFFFFF' },
-      chinese: { primary: '#000000', secondary: '#FFFFFF', accent: '#FFD700', background: '#FFFFFF' },
-      western: { primary: '#000000', secondary: '#FFFFFF', accent: '#0066CC', background: '#FFFFFF' }
-    } : {
-      maori: { primary: '#8B4513', secondary: '#F5DEB3', accent: '#228B22', background: '#FFF8DC' },
-      chinese: { primary: '#DC143C', secondary: '#FFD700', accent: '#FF6347', background: '#FFF5EE' },
-      western: { primary: '#6366F1', secondary: '#E0E7FF', accent: '#8B5CF6', background: '#F9FAFB' }
-    };
-    
-    return baseColors[culturalProfile.culturalGroup];
-  };
+  const getCulturalColors = () =>
+    CulturalPackService.getInstance().getColors(culturalProfile.culturalGroup, isHighContrast);
 
   const colors = getCulturalColors();
 
@@ -153,7 +177,7 @@ const ChatbotScreen = () => {
             delay={index * 100}
             style={[
               styles.messageBubble,
-              msg.isUser ? styles.userMessage : styles.aiMessage,
+              msg.speaker === 'user' ? styles.userMessage : styles.aiMessage,
             ]}
           >
             <Text 
@@ -161,12 +185,12 @@ const ChatbotScreen = () => {
                 styles.messageText, 
                 { 
                   fontSize: textSizes.body, 
-                  color: msg.isUser ? '#FFFFFF' : colors.primary,
+                  color: msg.speaker === 'user' ? '#FFFFFF' : colors.primary,
                   lineHeight: textSizes.body * 1.4
                 }
               ]}
             >
-              {msg.text}
+              {msg.content}
             </Text>
             {showCulturalIndicators && msg.culturalContext && (
               <Text 
@@ -174,7 +198,7 @@ const ChatbotScreen = () => {
                   styles.contextText,
                   { 
                     fontSize: textSizes.caption,
-                    color: msg.isUser ? 'rgba(255,255,255,0.7)' : 'rgba(0,0,0,0.6)'
+                    color: msg.speaker === 'user' ? 'rgba(255,255,255,0.7)' : 'rgba(0,0,0,0.6)'
                   }
                 ]}
               >
@@ -186,7 +210,7 @@ const ChatbotScreen = () => {
                 styles.timestampText,
                 { 
                   fontSize: textSizes.caption - 2,
-                  color: msg.isUser ? 'rgba(255,255,255,0.6)' : 'rgba(0,0,0,0.5)'
+                  color: msg.speaker === 'user' ? 'rgba(255,255,255,0.6)' : 'rgba(0,0,0,0.5)'
                 }
               ]}
             >
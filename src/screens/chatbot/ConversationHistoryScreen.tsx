@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { View as _View, StyleSheet, Alert, Share } from 'react-native';
 import { Text as _Text, Appbar, FAB } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -9,6 +9,9 @@ import { useCulturalContext } from '../../contexts/CulturalContext';
 import { RootStackParamList } from '../../../App';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format } from 'date-fns';
+import { PreferredLanguage, ConversationSession as RecordedConversation } from '../../types';
+import ConversationRepository from '../../services/conversation/ConversationRepository';
+import { getCurrentUserId } from '../../services/supabase/auth';
 
 interface ConversationMessage {
   id: string;
@@ -17,7 +20,7 @@ interface ConversationMessage {
   isUser: boolean;
   culturalContext?: string;
   emotions?: string[];
-  language: 'en' | 'mi' | 'zh';
+  language: PreferredLanguage;
 }
 
 interface ConversationSession {
@@ -30,6 +33,25 @@ interface ConversationSession {
   tags?: string[];
 }
 
+// Shapes a recorded conversation for the history list
+const toHistorySession = (conversation: RecordedConversation, fallbackGroup: string): ConversationSession => ({
+  id: conversation.id,
+  startTime: conversation.startedAt,
+  endTime: conversation.endedAt || conversation.lastInteraction,
+  culturalProfile: conversation.culturalGroup || fallbackGroup,
+  summary: conversation.summary,
+  tags: Array.from(new Set(conversation.messages.map(message => message.channel).filter(Boolean) as string[])),
+  messages: conversation.messages.map(message => ({
+    id: message.id,
+    content: message.content,
+    timestamp: message.timestamp,
+    isUser: message.speaker === 'user',
+    culturalContext: message.culturalContext,
+    emotions: message.emotionalState && message.emotionalState !== 'neutral' ? [message.emotionalState] : undefined,
+    language: message.language
+  }))
+});
+
 const ConversationHistoryScreen = () => {
   const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const { culturalProfile, getFamilyInvolvementGuidance, validateCulturalAppropriateness } = useCulturalContext();
@@ -38,11 +60,20 @@ const ConversationHistoryScreen = () => {
   const [textSize, setTextSize] = useState<'small' | 'medium' | 'large' | 'extra-large'>('large');
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const userIdRef = useRef<string | null>(null);
 
   // Load conversation history on mount
   useEffect(() => {
     loadConversationHistory();
     loadUserPreferences();
+
+    // Messages saved while the screen is open, and ones pulled from Supabase
+    const unsubscribe = ConversationRepository.subscribe(changedUserId => {
+      if (changedUserId === userIdRef.current) {
+        showStoredConversations(changedUserId);
+      }
+    });
+    return unsubscribe;
   }, []);
 
   const loadUserPreferences = async () => {
@@ -71,95 +102,30 @@ const ConversationHistoryScreen = () => {
     }
   };
 
+  const showStoredConversations = async (uid: string) => {
+    const conversations = await ConversationRepository.listConversations(uid);
+    setSessions(
+      conversations
+        .filter(conversation => conversation.messages.length > 0)
+        .map(conversation => toHistorySession(conversation, culturalProfile.culturalGroup))
+    );
+  };
+
   const loadConversationHistory = async () => {
     try {
       setIsLoading(true);
-      
-      // Try to load from storage first
-      const storedSessions = await AsyncStorage.getItem('conversationSessions');
-      if (storedSessions) {
-        const parsedSessions = JSON.parse(storedSessions).map((session: any) => ({
-          ...session,
-          startTime: new Date(session.startTime),
-          endTime: session.endTime ? new Date(session.endTime) : undefined,
-          messages: session.messages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }))
-        }));
-        setSessions(parsedSessions);
-        setIsLoading(false);
-        return;
-      }
 
-      // Generate sample data if no stored sessions
-      const sampleSessions: ConversationSession[] = [
-      {
-        id: '1',
-        startTime: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
-        endTime: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000 + 15 * 60 * 1000), // 15 minutes later
-        culturalProfile: culturalProfile.culturalGroup,
-        summary: 'Discussed daily activities and shared memories about gardening',
-        messages: [
-          {
-            id: 'm1',
-            content: culturalProfile.culturalGroup === 'maori' ? 'Kia ora! Pēhea koe i tēnei rā?' : 
-                     culturalProfile.culturalGroup === 'chinese' ? '您好！今天过得怎么样？' : 
-                     'Hello! How are you feeling today?',
-            timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-            isUser: false,
-            culturalContext: 'respectful greeting',
-            language: culturalProfile.preferredLanguage
-          },
-          {
-            id: 'm2',
-            content: 'I\'m doing well, thank you. I was just thinking about my garden.',
-            timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000 + 2 * 60 * 1000),
-            isUser: true,
-            language: 'en'
-          },
-          {
-            id: 'm3',
-            content: 'That sounds wonderful! Tell me more about your garden. What do you like to grow?',
-            timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000 + 4 * 60 * 1000),
-            isUser: false,
-            culturalContext: 'encouraging engagement',
-            language: culturalProfile.preferredLanguage
-          }
-        ]
-      },
-      {
-        id: '2',
-        startTime: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 1 week ago
-        endTime: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000 + 20 * 60 * 1000),
-        culturalProfile: culturalProfile.culturalGroup,
-        summary: 'Talked about family memories and upcoming celebrations',
-        messages: [
-          {
-            id: 'm4',
-            content: culturalProfile.culturalGroup === 'maori' ? 'Kia ora anō! He aha ngā kōrero mō tō whānau?' : 
-                     culturalProfile.culturalGroup === 'chinese' ? '您好！想聊聊家人吗？' : 
-                     'Good morning! Would you like to talk about your family?',
-            timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-            isUser: false,
-            culturalContext: 'family-centered conversation',
-            language: culturalProfile.preferredLanguage
-          },
-          {
-            id: 'm5',
-            content: 'Yes, my granddaughter is visiting next week. I\'m so excited!',
-            timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000 + 3 * 60 * 1000),
-            isUser: true,
-            language: 'en'
-          }
-        ]
+      const uid = userIdRef.current || await getCurrentUserId();
+      userIdRef.current = uid;
+      if (!uid) {
+        setSessions([]);
+        return;
       }
-    ];
 
-    setSessions(sampleSessions);
-    
-    // Save sample sessions to storage for future use
-    await AsyncStorage.setItem('conversationSessions', JSON.stringify(sampleSessions));
+      // What is on the device shows straight away; Supabase fills in the rest
+      await showStoredConversations(uid);
+      setIsLoading(false);
+      await ConversationRepository.refresh(uid);
     } catch (error) {
       console.error('Failed to load conversation history:', error);
       Alert.alert('Error', 'Failed to load conversation history. Please try again.');
@@ -135,12 +135,12 @@ const VoiceDebugScreen = () => {
               <Chip mode="outlined">{config.app.env}</Chip>
             </View>
             <View style={styles.statusRow}>
-              <Text style={styles.statusLabel}>DeepSeek API:</Text>
+              <Text style={styles.statusLabel}>Chat Provider ({config.llm.provider}):</Text>
               <Chip 
                 mode="outlined"
-                textStyle={{ color: getStatusColor(config.deepseek.isConfigured) }}
+                textStyle={{ color: getStatusColor(config.llm.isConfigured) }}
               >
-                {config.deepseek.isConfigured ? 'Configured' : 'Not Configured'}
+                {config.llm.isConfigured ? 'Configured' : 'Not Configured'}
               </Chip>
             </View>
             <View style={styles.statusRow}>
@@ -0,0 +1,406 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Text, Button, Surface, Switch, ProgressBar } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import Slider from '@react-native-community/slider';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../../App';
+import { useCulturalContext } from '../../contexts/CulturalContext';
+import HearingProfileService from '../../services/audio/HearingProfileService';
+import { HearingTest, HearingTestStep } from '../../services/audio/HearingTest';
+import VoiceProfileService from '../../services/voice/VoiceProfileService';
+import { AUDIOGRAM_FREQUENCIES, AudiogramFrequency, Ear, HearingProfile } from '../../types';
+
+type HearingScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Hearing'>;
+
+interface Props {
+  navigation: HearingScreenNavigationProp;
+}
+
+const EAR_NAMES: Record<Ear, string> = { left: 'Left ear', right: 'Right ear' };
+
+const formatFrequency = (frequency: AudiogramFrequency): string =>
+  frequency >= 1000 ? `${frequency / 1000} kHz` : `${frequency} Hz`;
+
+// Plain words rather than dB, matching the usual audiology bands
+const describeThreshold = (level: number | undefined): string => {
+  if (level === undefined) return 'Not tested';
+  if (level <= 20) return 'Clear';
+  if (level <= 40) return 'Mild loss';
+  if (level <= 60) return 'Moderate loss';
+  return 'Severe loss';
+};
+
+/**
+ * The hearing check and the playback settings it feeds. Each tone plays in
+ * one ear through headphones and the listener says whether they heard it;
+ * the result shapes how replies sound on this phone.
+ */
+const HearingScreen: React.FC<Props> = ({ navigation }) => {
+  const hearingService = HearingProfileService.getInstance();
+  const { culturalProfile } = useCulturalContext();
+  const [profile, setProfile] = useState<HearingProfile>(hearingService.getProfile());
+  const [step, setStep] = useState<HearingTestStep | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [speechRate, setSpeechRate] = useState(profile.speechRate);
+  const testRef = useRef<HearingTest | null>(null);
+
+  useEffect(() => {
+    hearingService.load().then(loaded => {
+      setProfile(loaded);
+      setSpeechRate(loaded.speechRate);
+    });
+    return hearingService.subscribe(setProfile);
+  }, []);
+
+  const playTone = async (toneStep: HearingTestStep) => {
+    setIsPlayingTone(true);
+    try {
+      await hearingService.playTestTone(toneStep);
+    } catch (error) {
+      console.error('Failed to play hearing test tone:', error);
+    }
+    setIsPlayingTone(false);
+  };
+
+  const startTest = () => {
+    const test = new HearingTest();
+    testRef.current = test;
+    const first = test.current();
+    setProgress(0);
+    setStep(first);
+    if (first) playTone(first);
+  };
+
+  const cancelTest = () => {
+    testRef.current = null;
+    setStep(null);
+  };
+
+  const handleResponse = async (heard: boolean) => {
+    const test = testRef.current;
+    if (!test) return;
+
+    test.respond(heard);
+    setProgress(test.progress());
+    const next = test.current();
+    if (next) {
+      setStep(next);
+      playTone(next);
+      return;
+    }
+
+    testRef.current = null;
+    setStep(null);
+    try {
+      await hearingService.saveAudiogram(test.getAudiogram());
+    } catch (error) {
+      console.error('Failed to save hearing check:', error);
+    }
+  };
+
+  const updateProfile = async (changes: Partial<HearingProfile>) => {
+    try {
+      await hearingService.saveProfile(changes);
+    } catch (error) {
+      console.error('Failed to save hearing settings:', error);
+    }
+  };
+
+  const previewSpeech = async () => {
+    setIsPreviewing(true);
+    try {
+      await VoiceProfileService.getInstance().preview(culturalProfile.preferredLanguage);
+    } catch (error) {
+      console.error('Failed to play speech sample:', error);
+    }
+    setIsPreviewing(false);
+  };
+
+  const renderTest = (current: HearingTestStep) => (
+    <Surface style={styles.card} elevation={1}>
+      <Text style={styles.cardTitle}>{EAR_NAMES[current.ear]} · {formatFrequency(current.frequency)}</Text>
+      <ProgressBar progress={progress} color="#6366F1" style={styles.progress} />
+      <Text style={styles.cardText}>
+        Listen for three short beeps. They may be very quiet.
+      </Text>
+      <Button
+        mode="outlined"
+        icon="replay"
+        onPress={() => playTone(current)}
+        disabled={isPlayingTone}
+        style={styles.button}
+        labelStyle={styles.buttonLabel}
+      >
+        Play again
+      </Button>
+      <View style={styles.responseRow}>
+        <Button
+          mode="contained"
+          onPress={() => handleResponse(true)}
+          disabled={isPlayingTone}
+          style={styles.responseButton}
+          labelStyle={styles.buttonLabel}
+          accessibilityLabel="I heard the beeps"
+        >
+          I heard it
+        </Button>
+        <Button
+          mode="contained-tonal"
+          onPress={() => handleResponse(false)}
+          disabled={isPlayingTone}
+          style={styles.responseButton}
+          labelStyle={styles.buttonLabel}
+          accessibilityLabel="I did not hear the beeps"
+        >
+          Not heard
+        </Button>
+      </View>
+      <Button onPress={cancelTest} style={styles.button} labelStyle={styles.buttonLabel}>
+        Stop the check
+      </Button>
+    </Surface>
+  );
+
+  const renderAudiogram = () => {
+    const audiogram = profile.audiogram;
+    if (!audiogram) {
+      return (
+        <Text style={styles.cardText}>
+          You have not done the hearing check yet. It takes about five minutes.
+        </Text>
+      );
+    }
+    return (
+      <>
+        <Text style={styles.cardDetail}>
+          Checked {new Date(audiogram.testedAt).toLocaleDateString()}
+        </Text>
+        {(['left', 'right'] as Ear[]).map(ear => (
+          <View key={ear} style={styles.earColumn}>
+            <Text style={styles.earTitle}>{EAR_NAMES[ear]}</Text>
+            {AUDIOGRAM_FREQUENCIES.map(frequency => (
+              <View key={frequency} style={styles.resultRow}>
+                <Text style={styles.resultFrequency}>{formatFrequency(frequency)}</Text>
+                <Text style={styles.resultLevel}>{describeThreshold(audiogram[ear][frequency])}</Text>
+              </View>
+            ))}
+          </View>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={["top", "left", "right"]}>
+      <View style={styles.backArrowContainer}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          accessibilityLabel="Back to Settings"
+          accessibilityRole="button"
+        >
+          <Icon name="arrow-left" size={32} color="#6366F1" />
+        </TouchableOpacity>
+      </View>
+      <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.sectionHeader} accessibilityRole="header">Hearing</Text>
+        <Text style={styles.introText}>
+          A quick check with headphones on helps replies sound clearer to you. This is not a medical hearing test.
+        </Text>
+
+        {step ? renderTest(step) : (
+          <Surface style={styles.card} elevation={1}>
+            <Text style={styles.cardTitle}>Hearing check</Text>
+            {renderAudiogram()}
+            <Button
+              mode="contained"
+              icon="headphones"
+              onPress={startTest}
+              style={styles.button}
+              labelStyle={styles.buttonLabel}
+            >
+              {profile.audiogram ? 'Check again' : 'Start the check'}
+            </Button>
+          </Surface>
+        )}
+
+        <Surface style={styles.card} elevation={1}>
+          <Text style={styles.cardTitle}>How replies sound</Text>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>
+              Tune replies to my hearing{profile.audiogram ? '' : ' (after the check)'}
+            </Text>
+            <Switch
+              value={profile.equalisation && !!profile.audiogram}
+              onValueChange={equalisation => updateProfile({ equalisation })}
+              disabled={!profile.audiogram}
+              accessibilityLabel="Tune replies to my hearing"
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Make quiet sounds in speech louder</Text>
+            <Switch
+              value={profile.compression}
+              onValueChange={compression => updateProfile({ compression })}
+              accessibilityLabel="Make quiet sounds in speech louder"
+            />
+          </View>
+          <Text style={styles.switchLabel}>
+            Speech speed: {speechRate >= 0.99 ? 'Normal' : `${Math.round(speechRate * 100)}%`}
+          </Text>
+          <Slider
+            style={styles.slider}
+            minimumValue={0.6}
+            maximumValue={1}
+            step={0.05}
+            value={speechRate}
+            onValueChange={setSpeechRate}
+            onSlidingComplete={rate => updateProfile({ speechRate: rate })}
+            minimumTrackTintColor="#6366F1"
+            maximumTrackTintColor="#D1D5DB"
+            accessibilityLabel="Speech speed"
+          />
+          <Button
+            mode="outlined"
+            icon="play"
+            onPress={previewSpeech}
+            loading={isPreviewing}
+            disabled={isPreviewing}
+            style={styles.button}
+            labelStyle={styles.buttonLabel}
+          >
+            Hear a Sample
+          </Button>
+        </Surface>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 48,
+  },
+  sectionHeader: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  introText: {
+    fontSize: 18,
+    color: '#4B5563',
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  cardTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 18,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  cardDetail: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  progress: {
+    height: 8,
+    borderRadius: 4,
+    marginBottom: 16,
+  },
+  earColumn: {
+    marginBottom: 12,
+  },
+  earTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6366F1',
+    marginBottom: 4,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  resultFrequency: {
+    fontSize: 16,
+    color: '#374151',
+  },
+  resultLevel: {
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  responseRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  responseButton: {
+    flex: 1,
+    borderRadius: 24,
+    paddingVertical: 8,
+  },
+  button: {
+    marginTop: 8,
+    borderRadius: 24,
+    paddingVertical: 6,
+  },
+  buttonLabel: {
+    fontSize: 18,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#374151',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+    marginBottom: 8,
+  },
+  backArrowContainer: {
+    width: '100%',
+    alignItems: 'flex-start',
+    marginTop: 8,
+    marginLeft: 8,
+    marginBottom: 0,
+    zIndex: 10,
+  },
+  backButton: {
+    backgroundColor: 'transparent',
+    padding: 4,
+  },
+});
+
+export default HearingScreen;
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, Dimensions, TouchableOpacity } from 'react-native';
 import { Text, Button, TextInput, Divider, Chip, Dialog, Portal, Paragraph, Surface, IconButton } from 'react-native-paper';
-import { fetchUserMemories, updateUserMemory, deleteUserMemory, addUserMemory } from '../../services/supabase/profile';
+import { fetchUserMemories, deleteUserMemory, addUserMemory } from '../../services/supabase/profile';
 import { getCurrentUserId } from '../../services/supabase/auth';
 import * as Animatable from 'react-native-animatable';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -9,24 +9,57 @@ import { Portal as PaperPortal } from 'react-native-paper';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../../App';
+import MemoryService, { getMemoryMetadata } from '../../services/memory/MemoryService';
+import { toMemoryCategory, getDefaultExpiry, expiryInDays } from '../../services/memory/MemoryTaxonomy';
+import { UserMemory, MemoryStatus, MemoryCategory, MEMORY_CATEGORIES, MEMORY_CATEGORY_LABELS } from '../../types';
+import SyncStatusIndicator from '../../components/ui/SyncStatusIndicator';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
 
-interface Memory {
-  id: string;
-  user_id: string;
-  type: string;
-  content: string;
-  metadata?: object;
-  created_at: string;
-}
+type Memory = UserMemory;
+
+const SOURCE_LABELS = {
+  user: 'Said in conversation',
+  assistant: 'Suggested by the assistant',
+  manual: 'Added by family',
+};
+
+const STATUS_LABELS: Record<MemoryStatus, string> = {
+  unverified: 'Not yet confirmed',
+  confirmed: 'Confirmed',
+  rejected: 'Rejected',
+};
+
+const describeProvenance = (memory: Memory): string => {
+  const metadata = getMemoryMetadata(memory);
+  const parts = [SOURCE_LABELS[metadata.source], STATUS_LABELS[metadata.status]];
+  if (metadata.status === 'unverified') {
+    parts.push(`${Math.round(metadata.confidence * 100)}% sure`);
+  }
+  if (metadata.mentions > 1) {
+    parts.push(`mentioned ${metadata.mentions} times`);
+  }
+  return parts.join(' · ');
+};
 
-const MEMORY_TYPES = [
-  'Person',
-  'Event',
-  'Fact',
-  'Preference',
-  'Other',
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: 'In 1 day', days: 1 },
+  { label: 'In 1 week', days: 7 },
+  { label: 'In 1 month', days: 30 },
+  { label: 'Keep for good', days: null },
 ];
 
+const formatExpiry = (expiresAt: string): string => {
+  return new Date(expiresAt).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+// Pinned facts first, then newest
+const sortMemories = (memories: Memory[]): Memory[] => {
+  return [...memories].sort((a, b) => {
+    const pinnedDiff = Number(!!b.metadata?.pinned) - Number(!!a.metadata?.pinned);
+    return pinnedDiff !== 0 ? pinnedDiff : b.created_at.localeCompare(a.created_at);
+  });
+};
+
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 type MemoriesScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Memories'>;
@@ -44,9 +77,17 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
   const [memoryToDelete, setMemoryToDelete] = useState<Memory | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [addSheetVisible, setAddSheetVisible] = useState(false);
-  const [newMemoryType, setNewMemoryType] = useState(MEMORY_TYPES[0]);
+  const [newMemoryType, setNewMemoryType] = useState<MemoryCategory>(MEMORY_CATEGORIES[0]);
   const [newMemoryContent, setNewMemoryContent] = useState('');
   const [adding, setAdding] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<MemoryCategory | 'all'>('all');
+  const [memoryForExpiry, setMemoryForExpiry] = useState<Memory | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [mergeMessage, setMergeMessage] = useState<string | null>(null);
+
+  const visibleMemories = categoryFilter === 'all'
+    ? memories
+    : memories.filter(memory => toMemoryCategory(memory.type) === categoryFilter);
 
   useEffect(() => {
     getCurrentUserId().then(uid => {
@@ -55,10 +96,18 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
     });
   }, []);
 
+  // Pick up edits made on other devices once queued changes have been merged
+  const { lastSyncedAt } = useSyncStatus();
+  useEffect(() => {
+    if (userId && lastSyncedAt) refreshMemories(userId);
+  }, [lastSyncedAt]);
+
   const refreshMemories = async (uid: string) => {
     setMemoriesLoading(true);
     const { data: mems } = await fetchUserMemories(uid);
-    setMemories(mems || []);
+    // Time-bound facts such as appointments drop off once they have passed
+    const active = await MemoryService.removeExpired((mems as Memory[]) || []);
+    setMemories(sortMemories(active));
     setMemoriesLoading(false);
   };
 
@@ -68,12 +117,59 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
   };
 
   const handleSaveMemory = async (memory: Memory) => {
-    await updateUserMemory(memory.id, editContent);
+    try {
+      await MemoryService.edit(memory, editContent);
+    } catch (error) {
+      console.error('Failed to save memory:', error);
+    }
     if (userId) await refreshMemories(userId);
     setEditingMemoryId(null);
     setEditContent('');
   };
 
+  const handleReviewMemory = async (memory: Memory, status: 'confirmed' | 'rejected') => {
+    try {
+      const metadata = await MemoryService.review(memory, status);
+      setMemories(prev => prev.map(m => (m.id === memory.id ? { ...m, metadata } : m)));
+    } catch (error) {
+      console.error('Failed to review memory:', error);
+    }
+  };
+
+  const handleTogglePin = async (memory: Memory) => {
+    try {
+      const metadata = await MemoryService.setPinned(memory, !memory.metadata?.pinned);
+      setMemories(prev => sortMemories(prev.map(m => (m.id === memory.id ? { ...m, metadata } : m))));
+    } catch (error) {
+      console.error('Failed to pin memory:', error);
+    }
+  };
+
+  const handleSetExpiry = async (days: number | null) => {
+    const memory = memoryForExpiry;
+    setMemoryForExpiry(null);
+    if (!memory) return;
+    try {
+      const metadata = await MemoryService.setExpiry(memory, days === null ? null : expiryInDays(days));
+      setMemories(prev => prev.map(m => (m.id === memory.id ? { ...m, metadata } : m)));
+    } catch (error) {
+      console.error('Failed to set memory expiry:', error);
+    }
+  };
+
+  const handleMergeDuplicates = async () => {
+    if (!userId) return;
+    setMerging(true);
+    try {
+      const removed = await MemoryService.mergeDuplicates(memories);
+      setMergeMessage(removed > 0 ? `Merged ${removed} duplicate ${removed === 1 ? 'memory' : 'memories'}.` : 'No duplicates found.');
+      await refreshMemories(userId);
+    } catch (error) {
+      console.error('Failed to merge duplicate memories:', error);
+    }
+    setMerging(false);
+  };
+
   const handleDeleteMemory = (memory: Memory) => {
     setMemoryToDelete(memory);
     setShowDeleteDialog(true);
@@ -94,7 +190,7 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
   };
 
   const handleOpenAddSheet = () => {
-    setNewMemoryType(MEMORY_TYPES[0]);
+    setNewMemoryType(categoryFilter === 'all' ? MEMORY_CATEGORIES[0] : categoryFilter);
     setNewMemoryContent('');
     setAddSheetVisible(true);
   };
@@ -107,9 +203,21 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
   const handleAddMemory = async () => {
     if (!userId || !newMemoryContent.trim()) return;
     setAdding(true);
+    const now = new Date().toISOString();
+    const expiresAt = getDefaultExpiry(newMemoryContent);
     await addUserMemory(userId, {
       type: newMemoryType,
       content: newMemoryContent.trim(),
+      metadata: {
+        ...(expiresAt ? { expiresAt } : {}),
+        source: 'manual',
+        extractor: 'manual',
+        confidence: 1,
+        status: 'confirmed',
+        mentions: 1,
+        lastMentionedAt: now,
+        reviewedAt: now,
+      },
     });
     await refreshMemories(userId);
     setAdding(false);
@@ -132,15 +240,55 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
       <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
         <Animatable.View animation="fadeInUp" delay={200}>
           <Text style={styles.sectionHeader} accessibilityRole="header">AI Memories</Text>
+          <SyncStatusIndicator />
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {(['all', ...MEMORY_CATEGORIES] as Array<MemoryCategory | 'all'>).map(category => (
+              <Chip
+                key={category}
+                selected={categoryFilter === category}
+                onPress={() => setCategoryFilter(category)}
+                style={[styles.memoryTypeChip, categoryFilter === category && styles.memoryTypeChipSelected]}
+                textStyle={[styles.memoryTypeChipText, categoryFilter === category && styles.memoryTypeChipTextSelected]}
+                accessibilityLabel={`Show ${category === 'all' ? 'all memories' : MEMORY_CATEGORY_LABELS[category]}`}
+              >
+                {category === 'all' ? 'All' : MEMORY_CATEGORY_LABELS[category]}
+              </Chip>
+            ))}
+          </ScrollView>
+          {memories.length > 1 && (
+            <Button
+              mode="outlined"
+              icon="call-merge"
+              onPress={handleMergeDuplicates}
+              loading={merging}
+              disabled={merging}
+              style={styles.mergeButton}
+              labelStyle={styles.buttonLabel}
+              accessibilityLabel="Merge duplicate memories"
+            >
+              Merge duplicates
+            </Button>
+          )}
+          {mergeMessage && <Text style={styles.mergeMessage}>{mergeMessage}</Text>}
           {memoriesLoading ? (
             <Text style={styles.loadingText}>Loading memories...</Text>
-          ) : memories.length === 0 ? (
+          ) : visibleMemories.length === 0 ? (
             <Text style={styles.noMemoriesText}>No memories found.</Text>
           ) : (
-            memories.map((memory, idx) => (
+            visibleMemories.map((memory, idx) => (
               <React.Fragment key={memory.id}>
-                <Surface style={styles.memoryCard} elevation={2}>
-                  <Chip style={styles.memoryChip} textStyle={styles.memoryChipText}>{memory.type}</Chip>
+                <Surface
+                  style={[styles.memoryCard, getMemoryMetadata(memory).status === 'rejected' && styles.rejectedMemoryCard]}
+                  elevation={2}
+                >
+                  <View style={styles.memoryHeaderRow}>
+                    <Chip style={styles.memoryChip} textStyle={styles.memoryChipText}>
+                      {MEMORY_CATEGORY_LABELS[toMemoryCategory(memory.type)]}
+                    </Chip>
+                    {memory.metadata?.pinned && (
+                      <Icon name="pin" size={24} color="#6366F1" accessibilityLabel="Pinned: always shared with the assistant" />
+                    )}
+                  </View>
                   {editingMemoryId === memory.id ? (
                     <>
                       <TextInput
@@ -158,14 +306,34 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
                   ) : (
                     <>
                       <Text style={styles.memoryContent}>{memory.content}</Text>
+                      <Text style={styles.provenanceText} accessibilityLabel={`Source: ${describeProvenance(memory)}`}>
+                        {describeProvenance(memory)}
+                      </Text>
+                      {memory.metadata?.expiresAt && (
+                        <Text style={styles.provenanceText}>Expires {formatExpiry(memory.metadata.expiresAt)}</Text>
+                      )}
                       <View style={styles.memoryActionsRow}>
+                        <IconButton
+                          icon={memory.metadata?.pinned ? 'pin-off' : 'pin'}
+                          size={32}
+                          onPress={() => handleTogglePin(memory)}
+                          style={styles.iconButton}
+                          accessibilityLabel={memory.metadata?.pinned ? 'Unpin memory' : 'Pin memory so it is always shared with the assistant'}
+                        />
+                        <IconButton icon="timer-outline" size={32} onPress={() => setMemoryForExpiry(memory)} style={styles.iconButton} accessibilityLabel="Set when memory expires" />
+                        {getMemoryMetadata(memory).status !== 'confirmed' && (
+                          <IconButton icon="check" size={32} onPress={() => handleReviewMemory(memory, 'confirmed')} style={styles.iconButton} accessibilityLabel="Confirm memory is correct" />
+                        )}
+                        {getMemoryMetadata(memory).status !== 'rejected' && (
+                          <IconButton icon="close" size={32} onPress={() => handleReviewMemory(memory, 'rejected')} style={styles.iconButton} accessibilityLabel="Mark memory as wrong" />
+                        )}
                         <IconButton icon="pencil" size={32} onPress={() => handleEditMemory(memory)} style={styles.iconButton} accessibilityLabel="Edit memory" />
                         <IconButton icon="delete" size={32} onPress={() => handleDeleteMemory(memory)} style={styles.iconButton} accessibilityLabel="Delete memory" />
                       </View>
                     </>
                   )}
                 </Surface>
-                {idx < memories.length - 1 && <Divider style={styles.memoryDivider} />}
+                {idx < visibleMemories.length - 1 && <Divider style={styles.memoryDivider} />}
               </React.Fragment>
             ))
           )}
@@ -180,6 +348,24 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
                 <Button onPress={confirmDeleteMemory} textColor="#EF4444">Delete</Button>
               </Dialog.Actions>
             </Dialog>
+            <Dialog visible={!!memoryForExpiry} onDismiss={() => setMemoryForExpiry(null)}>
+              <Dialog.Title>Forget this memory</Dialog.Title>
+              <Dialog.Content>
+                {EXPIRY_OPTIONS.map(option => (
+                  <Button
+                    key={option.label}
+                    mode="text"
+                    onPress={() => handleSetExpiry(option.days)}
+                    labelStyle={styles.buttonLabel}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </Dialog.Content>
+              <Dialog.Actions>
+                <Button onPress={() => setMemoryForExpiry(null)}>Cancel</Button>
+              </Dialog.Actions>
+            </Dialog>
           </Portal>
         </Animatable.View>
       </ScrollView>
@@ -218,16 +404,16 @@ const MemoriesScreen: React.FC<Props> = ({ navigation }) => {
             </View>
             <ScrollView style={styles.bottomSheetScroll} contentContainerStyle={styles.bottomSheetScrollContent}>
               <View style={styles.memoryTypeRow}>
-                {MEMORY_TYPES.map(type => (
+                {MEMORY_CATEGORIES.map(type => (
                   <Chip
                     key={type}
                     selected={newMemoryType === type}
                     onPress={() => setNewMemoryType(type)}
                     style={[styles.memoryTypeChip, newMemoryType === type && styles.memoryTypeChipSelected]}
-                    textStyle={styles.memoryTypeChipText}
-                    accessibilityLabel={`Select memory type: ${type}`}
+                    textStyle={[styles.memoryTypeChipText, newMemoryType === type && styles.memoryTypeChipTextSelected]}
+                    accessibilityLabel={`Select memory type: ${MEMORY_CATEGORY_LABELS[type]}`}
                   >
-                    {type}
+                    {MEMORY_CATEGORY_LABELS[type]}
                   </Chip>
                 ))}
               </View>
@@ -299,6 +485,25 @@ const styles = StyleSheet.create({
     padding: 24,
     marginBottom: 16,
   },
+  memoryHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  mergeButton: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  mergeMessage: {
+    fontSize: 18,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   memoryChip: {
     alignSelf: 'flex-start',
     marginBottom: 8,
@@ -317,6 +522,13 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginVertical: 8,
   },
+  rejectedMemoryCard: {
+    opacity: 0.6,
+  },
+  provenanceText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
   memoryInput: {
     backgroundColor: '#F3F4F6',
     fontSize: 22,
@@ -425,6 +637,9 @@ const styles = StyleSheet.create({
     color: '#3730A3',
     fontWeight: 'bold',
   },
+  memoryTypeChipTextSelected: {
+    color: '#fff',
+  },
   loadingText: {
     fontSize: 22,
     color: '#6366F1',
@@ -7,6 +7,7 @@ import { getCurrentUserId } from '../../services/supabase/auth';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../../App';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import SyncStatusIndicator from '../../components/ui/SyncStatusIndicator';
 
 type PersonalInformationScreenNavigationProp = StackNavigationProp<RootStackParamList, 'PersonalInformation'>;
 
@@ -54,7 +55,7 @@ const PersonalInformationScreen: React.FC<Props> = ({ navigation }) => {
     setErrorName('');
     const uid = await getCurrentUserId();
     if (uid) {
-      const { error } = await updateUserProfile(uid, { full_name: newName.trim() });
+      const { error } = await updateUserProfile(uid, { full_name: newName.trim() }, { full_name: fullName });
       if (!error) {
         setFullName(newName.trim());
         setEditNameVisible(false);
@@ -99,6 +100,8 @@ const PersonalInformationScreen: React.FC<Props> = ({ navigation }) => {
             <Text style={styles.label}>Phone Number</Text>
             <Text style={styles.value}>{phoneNumber || 'Not set'}</Text>
           </View>
+          <Divider style={styles.divider} />
+          <SyncStatusIndicator />
         </View>
       </View>
       <Portal>
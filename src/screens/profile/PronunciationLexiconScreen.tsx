@@ -0,0 +1,399 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Text, Button, TextInput, Chip, Dialog, Portal, Surface, IconButton, Searchbar, Switch } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import * as Speech from 'expo-speech';
+import { RootStackParamList } from '../../../App';
+import { getCurrentUserId } from '../../services/supabase/auth';
+import PronunciationLexiconService from '../../services/cultural/PronunciationLexiconService';
+import { normalizeLexiconWord } from '../../services/tts/lexicon';
+import { PronunciationEntry } from '../../types';
+
+type PronunciationLexiconScreenNavigationProp = StackNavigationProp<RootStackParamList, 'PronunciationLexicon'>;
+
+interface Props {
+  navigation: PronunciationLexiconScreenNavigationProp;
+}
+
+const EMPTY_ENTRY: PronunciationEntry = { word: '', respelling: '', inEnglish: true };
+
+// Respellings are written for an English voice, so preview them with one
+const previewRespelling = (respelling: string) => {
+  Speech.stop();
+  Speech.speak(respelling, { language: 'en-NZ', rate: 0.8 });
+};
+
+/**
+ * Lets kaumātua and other cultural advisors correct how voices without
+ * native Māori say each word. Everyone else sees the lexicon read-only.
+ */
+const PronunciationLexiconScreen: React.FC<Props> = ({ navigation }) => {
+  const lexiconService = PronunciationLexiconService.getInstance();
+  const [entries, setEntries] = useState<PronunciationEntry[]>(lexiconService.getEntries());
+  const [missingWords, setMissingWords] = useState<string[]>([]);
+  const [advisorId, setAdvisorId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<PronunciationEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = normalizeLexiconWord(search);
+  const visibleEntries = query
+    ? entries.filter(entry => normalizeLexiconWord(entry.word).includes(query) || entry.respelling.includes(query))
+    : entries;
+
+  const refreshCoverage = async () => {
+    const gaps = await lexiconService.getTemplateCoverageGaps();
+    setMissingWords(Array.from(new Set(gaps.flatMap(gap => gap.missingWords))).sort());
+  };
+
+  useEffect(() => {
+    getCurrentUserId().then(async uid => {
+      if (uid && await lexiconService.canEdit(uid)) {
+        setAdvisorId(uid);
+      }
+    });
+    lexiconService.refresh().then(() => {
+      setEntries(lexiconService.getEntries());
+      refreshCoverage();
+    });
+
+    return lexiconService.subscribe(() => setEntries(lexiconService.getEntries()));
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft || !advisorId) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await lexiconService.saveEntry(draft, advisorId);
+      setDraft(null);
+      await refreshCoverage();
+    } catch (saveError) {
+      console.error('Failed to save pronunciation:', saveError);
+      setError('Could not save this pronunciation. Please try again.');
+    }
+    setSaving(false);
+  };
+
+  const handleReset = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await lexiconService.resetEntry(draft.word);
+      setDraft(null);
+      await refreshCoverage();
+    } catch (resetError) {
+      console.error('Failed to reset pronunciation:', resetError);
+      setError('Could not restore the original pronunciation.');
+    }
+    setSaving(false);
+  };
+
+  const updateDraft = (changes: Partial<PronunciationEntry>) => {
+    setDraft(current => current && { ...current, ...changes });
+  };
+
+  const openEntry = (entry: PronunciationEntry) => {
+    setError(null);
+    setDraft({ ...entry });
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={["top", "left", "right"]}>
+      <View style={styles.backArrowContainer}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          accessibilityLabel="Back to Settings"
+          accessibilityRole="button"
+        >
+          <Icon name="arrow-left" size={32} color="#6366F1" />
+        </TouchableOpacity>
+      </View>
+      <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.sectionHeader} accessibilityRole="header">Māori Pronunciation</Text>
+        <Text style={styles.introText}>
+          How voices without native Te Reo Māori say each word. {advisorId
+            ? 'Tap a word to correct it; changes are heard straight away.'
+            : 'Only cultural advisors can make changes.'}
+        </Text>
+
+        {missingWords.length > 0 && (
+          <Surface style={styles.missingCard} elevation={1}>
+            <Text style={styles.missingTitle}>Words in the app's messages with no pronunciation yet</Text>
+            <View style={styles.chipRow}>
+              {missingWords.map(word => (
+                <Chip
+                  key={word}
+                  icon={advisorId ? 'plus' : undefined}
+                  onPress={advisorId ? () => openEntry({ ...EMPTY_ENTRY, word }) : undefined}
+                  style={styles.missingChip}
+                  textStyle={styles.chipText}
+                  accessibilityLabel={advisorId ? `Add a pronunciation for ${word}` : word}
+                >
+                  {word}
+                </Chip>
+              ))}
+            </View>
+          </Surface>
+        )}
+
+        <Searchbar
+          placeholder="Find a word"
+          value={search}
+          onChangeText={setSearch}
+          style={styles.searchbar}
+          inputStyle={styles.searchInput}
+          accessibilityLabel="Find a word in the lexicon"
+        />
+
+        {visibleEntries.map(entry => (
+          <Surface key={entry.word} style={styles.entryCard} elevation={1}>
+            <TouchableOpacity
+              style={styles.entryText}
+              onPress={advisorId ? () => openEntry(entry) : undefined}
+              disabled={!advisorId}
+              accessibilityLabel={`${entry.word}, said ${entry.respelling}`}
+              accessibilityRole={advisorId ? 'button' : 'text'}
+            >
+              <View style={styles.entryHeaderRow}>
+                <Text style={styles.entryWord}>{entry.word}</Text>
+                {lexiconService.isCorrected(entry.word) && (
+                  <Chip compact style={styles.correctedChip} textStyle={styles.correctedChipText}>Corrected</Chip>
+                )}
+              </View>
+              <Text style={styles.entryRespelling}>{entry.respelling}</Text>
+              {entry.ipa && <Text style={styles.entryDetail}>/{entry.ipa}/</Text>}
+              {entry.notes && <Text style={styles.entryDetail}>{entry.notes}</Text>}
+            </TouchableOpacity>
+            <IconButton
+              icon="volume-high"
+              size={32}
+              onPress={() => previewRespelling(entry.respelling)}
+              accessibilityLabel={`Listen to ${entry.word}`}
+            />
+          </Surface>
+        ))}
+
+        {advisorId && (
+          <Button
+            mode="contained"
+            icon="plus"
+            onPress={() => openEntry(EMPTY_ENTRY)}
+            style={styles.addButton}
+            labelStyle={styles.buttonLabel}
+          >
+            Add a word
+          </Button>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={!!draft} onDismiss={() => setDraft(null)}>
+          <Dialog.Title>{draft?.word ? draft.word : 'New word'}</Dialog.Title>
+          <Dialog.ScrollArea>
+            <ScrollView contentContainerStyle={styles.dialogContent}>
+              <TextInput
+                label="Word or phrase, with macrons"
+                value={draft?.word ?? ''}
+                onChangeText={word => updateDraft({ word })}
+                style={styles.input}
+                accessibilityLabel="Word or phrase"
+              />
+              <TextInput
+                label="Say it as"
+                value={draft?.respelling ?? ''}
+                onChangeText={respelling => updateDraft({ respelling })}
+                style={styles.input}
+                placeholder="e.g. faah-noh"
+                accessibilityLabel="Phonetic respelling"
+                right={draft?.respelling ? (
+                  <TextInput.Icon icon="volume-high" onPress={() => previewRespelling(draft.respelling)} />
+                ) : undefined}
+              />
+              <TextInput
+                label="IPA (optional)"
+                value={draft?.ipa ?? ''}
+                onChangeText={ipa => updateDraft({ ipa })}
+                style={styles.input}
+                accessibilityLabel="International Phonetic Alphabet"
+              />
+              <TextInput
+                label="Notes (optional)"
+                value={draft?.notes ?? ''}
+                onChangeText={notes => updateDraft({ notes })}
+                style={styles.input}
+                multiline
+                accessibilityLabel="Notes for other advisors"
+              />
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Also respell inside English sentences</Text>
+                <Switch
+                  value={draft?.inEnglish ?? true}
+                  onValueChange={inEnglish => updateDraft({ inEnglish })}
+                  accessibilityLabel="Also respell inside English sentences"
+                />
+              </View>
+              {error && <Text style={styles.errorText}>{error}</Text>}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            {draft && lexiconService.isCorrected(draft.word) && (
+              <Button onPress={handleReset} disabled={saving} textColor="#EF4444">Undo correction</Button>
+            )}
+            <Button onPress={() => setDraft(null)} disabled={saving}>Cancel</Button>
+            <Button
+              onPress={handleSave}
+              loading={saving}
+              disabled={saving || !draft?.word.trim() || !draft?.respelling.trim()}
+            >
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 48,
+  },
+  sectionHeader: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  introText: {
+    fontSize: 18,
+    color: '#4B5563',
+    marginBottom: 16,
+  },
+  missingCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    backgroundColor: '#FEF3C7',
+  },
+  missingTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#92400E',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  missingChip: {
+    backgroundColor: '#FFFFFF',
+  },
+  chipText: {
+    fontSize: 16,
+  },
+  searchbar: {
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  searchInput: {
+    fontSize: 18,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entryWord: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  correctedChip: {
+    backgroundColor: '#E0E7FF',
+  },
+  correctedChipText: {
+    fontSize: 12,
+    color: '#3730A3',
+  },
+  entryRespelling: {
+    fontSize: 20,
+    color: '#6366F1',
+    marginTop: 4,
+  },
+  entryDetail: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  addButton: {
+    marginTop: 8,
+    borderRadius: 24,
+    paddingVertical: 6,
+  },
+  buttonLabel: {
+    fontSize: 18,
+  },
+  dialogContent: {
+    paddingVertical: 8,
+  },
+  input: {
+    marginBottom: 12,
+    fontSize: 18,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#374151',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#EF4444',
+  },
+  backArrowContainer: {
+    width: '100%',
+    alignItems: 'flex-start',
+    marginTop: 8,
+    marginLeft: 8,
+    marginBottom: 0,
+    zIndex: 10,
+  },
+  backButton: {
+    backgroundColor: 'transparent',
+    padding: 4,
+  },
+});
+
+export default PronunciationLexiconScreen;
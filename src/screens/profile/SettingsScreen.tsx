@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, TouchableOpacity } from 'react-native';
 import { Text, Button, Card } from 'react-native-paper';
 import SettingsPreferences from '../../components/ui/SettingsPreferences';
@@ -7,6 +7,8 @@ import { RootStackParamList } from '../../../App';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import config from '../../config';
+import { getCurrentUserId } from '../../services/supabase/auth';
+import PronunciationLexiconService from '../../services/cultural/PronunciationLexiconService';
 
 type SettingsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Settings'>;
 
@@ -17,6 +19,13 @@ interface Props {
 const SettingsScreen: React.FC<Props> = ({ navigation }) => {
   const [isHighContrast, setIsHighContrast] = useState(false);
   const [textSize, setTextSize] = useState<'small' | 'medium' | 'large' | 'extra-large'>('large');
+  const [isAdvisor, setIsAdvisor] = useState(false);
+
+  useEffect(() => {
+    getCurrentUserId().then(async uid => {
+      setIsAdvisor(!!uid && await PronunciationLexiconService.getInstance().canEdit(uid));
+    });
+  }, []);
 
   const handleSettingsChange = (settings: { isHighContrast?: boolean; textSize?: 'small' | 'medium' | 'large' | 'extra-large' }) => {
     console.log('Settings changed:', settings);
@@ -54,6 +63,50 @@ const SettingsScreen: React.FC<Props> = ({ navigation }) => {
         onSettingsChange={handleSettingsChange}
       />
       
+      <View style={styles.debugSection}>
+        <Card style={styles.debugCard}>
+          <Card.Title
+            title="Hearing"
+            left={(props) => <Icon {...props} name="ear-hearing" />}
+            titleStyle={{ fontSize: textSize === 'extra-large' ? 20 : 16 }}
+          />
+          <Card.Content>
+            <Button
+              mode="outlined"
+              onPress={() => navigation.navigate('Hearing')}
+              icon="headphones"
+              style={styles.debugButton}
+              labelStyle={{ fontSize: textSize === 'extra-large' ? 18 : 14 }}
+            >
+              Hearing Check & Clearer Speech
+            </Button>
+          </Card.Content>
+        </Card>
+      </View>
+
+      {isAdvisor && (
+        <View style={styles.debugSection}>
+          <Card style={styles.debugCard}>
+            <Card.Title
+              title="Cultural Advisor Tools"
+              left={(props) => <Icon {...props} name="account-voice" />}
+              titleStyle={{ fontSize: textSize === 'extra-large' ? 20 : 16 }}
+            />
+            <Card.Content>
+              <Button
+                mode="outlined"
+                onPress={() => navigation.navigate('PronunciationLexicon')}
+                icon="alphabetical-variant"
+                style={styles.debugButton}
+                labelStyle={{ fontSize: textSize === 'extra-large' ? 18 : 14 }}
+              >
+                Māori Pronunciation
+              </Button>
+            </Card.Content>
+          </Card>
+        </View>
+      )}
+
       {config.app.isDevelopment && (
         <View style={styles.debugSection}>
           <Card style={styles.debugCard}>
@@ -1,159 +1,125 @@
-import axios from 'axios';
-import { DEEPSEEK_API_KEY, DEEPSEEK_API_URL } from '@env';
-import { fetchUserMemories, addUserMemory } from '../supabase/profile';
 import yaml from 'js-yaml';
+import { ChatConversation } from './ChatConversation';
+import { ChatProvider } from './ChatProvider';
+import { getChatProvider } from './index';
+import MemoryService from '../memory/MemoryService';
+import { loadPromptFacts } from '../memory/MemoryRetriever';
+import { expiryInDays } from '../memory/MemoryTaxonomy';
+import { getContextTokenBudget } from '../../config';
+import { MemoryCandidate, MemorySource, MEMORY_CATEGORIES } from '../../types';
 
-interface MessageParam {
-  role: 'user' | 'assistant';
-  content: string;
+interface ExtractedFact {
+  type?: string;
+  content?: string;
+  confidence?: number;
+  expires_in_days?: number;
 }
 
-interface Memory {
-  id: string;
-  user_id: string;
-  type: string;
-  content: string;
-  metadata?: object;
-  created_at: string;
-}
+// Regex matches are exact but say little on their own, so confidence varies by pattern
+const REGEX_PATTERNS = [
+  { type: 'email', pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, confidence: 0.9 },
+  { type: 'phone', pattern: /\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g, confidence: 0.9 },
+  { type: 'date', pattern: /\b\d{1,2}[/-]\d{1,2}[/-]\d{2,4}\b/g, confidence: 0.5 },
+  { type: 'relationship', pattern: /my (son|daughter|wife|husband|friend|mother|father|brother|sister)/gi, confidence: 0.6 },
+];
 
 class AIService {
-  private conversationHistory: MessageParam[] = [];
-  private apiKey: string;
-  private apiUrl: string;
+  private conversation = new ChatConversation();
 
-  constructor() {
-    this.apiKey = DEEPSEEK_API_KEY;
-    this.apiUrl = DEEPSEEK_API_URL;
+  private get provider(): ChatProvider {
+    return getChatProvider();
   }
 
   async generateResponse(userInput: string) {
-    this.conversationHistory.push({
-      role: 'user',
-      content: userInput,
-    });
     try {
-      const response = await axios.post(
-        this.apiUrl,
-        {
-          model: 'deepseek-chat',
-          messages: this.conversationHistory,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      const botContent = response.data.choices?.[0]?.message?.content ?? '';
-      this.conversationHistory.push({
-        role: 'assistant',
-        content: botContent,
-      });
-      return botContent;
+      return await this.conversation.send(this.provider, userInput);
     } catch {
       return 'Sorry, there was an error getting a response.';
     }
   }
 
   async generatePersonalizedResponse(userId: string, userInput: string) {
-    const { data: memories } = await fetchUserMemories(userId);
-    let memoryContext = '';
-    if (memories && memories.length > 0) {
-      memoryContext = (memories as Memory[]).map((m) => `- ${m.content}`).join('\n');
+    // Family-pinned facts plus those relevant to this utterance; they survive history summarisation
+    try {
+      this.conversation.setPinnedFacts(await loadPromptFacts(userId, userInput, getContextTokenBudget()));
+    } catch (error) {
+      console.warn('Failed to load memories for the conversation:', error);
     }
-    const systemPrompt = memoryContext
-      ? `Here are some important facts about the user. Use them to personalize your response.\n${memoryContext}`
-      : '';
-    const conversation = [
-      ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-      ...this.conversationHistory,
-      { role: 'user', content: userInput },
-    ];
     try {
-      const response = await axios.post(
-        this.apiUrl,
-        {
-          model: 'deepseek-chat',
-          messages: conversation,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      const botContent = response.data.choices?.[0]?.message?.content ?? '';
-      this.conversationHistory.push({ role: 'user', content: userInput });
-      this.conversationHistory.push({ role: 'assistant', content: botContent });
-      await this.extractAndStoreMemories(userId, userInput);
-      await this.extractAndStoreMemories(userId, botContent);
+      const botContent = await this.conversation.send(this.provider, userInput);
+      await this.extractAndStoreMemories(userId, userInput, 'user');
+      // Anything learnt from the reply is stored unverified for the family to check
+      await this.extractAndStoreMemories(userId, botContent, 'assistant');
       return botContent;
     } catch {
       return 'Sorry, there was an error getting a response.';
     }
   }
 
-  async extractAndStoreMemories(userId: string, text: string) {
-    // Regex-based extraction
-    const regexPatterns = [
-      { type: 'email', pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g },
-      { type: 'phone', pattern: /\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g },
-      { type: 'date', pattern: /\b\d{1,2}[/-]\d{1,2}[/-]\d{2,4}\b/g },
-      { type: 'relationship', pattern: /my (son|daughter|wife|husband|friend|mother|father|brother|sister)/gi },
-    ];
-    for (const { type, pattern } of regexPatterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        for (const match of matches) {
-          await addUserMemory(userId, { type, content: match });
+  /**
+   * Extracts facts about the user from `text` and merges them into
+   * `user_memories`. Text from the assistant's own replies only yields
+   * low-confidence, unverified facts.
+   */
+  async extractAndStoreMemories(userId: string, text: string, source: MemorySource = 'user') {
+    const candidates: MemoryCandidate[] = [];
+
+    // Regex-based extraction; contact details in the assistant's replies are not the user's
+    if (source !== 'assistant') {
+      for (const { type, pattern, confidence } of REGEX_PATTERNS) {
+        const matches = text.match(pattern);
+        if (matches) {
+          for (const match of matches) {
+            candidates.push({ type, content: match, source, extractor: 'regex', confidence });
+          }
         }
       }
     }
 
     // LLM-based extraction (structured prompt for nuanced facts)
-    const llmPrompt = `Extract any personal facts, preferences, relationships, or important events from the following text. Return the result as a YAML list of facts, each with a type and content.\nText: "${text}"\nExample output:\n\n- type: preference\n  content: favorite color is blue\n- type: birth_year\n  content: 1942\n- type: relationship\n  content: daughter Sarah visits every Sunday`;
+    const speaker = source === 'assistant' ? 'an assistant talking to the user' : 'the user';
+    const llmPrompt = `Extract any personal facts about the user, their preferences, relationships, or important events from the following text, written by ${speaker}. Only include facts the text states, not guesses. Return the result as a YAML list of facts, each with a type (one of ${MEMORY_CATEGORIES.join(', ')}), content and a confidence between 0 and 1. For facts about a specific upcoming occasion, add expires_in_days. Return an empty list if there are none.\nText: "${text}"\nExample output:\n\n- type: preferences\n  content: favorite color is blue\n  confidence: 0.9\n- type: life_events\n  content: born in 1942\n  confidence: 0.8\n- type: people\n  content: daughter Sarah visits every Sunday\n  confidence: 0.9\n- type: health\n  content: has a doctor's appointment on Tuesday\n  confidence: 0.9\n  expires_in_days: 7`;
     try {
-      const response = await axios.post(
-        this.apiUrl,
-        {
-          model: 'deepseek-chat',
-          messages: [
-            { role: 'system', content: 'You are an assistant that extracts structured facts from user text.' },
-            { role: 'user', content: llmPrompt },
-          ],
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      const content = response.data.choices?.[0]?.message?.content ?? '';
+      const { content } = await this.provider.complete([
+        { role: 'system', content: 'You are an assistant that extracts structured facts from user text.' },
+        { role: 'user', content: llmPrompt },
+      ]);
       // Try to parse YAML from the response
-      let facts: Memory[] = [];
+      let facts: ExtractedFact[] = [];
       try {
-        facts = yaml.load(content) as Memory[];
+        facts = yaml.load(content) as ExtractedFact[];
       } catch {
         // fallback: try to extract YAML block from content
         const yamlMatch = content.match(/```yaml([\s\S]*?)```/);
         if (yamlMatch) {
-          facts = yaml.load(yamlMatch[1]) as Memory[];
+          facts = yaml.load(yamlMatch[1]) as ExtractedFact[];
         }
       }
       if (Array.isArray(facts)) {
         for (const fact of facts) {
           if (fact && fact.type && fact.content) {
-            await addUserMemory(userId, { type: fact.type, content: fact.content });
+            candidates.push({
+              type: String(fact.type),
+              content: String(fact.content),
+              source,
+              extractor: 'llm',
+              confidence: typeof fact.confidence === 'number' ? fact.confidence : 0.7,
+              expiresAt: typeof fact.expires_in_days === 'number' && fact.expires_in_days > 0
+                ? expiryInDays(fact.expires_in_days)
+                : undefined
+            });
           }
         }
       }
     } catch {
       // Ignore LLM extraction errors
     }
+
+    try {
+      await MemoryService.ingest(userId, candidates);
+    } catch (error) {
+      console.warn('Failed to store extracted memories:', error);
+    }
   }
 }
 
@@ -0,0 +1,327 @@
+import { getContextTokenBudget } from '../../config';
+import { ChatProvider, ChatMessage, ChatCompletionOptions, ChatDeltaHandler } from './ChatProvider';
+import { estimateTokens, estimateMessageTokens, estimateMessagesTokens } from './TokenCounter';
+
+interface ChatConversationOptions {
+  systemPrompt?: string;
+  // Prompt tokens for system prompt, pinned facts, summary and history; defaults to the model budget in config.llm
+  tokenBudget?: number;
+  // Share of the budget pinned facts are expected to fit; more is reported, not cut
+  pinnedFactsShare?: number;
+}
+
+export interface ChatTurnOptions extends ChatCompletionOptions {
+  // Extra system context sent with this turn only
+  context?: string;
+}
+
+// Share of the budget the running summary may use
+const SUMMARY_SHARE = 0.15;
+// After folding, history is cut down to this share of its budget so the
+// summary is not rewritten on every turn
+const COMPACTION_TARGET = 0.6;
+// The latest exchange is always sent verbatim
+const MIN_RECENT_MESSAGES = 2;
+
+const SUMMARY_INSTRUCTIONS =
+  'You keep a running summary of a conversation between an older person and their companion. ' +
+  'Record the people, places, events, feelings and unfinished topics mentioned, in plain prose. ' +
+  'Write the summary in the language of the conversation.';
+
+/**
+ * Conversation history shared by every chat code path. Keeps the system
+ * prompt and pinned user facts separate from the turns, and keeps the
+ * request inside the model's token budget by folding older turns into a
+ * running summary instead of dropping them.
+ */
+export class ChatConversation {
+  private systemPrompt: string;
+  private history: ChatMessage[] = [];
+  private summary = '';
+  private pinnedFacts: string[] = [];
+  private tokenBudget: number;
+  private pinnedFactsShare: number;
+  private pinnedFactsReported = false;
+  private compaction: Promise<void> | null = null;
+  // Bumped by reset() so a summary still in flight is discarded
+  private generation = 0;
+
+  constructor(options: ChatConversationOptions = {}) {
+    this.systemPrompt = options.systemPrompt || '';
+    this.tokenBudget = options.tokenBudget ?? getContextTokenBudget();
+    this.pinnedFactsShare = options.pinnedFactsShare ?? 0.2;
+  }
+
+  public setSystemPrompt(prompt: string): void {
+    this.systemPrompt = prompt;
+  }
+
+  public getSystemPrompt(): string {
+    return this.systemPrompt;
+  }
+
+  public setTokenBudget(tokenBudget: number): void {
+    this.tokenBudget = tokenBudget;
+  }
+
+  /**
+   * Facts that stay in the system message however long the conversation
+   * gets, most important first. All of them are sent, taking room from the
+   * history; facts past the pinned share of the budget are reported once
+   * per set of facts.
+   */
+  public setPinnedFacts(facts: string[]): void {
+    const pinnedFacts = facts.map(fact => fact.trim()).filter(Boolean);
+    if (pinnedFacts.join('\n') !== this.pinnedFacts.join('\n')) {
+      this.pinnedFactsReported = false;
+    }
+    this.pinnedFacts = pinnedFacts;
+  }
+
+  public getSummary(): string {
+    return this.summary;
+  }
+
+  public getHistory(): ChatMessage[] {
+    return [...this.history];
+  }
+
+  public get length(): number {
+    return this.history.length;
+  }
+
+  public getMessages(context?: string): ChatMessage[] {
+    const system = [this.systemPrompt, this.getPinnedFactsSection(), context].filter(Boolean).join('\n\n');
+    return [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      ...(this.summary ? [this.getSummaryMessage()] : []),
+      ...this.fitHistory(this.getHistoryBudget(context))
+    ];
+  }
+
+  public addMessage(message: ChatMessage): void {
+    if (message.role === 'system') {
+      return;
+    }
+    this.history.push(message);
+  }
+
+  /**
+   * Sends a user turn through the provider and records both sides. The user
+   * message is dropped again if the request fails so a retry does not
+   * duplicate it.
+   */
+  public async send(provider: ChatProvider, userInput: string, options: ChatTurnOptions = {}): Promise<string> {
+    const { context, ...completionOptions } = options;
+    await this.waitForCompaction();
+    this.history.push({ role: 'user', content: userInput });
+
+    try {
+      const result = await provider.complete(this.getMessages(context), completionOptions);
+      this.addMessage({ role: 'assistant', content: result.content });
+      this.scheduleCompaction(provider, context);
+      return result.content;
+    } catch (error) {
+      this.history.pop();
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming variant of `send`. If the stream breaks after some text was
+   * received, that partial reply is kept since the user may already have
+   * heard it.
+   */
+  public async stream(
+    provider: ChatProvider,
+    userInput: string,
+    onDelta: ChatDeltaHandler,
+    options: ChatTurnOptions = {}
+  ): Promise<string> {
+    const { context, ...completionOptions } = options;
+    await this.waitForCompaction();
+    this.history.push({ role: 'user', content: userInput });
+    let received = '';
+
+    try {
+      const result = await provider.stream(this.getMessages(context), delta => {
+        received += delta;
+        onDelta(delta);
+      }, completionOptions);
+      this.addMessage({ role: 'assistant', content: result.content });
+      this.scheduleCompaction(provider, context);
+      return result.content;
+    } catch (error) {
+      if (received) {
+        this.addMessage({ role: 'assistant', content: received });
+        this.scheduleCompaction(provider, context);
+      } else {
+        this.history.pop();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cuts the latest assistant turn back to what the user heard before talking
+   * over it, and notes the rest so the model does not assume it was said.
+   * Does nothing once the user has taken another turn.
+   */
+  public markLastReplyInterrupted(heardText: string, unheardText: string): void {
+    const last = this.history[this.history.length - 1];
+    if (!last || last.role !== 'assistant') {
+      return;
+    }
+
+    const note = unheardText
+      ? `[The user interrupted here and did not hear: "${unheardText}"]`
+      : '[The user interrupted here]';
+    this.history[this.history.length - 1] = {
+      role: 'assistant',
+      content: [heardText.trim(), note].filter(Boolean).join(' ')
+    };
+  }
+
+  public reset(): void {
+    this.generation++;
+    this.history = [];
+    this.summary = '';
+    this.compaction = null;
+  }
+
+  private getPinnedFactsSection(): string {
+    if (this.pinnedFacts.length === 0) {
+      return '';
+    }
+    const header = 'Important facts about the user. Use them to personalise your replies:';
+    const lines = this.pinnedFacts.map(fact => `- ${fact}`);
+    const used = lines.reduce((total, line) => total + estimateTokens(line) + 1, estimateTokens(header));
+    const limit = Math.floor(this.tokenBudget * this.pinnedFactsShare);
+
+    if (used > limit && !this.pinnedFactsReported) {
+      this.pinnedFactsReported = true;
+      console.warn(`Pinned facts use ${used} tokens, over their ${limit} token share of the prompt budget`);
+    }
+    return [header, ...lines].join('\n');
+  }
+
+  private getSummaryMessage(): ChatMessage {
+    return { role: 'system', content: `Summary of the conversation so far: ${this.summary}` };
+  }
+
+  // Tokens left for verbatim turns once the system message and summary are counted
+  private getHistoryBudget(context?: string): number {
+    const system = [this.systemPrompt, this.getPinnedFactsSection(), context].filter(Boolean).join('\n\n');
+    const fixed = estimateMessagesTokens([
+      { role: 'system', content: system },
+      ...(this.summary ? [this.getSummaryMessage()] : [])
+    ]);
+    return Math.max(this.tokenBudget - fixed, 0);
+  }
+
+  // Newest turns that fit the budget; used until a pending summary catches up
+  private fitHistory(budget: number): ChatMessage[] {
+    let used = 0;
+    let start = this.history.length;
+
+    while (start > 0) {
+      const tokens = estimateMessageTokens(this.history[start - 1]);
+      if (used + tokens > budget && start < this.history.length) {
+        break;
+      }
+      used += tokens;
+      start--;
+    }
+    return this.history.slice(start);
+  }
+
+  private async waitForCompaction(): Promise<void> {
+    if (this.compaction) {
+      await this.compaction;
+    }
+  }
+
+  // Summarises in the background after a reply so the next turn is not delayed
+  private scheduleCompaction(provider: ChatProvider, context?: string): void {
+    if (this.compaction || estimateMessagesTokens(this.history) <= this.getHistoryBudget(context)) {
+      return;
+    }
+    const compaction = this.compact(provider, this.generation, context)
+      .catch(error => console.warn('Failed to summarise conversation history:', error))
+      .finally(() => {
+        if (this.compaction === compaction) {
+          this.compaction = null;
+        }
+      });
+    this.compaction = compaction;
+  }
+
+  private async compact(provider: ChatProvider, generation: number, context?: string): Promise<void> {
+    const target = this.getHistoryBudget(context) * COMPACTION_TARGET;
+    let remaining = estimateMessagesTokens(this.history);
+    let foldCount = 0;
+
+    while (remaining > target && this.history.length - foldCount > MIN_RECENT_MESSAGES) {
+      remaining -= estimateMessageTokens(this.history[foldCount]);
+      foldCount++;
+    }
+    // Fold whole exchanges so the kept history starts with a user turn
+    while (
+      foldCount < this.history.length - MIN_RECENT_MESSAGES &&
+      this.history[foldCount].role === 'assistant'
+    ) {
+      foldCount++;
+    }
+    if (foldCount === 0) {
+      return;
+    }
+
+    const folded = this.history.slice(0, foldCount);
+    const summary = await this.summarise(provider, folded);
+    if (generation !== this.generation) {
+      return;
+    }
+    // Only appends happen while summarising, so the folded turns are still at the front
+    this.summary = summary;
+    this.history = this.history.slice(foldCount);
+  }
+
+  private async summarise(provider: ChatProvider, turns: ChatMessage[]): Promise<string> {
+    const summaryBudget = Math.floor(this.tokenBudget * SUMMARY_SHARE);
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Companion'}: ${turn.content}`)
+      .join('\n');
+
+    try {
+      const { content } = await provider.complete([
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        {
+          role: 'user',
+          content: `Current summary:\n${this.summary || '(none yet)'}\n\nNew turns:\n${transcript}\n\n` +
+            `Write the updated summary in under ${Math.floor(summaryBudget * 0.75)} words.`
+        }
+      ], { maxTokens: summaryBudget, temperature: 0.2 });
+      if (content.trim()) {
+        return this.truncateToTokens(content.trim(), summaryBudget);
+      }
+    } catch (error) {
+      console.warn('Summary request failed, keeping an extract instead:', error);
+    }
+
+    // Keep what the user said, most recent last, so the thread is not lost entirely
+    const extract = turns
+      .filter(turn => turn.role === 'user')
+      .map(turn => turn.content.trim())
+      .join(' ');
+    return this.truncateToTokens([this.summary, extract].filter(Boolean).join(' '), summaryBudget, true);
+  }
+
+  private truncateToTokens(text: string, maxTokens: number, keepEnd = false): string {
+    if (estimateTokens(text) <= maxTokens) {
+      return text;
+    }
+    // Shrink proportionally; estimateTokens is roughly linear in length
+    const length = Math.floor(text.length * (maxTokens / estimateTokens(text)));
+    return keepEnd ? text.slice(text.length - length) : text.slice(0, length);
+  }
+}
@@ -0,0 +1,67 @@
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+// Receives each content fragment as it arrives from a streaming completion
+export type ChatDeltaHandler = (delta: string) => void;
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  finishReason?: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * A chat completion backend. Implementations own transport concerns
+ * (endpoint, auth, retries, timeouts) so callers only deal in messages.
+ */
+export interface ChatProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletionResult>;
+  /**
+   * Streams the completion, calling `onDelta` per fragment. Resolves with the
+   * full result once the stream ends.
+   */
+  stream(
+    messages: ChatMessage[],
+    onDelta: ChatDeltaHandler,
+    options?: ChatCompletionOptions
+  ): Promise<ChatCompletionResult>;
+}
+
+export class ChatProviderError extends Error {
+  public readonly status?: number;
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'ChatProviderError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export interface ChatProviderSettings {
+  apiUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+}
@@ -0,0 +1,148 @@
+import { ChatProviderError } from './ChatProvider';
+
+/**
+ * Incremental parser for `text/event-stream` bodies. Chunks may split lines
+ * anywhere, so partial lines are buffered until their newline arrives.
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+
+  constructor(private onEvent: (data: string) => void) {}
+
+  public feed(chunk: string): void {
+    this.buffer += chunk;
+    let newlineIndex = this.buffer.search(/\r?\n/);
+
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      const newlineLength = this.buffer[newlineIndex] === '\r' ? 2 : 1;
+      this.buffer = this.buffer.slice(newlineIndex + newlineLength);
+      this.processLine(line);
+      newlineIndex = this.buffer.search(/\r?\n/);
+    }
+  }
+
+  // Flushes a trailing event when the server closes without a blank line
+  public end(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    // Comment lines (keep-alives)
+    if (line.startsWith(':')) {
+      return;
+    }
+    if (line.startsWith('data:')) {
+      this.dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  private dispatch(): void {
+    if (this.dataLines.length === 0) {
+      return;
+    }
+    const data = this.dataLines.join('\n');
+    this.dataLines = [];
+    this.onEvent(data);
+  }
+}
+
+interface EventStreamRequest {
+  url: string;
+  body: unknown;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  onEvent: (data: string) => void;
+}
+
+/**
+ * POSTs a JSON body and delivers server-sent events as they arrive.
+ * React Native's fetch does not expose a readable body stream, so this reads
+ * the growing `responseText` of an XMLHttpRequest instead.
+ */
+export const postEventStream = (request: EventStreamRequest): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const parser = new SSEParser(request.onEvent);
+    let readIndex = 0;
+    let settled = false;
+
+    const readProgress = () => {
+      const text = xhr.responseText || '';
+      if (text.length > readIndex) {
+        parser.feed(text.slice(readIndex));
+        readIndex = text.length;
+      }
+    };
+
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      request.signal?.removeEventListener('abort', handleAbort);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const handleAbort = () => {
+      xhr.abort();
+      settle(new ChatProviderError('Chat stream aborted'));
+    };
+
+    if (request.signal?.aborted) {
+      settle(new ChatProviderError('Chat stream aborted'));
+      return;
+    }
+    request.signal?.addEventListener('abort', handleAbort);
+
+    xhr.open('POST', request.url);
+    Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.timeout = request.timeoutMs;
+
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try {
+          readProgress();
+        } catch (error) {
+          xhr.abort();
+          settle(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        settle(new ChatProviderError(
+          `Chat stream failed (${xhr.status}): ${(xhr.responseText || '').substring(0, 200)}`,
+          { status: xhr.status, retryable: xhr.status === 408 || xhr.status === 429 || xhr.status >= 500 }
+        ));
+        return;
+      }
+      try {
+        readProgress();
+        parser.end();
+        settle();
+      } catch (error) {
+        settle(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+
+    xhr.onerror = () => settle(new ChatProviderError('Chat stream network error', { retryable: true }));
+    xhr.ontimeout = () => settle(new ChatProviderError('Chat stream timed out', { retryable: true }));
+
+    xhr.send(JSON.stringify(request.body));
+  });
+};
@@ -0,0 +1,28 @@
+import { ChatMessage } from './ChatProvider';
+
+// Role markers and separators the chat template adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Han, kana and hangul characters are roughly a token each
+const CJK_CHARACTERS = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+/**
+ * Approximates the tokenizer used by the chat models (about four characters
+ * per token for Latin text). Errs slightly high, which is the safe side for
+ * budgeting.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) {
+    return 0;
+  }
+  const cjkCount = (text.match(CJK_CHARACTERS) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+};
+
+export const estimateMessageTokens = (message: ChatMessage): number => {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+};
+
+export const estimateMessagesTokens = (messages: ChatMessage[]): number => {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+};
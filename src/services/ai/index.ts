@@ -0,0 +1,61 @@
+import config, { AppConfig } from '../../config';
+import { ChatProvider } from './ChatProvider';
+import { DeepSeekChatProvider } from './providers/DeepSeekChatProvider';
+import { OpenAICompatibleChatProvider } from './providers/OpenAICompatibleChatProvider';
+import { MockChatProvider } from './providers/MockChatProvider';
+
+export { ChatConversation } from './ChatConversation';
+export { DeepSeekChatProvider } from './providers/DeepSeekChatProvider';
+export { OpenAICompatibleChatProvider, resolveChatCompletionsUrl } from './providers/OpenAICompatibleChatProvider';
+export { MockChatProvider } from './providers/MockChatProvider';
+export { ChatProviderError } from './ChatProvider';
+export { SSEParser, postEventStream } from './EventStream';
+export { estimateTokens, estimateMessageTokens, estimateMessagesTokens } from './TokenCounter';
+
+export type {
+  ChatProvider,
+  ChatMessage,
+  ChatRole,
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  ChatDeltaHandler,
+  ChatProviderSettings
+} from './ChatProvider';
+export type { ChatTurnOptions } from './ChatConversation';
+
+export const createChatProvider = (llmConfig: AppConfig['llm'] = config.llm): ChatProvider => {
+  const settings = {
+    apiUrl: llmConfig.apiUrl,
+    apiKey: llmConfig.apiKey,
+    model: llmConfig.model,
+    temperature: llmConfig.temperature,
+    maxTokens: llmConfig.maxTokens,
+    timeoutMs: llmConfig.timeoutMs,
+    maxRetries: llmConfig.maxRetries
+  };
+
+  switch (llmConfig.provider) {
+    case 'mock':
+      return new MockChatProvider();
+    case 'openai_compatible':
+      return new OpenAICompatibleChatProvider(settings);
+    case 'deepseek':
+    default:
+      return new DeepSeekChatProvider(settings);
+  }
+};
+
+let sharedProvider: ChatProvider | null = null;
+
+// Shared provider instance used by AIService and VoiceCommunicationService
+export const getChatProvider = (): ChatProvider => {
+  if (!sharedProvider) {
+    sharedProvider = createChatProvider();
+  }
+  return sharedProvider;
+};
+
+// Swap the shared provider, e.g. to inject a MockChatProvider in tests
+export const setChatProvider = (provider: ChatProvider | null): void => {
+  sharedProvider = provider;
+};
@@ -0,0 +1,22 @@
+import { ChatProviderSettings } from '../ChatProvider';
+import { OpenAICompatibleChatProvider } from './OpenAICompatibleChatProvider';
+
+/**
+ * DeepSeek exposes an OpenAI-compatible API; the only difference is that an
+ * API key is mandatory.
+ */
+export class DeepSeekChatProvider extends OpenAICompatibleChatProvider {
+  public readonly name: string = 'deepseek';
+
+  constructor(settings: ChatProviderSettings) {
+    super({
+      ...settings,
+      apiUrl: settings.apiUrl || 'https://api.deepseek.com',
+      model: settings.model || 'deepseek-chat'
+    });
+  }
+
+  public isConfigured(): boolean {
+    return !!(this.settings.apiKey && this.settings.apiUrl);
+  }
+}
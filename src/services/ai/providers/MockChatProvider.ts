@@ -0,0 +1,79 @@
+import {
+  ChatProvider,
+  ChatMessage,
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  ChatDeltaHandler
+} from '../ChatProvider';
+
+/**
+ * Offline provider for development and tests. Replies are deterministic:
+ * queued responses are returned first, otherwise the last user message is
+ * acknowledged back.
+ */
+export class MockChatProvider implements ChatProvider {
+  public readonly name = 'mock';
+  private queuedResponses: string[] = [];
+  private latencyMs: number;
+  public readonly requests: ChatMessage[][] = [];
+
+  constructor(options: { latencyMs?: number } = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public queueResponse(...responses: string[]): void {
+    this.queuedResponses.push(...responses);
+  }
+
+  public async complete(
+    messages: ChatMessage[],
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletionResult> {
+    this.requests.push(messages);
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    const content = this.queuedResponses.shift()
+      ?? (lastUserMessage ? `I heard you say: ${lastUserMessage.content}` : 'Hello, how are you today?');
+
+    return {
+      content,
+      model: options.model || 'mock',
+      finishReason: 'stop',
+      // Rough 4-characters-per-token estimate, good enough for cost tracking in dev
+      usage: {
+        promptTokens: Math.ceil(messages.reduce((total, message) => total + message.content.length, 0) / 4),
+        completionTokens: Math.ceil(content.length / 4)
+      }
+    };
+  }
+
+  // Replays the mock reply word by word to exercise streaming consumers
+  public async stream(
+    messages: ChatMessage[],
+    onDelta: ChatDeltaHandler,
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletionResult> {
+    const result = await this.complete(messages, options);
+    const fragments = result.content.match(/\S+\s*/g) || [];
+
+    for (const fragment of fragments) {
+      if (options.signal?.aborted) {
+        break;
+      }
+      onDelta(fragment);
+      if (this.latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.latencyMs / 10));
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,239 @@
+import axios from 'axios';
+import {
+  ChatProvider,
+  ChatMessage,
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  ChatDeltaHandler,
+  ChatProviderError,
+  ChatProviderSettings
+} from '../ChatProvider';
+import { postEventStream } from '../EventStream';
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+}
+
+interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: {
+    index: number;
+    delta?: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: ChatCompletionResponse['usage'];
+}
+
+/**
+ * Accepts either a base URL (`https://api.deepseek.com`, `http://localhost:8080/v1`)
+ * or a full chat completions URL and returns the completions endpoint.
+ */
+export const resolveChatCompletionsUrl = (apiUrl: string): string => {
+  const trimmed = apiUrl.trim().replace(/\/+$/, '');
+  if (trimmed.endsWith('/chat/completions')) {
+    return trimmed;
+  }
+  if (/\/v\d+$/.test(trimmed)) {
+    return `${trimmed}/chat/completions`;
+  }
+  return `${trimmed}/v1/chat/completions`;
+};
+
+/**
+ * Chat provider for any server speaking the OpenAI `/v1/chat/completions`
+ * protocol (llama.cpp, Ollama, vLLM, LM Studio and hosted APIs).
+ */
+export class OpenAICompatibleChatProvider implements ChatProvider {
+  public readonly name: string = 'openai_compatible';
+  protected settings: ChatProviderSettings;
+
+  constructor(settings: ChatProviderSettings) {
+    this.settings = settings;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.settings.apiUrl;
+  }
+
+  public async complete(
+    messages: ChatMessage[],
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletionResult> {
+    if (!this.isConfigured()) {
+      throw new Error(`Chat provider ${this.name} is not configured`);
+    }
+
+    const request = this.buildRequest(messages, options);
+    const data = await this.withRetries(() => this.postCompletion(request, options.signal));
+    const choice = data.choices?.[0];
+
+    return {
+      content: choice?.message?.content ?? '',
+      model: data.model || request.model,
+      finishReason: choice?.finish_reason,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens
+          }
+        : undefined
+    };
+  }
+
+  public async stream(
+    messages: ChatMessage[],
+    onDelta: ChatDeltaHandler,
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletionResult> {
+    if (!this.isConfigured()) {
+      throw new Error(`Chat provider ${this.name} is not configured`);
+    }
+
+    const request = { ...this.buildRequest(messages, options), stream: true };
+    const result: ChatCompletionResult = { content: '', model: request.model };
+
+    // Once tokens have been handed out a retry would repeat them, so only
+    // failures before the first delta are retried
+    await this.withRetries(
+      () => postEventStream({
+        url: resolveChatCompletionsUrl(this.settings.apiUrl),
+        body: request,
+        headers: this.getHeaders(),
+        timeoutMs: this.settings.timeoutMs,
+        signal: options.signal,
+        onEvent: data => this.handleStreamEvent(data, result, onDelta)
+      }),
+      () => result.content.length === 0
+    );
+
+    return result;
+  }
+
+  protected buildRequest(messages: ChatMessage[], options: ChatCompletionOptions): ChatCompletionRequest {
+    return {
+      model: options.model || this.settings.model,
+      messages,
+      temperature: options.temperature ?? this.settings.temperature,
+      max_tokens: options.maxTokens ?? this.settings.maxTokens
+    };
+  }
+
+  private handleStreamEvent(data: string, result: ChatCompletionResult, onDelta: ChatDeltaHandler): void {
+    if (data.trim() === '[DONE]') {
+      return;
+    }
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      console.warn(`${this.name} sent an unparseable stream event`);
+      return;
+    }
+
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta?.content;
+    if (chunk.model) {
+      result.model = chunk.model;
+    }
+    if (choice?.finish_reason) {
+      result.finishReason = choice.finish_reason;
+    }
+    if (chunk.usage) {
+      result.usage = {
+        promptTokens: chunk.usage.prompt_tokens,
+        completionTokens: chunk.usage.completion_tokens
+      };
+    }
+    if (delta) {
+      result.content += delta;
+      onDelta(delta);
+    }
+  }
+
+  protected getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    // Local model servers usually run without auth
+    if (this.settings.apiKey) {
+      headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async postCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    const response = await axios.post<ChatCompletionResponse>(
+      resolveChatCompletionsUrl(this.settings.apiUrl),
+      request,
+      {
+        headers: this.getHeaders(),
+        timeout: this.settings.timeoutMs,
+        signal
+      }
+    );
+    return response.data;
+  }
+
+  private async withRetries<T>(operation: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await operation();
+      } catch (error) {
+        attempt++;
+        if (attempt > this.settings.maxRetries || !this.isRetryableError(error) || !canRetry()) {
+          throw error;
+        }
+
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 8000);
+        console.warn(`${this.name} request failed (attempt ${attempt}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof ChatProviderError) {
+      return error.retryable;
+    }
+    // Aborted requests (error code ERR_CANCELED) must not be retried
+    if (!axios.isAxiosError(error) || error.code === 'ERR_CANCELED') {
+      return false;
+    }
+    // Network failures and timeouts have no response
+    if (!error.response) {
+      return true;
+    }
+    const status = error.response.status;
+    return status === 408 || status === 429 || status >= 500;
+  }
+}
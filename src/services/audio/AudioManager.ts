@@ -1,15 +1,31 @@
 import { Audio, AVPlaybackStatus } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
 import { AudioState } from '../../types';
 import config from '../../config';
 import { permissionsManager } from '../../utils/permissions';
+import { VoiceActivityDetector, VoiceActivityEvent, VoiceActivitySensitivity } from './VoiceActivityDetector';
+import HearingProfileService from './HearingProfileService';
+
+export type VoiceActivityListener = (event: VoiceActivityEvent) => void;
+
+export interface StartRecordingOptions {
+  sensitivity?: VoiceActivitySensitivity; // Applies to this recording only
+  preserveAudioSession?: boolean; // Skip the session reset, e.g. to record while audio is playing
+}
 
 export class AudioManager {
   private recording: Audio.Recording | null = null;
   private player: Audio.Sound | null = null;
-  private silenceTimer: NodeJS.Timeout | null = null;
-  private lastVolume = 0;
+  // The copy made for the listener's hearing profile, deleted once played
+  private processedPlaybackUri: string | null = null;
   private onSilenceDetected: (() => void) | null = null;
   private isInitialized = false;
+  // Kept across recordings so the noise floor and the speaker's pauses carry over
+  private voiceActivity = new VoiceActivityDetector({
+    ...config.audio.vad,
+    initialNoiseFloorDb: config.audio.silenceThreshold
+  });
+  private voiceActivityListeners = new Set<VoiceActivityListener>();
 
   constructor() {
     this.configureAudioSession();
@@ -58,7 +74,7 @@ export class AudioManager {
     }
   }
 
-  async startRecording(onSilenceDetected?: () => void): Promise<void> {
+  async startRecording(onSilenceDetected?: () => void, options: StartRecordingOptions = {}): Promise<void> {
     try {
       // Prevent multiple recordings from starting simultaneously
       if (this.recording) {
@@ -77,11 +93,13 @@ export class AudioManager {
       }
 
       // Reset speech detection state
-      this.volumeHistory = [];
-      this.speechDetected = false;
+      this.voiceActivity.reset();
+      this.voiceActivity.setSensitivity(options.sensitivity);
 
       // Force audio session reconfiguration
-      await this.configureAudioSession();
+      if (!options.preserveAudioSession) {
+        await this.configureAudioSession();
+      }
 
       const permissionGranted = await this.requestPermissions();
       if (!permissionGranted) {
@@ -100,6 +118,7 @@ export class AudioManager {
       });
 
       const recordingOptions: Audio.RecordingOptions = {
+        isMeteringEnabled: true,
         android: {
           extension: '.m4a',
           outputFormat: Audio.AndroidOutputFormat.MPEG_4,
@@ -131,8 +150,9 @@ export class AudioManager {
       try {
         await recording.prepareToRecordAsync(recordingOptions);
         
-        // Set up recording status updates for silence detection
+        // Set up recording status updates for voice activity detection
         recording.setOnRecordingStatusUpdate(this.handleRecordingStatusUpdate);
+        recording.setProgressUpdateInterval(config.audio.vad.meteringIntervalMs);
         
         await recording.startAsync();
         this.recording = recording;
@@ -153,56 +173,44 @@ export class AudioManager {
     }
   }
 
-  private volumeHistory: number[] = [];
-  private speechDetected = false;
-  
+  // Changes voice activity detection for the rest of the current recording
+  setVoiceActivitySensitivity(sensitivity?: VoiceActivitySensitivity): void {
+    this.voiceActivity.setSensitivity(sensitivity);
+  }
+
+  // Notified of speech start, pauses, end of utterance and each metering level
+  addVoiceActivityListener(listener: VoiceActivityListener): () => void {
+    this.voiceActivityListeners.add(listener);
+    return () => {
+      this.voiceActivityListeners.delete(listener);
+    };
+  }
+
   private handleRecordingStatusUpdate = (status: Audio.RecordingStatus) => {
     if (!status.isRecording) return;
 
     // Safely get metering value, fallback to -160 if not available
-    const currentVolume = typeof status.metering === 'number' ? status.metering : -160;
-    
-    // Add to volume history for better analysis
-    this.volumeHistory.push(currentVolume);
-    if (this.volumeHistory.length > 10) {
-      this.volumeHistory.shift(); // Keep only last 10 readings
-    }
-    
-    // Calculate average volume over recent samples
-    const avgVolume = this.volumeHistory.reduce((sum, vol) => sum + vol, 0) / this.volumeHistory.length;
-    
-    // More sensitive speech detection
-    const speechThreshold = config.audio.silenceThreshold + 10; // 10dB above silence threshold
-    const isSpeaking = avgVolume > speechThreshold;
-    
-    // Track if we've detected speech at all during this recording
-    if (isSpeaking && !this.speechDetected) {
-      this.speechDetected = true;
-      console.log('🗣️ Speech detected, volume:', Math.round(avgVolume), 'dB');
-    }
-    
-    // Only start silence timer if we've detected speech before
-    if (!isSpeaking && this.speechDetected) {
-      if (!this.silenceTimer && this.onSilenceDetected) {
-        console.log('🔇 Silence detected after speech, starting timer...');
-        this.silenceTimer = setTimeout(() => {
-          console.log('⏰ Silence timeout reached, stopping recording');
+    const levelDb = typeof status.metering === 'number' ? status.metering : -160;
+    const events = this.voiceActivity.process({ timeMs: status.durationMillis, levelDb });
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'calibrated':
+          console.log('🎚️ Noise floor calibrated:', Math.round(event.noiseFloorDb), 'dB');
+          break;
+        case 'speech_start':
+          console.log('🗣️ Speech detected, volume:', Math.round(event.levelDb), 'dB');
+          break;
+        case 'speech_end':
+          console.log(`⏰ End of utterance after ${event.endOfUtteranceMs}ms of silence, stopping recording`);
           if (this.onSilenceDetected) {
             this.onSilenceDetected();
           }
-          this.silenceTimer = null;
-        }, config.audio.silenceDuration);
-      }
-    } else if (isSpeaking) {
-      // Clear silence timer if we detect sound again
-      if (this.silenceTimer) {
-        console.log('🎤 Speech resumed, clearing silence timer');
-        clearTimeout(this.silenceTimer);
-        this.silenceTimer = null;
+          break;
       }
-    }
 
-    this.lastVolume = currentVolume;
+      this.voiceActivityListeners.forEach(listener => listener(event));
+    }
   };
 
   async stopRecording(): Promise<string> {
@@ -215,15 +223,8 @@ export class AudioManager {
     const recordingRef = this.recording;
     
     try {
-      // Clear silence timer first
-      if (this.silenceTimer) {
-        clearTimeout(this.silenceTimer);
-        this.silenceTimer = null;
-      }
-      
       // Reset speech detection state
-      this.volumeHistory = [];
-      this.speechDetected = false;
+      this.voiceActivity.reset();
 
       // Get the URI before stopping (in case stopping fails)
       uri = recordingRef.getURI() || '';
@@ -270,6 +271,7 @@ export class AudioManager {
         }
         this.player = null;
       }
+      this.deleteProcessedPlayback();
 
       // Configure audio session for playback
       try {
@@ -283,9 +285,14 @@ export class AudioManager {
         console.warn('Error setting audio mode for playback:', modeError);
       }
 
+      const personalised = await HearingProfileService.getInstance().personaliseFile(uri);
+      if (personalised.isProcessed) {
+        this.processedPlaybackUri = personalised.fileUri;
+      }
+
       const { sound } = await Audio.Sound.createAsync(
-        { uri },
-        { shouldPlay: true },
+        { uri: personalised.fileUri },
+        { shouldPlay: true, rate: personalised.playbackRate, shouldCorrectPitch: true },
         this.handlePlaybackStatusUpdate
       );
       
@@ -302,9 +309,17 @@ export class AudioManager {
     if (status.didJustFinish) {
       this.player?.unloadAsync();
       this.player = null;
+      this.deleteProcessedPlayback();
     }
   };
 
+  private deleteProcessedPlayback(): void {
+    if (this.processedPlaybackUri) {
+      FileSystem.deleteAsync(this.processedPlaybackUri, { idempotent: true }).catch(() => {});
+      this.processedPlaybackUri = null;
+    }
+  }
+
   async stopPlayback(): Promise<void> {
     if (!this.player) return;
 
@@ -312,6 +327,7 @@ export class AudioManager {
       await this.player.stopAsync();
       await this.player.unloadAsync();
       this.player = null;
+      this.deleteProcessedPlayback();
     } catch (error) {
       console.error('Error stopping playback:', error);
       throw error;
@@ -319,12 +335,6 @@ export class AudioManager {
   }
 
   async cleanup(): Promise<void> {
-    // Clear silence timer first
-    if (this.silenceTimer) {
-      clearTimeout(this.silenceTimer);
-      this.silenceTimer = null;
-    }
-
     // Clean up recording
     if (this.recording) {
       try {
@@ -361,6 +371,7 @@ export class AudioManager {
       } finally {
         // Always ensure player is null
         this.player = null;
+        this.deleteProcessedPlayback();
       }
     }
 
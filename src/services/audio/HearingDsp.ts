@@ -0,0 +1,310 @@
+import { Audiogram, AUDIOGRAM_FREQUENCIES, AudiogramFrequency, EarThresholds, HearingProfile } from '../../types';
+import { PcmAudio } from './wav';
+
+export interface CompressorOptions {
+  thresholdDb: number; // Below the clip's own peak, so quiet and loud voices are treated alike
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// Thresholds up to this are normal hearing and get no gain
+const NORMAL_HEARING_DB = 20;
+const MAX_GAIN_DB = 25;
+// About one octave wide, so neighbouring audiogram bands meet without gaps
+const BAND_Q = 1.4;
+const PEAK_CEILING = Math.pow(10, -1 / 20); // -1 dBFS
+
+const DEFAULT_COMPRESSOR: CompressorOptions = {
+  thresholdDb: -24,
+  ratio: 3,
+  attackMs: 5,
+  releaseMs: 80
+};
+
+// WSOLA frames; 30 ms holds a couple of pitch periods of even a low voice
+const STRETCH_FRAME_MS = 30;
+const STRETCH_SEARCH_MS = 10;
+const MIN_SPEECH_RATE = 0.5;
+const MAX_SPEECH_RATE = 2;
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+const peakOf = (audio: PcmAudio): number => {
+  let peak = 0;
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const level = Math.abs(channel[i]);
+      if (level > peak) peak = level;
+    }
+  }
+  return peak;
+};
+
+const scale = (audio: PcmAudio, gain: number): PcmAudio => ({
+  sampleRate: audio.sampleRate,
+  channels: audio.channels.map(channel => channel.map(sample => sample * gain))
+});
+
+/**
+ * Gain per frequency for one ear by the half-gain rule: half the loss
+ * beyond normal hearing, capped so a severe loss does not turn into
+ * feedback-like whistling. The in-app test is not calibrated, so only the
+ * shape matters; playback is scaled back to fit afterwards.
+ */
+export const prescribeGains = (thresholds: EarThresholds): Partial<Record<AudiogramFrequency, number>> => {
+  const gains: Partial<Record<AudiogramFrequency, number>> = {};
+  AUDIOGRAM_FREQUENCIES.forEach(frequency => {
+    const threshold = thresholds[frequency];
+    if (threshold !== undefined) {
+      gains[frequency] = Math.min(MAX_GAIN_DB, Math.max(0, (threshold - NORMAL_HEARING_DB) / 2));
+    }
+  });
+  return gains;
+};
+
+// RBJ audio EQ cookbook peaking filter
+const peakingFilter = (frequency: number, gainDb: number, sampleRate: number): Biquad => {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const alpha = Math.sin(w0) / (2 * BAND_Q);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha / A;
+  return {
+    b0: (1 + alpha * A) / a0,
+    b1: (-2 * cos) / a0,
+    b2: (1 - alpha * A) / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha / A) / a0
+  };
+};
+
+// RBJ audio EQ cookbook high shelf with a slope of 1
+const highShelfFilter = (frequency: number, gainDb: number, sampleRate: number): Biquad => {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const cos = Math.cos(w0);
+  const twoRootAAlpha = Math.sqrt(A) * Math.sin(w0) * Math.SQRT2;
+  const a0 = (A + 1) - (A - 1) * cos + twoRootAAlpha;
+  return {
+    b0: (A * ((A + 1) + (A - 1) * cos + twoRootAAlpha)) / a0,
+    b1: (-2 * A * ((A - 1) + (A + 1) * cos)) / a0,
+    b2: (A * ((A + 1) + (A - 1) * cos - twoRootAAlpha)) / a0,
+    a1: (2 * ((A - 1) - (A + 1) * cos)) / a0,
+    a2: ((A + 1) - (A - 1) * cos - twoRootAAlpha) / a0
+  };
+};
+
+const applyBiquad = (samples: Float32Array, filter: Biquad): Float32Array => {
+  const output = new Float32Array(samples.length);
+  let z1 = 0;
+  let z2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = filter.b0 * x + z1;
+    z1 = filter.b1 * x - filter.a1 * y + z2;
+    z2 = filter.b2 * x - filter.a2 * y;
+    output[i] = y;
+  }
+  return output;
+};
+
+/**
+ * A peaking band at each tested frequency, except the highest which
+ * becomes a shelf so everything above it is lifted too. Bands too close
+ * to Nyquist for the sample rate are left out.
+ */
+const designEqualiser = (thresholds: EarThresholds, sampleRate: number): Biquad[] => {
+  const gains = prescribeGains(thresholds);
+  const frequencies = AUDIOGRAM_FREQUENCIES.filter(frequency => (gains[frequency] ?? 0) > 0.1);
+  const nyquistLimit = sampleRate * 0.45;
+
+  return frequencies.flatMap((frequency, index) => {
+    const gainDb = gains[frequency] as number;
+    if (index === frequencies.length - 1 && frequency === AUDIOGRAM_FREQUENCIES[AUDIOGRAM_FREQUENCIES.length - 1]) {
+      return [highShelfFilter(Math.min(frequency / Math.SQRT2, sampleRate * 0.4), gainDb, sampleRate)];
+    }
+    return frequency < nyquistLimit ? [peakingFilter(frequency, gainDb, sampleRate)] : [];
+  });
+};
+
+/**
+ * Equalises each ear for its own audiogram. Mono audio comes back as
+ * stereo, since the ears usually differ.
+ */
+export const equalise = (audio: PcmAudio, audiogram: Audiogram): PcmAudio => {
+  if (audio.channels.length === 0) {
+    return audio;
+  }
+  const leftSource = audio.channels[0];
+  const rightSource = audio.channels[1] ?? audio.channels[0];
+  const filterEar = (samples: Float32Array, thresholds: EarThresholds): Float32Array =>
+    designEqualiser(thresholds, audio.sampleRate).reduce(applyBiquad, samples);
+
+  return {
+    sampleRate: audio.sampleRate,
+    channels: [filterEar(leftSource, audiogram.left), filterEar(rightSource, audiogram.right)]
+  };
+};
+
+/**
+ * Feed-forward compressor with one envelope across channels, so the
+ * stereo image stays put. Makeup gain is left to the final normalisation.
+ */
+export const compress = (audio: PcmAudio, options: Partial<CompressorOptions> = {}): PcmAudio => {
+  const { thresholdDb, ratio, attackMs, releaseMs } = { ...DEFAULT_COMPRESSOR, ...options };
+  const peak = peakOf(audio);
+  if (peak === 0) {
+    return audio;
+  }
+
+  const threshold = peak * dbToGain(thresholdDb);
+  const attack = Math.exp(-1 / (audio.sampleRate * attackMs / 1000));
+  const release = Math.exp(-1 / (audio.sampleRate * releaseMs / 1000));
+  const frames = audio.channels[0].length;
+  const output = audio.channels.map(() => new Float32Array(frames));
+  let envelope = 0;
+
+  for (let i = 0; i < frames; i++) {
+    let level = 0;
+    for (const channel of audio.channels) {
+      level = Math.max(level, Math.abs(channel[i]));
+    }
+    const coefficient = level > envelope ? attack : release;
+    envelope = coefficient * envelope + (1 - coefficient) * level;
+
+    let gain = 1;
+    if (envelope > threshold) {
+      const overDb = 20 * Math.log10(envelope / threshold);
+      gain = dbToGain(-overDb * (1 - 1 / ratio));
+    }
+    audio.channels.forEach((channel, index) => {
+      output[index][i] = channel[i] * gain;
+    });
+  }
+
+  return { sampleRate: audio.sampleRate, channels: output };
+};
+
+const hannWindow = (length: number): Float32Array => {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / length);
+  }
+  return window;
+};
+
+/**
+ * Changes speaking rate without changing pitch (WSOLA). Each frame is
+ * taken from near where the rate says it should come from, nudged to the
+ * offset that best continues the waveform already written, so pitch
+ * periods line up instead of smearing. `rate` below 1 slows speech down.
+ */
+export const timeStretch = (audio: PcmAudio, rate: number): PcmAudio => {
+  const clampedRate = Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, rate));
+  const frameLength = 2 * Math.round(audio.sampleRate * STRETCH_FRAME_MS / 2000);
+  const inputLength = audio.channels[0]?.length ?? 0;
+  if (clampedRate === 1 || inputLength < frameLength * 2) {
+    return audio;
+  }
+
+  const outputHop = frameLength / 2;
+  const inputHop = outputHop * clampedRate;
+  const tolerance = Math.round(audio.sampleRate * STRETCH_SEARCH_MS / 1000);
+  const window = hannWindow(frameLength);
+  const outputLength = Math.round(inputLength / clampedRate);
+  const output = audio.channels.map(() => new Float32Array(outputLength + frameLength));
+  const weight = new Float32Array(outputLength + frameLength);
+  const lastStart = inputLength - frameLength;
+
+  // Positions are chosen on a mixdown and applied to every channel
+  const mix = new Float32Array(inputLength);
+  audio.channels.forEach(channel => {
+    for (let i = 0; i < inputLength; i++) mix[i] += channel[i];
+  });
+
+  let previousStart = 0;
+  for (let frame = 0; ; frame++) {
+    const outputStart = frame * outputHop;
+    const nominal = Math.round(frame * inputHop);
+    if (outputStart >= outputLength || nominal > lastStart) {
+      break;
+    }
+
+    let start = nominal;
+    const natural = previousStart + outputHop;
+    if (frame > 0 && natural <= lastStart) {
+      let best = -Infinity;
+      const from = Math.max(0, nominal - tolerance);
+      const to = Math.min(lastStart, nominal + tolerance);
+      for (let candidate = from; candidate <= to; candidate += 2) {
+        let correlation = 0;
+        for (let i = 0; i < frameLength; i += 4) {
+          correlation += mix[candidate + i] * mix[natural + i];
+        }
+        if (correlation > best) {
+          best = correlation;
+          start = candidate;
+        }
+      }
+    }
+
+    audio.channels.forEach((channel, index) => {
+      const target = output[index];
+      for (let i = 0; i < frameLength; i++) {
+        target[outputStart + i] += channel[start + i] * window[i];
+      }
+    });
+    for (let i = 0; i < frameLength; i++) {
+      weight[outputStart + i] += window[i];
+    }
+    previousStart = start;
+  }
+
+  return {
+    sampleRate: audio.sampleRate,
+    channels: output.map(channel => {
+      const trimmed = channel.subarray(0, outputLength);
+      for (let i = 0; i < outputLength; i++) {
+        if (weight[i] > 1e-3) trimmed[i] /= weight[i];
+      }
+      return trimmed;
+    })
+  };
+};
+
+// Whether the profile changes playback at all
+export const needsProcessing = (profile: HearingProfile): boolean =>
+  (profile.equalisation && !!profile.audiogram) || profile.compression || profile.speechRate !== 1;
+
+/**
+ * Prepares synthesised speech for a listener: equalisation for their
+ * audiogram, then compression and slowing if they asked for them. Peaks
+ * are kept under -1 dBFS; compressed speech is brought up to that level.
+ */
+export const processSpeech = (audio: PcmAudio, profile: HearingProfile): PcmAudio => {
+  let processed = audio;
+  if (profile.equalisation && profile.audiogram) {
+    processed = equalise(processed, profile.audiogram);
+  }
+  if (profile.compression) {
+    processed = compress(processed);
+  }
+  if (profile.speechRate !== 1) {
+    processed = timeStretch(processed, profile.speechRate);
+  }
+
+  const peak = peakOf(processed);
+  if (peak > PEAK_CEILING || (profile.compression && peak > 0)) {
+    processed = scale(processed, PEAK_CEILING / peak);
+  }
+  return processed;
+};
@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { Buffer } from 'buffer';
+import { Audiogram, DEFAULT_HEARING_PROFILE, HearingProfile } from '../../types';
+import type { SynthesizedSpeech } from '../tts/TextToSpeechProvider';
+import { needsProcessing, processSpeech } from './HearingDsp';
+import { generateTestTone, HearingTestStep } from './HearingTest';
+import { decodeWav, encodeWav, isWav } from './wav';
+
+export interface PersonalisedAudio {
+  fileUri: string;
+  isProcessed: boolean; // A new temporary file written for this listener
+  playbackRate: number; // Left for the player when the audio could not be processed
+}
+
+type HearingProfileListener = (profile: HearingProfile) => void;
+
+const MIN_SPEECH_RATE = 0.6;
+const MAX_SPEECH_RATE = 1.2;
+
+const tempUri = (prefix: string): string =>
+  `${FileSystem.cacheDirectory}${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}.wav`;
+
+/**
+ * The listener's hearing profile and the playback it implies. Kept on the
+ * device rather than synced, as the tone test is only valid for the
+ * phone and headphones it was taken with.
+ *
+ * WAV speech is equalised, compressed and slowed in-app by HearingDsp.
+ * Other formats (cached MP3 phrases) only get slowed, by expo-av's
+ * pitch-corrected playback rate.
+ */
+class HearingProfileService {
+  private static instance: HearingProfileService;
+  private profile: HearingProfile = DEFAULT_HEARING_PROFILE;
+  private listeners: Set<HearingProfileListener> = new Set();
+  private loading: Promise<void>;
+  private readonly STORAGE_KEY = 'hearing_profile';
+
+  private constructor() {
+    this.loading = this.loadFromStorage();
+  }
+
+  public static getInstance(): HearingProfileService {
+    if (!HearingProfileService.instance) {
+      HearingProfileService.instance = new HearingProfileService();
+    }
+    return HearingProfileService.instance;
+  }
+
+  public getProfile(): HearingProfile {
+    return this.profile;
+  }
+
+  // Resolves with the stored profile once it has been read
+  public async load(): Promise<HearingProfile> {
+    await this.loading;
+    return this.profile;
+  }
+
+  public async saveProfile(changes: Partial<HearingProfile>): Promise<HearingProfile> {
+    await this.loading;
+    this.profile = {
+      ...this.profile,
+      ...changes,
+      speechRate: Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, changes.speechRate ?? this.profile.speechRate))
+    };
+    await this.saveToStorage();
+    this.listeners.forEach(listener => listener(this.profile));
+    return this.profile;
+  }
+
+  public saveAudiogram(audiogram: Audiogram): Promise<HearingProfile> {
+    return this.saveProfile({ audiogram, equalisation: true });
+  }
+
+  // Whether playback differs from the audio as synthesised
+  public isActive(): boolean {
+    return needsProcessing(this.profile);
+  }
+
+  public subscribe(listener: HearingProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // WAV when equalisation or compression needs the samples, otherwise the provider's usual format
+  public getSynthesisFormat(): 'wav' | undefined {
+    const { audiogram, equalisation, compression } = this.profile;
+    return (equalisation && audiogram) || compression ? 'wav' : undefined;
+  }
+
+  /**
+   * Applies the profile to an audio file. The original is left in place;
+   * a processed copy is a new temporary file the caller deletes after use.
+   */
+  public async personaliseFile(fileUri: string): Promise<PersonalisedAudio> {
+    const profile = this.profile;
+    const unprocessed = { fileUri, isProcessed: false, playbackRate: profile.speechRate };
+    if (!needsProcessing(profile)) {
+      return unprocessed;
+    }
+
+    try {
+      const bytes = Buffer.from(
+        await FileSystem.readAsStringAsync(fileUri, { encoding: FileSystem.EncodingType.Base64 }),
+        'base64'
+      );
+      if (!isWav(bytes)) {
+        return unprocessed;
+      }
+
+      const processed = encodeWav(processSpeech(decodeWav(bytes), profile));
+      const processedUri = tempUri('hearing');
+      await FileSystem.writeAsStringAsync(processedUri, processed.toString('base64'), {
+        encoding: FileSystem.EncodingType.Base64
+      });
+      return { fileUri: processedUri, isProcessed: true, playbackRate: 1 };
+    } catch (error) {
+      console.warn('Could not apply hearing profile, playing audio as synthesised:', error);
+      return unprocessed;
+    }
+  }
+
+  // personaliseFile() for synthesised speech, replacing a temporary original with the processed copy
+  public async personaliseSpeech(speech: SynthesizedSpeech): Promise<SynthesizedSpeech> {
+    if (speech.type === 'live') {
+      return speech;
+    }
+    const personalised = await this.personaliseFile(speech.fileUri);
+    if (!personalised.isProcessed) {
+      return { ...speech, playbackRate: personalised.playbackRate };
+    }
+    if (speech.isTemporary) {
+      FileSystem.deleteAsync(speech.fileUri, { idempotent: true }).catch(() => {});
+    }
+    return { ...speech, fileUri: personalised.fileUri, isTemporary: true, playbackRate: 1 };
+  }
+
+  // Plays one hearing test tone as recorded, without the profile, and resolves when it ends
+  public async playTestTone(step: HearingTestStep): Promise<void> {
+    const fileUri = tempUri('tone');
+    await FileSystem.writeAsStringAsync(fileUri, encodeWav(generateTestTone(step)).toString('base64'), {
+      encoding: FileSystem.EncodingType.Base64
+    });
+
+    const player: { sound?: Audio.Sound } = {};
+    try {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+      await new Promise<void>((resolve, reject) => {
+        Audio.Sound.createAsync({ uri: fileUri }, { shouldPlay: true, volume: 1 }, (status: AVPlaybackStatus) => {
+          if (!status.isLoaded) {
+            if (status.error) reject(new Error(status.error));
+            return;
+          }
+          if (status.didJustFinish) resolve();
+        }).then(result => {
+          player.sound = result.sound;
+        }, reject);
+      });
+    } finally {
+      await player.sound?.unloadAsync().catch(() => {});
+      await FileSystem.deleteAsync(fileUri, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.profile = { ...DEFAULT_HEARING_PROFILE, ...(JSON.parse(stored) as Partial<HearingProfile>) };
+        this.listeners.forEach(listener => listener(this.profile));
+      }
+    } catch (error) {
+      console.error('Error loading hearing profile:', error);
+    }
+  }
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.profile));
+    } catch (error) {
+      console.error('Error saving hearing profile:', error);
+    }
+  }
+}
+
+export default HearingProfileService;
@@ -0,0 +1,159 @@
+import { Audiogram, AudiogramFrequency, Ear, EarThresholds } from '../../types';
+import { PcmAudio } from './wav';
+
+export interface HearingTestStep {
+  ear: Ear;
+  frequency: AudiogramFrequency;
+  level: number; // dB HL
+}
+
+export interface ToneOptions {
+  sampleRate?: number;
+  pulses?: number;
+}
+
+// 1 kHz first, where hearing is most reliable, then up and back down for the lows
+const TEST_ORDER: AudiogramFrequency[] = [1000, 2000, 4000, 8000, 500, 250];
+const EARS: Ear[] = ['right', 'left'];
+
+const START_LEVEL = 40;
+const STEP_DOWN = 10;
+const STEP_UP = 5;
+const MIN_LEVEL = 0;
+const MAX_LEVEL = 80;
+const ASCENDING_RESPONSES_NEEDED = 2;
+const MAX_PRESENTATIONS = 20;
+
+// The level at which a tone plays at full scale. Phones are not calibrated, so dB HL here is nominal
+const FULL_SCALE_LEVEL = 90;
+
+const TONE_SAMPLE_RATE = 22050;
+const PULSE_MS = 250;
+const GAP_MS = 200;
+const RAMP_MS = 20;
+
+/**
+ * Three short beeps in one ear only, at the nominal hearing level. Pulsed
+ * tones are easier to tell apart from tinnitus than a steady one, and the
+ * ramps stop each beep clicking.
+ */
+export const generateTestTone = (step: HearingTestStep, options: ToneOptions = {}): PcmAudio => {
+  const sampleRate = options.sampleRate ?? TONE_SAMPLE_RATE;
+  const pulses = options.pulses ?? 3;
+  const pulseLength = Math.round(sampleRate * PULSE_MS / 1000);
+  const gapLength = Math.round(sampleRate * GAP_MS / 1000);
+  const rampLength = Math.round(sampleRate * RAMP_MS / 1000);
+  const amplitude = Math.min(1, Math.pow(10, (step.level - FULL_SCALE_LEVEL) / 20));
+
+  const tone = new Float32Array(pulses * pulseLength + (pulses - 1) * gapLength);
+  for (let pulse = 0; pulse < pulses; pulse++) {
+    const offset = pulse * (pulseLength + gapLength);
+    for (let i = 0; i < pulseLength; i++) {
+      const ramp = Math.min(1, i / rampLength, (pulseLength - 1 - i) / rampLength);
+      tone[offset + i] = amplitude * ramp * Math.sin(2 * Math.PI * step.frequency * i / sampleRate);
+    }
+  }
+
+  const silence = new Float32Array(tone.length);
+  return {
+    sampleRate,
+    channels: step.ear === 'left' ? [tone, silence] : [silence, tone]
+  };
+};
+
+/**
+ * A simplified Hughson-Westlake audiometry run over both ears. Each tone
+ * starts at 40 dB HL; it drops 10 dB when heard and rises 5 dB when not.
+ * The threshold is the lowest level heard twice on the way up. Levels are
+ * capped at 0 and 80, and a frequency that never settles takes the lowest
+ * level heard after MAX_PRESENTATIONS tones, or is left untested.
+ *
+ * Pure and synchronous: the screen plays `current()` and reports `respond()`.
+ */
+export class HearingTest {
+  private stepIndex = 0;
+  private level = START_LEVEL;
+  private presentations = 0;
+  private lastHeard = false;
+  private ascendingHeard: Map<number, number> = new Map();
+  private thresholds: Record<Ear, EarThresholds> = { left: {}, right: {} };
+  private readonly steps: { ear: Ear; frequency: AudiogramFrequency }[];
+
+  constructor(frequencies: AudiogramFrequency[] = TEST_ORDER, ears: Ear[] = EARS) {
+    this.steps = ears.flatMap(ear => frequencies.map(frequency => ({ ear, frequency })));
+  }
+
+  // The tone to play next, or null when the test is finished
+  public current(): HearingTestStep | null {
+    const step = this.steps[this.stepIndex];
+    return step ? { ...step, level: this.level } : null;
+  }
+
+  public isFinished(): boolean {
+    return this.stepIndex >= this.steps.length;
+  }
+
+  // Fraction of the frequencies done, for a progress bar
+  public progress(): number {
+    return this.steps.length === 0 ? 1 : this.stepIndex / this.steps.length;
+  }
+
+  public respond(heard: boolean): void {
+    const step = this.steps[this.stepIndex];
+    if (!step) {
+      return;
+    }
+    this.presentations++;
+
+    // Only responses after a level went up count towards the threshold
+    const ascending = this.presentations > 1 && !this.lastHeard;
+    if (heard && ascending) {
+      const count = (this.ascendingHeard.get(this.level) ?? 0) + 1;
+      this.ascendingHeard.set(this.level, count);
+      if (count >= ASCENDING_RESPONSES_NEEDED) {
+        this.recordThreshold(this.level);
+        return;
+      }
+    }
+
+    if (heard && this.level <= MIN_LEVEL) {
+      this.recordThreshold(MIN_LEVEL);
+      return;
+    }
+    if (!heard && this.level >= MAX_LEVEL) {
+      // Not heard at the loudest level offered: record the cap rather than loop
+      this.recordThreshold(MAX_LEVEL);
+      return;
+    }
+    if (this.presentations >= MAX_PRESENTATIONS) {
+      const heardLevels = [...this.ascendingHeard.keys()];
+      this.recordThreshold(heardLevels.length > 0 ? Math.min(...heardLevels) : null);
+      return;
+    }
+
+    this.lastHeard = heard;
+    this.level = heard
+      ? Math.max(MIN_LEVEL, this.level - STEP_DOWN)
+      : Math.min(MAX_LEVEL, this.level + STEP_UP);
+  }
+
+  public getAudiogram(testedAt: Date = new Date()): Audiogram {
+    return {
+      left: { ...this.thresholds.left },
+      right: { ...this.thresholds.right },
+      testedAt: testedAt.toISOString()
+    };
+  }
+
+  private recordThreshold(level: number | null): void {
+    const step = this.steps[this.stepIndex];
+    if (level !== null) {
+      this.thresholds[step.ear][step.frequency] = level;
+    }
+    this.stepIndex++;
+    this.level = START_LEVEL;
+    this.presentations = 0;
+    this.lastHeard = false;
+    this.ascendingHeard.clear();
+  }
+}
@@ -0,0 +1,227 @@
+// One metering reading from the recorder, e.g. expo-av's status.metering
+export interface MeteringSample {
+  timeMs: number; // Time since recording started
+  levelDb: number; // dBFS, -160 when the recorder reports nothing
+}
+
+export type VoiceActivityPhase = 'calibrating' | 'silence' | 'speech' | 'paused';
+
+export type VoiceActivityEvent =
+  | { type: 'calibrated'; timeMs: number; noiseFloorDb: number }
+  | { type: 'speech_start'; timeMs: number; levelDb: number; noiseFloorDb: number }
+  | { type: 'speech_pause'; timeMs: number }
+  | { type: 'speech_resume'; timeMs: number; pauseMs: number }
+  | { type: 'speech_end'; timeMs: number; utteranceMs: number; endOfUtteranceMs: number }
+  | { type: 'level'; timeMs: number; levelDb: number; noiseFloorDb: number; phase: VoiceActivityPhase };
+
+export interface VoiceActivityOptions {
+  calibrationMs: number; // Metering gathered before the first noise floor estimate
+  initialNoiseFloorDb: number; // Assumed floor until calibration completes
+  startMarginDb: number; // Level above the floor that counts as speech
+  endMarginDb: number; // Level above the floor below which speech has stopped; lower than startMarginDb for hysteresis
+  minSpeechMs: number; // Loudness must last this long to start speech, so door bangs and clicks are ignored
+  endOfUtteranceMs: number; // Silence that ends an utterance until the speaker's own pauses are known
+  minEndOfUtteranceMs: number;
+  maxEndOfUtteranceMs: number;
+  noiseFloorAdaptRate?: number; // Share of each silent sample folded into the floor
+}
+
+// Temporary overrides, e.g. a higher start margin while the assistant's own voice is playing
+export type VoiceActivitySensitivity = Partial<Pick<VoiceActivityOptions, 'startMarginDb' | 'minSpeechMs'>>;
+
+const MIN_LEVEL_DB = -160;
+const PAUSE_HISTORY_SIZE = 20;
+const MIN_PAUSES_FOR_ADAPTATION = 3;
+
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(fraction * (sorted.length - 1))));
+  return sorted[index];
+};
+
+/**
+ * Energy-based voice activity detection over recorder metering.
+ *
+ * The noise floor is calibrated from the quietest readings at the start and
+ * then follows the room while nobody is talking. Speech starts once the level
+ * holds `startMarginDb` above the floor and pauses when it drops under
+ * `endMarginDb`, so a voice hovering between the two does not flap. A pause
+ * becomes the end of the utterance after `getEndOfUtteranceMs()`, which grows
+ * with the pauses this speaker takes mid-sentence.
+ *
+ * Pure and synchronous: feed it samples from a live recording or a stored trace.
+ */
+export class VoiceActivityDetector {
+  private options: Required<VoiceActivityOptions>;
+  private sensitivity: VoiceActivitySensitivity = {};
+  private phase: VoiceActivityPhase = 'calibrating';
+  private noiseFloorDb: number;
+  private calibrated = false;
+  private calibrationSamples: number[] = [];
+  private calibrationStartMs: number | null = null;
+  private loudSinceMs: number | null = null;
+  private utteranceStartMs = 0;
+  private pauseStartMs = 0;
+  private pauseHistory: number[] = [];
+
+  constructor(options: VoiceActivityOptions) {
+    this.options = { noiseFloorAdaptRate: 0.05, ...options };
+    this.noiseFloorDb = options.initialNoiseFloorDb;
+  }
+
+  process(sample: MeteringSample): VoiceActivityEvent[] {
+    const levelDb = Math.max(sample.levelDb, MIN_LEVEL_DB);
+    const events: VoiceActivityEvent[] = [];
+
+    switch (this.phase) {
+      case 'calibrating':
+        this.calibrate(sample.timeMs, levelDb, events);
+        break;
+      case 'silence':
+        this.processSilence(sample.timeMs, levelDb, events);
+        break;
+      case 'speech':
+        this.processSpeech(sample.timeMs, levelDb, events);
+        break;
+      case 'paused':
+        this.processPause(sample.timeMs, levelDb, events);
+        break;
+    }
+
+    events.push({ type: 'level', timeMs: sample.timeMs, levelDb, noiseFloorDb: this.noiseFloorDb, phase: this.phase });
+    return events;
+  }
+
+  // Silence needed after speech before the utterance is treated as finished
+  getEndOfUtteranceMs(): number {
+    const { endOfUtteranceMs, minEndOfUtteranceMs, maxEndOfUtteranceMs } = this.options;
+    if (this.pauseHistory.length < MIN_PAUSES_FOR_ADAPTATION) {
+      return endOfUtteranceMs;
+    }
+
+    // Outlast nearly all of the speaker's own thinking pauses
+    const typicalLongPause = percentile(this.pauseHistory, 0.9);
+    return Math.round(Math.min(maxEndOfUtteranceMs, Math.max(minEndOfUtteranceMs, typicalLongPause * 1.3 + 300)));
+  }
+
+  // Replaces any previous overrides; call with no argument to restore the configured values
+  setSensitivity(sensitivity: VoiceActivitySensitivity = {}): void {
+    this.sensitivity = sensitivity;
+  }
+
+  getNoiseFloorDb(): number {
+    return this.noiseFloorDb;
+  }
+
+  getPhase(): VoiceActivityPhase {
+    return this.phase;
+  }
+
+  // Starts a new recording. The calibrated floor and learned pauses are kept
+  reset(): void {
+    this.phase = this.calibrated ? 'silence' : 'calibrating';
+    this.calibrationSamples = [];
+    this.calibrationStartMs = null;
+    this.loudSinceMs = null;
+    this.utteranceStartMs = 0;
+    this.pauseStartMs = 0;
+  }
+
+  // Forgets the room, e.g. when the device has moved
+  recalibrate(): void {
+    this.calibrated = false;
+    this.noiseFloorDb = this.options.initialNoiseFloorDb;
+    this.reset();
+  }
+
+  private get startMarginDb(): number {
+    return this.sensitivity.startMarginDb ?? this.options.startMarginDb;
+  }
+
+  private calibrate(timeMs: number, levelDb: number, events: VoiceActivityEvent[]): void {
+    if (this.calibrationStartMs === null) {
+      this.calibrationStartMs = timeMs;
+    }
+    this.calibrationSamples.push(levelDb);
+
+    if (timeMs - this.calibrationStartMs < this.options.calibrationMs) {
+      return;
+    }
+
+    // A low percentile, so someone already talking does not raise the floor
+    this.noiseFloorDb = percentile(this.calibrationSamples, 0.2);
+    this.calibrated = true;
+    this.calibrationSamples = [];
+    this.phase = 'silence';
+    events.push({ type: 'calibrated', timeMs, noiseFloorDb: this.noiseFloorDb });
+  }
+
+  private processSilence(timeMs: number, levelDb: number, events: VoiceActivityEvent[]): void {
+    if (levelDb < this.noiseFloorDb + this.options.endMarginDb) {
+      this.noiseFloorDb += (levelDb - this.noiseFloorDb) * this.options.noiseFloorAdaptRate;
+    }
+
+    if (levelDb < this.noiseFloorDb + this.startMarginDb) {
+      this.loudSinceMs = null;
+      return;
+    }
+
+    if (this.loudSinceMs === null) {
+      this.loudSinceMs = timeMs;
+    }
+    if (timeMs - this.loudSinceMs >= (this.sensitivity.minSpeechMs ?? this.options.minSpeechMs)) {
+      this.phase = 'speech';
+      this.utteranceStartMs = this.loudSinceMs;
+      this.loudSinceMs = null;
+      events.push({ type: 'speech_start', timeMs, levelDb, noiseFloorDb: this.noiseFloorDb });
+    }
+  }
+
+  private processSpeech(timeMs: number, levelDb: number, events: VoiceActivityEvent[]): void {
+    // Creep towards steady sound so a television switched on mid-sentence
+    // eventually counts as background rather than one endless utterance
+    if (levelDb > this.noiseFloorDb) {
+      this.noiseFloorDb += (levelDb - this.noiseFloorDb) * this.options.noiseFloorAdaptRate * 0.1;
+    }
+
+    if (levelDb < this.noiseFloorDb + this.options.endMarginDb) {
+      this.phase = 'paused';
+      this.pauseStartMs = timeMs;
+      events.push({ type: 'speech_pause', timeMs });
+    }
+  }
+
+  private processPause(timeMs: number, levelDb: number, events: VoiceActivityEvent[]): void {
+    const pauseMs = timeMs - this.pauseStartMs;
+
+    if (levelDb >= this.noiseFloorDb + this.startMarginDb) {
+      this.pauseHistory.push(pauseMs);
+      if (this.pauseHistory.length > PAUSE_HISTORY_SIZE) {
+        this.pauseHistory.shift();
+      }
+      this.phase = 'speech';
+      events.push({ type: 'speech_resume', timeMs, pauseMs });
+      return;
+    }
+
+    const endOfUtteranceMs = this.getEndOfUtteranceMs();
+    if (pauseMs >= endOfUtteranceMs) {
+      this.phase = 'silence';
+      events.push({
+        type: 'speech_end',
+        timeMs,
+        utteranceMs: this.pauseStartMs - this.utteranceStartMs,
+        endOfUtteranceMs
+      });
+    }
+  }
+}
+
+// Runs a recorded metering trace through a fresh detector, without the per-sample level events
+export const detectVoiceActivity = (
+  trace: MeteringSample[],
+  options: VoiceActivityOptions
+): VoiceActivityEvent[] => {
+  const detector = new VoiceActivityDetector(options);
+  return trace.flatMap(sample => detector.process(sample)).filter(event => event.type !== 'level');
+};
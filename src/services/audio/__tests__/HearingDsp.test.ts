@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { compress, equalise, prescribeGains, timeStretch } from '../HearingDsp';
+import { PcmAudio } from '../wav';
+import { Audiogram } from '../../../types';
+
+const SAMPLE_RATE = 16000;
+
+const sine = (frequency: number, seconds: number, amplitude = 0.5): Float32Array => {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+// Alternates sign every sample, so its level is the same at every sample
+const steady = (amplitude: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = i % 2 === 0 ? amplitude : -amplitude;
+  }
+  return samples;
+};
+
+const mono = (samples: Float32Array): PcmAudio => ({ sampleRate: SAMPLE_RATE, channels: [samples] });
+
+const rms = (samples: Float32Array, from = 0, to = samples.length): number => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+const toDb = (ratio: number): number => 20 * Math.log10(ratio);
+
+// Skips the filters' settling time at the start
+const steadyLevelDb = (output: Float32Array, input: Float32Array): number =>
+  toDb(rms(output, SAMPLE_RATE / 10) / rms(input, SAMPLE_RATE / 10));
+
+// Frequency from the rising zero crossings between `from` and `to`
+const estimateFrequency = (samples: Float32Array, from: number, to: number): number => {
+  const crossings: number[] = [];
+  for (let i = from + 1; i < to; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) crossings.push(i);
+  }
+  const periods = crossings.length - 1;
+  return periods > 0 ? SAMPLE_RATE * periods / (crossings[crossings.length - 1] - crossings[0]) : 0;
+};
+
+const AUDIOGRAM: Audiogram = {
+  left: { 250: 10, 500: 10, 1000: 15, 2000: 15, 4000: 20, 8000: 20 },
+  right: { 250: 10, 500: 10, 1000: 15, 2000: 15, 4000: 60, 8000: 20 },
+  testedAt: '2026-10-19T00:00:00.000Z'
+};
+
+describe('prescribeGains', () => {
+  test('gives half the loss beyond normal hearing, capped', () => {
+    assert.deepEqual(prescribeGains({ 250: 10, 500: 20, 1000: 40, 2000: 60, 4000: 80 }), {
+      250: 0,
+      500: 0,
+      1000: 10,
+      2000: 20,
+      4000: 25
+    });
+  });
+
+  test('leaves out frequencies that were not tested', () => {
+    assert.deepEqual(prescribeGains({}), {});
+  });
+});
+
+describe('equalise', () => {
+  test('boosts each ear by its own audiogram', () => {
+    const input = sine(4000, 0.5, 0.01);
+    const { channels: [left, right] } = equalise(mono(input), AUDIOGRAM);
+
+    assert.ok(Math.abs(steadyLevelDb(left, input)) < 0.1, 'left ear has normal hearing at 4 kHz');
+    assert.ok(Math.abs(steadyLevelDb(right, input) - 20) < 0.5, 'right ear gets 20 dB at 4 kHz');
+  });
+
+  test('leaves frequencies far from the loss alone', () => {
+    const input = sine(250, 0.5, 0.01);
+    const { channels: [, right] } = equalise(mono(input), AUDIOGRAM);
+
+    assert.ok(Math.abs(steadyLevelDb(right, input)) < 1);
+  });
+
+  test('returns mono audio as stereo', () => {
+    const { channels } = equalise(mono(sine(1000, 0.1)), AUDIOGRAM);
+
+    assert.equal(channels.length, 2);
+  });
+});
+
+describe('compress', () => {
+  // Loud to the peak, then quiet under the threshold, each long enough to settle
+  const input = (): PcmAudio => {
+    const samples = new Float32Array(SAMPLE_RATE);
+    samples.set(steady(1, 0.5));
+    samples.set(steady(0.02, 0.5), SAMPLE_RATE / 2);
+    return mono(samples);
+  };
+  const levelDb = (audio: PcmAudio, at: number): number => toDb(Math.abs(audio.channels[0][at]));
+  const LOUD = SAMPLE_RATE / 2 - 1;
+  const QUIET = SAMPLE_RATE - 1;
+
+  test('reduces level above the threshold by the ratio', () => {
+    // 24 dB over the threshold at 3:1 comes out 8 dB over it
+    assert.ok(Math.abs(levelDb(compress(input()), LOUD) - -16) < 0.2);
+    assert.ok(Math.abs(levelDb(compress(input(), { ratio: 2 }), LOUD) - -12) < 0.2);
+  });
+
+  test('sets the threshold below the peak', () => {
+    assert.ok(Math.abs(levelDb(compress(input(), { thresholdDb: -6 }), LOUD) - -4) < 0.2);
+  });
+
+  test('leaves level under the threshold alone', () => {
+    assert.ok(Math.abs(levelDb(compress(input()), QUIET) - toDb(0.02)) < 0.2);
+  });
+
+  test('returns silence unchanged', () => {
+    const silence = mono(new Float32Array(100));
+
+    assert.equal(compress(silence), silence);
+  });
+});
+
+describe('timeStretch', () => {
+  const voice = (): PcmAudio => ({ sampleRate: SAMPLE_RATE, channels: [sine(200, 1), sine(200, 1)] });
+
+  test('makes the audio longer or shorter by the rate', () => {
+    assert.equal(timeStretch(voice(), 0.8).channels[0].length, Math.round(SAMPLE_RATE / 0.8));
+    assert.equal(timeStretch(voice(), 1.25).channels[0].length, Math.round(SAMPLE_RATE / 1.25));
+    timeStretch(voice(), 0.8).channels.forEach(channel => assert.equal(channel.length, SAMPLE_RATE / 0.8));
+  });
+
+  test('keeps the pitch', () => {
+    [0.5, 0.8, 1.5].forEach(rate => {
+      const [output] = timeStretch(voice(), rate).channels;
+      const frequency = estimateFrequency(output, Math.round(output.length * 0.2), Math.round(output.length * 0.8));
+      assert.ok(Math.abs(frequency - 200) < 4, `${frequency.toFixed(1)} Hz at rate ${rate}`);
+    });
+  });
+
+  test('limits the rate to between half and double speed', () => {
+    assert.equal(timeStretch(voice(), 0.1).channels[0].length, SAMPLE_RATE * 2);
+    assert.equal(timeStretch(voice(), 4).channels[0].length, SAMPLE_RATE / 2);
+  });
+
+  test('returns audio unchanged at rate 1', () => {
+    const audio = voice();
+
+    assert.equal(timeStretch(audio, 1), audio);
+  });
+});
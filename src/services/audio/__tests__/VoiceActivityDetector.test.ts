@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { detectVoiceActivity, VoiceActivityEvent, VoiceActivityOptions } from '../VoiceActivityDetector';
+import { LONG_PAUSES, NOISY_ROOM, QUIET_ROOM } from './fixtures/meteringTraces';
+
+// As in config.audio.vad
+const OPTIONS: VoiceActivityOptions = {
+  calibrationMs: 600,
+  initialNoiseFloorDb: -50,
+  startMarginDb: 12,
+  endMarginDb: 6,
+  minSpeechMs: 200,
+  endOfUtteranceMs: 2000,
+  minEndOfUtteranceMs: 1200,
+  maxEndOfUtteranceMs: 6000
+};
+
+const ofType = <T extends VoiceActivityEvent['type']>(events: VoiceActivityEvent[], type: T) =>
+  events.filter((event): event is Extract<VoiceActivityEvent, { type: T }> => event.type === type);
+
+describe('detectVoiceActivity', () => {
+  describe('in a quiet room', () => {
+    const events = detectVoiceActivity(QUIET_ROOM, OPTIONS);
+
+    test('calibrates to the room rather than the assumed floor', () => {
+      const [calibrated] = ofType(events, 'calibrated');
+
+      assert.equal(calibrated.timeMs, 600);
+      assert.ok(Math.abs(calibrated.noiseFloorDb - -60) < 2);
+    });
+
+    test('starts speech once it has lasted minSpeechMs', () => {
+      assert.deepEqual(ofType(events, 'speech_start').map(event => event.timeMs), [1200]);
+    });
+
+    test('ends the utterance endOfUtteranceMs after the voice stops', () => {
+      const [pause] = ofType(events, 'speech_pause');
+      const [end] = ofType(events, 'speech_end');
+
+      assert.equal(pause.timeMs, 2500);
+      assert.equal(end.timeMs, 2500 + 2000);
+      assert.equal(end.utteranceMs, 1500);
+      assert.equal(end.endOfUtteranceMs, 2000);
+    });
+  });
+
+  describe('in a noisy room', () => {
+    const events = detectVoiceActivity(NOISY_ROOM, OPTIONS);
+
+    test('raises the floor to the background noise', () => {
+      assert.ok(Math.abs(ofType(events, 'calibrated')[0].noiseFloorDb - -38) < 2);
+    });
+
+    test('ignores a door bang shorter than minSpeechMs', () => {
+      assert.ok(ofType(events, 'speech_start').every(event => event.timeMs > 1100));
+    });
+
+    test('does not start speech on a level between the end and start thresholds', () => {
+      assert.deepEqual(ofType(events, 'speech_start').map(event => event.timeMs), [2700]);
+    });
+
+    test('does not pause while the voice sinks between the thresholds mid-sentence', () => {
+      assert.deepEqual(ofType(events, 'speech_pause').map(event => event.timeMs), [4800]);
+      assert.deepEqual(ofType(events, 'speech_resume'), []);
+    });
+
+    test('ends the utterance after the last word', () => {
+      const [end] = ofType(events, 'speech_end');
+
+      assert.equal(end.timeMs, 4800 + 2000);
+      assert.equal(end.utteranceMs, 2300);
+    });
+  });
+
+  describe('with long pauses mid-sentence', () => {
+    const events = detectVoiceActivity(LONG_PAUSES, OPTIONS);
+
+    test('keeps one utterance across pauses shorter than endOfUtteranceMs', () => {
+      assert.equal(ofType(events, 'speech_start').length, 1);
+      assert.deepEqual(ofType(events, 'speech_resume').map(event => event.pauseMs), [1500, 1500, 1500, 1800]);
+      assert.equal(ofType(events, 'speech_end').length, 1);
+    });
+
+    test('waits longer for a speaker who pauses a lot', () => {
+      const [end] = ofType(events, 'speech_end');
+      const [lastPause] = ofType(events, 'speech_pause').slice(-1);
+
+      // 90th percentile of 1.5 s pauses, * 1.3 + 300 ms
+      assert.equal(end.endOfUtteranceMs, 2250);
+      // At the first reading once the pause has lasted that long
+      assert.ok(end.timeMs - lastPause.timeMs >= 2250 && end.timeMs - lastPause.timeMs < 2350);
+      assert.equal(end.utteranceMs, lastPause.timeMs - 1000);
+    });
+
+    test('ends a pause as soon as the voice comes back', () => {
+      const pauses = ofType(events, 'speech_pause');
+      const resumes = ofType(events, 'speech_resume');
+
+      resumes.forEach((resume, index) => assert.equal(resume.timeMs - pauses[index].timeMs, resume.pauseMs));
+    });
+  });
+
+  test('ends an utterance at endOfUtteranceMs with no pauses learned yet', () => {
+    const events = detectVoiceActivity(LONG_PAUSES.slice(0, 40), { ...OPTIONS, endOfUtteranceMs: 1200 });
+
+    assert.deepEqual(ofType(events, 'speech_end').map(event => event.timeMs), [1800 + 1200]);
+  });
+});
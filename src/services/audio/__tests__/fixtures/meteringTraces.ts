@@ -0,0 +1,91 @@
+import { MeteringSample } from '../../VoiceActivityDetector';
+
+// A stretch of a recording at one loudness, with the reading wandering by up to jitterDb either way
+interface TraceSegment {
+  ms: number;
+  levelDb: number;
+  jitterDb?: number;
+}
+
+// config.audio.vad.meteringIntervalMs
+const METERING_INTERVAL_MS = 100;
+
+/**
+ * Metering as the recorder would report it, one reading per interval. The
+ * jitter is pseudo-random but seeded, so every run sees the same trace.
+ */
+export const buildTrace = (segments: TraceSegment[]): MeteringSample[] => {
+  const trace: MeteringSample[] = [];
+  let seed = 42;
+  let timeMs = 0;
+
+  segments.forEach(({ ms, levelDb, jitterDb = 0 }) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += METERING_INTERVAL_MS) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      trace.push({ timeMs, levelDb: levelDb + jitterDb * (2 * seed / 2147483648 - 1) });
+      timeMs += METERING_INTERVAL_MS;
+    }
+  });
+  return trace;
+};
+
+// A bedroom at night: a -60 dB floor and one clear sentence
+export const QUIET_ROOM = buildTrace([
+  { ms: 1000, levelDb: -60, jitterDb: 2 },
+  { ms: 1500, levelDb: -30, jitterDb: 4 },
+  { ms: 3000, levelDb: -60, jitterDb: 2 }
+]);
+
+/**
+ * A kitchen with the television on: the floor sits at -38 dB, a door bang
+ * is too short to be speech, and the voice sometimes sinks to -29 dB,
+ * between the start (-26) and end (-32) thresholds.
+ */
+export const NOISY_ROOM = buildTrace([
+  { ms: 1000, levelDb: -38, jitterDb: 3 },
+  { ms: 100, levelDb: -15 },
+  { ms: 500, levelDb: -38, jitterDb: 3 },
+  { ms: 600, levelDb: -29, jitterDb: 1 },
+  { ms: 300, levelDb: -38, jitterDb: 3 },
+  { ms: 800, levelDb: -22, jitterDb: 3 },
+  { ms: 700, levelDb: -29, jitterDb: 1 },
+  { ms: 800, levelDb: -22, jitterDb: 3 },
+  { ms: 3000, levelDb: -38, jitterDb: 3 }
+]);
+
+/**
+ * One sentence from a speaker who stops to think for 1.5 s at a time,
+ * then a longer 1.8 s pause that is still mid-sentence, then silence.
+ */
+export const LONG_PAUSES = buildTrace([
+  { ms: 1000, levelDb: -55, jitterDb: 2 },
+  { ms: 800, levelDb: -28, jitterDb: 3 },
+  { ms: 1500, levelDb: -55, jitterDb: 2 },
+  { ms: 800, levelDb: -28, jitterDb: 3 },
+  { ms: 1500, levelDb: -55, jitterDb: 2 },
+  { ms: 800, levelDb: -28, jitterDb: 3 },
+  { ms: 1500, levelDb: -55, jitterDb: 2 },
+  { ms: 800, levelDb: -28, jitterDb: 3 },
+  { ms: 1800, levelDb: -55, jitterDb: 2 },
+  { ms: 800, levelDb: -28, jitterDb: 3 },
+  { ms: 4000, levelDb: -55, jitterDb: 2 }
+]);
+
+/**
+ * A reply coming back through the microphone from the speaker at full
+ * volume, with no echo cancellation: two sentences peaking around -32 dB,
+ * 28 dB over a quiet room, with a breath between them.
+ */
+export const REPLY_BLEED = buildTrace([
+  { ms: 200, levelDb: -160 },
+  { ms: 2500, levelDb: -32, jitterDb: 3 },
+  { ms: 400, levelDb: -160 },
+  { ms: 2900, levelDb: -32, jitterDb: 3 }
+]);
+
+// Someone cutting in halfway through the reply, closer to the microphone than the speaker
+export const USER_CUTTING_IN = buildTrace([
+  { ms: 3500, levelDb: -160 },
+  { ms: 2000, levelDb: -22, jitterDb: 3 },
+  { ms: 500, levelDb: -160 }
+]);
@@ -0,0 +1,163 @@
+import { Buffer } from 'buffer';
+
+export interface WavFormat {
+  audioFormat: number; // 1 for PCM, 3 for 32-bit float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+interface ParsedWav {
+  format: WavFormat;
+  data: Buffer;
+}
+
+// Decoded audio, one array per channel with samples from -1 to 1
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const PCM = 1;
+const IEEE_FLOAT = 3;
+
+const parseWav = (wav: Buffer): ParsedWav => {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    // Streaming servers may leave sizes unset, so never read past the end
+    const size = Math.min(wav.readUInt32LE(offset + 4), wav.length - offset - 8);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = {
+        audioFormat: wav.readUInt16LE(body),
+        channels: wav.readUInt16LE(body + 2),
+        sampleRate: wav.readUInt32LE(body + 4),
+        bitsPerSample: wav.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data') {
+      if (!format) {
+        throw new Error('WAV data before format');
+      }
+      return { format, data: wav.subarray(body, body + size) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no audio data');
+};
+
+const sameFormat = (a: WavFormat, b: WavFormat): boolean =>
+  a.audioFormat === b.audioFormat && a.channels === b.channels &&
+  a.sampleRate === b.sampleRate && a.bitsPerSample === b.bitsPerSample;
+
+export const isWav = (bytes: Buffer): boolean =>
+  bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WAVE';
+
+// A 44-byte header followed by `data`, which must already be in `format`
+export const writeWav = (format: WavFormat, data: Buffer): Buffer => {
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(format.audioFormat, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+};
+
+/**
+ * Joins PCM WAV clips into one file with silence where a part is a number
+ * of milliseconds, so engines without SSML can still pause mid-sentence.
+ * All clips must share a format, as they do from a single voice.
+ */
+export const joinWav = (parts: (Buffer | number)[]): Buffer => {
+  const clips = parts.filter((part): part is Buffer => typeof part !== 'number').map(parseWav);
+  if (clips.length === 0) {
+    throw new Error('No audio to join');
+  }
+  const format = clips[0].format;
+  if (format.audioFormat !== PCM || clips.some(clip => !sameFormat(clip.format, format))) {
+    throw new Error('Only clips in the same PCM format can be joined');
+  }
+
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  let clipIndex = 0;
+  const chunks = parts.map(part => {
+    if (typeof part === 'number') {
+      const frames = Math.round(format.sampleRate * part / 1000);
+      return Buffer.alloc(frames * blockAlign);
+    }
+    return clips[clipIndex++].data;
+  });
+
+  return writeWav(format, Buffer.concat(chunks));
+};
+
+const readSample = (data: Buffer, offset: number, format: WavFormat): number => {
+  if (format.audioFormat === IEEE_FLOAT) {
+    return data.readFloatLE(offset);
+  }
+  switch (format.bitsPerSample) {
+    case 8:
+      return (data.readUInt8(offset) - 128) / 128;
+    case 16:
+      return data.readInt16LE(offset) / 32768;
+    case 24:
+      return data.readIntLE(offset, 3) / 8388608;
+    case 32:
+      return data.readInt32LE(offset) / 2147483648;
+    default:
+      throw new Error(`Unsupported WAV sample size: ${format.bitsPerSample} bits`);
+  }
+};
+
+// Integer PCM (8, 16, 24 or 32-bit) or 32-bit float WAV into samples
+export const decodeWav = (wav: Buffer): PcmAudio => {
+  const { format, data } = parseWav(wav);
+  if (format.audioFormat !== PCM && !(format.audioFormat === IEEE_FLOAT && format.bitsPerSample === 32)) {
+    throw new Error(`Unsupported WAV encoding: ${format.audioFormat}`);
+  }
+
+  const bytesPerSample = format.bitsPerSample / 8;
+  const blockAlign = format.channels * bytesPerSample;
+  const frames = Math.floor(data.length / blockAlign);
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < format.channels; channel++) {
+      channels[channel][frame] = readSample(data, frame * blockAlign + channel * bytesPerSample, format);
+    }
+  }
+  return { sampleRate: format.sampleRate, channels };
+};
+
+// 16-bit PCM WAV; samples beyond -1 to 1 are clipped
+export const encodeWav = (audio: PcmAudio): Buffer => {
+  const channelCount = audio.channels.length;
+  const frames = channelCount > 0 ? audio.channels[0].length : 0;
+  const data = Buffer.alloc(frames * channelCount * 2);
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const sample = Math.max(-1, Math.min(1, audio.channels[channel][frame]));
+      data.writeInt16LE(Math.round(sample * 32767), (frame * channelCount + channel) * 2);
+    }
+  }
+
+  return writeWav({ audioFormat: PCM, channels: channelCount, sampleRate: audio.sampleRate, bitsPerSample: 16 }, data);
+};
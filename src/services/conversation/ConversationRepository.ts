@@ -0,0 +1,494 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { conversationService } from '../supabase';
+import NetworkOptimizer from '../performance/NetworkOptimizer';
+import {
+  ConversationMessage,
+  ConversationSession,
+  CulturalGroup,
+  StoredConversationMessage,
+  Tables,
+  TablesInsert
+} from '../../types';
+import { createUuid } from '../../utils/ids';
+
+type ConversationRow = Tables<'conversations'>;
+
+export type NewConversationMessage = Omit<ConversationMessage, 'id' | 'timestamp'> &
+  Partial<Pick<ConversationMessage, 'id' | 'timestamp'>>;
+
+export interface StartConversationOptions {
+  culturalGroup?: CulturalGroup;
+}
+
+export interface ConversationCacheStats {
+  loadedConversations: number;
+  activeConversations: number; // Loaded and not yet ended
+  messages: number;
+  approximateBytes: number;
+}
+
+// Called with the user whose conversations changed
+export type ConversationListener = (userId: string) => void;
+
+// Session as written to AsyncStorage; updatedAt > syncedAt means Supabase is behind
+interface StoredConversation {
+  id: string;
+  userId: string;
+  startedAt: string;
+  lastInteraction: string;
+  endedAt?: string;
+  culturalGroup?: CulturalGroup;
+  summary?: string;
+  messages: StoredConversationMessage[];
+  updatedAt: string;
+  syncedAt?: string;
+}
+
+const INDEX_KEY_PREFIX = 'conversation_index_';
+const CONVERSATION_KEY_PREFIX = 'conversation_session_';
+// Conversations Supabase is behind on, so a restart does not forget to upload them
+const UNSYNCED_KEY = 'conversation_unsynced';
+
+// A chat and a call this close together count as the same sitting
+const ACTIVE_CONVERSATION_WINDOW_MS = 30 * 60 * 1000;
+// Writes arriving together (a reply right after the question) go up in one request
+const SYNC_DELAY_MS = 2000;
+const MAX_LOCAL_CONVERSATIONS = 100;
+const REMOTE_FETCH_LIMIT = 50;
+
+const createMessageId = (): string => `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const toStoredMessage = (message: ConversationMessage): StoredConversationMessage => ({
+  ...message,
+  timestamp: message.timestamp.toISOString()
+});
+
+const fromStoredMessage = (message: StoredConversationMessage): ConversationMessage => ({
+  ...message,
+  timestamp: new Date(message.timestamp)
+});
+
+const toSession = (stored: StoredConversation): ConversationSession => ({
+  id: stored.id,
+  userId: stored.userId,
+  startedAt: new Date(stored.startedAt),
+  lastInteraction: new Date(stored.lastInteraction),
+  endedAt: stored.endedAt ? new Date(stored.endedAt) : undefined,
+  culturalGroup: stored.culturalGroup,
+  summary: stored.summary,
+  messages: stored.messages.map(fromStoredMessage)
+});
+
+const fromRow = (row: ConversationRow): StoredConversation => ({
+  id: row.id,
+  userId: row.user_id,
+  startedAt: row.started_at || row.created_at,
+  lastInteraction: row.last_interaction,
+  endedAt: row.ended_at || undefined,
+  culturalGroup: (row.cultural_group as CulturalGroup | null) || undefined,
+  summary: row.summary || undefined,
+  messages: Array.isArray(row.messages) ? row.messages as unknown as StoredConversationMessage[] : [],
+  updatedAt: row.last_interaction,
+  syncedAt: row.last_interaction
+});
+
+const toRow = (stored: StoredConversation): TablesInsert<'conversations'> => ({
+  id: stored.id,
+  user_id: stored.userId,
+  messages: stored.messages,
+  last_interaction: stored.lastInteraction,
+  started_at: stored.startedAt,
+  ended_at: stored.endedAt || null,
+  cultural_group: stored.culturalGroup || null,
+  summary: stored.summary || null
+});
+
+const needsSync = (stored: StoredConversation): boolean => !stored.syncedAt || stored.updatedAt > stored.syncedAt;
+
+/**
+ * The one place conversation messages are kept. Every write lands in
+ * AsyncStorage before the caller continues, so nothing said is lost offline,
+ * and is then copied to the Supabase `conversations` table in the background.
+ */
+class ConversationRepository {
+  private conversations: Map<string, StoredConversation> = new Map();
+  private indexes: Map<string, string[]> = new Map(); // userId -> conversation ids, newest first
+  private listeners: Set<ConversationListener> = new Set();
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor() {
+    // Conversations recorded offline go up as soon as the connection is back
+    NetworkOptimizer.addConnectionListener(isOnline => {
+      if (isOnline) {
+        this.sync();
+      }
+    });
+  }
+
+  async startConversation(userId: string, options: StartConversationOptions = {}): Promise<ConversationSession> {
+    const now = new Date().toISOString();
+    const stored: StoredConversation = {
+      // conversations.id is a uuid, so ids made on the device can be upserted as-is
+      id: createUuid(),
+      userId,
+      startedAt: now,
+      lastInteraction: now,
+      culturalGroup: options.culturalGroup,
+      messages: [],
+      updatedAt: now
+    };
+
+    const index = await this.loadIndex(userId);
+    await this.saveIndex(userId, [stored.id, ...index.filter(id => id !== stored.id)]);
+    await this.persist(stored);
+    this.notify(userId);
+    return toSession(stored);
+  }
+
+  /**
+   * The user's latest conversation if it has not been ended and was used
+   * recently, so moving between the chat and call screens keeps one thread.
+   */
+  async getActiveConversation(userId: string, now: number = Date.now()): Promise<ConversationSession | null> {
+    const [latestId] = await this.loadIndex(userId);
+    const latest = latestId ? await this.load(latestId) : null;
+    if (!latest || latest.endedAt) {
+      return null;
+    }
+    const idle = now - Date.parse(latest.lastInteraction);
+    return idle <= ACTIVE_CONVERSATION_WINDOW_MS ? toSession(latest) : null;
+  }
+
+  async resumeOrStartConversation(userId: string, options: StartConversationOptions = {}): Promise<ConversationSession> {
+    return (await this.getActiveConversation(userId)) || this.startConversation(userId, options);
+  }
+
+  /**
+   * Saves a message locally, then queues the conversation for upload.
+   * Messages whose id is already stored are ignored.
+   */
+  async appendMessage(conversationId: string, input: NewConversationMessage): Promise<ConversationMessage> {
+    const stored = await this.load(conversationId);
+    if (!stored) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const message: ConversationMessage = {
+      ...input,
+      id: input.id || createMessageId(),
+      timestamp: input.timestamp || new Date()
+    };
+    if (stored.messages.some(existing => existing.id === message.id)) {
+      return message;
+    }
+
+    const now = new Date().toISOString();
+    stored.messages.push(toStoredMessage(message));
+    stored.lastInteraction = message.timestamp.toISOString();
+    stored.endedAt = undefined;
+    stored.updatedAt = now;
+    await this.persist(stored);
+
+    this.notify(stored.userId);
+    this.scheduleSync();
+    return message;
+  }
+
+  async endConversation(conversationId: string, summary?: string): Promise<void> {
+    const stored = await this.load(conversationId);
+    if (!stored || stored.endedAt) {
+      return;
+    }
+    const now = new Date().toISOString();
+    stored.endedAt = now;
+    stored.summary = summary ?? stored.summary;
+    stored.updatedAt = now;
+    await this.persist(stored);
+
+    this.notify(stored.userId);
+    this.scheduleSync();
+  }
+
+  async getConversation(conversationId: string): Promise<ConversationSession | null> {
+    const stored = await this.load(conversationId);
+    return stored ? toSession(stored) : null;
+  }
+
+  /**
+   * Conversations stored on the device, newest first. Call `refresh` first
+   * to include ones recorded on another device.
+   */
+  async listConversations(userId: string, limit?: number): Promise<ConversationSession[]> {
+    const index = await this.loadIndex(userId);
+    const ids = limit ? index.slice(0, limit) : index;
+    const sessions: ConversationSession[] = [];
+    for (const id of ids) {
+      const stored = await this.load(id);
+      if (stored) {
+        sessions.push(toSession(stored));
+      }
+    }
+    return sessions;
+  }
+
+  // Latest messages across conversations, oldest first
+  async getRecentMessages(userId: string, limit: number): Promise<ConversationMessage[]> {
+    const messages: ConversationMessage[] = [];
+    for (const session of await this.listConversations(userId)) {
+      messages.unshift(...session.messages);
+      if (messages.length >= limit) {
+        break;
+      }
+    }
+    return messages.slice(-limit);
+  }
+
+  /**
+   * Pulls the user's conversations from Supabase and merges them into the
+   * local store by message id, then uploads anything Supabase is missing.
+   */
+  async refresh(userId: string): Promise<void> {
+    try {
+      const rows = await conversationService.getConversationHistory(userId, REMOTE_FETCH_LIMIT);
+      const index = await this.loadIndex(userId);
+
+      for (const row of rows) {
+        const remote = fromRow(row);
+        const local = await this.load(remote.id);
+        if (!local) {
+          index.push(remote.id);
+          await this.persist(remote);
+          continue;
+        }
+        if (this.mergeRemote(local, remote)) {
+          await this.persist(local);
+        }
+      }
+
+      await this.saveIndex(userId, await this.sortIndex(index));
+      this.notify(userId);
+    } catch (error) {
+      console.warn('Failed to fetch conversations from Supabase:', error);
+    }
+    await this.sync();
+  }
+
+  /**
+   * Uploads every loaded conversation Supabase is behind on. Failures are
+   * left for the next write or refresh to retry.
+   */
+  async sync(): Promise<void> {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.syncing = (async () => {
+      await this.loadUnsynced();
+      for (const stored of Array.from(this.conversations.values()).filter(needsSync)) {
+        const updatedAt = stored.updatedAt;
+        try {
+          await conversationService.upsertConversation(toRow(stored));
+          stored.syncedAt = updatedAt;
+          await this.persist(stored);
+        } catch (error) {
+          console.warn('Failed to sync conversation:', error);
+        }
+      }
+    })();
+
+    try {
+      await this.syncing;
+    } finally {
+      this.syncing = null;
+    }
+  }
+
+  subscribe(listener: ConversationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getCacheStats(): ConversationCacheStats {
+    let messages = 0;
+    let approximateBytes = 0;
+    let activeConversations = 0;
+    this.conversations.forEach(stored => {
+      messages += stored.messages.length;
+      approximateBytes += JSON.stringify(stored).length * 2; // UTF-16 in memory
+      if (!stored.endedAt) activeConversations++;
+    });
+    return {
+      loadedConversations: this.conversations.size,
+      activeConversations,
+      messages,
+      approximateBytes
+    };
+  }
+
+  /**
+   * Drops least recently used conversations from memory until at most
+   * `maxLoaded` remain. They stay on the device and are reloaded on demand;
+   * ones still waiting to upload are kept.
+   */
+  evict(maxLoaded: number): number {
+    const candidates = Array.from(this.conversations.values())
+      .filter(stored => !needsSync(stored))
+      .sort((a, b) => a.lastInteraction.localeCompare(b.lastInteraction));
+    let evicted = 0;
+    while (this.conversations.size > maxLoaded && candidates.length > 0) {
+      this.conversations.delete(candidates.shift()!.id);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  private mergeRemote(local: StoredConversation, remote: StoredConversation): boolean {
+    const known = new Set(local.messages.map(message => message.id));
+    const missingLocally = remote.messages.filter(message => !known.has(message.id));
+    const remoteIds = new Set(remote.messages.map(message => message.id));
+    const missingRemotely = local.messages.some(message => !remoteIds.has(message.id));
+
+    if (missingLocally.length === 0 && !missingRemotely) {
+      return false;
+    }
+
+    local.messages = [...local.messages, ...missingLocally]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (remote.lastInteraction > local.lastInteraction) {
+      local.lastInteraction = remote.lastInteraction;
+    }
+    local.endedAt = local.endedAt || remote.endedAt;
+    local.summary = local.summary || remote.summary;
+    if (missingRemotely) {
+      local.updatedAt = new Date().toISOString();
+    }
+    return true;
+  }
+
+  private scheduleSync(): void {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+    }
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.sync();
+    }, SYNC_DELAY_MS);
+  }
+
+  private notify(userId: string): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(userId);
+      } catch (error) {
+        console.warn('Conversation listener failed:', error);
+      }
+    });
+  }
+
+  private async load(conversationId: string): Promise<StoredConversation | null> {
+    const cached = this.conversations.get(conversationId);
+    if (cached) {
+      return cached;
+    }
+    try {
+      const raw = await AsyncStorage.getItem(`${CONVERSATION_KEY_PREFIX}${conversationId}`);
+      if (!raw) {
+        return null;
+      }
+      const stored: StoredConversation = JSON.parse(raw);
+      this.conversations.set(conversationId, stored);
+      return stored;
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      return null;
+    }
+  }
+
+  private async persist(stored: StoredConversation): Promise<void> {
+    this.conversations.set(stored.id, stored);
+    await AsyncStorage.setItem(`${CONVERSATION_KEY_PREFIX}${stored.id}`, JSON.stringify(stored));
+    await this.markUnsynced(stored.id, needsSync(stored));
+  }
+
+  private async markUnsynced(conversationId: string, unsynced: boolean): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(UNSYNCED_KEY);
+      const ids: string[] = raw ? JSON.parse(raw) : [];
+      if (ids.includes(conversationId) === unsynced) {
+        return;
+      }
+      const next = unsynced ? [...ids, conversationId] : ids.filter(id => id !== conversationId);
+      await AsyncStorage.setItem(UNSYNCED_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to track unsynced conversation:', error);
+    }
+  }
+
+  private async loadUnsynced(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(UNSYNCED_KEY);
+      for (const id of raw ? JSON.parse(raw) as string[] : []) {
+        await this.load(id);
+      }
+    } catch (error) {
+      console.warn('Failed to load unsynced conversations:', error);
+    }
+  }
+
+  private async loadIndex(userId: string): Promise<string[]> {
+    const cached = this.indexes.get(userId);
+    if (cached) {
+      return [...cached];
+    }
+    try {
+      const raw = await AsyncStorage.getItem(`${INDEX_KEY_PREFIX}${userId}`);
+      const index: string[] = raw ? JSON.parse(raw) : [];
+      this.indexes.set(userId, index);
+      return [...index];
+    } catch (error) {
+      console.error('Error loading conversation index:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Keeps the newest conversations on the device. Older ones are only
+   * dropped once Supabase has them.
+   */
+  private async saveIndex(userId: string, index: string[]): Promise<void> {
+    const kept = index.slice(0, MAX_LOCAL_CONVERSATIONS);
+    for (const id of index.slice(MAX_LOCAL_CONVERSATIONS)) {
+      const stored = await this.load(id);
+      if (stored && needsSync(stored)) {
+        kept.push(id);
+        continue;
+      }
+      this.conversations.delete(id);
+      await AsyncStorage.removeItem(`${CONVERSATION_KEY_PREFIX}${id}`);
+    }
+    this.indexes.set(userId, kept);
+    await AsyncStorage.setItem(`${INDEX_KEY_PREFIX}${userId}`, JSON.stringify(kept));
+  }
+
+  private async sortIndex(index: string[]): Promise<string[]> {
+    const entries: Array<{ id: string; lastInteraction: string }> = [];
+    for (const id of Array.from(new Set(index))) {
+      const stored = await this.load(id);
+      if (stored) {
+        entries.push({ id, lastInteraction: stored.lastInteraction });
+      }
+    }
+    return entries
+      .sort((a, b) => b.lastInteraction.localeCompare(a.lastInteraction))
+      .map(entry => entry.id);
+  }
+}
+
+export default new ConversationRepository();
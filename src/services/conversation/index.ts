@@ -0,0 +1,8 @@
+export { default as ConversationRepository } from './ConversationRepository';
+
+export type {
+  NewConversationMessage,
+  StartConversationOptions,
+  ConversationCacheStats,
+  ConversationListener
+} from './ConversationRepository';
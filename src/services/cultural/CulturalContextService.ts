@@ -3,10 +3,16 @@ import {
   CulturalProfile, 
   CulturalGroup, 
   PreferredLanguage, 
+  PREFERRED_LANGUAGES,
   CommunicationStyle,
-  ConversationContext,
-  DEFAULT_CULTURAL_PROFILES 
+  ConversationContext
 } from '../../types';
+import CulturalPackService from './CulturalPackService';
+import { ConversationFlowStage, StigmaHandlingStrategy } from './culturalPack';
+import { identifyLanguages, mergeLanguageCounts } from './languageIdentification';
+import { renderTemplate, replaceTerms, TemplateVariables } from './templateEngine';
+import { tables } from '../supabase/repositories';
+import { getCurrentUserId } from '../supabase/auth';
 
 export interface CulturalResponseTemplate {
   id: string;
@@ -20,7 +26,7 @@ export interface CulturalResponseTemplate {
 }
 
 export interface CulturalDetectionMetrics {
-  languagePreference: Record<PreferredLanguage, number>;
+  languagePreference: Partial<Record<PreferredLanguage, number>>;
   communicationStyleIndicators: Record<CommunicationStyle, number>;
   familyInvolvementLevel: number;
   spiritualReferences: number;
@@ -28,15 +34,67 @@ export interface CulturalDetectionMetrics {
   respectfulnessLevel: number;
 }
 
+/**
+ * How likely each cultural group is, given everything heard so far. The
+ * probabilities add up to 1; suggestion is set when the evidence is strong
+ * enough to ask the person whether to change their profile.
+ */
+export interface CulturalDetectionResult {
+  probabilities: Record<CulturalGroup, number>;
+  mostLikely: CulturalGroup;
+  confidence: number; // Probability of mostLikely
+  sessions: number; // Conversations the evidence comes from
+  languages: Partial<Record<PreferredLanguage, number>>; // Words of each language heard in this conversation
+  suggestion: CulturalProfileSuggestion | null;
+}
+
+// A profile change detection proposes; nothing changes until someone says yes
+export interface CulturalProfileSuggestion {
+  id: string;
+  profileId: string;
+  currentGroup: CulturalGroup;
+  suggestedGroup: CulturalGroup;
+  probability: number;
+  sessions: number;
+  createdAt: string;
+}
+
+export type CulturalSuggestionRespondent = 'user' | 'family';
+
+// Detection evidence kept per profile across conversations
+interface CulturalDetectionEvidence {
+  logLikelihoods: Partial<Record<CulturalGroup, number>>;
+  sessions: number;
+  declined: Partial<Record<CulturalGroup, string>>; // When each suggestion was last turned down
+  updatedAt: string;
+}
+
+// Share of words in each language a group is expected to use. Most people
+// of every group speak mostly English here, so English is weak evidence
+// either way and a few words of another language count for much more.
+const OWN_LANGUAGE_SHARE = 0.1;
+const ENGLISH_SHARE = 0.85;
+const ENGLISH_ONLY_SHARE = 0.9;
+// Words in one conversation are not independent, so each counts for less and a conversation's words are capped
+const LANGUAGE_WORD_WEIGHT = 0.3;
+const MAX_WORDS_PER_SESSION = 40;
+// Behavioural indicators (family, faith, directness) are weaker evidence than language
+const INDICATOR_WEIGHT = 0.05;
+const MAX_INDICATOR_EVIDENCE = 1.5;
+// Older conversations count for less, so a change in how someone speaks shows through
+const SESSION_DECAY = 0.85;
+// The current profile starts out this likely, the rest shared between the other groups
+const CURRENT_GROUP_PRIOR = 0.5;
+const SUGGESTION_PROBABILITY = 0.85;
+const MIN_SUGGESTION_SESSIONS = 3;
+const DECLINED_SUGGESTION_QUIET_DAYS = 30;
+
+const DETECTION_STORAGE_KEY = 'cultural_detection';
+
 export interface CulturalAdaptationConfig {
-  terminologyMap: Record<string, Record<CulturalGroup, string>>;
+  terminologyMap: Record<string, Partial<Record<CulturalGroup, string>>>;
   responsePatterns: Record<CulturalGroup, CulturalResponseTemplate[]>;
-  conversationFlow: Record<CulturalGroup, {
-    greeting: string[];
-    transition: string[];
-    support: string[];
-    farewell: string[];
-  }>;
+  conversationFlow: Record<CulturalGroup, Record<ConversationFlowStage, string[]>>;
 }
 
 class CulturalContextService {
@@ -46,36 +104,19 @@ class CulturalContextService {
   private detectionMetrics: Map<string, CulturalDetectionMetrics> = new Map();
   private adaptationConfig: CulturalAdaptationConfig = {
     terminologyMap: {},
-    responsePatterns: {
-      maori: [],
-      chinese: [],
-      western: []
-    },
-    conversationFlow: {
-      maori: {
-        greeting: [],
-        transition: [],
-        support: [],
-        farewell: []
-      },
-      chinese: {
-        greeting: [],
-        transition: [],
-        support: [],
-        farewell: []
-      },
-      western: {
-        greeting: [],
-        transition: [],
-        support: [],
-        farewell: []
-      }
-    }
+    // Filled for every group from its pack by initializeAdaptationConfig()
+    responsePatterns: {} as CulturalAdaptationConfig['responsePatterns'],
+    conversationFlow: {} as CulturalAdaptationConfig['conversationFlow']
   };
 
   private constructor() {
     this.initializeDefaultProfiles();
     this.initializeAdaptationConfig();
+    // Advisors' published packs replace the bundled content while the app runs
+    CulturalPackService.getInstance().subscribe(() => {
+      this.initializeDefaultProfiles();
+      this.initializeAdaptationConfig();
+    });
   }
 
   public static getInstance(): CulturalContextService {
@@ -86,177 +127,42 @@ class CulturalContextService {
   }
 
   private initializeDefaultProfiles(): void {
-    Object.entries(DEFAULT_CULTURAL_PROFILES).forEach(([group, profile]) => {
+    const packs = CulturalPackService.getInstance();
+    packs.getPacks().forEach(({ culturalGroup }) => {
       const fullProfile: CulturalProfile = {
-        id: `default_${group}`,
-        ...profile
+        id: `default_${culturalGroup}`,
+        ...packs.getProfileDefaults(culturalGroup)
       };
-      this.culturalProfiles.set(group, fullProfile);
+      this.culturalProfiles.set(culturalGroup, fullProfile);
     });
   }
 
+  // Terminology, templates and conversation flow come from each group's cultural pack
   private initializeAdaptationConfig(): void {
-    this.adaptationConfig = {
-      terminologyMap: {
-        dementia: {
-          maori: 'mate wareware',
-          chinese: '痴呆症',
-          western: 'dementia'
-        },
-        memory_loss: {
-          maori: 'ngaro whakamahara',
-          chinese: '记忆丧失',
-          western: 'memory loss'
-        },
-        family: {
-          maori: 'whānau',
-          chinese: '家庭',
-          western: 'family'
-        },
-        journey: {
-          maori: 'tawhirimatea',
-          chinese: '旅程',
-          western: 'journey'
-        },
-        support: {
-          maori: 'tautoko',
-          chinese: '支持',
-          western: 'support'
-        }
-      },
-      responsePatterns: {
-        maori: this.getMaoriResponsePatterns(),
-        chinese: this.getChineseResponsePatterns(),
-        western: this.getWesternResponsePatterns()
-      },
-      conversationFlow: {
-        maori: {
-          greeting: ['Kia ora', 'Tēnā koe', 'Haere mai'],
-          transition: ['He aha tō whakaaro?', 'Me kōrero tātou'],
-          support: ['Kei konei au', 'He tautoko tēnei'],
-          farewell: ['Haere rā', 'Mā te wā']
-        },
-        chinese: {
-          greeting: ['您好', '早上好', '下午好'],
-          transition: ['我们可以聊聊', '请告诉我'],
-          support: ['我理解', '我们会帮助您'],
-          farewell: ['再见', '保重身体']
-        },
-        western: {
-          greeting: ['Hello', 'Good morning', 'How are you?'],
-          transition: ['Let\'s talk about', 'Can you tell me'],
-          support: ['I understand', 'We\'re here to help'],
-          farewell: ['Take care', 'See you soon']
-        }
-      }
-    };
-
-    this.initializeResponseTemplates();
-  }
+    CulturalPackService.getInstance().getPacks().forEach(pack => {
+      const group = pack.culturalGroup;
 
-  private getMaoriResponsePatterns(): CulturalResponseTemplate[] {
-    return [
-      {
-        id: 'maori_greeting_casual',
-        culturalGroup: 'maori',
-        context: 'casual',
-        language: 'mi',
-        template: 'Kia ora {{name}}. He pēhea tō rangi nei?',
-        emotionalTone: 'respectful',
-        familyInvolvement: 'high',
-        culturalNuances: ['whānau_connection', 'spiritual_acknowledgment']
-      },
-      {
-        id: 'maori_memory_support',
-        culturalGroup: 'maori',
-        context: 'memory',
-        language: 'mi',
-        template: 'Kāore he raruraru. Ko tō tawhirimatea tēnei, ā kei konei au hei tautoko.',
-        emotionalTone: 'supportive',
-        familyInvolvement: 'high',
-        culturalNuances: ['journey_perspective', 'communal_support']
-      },
-      {
-        id: 'maori_family_discussion',
-        culturalGroup: 'maori',
-        context: 'family',
-        language: 'mi',
-        template: 'Me whakatū kōrero ki tō whānau. He mea nui tō whānau.',
-        emotionalTone: 'gentle',
-        familyInvolvement: 'high',
-        culturalNuances: ['whānau_centrality', 'collective_decision']
-      }
-    ];
-  }
+      Object.entries(pack.terminology).forEach(([term, wording]) => {
+        this.adaptationConfig.terminologyMap[term] = {
+          ...this.adaptationConfig.terminologyMap[term],
+          [group]: wording
+        };
+      });
+      // A term the new pack dropped should not keep the old wording
+      Object.entries(this.adaptationConfig.terminologyMap).forEach(([term, translations]) => {
+        if (!(term in pack.terminology)) {
+          delete translations[group];
+        }
+      });
 
-  private getChineseResponsePatterns(): CulturalResponseTemplate[] {
-    return [
-      {
-        id: 'chinese_greeting_respectful',
-        culturalGroup: 'chinese',
-        context: 'casual',
-        language: 'zh',
-        template: '{{title}}{{name}}，您今天感觉怎么样？',
-        emotionalTone: 'respectful',
-        familyInvolvement: 'medium',
-        culturalNuances: ['hierarchical_respect', 'formal_address']
-      },
-      {
-        id: 'chinese_medical_discussion',
-        culturalGroup: 'chinese',
-        context: 'medical',
-        language: 'zh',
-        template: '我理解您的担心。让我们慢慢讨论，尊重您的感受。',
-        emotionalTone: 'respectful',
-        familyInvolvement: 'high',
-        culturalNuances: ['stigma_awareness', 'face_saving', 'gentle_approach']
-      },
-      {
-        id: 'chinese_family_honor',
-        culturalGroup: 'chinese',
-        context: 'family',
-        language: 'zh',
-        template: '家庭的支持很重要。我们会保护您的尊严。',
-        emotionalTone: 'supportive',
-        familyInvolvement: 'high',
-        culturalNuances: ['filial_piety', 'family_honor', 'dignity_preservation']
-      }
-    ];
-  }
+      this.adaptationConfig.responsePatterns[group] = pack.responseTemplates.map(template => ({
+        ...template,
+        culturalGroup: group
+      }));
+      this.adaptationConfig.conversationFlow[group] = pack.conversationFlow;
+    });
 
-  private getWesternResponsePatterns(): CulturalResponseTemplate[] {
-    return [
-      {
-        id: 'western_greeting_direct',
-        culturalGroup: 'western',
-        context: 'casual',
-        language: 'en',
-        template: 'Hello {{name}}. How are you feeling today?',
-        emotionalTone: 'direct',
-        familyInvolvement: 'low',
-        culturalNuances: ['individual_focus', 'direct_communication']
-      },
-      {
-        id: 'western_medical_direct',
-        culturalGroup: 'western',
-        context: 'medical',
-        language: 'en',
-        template: 'Let\'s discuss your symptoms and treatment options clearly.',
-        emotionalTone: 'direct',
-        familyInvolvement: 'low',
-        culturalNuances: ['medical_directness', 'individual_autonomy']
-      },
-      {
-        id: 'western_support_individual',
-        culturalGroup: 'western',
-        context: 'memory',
-        language: 'en',
-        template: 'You have the right to make your own choices. I\'m here to support you.',
-        emotionalTone: 'supportive',
-        familyInvolvement: 'medium',
-        culturalNuances: ['individual_rights', 'personal_autonomy']
-      }
-    ];
+    this.initializeResponseTemplates();
   }
 
   private initializeResponseTemplates(): void {
@@ -287,28 +193,200 @@ class CulturalContextService {
     }
   }
 
-  public detectCulturalPreferences(
-    userId: string, 
+  /**
+   * Weighs one conversation as evidence for each cultural group and adds
+   * it to what earlier conversations showed. The languages heard in the
+   * text (by script, macrons and function words) count most, with
+   * languageUsage from the recogniser added to them; family, faith and
+   * directness indicators count a little. Never changes the profile: when
+   * another group becomes clearly more likely over several conversations
+   * the result carries a suggestion, which is logged for audit and should
+   * be put to the person or their family before it is applied.
+   */
+  public async detectCulturalPreferences(
+    profileId: string,
+    currentGroup: CulturalGroup,
     conversationHistory: string[],
-    languageUsage: Record<PreferredLanguage, number>
-  ): CulturalGroup {
-    const metrics = this.analyzeConversationMetrics(conversationHistory, languageUsage);
-    this.detectionMetrics.set(userId, metrics);
-
-    // Score each cultural group based on detected patterns
-    const scores = {
-      maori: this.scoreMaoriIndicators(metrics),
-      chinese: this.scoreChineseIndicators(metrics),
-      western: this.scoreWesternIndicators(metrics)
+    languageUsage: Partial<Record<PreferredLanguage, number>> = {}
+  ): Promise<CulturalDetectionResult> {
+    const languages = mergeLanguageCounts(identifyLanguages(conversationHistory.join(' ')), languageUsage);
+    const metrics = this.analyzeConversationMetrics(conversationHistory, languages);
+    this.detectionMetrics.set(profileId, metrics);
+
+    const evidence = await this.loadDetectionEvidence(profileId);
+    const sessionEvidence = this.getSessionEvidence(metrics);
+    const groups = CulturalPackService.getInstance().getPacks().map(pack => pack.culturalGroup);
+    groups.forEach(group => {
+      evidence.logLikelihoods[group] = (evidence.logLikelihoods[group] || 0) * SESSION_DECAY + sessionEvidence[group];
+    });
+    evidence.sessions += 1;
+    evidence.updatedAt = new Date().toISOString();
+    await this.saveDetectionEvidence(profileId, evidence);
+
+    const probabilities = this.getPosterior(evidence, currentGroup, groups);
+    const mostLikely = groups.reduce((best, group) => (probabilities[group] > probabilities[best] ? group : best));
+    const result: CulturalDetectionResult = {
+      probabilities,
+      mostLikely,
+      confidence: probabilities[mostLikely],
+      sessions: evidence.sessions,
+      languages,
+      suggestion: null
     };
 
-    // Return the highest scoring cultural group
-    return Object.entries(scores).reduce((a, b) => scores[a[0] as CulturalGroup] > scores[b[0] as CulturalGroup] ? a : b)[0] as CulturalGroup;
+    if (this.shouldSuggest(result, currentGroup, evidence)) {
+      result.suggestion = {
+        id: `suggestion_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        profileId,
+        currentGroup,
+        suggestedGroup: mostLikely,
+        probability: result.confidence,
+        sessions: evidence.sessions,
+        createdAt: evidence.updatedAt
+      };
+      await this.logDetectionAudit('cultural_profile_suggested', {
+        ...result.suggestion,
+        probabilities,
+        languages
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Records the answer to a suggestion. A yes starts the evidence afresh
+   * under the new profile; a no keeps that group from being suggested
+   * again for a while. Both are logged for audit.
+   */
+  public async respondToSuggestion(
+    suggestion: CulturalProfileSuggestion,
+    accepted: boolean,
+    respondent: CulturalSuggestionRespondent
+  ): Promise<void> {
+    const evidence = await this.loadDetectionEvidence(suggestion.profileId);
+    if (accepted) {
+      await this.saveDetectionEvidence(suggestion.profileId, { ...this.createDetectionEvidence(), declined: evidence.declined });
+    } else {
+      evidence.declined[suggestion.suggestedGroup] = new Date().toISOString();
+      await this.saveDetectionEvidence(suggestion.profileId, evidence);
+    }
+
+    await this.logDetectionAudit(accepted ? 'cultural_profile_suggestion_accepted' : 'cultural_profile_suggestion_declined', {
+      ...suggestion,
+      respondent
+    });
+  }
+
+  // Per-group log-likelihood of one conversation
+  private getSessionEvidence(metrics: CulturalDetectionMetrics): Record<CulturalGroup, number> {
+    const packs = CulturalPackService.getInstance().getPacks();
+    const words = Object.values(metrics.languagePreference).reduce((total, count) => total + (count || 0), 0);
+    const wordScale = words > MAX_WORDS_PER_SESSION ? MAX_WORDS_PER_SESSION / words : 1;
+
+    const indicatorScores = packs.map(pack => this.scoreIndicators(metrics, pack.profile));
+    const meanIndicatorScore = indicatorScores.reduce((total, score) => total + score, 0) / indicatorScores.length;
+
+    return packs.reduce((evidence, pack, index) => {
+      const own = pack.profile.preferredLanguage;
+      const otherLanguages = PREFERRED_LANGUAGES.length - (own === 'en' ? 1 : 2);
+      const share = (language: PreferredLanguage): number => {
+        if (own === 'en') {
+          return language === 'en' ? ENGLISH_ONLY_SHARE : (1 - ENGLISH_ONLY_SHARE) / otherLanguages;
+        }
+        if (language === own) return OWN_LANGUAGE_SHARE;
+        if (language === 'en') return ENGLISH_SHARE;
+        return (1 - OWN_LANGUAGE_SHARE - ENGLISH_SHARE) / otherLanguages;
+      };
+
+      const languageEvidence = (Object.entries(metrics.languagePreference) as Array<[PreferredLanguage, number]>)
+        .reduce((total, [language, count]) => total + count * wordScale * LANGUAGE_WORD_WEIGHT * Math.log(share(language)), 0);
+      const indicatorEvidence = Math.max(-MAX_INDICATOR_EVIDENCE, Math.min(MAX_INDICATOR_EVIDENCE,
+        (indicatorScores[index] - meanIndicatorScore) * INDICATOR_WEIGHT));
+
+      evidence[pack.culturalGroup] = languageEvidence + indicatorEvidence;
+      return evidence;
+    }, {} as Record<CulturalGroup, number>);
+  }
+
+  private getPosterior(
+    evidence: CulturalDetectionEvidence,
+    currentGroup: CulturalGroup,
+    groups: CulturalGroup[]
+  ): Record<CulturalGroup, number> {
+    const otherPrior = (1 - CURRENT_GROUP_PRIOR) / Math.max(1, groups.length - 1);
+    const logPosterior = groups.map(group =>
+      Math.log(group === currentGroup ? CURRENT_GROUP_PRIOR : otherPrior) + (evidence.logLikelihoods[group] || 0));
+    const max = Math.max(...logPosterior);
+    const weights = logPosterior.map(value => Math.exp(value - max));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    return groups.reduce((probabilities, group, index) => {
+      probabilities[group] = weights[index] / total;
+      return probabilities;
+    }, {} as Record<CulturalGroup, number>);
+  }
+
+  private shouldSuggest(
+    result: CulturalDetectionResult,
+    currentGroup: CulturalGroup,
+    evidence: CulturalDetectionEvidence
+  ): boolean {
+    if (result.mostLikely === currentGroup || result.confidence < SUGGESTION_PROBABILITY ||
+        evidence.sessions < MIN_SUGGESTION_SESSIONS) {
+      return false;
+    }
+    const declinedAt = evidence.declined[result.mostLikely];
+    return !declinedAt ||
+      Date.now() - new Date(declinedAt).getTime() > DECLINED_SUGGESTION_QUIET_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  private createDetectionEvidence(): CulturalDetectionEvidence {
+    return { logLikelihoods: {}, sessions: 0, declined: {}, updatedAt: new Date().toISOString() };
+  }
+
+  private async loadDetectionEvidence(profileId: string): Promise<CulturalDetectionEvidence> {
+    try {
+      const stored = await AsyncStorage.getItem(`${DETECTION_STORAGE_KEY}_${profileId}`);
+      if (stored) {
+        return { ...this.createDetectionEvidence(), ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Error loading cultural detection evidence:', error);
+    }
+    return this.createDetectionEvidence();
+  }
+
+  private async saveDetectionEvidence(profileId: string, evidence: CulturalDetectionEvidence): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${DETECTION_STORAGE_KEY}_${profileId}`, JSON.stringify(evidence));
+    } catch (error) {
+      console.error('Error saving cultural detection evidence:', error);
+    }
+  }
+
+  // Suggestions and answers go to audit_logs, so staff can see why a profile changed
+  private async logDetectionAudit(action: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      const userId = await getCurrentUserId();
+      if (!userId) {
+        console.warn(`Not signed in, ${action} not written to the audit log:`, details);
+        return;
+      }
+      await tables.audit_logs.append({
+        action,
+        user_id: userId,
+        details: JSON.parse(JSON.stringify(details)),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error(`Error writing ${action} to the audit log:`, error);
+    }
   }
 
   private analyzeConversationMetrics(
     conversationHistory: string[],
-    languageUsage: Record<PreferredLanguage, number>
+    languageUsage: Partial<Record<PreferredLanguage, number>>
   ): CulturalDetectionMetrics {
     const text = conversationHistory.join(' ').toLowerCase();
     
@@ -319,8 +397,8 @@ class CulturalContextService {
         hierarchical_respectful: this.countPatterns(text, ['family', 'respect', 'honor', 'elder', 'tradition']),
         direct_medical: this.countPatterns(text, ['symptom', 'treatment', 'diagnosis', 'medical', 'doctor'])
       },
-      familyInvolvementLevel: this.countPatterns(text, ['family', 'whānau', '家庭', 'together', 'support']),
-      spiritualReferences: this.countPatterns(text, ['journey', 'spirit', 'ancestor', 'blessing', 'prayer']),
+      familyInvolvementLevel: this.countPatterns(text, ['family', 'whānau', '家庭', 'āiga', 'kāinga', 'परिवार', '가족', 'together', 'support']),
+      spiritualReferences: this.countPatterns(text, ['journey', 'spirit', 'ancestor', 'blessing', 'prayer', 'church']),
       medicalDirectness: this.countPatterns(text, ['what is', 'how does', 'treatment', 'medication', 'cure']),
       respectfulnessLevel: this.countPatterns(text, ['please', 'thank you', 'respect', 'honor', 'grateful'])
     };
@@ -332,32 +410,33 @@ class CulturalContextService {
     }, 0);
   }
 
-  private scoreMaoriIndicators(metrics: CulturalDetectionMetrics): number {
-    let score = 0;
-    score += metrics.languagePreference.mi * 3;
-    score += metrics.communicationStyleIndicators.indirect_respectful * 2;
-    score += metrics.familyInvolvementLevel * 2;
-    score += metrics.spiritualReferences * 3;
-    score += metrics.respectfulnessLevel;
-    return score;
-  }
-
-  private scoreChineseIndicators(metrics: CulturalDetectionMetrics): number {
+  /**
+   * How strongly the conversation matches a group's profile: use of its
+   * language, its communication style, how much family, faith and plain
+   * medical talk come up, and how formally the person speaks.
+   */
+  private scoreIndicators(
+    metrics: CulturalDetectionMetrics,
+    profile: Pick<CulturalProfile, 'preferredLanguage' | 'communicationStyle' | 'familyStructure' | 'spiritualAspects' | 'stigmaLevel'>
+  ): number {
+    const direct = profile.communicationStyle === 'direct_medical';
     let score = 0;
-    score += metrics.languagePreference.zh * 3;
-    score += metrics.communicationStyleIndicators.hierarchical_respectful * 2;
-    score += metrics.familyInvolvementLevel * 2;
-    score += (10 - metrics.medicalDirectness); // Lower directness = higher Chinese score
-    score += metrics.respectfulnessLevel * 2;
-    return score;
-  }
-
-  private scoreWesternIndicators(metrics: CulturalDetectionMetrics): number {
-    let score = 0;
-    score += metrics.languagePreference.en * 3;
-    score += metrics.communicationStyleIndicators.direct_medical * 3;
-    score += metrics.medicalDirectness * 2;
-    score += (10 - metrics.familyInvolvementLevel); // Lower family involvement = higher Western score
+    score += (metrics.languagePreference[profile.preferredLanguage] || 0) * 3;
+    score += metrics.communicationStyleIndicators[profile.communicationStyle] * (direct ? 3 : 2);
+    score += profile.familyStructure === 'individual_focused'
+      ? 10 - metrics.familyInvolvementLevel // Less family talk = more individual focus
+      : metrics.familyInvolvementLevel * 2;
+    if (profile.spiritualAspects === 'journey_based' || profile.spiritualAspects === 'faith_based') {
+      score += metrics.spiritualReferences * 3;
+    }
+    if (direct) {
+      score += metrics.medicalDirectness * 2;
+    } else if (profile.stigmaLevel === 'high') {
+      score += 10 - metrics.medicalDirectness; // Avoiding medical detail = higher score where stigma is high
+      score += metrics.respectfulnessLevel * 2;
+    } else {
+      score += metrics.respectfulnessLevel;
+    }
     return score;
   }
 
@@ -365,7 +444,7 @@ class CulturalContextService {
     culturalGroup: CulturalGroup,
     context: ConversationContext,
     baseMessage: string,
-    variables: Record<string, string> = {}
+    variables: TemplateVariables = {}
   ): string {
     const templates = this.responseTemplates.get(culturalGroup) || [];
     const template = templates.find(t => t.context === context);
@@ -374,42 +453,52 @@ class CulturalContextService {
       return this.adaptTerminology(baseMessage, culturalGroup);
     }
 
-    let adaptedMessage = template.template;
-    
-    // Replace variables in template
-    Object.entries(variables).forEach(([key, value]) => {
-      adaptedMessage = adaptedMessage.replace(`{{${key}}}`, value);
+    return renderTemplate(template.template, variables, {
+      language: template.language,
+      honorifics: CulturalPackService.getInstance().getPack(culturalGroup).honorifics,
+      templateId: template.id
     });
-
-    return adaptedMessage;
   }
 
   public adaptTerminology(message: string, culturalGroup: CulturalGroup): string {
-    let adaptedMessage = message;
-    
-    Object.entries(this.adaptationConfig.terminologyMap).forEach(([term, translations]) => {
-      const culturalTerm = translations[culturalGroup];
-      if (culturalTerm) {
-        const regex = new RegExp(`\\b${term}\\b`, 'gi');
-        adaptedMessage = adaptedMessage.replace(regex, culturalTerm);
-      }
-    });
-
-    return adaptedMessage;
+    return replaceTerms(message, this.getTerminology(culturalGroup));
   }
 
-  public getConversationFlow(culturalGroup: CulturalGroup, flowType: keyof CulturalAdaptationConfig['conversationFlow'][CulturalGroup]): string[] {
+  public getConversationFlow(culturalGroup: CulturalGroup, flowType: ConversationFlowStage): string[] {
     return this.adaptationConfig.conversationFlow[culturalGroup][flowType] || [];
   }
 
+  public getResponseTemplates(culturalGroup: CulturalGroup): CulturalResponseTemplate[] {
+    return this.responseTemplates.get(culturalGroup) || [];
+  }
+
+  /**
+   * Returns the group's preferred wording for each generic term, e.g.
+   * `{ dementia: 'mate wareware' }` for maori.
+   */
+  public getTerminology(culturalGroup: CulturalGroup): Record<string, string> {
+    const terminology: Record<string, string> = {};
+    Object.entries(this.adaptationConfig.terminologyMap).forEach(([term, translations]) => {
+      if (translations[culturalGroup]) {
+        terminology[term] = translations[culturalGroup];
+      }
+    });
+    return terminology;
+  }
+
   public getCulturalNuances(culturalGroup: CulturalGroup, context: ConversationContext): string[] {
     const templates = this.responseTemplates.get(culturalGroup) || [];
     const template = templates.find(t => t.context === context);
     return template?.culturalNuances || [];
   }
 
+  /**
+   * Replaces a group's profile, templates and conversation flow until the
+   * packs next change. A new group is added to CULTURAL_GROUPS with a
+   * bundled pack rather than here.
+   */
   public registerNewCulture(
-    culturalGroup: string,
+    culturalGroup: CulturalGroup,
     _profile: Omit<CulturalProfile, 'id'>,
     responsePatterns: CulturalResponseTemplate[],
     conversationFlow: CulturalAdaptationConfig['conversationFlow'][CulturalGroup]
@@ -425,7 +514,7 @@ class CulturalContextService {
     this.responseTemplates.set(culturalGroup, responsePatterns);
     
     // Update conversation flow
-    this.adaptationConfig.conversationFlow[culturalGroup as CulturalGroup] = conversationFlow;
+    this.adaptationConfig.conversationFlow[culturalGroup] = conversationFlow;
   }
 
   public getFamilyInvolvementLevel(culturalGroup: CulturalGroup, context: ConversationContext): 'high' | 'medium' | 'low' {
@@ -434,39 +523,8 @@ class CulturalContextService {
     return template?.familyInvolvement || 'medium';
   }
 
-  public getStigmaHandlingStrategy(culturalGroup: CulturalGroup): {
-    directness: 'high' | 'medium' | 'low';
-    familyInvolvement: 'required' | 'recommended' | 'optional';
-    terminologyPreference: 'medical' | 'euphemistic' | 'cultural';
-  } {
-    const _profile = this.culturalProfiles.get(culturalGroup);
-    
-    switch (culturalGroup) {
-      case 'maori':
-        return {
-          directness: 'medium',
-          familyInvolvement: 'required',
-          terminologyPreference: 'cultural'
-        };
-      case 'chinese':
-        return {
-          directness: 'low',
-          familyInvolvement: 'recommended',
-          terminologyPreference: 'euphemistic'
-        };
-      case 'western':
-        return {
-          directness: 'high',
-          familyInvolvement: 'optional',
-          terminologyPreference: 'medical'
-        };
-      default:
-        return {
-          directness: 'medium',
-          familyInvolvement: 'recommended',
-          terminologyPreference: 'cultural'
-        };
-    }
+  public getStigmaHandlingStrategy(culturalGroup: CulturalGroup): StigmaHandlingStrategy {
+    return { ...CulturalPackService.getInstance().getPack(culturalGroup).stigmaHandling };
   }
 }
 
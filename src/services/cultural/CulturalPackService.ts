@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { CulturalGroup, CulturalProfile, PreferredLanguage } from '../../types';
+import { CulturalNotificationConfig } from '../../types/notifications';
+import { supabase } from '../supabase/supabaseClient';
+import { tables } from '../supabase/repositories';
+import { CulturalColors, CulturalPack, validateCulturalPack } from './culturalPack';
+import { BUNDLED_CULTURAL_PACKS } from './packs';
+
+// Called with the groups whose pack changed
+type CulturalPackListener = (groups: CulturalGroup[]) => void;
+
+/**
+ * The cultural pack in use for each group: the one bundled with the app,
+ * or a newer one advisors published to `cultural_contexts`. Published packs
+ * are validated before use, kept in AsyncStorage so they apply offline, and
+ * reloaded while the app runs through a realtime subscription.
+ */
+class CulturalPackService {
+  private static instance: CulturalPackService;
+  private packs: Map<CulturalGroup, CulturalPack> = new Map();
+  private published: CulturalPack[] = [];
+  private listeners: Set<CulturalPackListener> = new Set();
+  private channel: RealtimeChannel | null = null;
+  private readonly STORAGE_KEY = 'cultural_packs';
+
+  private constructor() {
+    this.setPublished([]);
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): CulturalPackService {
+    if (!CulturalPackService.instance) {
+      CulturalPackService.instance = new CulturalPackService();
+    }
+    return CulturalPackService.instance;
+  }
+
+  public getPack(culturalGroup: CulturalGroup): CulturalPack {
+    return this.packs.get(culturalGroup) || BUNDLED_CULTURAL_PACKS[culturalGroup];
+  }
+
+  public getPacks(): CulturalPack[] {
+    return Array.from(this.packs.values());
+  }
+
+  public getProfileDefaults(culturalGroup: CulturalGroup): Omit<CulturalProfile, 'id'> {
+    const { profile } = this.getPack(culturalGroup);
+    return {
+      ...profile,
+      preferredTerms: { ...profile.preferredTerms },
+      culturalGroup,
+      customNuances: {}
+    };
+  }
+
+  public getNotificationConfig(culturalGroup: CulturalGroup): CulturalNotificationConfig {
+    const { notificationDelivery } = this.getPack(culturalGroup);
+    return {
+      ...notificationDelivery,
+      respectfulHours: { ...notificationDelivery.respectfulHours },
+      specialConsiderations: { ...notificationDelivery.specialConsiderations },
+      culturalGroup
+    };
+  }
+
+  // High contrast keeps black on white for every group, with only the accent in the group's colour
+  public getColors(culturalGroup: CulturalGroup, isHighContrast = false): CulturalColors {
+    const { colors, highContrastAccent } = this.getPack(culturalGroup).presentation;
+    return isHighContrast
+      ? { primary: '#000000', secondary: '#FFFFFF', accent: highContrastAccent, background: '#FFFFFF' }
+      : { ...colors };
+  }
+
+  // The group whose pack prefers the language, e.g. mi -> maori; western when none does
+  public getCulturalGroupForLanguage(language: PreferredLanguage): CulturalGroup {
+    return this.getPacks().find(pack => pack.profile.preferredLanguage === language)?.culturalGroup || 'western';
+  }
+
+  // Loads the packs advisors have published to Supabase
+  public async refresh(): Promise<void> {
+    try {
+      const rows = await tables.cultural_contexts.find({ context_type: 'cultural_pack' });
+      this.setPublished(this.validPacks(rows.map(row => row.pack), 'Supabase'));
+      await this.saveToStorage();
+    } catch (error) {
+      console.warn('Failed to load published cultural packs:', error);
+    }
+  }
+
+  /**
+   * Refreshes whenever a pack is published or withdrawn, until the returned
+   * function is called.
+   */
+  public watch(): () => void {
+    if (!this.channel) {
+      this.channel = supabase
+        .channel('cultural_packs')
+        // Deletes cannot be filtered by column, so any change to the table triggers a refresh
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'cultural_contexts' }, () => {
+          this.refresh();
+        })
+        .subscribe();
+    }
+
+    return () => {
+      if (this.channel) {
+        supabase.removeChannel(this.channel);
+        this.channel = null;
+      }
+    };
+  }
+
+  public subscribe(listener: CulturalPackListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private validPacks(candidates: unknown[], source: string): CulturalPack[] {
+    return candidates.filter((candidate): candidate is CulturalPack => {
+      const errors = validateCulturalPack(candidate);
+      if (errors.length > 0) {
+        console.warn(`Ignoring an invalid cultural pack from ${source}:`, errors.join('; '));
+      }
+      return errors.length === 0;
+    });
+  }
+
+  // A published pack only replaces the bundled one when it is newer, so an app update can supersede it
+  private setPublished(published: CulturalPack[]): void {
+    this.published = published;
+
+    const changed: CulturalGroup[] = [];
+    (Object.keys(BUNDLED_CULTURAL_PACKS) as CulturalGroup[]).forEach(culturalGroup => {
+      const pack = published
+        .filter(candidate => candidate.culturalGroup === culturalGroup)
+        .reduce(
+          (newest, candidate) => (candidate.version > newest.version ? candidate : newest),
+          BUNDLED_CULTURAL_PACKS[culturalGroup]
+        );
+
+      const previous = this.packs.get(culturalGroup);
+      if (JSON.stringify(previous) !== JSON.stringify(pack)) {
+        changed.push(culturalGroup);
+      }
+      this.packs.set(culturalGroup, pack);
+    });
+
+    if (changed.length > 0) {
+      this.listeners.forEach(listener => listener(changed));
+    }
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      // A refresh that finished first is newer than the stored copy
+      if (stored && this.published.length === 0) {
+        this.setPublished(this.validPacks(JSON.parse(stored) as unknown[], 'storage'));
+      }
+    } catch (error) {
+      console.error('Error loading cultural packs:', error);
+    }
+  }
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.published));
+    } catch (error) {
+      console.error('Error saving cultural packs:', error);
+    }
+  }
+}
+
+export default CulturalPackService;
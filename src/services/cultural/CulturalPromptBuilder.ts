@@ -0,0 +1,178 @@
+import CulturalContextService from './CulturalContextService';
+import {
+  CulturalProfile,
+  CommunicationStyle,
+  FamilyStructure,
+  SpiritualAspect,
+  StigmaLevel,
+  PreferredLanguage
+} from '../../types';
+import { LANGUAGES } from '../../config/languages';
+
+export interface CulturalPromptOptions {
+  // Reply language; defaults to the profile's preferred language
+  language?: PreferredLanguage;
+  // Other languages the person has mixed into their speech this conversation
+  mixedLanguages?: PreferredLanguage[];
+  // Assistant-specific instructions placed before the cultural guidance
+  basePrompt?: string;
+}
+
+const DEFAULT_BASE_PROMPT =
+  'You are a warm, patient companion for an older person who may be living with memory loss. ' +
+  'Respond naturally like a human would in conversation. Keep responses brief and conversational. ' +
+  'Do not use emojis, symbols, asterisks, or any formatting, because your replies are spoken aloud.';
+
+const LANGUAGE_INSTRUCTIONS: Record<PreferredLanguage, string> = {
+  en: 'Reply in New Zealand English.',
+  mi: 'Reply mainly in English, weaving in everyday Te Reo Māori words and greetings naturally. Use correct macrons (for example whānau, tēnā koe).',
+  zh: 'Reply in Simplified Chinese (Mandarin).',
+  sm: 'Reply mainly in English, weaving in everyday Samoan words and greetings naturally, such as talofa and fa\'afetai. Use respectful forms suited to an elder.',
+  to: 'Reply mainly in English, weaving in everyday Tongan words and greetings naturally, such as mālō e lelei and ʻofa atu. Use respectful forms suited to an elder.',
+  hi: 'Reply in Hindi written in Devanagari, using the respectful आप form. Common English words are fine where Hindi speakers would use them.',
+  ko: 'Reply in Korean using polite honorific speech (존댓말) suited to an elder.'
+};
+
+// The voice layer reads these tags (see services/tts/prosody.ts) and strips them from the transcript
+const PROSODY_GUIDANCE =
+  'Voice: you may add <break time="700ms"/> where a thoughtful pause helps, and wrap a word the person should hear ' +
+  'clearly, such as a name or form of address, in <emphasis>...</emphasis>. These tags are not read aloud; use them sparingly.';
+
+const COMMUNICATION_STYLE_GUIDANCE: Record<CommunicationStyle, string> = {
+  indirect_respectful: 'Speak gently and indirectly. Take time to build connection before raising anything difficult, and never rush or correct the person bluntly.',
+  hierarchical_respectful: 'Speak with formal respect suited to an elder. Use polite forms of address and let the person lead the conversation.',
+  direct_medical: 'Be clear and straightforward. Plain, accurate explanations are welcome, delivered kindly.'
+};
+
+const FAMILY_STRUCTURE_GUIDANCE: Record<FamilyStructure, string> = {
+  whanau_centered: 'Whānau (extended family) are central. Ask about whānau, acknowledge their role in care, and frame decisions as shared.',
+  filial_piety_based: 'Children and family carry a duty of care. Honour the family\'s role, protect the person\'s dignity and the family\'s standing.',
+  individual_focused: 'Respect the person\'s independence. Involve family only when the person wants to.',
+  extended_family_centered: 'The wider family, elders and relatives share in care and decisions. Ask after the family, speak of choices as the family\'s, and show respect to elders.'
+};
+
+const SPIRITUAL_GUIDANCE: Record<SpiritualAspect, string> = {
+  journey_based: 'Treat life changes as part of a journey shared with tūpuna (ancestors) and whānau, and acknowledge wairua (spiritual wellbeing).',
+  karma_concepts: 'Be respectful of beliefs about fate, balance and harmony without preaching.',
+  optional: 'Only bring up spiritual topics if the person raises them first.',
+  faith_based: 'Faith and church are often a source of strength. Acknowledge prayer and blessings warmly when the person mentions them, without preaching.'
+};
+
+const STIGMA_GUIDANCE: Record<StigmaLevel, string> = {
+  low: 'Memory changes can be discussed openly.',
+  moderate: 'Mention memory changes only when relevant, and with care.',
+  high: 'Memory problems carry stigma. Avoid naming the condition unless the person does, and never imply the person is a burden.'
+};
+
+const DIRECTNESS_GUIDANCE = {
+  high: 'You may address health topics directly.',
+  medium: 'Approach health topics gradually.',
+  low: 'Approach health topics indirectly and only when invited.'
+};
+
+const TERMINOLOGY_GUIDANCE = {
+  medical: 'Accurate medical terms are acceptable.',
+  euphemistic: 'Prefer soft, euphemistic wording over medical labels.',
+  cultural: 'Prefer culturally grounded words over medical labels.'
+};
+
+// Readable wording for the nuance ids used by CulturalResponseTemplate
+const NUANCE_DESCRIPTIONS: Record<string, string> = {
+  whānau_connection: 'connection with whānau',
+  whānau_centrality: 'whānau at the centre of care',
+  spiritual_acknowledgment: 'acknowledging wairua',
+  journey_perspective: 'life as a journey',
+  communal_support: 'support from the wider community',
+  collective_decision: 'decisions made together',
+  hierarchical_respect: 'respect for elders',
+  formal_address: 'formal forms of address',
+  stigma_awareness: 'awareness of stigma',
+  face_saving: 'saving face',
+  gentle_approach: 'a gentle approach',
+  filial_piety: 'filial piety',
+  family_honor: 'family honour',
+  dignity_preservation: 'preserving dignity',
+  individual_focus: 'the person as an individual',
+  direct_communication: 'direct communication',
+  medical_directness: 'medical directness',
+  individual_autonomy: 'personal autonomy',
+  individual_rights: 'individual rights',
+  personal_autonomy: 'personal autonomy',
+  respect_for_elders: 'respect for elders',
+  faith_acknowledgment: 'acknowledging faith',
+  family_togetherness: 'the family together'
+};
+
+// The voice reads each language's stretches in that language's voice, so mixing in a reply is heard as it should be
+const describeMixing = (language: PreferredLanguage, mixedLanguages: PreferredLanguage[]): string[] => {
+  const others = mixedLanguages.filter(other => other !== language).map(other => LANGUAGES[other].name);
+  if (others.length === 0) {
+    return [];
+  }
+  return [
+    `The person mixes ${others.join(' and ')} into their ${LANGUAGES[language].name} within sentences. ` +
+    'Mirror how they mix: use their words and phrases from those languages where they would, keep the rest in the reply language, ' +
+    'and never translate their words back to them or remark on the switching. Write each language in its own script.'
+  ];
+};
+
+const describeNuance = (nuance: string): string =>
+  NUANCE_DESCRIPTIONS[nuance] || nuance.replace(/_/g, ' ');
+
+/**
+ * Composes the chat system prompt from a user's cultural profile, so the
+ * assistant's tone, terminology and framing of family and illness follow the
+ * same rules CulturalContextService applies to scripted responses.
+ */
+export const buildCulturalSystemPrompt = (
+  profile: Omit<CulturalProfile, 'id'>,
+  options: CulturalPromptOptions = {}
+): string => {
+  const culturalContext = CulturalContextService.getInstance();
+  const language = options.language || profile.preferredLanguage;
+  const strategy = culturalContext.getStigmaHandlingStrategy(profile.culturalGroup);
+
+  const sections: string[] = [
+    options.basePrompt || DEFAULT_BASE_PROMPT,
+    LANGUAGE_INSTRUCTIONS[language] || LANGUAGE_INSTRUCTIONS.en,
+    ...describeMixing(language, options.mixedLanguages || []),
+    PROSODY_GUIDANCE,
+    `Communication style: ${COMMUNICATION_STYLE_GUIDANCE[profile.communicationStyle]}`,
+    `Family: ${FAMILY_STRUCTURE_GUIDANCE[profile.familyStructure]}`,
+    `Spirituality: ${SPIRITUAL_GUIDANCE[profile.spiritualAspects]}`,
+    `Sensitive topics: ${STIGMA_GUIDANCE[profile.stigmaLevel]} ${DIRECTNESS_GUIDANCE[strategy.directness]} ${TERMINOLOGY_GUIDANCE[strategy.terminologyPreference]}`
+  ];
+
+  // The user's own preferred terms override the group's defaults
+  const terminology = { ...culturalContext.getTerminology(profile.culturalGroup), ...profile.preferredTerms };
+  const termRules = Object.entries(terminology)
+    .filter(([term, preferred]) => preferred && preferred !== term.replace(/_/g, ' '))
+    .map(([term, preferred]) => `say "${preferred}" rather than "${term.replace(/_/g, ' ')}"`);
+  if (termRules.length > 0) {
+    sections.push(`Wording: ${termRules.join('; ')}.`);
+  }
+
+  const nuances = Array.from(new Set(
+    culturalContext.getResponseTemplates(profile.culturalGroup).flatMap(template => template.culturalNuances)
+  ));
+  if (nuances.length > 0) {
+    sections.push(`Keep in mind: ${nuances.map(describeNuance).join(', ')}.`);
+  }
+
+  const greetings = culturalContext.getConversationFlow(profile.culturalGroup, 'greeting');
+  const farewells = culturalContext.getConversationFlow(profile.culturalGroup, 'farewell');
+  if (greetings.length > 0) {
+    sections.push(`Familiar greetings: ${greetings.join(', ')}.`);
+  }
+  if (farewells.length > 0) {
+    sections.push(`Familiar farewells: ${farewells.join(', ')}.`);
+  }
+
+  const customNotes = Object.values(profile.customNuances || {})
+    .filter((note): note is string => typeof note === 'string' && note.trim().length > 0);
+  if (customNotes.length > 0) {
+    sections.push(`Personal notes: ${customNotes.join(' ')}`);
+  }
+
+  return sections.join('\n');
+};
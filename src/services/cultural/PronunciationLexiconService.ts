@@ -0,0 +1,229 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PreferredLanguage, PronunciationEntry } from '../../types';
+import { tables } from '../supabase/repositories';
+import { fromPronunciationEntry, toNotificationTemplate, toPronunciationEntry } from '../supabase/mappers';
+import { normalizeLexiconWord, PronunciationLexicon } from '../tts/lexicon';
+import { DEFAULT_MAORI_LEXICON } from '../tts/maoriLexicon';
+import CulturalContextService from './CulturalContextService';
+import CulturalPackService from './CulturalPackService';
+
+export interface LexiconCoverageGap {
+  source: string; // Where the text comes from, e.g. "greeting" or "notification check_in"
+  text: string;
+  missingWords: string[];
+}
+
+interface LexiconSourceText {
+  source: string;
+  text: string;
+  language: PreferredLanguage;
+}
+
+// Called with the words whose pronunciation changed
+type LexiconListener = (words: string[]) => void;
+
+// Variables and honorifics, e.g. {{name}} or {{relation, honorific}}; honorifics are checked on their own
+const TEMPLATE_PLACEHOLDER = /\{\{[^{}]*\}\}/g;
+
+/**
+ * The Te Reo Māori pronunciation lexicon used by every voice without native
+ * Māori: the curated defaults with advisors' corrections on top. Corrections
+ * live in the `pronunciation_lexicon` table, which only admin_users may
+ * write, and are kept in AsyncStorage so they apply offline.
+ */
+class PronunciationLexiconService {
+  private static instance: PronunciationLexiconService;
+  private corrections: Map<string, PronunciationEntry> = new Map();
+  private lexicon: PronunciationLexicon;
+  private listeners: Set<LexiconListener> = new Set();
+  private readonly STORAGE_KEY = 'pronunciation_lexicon';
+
+  private constructor() {
+    this.lexicon = this.buildLexicon();
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): PronunciationLexiconService {
+    if (!PronunciationLexiconService.instance) {
+      PronunciationLexiconService.instance = new PronunciationLexiconService();
+    }
+    return PronunciationLexiconService.instance;
+  }
+
+  public getLexicon(): PronunciationLexicon {
+    return this.lexicon;
+  }
+
+  public getEntries(): PronunciationEntry[] {
+    return this.lexicon.getEntries();
+  }
+
+  // True when an advisor has corrected or added the word
+  public isCorrected(word: string): boolean {
+    return this.corrections.has(normalizeLexiconWord(word));
+  }
+
+  public async canEdit(userId: string): Promise<boolean> {
+    try {
+      return !!(await tables.admin_users.findById(userId));
+    } catch (error) {
+      console.warn('Could not check pronunciation lexicon access:', error);
+      return false;
+    }
+  }
+
+  // Loads advisors' corrections from Supabase
+  public async refresh(): Promise<void> {
+    try {
+      const rows = await tables.pronunciation_lexicon.find();
+      this.setCorrections(rows.map(toPronunciationEntry));
+      await this.saveToStorage();
+    } catch (error) {
+      console.warn('Failed to load pronunciation lexicon corrections:', error);
+    }
+  }
+
+  public async saveEntry(entry: PronunciationEntry, advisorId: string): Promise<PronunciationEntry> {
+    const word = entry.word.normalize('NFC').trim();
+    const respelling = entry.respelling.trim();
+    if (!word || !respelling) {
+      throw new Error('A pronunciation entry needs a word and a respelling');
+    }
+
+    // Keep the spelling already on file so "Kia ora" and "kia ora" stay one entry
+    const existing = this.lexicon.get(word);
+    const row = await tables.pronunciation_lexicon.upsert(fromPronunciationEntry({
+      ...entry,
+      word: existing?.word ?? word,
+      respelling,
+      ipa: entry.ipa?.trim() || undefined,
+      notes: entry.notes?.trim() || undefined,
+      updatedBy: advisorId,
+      updatedAt: new Date().toISOString()
+    }), 'word');
+
+    const saved = toPronunciationEntry(row);
+    this.setCorrections([...this.corrections.values(), saved]);
+    await this.saveToStorage();
+    return saved;
+  }
+
+  // Drops an advisor's correction, restoring the curated default if there is one
+  public async resetEntry(word: string): Promise<void> {
+    const correction = this.corrections.get(normalizeLexiconWord(word));
+    if (!correction) {
+      return;
+    }
+
+    await tables.pronunciation_lexicon.removeWhere({ word: correction.word });
+    this.setCorrections([...this.corrections.values()].filter(entry => entry !== correction));
+    await this.saveToStorage();
+  }
+
+  public subscribe(listener: LexiconListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Māori words in the app's own templates that the lexicon cannot respell:
+   * terminology, greetings, response templates and the notification
+   * templates stored in Supabase. Empty when every template is covered.
+   */
+  public async getTemplateCoverageGaps(): Promise<LexiconCoverageGap[]> {
+    const texts = this.getBuiltInTexts();
+
+    try {
+      const rows = await tables.notification_templates.find({ cultural_group: 'maori' });
+      rows.map(toNotificationTemplate).forEach(template => {
+        texts.push({ source: `notification ${template.type}`, text: template.title, language: template.language });
+        texts.push({ source: `notification ${template.type}`, text: template.message, language: template.language });
+      });
+    } catch (error) {
+      console.warn('Notification templates unavailable for the lexicon coverage check:', error);
+    }
+
+    return this.findGaps(texts);
+  }
+
+  public findGaps(texts: LexiconSourceText[]): LexiconCoverageGap[] {
+    return texts
+      .map(({ source, text, language }) => ({
+        source,
+        text,
+        missingWords: this.lexicon.findMissingWords(text.replace(TEMPLATE_PLACEHOLDER, ' '), language)
+      }))
+      .filter(gap => gap.missingWords.length > 0);
+  }
+
+  private getBuiltInTexts(): LexiconSourceText[] {
+    const culturalContext = CulturalContextService.getInstance();
+    const texts: LexiconSourceText[] = [];
+
+    Object.entries(culturalContext.getTerminology('maori')).forEach(([term, text]) => {
+      texts.push({ source: `terminology ${term}`, text, language: 'mi' });
+    });
+    (['greeting', 'transition', 'support', 'farewell'] as const).forEach(flow => {
+      culturalContext.getConversationFlow('maori', flow).forEach(text => {
+        texts.push({ source: flow, text, language: 'mi' });
+      });
+    });
+    culturalContext.getResponseTemplates('maori').forEach(template => {
+      texts.push({ source: `template ${template.id}`, text: template.template, language: template.language });
+    });
+    Object.entries(CulturalPackService.getInstance().getPack('maori').honorifics || {}).forEach(([relation, text]) => {
+      texts.push({ source: `honorific ${relation}`, text, language: 'mi' });
+    });
+    return texts;
+  }
+
+  private buildLexicon(): PronunciationLexicon {
+    const lexicon = new PronunciationLexicon(DEFAULT_MAORI_LEXICON);
+    this.corrections.forEach(entry => lexicon.set(entry));
+    return lexicon;
+  }
+
+  private setCorrections(entries: PronunciationEntry[]): void {
+    const previous = this.lexicon;
+    this.corrections = new Map(entries.map(entry => [normalizeLexiconWord(entry.word), entry]));
+    this.lexicon = this.buildLexicon();
+
+    const changed = new Set<string>();
+    [...previous.getEntries(), ...this.lexicon.getEntries()].forEach(entry => {
+      const before = previous.get(entry.word);
+      const after = this.lexicon.get(entry.word);
+      if (before?.respelling !== after?.respelling || before?.inEnglish !== after?.inEnglish) {
+        changed.add(normalizeLexiconWord(entry.word));
+      }
+    });
+
+    if (changed.size > 0) {
+      const words = Array.from(changed);
+      this.listeners.forEach(listener => listener(words));
+    }
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      // A refresh that finished first is newer than the stored copy
+      if (stored && this.corrections.size === 0) {
+        this.setCorrections(JSON.parse(stored) as PronunciationEntry[]);
+      }
+    } catch (error) {
+      console.error('Error loading pronunciation lexicon:', error);
+    }
+  }
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(Array.from(this.corrections.values())));
+    } catch (error) {
+      console.error('Error saving pronunciation lexicon:', error);
+    }
+  }
+}
+
+export default PronunciationLexiconService;
@@ -1,10 +1,26 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Buffer } from 'buffer';
+import config from '../../config';
 import { 
+  CULTURAL_GROUPS,
   CulturalGroup, 
   PreferredLanguage, 
   ConversationContext,
   CachedPhrase 
 } from '../../types';
+import {
+  ELEVEN_LABS_API_URL,
+  ElevenLabsTextToSpeechProvider,
+  getDefaultVoiceId
+} from '../tts/providers/ElevenLabsTextToSpeechProvider';
+import { applyCulturalProsody, getCulturalSpeechOptions } from '../tts/culturalSpeech';
+import { parseProsody } from '../tts/prosody';
+import { normalizeLexiconWord } from '../tts/lexicon';
+import PronunciationLexiconService from './PronunciationLexiconService';
+import CulturalPackService from './CulturalPackService';
+import CostMonitor from '../performance/CostMonitor';
+import { hashText } from '../../utils/ids';
 
 export interface CacheUsageAnalytics {
   phraseId: string;
@@ -22,6 +38,23 @@ export interface CacheWarmingConfig {
   preGenerationThreshold: number; // minimum usage count to pre-generate
 }
 
+// Smallest file accepted as real audio; error bodies and truncated downloads are shorter
+const MIN_AUDIO_BYTES = 512;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// MP3 starts with an ID3 tag or an MPEG frame sync
+const isMpegAudio = (bytes: Buffer): boolean => {
+  if (bytes.length < MIN_AUDIO_BYTES) {
+    return false;
+  }
+  const hasId3Tag = bytes.toString('latin1', 0, 3) === 'ID3';
+  const hasFrameSync = bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0;
+  return hasId3Tag || hasFrameSync;
+};
+
+// Same words with different spacing share audio
+const normalizeText = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
 export interface CulturalPhraseSet {
   greetings: {
     morning: string[];
@@ -57,11 +90,27 @@ class SpeechCacheService {
   private readonly CACHE_KEY = 'speech_cache';
   private readonly ANALYTICS_KEY = 'cache_analytics';
   private readonly MAX_CACHE_AGE_DAYS = 30;
+  private readonly MAX_TOTAL_PHRASES = 1000;
+  private readonly AUDIO_DIRECTORY = `${FileSystem.documentDirectory}speech-cache/`;
+  private audioDirectoryReady: Promise<void> | null = null;
+  // Cached audio is keyed by ElevenLabs voice ID, so phrases are generated there rather than through the chain
+  private phraseSynthesizer = new ElevenLabsTextToSpeechProvider({
+    apiUrl: ELEVEN_LABS_API_URL,
+    apiKey: config.elevenLabs.apiKey,
+    model: config.tts.elevenLabs.model,
+    timeoutMs: config.tts.elevenLabs.timeoutMs,
+    costPerCharacter: config.tts.elevenLabs.costPerCharacter
+  });
 
   private constructor() {
     this.initializeCulturalPhraseSets();
     this.initializeWarmingConfigs();
     this.loadCacheFromStorage();
+    PronunciationLexiconService.getInstance().subscribe(words => this.removePhrasesContaining(words));
+    CulturalPackService.getInstance().subscribe(() => {
+      this.initializeCulturalPhraseSets();
+      this.initializeWarmingConfigs();
+    });
   }
 
   public static getInstance(): SpeechCacheService {
@@ -71,86 +120,10 @@ class SpeechCacheService {
     return SpeechCacheService.instance;
   }
 
+  // Phrase sets and priority phrases come from each group's cultural pack
   private initializeCulturalPhraseSets(): void {
-    // Māori phrase set
-    this.culturalPhraseSets.set('maori', {
-      greetings: {
-        morning: ['Ata mārie', 'Morena', 'Kia ora i tēnei ata'],
-        afternoon: ['Kia ora', 'Tēnā koe', 'Kia kaha'],
-        evening: ['Ahiahi mārie', 'Pō mārie', 'Kia ora i tēnei ahiahi'],
-        general: ['Kia ora', 'Tēnā koe', 'Haere mai', 'Nau mai']
-      },
-      responses: {
-        acknowledgments: ['Āe', 'Kāo', 'Tika tonu', 'Pai ana'],
-        comfort: ['Kia kaha', 'Kia maia', 'Kei konei au', 'He tautoko tēnei'],
-        encouragement: ['Kia kaha', 'Kia māia', 'Ka pai', 'Tū māia'],
-        understanding: ['Mārama ana', 'Mōhio ana au', 'Aroha mai', 'Kia aroha']
-      },
-      checkIns: {
-        wellbeing: ['Kei te pēhea koe?', 'He aha tō āhua?', 'Kei te pai koe?'],
-        memory: ['Kei te mahara koe?', 'He aha tō whakamahara?'],
-        mood: ['Kei te koa koe?', 'He aha tō mata?'],
-        needs: ['He aha tāu hiahia?', 'He mea āwhina koe?']
-      },
-      transitions: {
-        topicChange: ['Ā, me kōrero hoki tātou mō...', 'He aha ake...'],
-        ending: ['Haere rā', 'Mā te wā', 'Kia pai tō rā'],
-        clarification: ['Ā?', 'He aha ai?', 'Me whakamārama...']
-      }
-    });
-
-    // Chinese phrase set
-    this.culturalPhraseSets.set('chinese', {
-      greetings: {
-        morning: ['早上好', '您早', '早安'],
-        afternoon: ['下午好', '您好', '午安'],
-        evening: ['晚上好', '您辛苦了', '晚安'],
-        general: ['您好', '你好', '您辛苦了']
-      },
-      responses: {
-        acknowledgments: ['是的', '好的', '我明白', '没问题'],
-        comfort: ['别担心', '我理解', '没关系', '会好起来的'],
-        encouragement: ['加油', '您很棒', '您做得很好', '坚持下去'],
-        understanding: ['我理解', '我懂您的意思', '我明白您的感受']
-      },
-      checkIns: {
-        wellbeing: ['您今天感觉怎么样？', '您身体还好吗？', '您最近如何？'],
-        memory: ['您还记得吗？', '您想起来了吗？'],
-        mood: ['您今天心情好吗？', '您开心吗？'],
-        needs: ['您需要什么帮助吗？', '有什么我可以做的吗？']
-      },
-      transitions: {
-        topicChange: ['我们来聊聊...', '让我们谈谈...'],
-        ending: ['再见', '保重身体', '祝您健康'],
-        clarification: ['请问...', '能否再说一遍？']
-      }
-    });
-
-    // Western phrase set
-    this.culturalPhraseSets.set('western', {
-      greetings: {
-        morning: ['Good morning', 'Morning', 'How did you sleep?'],
-        afternoon: ['Good afternoon', 'How are you today?', 'Hello'],
-        evening: ['Good evening', 'How was your day?', 'Hello there'],
-        general: ['Hello', 'Hi', 'How are you?', 'Nice to see you']
-      },
-      responses: {
-        acknowledgments: ['Yes', 'I understand', 'That makes sense', 'Okay'],
-        comfort: ['I\'m here for you', 'It\'s okay', 'You\'re not alone', 'That\'s understandable'],
-        encouragement: ['You\'re doing great', 'Keep going', 'You can do this', 'That\'s wonderful'],
-        understanding: ['I understand', 'I hear you', 'That must be difficult', 'I see']
-      },
-      checkIns: {
-        wellbeing: ['How are you feeling?', 'How are you today?', 'Are you comfortable?'],
-        memory: ['Do you remember?', 'Can you recall?', 'Does this sound familiar?'],
-        mood: ['How are you feeling emotionally?', 'What\'s your mood like?'],
-        needs: ['What do you need?', 'How can I help?', 'Is there anything I can do?']
-      },
-      transitions: {
-        topicChange: ['Let\'s talk about...', 'Speaking of...', 'I\'d like to discuss...'],
-        ending: ['Take care', 'See you soon', 'Have a good day'],
-        clarification: ['Could you clarify?', 'What do you mean?', 'Can you explain?']
-      }
+    CulturalPackService.getInstance().getPacks().forEach(pack => {
+      this.culturalPhraseSets.set(pack.culturalGroup, pack.phraseSet);
     });
   }
 
@@ -160,22 +133,12 @@ class SpeechCacheService {
       preGenerationThreshold: 3
     };
 
-    this.warmingConfigs.set('maori', {
-      ...baseConfig,
-      culturalGroup: 'maori',
-      priorityPhrases: ['Kia ora', 'Kei te pēhea koe?', 'Kia kaha', 'Haere rā']
-    });
-
-    this.warmingConfigs.set('chinese', {
-      ...baseConfig,
-      culturalGroup: 'chinese',
-      priorityPhrases: ['您好', '您今天感觉怎么样？', '我理解', '再见']
-    });
-
-    this.warmingConfigs.set('western', {
-      ...baseConfig,
-      culturalGroup: 'western',
-      priorityPhrases: ['Hello', 'How are you feeling?', 'I understand', 'Take care']
+    CulturalPackService.getInstance().getPacks().forEach(pack => {
+      this.warmingConfigs.set(pack.culturalGroup, {
+        ...baseConfig,
+        culturalGroup: pack.culturalGroup,
+        priorityPhrases: pack.priorityPhrases
+      });
     });
   }
 
@@ -189,7 +152,11 @@ class SpeechCacheService {
       if (cacheData) {
         const cached = JSON.parse(cacheData);
         Object.entries(cached).forEach(([key, value]) => {
-          this.cache.set(key, value as CachedPhrase);
+          const phrase = value as CachedPhrase;
+          // Entries from before audio was generated point at no real file
+          if (phrase.voiceId) {
+            this.cache.set(key, phrase);
+          }
         });
       }
 
@@ -232,29 +199,62 @@ class SpeechCacheService {
       }
     });
 
-    expiredKeys.forEach(key => {
-      this.cache.delete(key);
-      this.analytics.delete(key);
+    expiredKeys.forEach(key => this.removeEntry(key));
+  }
+
+  // Drops a phrase, its analytics and its audio file
+  private removeEntry(key: string): void {
+    const phrase = this.cache.get(key);
+    this.cache.delete(key);
+    this.analytics.delete(key);
+
+    if (phrase?.audioUrl.startsWith(this.AUDIO_DIRECTORY)) {
+      FileSystem.deleteAsync(phrase.audioUrl, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  // Audio recorded before an advisor corrected a word would keep the old pronunciation
+  private removePhrasesContaining(words: string[]): void {
+    const keys: string[] = [];
+    this.cache.forEach((phrase, key) => {
+      const content = ` ${normalizeLexiconWord(phrase.content.replace(/[^\p{L}\s]/gu, ' '))} `;
+      if (words.some(word => content.includes(` ${word} `))) {
+        keys.push(key);
+      }
     });
+
+    if (keys.length > 0) {
+      keys.forEach(key => this.removeEntry(key));
+      this.saveCacheToStorage();
+    }
   }
 
   public async warmCacheForUser(culturalGroup: CulturalGroup, userId: string): Promise<void> {
-    const config = this.warmingConfigs.get(culturalGroup);
+    const warmingConfig = this.warmingConfigs.get(culturalGroup);
     const phraseSet = this.culturalPhraseSets.get(culturalGroup);
     
-    if (!config || !phraseSet) return;
+    if (!warmingConfig || !phraseSet) return;
+
+    if (!this.phraseSynthesizer.isConfigured()) {
+      console.log('Speech cache warming skipped, ElevenLabs is not configured');
+      return;
+    }
+    if (CostMonitor.isEmergencyMode()) {
+      console.log('Speech cache warming skipped, cost emergency mode is on');
+      return;
+    }
 
     const priorityPhrases = [
-      ...config.priorityPhrases,
+      ...warmingConfig.priorityPhrases,
       ...phraseSet.greetings.general.slice(0, 3),
       ...phraseSet.responses.acknowledgments.slice(0, 2),
       ...phraseSet.checkIns.wellbeing.slice(0, 2)
     ];
 
-    // Pre-generate audio for priority phrases
-    for (const phrase of priorityPhrases) {
-      const cacheKey = this.generateCacheKey(phrase, culturalGroup, 'casual');
-      if (!this.cache.has(cacheKey)) {
+    // Pre-generate audio for priority phrases, replacing any whose file has gone
+    for (const phrase of new Set(priorityPhrases)) {
+      const cached = this.cache.get(this.generateCacheKey(phrase, culturalGroup, 'casual'));
+      if (!cached || !await this.isAudioIntact(cached)) {
         await this.preGeneratePhrase(phrase, culturalGroup, 'casual', userId);
       }
     }
@@ -267,45 +267,111 @@ class SpeechCacheService {
     userId: string
   ): Promise<void> {
     try {
-      // This would integrate with your speech synthesis service
-      const audioUrl = await this.generateSpeechAudio(content, culturalGroup);
+      const language = this.getLanguageForCulture(culturalGroup);
+      const voiceId = getDefaultVoiceId(language);
+      const { audioUrl, audioBytes } = await this.generateSpeechAudio(content, voiceId, language);
+      await CostMonitor.trackTextToSpeechCost(content.length, culturalGroup, {
+        provider: this.phraseSynthesizer.name,
+        costPerCharacter: this.phraseSynthesizer.costPerCharacter
+      });
       
       const cachedPhrase: CachedPhrase = {
         id: this.generateCacheKey(content, culturalGroup, context),
         content,
-        language: this.getLanguageForCulture(culturalGroup),
+        language,
         context,
         culturalProfileId: userId,
         audioUrl,
         lastUsed: new Date(),
-        useCount: 0
+        useCount: 0,
+        voiceId,
+        audioBytes
       };
 
       this.cache.set(cachedPhrase.id, cachedPhrase);
+      this.enforceCacheLimit(culturalGroup, cachedPhrase.id);
       await this.saveCacheToStorage();
     } catch (error) {
       console.error('Error pre-generating phrase:', error);
     }
   }
 
-  private async generateSpeechAudio(_content: string, _culturalGroup: CulturalGroup): Promise<string> {
-    // This is a placeholder - implement integration with your speech synthesis service
-    // Return a URL or file path to the generated audio
-    return `audio_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.mp3`;
+  /**
+   * Synthesises a phrase and writes it under the document directory, which
+   * the OS does not purge, keyed by voice, language and text. The audio is
+   * checked before and after writing so a failed download is never cached.
+   */
+  private async generateSpeechAudio(
+    content: string,
+    voiceId: string,
+    language: PreferredLanguage
+  ): Promise<{ audioUrl: string; audioBytes: number }> {
+    const text = normalizeText(content);
+    const speech = await this.phraseSynthesizer.synthesize(text, {
+      language,
+      voiceId,
+      delivery: getCulturalSpeechOptions(language),
+      prosody: applyCulturalProsody(parseProsody(text), language, {
+        lexicon: PronunciationLexiconService.getInstance().getLexicon()
+      })
+    });
+    if (speech.type !== 'file') {
+      throw new Error(`${speech.provider} did not produce an audio file`);
+    }
+
+    const audioData = await FileSystem.readAsStringAsync(speech.fileUri, {
+      encoding: FileSystem.EncodingType.Base64
+    });
+    const bytes = Buffer.from(audioData, 'base64');
+    if (!isMpegAudio(bytes)) {
+      await FileSystem.deleteAsync(speech.fileUri, { idempotent: true });
+      throw new Error(`Synthesised audio for "${content}" is not a valid MP3 (${bytes.length} bytes)`);
+    }
+
+    await this.ensureAudioDirectory();
+    const audioUrl = this.getAudioUri(content, voiceId, language);
+    await FileSystem.moveAsync({ from: speech.fileUri, to: audioUrl });
+
+    const info = await FileSystem.getInfoAsync(audioUrl);
+    if (!info.exists || info.size !== bytes.length) {
+      await FileSystem.deleteAsync(audioUrl, { idempotent: true });
+      throw new Error(`Cached audio for "${content}" was not written completely`);
+    }
+
+    return { audioUrl, audioBytes: bytes.length };
+  }
+
+  private ensureAudioDirectory(): Promise<void> {
+    if (!this.audioDirectoryReady) {
+      this.audioDirectoryReady = FileSystem.makeDirectoryAsync(this.AUDIO_DIRECTORY, { intermediates: true })
+        .catch(error => {
+          this.audioDirectoryReady = null;
+          throw error;
+        });
+    }
+    return this.audioDirectoryReady;
   }
 
-  private getLanguageForCulture(culturalGroup: CulturalGroup): PreferredLanguage {
-    switch (culturalGroup) {
-      case 'maori': return 'mi';
-      case 'chinese': return 'zh';
-      case 'western': return 'en';
-      default: return 'en';
+  private getAudioUri(content: string, voiceId: string, language: PreferredLanguage): string {
+    return `${this.AUDIO_DIRECTORY}${voiceId}_${language}_${hashText(normalizeText(content))}.mp3`;
+  }
+
+  private async isAudioIntact(phrase: CachedPhrase): Promise<boolean> {
+    try {
+      const info = await FileSystem.getInfoAsync(phrase.audioUrl);
+      return info.exists && !info.isDirectory && info.size === phrase.audioBytes;
+    } catch {
+      return false;
     }
   }
 
+  private getLanguageForCulture(culturalGroup: CulturalGroup): PreferredLanguage {
+    return CulturalPackService.getInstance().getPack(culturalGroup).profile.preferredLanguage;
+  }
+
   private generateCacheKey(content: string, culturalGroup: CulturalGroup, context: ConversationContext): string {
-    const hash = content.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 20);
-    return `${culturalGroup}_${context}_${hash}`;
+    // Hashed rather than stripped to ASCII, so Chinese and macronised phrases get distinct keys
+    return `${culturalGroup}_${context}_${hashText(normalizeText(content))}`;
   }
 
   public async getCachedPhrase(
@@ -325,6 +391,33 @@ class SpeechCacheService {
     return null;
   }
 
+  /**
+   * Local file with pre-generated audio for this text and voice, or null.
+   * Used by `VoiceCommunicationService` before it calls ElevenLabs. A file
+   * that is missing or has changed size is dropped from the cache.
+   */
+  public async getCachedAudio(
+    content: string,
+    voiceId: string,
+    language: PreferredLanguage
+  ): Promise<string | null> {
+    const audioUrl = this.getAudioUri(content, voiceId, language);
+    const cached = Array.from(this.cache.values()).find(phrase => phrase.audioUrl === audioUrl);
+    if (!cached) {
+      return null;
+    }
+
+    if (!await this.isAudioIntact(cached)) {
+      console.warn(`Cached audio for "${content}" is missing or damaged, removing it`);
+      this.removeEntry(cached.id);
+      await this.saveCacheToStorage();
+      return null;
+    }
+
+    await this.trackUsage(cached.id, cached.context);
+    return audioUrl;
+  }
+
   public async cachePhrase(phrase: CachedPhrase): Promise<void> {
     this.cache.set(phrase.id, phrase);
     await this.saveCacheToStorage();
@@ -396,18 +489,42 @@ class SpeechCacheService {
     return Object.values(phrases).flat();
   }
 
+  // Higher is worth keeping: used often, recently and well received
+  private getRetentionValue(phrase: CachedPhrase): number {
+    const analytics = this.analytics.get(phrase.id);
+    const useCount = analytics?.useCount ?? phrase.useCount;
+    const satisfaction = analytics?.userSatisfactionScore ?? 5;
+    const lastUsed = new Date(analytics?.lastUsed ?? phrase.lastUsed).getTime();
+    const daysIdle = Math.max(0, (Date.now() - lastUsed) / DAY_MS);
+
+    return (useCount + 1) * (satisfaction / 5) / (1 + daysIdle / 7);
+  }
+
+  // Removes the least valuable phrases until the cultural group is within its maxCacheSize
+  private enforceCacheLimit(culturalGroup: CulturalGroup, keepId?: string): void {
+    const maxSize = this.warmingConfigs.get(culturalGroup)?.maxCacheSize;
+    if (!maxSize) return;
+
+    const phrases = Array.from(this.cache.values())
+      .filter(phrase => phrase.id.startsWith(`${culturalGroup}_`) && phrase.id !== keepId);
+    const surplus = phrases.length + (keepId ? 1 : 0) - maxSize;
+    if (surplus <= 0) return;
+
+    phrases
+      .sort((a, b) => this.getRetentionValue(a) - this.getRetentionValue(b))
+      .slice(0, surplus)
+      .forEach(phrase => this.removeEntry(phrase.id));
+  }
+
   public async optimizeCache(): Promise<void> {
-    // Remove least used phrases if cache is too large
-    const maxSize = 1000; // Global max cache size
-    if (this.cache.size > maxSize) {
-      const sortedByUsage = Array.from(this.cache.entries())
-        .sort(([, a], [, b]) => a.useCount - b.useCount);
-
-      const toRemove = sortedByUsage.slice(0, this.cache.size - maxSize);
-      toRemove.forEach(([key]) => {
-        this.cache.delete(key);
-        this.analytics.delete(key);
-      });
+    this.warmingConfigs.forEach((_config, culturalGroup) => this.enforceCacheLimit(culturalGroup));
+
+    // Remove least valuable phrases if cache is still too large
+    if (this.cache.size > this.MAX_TOTAL_PHRASES) {
+      Array.from(this.cache.values())
+        .sort((a, b) => this.getRetentionValue(a) - this.getRetentionValue(b))
+        .slice(0, this.cache.size - this.MAX_TOTAL_PHRASES)
+        .forEach(phrase => this.removeEntry(phrase.id));
     }
 
     // Identify phrases that should be pre-generated based on analytics
@@ -429,14 +546,9 @@ class SpeechCacheService {
     let isAppropriate = true;
 
     // Basic cultural appropriateness checks
-    const inappropriateTerms = {
-      maori: ['primitive', 'savage', 'backwards'],
-      chinese: ['yellow', 'oriental', 'chinaman'],
-      western: [] // Add if needed
-    };
+    const { name, sensitivity } = CulturalPackService.getInstance().getPack(culturalGroup);
 
-    const culturalTerms = inappropriateTerms[culturalGroup] || [];
-    culturalTerms.forEach(term => {
+    sensitivity.offensiveTerms.forEach(term => {
       if (content.toLowerCase().includes(term.toLowerCase())) {
         concerns.push(`Contains potentially offensive term: ${term}`);
         isAppropriate = false;
@@ -444,13 +556,11 @@ class SpeechCacheService {
     });
 
     // Check for cultural sensitivity requirements
-    if (culturalGroup === 'chinese' && content.includes('dementia')) {
-      concerns.push('Consider using more sensitive terminology for Chinese culture');
-    }
-
-    if (culturalGroup === 'maori' && !content.includes('whānau') && content.includes('family')) {
-      concerns.push('Consider using "whānau" instead of "family" for Māori context');
-    }
+    Object.entries(sensitivity.preferredTerms).forEach(([term, preferred]) => {
+      if (content.includes(term) && !content.includes(preferred)) {
+        concerns.push(`Consider using "${preferred}" instead of "${term}" for ${name} context`);
+      }
+    });
 
     return { isAppropriate, concerns };
   }
@@ -474,11 +584,9 @@ class SpeechCacheService {
     averageUsage: number;
     topContexts: Array<{ context: ConversationContext; count: number }>;
   } {
-    const phrasesByCulture = {
-      maori: 0,
-      chinese: 0,
-      western: 0
-    };
+    const phrasesByCulture = Object.fromEntries(
+      CULTURAL_GROUPS.map(culturalGroup => [culturalGroup, 0])
+    ) as Record<CulturalGroup, number>;
 
     let totalUsage = 0;
     const contextCounts: Record<string, number> = {};
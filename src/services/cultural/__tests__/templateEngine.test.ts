@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BUNDLED_CULTURAL_PACKS } from '../packs';
+import {
+  getPluralCategory,
+  getTemplateErrors,
+  renderTemplate,
+  replaceTerms,
+  usesHonorifics
+} from '../templateEngine';
+
+const VARIABLES = { name: 'Mere', relation: 'grandmother' };
+
+const render = (template: string, variables: Record<string, string | number | undefined>, language: 'en' | 'zh' | 'hi' = 'en') => {
+  const warnings: string[] = [];
+  const text = renderTemplate(template, variables, { language, onWarning: warning => warnings.push(warning) });
+  return { text, warnings };
+};
+
+describe('shipped response templates', () => {
+  Object.values(BUNDLED_CULTURAL_PACKS).forEach(pack => {
+    pack.responseTemplates.forEach(template => {
+      test(`${template.id} renders with every variable given`, () => {
+        const warnings: string[] = [];
+        const text = renderTemplate(template.template, VARIABLES, {
+          language: template.language,
+          honorifics: pack.honorifics,
+          templateId: template.id,
+          onWarning: warning => warnings.push(warning)
+        });
+
+        assert.deepEqual(getTemplateErrors(template.template), []);
+        assert.deepEqual(warnings, []);
+        assert.doesNotMatch(text, /[{}]/);
+        if (template.template.includes('{{name')) assert.match(text, /Mere/);
+        if (usesHonorifics(template.template)) assert.ok(text.includes(String(pack.honorifics?.grandmother)));
+      });
+
+      test(`${template.id} warns and reads cleanly with no variables`, () => {
+        const warnings: string[] = [];
+        const text = renderTemplate(template.template, {}, {
+          language: template.language,
+          honorifics: pack.honorifics,
+          templateId: template.id,
+          onWarning: warning => warnings.push(warning)
+        });
+
+        const names = [...template.template.matchAll(/\{\{\s*(\w+)/g)].map(match => match[1]);
+        assert.deepEqual(warnings, [...new Set(names)].map(name => `Template ${template.id}: missing variable "${name}"`));
+        assert.doesNotMatch(text, /[{}]|\s{2}|\s[.,!?。，！？]|^[.,，]/);
+      });
+    });
+  });
+
+  test('the Chinese greeting puts the title straight after the name', () => {
+    const greeting = BUNDLED_CULTURAL_PACKS.chinese.responseTemplates[0].template;
+    const honorifics = BUNDLED_CULTURAL_PACKS.chinese.honorifics;
+
+    assert.equal(renderTemplate(greeting, { name: '王', relation: 'grandmother' }, { language: 'zh', honorifics }), '王奶奶，您今天感觉怎么样？');
+    assert.equal(renderTemplate(greeting, { name: '王', relation: 'uncle' }, { language: 'zh', honorifics }), '王叔叔，您今天感觉怎么样？');
+  });
+});
+
+describe('renderTemplate', () => {
+  const VISITS = '{{count, plural, =0 {No visits} one {# visit} other {# visits}}} this week.';
+
+  test('picks the plural branch by the language\'s rules', () => {
+    assert.equal(render(VISITS, { count: 0 }).text, 'No visits this week.');
+    assert.equal(render(VISITS, { count: 1 }).text, '1 visit this week.');
+    assert.equal(render(VISITS, { count: 3 }).text, '3 visits this week.');
+    assert.equal(render(VISITS, { count: 1 }, 'zh').text, '1 visits this week.');
+    assert.equal(render('{{count, plural, one {# din} other {# dino}}}', { count: 0 }, 'hi').text, '0 din');
+  });
+
+  test('gives the plural categories per language', () => {
+    assert.equal(getPluralCategory('en', 1), 'one');
+    assert.equal(getPluralCategory('en', 2), 'other');
+    assert.equal(getPluralCategory('mi', 1), 'one');
+    assert.equal(getPluralCategory('hi', 0), 'one');
+    assert.equal(getPluralCategory('ko', 1), 'other');
+    assert.equal(getPluralCategory('to', 1), 'other');
+  });
+
+  test('warns when a plural count is not a number', () => {
+    const { text, warnings } = render(VISITS, { count: 'several' });
+
+    assert.equal(text, 'several visits this week.');
+    assert.deepEqual(warnings, ['Template: "count" is not a number']);
+  });
+
+  test('picks the select branch, falling back to other', () => {
+    const template = '{{gender, select, female {She} male {He} other {They}}} called.';
+
+    assert.equal(render(template, { gender: 'female' }).text, 'She called.');
+    assert.equal(render(template, { gender: 'male' }).text, 'He called.');
+    assert.equal(render(template, { gender: 'unknown' }).text, 'They called.');
+  });
+
+  test('renders placeholders nested in branches', () => {
+    const template = '{{count, plural, one {{{name}} has # grandchild} other {{{name}} has # grandchildren}}}';
+
+    assert.equal(render(template, { count: 2, name: 'Mere' }).text, 'Mere has 2 grandchildren');
+  });
+
+  test('addresses by the pack\'s honorific and warns when the pack has none', () => {
+    const honorifics = BUNDLED_CULTURAL_PACKS.korean.honorifics;
+    const warnings: string[] = [];
+    const options = { language: 'ko' as const, honorifics, onWarning: (warning: string) => warnings.push(warning) };
+
+    assert.equal(renderTemplate('{{relation, honorific}}, 안녕하세요.', { relation: 'grandmother' }, options), `${honorifics?.grandmother}, 안녕하세요.`);
+    assert.equal(renderTemplate('Hello {{relation, honorific}}.', { relation: 'neighbour' }, options), 'Hello.');
+    assert.deepEqual(warnings, ['Template: no honorific for "neighbour" in ko']);
+  });
+
+  test('closes up the gap a missing variable leaves', () => {
+    const { text, warnings } = render('Hello {{name}}. How are you?', {});
+
+    assert.equal(text, 'Hello. How are you?');
+    assert.deepEqual(warnings, ['Template: missing variable "name"']);
+  });
+
+  test('returns a template with a syntax error as written', () => {
+    const template = 'Hello {{count, plural, one {# visit}}}';
+    const { text, warnings } = render(template, { count: 1 });
+
+    assert.equal(text, template);
+    assert.equal(warnings.length, 1);
+    assert.notDeepEqual(getTemplateErrors(template), []);
+  });
+});
+
+describe('replaceTerms', () => {
+  test('replaces Han terms with no spaces around them', () => {
+    assert.equal(replaceTerms('奶奶说老年痴呆不是病', { 老年痴呆: '认知症' }), '奶奶说认知症不是病');
+    assert.equal(replaceTerms('记忆力下降和老年痴呆', { 老年痴呆: '认知症', 记忆力下降: '记性不好' }), '记性不好和认知症');
+  });
+
+  test('replaces Hangul terms at the start of a word, keeping the particle', () => {
+    assert.equal(replaceTerms('할머니가 치매가 있으세요', { 치매: '기억력 저하' }), '할머니가 기억력 저하가 있으세요');
+    assert.equal(replaceTerms('노인성치매 검사', { 치매: '기억력 저하' }), '노인성치매 검사');
+  });
+
+  test('replaces English terms with a pack\'s wording in one pass', () => {
+    const terms = BUNDLED_CULTURAL_PACKS.chinese.terminology;
+
+    assert.equal(replaceTerms('Dementia and memory loss are part of the journey.', terms), '痴呆症 and 记忆丧失 are part of the 旅程.');
+    assert.equal(replaceTerms('Family support matters.', BUNDLED_CULTURAL_PACKS.korean.terminology), '가족 도움 matters.');
+  });
+
+  test('matches whole words in Māori and keeps a capital', () => {
+    const terms = BUNDLED_CULTURAL_PACKS.maori.terminology;
+
+    assert.equal(replaceTerms('Family comes first; families too.', terms), 'Whānau comes first; families too.');
+    assert.equal(replaceTerms('Talk to your whānau', { whānau: 'family' }), 'Talk to your family');
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  CommunicationStyle,
+  ConversationContext,
+  CulturalGroup,
+  CulturalNotificationConfig,
+  CulturalProfile,
+  FamilyStructure,
+  NotificationChannel,
+  NotificationTemplate,
+  NotificationType,
+  SpiritualAspect,
+  StigmaLevel
+} from '../../types';
+import { CULTURAL_GROUPS, PREFERRED_LANGUAGES } from '../../types/cultural';
+import type { CulturalResponseTemplate } from './CulturalContextService';
+import type { CulturalPhraseSet } from './SpeechCacheService';
+import { getTemplateErrors, KINSHIP_RELATIONS, KinshipRelation, usesHonorifics } from './templateEngine';
+
+// Bumped when the shape changes; packs written for another version are rejected
+export const CULTURAL_PACK_SCHEMA_VERSION = 2;
+
+/**
+ * Everything the app says or assumes about one cultural group, as JSON that
+ * advisors can edit. Packs ship in the app bundle and can be replaced from
+ * Supabase by a pack with a higher `version`.
+ */
+export interface CulturalPack {
+  schemaVersion: number;
+  culturalGroup: CulturalGroup;
+  version: number; // Whole number, raised with every published change
+  updatedAt?: string;
+  notes?: string;
+  name: string; // As shown in settings and staff screens, e.g. Māori
+  profile: Omit<CulturalProfile, 'id' | 'culturalGroup' | 'customNuances'>;
+  terminology: Record<string, string>; // Generic term -> the group's wording, e.g. dementia -> mate wareware
+  responseTemplates: Omit<CulturalResponseTemplate, 'culturalGroup'>[]; // See templateEngine.ts for the placeholder syntax
+  honorifics?: Partial<Record<KinshipRelation, string>>; // Forms of address for {{relation, honorific}}, e.g. grandmother -> 奶奶
+  conversationFlow: Record<ConversationFlowStage, string[]>;
+  phraseSet: CulturalPhraseSet;
+  priorityPhrases: string[]; // Generated into the speech cache first
+  notificationTemplates: Omit<NotificationTemplate, 'id' | 'culturalGroup'>[];
+  notificationDelivery: Omit<CulturalNotificationConfig, 'culturalGroup'>;
+  stigmaHandling: StigmaHandlingStrategy;
+  presentation: CulturalPresentation;
+  care: CulturalCareGuidance;
+  sensitivity: {
+    offensiveTerms: string[]; // Flagged wherever they appear in generated speech
+    preferredTerms: Record<string, string>; // English word -> the wording to use in English text, e.g. family -> whānau
+  };
+}
+
+export type ConversationFlowStage = 'greeting' | 'transition' | 'support' | 'farewell';
+
+export interface StigmaHandlingStrategy {
+  directness: 'high' | 'medium' | 'low';
+  familyInvolvement: 'required' | 'recommended' | 'optional';
+  terminologyPreference: 'medical' | 'euphemistic' | 'cultural';
+}
+
+export interface CulturalColors {
+  primary: string;
+  secondary: string;
+  accent: string;
+  background: string;
+}
+
+// How screens show the group; icon names are from the vector icon sets the screens already use
+export interface CulturalPresentation {
+  icon: string; // MaterialIcons, beside a person on caregiver dashboards
+  processingIndicator: {
+    icon: string; // MaterialCommunityIcons, turned while a reply is prepared
+    spinMs: number; // One full turn
+  };
+  dashboardColor?: string; // Left out to use the theme colour
+  colors: CulturalColors;
+  highContrastAccent: string; // High contrast keeps black on white and only the accent varies
+  greeting: string; // Shown to family and in notifications, e.g. Kia ora
+  familyTerm: string; // In the group's own language, e.g. 家人
+}
+
+// Notes for caregivers and staff, in English
+export interface CulturalCareGuidance {
+  considerations: string[];
+  familyInvolvement: string;
+  communication: string;
+  spiritualNeeds: string;
+  familyGuidance: string; // When family should be brought into a conversation
+  privacyGuidance: string; // How information about the person is shared
+  privacy: {
+    title: string;
+    description: string;
+    levels: Record<PrivacyLevel, string>;
+  };
+}
+
+export type PrivacyLevel = 'open' | 'family-only' | 'private';
+
+// Runtime copies of the unions a pack may use, checked against the types they mirror
+const COMMUNICATION_STYLES: readonly CommunicationStyle[] = ['indirect_respectful', 'hierarchical_respectful', 'direct_medical'];
+const FAMILY_STRUCTURES: readonly FamilyStructure[] = ['whanau_centered', 'filial_piety_based', 'individual_focused', 'extended_family_centered'];
+const SPIRITUAL_ASPECTS: readonly SpiritualAspect[] = ['journey_based', 'karma_concepts', 'optional', 'faith_based'];
+const STIGMA_LEVELS: readonly StigmaLevel[] = ['low', 'moderate', 'high'];
+const CONTEXTS: readonly ConversationContext[] = ['casual', 'medical', 'family', 'memory', 'emergency'];
+const EMOTIONAL_TONES: readonly CulturalResponseTemplate['emotionalTone'][] = ['supportive', 'respectful', 'direct', 'gentle'];
+const INVOLVEMENT_LEVELS: readonly CulturalResponseTemplate['familyInvolvement'][] = ['high', 'medium', 'low'];
+const FLOW_STAGES: readonly ConversationFlowStage[] = ['greeting', 'transition', 'support', 'farewell'];
+const NOTIFICATION_TYPES: readonly NotificationType[] = [
+  'check_in',
+  'medication_reminder',
+  'appointment',
+  'emergency',
+  'family_update',
+  'wellness_check',
+  'cultural_celebration',
+  'caregiver_alert'
+];
+const CHANNELS: readonly NotificationChannel[] = ['push', 'sms', 'email', 'voice_call', 'in_app'];
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+const CONSIDERATIONS: readonly (keyof CulturalNotificationConfig['specialConsiderations'])[] = [
+  'familyInvolvement',
+  'indirectCommunication',
+  'hierarchicalApproach',
+  'spiritualSensitivity'
+];
+const DIRECTNESS: readonly StigmaHandlingStrategy['directness'][] = ['high', 'medium', 'low'];
+const FAMILY_INVOLVEMENT: readonly StigmaHandlingStrategy['familyInvolvement'][] = ['required', 'recommended', 'optional'];
+const TERMINOLOGY_PREFERENCES: readonly StigmaHandlingStrategy['terminologyPreference'][] = ['medical', 'euphemistic', 'cultural'];
+const COLOR_ROLES: readonly (keyof CulturalColors)[] = ['primary', 'secondary', 'accent', 'background'];
+const PRIVACY_LEVELS: readonly PrivacyLevel[] = ['open', 'family-only', 'private'];
+const PHRASE_SET_SHAPE: { [K in keyof CulturalPhraseSet]: readonly (keyof CulturalPhraseSet[K])[] } = {
+  greetings: ['morning', 'afternoon', 'evening', 'general'],
+  responses: ['acknowledgments', 'comfort', 'encouragement', 'understanding'],
+  checkIns: ['wellbeing', 'memory', 'mood', 'needs'],
+  transitions: ['topicChange', 'ending', 'clarification']
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Collects what is wrong with a pack, one message per problem prefixed with
+ * its path, e.g. `responseTemplates[2].context: must be one of ...`. An
+ * empty list means the value is a usable CulturalPack.
+ */
+export const validateCulturalPack = (value: unknown): string[] => {
+  const errors: string[] = [];
+
+  const text = (path: string, field: unknown): void => {
+    if (!isText(field)) errors.push(`${path}: must be a non-empty string`);
+  };
+  const texts = (path: string, field: unknown): void => {
+    if (!Array.isArray(field)) {
+      errors.push(`${path}: must be an array of strings`);
+      return;
+    }
+    field.forEach((item, i) => text(`${path}[${i}]`, item));
+  };
+  const oneOf = <T extends string>(path: string, field: unknown, allowed: readonly T[]): void => {
+    if (!allowed.includes(field as T)) errors.push(`${path}: must be one of ${allowed.join(', ')}`);
+  };
+  const object = (path: string, field: unknown): field is Record<string, unknown> => {
+    if (isObject(field)) return true;
+    errors.push(`${path}: must be an object`);
+    return false;
+  };
+  const color = (path: string, field: unknown): void => {
+    if (typeof field !== 'string' || !HEX_COLOR.test(field)) errors.push(`${path}: must be a colour such as #2E7D32`);
+  };
+  const list = (path: string, field: unknown): field is unknown[] => {
+    if (Array.isArray(field)) return true;
+    errors.push(`${path}: must be an array`);
+    return false;
+  };
+
+  if (!object('pack', value)) {
+    return errors;
+  }
+
+  if (value.schemaVersion !== CULTURAL_PACK_SCHEMA_VERSION) {
+    errors.push(`schemaVersion: must be ${CULTURAL_PACK_SCHEMA_VERSION}`);
+    return errors;
+  }
+  oneOf('culturalGroup', value.culturalGroup, CULTURAL_GROUPS);
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    errors.push('version: must be a whole number of at least 1');
+  }
+  if (value.updatedAt !== undefined) text('updatedAt', value.updatedAt);
+  if (value.notes !== undefined) text('notes', value.notes);
+  text('name', value.name);
+
+  if (object('profile', value.profile)) {
+    const profile = value.profile;
+    oneOf('profile.preferredLanguage', profile.preferredLanguage, PREFERRED_LANGUAGES);
+    if (object('profile.preferredTerms', profile.preferredTerms)) {
+      text('profile.preferredTerms.dementia', profile.preferredTerms.dementia);
+      Object.entries(profile.preferredTerms).forEach(([term, wording]) => text(`profile.preferredTerms.${term}`, wording));
+    }
+    oneOf('profile.communicationStyle', profile.communicationStyle, COMMUNICATION_STYLES);
+    oneOf('profile.familyStructure', profile.familyStructure, FAMILY_STRUCTURES);
+    oneOf('profile.spiritualAspects', profile.spiritualAspects, SPIRITUAL_ASPECTS);
+    oneOf('profile.stigmaLevel', profile.stigmaLevel, STIGMA_LEVELS);
+  }
+
+  if (object('terminology', value.terminology)) {
+    Object.entries(value.terminology).forEach(([term, wording]) => text(`terminology.${term}`, wording));
+  }
+
+  if (list('responseTemplates', value.responseTemplates)) {
+    const ids = new Set<string>();
+    value.responseTemplates.forEach((template, i) => {
+      const path = `responseTemplates[${i}]`;
+      if (!object(path, template)) return;
+      text(`${path}.id`, template.id);
+      if (typeof template.id === 'string' && ids.has(template.id)) {
+        errors.push(`${path}.id: "${template.id}" is used more than once`);
+      }
+      ids.add(String(template.id));
+      oneOf(`${path}.context`, template.context, CONTEXTS);
+      oneOf(`${path}.language`, template.language, PREFERRED_LANGUAGES);
+      text(`${path}.template`, template.template);
+      if (isText(template.template)) {
+        getTemplateErrors(template.template).forEach(error => errors.push(`${path}.template: ${error}`));
+        if (usesHonorifics(template.template) && !isObject(value.honorifics)) {
+          errors.push(`${path}.template: uses an honorific but the pack has no honorifics`);
+        }
+      }
+      oneOf(`${path}.emotionalTone`, template.emotionalTone, EMOTIONAL_TONES);
+      oneOf(`${path}.familyInvolvement`, template.familyInvolvement, INVOLVEMENT_LEVELS);
+      texts(`${path}.culturalNuances`, template.culturalNuances);
+    });
+  }
+
+  if (value.honorifics !== undefined && object('honorifics', value.honorifics)) {
+    Object.entries(value.honorifics).forEach(([relation, title]) => {
+      oneOf(`honorifics.${relation}`, relation, KINSHIP_RELATIONS);
+      text(`honorifics.${relation}`, title);
+    });
+  }
+
+  if (object('conversationFlow', value.conversationFlow)) {
+    const flow = value.conversationFlow;
+    FLOW_STAGES.forEach(stage => texts(`conversationFlow.${stage}`, flow[stage]));
+  }
+
+  if (object('phraseSet', value.phraseSet)) {
+    const phraseSet = value.phraseSet;
+    (Object.keys(PHRASE_SET_SHAPE) as (keyof CulturalPhraseSet)[]).forEach(category => {
+      const phrases = phraseSet[category];
+      if (!object(`phraseSet.${category}`, phrases)) return;
+      PHRASE_SET_SHAPE[category].forEach(kind => texts(`phraseSet.${category}.${String(kind)}`, phrases[kind as string]));
+    });
+  }
+
+  texts('priorityPhrases', value.priorityPhrases);
+
+  if (list('notificationTemplates', value.notificationTemplates)) {
+    value.notificationTemplates.forEach((template, i) => {
+      const path = `notificationTemplates[${i}]`;
+      if (!object(path, template)) return;
+      oneOf(`${path}.type`, template.type, NOTIFICATION_TYPES);
+      oneOf(`${path}.language`, template.language, PREFERRED_LANGUAGES);
+      text(`${path}.title`, template.title);
+      text(`${path}.message`, template.message);
+      if (template.culturalContext !== undefined) text(`${path}.culturalContext`, template.culturalContext);
+    });
+  }
+
+  if (object('notificationDelivery', value.notificationDelivery)) {
+    const delivery = value.notificationDelivery;
+    if (object('notificationDelivery.respectfulHours', delivery.respectfulHours)) {
+      const { start, end } = delivery.respectfulHours;
+      const validStart = typeof start === 'string' && TIME_OF_DAY.test(start);
+      const validEnd = typeof end === 'string' && TIME_OF_DAY.test(end);
+      if (!validStart) errors.push('notificationDelivery.respectfulHours.start: must be a time such as 08:00');
+      if (!validEnd) errors.push('notificationDelivery.respectfulHours.end: must be a time such as 19:00');
+      if (validStart && validEnd && start >= end) {
+        errors.push('notificationDelivery.respectfulHours: start must be before end');
+      }
+    }
+    if (list('notificationDelivery.avoidDays', delivery.avoidDays)) {
+      delivery.avoidDays.forEach((day, i) => oneOf(`notificationDelivery.avoidDays[${i}]`, day, DAYS));
+    }
+    if (object('notificationDelivery.specialConsiderations', delivery.specialConsiderations)) {
+      const considerations = delivery.specialConsiderations;
+      CONSIDERATIONS.forEach(consideration => {
+        if (typeof considerations[consideration] !== 'boolean') {
+          errors.push(`notificationDelivery.specialConsiderations.${consideration}: must be true or false`);
+        }
+      });
+    }
+    if (list('notificationDelivery.preferredChannels', delivery.preferredChannels)) {
+      if (delivery.preferredChannels.length === 0) errors.push('notificationDelivery.preferredChannels: must name at least one channel');
+      delivery.preferredChannels.forEach((channel, i) => oneOf(`notificationDelivery.preferredChannels[${i}]`, channel, CHANNELS));
+    }
+    if (typeof delivery.escalationDelay !== 'number' || !(delivery.escalationDelay > 0)) {
+      errors.push('notificationDelivery.escalationDelay: must be a number of minutes above 0');
+    }
+  }
+
+  if (object('stigmaHandling', value.stigmaHandling)) {
+    const strategy = value.stigmaHandling;
+    oneOf('stigmaHandling.directness', strategy.directness, DIRECTNESS);
+    oneOf('stigmaHandling.familyInvolvement', strategy.familyInvolvement, FAMILY_INVOLVEMENT);
+    oneOf('stigmaHandling.terminologyPreference', strategy.terminologyPreference, TERMINOLOGY_PREFERENCES);
+  }
+
+  if (object('presentation', value.presentation)) {
+    const presentation = value.presentation;
+    text('presentation.icon', presentation.icon);
+    if (object('presentation.processingIndicator', presentation.processingIndicator)) {
+      const indicator = presentation.processingIndicator;
+      text('presentation.processingIndicator.icon', indicator.icon);
+      if (!Number.isInteger(indicator.spinMs) || (indicator.spinMs as number) <= 0) {
+        errors.push('presentation.processingIndicator.spinMs: must be a whole number of milliseconds');
+      }
+    }
+    if (presentation.dashboardColor !== undefined) color('presentation.dashboardColor', presentation.dashboardColor);
+    if (object('presentation.colors', presentation.colors)) {
+      const colors = presentation.colors;
+      COLOR_ROLES.forEach(role => color(`presentation.colors.${role}`, colors[role]));
+    }
+    color('presentation.highContrastAccent', presentation.highContrastAccent);
+    text('presentation.greeting', presentation.greeting);
+    text('presentation.familyTerm', presentation.familyTerm);
+  }
+
+  if (object('care', value.care)) {
+    const care = value.care;
+    texts('care.considerations', care.considerations);
+    text('care.familyInvolvement', care.familyInvolvement);
+    text('care.communication', care.communication);
+    text('care.spiritualNeeds', care.spiritualNeeds);
+    text('care.familyGuidance', care.familyGuidance);
+    text('care.privacyGuidance', care.privacyGuidance);
+    if (object('care.privacy', care.privacy)) {
+      const privacy = care.privacy;
+      text('care.privacy.title', privacy.title);
+      text('care.privacy.description', privacy.description);
+      if (object('care.privacy.levels', privacy.levels)) {
+        const levels = privacy.levels;
+        PRIVACY_LEVELS.forEach(level => text(`care.privacy.levels.${level}`, levels[level]));
+      }
+    }
+  }
+
+  if (object('sensitivity', value.sensitivity)) {
+    const sensitivity = value.sensitivity;
+    texts('sensitivity.offensiveTerms', sensitivity.offensiveTerms);
+    if (object('sensitivity.preferredTerms', sensitivity.preferredTerms)) {
+      Object.entries(sensitivity.preferredTerms).forEach(([term, wording]) => text(`sensitivity.preferredTerms.${term}`, wording));
+    }
+  }
+
+  return errors;
+};
@@ -1,15 +1,35 @@
 import CulturalContextService from './CulturalContextService';
 import SpeechCacheService from './SpeechCacheService';
+import PronunciationLexiconService from './PronunciationLexiconService';
+import CulturalPackService from './CulturalPackService';
 
 export { default as CulturalContextService } from './CulturalContextService';
 export { default as SpeechCacheService } from './SpeechCacheService';
+export { default as PronunciationLexiconService } from './PronunciationLexiconService';
+export { default as CulturalPackService } from './CulturalPackService';
+export { validateCulturalPack, CULTURAL_PACK_SCHEMA_VERSION } from './culturalPack';
+export { BUNDLED_CULTURAL_PACKS } from './packs';
+export { buildCulturalSystemPrompt } from './CulturalPromptBuilder';
+export { identifyLanguages } from './languageIdentification';
+export { renderTemplate, replaceTerms, getTemplateErrors, TemplateSyntaxError, KINSHIP_RELATIONS } from './templateEngine';
 
 export type {
   CulturalResponseTemplate,
   CulturalDetectionMetrics,
+  CulturalDetectionResult,
+  CulturalProfileSuggestion,
+  CulturalSuggestionRespondent,
   CulturalAdaptationConfig
 } from './CulturalContextService';
 
+export type { CulturalPromptOptions } from './CulturalPromptBuilder';
+
+export type { LexiconCoverageGap } from './PronunciationLexiconService';
+
+export type { CulturalPack, ConversationFlowStage } from './culturalPack';
+
+export type { KinshipRelation, PluralCategory, TemplateRenderOptions, TemplateVariables } from './templateEngine';
+
 export type {
   CacheUsageAnalytics,
   CacheWarmingConfig,
@@ -19,13 +39,18 @@ export type {
 // Convenience function to get singleton instances
 export const getCulturalServices = () => ({
   culturalContext: CulturalContextService.getInstance(),
-  speechCache: SpeechCacheService.getInstance()
+  speechCache: SpeechCacheService.getInstance(),
+  pronunciationLexicon: PronunciationLexiconService.getInstance(),
+  culturalPacks: CulturalPackService.getInstance()
 });
 
 // Cultural service initialization helper
 export const initializeCulturalServices = async (userId: string, _culturalGroup: string) => {
   const services = getCulturalServices();
   
+  // Advisors' published packs and pronunciation corrections, before any phrase audio is generated
+  await Promise.all([services.culturalPacks.refresh(), services.pronunciationLexicon.refresh()]);
+
   // Load user's cultural profile
   const profile = await services.culturalContext.getCulturalProfile(userId);
   
@@ -0,0 +1,238 @@
+import { LanguageSegment, PreferredLanguage } from '../../types';
+
+// Characters of a script, counted per character because the script has no spaces between words
+const SCRIPT_CHARACTERS: Array<{ language: PreferredLanguage; pattern: RegExp; charactersPerWord: number }> = [
+  { language: 'zh', pattern: /\p{Script=Han}/gu, charactersPerWord: 1.5 },
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu, charactersPerWord: 2.5 }
+];
+
+const DEVANAGARI_WORD = /\p{Script=Devanagari}/u;
+
+/**
+ * Short, common words that mark each Latin-script language. A word in
+ * several lists is shared between them, e.g. "ko" between Māori and Tongan.
+ * Words that are also common English ("a", "i", "he") are left out.
+ */
+const FUNCTION_WORDS: Partial<Record<PreferredLanguage, string[]>> = {
+  en: [
+    'the', 'and', 'is', 'are', 'was', 'you', 'my', 'to', 'of', 'it', 'that', 'have', 'what', 'how',
+    'with', 'for', 'this', 'not', 'me', 'we', 'they', 'do', 'can', 'please', 'thank', 'today', 'feel',
+    'your', 'our', 'she', 'her', 'his', 'in', 'on', 'at', 'be', 'been', 'were', 'has', 'had', 'will',
+    'would', 'but', 'if', 'so', 'there', 'about', 'very', 'well', 'hope', 'just', 'going'
+  ],
+  mi: [
+    'te', 'ngā', 'nga', 'kei', 'kua', 'ko', 'koe', 'ahau', 'au', 'tēnā', 'tena', 'koutou', 'kia', 'ora',
+    'whānau', 'whanau', 'kōrero', 'korero', 'pēhea', 'pehea', 'hoki', 'tino', 'pai', 'nō', 'nā', 'mō',
+    'ināianei', 'aroha', 'mokopuna', 'kaumātua', 'engari', 'mātou', 'tātou', 'rātou', 'wairua'
+  ],
+  sm: [
+    'talofa', 'lava', "fa'afetai", 'faafetai', 'le', 'ma', 'ia', 'ou', "o'u", 'manuia', 'lelei', "'aiga",
+    'aiga', 'soifua', 'alofa', "fa'amolemole", 'tulou', 'matua', "e'e", 'ua', 'lou', 'sa'
+  ],
+  to: [
+    "'oku", 'oku', 'mālō', 'malo', 'lelei', "'a", 'ko', 'koe', 'kiate', 'fakamolemole', "'ofa", 'ofa',
+    'fānau', 'fanau', 'famili', 'hoku', 'hono', 'eni', "'ikai", 'ikai', 'tangata', 'fefe', 'hā', 'pē', "'aupito"
+  ]
+};
+
+// Vowels with a macron, used in written Māori and, less often, Samoan and Tongan
+const MACRON = /[āēīōū]/u;
+
+const WORD_LANGUAGES = Object.entries(FUNCTION_WORDS).reduce<Map<string, PreferredLanguage[]>>((words, [language, list]) => {
+  list.forEach(word => words.set(word, [...(words.get(word) || []), language as PreferredLanguage]));
+  return words;
+}, new Map());
+
+// Recognisers write the glottal stop as ʻ, ‘ or ’; the word lists use '
+const normaliseWord = (word: string): string => word.toLowerCase().normalize('NFC').replace(/[ʻ‘’`]/g, "'");
+
+/**
+ * Languages a Latin-script or Devanagari word may belong to: several for a
+ * word the lists share, none for a word they do not know.
+ */
+const getWordLanguages = (raw: string): PreferredLanguage[] => {
+  // A leading ' may be a glottal stop ('oku) or an opening quote, so both readings are tried
+  const word = normaliseWord(raw).replace(/^'+/, "'").replace(/'+$/, '');
+  if (!word) return [];
+  if (DEVANAGARI_WORD.test(word)) return ['hi'];
+
+  const languages = WORD_LANGUAGES.get(word) || WORD_LANGUAGES.get(word.replace(/^'/, ''));
+  if (languages) return languages;
+  return MACRON.test(word) ? ['mi'] : [];
+};
+
+/**
+ * Reads which languages a piece of text is written in: Han characters,
+ * Hangul and Devanagari by their script, and Latin-script languages by
+ * their function words and macrons. Returns roughly how many words of each
+ * language it found, as evidence for cultural detection.
+ */
+export const identifyLanguages = (text: string): Partial<Record<PreferredLanguage, number>> => {
+  const counts: Partial<Record<PreferredLanguage, number>> = {};
+  const add = (language: PreferredLanguage, words: number) => {
+    counts[language] = (counts[language] || 0) + words;
+  };
+
+  SCRIPT_CHARACTERS.forEach(({ language, pattern, charactersPerWord }) => {
+    const characters = text.match(pattern);
+    if (characters) {
+      add(language, characters.length / charactersPerWord);
+    }
+  });
+
+  normaliseWord(text).split(/[^\p{L}\p{M}']+/u).forEach(word => {
+    const languages = getWordLanguages(word);
+    languages.forEach(language => add(language, 1 / languages.length));
+  });
+
+  return counts;
+};
+
+// Han and Hangul runs, other words (with glottal stops), and everything between them
+const TOKEN_PATTERN = /\p{Script=Han}+|\p{Script=Hangul}+|(?:(?![\p{Script=Han}\p{Script=Hangul}])[\p{L}\p{M}'ʻ‘’`])+|[^\p{L}\p{M}'ʻ‘’`]+/gu;
+
+interface Token {
+  text: string;
+  isWord: boolean;
+  script: string;
+  language: PreferredLanguage | null; // Null until worked out from the words around it
+}
+
+const LATIN_LANGUAGES: PreferredLanguage[] = ['en', 'mi', 'sm', 'to'];
+// Where a sentence or clause ends; an unknown word belongs with the side it is not cut off from
+const BOUNDARY = /[.!?,;:。！？，、]/u;
+
+const getScript = (text: string): string => {
+  if (/\p{Script=Han}/u.test(text)) return 'Han';
+  if (/\p{Script=Hangul}/u.test(text)) return 'Hangul';
+  if (/\p{Script=Devanagari}/u.test(text)) return 'Devanagari';
+  return 'Latin';
+};
+
+const getTokenLanguage = (text: string, candidates: PreferredLanguage[]): PreferredLanguage | null => {
+  if (/\p{Script=Han}/u.test(text)) return candidates.includes('zh') ? 'zh' : null;
+  if (/\p{Script=Hangul}/u.test(text)) return candidates.includes('ko') ? 'ko' : null;
+  const languages = getWordLanguages(text).filter(language => candidates.includes(language));
+  return languages.length === 1 ? languages[0] : null;
+};
+
+/**
+ * Splits text into stretches of one language, for a message that mixes
+ * them ("Kia ora, I went to see my mokopuna today"). Only the candidate
+ * languages are considered, e.g. the ones this conversation uses, so a
+ * stray "le" in English is not read as Samoan. A word no list knows takes
+ * the language of the known words in the same script on both sides of it,
+ * siding with the one it shares a clause with when they differ; failing
+ * that, the text's main language in that script.
+ */
+export const segmentLanguages = (text: string, candidates: PreferredLanguage[]): LanguageSegment[] => {
+  const tokens: Token[] = (text.match(TOKEN_PATTERN) || []).map(part => {
+    const isWord = /[\p{L}]/u.test(part);
+    return { text: part, isWord, script: getScript(part), language: isWord ? getTokenLanguage(part, candidates) : null };
+  });
+  const main = getMainLanguage(tokens, candidates);
+  const mainLatin = getMainLanguage(tokens, candidates.filter(language => LATIN_LANGUAGES.includes(language)));
+
+  // Decided from the known words only, so one guess does not lead to the next
+  const known = tokens.map(token => token.language);
+  tokens.forEach((token, index) => {
+    if (!token.isWord || known[index]) return;
+    const fallback = token.script === 'Latin' && candidates.some(language => LATIN_LANGUAGES.includes(language)) ? mainLatin : main;
+    const sameScript = (other: number) => tokens[other].isWord && tokens[other].script === token.script && known[other];
+    const beforeIndex = tokens.map((_, other) => other).slice(0, index).reverse().find(sameScript);
+    const afterIndex = tokens.map((_, other) => other).slice(index + 1).find(sameScript);
+    const before = beforeIndex !== undefined ? known[beforeIndex] : null;
+    const after = afterIndex !== undefined ? known[afterIndex] : null;
+    const crosses = (from: number, to: number) => tokens.slice(from + 1, to).some(other => !other.isWord && BOUNDARY.test(other.text));
+
+    if (before && after && before !== after) {
+      const cutFromBefore = crosses(beforeIndex as number, index);
+      const cutFromAfter = crosses(index, afterIndex as number);
+      token.language = cutFromBefore === cutFromAfter ? fallback : (cutFromBefore ? after : before);
+    } else {
+      // With known words on one side only, one loanword ("your whānau sounds...") does not carry the rest
+      token.language = before && after ? before : fallback;
+    }
+  });
+
+  // Spaces and punctuation stay with the stretch before them
+  return tokens.reduce<LanguageSegment[]>((segments, token) => {
+    const last = segments[segments.length - 1];
+    const language = token.language || (last ? last.language : main);
+    if (last && last.language === language) {
+      last.text += token.text;
+    } else {
+      segments.push({ text: token.text, language });
+    }
+    return segments;
+  }, []).filter((segment, index, segments) => segment.text.trim() || segments.length === 1);
+};
+
+// The candidate with the most words, English on a tie since it is what most users mix into
+const getMainLanguage = (tokens: Token[], candidates: PreferredLanguage[]): PreferredLanguage => {
+  const counts = tokens.reduce<Partial<Record<PreferredLanguage, number>>>((total, token) => {
+    if (token.language) {
+      total[token.language] = (total[token.language] || 0) + 1;
+    }
+    return total;
+  }, {});
+  return candidates.reduce((best, language) => {
+    const difference = (counts[language] || 0) - (counts[best] || 0);
+    return difference > 0 || (difference === 0 && language === 'en') ? language : best;
+  }, candidates[0] || 'en');
+};
+
+// The language most of a message is in, by length
+export const getMainSegmentLanguage = (segments: LanguageSegment[], fallback: PreferredLanguage): PreferredLanguage => {
+  const lengths = segments.reduce<Partial<Record<PreferredLanguage, number>>>((total, segment) => {
+    total[segment.language] = (total[segment.language] || 0) + segment.text.trim().length;
+    return total;
+  }, {});
+  return (Object.entries(lengths) as Array<[PreferredLanguage, number]>)
+    .reduce<[PreferredLanguage, number]>((best, entry) => (entry[1] > best[1] ? entry : best), [fallback, 0])[0];
+};
+
+/**
+ * Folds stretches of fewer than minWords Latin-script words into the
+ * stretch before them (or after, at the start), e.g. a single "mokopuna" in
+ * an English sentence. Changing voice for one word sounds disjointed, and
+ * the pronunciation lexicon already voices such words. A change of script
+ * is always kept, since a voice cannot read a script it does not know.
+ */
+export const joinShortSegments = (segments: LanguageSegment[], minWords: number): LanguageSegment[] => {
+  const isShortLatin = (segment: LanguageSegment) =>
+    !/[^\p{Script=Latin}\p{Script=Common}\p{Script=Inherited}]/u.test(segment.text) &&
+    (segment.text.match(/[\p{L}'ʻ‘’]+/gu) || []).length < minWords;
+
+  const joined = segments.reduce<LanguageSegment[]>((result, segment) => {
+    const last = result[result.length - 1];
+    if (last && (last.language === segment.language || (isShortLatin(segment) && isShortLatinNeighbour(last)))) {
+      last.text += segment.text;
+    } else {
+      result.push({ ...segment });
+    }
+    return result;
+  }, []);
+
+  // A short stretch at the start joins the one after it
+  if (joined.length > 1 && isShortLatin(joined[0]) && isShortLatinNeighbour(joined[1])) {
+    joined[1] = { text: joined[0].text + joined[1].text, language: joined[1].language };
+    joined.shift();
+  }
+  return joined;
+};
+
+// Only Latin-script stretches take in a short Latin-script word; an English word stays out of Chinese speech
+const isShortLatinNeighbour = (segment: LanguageSegment): boolean =>
+  !/[\p{Script=Han}\p{Script=Hangul}\p{Script=Devanagari}]/u.test(segment.text);
+
+// Adds up language counts, e.g. this session's words and what the recogniser reported
+export const mergeLanguageCounts = (
+  ...counts: Array<Partial<Record<PreferredLanguage, number>>>
+): Partial<Record<PreferredLanguage, number>> =>
+  counts.reduce<Partial<Record<PreferredLanguage, number>>>((total, current) => {
+    (Object.entries(current) as Array<[PreferredLanguage, number]>).forEach(([language, count]) => {
+      total[language] = (total[language] || 0) + count;
+    });
+    return total;
+  }, {});
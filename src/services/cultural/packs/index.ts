@@ -0,0 +1,20 @@
+import { CulturalGroup } from '../../../types';
+import { CulturalPack } from '../culturalPack';
+import maori from './maori.json';
+import chinese from './chinese.json';
+import western from './western.json';
+import samoan from './samoan.json';
+import tongan from './tongan.json';
+import indian from './indian.json';
+import korean from './korean.json';
+
+// The packs shipped with this build; `yarn packs:validate` checks them before release
+export const BUNDLED_CULTURAL_PACKS: Record<CulturalGroup, CulturalPack> = {
+  maori: maori as CulturalPack,
+  chinese: chinese as CulturalPack,
+  western: western as CulturalPack,
+  samoan: samoan as CulturalPack,
+  tongan: tongan as CulturalPack,
+  indian: indian as CulturalPack,
+  korean: korean as CulturalPack
+};
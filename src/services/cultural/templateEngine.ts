@@ -0,0 +1,345 @@
+import { PreferredLanguage } from '../../types';
+
+/**
+ * Response templates: text with placeholders in double braces, loosely
+ * following ICU MessageFormat.
+ *
+ *   {{name}}                                          the variable's value
+ *   {{count, plural, =0 {no visits} one {# visit} other {# visits}}}
+ *   {{gender, select, female {she} male {he} other {they}}}
+ *   {{relation, honorific}}                           the pack's form of address, e.g. 奶奶 or Kui
+ *
+ * Branches may hold further placeholders; `#` in a plural branch is the
+ * number. A plural or select needs an `other` branch, used whenever no
+ * other branch applies.
+ */
+
+export type TemplateVariables = Record<string, string | number | undefined>;
+
+// Forms of address for family and elders, as written in a pack's honorifics
+export const KINSHIP_RELATIONS = [
+  'grandmother',
+  'grandfather',
+  'maternal_grandmother',
+  'maternal_grandfather',
+  'mother',
+  'father',
+  'aunt',
+  'uncle',
+  'elder_woman',
+  'elder_man'
+] as const;
+
+export type KinshipRelation = typeof KINSHIP_RELATIONS[number];
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export interface TemplateRenderOptions {
+  language: PreferredLanguage; // Picks the plural rules
+  honorifics?: Partial<Record<KinshipRelation, string>>;
+  templateId?: string; // Named in warnings
+  onWarning?: (warning: string) => void; // Defaults to console.warn, once per template and problem
+}
+
+export class TemplateSyntaxError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at character ${position + 1}`);
+    this.name = 'TemplateSyntaxError';
+    this.position = position;
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'number'; name: string } // `#` inside a plural branch
+  | { type: 'plural' | 'select'; name: string; branches: Record<string, TemplateNode[]> }
+  | { type: 'honorific'; name: string };
+
+const PLURAL_CATEGORIES: readonly PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Plural categories per language, after CLDR. Māori and Samoan have no CLDR
+ * rules; both mark one against many with the article (te/ngā, le/ia), so
+ * they follow English. Chinese, Korean and Tongan do not inflect for number.
+ * Written out because Hermes has no Intl.PluralRules.
+ */
+const PLURAL_RULES: Record<PreferredLanguage, (n: number) => PluralCategory> = {
+  en: n => (n === 1 ? 'one' : 'other'),
+  mi: n => (n === 1 ? 'one' : 'other'),
+  sm: n => (n === 1 ? 'one' : 'other'),
+  to: () => 'other',
+  zh: () => 'other',
+  ko: () => 'other',
+  hi: n => (n >= 0 && n <= 1 ? 'one' : 'other')
+};
+
+const VARIABLE_NAME = /^[A-Za-z_]\w*$/;
+const BRANCH_KEY = /^(=\d+(\.\d+)?|[a-z_]\w*)$/i;
+
+const parseTemplate = (source: string): TemplateNode[] => {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new TemplateSyntaxError(message, position);
+  };
+  const skipSpaces = () => {
+    while (position < source.length && /\s/.test(source[position])) position++;
+  };
+  const expect = (token: string) => {
+    skipSpaces();
+    if (!source.startsWith(token, position)) fail(`Expected "${token}"`);
+    position += token.length;
+  };
+  // Reads up to the next `,` or `}}`
+  const readWord = (): string => {
+    const start = position;
+    while (position < source.length && source[position] !== ',' && !source.startsWith('}}', position)) {
+      if (source[position] === '{') fail('Unexpected "{"');
+      position++;
+    }
+    return source.slice(start, position).trim();
+  };
+
+  const parseBranches = (format: 'plural' | 'select', name: string, pluralName: string | null) => {
+    const branches: Record<string, TemplateNode[]> = {};
+    skipSpaces();
+    while (position < source.length && !source.startsWith('}}', position)) {
+      const start = position;
+      while (position < source.length && !/[\s{}]/.test(source[position])) position++;
+      const key = source.slice(start, position);
+      if (!BRANCH_KEY.test(key)) fail(`"${key}" is not a branch name`);
+      if (format === 'plural' && !key.startsWith('=') && !PLURAL_CATEGORIES.includes(key as PluralCategory)) {
+        fail(`"${key}" is not a plural category (use ${PLURAL_CATEGORIES.join(', ')} or =N)`);
+      }
+      if (branches[key]) fail(`Branch "${key}" appears twice`);
+      expect('{');
+      branches[key] = parseNodes(true, format === 'plural' ? name : pluralName);
+      expect('}');
+      skipSpaces();
+    }
+    if (!branches.other) fail(`The ${format} for "${name}" needs an "other" branch`);
+    return branches;
+  };
+
+  const parsePlaceholder = (pluralName: string | null): TemplateNode => {
+    position += 2;
+    const name = readWord();
+    if (!VARIABLE_NAME.test(name)) fail(`"${name}" is not a variable name`);
+    if (source.startsWith('}}', position)) {
+      position += 2;
+      return { type: 'variable', name };
+    }
+    if (position >= source.length) fail('Unclosed "{{"');
+
+    position++;
+    const format = readWord();
+    if (format === 'honorific') {
+      expect('}}');
+      return { type: 'honorific', name };
+    }
+    if (format !== 'plural' && format !== 'select') {
+      fail(`"${format}" is not a format (use plural, select or honorific)`);
+    }
+    const kind = format as 'plural' | 'select';
+    expect(',');
+    const branches = parseBranches(kind, name, pluralName);
+    expect('}}');
+    return { type: kind, name, branches };
+  };
+
+  // Reads text and placeholders, up to the `}` closing a branch when inBranch
+  const parseNodes = (inBranch: boolean, pluralName: string | null): TemplateNode[] => {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push({ type: 'text', text });
+      text = '';
+    };
+
+    while (position < source.length) {
+      if (source.startsWith('{{', position)) {
+        flushText();
+        nodes.push(parsePlaceholder(pluralName));
+      } else if (inBranch && source[position] === '}') {
+        break;
+      } else if (inBranch && source[position] === '{') {
+        fail('Unexpected "{"');
+      } else if (pluralName && source[position] === '#') {
+        flushText();
+        nodes.push({ type: 'number', name: pluralName });
+        position++;
+      } else {
+        text += source[position++];
+      }
+    }
+    if (inBranch && position >= source.length) fail('Unclosed branch');
+    flushText();
+    return nodes;
+  };
+
+  return parseNodes(false, null);
+};
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+const getParsedTemplate = (template: string): TemplateNode[] => {
+  let nodes = parsedTemplates.get(template);
+  if (!nodes) {
+    nodes = parseTemplate(template);
+    parsedTemplates.set(template, nodes);
+  }
+  return nodes;
+};
+
+/**
+ * What is wrong with a template's syntax, as messages for the pack
+ * validator; empty when it renders.
+ */
+export const getTemplateErrors = (template: string): string[] => {
+  try {
+    getParsedTemplate(template);
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+};
+
+// Whether a template addresses someone by a kinship title, so its pack needs honorifics
+export const usesHonorifics = (template: string): boolean => {
+  const visit = (nodes: TemplateNode[]): boolean => nodes.some(node =>
+    node.type === 'honorific' ||
+    ((node.type === 'plural' || node.type === 'select') && Object.values(node.branches).some(visit)));
+  return getTemplateErrors(template).length === 0 && visit(getParsedTemplate(template));
+};
+
+export const getPluralCategory = (language: PreferredLanguage, count: number): PluralCategory =>
+  (PLURAL_RULES[language] || PLURAL_RULES.en)(Math.abs(count));
+
+const warnedProblems = new Set<string>();
+
+const warnOnce = (warning: string): void => {
+  if (!warnedProblems.has(warning)) {
+    warnedProblems.add(warning);
+    console.warn(warning);
+  }
+};
+
+/**
+ * Fills a template. A missing variable, or a title the pack has no word
+ * for, is reported as a warning and left out, and the spaces around it are
+ * tidied so "Hello {{name}}." reads "Hello." rather than "Hello ."; a
+ * template with a syntax error is returned as written.
+ */
+export const renderTemplate = (template: string, variables: TemplateVariables, options: TemplateRenderOptions): string => {
+  const label = options.templateId ? `Template ${options.templateId}` : 'Template';
+  const warn = options.onWarning || warnOnce;
+  let leftOut = false;
+
+  let nodes: TemplateNode[];
+  try {
+    nodes = getParsedTemplate(template);
+  } catch (error) {
+    warn(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    return template;
+  }
+
+  const lookUp = (name: string): string | number | undefined => {
+    const value = variables[name];
+    if (value === undefined || value === '') {
+      warn(`${label}: missing variable "${name}"`);
+      leftOut = true;
+      return undefined;
+    }
+    return value;
+  };
+
+  const chooseBranch = (node: Extract<TemplateNode, { type: 'plural' | 'select' }>): TemplateNode[] => {
+    const value = lookUp(node.name);
+    if (value === undefined) return node.branches.other;
+    if (node.type === 'select') return node.branches[String(value)] || node.branches.other;
+
+    const count = Number(value);
+    if (isNaN(count)) {
+      warn(`${label}: "${node.name}" is not a number`);
+      return node.branches.other;
+    }
+    return node.branches[`=${count}`] || node.branches[getPluralCategory(options.language, count)] || node.branches.other;
+  };
+
+  const render = (list: TemplateNode[]): string => list.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'variable':
+      case 'number':
+        return String(lookUp(node.name) ?? '');
+      case 'plural':
+      case 'select':
+        return render(chooseBranch(node));
+      case 'honorific': {
+        const relation = lookUp(node.name);
+        if (relation === undefined) return '';
+        const title = options.honorifics?.[relation as KinshipRelation];
+        if (!title) {
+          warn(`${label}: no honorific for "${relation}" in ${options.language}`);
+          leftOut = true;
+        }
+        return title || '';
+      }
+    }
+  }).join('');
+
+  const rendered = render(nodes);
+  return leftOut ? tidySpaces(rendered) : rendered;
+};
+
+// Closes up the gaps a left-out value leaves behind
+const tidySpaces = (text: string): string =>
+  text
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+([.,!?;:。，！？；：、])/g, '$1')
+    .replace(/^([.,!?;:。，！？；：、])\s*/, '')
+    .trim();
+
+const LETTER_OR_DIGIT = '[\\p{L}\\p{M}\\p{N}]';
+
+// Words are separated by spaces except in Chinese; Korean particles attach to the end of a word (치매가)
+const getTermPattern = (term: string): string => {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s_]+/g, '[\\s_-]+');
+  if (/\p{Script=Han}/u.test(term)) return escaped;
+  if (/\p{Script=Hangul}/u.test(term)) return `(?<!${LETTER_OR_DIGIT})${escaped}`;
+  return `(?<!${LETTER_OR_DIGIT})${escaped}(?!${LETTER_OR_DIGIT})`;
+};
+
+const normaliseTerm = (term: string): string => term.toLowerCase().normalize('NFC').replace(/[\s_-]+/g, ' ').trim();
+
+/**
+ * Replaces each term with its wording in one pass, so a replacement is never
+ * replaced again. Terms are matched as whole words in scripts that space
+ * words (including macronised Māori, which `\b` splits), anywhere in Chinese
+ * text, and at the start of a word in Korean. Keys may use underscores for
+ * spaces (memory_loss). A capitalised match keeps its capital.
+ */
+export const replaceTerms = (text: string, terms: Record<string, string>): string => {
+  const wordings = new Map<string, string>();
+  Object.entries(terms).forEach(([term, wording]) => {
+    if (term.trim() && wording) wordings.set(normaliseTerm(term), wording);
+  });
+  if (wordings.size === 0) return text;
+
+  // Longest first, so "memory loss" wins over "memory"
+  const pattern = [...wordings.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(getTermPattern)
+    .join('|');
+
+  return text.normalize('NFC').replace(new RegExp(pattern, 'giu'), match => {
+    const wording = wordings.get(normaliseTerm(match));
+    if (!wording) return match;
+    const isCapitalised = match[0] !== match[0].toLowerCase();
+    return isCapitalised ? wording[0].toUpperCase() + wording.slice(1) : wording;
+  });
+};
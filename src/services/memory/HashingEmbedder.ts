@@ -0,0 +1,66 @@
+import { tokenizeMemoryText } from './MemoryMatcher';
+
+// Identifies vectors produced here; retrieval supports no other model
+export const HASH_EMBEDDING_MODEL = 'hash-v1-256' as const;
+export const HASH_EMBEDDING_DIMENSIONS = 256;
+
+// Character trigrams let "garden" and "gardening" overlap, at a lower weight than whole words
+const TRIGRAM_WEIGHT = 0.5;
+
+// 32-bit FNV-1a
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const addFeature = (vector: number[], feature: string, weight: number): void => {
+  const hash = hashString(feature);
+  // The top bit picks the sign so colliding features tend to cancel out
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[hash % HASH_EMBEDDING_DIMENSIONS] += sign * weight;
+};
+
+/**
+ * Feature-hashing text embedding. It needs no model download or network
+ * call, which is enough to rank a few hundred short facts on the device.
+ */
+export const embedText = (text: string): number[] => {
+  const vector = new Array<number>(HASH_EMBEDDING_DIMENSIONS).fill(0);
+
+  tokenizeMemoryText(text).forEach(token => {
+    addFeature(vector, `w:${token}`, 1);
+    if (token.length > 3) {
+      const padded = `^${token}$`;
+      for (let i = 0; i < padded.length - 2; i++) {
+        addFeature(vector, `c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Rounded for storage in user_memories.metadata
+export const compactEmbedding = (vector: number[]): number[] => {
+  return vector.map(value => Math.round(value * 1000) / 1000);
+};
@@ -0,0 +1,150 @@
+import { UserMemory, MemoryCandidate } from '../../types';
+import { toMemoryCategory } from './MemoryTaxonomy';
+
+export type MemoryMatchKind = 'duplicate' | 'update';
+
+export interface MemoryMatch {
+  memory: UserMemory;
+  kind: MemoryMatchKind;
+  similarity: number;
+}
+
+// At or above this the candidate says the same thing as the stored memory
+const DUPLICATE_THRESHOLD = 0.8;
+// Between this and the duplicate threshold it is a newer version of the same fact
+const UPDATE_THRESHOLD = 0.5;
+
+// Words that carry no meaning for matching, including update markers like "now"
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'to', 'of', 'and', 'or', 'in', 'on', 'at',
+  'for', 'with', 'by', 'from', 'my', 'his', 'her', 'their', 'our', 'your', 'its', 'it', 'that', 'this', 'who',
+  'which', 'user', 'users', 'now', 'still', 'currently', 'usually', 'every', 'each', 'very', 'really',
+  'has', 'have', 'had', 'does', 'do', 'did', 'also', 'always'
+]);
+
+const HAN_CHARACTERS = /[\u3400-\u9fff]/;
+
+/**
+ * Canonical type label, e.g. "Birth Year" -> "birth_year".
+ */
+export const normalizeMemoryType = (type: string): string => {
+  const normalized = type.trim().toLowerCase().replace(/[\s-]+/g, '_').replace(/[^\p{L}\p{N}_]/gu, '');
+  return normalized || 'fact';
+};
+
+/**
+ * Tidies a fact for storage: collapses whitespace and drops wrapping quotes
+ * and trailing punctuation.
+ */
+export const normalizeMemoryContent = (content: string): string => {
+  return content
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'“‘]+|["'”’]+$/g, '')
+    .replace(/[.,;:!]+$/, '')
+    .trim();
+};
+
+// Lowercase without accents or punctuation, so "Whānau" and "whanau." compare equal
+const toComparable = (content: string): string => {
+  return normalizeMemoryContent(content)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const stem = (word: string): string => {
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+};
+
+// Content words; Han text has no spaces, so it is split into character bigrams
+export const tokenizeMemoryText = (content: string): Set<string> => {
+  const tokens = new Set<string>();
+  toComparable(content).split(' ').forEach(word => {
+    if (!word || STOPWORDS.has(word)) {
+      return;
+    }
+    if (HAN_CHARACTERS.test(word)) {
+      const characters = Array.from(word);
+      if (characters.length === 1) {
+        tokens.add(word);
+      }
+      for (let i = 0; i < characters.length - 1; i++) {
+        tokens.add(characters[i] + characters[i + 1]);
+      }
+      return;
+    }
+    tokens.add(stem(word));
+  });
+  return tokens;
+};
+
+/**
+ * Jaccard similarity of the content words of two facts (0-1).
+ */
+export const memorySimilarity = (a: string, b: string): number => {
+  const tokensA = tokenizeMemoryText(a);
+  const tokensB = tokenizeMemoryText(b);
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+// True when every content word of the candidate is already in the memory
+const isContainedIn = (candidate: string, memory: string): boolean => {
+  const candidateTokens = tokenizeMemoryText(candidate);
+  const memoryTokens = tokenizeMemoryText(memory);
+  if (candidateTokens.size === 0) {
+    return false;
+  }
+  return Array.from(candidateTokens).every(token => memoryTokens.has(token));
+};
+
+/**
+ * Finds the stored memory a candidate repeats or updates. Exact and
+ * near-identical wording (or a candidate that adds nothing new) counts as a
+ * duplicate; a partial overlap with a memory of the same category counts as an
+ * update, e.g. "daughter Sarah now visits Saturdays" replacing "daughter
+ * Sarah visits every Sunday". Structured regex facts (emails, phone numbers)
+ * are only ever duplicates.
+ */
+export const findMemoryMatch = (candidate: MemoryCandidate, memories: UserMemory[]): MemoryMatch | null => {
+  const comparable = toComparable(candidate.content);
+  const category = toMemoryCategory(candidate.type);
+  let best: MemoryMatch | null = null;
+
+  for (const memory of memories) {
+    if (toComparable(memory.content) === comparable) {
+      return { memory, kind: 'duplicate', similarity: 1 };
+    }
+
+    const similarity = memorySimilarity(candidate.content, memory.content);
+    let kind: MemoryMatchKind | null = null;
+    if (similarity >= DUPLICATE_THRESHOLD || isContainedIn(candidate.content, memory.content)) {
+      kind = 'duplicate';
+    } else if (
+      similarity >= UPDATE_THRESHOLD &&
+      candidate.extractor !== 'regex' &&
+      toMemoryCategory(memory.type) === category
+    ) {
+      kind = 'update';
+    }
+
+    if (kind && (!best || similarity > best.similarity)) {
+      best = { memory, kind, similarity };
+    }
+  }
+
+  return best;
+};
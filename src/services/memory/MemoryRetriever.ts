@@ -0,0 +1,163 @@
+import { UserMemory, MemoryCategory } from '../../types';
+import { estimateTokens } from '../ai/TokenCounter';
+import { fetchUserMemories } from '../supabase/profile';
+import MemoryService, { getMemoryMetadata, isMemoryTrusted } from './MemoryService';
+import { tokenizeMemoryText } from './MemoryMatcher';
+import { toMemoryCategory, isMemoryExpired } from './MemoryTaxonomy';
+import { embedText, cosineSimilarity, HASH_EMBEDDING_MODEL, HASH_EMBEDDING_DIMENSIONS } from './HashingEmbedder';
+
+export interface MemoryRetrievalOptions {
+  maxResults?: number; // Top-k
+  tokenBudget?: number; // Tokens the selected facts may use in the prompt
+  onPinnedOverBudget?: (pinnedTokens: number, tokenBudget: number) => void; // Defaults to console.warn
+}
+
+export interface RankedMemory {
+  memory: UserMemory;
+  score: number;
+  relevance: number; // Similarity to the utterance (0-1)
+}
+
+const DEFAULT_MAX_RESULTS = 8;
+const DEFAULT_TOKEN_BUDGET = 400;
+// Share of the prompt budget given to retrieved memories
+const MEMORY_BUDGET_SHARE = 0.15;
+
+const WEIGHTS = {
+  relevance: 0.6,
+  recency: 0.15,
+  categoryPriority: 0.15,
+  confidence: 0.1
+};
+
+// Days for a memory's recency score to halve since it was last mentioned
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// People and health facts are worth keeping in view even when not mentioned
+const CATEGORY_PRIORITY: Record<MemoryCategory, number> = {
+  people: 1,
+  health: 0.9,
+  routines: 0.7,
+  preferences: 0.7,
+  places: 0.6,
+  life_events: 0.6
+};
+
+const getRecency = (memory: UserMemory, now: number): number => {
+  const timestamp = Date.parse(getMemoryMetadata(memory).lastMentionedAt);
+  if (Number.isNaN(timestamp)) {
+    return 0;
+  }
+  const ageDays = Math.max(now - timestamp, 0) / (24 * 60 * 60 * 1000);
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+};
+
+// The stored hash-v1-256 vector; facts saved without one are embedded here
+const getEmbedding = (memory: UserMemory): number[] => {
+  const metadata = memory.metadata;
+  if (
+    metadata?.embeddingModel === HASH_EMBEDDING_MODEL &&
+    metadata.embedding?.length === HASH_EMBEDDING_DIMENSIONS
+  ) {
+    return metadata.embedding;
+  }
+  return embedText(memory.content);
+};
+
+// Share of the utterance's content words found in the memory
+const getKeywordOverlap = (queryTokens: Set<string>, content: string): number => {
+  if (queryTokens.size === 0) {
+    return 0;
+  }
+  const memoryTokens = tokenizeMemoryText(content);
+  let shared = 0;
+  queryTokens.forEach(token => {
+    if (memoryTokens.has(token)) shared++;
+  });
+  return shared / queryTokens.size;
+};
+
+/**
+ * Scores every trusted, unexpired memory against the utterance by
+ * similarity, recency, category priority and confidence, highest first.
+ * Similarity is only supported with the on-device hash-v1-256 embedder
+ * (HashingEmbedder), which embeds the utterance and every fact alike.
+ */
+export const rankMemories = (query: string, memories: UserMemory[], now: number = Date.now()): RankedMemory[] => {
+  const queryEmbedding = embedText(query);
+  const queryTokens = tokenizeMemoryText(query);
+
+  return memories
+    .filter(memory => isMemoryTrusted(memory) && !isMemoryExpired(memory, now))
+    .map(memory => {
+      const relevance = Math.max(
+        cosineSimilarity(queryEmbedding, getEmbedding(memory)),
+        getKeywordOverlap(queryTokens, memory.content)
+      );
+      const score =
+        WEIGHTS.relevance * relevance +
+        WEIGHTS.recency * getRecency(memory, now) +
+        WEIGHTS.categoryPriority * CATEGORY_PRIORITY[toMemoryCategory(memory.type)] +
+        WEIGHTS.confidence * getMemoryMetadata(memory).confidence;
+      return { memory, score, relevance };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+// Matches the "- fact" lines ChatConversation renders for pinned facts
+const getFactTokens = (memory: UserMemory): number => estimateTokens(`- ${memory.content}`) + 1;
+
+/**
+ * Every family-pinned memory, followed by the top-k for the utterance in
+ * whatever budget the pinned ones leave. Lower-ranked facts that still fit
+ * are taken when a long one does not. Pinned memories are never dropped;
+ * when they alone exceed the budget that is reported instead.
+ */
+export const retrieveRelevantMemories = (
+  query: string,
+  memories: UserMemory[],
+  options: MemoryRetrievalOptions = {}
+): UserMemory[] => {
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const ranked = rankMemories(query, memories).map(({ memory }) => memory);
+  const pinned = ranked.filter(memory => memory.metadata?.pinned);
+  const selected = [...pinned];
+  let used = pinned.reduce((total, memory) => total + getFactTokens(memory), 0);
+
+  if (used > tokenBudget) {
+    const report = options.onPinnedOverBudget ||
+      ((pinnedTokens: number, budget: number) =>
+        console.warn(`Pinned memories use ${pinnedTokens} tokens, over the ${budget} token memory budget`));
+    report(used, tokenBudget);
+  }
+
+  for (const memory of ranked.filter(memory => !memory.metadata?.pinned)) {
+    if (selected.length - pinned.length >= maxResults) {
+      break;
+    }
+    const tokens = getFactTokens(memory);
+    if (used + tokens > tokenBudget) {
+      continue;
+    }
+    selected.push(memory);
+    used += tokens;
+  }
+
+  return selected;
+};
+
+/**
+ * The facts to pin to a conversation for this utterance: the user's
+ * memories, with expired ones deleted on the way, retrieved within
+ * MEMORY_BUDGET_SHARE of the prompt budget. Throws when the memories cannot
+ * be read, so the caller can keep the facts it already has.
+ */
+export const loadPromptFacts = async (userId: string, query: string, promptTokenBudget: number): Promise<string[]> => {
+  const { data, error } = await fetchUserMemories(userId);
+  if (error) throw error;
+  const active = await MemoryService.removeExpired(data || []);
+  return retrieveRelevantMemories(query, active, {
+    tokenBudget: Math.floor(promptTokenBudget * MEMORY_BUDGET_SHARE)
+  }).map(memory => memory.content);
+};
@@ -0,0 +1,326 @@
+import {
+  fetchUserMemories,
+  addUserMemory,
+  updateUserMemory,
+  updateUserMemoryMetadata,
+  deleteUserMemory
+} from '../supabase/profile';
+import { UserMemory, MemoryCandidate, MemoryMetadata, MemoryStatus } from '../../types';
+import { findMemoryMatch, normalizeMemoryContent } from './MemoryMatcher';
+import { toMemoryCategory, getDefaultExpiry, isMemoryExpired } from './MemoryTaxonomy';
+import { embedText, compactEmbedding, HASH_EMBEDDING_MODEL } from './HashingEmbedder';
+
+export interface MemoryIngestResult {
+  added: number;
+  merged: number; // Existing facts replaced by a newer version
+  reinforced: number; // Existing facts mentioned again
+  skipped: number;
+}
+
+// Facts the assistant said about the user are never trusted on their own
+const MAX_ASSISTANT_CONFIDENCE = 0.3;
+// Repetition raises confidence up to this; only family confirmation reaches 1
+const MAX_UNCONFIRMED_CONFIDENCE = 0.95;
+const REINFORCEMENT_STEP = 0.05;
+const MAX_REVISIONS = 5;
+
+const clampConfidence = (value: number, max = 1): number => {
+  if (!Number.isFinite(value)) return 0.5;
+  return Math.min(Math.max(value, 0), max);
+};
+
+/**
+ * Metadata with defaults filled in, so rows stored before provenance was
+ * tracked can be treated like any other.
+ */
+export const getMemoryMetadata = (memory: UserMemory): MemoryMetadata => {
+  const metadata = memory.metadata || {};
+  return {
+    source: metadata.source || 'user',
+    extractor: metadata.extractor || 'llm',
+    confidence: clampConfidence(metadata.confidence ?? 0.5),
+    status: metadata.status || 'unverified',
+    mentions: metadata.mentions ?? 1,
+    lastMentionedAt: metadata.lastMentionedAt || memory.created_at,
+    reviewedAt: metadata.reviewedAt,
+    revisions: metadata.revisions,
+    pinned: metadata.pinned,
+    expiresAt: metadata.expiresAt,
+    embedding: metadata.embedding,
+    embeddingModel: metadata.embeddingModel
+  };
+};
+
+// Stored with each fact so retrieval does not re-embed the whole table every turn
+const getEmbeddingMetadata = (content: string): Pick<MemoryMetadata, 'embedding' | 'embeddingModel'> => ({
+  embedding: compactEmbedding(embedText(content)),
+  embeddingModel: HASH_EMBEDDING_MODEL
+});
+
+/**
+ * Whether a fact may be used to personalise replies: not rejected, and not
+ * something only the assistant has claimed.
+ */
+export const isMemoryTrusted = (memory: UserMemory): boolean => {
+  const { source, status } = getMemoryMetadata(memory);
+  if (status === 'rejected') return false;
+  return source !== 'assistant' || status === 'confirmed';
+};
+
+class MemoryService {
+  /**
+   * Stores extracted facts without duplicating what is already known.
+   * Repeated facts raise the stored fact's confidence, newer versions of a
+   * fact replace its wording (the old wording is kept in `revisions`), and
+   * facts the family rejected are not stored again.
+   */
+  async ingest(userId: string, candidates: MemoryCandidate[]): Promise<MemoryIngestResult> {
+    const result: MemoryIngestResult = { added: 0, merged: 0, reinforced: 0, skipped: 0 };
+    if (candidates.length === 0) {
+      return result;
+    }
+
+    const { data, error } = await fetchUserMemories(userId);
+    if (error) {
+      throw error;
+    }
+    const known: UserMemory[] = ((data as UserMemory[]) || []).filter(memory => !isMemoryExpired(memory));
+
+    for (const rawCandidate of candidates) {
+      const candidate = this.normalizeCandidate(rawCandidate);
+      if (!candidate.content) {
+        result.skipped++;
+        continue;
+      }
+
+      const match = findMemoryMatch(candidate, known);
+      const now = new Date().toISOString();
+
+      if (!match || (match.kind === 'update' && getMemoryMetadata(match.memory).status === 'rejected')) {
+        const { data: inserted, error: insertError } = await addUserMemory(userId, {
+          type: candidate.type,
+          content: candidate.content,
+          metadata: {
+            source: candidate.source,
+            extractor: candidate.extractor,
+            confidence: candidate.confidence,
+            status: candidate.source === 'manual' ? 'confirmed' : 'unverified',
+            mentions: 1,
+            lastMentionedAt: now,
+            ...(candidate.expiresAt ? { expiresAt: candidate.expiresAt } : {}),
+            ...getEmbeddingMetadata(candidate.content)
+          }
+        });
+        if (insertError) {
+          console.warn('Failed to store memory:', insertError);
+          result.skipped++;
+          continue;
+        }
+        if (inserted) {
+          known.push(inserted as UserMemory);
+        }
+        result.added++;
+        continue;
+      }
+
+      const metadata = getMemoryMetadata(match.memory);
+
+      // The assistant repeating or revising a fact is not evidence for it
+      if (metadata.status === 'rejected' || candidate.source === 'assistant') {
+        result.skipped++;
+        continue;
+      }
+
+      if (match.kind === 'duplicate') {
+        const updated: MemoryMetadata = {
+          ...metadata,
+          // A user stating what the assistant claimed turns it into the user's fact
+          source: metadata.source === 'assistant' ? candidate.source : metadata.source,
+          extractor: metadata.source === 'assistant' ? candidate.extractor : metadata.extractor,
+          confidence: metadata.status === 'confirmed'
+            ? metadata.confidence
+            : clampConfidence(
+              Math.max(metadata.confidence, candidate.confidence) + REINFORCEMENT_STEP,
+              MAX_UNCONFIRMED_CONFIDENCE
+            ),
+          mentions: metadata.mentions + 1,
+          lastMentionedAt: now,
+          // Standing facts stay standing; a time-bound one can be pushed back
+          expiresAt: metadata.expiresAt && candidate.expiresAt && candidate.expiresAt > metadata.expiresAt
+            ? candidate.expiresAt
+            : metadata.expiresAt
+        };
+        await updateUserMemoryMetadata(match.memory.id, updated, match.memory.metadata);
+        match.memory.metadata = updated;
+        result.reinforced++;
+        continue;
+      }
+
+      const revisions = [
+        ...(metadata.revisions || []),
+        { content: match.memory.content, replacedAt: now }
+      ].slice(-MAX_REVISIONS);
+      const updated: MemoryMetadata = {
+        ...metadata,
+        source: candidate.source,
+        extractor: candidate.extractor,
+        confidence: candidate.confidence,
+        // Changed wording needs confirming again
+        status: 'unverified',
+        reviewedAt: undefined,
+        mentions: metadata.mentions + 1,
+        lastMentionedAt: now,
+        expiresAt: candidate.expiresAt,
+        revisions,
+        ...getEmbeddingMetadata(candidate.content)
+      };
+      await updateUserMemory(match.memory.id, candidate.content, updated, match.memory);
+      match.memory.content = candidate.content;
+      match.memory.metadata = updated;
+      result.merged++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Records the family's confirmation or rejection of a fact.
+   */
+  async review(memory: UserMemory, status: Exclude<MemoryStatus, 'unverified'>): Promise<MemoryMetadata> {
+    const metadata: MemoryMetadata = {
+      ...getMemoryMetadata(memory),
+      status,
+      confidence: status === 'confirmed' ? 1 : 0,
+      reviewedAt: new Date().toISOString()
+    };
+    const { error } = await updateUserMemoryMetadata(memory.id, metadata, memory.metadata);
+    if (error) {
+      throw error;
+    }
+    return metadata;
+  }
+
+  /**
+   * Saves a family correction; the corrected fact counts as confirmed.
+   */
+  async edit(memory: UserMemory, content: string): Promise<void> {
+    const normalized = normalizeMemoryContent(content);
+    const { error } = await updateUserMemory(memory.id, normalized, {
+      ...getMemoryMetadata(memory),
+      status: 'confirmed',
+      confidence: 1,
+      reviewedAt: new Date().toISOString(),
+      ...getEmbeddingMetadata(normalized)
+    }, memory);
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Pinned facts are always sent to the model. Pinning counts as confirming
+   * the fact.
+   */
+  async setPinned(memory: UserMemory, pinned: boolean): Promise<MemoryMetadata> {
+    const current = getMemoryMetadata(memory);
+    const metadata: MemoryMetadata = pinned
+      ? { ...current, pinned, status: 'confirmed', confidence: 1, reviewedAt: new Date().toISOString() }
+      : { ...current, pinned };
+    const { error } = await updateUserMemoryMetadata(memory.id, metadata, memory.metadata);
+    if (error) {
+      throw error;
+    }
+    return metadata;
+  }
+
+  // Pass null to keep the fact indefinitely
+  async setExpiry(memory: UserMemory, expiresAt: string | null): Promise<MemoryMetadata> {
+    const metadata: MemoryMetadata = { ...getMemoryMetadata(memory), expiresAt: expiresAt || undefined };
+    const { error } = await updateUserMemoryMetadata(memory.id, metadata, memory.metadata);
+    if (error) {
+      throw error;
+    }
+    return metadata;
+  }
+
+  /**
+   * Deletes facts whose expiry has passed and returns the ones left.
+   */
+  async removeExpired(memories: UserMemory[]): Promise<UserMemory[]> {
+    const now = Date.now();
+    const expired = memories.filter(memory => isMemoryExpired(memory, now));
+    for (const memory of expired) {
+      const { error } = await deleteUserMemory(memory.id);
+      if (error) {
+        console.warn('Failed to remove expired memory:', error);
+      }
+    }
+    return memories.filter(memory => !isMemoryExpired(memory, now));
+  }
+
+  /**
+   * Folds duplicate facts into one, keeping the best-established copy
+   * (confirmed, pinned, then most confident) and adding up mentions.
+   * Rejected facts are left alone. Returns the number of rows removed.
+   */
+  async mergeDuplicates(memories: UserMemory[]): Promise<number> {
+    const rank = (memory: UserMemory): number[] => {
+      const metadata = getMemoryMetadata(memory);
+      return [metadata.status === 'confirmed' ? 1 : 0, metadata.pinned ? 1 : 0, metadata.confidence, metadata.mentions];
+    };
+    const ordered = memories
+      .filter(memory => getMemoryMetadata(memory).status !== 'rejected')
+      .sort((a, b) => {
+        const rankA = rank(a);
+        const rankB = rank(b);
+        const index = rankA.findIndex((value, i) => value !== rankB[i]);
+        return index === -1 ? 0 : rankB[index] - rankA[index];
+      });
+
+    const kept: UserMemory[] = [];
+    let removed = 0;
+
+    for (const memory of ordered) {
+      const metadata = getMemoryMetadata(memory);
+      const match = findMemoryMatch(
+        { type: memory.type, content: memory.content, source: metadata.source, extractor: metadata.extractor, confidence: metadata.confidence },
+        kept
+      );
+      if (!match || match.kind !== 'duplicate') {
+        kept.push(memory);
+        continue;
+      }
+
+      const keeper = getMemoryMetadata(match.memory);
+      const merged: MemoryMetadata = {
+        ...keeper,
+        mentions: keeper.mentions + metadata.mentions,
+        pinned: keeper.pinned || metadata.pinned,
+        lastMentionedAt: keeper.lastMentionedAt > metadata.lastMentionedAt ? keeper.lastMentionedAt : metadata.lastMentionedAt
+      };
+      const { error } = await updateUserMemoryMetadata(match.memory.id, merged, match.memory.metadata);
+      if (error) {
+        console.warn('Failed to merge memory:', error);
+        continue;
+      }
+      match.memory.metadata = merged;
+      await deleteUserMemory(memory.id);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  private normalizeCandidate(candidate: MemoryCandidate): MemoryCandidate {
+    const maxConfidence = candidate.source === 'assistant' ? MAX_ASSISTANT_CONFIDENCE : MAX_UNCONFIRMED_CONFIDENCE;
+    return {
+      ...candidate,
+      type: toMemoryCategory(candidate.type),
+      content: normalizeMemoryContent(candidate.content),
+      expiresAt: candidate.expiresAt ?? getDefaultExpiry(candidate.content),
+      confidence: candidate.source === 'manual' ? 1 : clampConfidence(candidate.confidence, maxConfidence)
+    };
+  }
+}
+
+export default new MemoryService();
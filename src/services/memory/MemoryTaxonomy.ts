@@ -0,0 +1,94 @@
+import { MemoryCategory, MEMORY_CATEGORIES, UserMemory } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Free-text types from the LLM, regex extraction and older rows, mapped onto the taxonomy
+const TYPE_SYNONYMS: Record<string, MemoryCategory> = {
+  person: 'people',
+  relationship: 'people',
+  family: 'people',
+  friend: 'people',
+  pet: 'people',
+  email: 'people',
+  phone: 'people',
+  contact: 'people',
+  place: 'places',
+  location: 'places',
+  home: 'places',
+  hometown: 'places',
+  address: 'places',
+  routine: 'routines',
+  habit: 'routines',
+  schedule: 'routines',
+  activity: 'routines',
+  health: 'health',
+  medical: 'health',
+  medication: 'health',
+  condition: 'health',
+  appointment: 'health',
+  preference: 'preferences',
+  like: 'preferences',
+  dislike: 'preferences',
+  hobby: 'preferences',
+  interest: 'preferences',
+  food: 'preferences',
+  event: 'life_events',
+  life_event: 'life_events',
+  birth_year: 'life_events',
+  birthday: 'life_events',
+  date: 'life_events',
+  career: 'life_events',
+  work: 'life_events',
+  history: 'life_events'
+};
+
+// Most untyped facts ("worked as a teacher", "Fact") are about the person's life story
+const DEFAULT_CATEGORY: MemoryCategory = 'life_events';
+
+/**
+ * Maps any stored or extracted type onto the fixed taxonomy.
+ */
+export const toMemoryCategory = (type: string | null | undefined): MemoryCategory => {
+  const normalized = (type || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((MEMORY_CATEGORIES as string[]).includes(normalized)) {
+    return normalized as MemoryCategory;
+  }
+  const singular = normalized.replace(/ies$/, 'y').replace(/s$/, '');
+  return TYPE_SYNONYMS[normalized] || TYPE_SYNONYMS[singular] || DEFAULT_CATEGORY;
+};
+
+// Wording that marks a fact as time-bound, with how long it stays relevant
+const TIME_BOUND_PATTERNS: Array<{ pattern: RegExp; days: number }> = [
+  { pattern: /\b(today|tonight|this (morning|afternoon|evening))\b|今天|今晚/i, days: 1 },
+  { pattern: /\btomorrow\b|明天/i, days: 2 },
+  { pattern: /\bnext month\b|下个月/i, days: 35 },
+  {
+    pattern: /\b(appointment|this week(end)?|next week(end)?|(on |this |next )?(monday|tuesday|wednesday|thursday|friday|saturday|sunday)(?!s))\b|预约|下周|这周|星期[一二三四五六日天]/i,
+    days: 7
+  }
+];
+
+/**
+ * Suggested expiry for facts about upcoming events, e.g. "has a doctor's
+ * appointment Tuesday". Standing facts ("visits every Sunday") do not expire.
+ */
+export const getDefaultExpiry = (content: string, now: number = Date.now()): string | undefined => {
+  if (/\b(every|each|usually|always)\b|每/i.test(content)) {
+    return undefined;
+  }
+  const match = TIME_BOUND_PATTERNS.find(({ pattern }) => pattern.test(content));
+  return match ? new Date(now + match.days * DAY_MS).toISOString() : undefined;
+};
+
+export const expiryInDays = (days: number, now: number = Date.now()): string => {
+  return new Date(now + days * DAY_MS).toISOString();
+};
+
+export const isMemoryExpired = (memory: UserMemory, now: number = Date.now()): boolean => {
+  const expiresAt = memory.metadata?.expiresAt;
+  if (!expiresAt) {
+    return false;
+  }
+  const timestamp = Date.parse(expiresAt);
+  return !Number.isNaN(timestamp) && timestamp <= now;
+};
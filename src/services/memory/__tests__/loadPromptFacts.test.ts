@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { before, beforeEach, describe, test } from 'node:test';
+import { mockModule } from '../../../__tests__/mockModule';
+import { ChatCompletionResult, ChatMessage, ChatProvider } from '../../ai/ChatProvider';
+import { MemoryMetadata, UserMemory } from '../../../types';
+
+const PROMPT_TOKEN_BUDGET = 4000;
+
+const memory = (id: string, type: string, content: string, metadata: Partial<MemoryMetadata> = {}): UserMemory => ({
+  id,
+  user_id: 'user-1',
+  type,
+  content,
+  metadata: { source: 'manual', status: 'confirmed', confidence: 1, lastMentionedAt: new Date().toISOString(), ...metadata },
+  created_at: '2026-10-01T00:00:00.000Z'
+});
+
+const MEMORIES = [
+  memory('pills', 'health', 'Takes her heart pills with breakfast', { pinned: true }),
+  memory('garden', 'preferences', 'Loves growing tomatoes in the garden'),
+  memory('visit', 'life_events', 'Grandson is visiting from Wellington', { expiresAt: '2026-01-01T00:00:00.000Z' })
+];
+
+let stored: UserMemory[] = [];
+let fetchError: Error | null = null;
+const deleted: string[] = [];
+
+mockModule(require.resolve('../../supabase/profile'), {
+  fetchUserMemories: async () => (fetchError ? { data: null, error: fetchError } : { data: stored, error: null }),
+  deleteUserMemory: async (id: string) => {
+    deleted.push(id);
+    return { data: null, error: null };
+  }
+});
+mockModule(require.resolve('../../../config'), {
+  getContextTokenBudget: () => PROMPT_TOKEN_BUDGET
+});
+
+// Keeps every request it is sent and answers each with the same reply
+class RecordingProvider implements ChatProvider {
+  readonly name = 'recording';
+  readonly requests: ChatMessage[][] = [];
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<ChatCompletionResult> {
+    this.requests.push(messages);
+    return { content: 'That sounds lovely.', model: 'test' };
+  }
+
+  async stream(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ChatCompletionResult> {
+    const result = await this.complete(messages);
+    onDelta(result.content);
+    return result;
+  }
+}
+
+describe('loadPromptFacts', () => {
+  let loadPromptFacts: typeof import('../MemoryRetriever').loadPromptFacts;
+  let ChatConversation: typeof import('../../ai/ChatConversation').ChatConversation;
+
+  before(async () => {
+    ({ loadPromptFacts } = await import('../MemoryRetriever'));
+    ({ ChatConversation } = await import('../../ai/ChatConversation'));
+  });
+
+  beforeEach(() => {
+    stored = [...MEMORIES];
+    fetchError = null;
+    deleted.length = 0;
+  });
+
+  // As VoiceCommunicationService does before each reply
+  const reply = async (utterance: string): Promise<string> => {
+    const provider = new RecordingProvider();
+    const conversation = new ChatConversation({ systemPrompt: 'You are a kind companion.', tokenBudget: PROMPT_TOKEN_BUDGET });
+    conversation.setPinnedFacts(await loadPromptFacts('user-1', utterance, PROMPT_TOKEN_BUDGET));
+    await conversation.send(provider, utterance);
+    const [system] = provider.requests[0];
+    assert.equal(system.role, 'system');
+    return system.content;
+  };
+
+  test('sends a pinned fact to the chat provider when the utterance is about something else', async () => {
+    assert.match(await reply('Shall we do some gardening this afternoon?'), /- Takes her heart pills with breakfast/);
+  });
+
+  test('sends the memories relevant to the utterance', async () => {
+    assert.match(await reply('Shall we do some gardening this afternoon?'), /- Loves growing tomatoes in the garden/);
+  });
+
+  test('deletes expired memories rather than sending them', async () => {
+    assert.doesNotMatch(await reply('Who is coming to visit from Wellington?'), /Grandson/);
+    assert.deepEqual(deleted, ['visit']);
+  });
+
+  test('throws when the memories cannot be read', async () => {
+    fetchError = new Error('offline');
+    await assert.rejects(loadPromptFacts('user-1', 'Hello', PROMPT_TOKEN_BUDGET), /offline/);
+  });
+});
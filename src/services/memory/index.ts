@@ -0,0 +1,15 @@
+export { default as MemoryService, getMemoryMetadata, isMemoryTrusted } from './MemoryService';
+export {
+  findMemoryMatch,
+  memorySimilarity,
+  normalizeMemoryContent,
+  normalizeMemoryType,
+  tokenizeMemoryText
+} from './MemoryMatcher';
+export { rankMemories, retrieveRelevantMemories, loadPromptFacts } from './MemoryRetriever';
+export { toMemoryCategory, getDefaultExpiry, expiryInDays, isMemoryExpired } from './MemoryTaxonomy';
+export { embedText, cosineSimilarity, HASH_EMBEDDING_MODEL, HASH_EMBEDDING_DIMENSIONS } from './HashingEmbedder';
+
+export type { MemoryIngestResult } from './MemoryService';
+export type { MemoryMatch, MemoryMatchKind } from './MemoryMatcher';
+export type { MemoryRetrievalOptions, RankedMemory } from './MemoryRetriever';
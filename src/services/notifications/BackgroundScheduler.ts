@@ -4,17 +4,42 @@ import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format, addHours as _addHours, addDays, isAfter, isBefore as _isBefore, parseISO } from 'date-fns';
 import { supabase } from '../supabase';
+import { tables } from '../supabase/repositories';
+import {
+  toCheckInSchedule,
+  fromCheckInSchedule,
+  toScheduledNotification,
+  fromScheduledNotification,
+  toWellnessIndicator,
+  toNotificationDeliveryLog,
+} from '../supabase/mappers';
 import { notificationService } from './NotificationService';
+import CulturalPackService from '../cultural/CulturalPackService';
 import {
   CheckInSchedule,
   CulturalNotificationConfig,
-  DEFAULT_CULTURAL_NOTIFICATION_CONFIGS,
   NotificationType as _NotificationType,
   WellnessIndicator,
   NotificationDeliveryLog,
   ScheduledNotification,
 } from '../../types/notifications';
 import { CulturalGroup } from '../../types/cultural';
+import { Tables } from '../../types/database';
+
+type WellnessReportRecipient = Pick<Tables<'users'>, 'id' | 'full_name'> & {
+  cultural_profiles: { cultural_group: string } | null;
+  emergency_contacts: Tables<'emergency_contacts'>[];
+};
+
+interface WeeklyReportSummary {
+  check_ins_completed: number;
+  total_days: number;
+  completion_rate: number;
+  average_conversation_quality: number;
+  cultural_engagement_score: number;
+  concerns: string[];
+  positive_notes: string[];
+}
 
 const BACKGROUND_NOTIFICATION_TASK = 'background-notification-task';
 const CHECK_IN_MONITOR_TASK = 'check-in-monitor-task';
@@ -122,7 +147,7 @@ class BackgroundScheduler {
       try {
         switch (data?.type) {
           case 'check_in':
-            await this.handleCheckInResponse(data);
+            await this.handleCheckInResponse(data as { scheduleId: string; userId: string; requiresFamily?: boolean });
             break;
           case 'reminder':
             await this.handleReminderResponse(data);
@@ -161,16 +186,16 @@ class BackgroundScheduler {
       if (error) throw error;
 
       for (const schedule of schedules || []) {
-        await this.scheduleCheckInSeries(schedule);
+        const culturalGroup = (schedule.users?.cultural_profiles?.cultural_group || 'western') as CulturalGroup;
+        await this.scheduleCheckInSeries(toCheckInSchedule(schedule), culturalGroup);
       }
     } catch (error) {
       console.error('Failed to schedule recurring notifications:', error);
     }
   }
 
-  private async scheduleCheckInSeries(schedule: CheckInSchedule & { users: { cultural_profiles: { cultural_group: CulturalGroup } } }): Promise<void> {
-    const culturalGroup: CulturalGroup = schedule.users.cultural_profiles.cultural_group;
-    const culturalConfig = DEFAULT_CULTURAL_NOTIFICATION_CONFIGS[culturalGroup];
+  private async scheduleCheckInSeries(schedule: CheckInSchedule, culturalGroup: CulturalGroup): Promise<void> {
+    const culturalConfig = CulturalPackService.getInstance().getNotificationConfig(culturalGroup);
     
     // Schedule check-ins for next 30 days
     const scheduleDays = 30;
@@ -217,10 +242,8 @@ class BackgroundScheduler {
     return checkInTime;
   }
 
-  private async scheduleIndividualCheckIn(schedule: CheckInSchedule & { users: { cultural_profiles: { cultural_group: CulturalGroup } } }, checkInTime: Date): Promise<void> {
-    const _culturalGroup: CulturalGroup = schedule.users.cultural_profiles.cultural_group;
-    const { users: _users, ...scheduleWithoutUsers } = schedule;
-    const notificationId = await notificationService.scheduleCheckIn(scheduleWithoutUsers);
+  private async scheduleIndividualCheckIn(schedule: CheckInSchedule, checkInTime: Date): Promise<void> {
+    const notificationId = await notificationService.scheduleCheckIn(schedule);
 
     // Store reference for background processing
     await this.storeScheduleReference(notificationId, schedule.id, checkInTime);
@@ -251,7 +274,7 @@ class BackgroundScheduler {
 
       if (error) throw error;
 
-      for (const notification of notifications || []) {
+      for (const notification of (notifications || []).map(toScheduledNotification)) {
         await this.processNotification(notification);
       }
     } catch (error) {
@@ -428,9 +451,7 @@ class BackgroundScheduler {
       failureCount: 0
     };
 
-    await supabase
-      .from('scheduled_notifications')
-      .insert(nextNotification);
+    await tables.scheduled_notifications.insert(fromScheduledNotification(nextNotification));
   }
 
   private async monitorCheckIns(): Promise<void> {
@@ -462,9 +483,13 @@ class BackgroundScheduler {
     }
   }
 
-  private async handleOverdueCheckIn(schedule: { users: { cultural_profiles: { cultural_group: CulturalGroup } }; last_check_in?: string }): Promise<void> {
-    const culturalGroup = schedule.users.cultural_profiles.cultural_group;
-    const config = DEFAULT_CULTURAL_NOTIFICATION_CONFIGS[culturalGroup as CulturalGroup];
+  private async handleOverdueCheckIn(schedule: {
+    id: string;
+    last_check_in: string | null;
+    users: { cultural_profiles: { cultural_group: string } | null } | null;
+  }): Promise<void> {
+    const culturalGroup = schedule.users?.cultural_profiles?.cultural_group || 'western';
+    const config = CulturalPackService.getInstance().getNotificationConfig(culturalGroup as CulturalGroup);
 
     // Wait for cultural escalation delay before taking action
     const lastCheckIn = schedule.last_check_in ? parseISO(schedule.last_check_in) : null;
@@ -522,17 +547,14 @@ class BackgroundScheduler {
       // Get recent wellness indicators for analysis
       const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
       
-      const { data: indicators, error } = await supabase
-        .from('wellness_indicators')
-        .select('*')
-        .gte('date', format(sevenDaysAgo, 'yyyy-MM-dd'));
-
-      if (error) throw error;
+      const indicators = await tables.wellness_indicators.find({}, {
+        gte: { date: format(sevenDaysAgo, 'yyyy-MM-dd') }
+      });
 
       // Group by user and analyze trends
       const userIndicators = new Map<string, WellnessIndicator[]>();
       
-      indicators?.forEach((indicator: WellnessIndicator) => {
+      indicators.map(toWellnessIndicator).forEach((indicator: WellnessIndicator) => {
         if (!userIndicators.has(indicator.userId)) {
           userIndicators.set(indicator.userId, []);
         }
@@ -564,8 +586,8 @@ class BackgroundScheduler {
     }
 
     // Analyze mood trends
-    const anxiousCount = indicators.filter(i => i.mood_indicators?.anxious).length;
-    const confusedCount = indicators.filter(i => i.mood_indicators?.confused).length;
+    const anxiousCount = indicators.filter(i => i.moodIndicators?.anxious).length;
+    const confusedCount = indicators.filter(i => i.moodIndicators?.confused).length;
     
     if (anxiousCount > totalDays * 0.6) {
       await this.createWellnessConcern(userId, 'persistent_anxiety', {
@@ -651,15 +673,14 @@ class BackgroundScheduler {
     }
   }
 
-  private async generateUserWellnessReport(user: { id: string; full_name: string }, weekStart: Date): Promise<void> {
+  private async generateUserWellnessReport(user: WellnessReportRecipient, weekStart: Date): Promise<void> {
     // Get week's wellness data
-    const { data: indicators } = await supabase
-      .from('wellness_indicators')
-      .select('*')
-      .eq('user_id', user.id)
-      .gte('date', format(weekStart, 'yyyy-MM-dd'));
+    const indicators = (await tables.wellness_indicators.find(
+      { user_id: user.id },
+      { gte: { date: format(weekStart, 'yyyy-MM-dd') } }
+    )).map(toWellnessIndicator);
 
-    if (!indicators || indicators.length === 0) return;
+    if (indicators.length === 0) return;
 
     // Generate report summary
     const checkInsCompleted = indicators.filter((i: WellnessIndicator) => i.checkInCompleted).length;
@@ -707,19 +728,9 @@ class BackgroundScheduler {
     return totalPossiblePoints > 0 ? (actualPoints / totalPossiblePoints) * 100 : 0;
   }
 
-  private async sendWeeklyReportToFamily(user: { 
-    id: string; 
-    full_name: string; 
-    emergency_contacts?: Array<{ 
-      id: string; 
-      notification_preferences?: { weekly_reports?: boolean } 
-    }> 
-  }, report: Record<string, unknown>): Promise<void> {
-    const familyContacts = user.emergency_contacts?.filter((c: { 
-      id: string; 
-      notification_preferences?: { weekly_reports?: boolean } 
-    }) => 
-      c.notification_preferences?.weekly_reports
+  private async sendWeeklyReportToFamily(user: WellnessReportRecipient, report: WeeklyReportSummary): Promise<void> {
+    const familyContacts = user.emergency_contacts.filter(c =>
+      (c.notification_preferences as { weekly_reports?: boolean } | null)?.weekly_reports
     );
 
     for (const contact of familyContacts || []) {
@@ -728,7 +739,7 @@ class BackgroundScheduler {
         family_contact_id: contact.id,
         type: 'summary',
         title: `Weekly Wellness Summary for ${user.full_name}`,
-        content: this.formatWeeklyReportForFamily(report, user.cultural_profiles.cultural_group),
+        content: this.formatWeeklyReportForFamily(report, (user.cultural_profiles?.cultural_group || 'western') as CulturalGroup),
         includes_conversation_summary: false,
         timestamp: new Date().toISOString(),
         is_read: false
@@ -740,17 +751,8 @@ class BackgroundScheduler {
     }
   }
 
-  private formatWeeklyReportForFamily(report: {
-    check_ins_completed: number;
-    total_days: number;
-    completion_rate: number;
-    average_conversation_quality: number;
-    cultural_engagement_score: number;
-    concerns: string[];
-    positive_notes: string[];
-  }, culturalGroup: string): string {
-    const culturalContext = culturalGroup === 'maori' ? 'whānau' : 
-                           culturalGroup === 'chinese' ? 'family' : 'family';
+  private formatWeeklyReportForFamily(report: WeeklyReportSummary, culturalGroup: CulturalGroup): string {
+    const culturalContext = CulturalPackService.getInstance().getPack(culturalGroup).sensitivity.preferredTerms.family || 'family';
     
     return `This week, your ${culturalContext} member completed ${report.check_ins_completed} out of ${report.total_days} check-ins (${report.completion_rate.toFixed(1)}%). Their conversations have been ${this.getQualityDescription(report.average_conversation_quality)} and they've shown good cultural engagement (${report.cultural_engagement_score.toFixed(1)}%). ${report.concerns.length > 0 ? `Areas of attention: ${report.concerns.join(', ')}.` : 'No specific concerns this week.'} ${report.positive_notes.length > 0 ? `Positive highlights: ${report.positive_notes.slice(0, 2).join(', ')}.` : ''}`;
   }
@@ -794,7 +796,7 @@ class BackgroundScheduler {
     }
   }
 
-  private async handleCheckInResponse(data: { scheduleId: string }): Promise<void> {
+  private async handleCheckInResponse(data: { scheduleId: string; userId: string; requiresFamily?: boolean }): Promise<void> {
     console.log('Check-in completed:', data.scheduleId);
     
     // Update schedule
@@ -873,37 +875,28 @@ class BackgroundScheduler {
   }
 
   async getActiveSchedules(userId: string): Promise<CheckInSchedule[]> {
-    const { data, error } = await supabase
-      .from('check_in_schedules')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_active', true);
-
-    if (error) throw error;
-    return data || [];
+    const rows = await tables.check_in_schedules.find({ user_id: userId, is_active: true });
+    return rows.map(toCheckInSchedule);
   }
 
   async updateSchedule(scheduleId: string, updates: Partial<CheckInSchedule>): Promise<void> {
-    await supabase
-      .from('check_in_schedules')
-      .update(updates)
-      .eq('id', scheduleId);
+    const row = await tables.check_in_schedules.findById(scheduleId);
+    if (!row) return;
+
+    await tables.check_in_schedules.update(scheduleId, fromCheckInSchedule({ ...toCheckInSchedule(row), ...updates }));
   }
 
   async getNotificationStats(userId: string, days: number = 7): Promise<any> {
     const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
     
-    const { data: logs, error } = await supabase
-      .from('notification_delivery_logs')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('timestamp', startDate.toISOString());
-
-    if (error) throw error;
-
-    const total = logs?.length || 0;
-    const delivered = logs?.filter((log: NotificationDeliveryLog) => log.status === 'delivered').length || 0;
-    const failed = logs?.filter((log: NotificationDeliveryLog) => log.status === 'failed').length || 0;
+    const logs = (await tables.notification_delivery_logs.find(
+      { user_id: userId },
+      { gte: { timestamp: startDate.toISOString() } }
+    )).map(toNotificationDeliveryLog);
+
+    const total = logs.length;
+    const delivered = logs.filter((log: NotificationDeliveryLog) => log.status === 'delivered').length;
+    const failed = logs.filter((log: NotificationDeliveryLog) => log.status === 'failed').length;
 
     return {
       total,
@@ -2,7 +2,20 @@ import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format, addMinutes, isWithinInterval as _isWithinInterval, parseISO, setHours, setMinutes } from 'date-fns';
 import { supabase } from '../supabase';
+import { tables } from '../supabase/repositories';
+import {
+  toNotificationTemplate,
+  fromNotificationTemplate,
+  toCheckInSchedule,
+  fromScheduledNotification,
+  fromFamilyNotification,
+  fromCaregiverAlert,
+  fromWellnessIndicator,
+  toNotificationDeliveryLog,
+  fromNotificationPreferences,
+} from '../supabase/mappers';
 import { getCulturalServices as _getCulturalServices } from '../cultural';
+import CulturalPackService from '../cultural/CulturalPackService';
 import {
   NotificationType,
   NotificationPriority as _NotificationPriority,
@@ -18,7 +31,6 @@ import {
   WellnessIndicator,
   NotificationDeliveryLog,
   CulturalCelebration as _CulturalCelebration,
-  DEFAULT_CULTURAL_NOTIFICATION_CONFIGS,
 } from '../../types/notifications';
 import { CulturalGroup, PreferredLanguage } from '../../types/cultural';
 
@@ -43,7 +55,7 @@ class NotificationService {
       await Notifications.setNotificationHandler({
         handleNotification: async (notification) => {
           const culturalGroup = await this.getUserCulturalGroup(String(notification.request.content.data?.userId || ''));
-          const config = DEFAULT_CULTURAL_NOTIFICATION_CONFIGS[culturalGroup as CulturalGroup];
+          const config = CulturalPackService.getInstance().getNotificationConfig(culturalGroup as CulturalGroup);
           
           return {
             shouldShowAlert: true,
@@ -76,19 +88,15 @@ class NotificationService {
 
   private async loadNotificationTemplates(): Promise<void> {
     try {
-      const { data: templates, error } = await supabase
-        .from('notification_templates')
-        .select('*');
-
-      if (error) throw error;
+      const templates = (await tables.notification_templates.find()).map(toNotificationTemplate);
 
-      templates?.forEach((template: NotificationTemplate) => {
+      templates.forEach((template: NotificationTemplate) => {
         const key = `${template.type}_${template.culturalGroup}_${template.language}`;
         this.notificationTemplates.set(key, template);
       });
 
       // Load default templates if none exist
-      if (templates?.length === 0) {
+      if (templates.length === 0) {
         await this.createDefaultTemplates();
       }
     } catch (error) {
@@ -98,87 +106,17 @@ class NotificationService {
   }
 
   private async createDefaultTemplates(): Promise<void> {
-    const defaultTemplates: Omit<NotificationTemplate, 'id'>[] = [
-      // Māori check-in templates
-      {
-        type: 'check_in',
-        culturalGroup: 'maori',
-        language: 'mi',
-        title: 'Kia ora, he pēhea koe?',
-        message: 'He taima pai ki te kōrero. Kei te tawhiti koe?',
-        culturalContext: 'Traditional greeting with family consideration'
-      },
-      {
-        type: 'check_in',
-        culturalGroup: 'maori',
-        language: 'en',
-        title: 'Hello, how are you feeling today?',
-        message: 'It\'s time for our gentle check-in. How is your whānau?',
-        culturalContext: 'Respectful approach including family'
-      },
-      // Chinese check-in templates
-      {
-        type: 'check_in',
-        culturalGroup: 'chinese',
-        language: 'zh',
-        title: '您好，您今天感觉怎么样？',
-        message: '是时候进行温和的问候了。您的家人都好吗？',
-        culturalContext: 'Respectful hierarchical approach'
-      },
-      {
-        type: 'check_in',
-        culturalGroup: 'chinese',
-        language: 'en',
-        title: 'Good day, how are you feeling?',
-        message: 'Time for our respectful check-in. How is your family today?',
-        culturalContext: 'Formal respectful tone with family consideration'
-      },
-      // Western check-in templates
-      {
-        type: 'check_in',
-        culturalGroup: 'western',
-        language: 'en',
-        title: 'Daily Check-in',
-        message: 'Hi! Ready for our daily conversation?',
-        culturalContext: 'Direct friendly approach'
-      },
-      // Emergency templates
-      {
-        type: 'emergency',
-        culturalGroup: 'maori',
-        language: 'mi',
-        title: 'He tawhiti koe?',
-        message: 'Kaore au i rongo ki a koe. Kei te pai koe?',
-        culturalContext: 'Gentle concern without alarm'
-      },
-      {
-        type: 'emergency',
-        culturalGroup: 'chinese',
-        language: 'zh',
-        title: '我们关心您',
-        message: '我们已经一段时间没有收到您的消息了。您还好吗？',
-        culturalContext: 'Respectful concern expression'
-      },
-      {
-        type: 'emergency',
-        culturalGroup: 'western',
-        language: 'en',
-        title: 'Wellness Check',
-        message: 'We haven\'t heard from you today. Is everything okay?',
-        culturalContext: 'Direct but caring approach'
-      }
-    ];
+    const defaultTemplates: Omit<NotificationTemplate, 'id'>[] = CulturalPackService.getInstance()
+      .getPacks()
+      .flatMap(pack => pack.notificationTemplates.map(template => ({ ...template, culturalGroup: pack.culturalGroup })));
 
     for (const template of defaultTemplates) {
-      const { data, error } = await supabase
-        .from('notification_templates')
-        .insert(template)
-        .select()
-        .single();
-
-      if (!error && data) {
+      try {
+        const row = await tables.notification_templates.insert(fromNotificationTemplate(template));
         const key = `${template.type}_${template.culturalGroup}_${template.language}`;
-        this.notificationTemplates.set(key, data);
+        this.notificationTemplates.set(key, toNotificationTemplate(row));
+      } catch (error) {
+        console.warn('Failed to store default notification template:', error);
       }
     }
   }
@@ -231,7 +169,6 @@ class NotificationService {
       
       // Store schedule reference
       await this.storeScheduledNotification({
-        id: notificationId,
         userId: schedule.userId,
         type: 'check_in',
         priority: 'normal',
@@ -241,7 +178,7 @@ class NotificationService {
         channels: ['push'],
         isRecurring: schedule.recurrence !== 'custom',
         culturalConfig,
-        metadata: { scheduleId: schedule.id },
+        metadata: { scheduleId: schedule.id, notificationId },
         isActive: true,
         failureCount: 0
       });
@@ -358,16 +295,12 @@ class NotificationService {
       }
 
       // Increment missed count
-      await supabase
-        .from('check_in_schedules')
-        .update({ 
-          missed_count: schedule.missed_count + 1,
-          last_missed: new Date().toISOString()
-        })
-        .eq('id', scheduleId);
+      await tables.check_in_schedules.update(scheduleId, {
+        missed_count: (schedule.missed_count ?? 0) + 1
+      });
 
       // Apply escalation rules
-      for (const rule of schedule.escalation_rules || []) {
+      for (const rule of toCheckInSchedule(schedule).escalationRules) {
         await this.processEscalationRule(rule, schedule);
       }
 
@@ -383,7 +316,7 @@ class NotificationService {
     }
   }
 
-  private async processEscalationRule(rule: EscalationRule, schedule: { user_id: string; last_check_in?: string; users: { full_name: string } }): Promise<void> {
+  private async processEscalationRule(rule: EscalationRule, schedule: { user_id: string; last_check_in: string | null; users: { full_name: string } }): Promise<void> {
     const now = new Date();
     const lastCheckIn = schedule.last_check_in ? parseISO(schedule.last_check_in) : null;
     
@@ -414,13 +347,10 @@ class NotificationService {
     const culturalGroup = user.cultural_profiles.cultural_group;
     
     // Get family contacts
-    const { data: contacts, error } = await supabase
-      .from('emergency_contacts')
-      .select('*')
-      .eq('user_id', schedule.user_id)
-      .in('id', rule.contacts);
-
-    if (error || !contacts) return;
+    const contacts = await tables.emergency_contacts.find(
+      { user_id: schedule.user_id },
+      { in: { column: 'id', values: rule.contacts } }
+    );
 
     // Create culturally appropriate message
     let message = rule.message;
@@ -449,13 +379,14 @@ class NotificationService {
       await this.storeFamilyNotification(familyNotification);
       
       // Send via preferred channels
-      if (contact.notification_preferences.push) {
+      const channels = (contact.notification_preferences || {}) as { push?: boolean; sms?: boolean; email?: boolean };
+      if (channels.push) {
         await this.sendPushNotification(contact.phone, { ...familyNotification, id: Date.now().toString() });
       }
-      if (contact.notification_preferences.sms) {
+      if (channels.sms) {
         await this.sendSMSNotification(contact.phone, { ...familyNotification, id: Date.now().toString() });
       }
-      if (contact.notification_preferences.email) {
+      if (channels.email && contact.email) {
         await this.sendEmailNotification(contact.email, { ...familyNotification, id: Date.now().toString() });
       }
     }
@@ -489,7 +420,7 @@ class NotificationService {
 
   async sendWellnessNotification(userId: string, _indicator: Partial<WellnessIndicator>): Promise<void> {
     const userProfile = await this.getUserProfile(userId);
-    const culturalConfig = DEFAULT_CULTURAL_NOTIFICATION_CONFIGS[userProfile.culturalGroup as CulturalGroup];
+    const culturalConfig = CulturalPackService.getInstance().getNotificationConfig(userProfile.culturalGroup as CulturalGroup);
     
     // Only send if current time is appropriate
     if (!this.isTimeAppropriate(new Date(), culturalConfig)) {
@@ -547,29 +478,19 @@ class NotificationService {
   }
 
   private getCulturalGreeting(culturalGroup: CulturalGroup): string {
-    switch (culturalGroup) {
-      case 'maori': return 'Kia ora';
-      case 'chinese': return '您好';
-      default: return 'Hello';
-    }
+    return CulturalPackService.getInstance().getPack(culturalGroup).presentation.greeting;
   }
 
+  // Templates are mostly English, so the English word the group prefers, e.g. whānau
   private getFamilyTerm(culturalGroup: CulturalGroup): string {
-    switch (culturalGroup) {
-      case 'maori': return 'whānau';
-      case 'chinese': return 'family';
-      default: return 'family';
-    }
+    return CulturalPackService.getInstance().getPack(culturalGroup).sensitivity.preferredTerms.family || 'family';
   }
 
   private async getUserProfile(userId: string): Promise<{
     id: string;
+    full_name: string;
     culturalGroup: CulturalGroup;
     preferredLanguage: PreferredLanguage;
-    cultural_profiles: Array<{
-      cultural_group: CulturalGroup;
-      preferred_language: PreferredLanguage;
-    }>;
   }> {
     const { data, error } = await supabase
       .from('users')
@@ -583,8 +504,8 @@ class NotificationService {
     if (error) throw error;
     return {
       ...data,
-      culturalGroup: data.cultural_profiles[0]?.cultural_group || 'western',
-      preferredLanguage: data.cultural_profiles[0]?.preferred_language || 'en'
+      culturalGroup: (data.cultural_profiles?.cultural_group || 'western') as CulturalGroup,
+      preferredLanguage: (data.cultural_profiles?.preferred_language || 'en') as PreferredLanguage
     };
   }
 
@@ -599,25 +520,20 @@ class NotificationService {
 
   private async getUserCulturalConfig(userId: string): Promise<CulturalNotificationConfig> {
     const culturalGroup = await this.getUserCulturalGroup(userId);
-    return DEFAULT_CULTURAL_NOTIFICATION_CONFIGS[culturalGroup];
+    return CulturalPackService.getInstance().getNotificationConfig(culturalGroup);
   }
 
-  private async storeScheduledNotification(notification: ScheduledNotification): Promise<void> {
-    await supabase
-      .from('scheduled_notifications')
-      .insert(notification);
+  // The Expo identifier is kept in metadata.notificationId; the row gets its own uuid
+  private async storeScheduledNotification(notification: Omit<ScheduledNotification, 'id'>): Promise<void> {
+    await tables.scheduled_notifications.insert(fromScheduledNotification(notification));
   }
 
   private async storeFamilyNotification(notification: Omit<FamilyNotification, 'id'>): Promise<void> {
-    await supabase
-      .from('family_notifications')
-      .insert(notification);
+    await tables.family_notifications.insert(fromFamilyNotification(notification));
   }
 
   private async storeCaregiverAlert(alert: Omit<CaregiverAlert, 'id'>): Promise<void> {
-    await supabase
-      .from('caregiver_alerts')
-      .insert(alert);
+    await tables.caregiver_alerts.insert(fromCaregiverAlert(alert));
   }
 
   private async recordWellnessIndicator(userId: string, indicator: Partial<WellnessIndicator>): Promise<void> {
@@ -644,9 +560,7 @@ class NotificationService {
       ...indicator
     };
 
-    await supabase
-      .from('wellness_indicators')
-      .upsert(fullIndicator, { onConflict: 'user_id,date' });
+    await tables.wellness_indicators.upsert(fromWellnessIndicator(fullIndicator), 'user_id,date');
   }
 
   private async sendPushNotification(phone: string, notification: FamilyNotification): Promise<{ success: boolean; messageId?: string }> {
@@ -695,35 +609,26 @@ class NotificationService {
     await supabase
       .from('scheduled_notifications')
       .update({ is_active: false })
-      .eq('id', notificationId);
+      .eq('metadata->>notificationId', notificationId);
   }
 
   async cancelAllNotifications(userId: string): Promise<void> {
     await Notifications.cancelAllScheduledNotificationsAsync();
     
     // Update database
-    await supabase
-      .from('scheduled_notifications')
-      .update({ is_active: false })
-      .eq('user_id', userId);
+    await tables.scheduled_notifications.updateWhere({ user_id: userId }, { is_active: false });
   }
 
   async getNotificationHistory(userId: string, limit: number = 50): Promise<NotificationDeliveryLog[]> {
-    const { data, error } = await supabase
-      .from('notification_delivery_logs')
-      .select('*')
-      .eq('user_id', userId)
-      .order('timestamp', { ascending: false })
-      .limit(limit);
-
-    if (error) throw error;
-    return data || [];
+    const rows = await tables.notification_delivery_logs.find(
+      { user_id: userId },
+      { orderBy: 'timestamp', ascending: false, limit }
+    );
+    return rows.map(toNotificationDeliveryLog);
   }
 
   async updateNotificationPreferences(userId: string, preferences: Partial<NotificationPreferences>): Promise<void> {
-    await supabase
-      .from('notification_preferences')
-      .upsert({ user_id: userId, ...preferences }, { onConflict: 'user_id' });
+    await tables.notification_preferences.upsert({ ...fromNotificationPreferences(preferences), user_id: userId }, 'user_id');
   }
 }
 
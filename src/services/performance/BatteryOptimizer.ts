@@ -23,6 +23,7 @@ interface PowerSavingMode {
   animationsEnabled: boolean;
   maxConcurrentTasks: number;
   culturalContentCaching: boolean;
+  handsFreeListening: boolean; // Keep the microphone open for a wake phrase
 }
 
 interface BatteryOptimizationConfig {
@@ -46,6 +47,7 @@ class BatteryOptimizer {
   private monitoringInterval?: NodeJS.Timeout;
   private lastBatteryLevel = 100;
   private powerUsageStartTime = Date.now();
+  private handsFreeListeningListeners: Set<(allowed: boolean) => void> = new Set();
 
   constructor() {
     this.config = {
@@ -87,7 +89,8 @@ class BatteryOptimizer {
       hapticFeedback: true,
       animationsEnabled: true,
       maxConcurrentTasks: 5,
-      culturalContentCaching: true
+      culturalContentCaching: true,
+      handsFreeListening: true
     });
 
     // Eco mode
@@ -100,7 +103,8 @@ class BatteryOptimizer {
       hapticFeedback: false,
       animationsEnabled: false,
       maxConcurrentTasks: 3,
-      culturalContentCaching: true
+      culturalContentCaching: true,
+      handsFreeListening: false
     });
 
     // Ultra power saving mode
@@ -113,7 +117,8 @@ class BatteryOptimizer {
       hapticFeedback: false,
       animationsEnabled: false,
       maxConcurrentTasks: 1,
-      culturalContentCaching: false
+      culturalContentCaching: false,
+      handsFreeListening: false
     });
 
     // Elderly optimized mode
@@ -126,7 +131,8 @@ class BatteryOptimizer {
       hapticFeedback: true, // Helpful feedback
       animationsEnabled: false, // Less confusion
       maxConcurrentTasks: 2,
-      culturalContentCaching: true
+      culturalContentCaching: true,
+      handsFreeListening: true
     });
   }
 
@@ -304,6 +310,7 @@ class BatteryOptimizer {
     this.configureHapticFeedback(mode.hapticFeedback);
     this.configureAnimations(mode.animationsEnabled);
     this.configureCulturalContentCaching(mode.culturalContentCaching);
+    this.configureHandsFreeListening(mode.handsFreeListening);
     
     console.log(`Power saving mode changed from ${previousMode} to ${modeName}`);
     
@@ -343,6 +350,23 @@ class BatteryOptimizer {
     console.log(`Cultural content caching ${enabled ? 'enabled' : 'disabled'}`);
   }
 
+  private configureHandsFreeListening(enabled: boolean): void {
+    console.log(`Hands-free listening ${enabled ? 'allowed' : 'suspended'}`);
+    this.handsFreeListeningListeners.forEach(listener => listener(enabled));
+  }
+
+  isHandsFreeListeningAllowed(): boolean {
+    return this.currentMode.handsFreeListening;
+  }
+
+  // Called on each mode change, so the voice service can suspend and resume hands-free listening
+  onHandsFreeListeningChange(listener: (allowed: boolean) => void): () => void {
+    this.handsFreeListeningListeners.add(listener);
+    return () => {
+      this.handsFreeListeningListeners.delete(listener);
+    };
+  }
+
   registerBackgroundTask(taskId: string): void {
     if (this.backgroundTasks.size >= this.currentMode.maxConcurrentTasks) {
       console.warn(`Maximum concurrent tasks (${this.currentMode.maxConcurrentTasks}) reached`);
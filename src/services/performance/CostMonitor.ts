@@ -44,6 +44,19 @@ interface ServiceCosts {
   };
 }
 
+// The speech-to-text provider that produced a transcript, see services/stt
+interface SpeechToTextCostSource {
+  provider: string;
+  costPerMinute: number;
+  durationSeconds?: number;
+}
+
+// The text-to-speech provider that voiced a sentence, see services/tts
+interface TextToSpeechCostSource {
+  provider: string;
+  costPerCharacter: number;
+}
+
 interface CostBudget {
   daily: number;
   weekly: number;
@@ -80,6 +93,7 @@ class CostMonitor {
   private serviceCosts: ServiceCosts;
   private lastResetTime: { [key: string]: number } = {};
   private alertsShown: Set<string> = new Set();
+  private emergencyMode = false;
 
   // Pricing constants (approximate rates)
   private readonly PRICING = {
@@ -90,6 +104,9 @@ class CostMonitor {
     azureSpeech: {
       perCharacter: 0.000004 // Speech-to-text
     },
+    speechToText: {
+      charactersPerMinute: 800 // Slow, clear speech; used when a provider reports no duration
+    },
     azureTts: {
       perCharacter: 0.000016 // Text-to-speech
     },
@@ -218,8 +235,22 @@ class CostMonitor {
     this.serviceCosts.openai.totalCost += totalCost;
   }
 
-  async trackSpeechToTextCost(characters: number, culturalContext?: string): Promise<void> {
-    const cost = characters * this.PRICING.azureSpeech.perCharacter;
+  /**
+   * Without `source` the transcript is priced per character at the Azure
+   * rate. With it, the provider's per-minute rate applies to the reported
+   * audio length, or to an estimate from the transcript when none is reported.
+   */
+  async trackSpeechToTextCost(characters: number, culturalContext?: string, source?: SpeechToTextCostSource): Promise<void> {
+    let cost = characters * this.PRICING.azureSpeech.perCharacter;
+    let description = `Speech recognition (${characters} characters)`;
+
+    if (source) {
+      const minutes = source.durationSeconds !== undefined
+        ? source.durationSeconds / 60
+        : characters / this.PRICING.speechToText.charactersPerMinute;
+      cost = minutes * source.costPerMinute;
+      description = `Speech recognition via ${source.provider} (${characters} characters, ${minutes.toFixed(2)} min)`;
+    }
 
     const costEntry: CostEntry = {
       id: `speech_${Date.now()}_${Math.random()}`,
@@ -228,7 +259,7 @@ class CostMonitor {
       requests: 1,
       timestamp: Date.now(),
       culturalContext,
-      description: `Speech recognition (${characters} characters)`
+      description
     };
 
     await this.addCostEntry(costEntry);
@@ -238,8 +269,11 @@ class CostMonitor {
     this.serviceCosts.azureSpeech.totalCost += cost;
   }
 
-  async trackTextToSpeechCost(characters: number, culturalContext?: string): Promise<void> {
-    const cost = characters * this.PRICING.azureTts.perCharacter;
+  async trackTextToSpeechCost(characters: number, culturalContext?: string, source?: TextToSpeechCostSource): Promise<void> {
+    const cost = characters * (source ? source.costPerCharacter : this.PRICING.azureTts.perCharacter);
+    const description = source
+      ? `Voice generation via ${source.provider} (${characters} characters)`
+      : `Voice generation (${characters} characters)`;
 
     const costEntry: CostEntry = {
       id: `tts_${Date.now()}_${Math.random()}`,
@@ -248,7 +282,7 @@ class CostMonitor {
       requests: 1,
       timestamp: Date.now(),
       culturalContext,
-      description: `Voice generation (${characters} characters)`
+      description
     };
 
     await this.addCostEntry(costEntry);
@@ -454,10 +488,22 @@ class CostMonitor {
   }
 
   private async enableEmergencyMode(): Promise<void> {
-    // This would integrate with other optimization services
+    // Read by services that can fall back to free alternatives, e.g. the text-to-speech chain
+    this.emergencyMode = true;
     console.log('Emergency cost mode enabled - limiting non-essential features');
   }
 
+  // True once the emergency budget is hit, until the monthly reset or setEmergencyMode(false)
+  isEmergencyMode(): boolean {
+    return this.emergencyMode;
+  }
+
+  // Lets a caregiver switch to free providers before the limit, or lift the limit early
+  setEmergencyMode(enabled: boolean): void {
+    this.emergencyMode = enabled;
+    console.log(`Emergency cost mode ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
   private checkPeriodicResets(): void {
     const now = Date.now();
     const oneDay = 24 * 60 * 60 * 1000;
@@ -495,6 +541,7 @@ class CostMonitor {
 
   private resetMonthlyCosts(): void {
     this.alertsShown.clear();
+    this.emergencyMode = false;
     this.serviceCosts = this.initializeServiceCosts();
     console.log('Monthly cost tracking reset');
   }
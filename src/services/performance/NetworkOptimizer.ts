@@ -57,6 +57,7 @@ class NetworkOptimizer {
   private retryTimers: Map<string, NodeJS.Timeout> = new Map();
   private dailyDataUsage = 0;
   private lastDataReset = new Date().toDateString();
+  private connectionListeners: Set<(isOnline: boolean) => void> = new Set();
 
   constructor() {
     this.config = {
@@ -523,6 +524,7 @@ class NetworkOptimizer {
     
     // Start processing queue
     this.processQueue();
+    this.notifyConnectionListeners(true);
   }
 
   private onConnectionLost(): void {
@@ -535,6 +537,18 @@ class NetworkOptimizer {
         [{ text: 'OK' }]
       );
     }
+
+    this.notifyConnectionListeners(false);
+  }
+
+  private notifyConnectionListeners(isOnline: boolean): void {
+    this.connectionListeners.forEach(listener => {
+      try {
+        listener(isOnline);
+      } catch (error) {
+        console.warn('Connection listener failed:', error);
+      }
+    });
   }
 
   private adjustOptimizationSettings(): void {
@@ -631,6 +645,21 @@ class NetworkOptimizer {
            error.message.includes('timeout');
   }
 
+  isConnected(): boolean {
+    return this.isOnline;
+  }
+
+  /**
+   * Called with true when the connection comes back and false when it drops,
+   * for services that keep their own offline queue.
+   */
+  addConnectionListener(listener: (isOnline: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
   getNetworkMetrics(): NetworkMetrics {
     return { ...this.metrics };
   }
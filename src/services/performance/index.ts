@@ -300,7 +300,7 @@ class PerformanceManager {
 
       MemoryOptimizer.updateConfig({
         elderlyOptimizations: true,
-        maxActiveChunks: 2
+        maxActiveConversations: 2
       });
 
       NetworkOptimizer.updateConfig({
@@ -1,4 +1,5 @@
 import { PreferredLanguage } from '../../types';
+import { LANGUAGES } from '../../config/languages';
 import { VoiceCommunicationService } from '../voice/VoiceCommunicationService';
 
 interface SpeechConfig {
@@ -43,15 +44,7 @@ export class ReactNativeSpeechService {
   }
 
   private getLanguageCode(language: PreferredLanguage): string {
-    switch (language) {
-      case 'mi':
-        return 'mi-NZ'; // Te Reo Māori (New Zealand)
-      case 'zh':
-        return 'cmn-CN'; // Mandarin Chinese (Simplified)
-      case 'en':
-      default:
-        return 'en-US'; // English (US)
-    }
+    return (LANGUAGES[language] || LANGUAGES.en).recognitionLocale;
   }
 
   async startContinuousRecognition(
@@ -120,11 +113,7 @@ export class ReactNativeSpeechService {
   // Helper method to get supported languages
   static async getSupportedLanguages(): Promise<string[]> {
     // Return supported languages
-    return [
-      'en-US', 'en-GB', 'en-AU', 
-      'cmn-CN', 'cmn-TW', 
-      'mi-NZ'
-    ];
+    return Array.from(new Set(Object.values(LANGUAGES).map(language => language.recognitionLocale)));
   }
 
   // Method to change language during runtime
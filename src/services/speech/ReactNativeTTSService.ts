@@ -1,5 +1,12 @@
 import * as Speech from "expo-speech";
 import { PreferredLanguage } from "../../types";
+import {
+  applyCulturalProsody,
+  getCulturalSpeechOptions,
+  getSpeechLanguageCode,
+} from "../tts/culturalSpeech";
+import { parseProsody, toSpokenText } from "../tts/prosody";
+import PronunciationLexiconService from "../cultural/PronunciationLexiconService";
 
 interface TTSConfig {
   language: PreferredLanguage;
@@ -22,76 +29,6 @@ export class ReactNativeTTSService {
     this.currentLanguage = ttsConfig.language;
   }
 
-  private getLanguageCode(language: PreferredLanguage): string {
-    switch (language) {
-      case "mi":
-        return "mi-NZ"; // Te Reo Māori (New Zealand)
-      case "zh":
-        return "zh-CN"; // Mandarin Chinese (Simplified)
-      case "en":
-      default:
-        return "en-NZ"; // English (New Zealand)
-    }
-  }
-
-  private getCulturalSpeechOptions(
-    language: PreferredLanguage,
-  ): Partial<SpeechOptions> {
-    const baseOptions: Partial<SpeechOptions> = {
-      language: this.getLanguageCode(language),
-      volume: 0.8,
-    };
-
-    switch (language) {
-      case "mi":
-        // Te Reo Māori: Slower, more respectful pace
-        return {
-          ...baseOptions,
-          rate: 0.7, // Slower speech rate
-          pitch: 1.0, // Normal pitch
-          volume: 0.75, // Slightly softer
-        };
-      case "zh":
-        // Mandarin Chinese: Maintain tonal clarity
-        return {
-          ...baseOptions,
-          rate: 0.9, // Slightly slower for tonal clarity
-          pitch: 1.0, // Normal pitch to preserve tones
-          volume: 0.85, // Clear volume
-        };
-      case "en":
-      default:
-        // English: Standard warm pace
-        return {
-          ...baseOptions,
-          rate: 1.0, // Normal speech rate
-          pitch: 1.0, // Normal pitch
-          volume: 0.8, // Comfortable volume
-        };
-    }
-  }
-
-  private addCulturalPauses(text: string, language: PreferredLanguage): string {
-    switch (language) {
-      case "mi":
-        // Add longer pauses after sentences for Te Reo Māori
-        return text
-          .replace(/([.!?])\s+/g, "$1... ") // Longer pauses after sentences
-          .replace(/([,])\s*/g, "$1.. "); // Pauses after commas
-      case "zh":
-        // Add breaks after commas and periods for Mandarin
-        return text
-          .replace(/([,，])\s*/g, "$1. ") // Short pause after commas
-          .replace(/([.。!！?？])\s*/g, "$1... "); // Longer pause after sentences
-      case "en":
-      default:
-        // Standard breaks for English
-        return text
-          .replace(/([,])\s*/g, "$1. ") // Short pause after commas
-          .replace(/([.!?])\s*/g, "$1.. "); // Medium pause after sentences
-    }
-  }
-
   async synthesizeSpeech(
     text: string,
     onStart?: () => void,
@@ -105,10 +42,10 @@ export class ReactNativeTTSService {
       }
 
       // Apply cultural adjustments to text
-      const adjustedText = this.addCulturalPauses(text, this.currentLanguage);
+      const adjustedText = this.toSpeakableText(text);
 
       // Get cultural speech options
-      const speechOptions = this.getCulturalSpeechOptions(this.currentLanguage);
+      const speechOptions: Partial<SpeechOptions> = getCulturalSpeechOptions(this.currentLanguage);
 
       console.log(
         `Starting TTS for language ${this.currentLanguage}:`,
@@ -251,9 +188,7 @@ export class ReactNativeTTSService {
   ): Promise<Speech.Voice[]> {
     try {
       const allVoices = await Speech.getAvailableVoicesAsync();
-      const languageCode = new ReactNativeTTSService({
-        language,
-      }).getLanguageCode(language);
+      const languageCode = getSpeechLanguageCode(language);
 
       return allVoices.filter(
         (voice) =>
@@ -292,10 +227,8 @@ export class ReactNativeTTSService {
         await this.stopSpeech();
       }
 
-      const adjustedText = this.addCulturalPauses(text, this.currentLanguage);
-      const defaultOptions = this.getCulturalSpeechOptions(
-        this.currentLanguage,
-      );
+      const adjustedText = this.toSpeakableText(text);
+      const defaultOptions = getCulturalSpeechOptions(this.currentLanguage);
       const mergedOptions = { ...defaultOptions, ...customOptions };
 
       this.isSpeaking = true;
@@ -332,4 +265,12 @@ export class ReactNativeTTSService {
       throw new Error(errorMessage);
     }
   }
+
+  // A single utterance, so prosody markup is reduced to the words to say
+  private toSpeakableText(text: string): string {
+    const segments = applyCulturalProsody(parseProsody(text), this.currentLanguage, {
+      lexicon: PronunciationLexiconService.getInstance().getLexicon(),
+    });
+    return toSpokenText(segments, this.currentLanguage);
+  }
 }
@@ -0,0 +1,53 @@
+import { PreferredLanguage } from '../../types';
+
+export interface TranscriptionOptions {
+  language: PreferredLanguage;
+  // Other languages the speaker mixes into the same sentences, e.g. English with Te Reo Māori
+  alternativeLanguages?: PreferredLanguage[];
+  prompt?: string; // Spelling hints, e.g. names and Māori words the user is likely to say
+  hints?: string[]; // Words and phrases from the alternative languages the speaker is likely to use
+  onDeviceOnly?: boolean; // The audio must not leave the device; providers that cannot promise that throw
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  provider: string;
+  language: PreferredLanguage;
+  durationSeconds?: number; // Audio length when the backend reports it, used for cost tracking
+}
+
+/**
+ * A speech-to-text backend. Implementations own transport and platform
+ * concerns (native module, endpoint, auth, retries) so callers only deal in
+ * recorded files and transcripts.
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+  readonly costPerMinute: number; // USD per audio minute
+  isConfigured(): boolean;
+  // Checks device support and permissions; may prompt the user on first use
+  isAvailable(): Promise<boolean>;
+  transcribe(audioUri: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export class SpeechToTextError extends Error {
+  public readonly status?: number;
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'SpeechToTextError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export interface SpeechToTextProviderSettings {
+  apiUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+  costPerMinute: number;
+}
@@ -0,0 +1,86 @@
+import config, { AppConfig, SpeechToTextProviderType } from '../../config';
+import { PreferredLanguage } from '../../types';
+import { SpeechToTextProvider } from './SpeechToTextProvider';
+import { NativeSpeechToTextProvider } from './providers/NativeSpeechToTextProvider';
+import { WhisperSpeechToTextProvider } from './providers/WhisperSpeechToTextProvider';
+import { MockSpeechToTextProvider } from './providers/MockSpeechToTextProvider';
+
+export { NativeSpeechToTextProvider } from './providers/NativeSpeechToTextProvider';
+export { WhisperSpeechToTextProvider, resolveTranscriptionsUrl } from './providers/WhisperSpeechToTextProvider';
+export { MockSpeechToTextProvider } from './providers/MockSpeechToTextProvider';
+export { SpeechToTextError } from './SpeechToTextProvider';
+
+export type {
+  SpeechToTextProvider,
+  SpeechToTextProviderSettings,
+  TranscriptionOptions,
+  TranscriptionResult
+} from './SpeechToTextProvider';
+
+export const createSpeechToTextProvider = (
+  type: SpeechToTextProviderType,
+  sttConfig: AppConfig['stt'] = config.stt
+): SpeechToTextProvider => {
+  switch (type) {
+    case 'mock':
+      return new MockSpeechToTextProvider();
+    case 'whisper':
+      return new WhisperSpeechToTextProvider({
+        apiUrl: sttConfig.apiUrl,
+        apiKey: sttConfig.apiKey,
+        model: sttConfig.model,
+        timeoutMs: sttConfig.timeoutMs,
+        maxRetries: sttConfig.maxRetries,
+        costPerMinute: sttConfig.costPerMinute
+      });
+    case 'native':
+    default:
+      return new NativeSpeechToTextProvider();
+  }
+};
+
+const sharedProviders = new Map<SpeechToTextProviderType, SpeechToTextProvider>();
+let overrideProvider: SpeechToTextProvider | null = null;
+
+const getSharedProvider = (type: SpeechToTextProviderType): SpeechToTextProvider => {
+  let provider = sharedProviders.get(type);
+  if (!provider) {
+    provider = createSpeechToTextProvider(type);
+    sharedProviders.set(type, provider);
+  }
+  return provider;
+};
+
+/**
+ * Provider for a language: `config.stt.languageProviders` first, then the
+ * default `config.stt.provider`. A provider that is not configured (e.g.
+ * whisper without STT_API_URL) is skipped in favour of the next choice.
+ */
+export const getSpeechToTextProvider = (language: PreferredLanguage): SpeechToTextProvider => {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+
+  const candidates = [config.stt.languageProviders[language], config.stt.provider, 'native' as const];
+  for (const type of candidates) {
+    if (!type) continue;
+    const provider = getSharedProvider(type);
+    if (provider.isConfigured()) {
+      return provider;
+    }
+  }
+  return getSharedProvider('native');
+};
+
+/**
+ * Provider for audio that must stay on the device, such as speech overheard
+ * while hands-free waits for its wake phrase. Always the native recogniser,
+ * which callers should ask for `onDeviceOnly` recognition.
+ */
+export const getOnDeviceSpeechToTextProvider = (): SpeechToTextProvider =>
+  overrideProvider || getSharedProvider('native');
+
+// Use one provider for every language, e.g. a MockSpeechToTextProvider in tests; null restores config
+export const setSpeechToTextProvider = (provider: SpeechToTextProvider | null): void => {
+  overrideProvider = provider;
+};
@@ -0,0 +1,64 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  SpeechToTextProvider,
+  TranscriptionOptions,
+  TranscriptionResult
+} from '../SpeechToTextProvider';
+
+/**
+ * Offline provider for development and tests. Transcripts are deterministic:
+ * a transcript registered for the file name wins, otherwise a sidecar text
+ * file next to the recording (`hello.m4a.txt`) is read, otherwise the
+ * result is empty, which callers treat as silence.
+ */
+export class MockSpeechToTextProvider implements SpeechToTextProvider {
+  public readonly name = 'mock';
+  public readonly costPerMinute = 0;
+  private transcripts: Map<string, string>;
+  private latencyMs: number;
+  public readonly requests: { audioUri: string; options: TranscriptionOptions }[] = [];
+
+  constructor(options: { transcripts?: Record<string, string>; latencyMs?: number } = {}) {
+    this.transcripts = new Map(Object.entries(options.transcripts || {}));
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  public setTranscript(fileName: string, text: string): void {
+    this.transcripts.set(fileName, text);
+  }
+
+  public async transcribe(audioUri: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    this.requests.push({ audioUri, options });
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    const fileName = audioUri.split('/').pop() || audioUri;
+    const text = this.transcripts.get(fileName) ?? await this.readSidecar(audioUri);
+
+    return {
+      text: text.trim(),
+      provider: this.name,
+      language: options.language
+    };
+  }
+
+  private async readSidecar(audioUri: string): Promise<string> {
+    const sidecarUri = `${audioUri}.txt`;
+    try {
+      const info = await FileSystem.getInfoAsync(sidecarUri);
+      return info.exists ? await FileSystem.readAsStringAsync(sidecarUri) : '';
+    } catch {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { LANGUAGES } from '../../../config/languages';
+import { speechRecognition, SpeechRecognitionService } from '../../../utils/speech-recognition';
+import {
+  SpeechToTextProvider,
+  SpeechToTextError,
+  TranscriptionOptions,
+  TranscriptionResult
+} from '../SpeechToTextProvider';
+
+/**
+ * On-device recognition through the iOS Speech Framework bridge in
+ * `utils/speech-recognition.ts`. Free and offline-capable, but unavailable
+ * on Android and weak for Te Reo Māori. Apple may recognise the audio on its
+ * servers unless `onDeviceOnly` is set, which fails for locales the device
+ * cannot recognise itself.
+ */
+export class NativeSpeechToTextProvider implements SpeechToTextProvider {
+  public readonly name = 'native';
+  public readonly costPerMinute = 0;
+  private recognizer: SpeechRecognitionService;
+
+  constructor(recognizer: SpeechRecognitionService = speechRecognition) {
+    this.recognizer = recognizer;
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    if (!await this.recognizer.isAvailable()) {
+      return false;
+    }
+    return this.recognizer.requestPermissions();
+  }
+
+  public async transcribe(audioUri: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (options.signal?.aborted) {
+      throw new SpeechToTextError('Transcription aborted');
+    }
+
+    // The Speech Framework listens for one locale, so other languages come through as expected phrases
+    const text = await this.recognizer.recognizeAudio(
+      audioUri,
+      (LANGUAGES[options.language] || LANGUAGES.en).recognitionLocale,
+      options.hints || [],
+      options.onDeviceOnly ?? false
+    );
+
+    return {
+      text: text.trim(),
+      provider: this.name,
+      language: options.language
+    };
+  }
+}
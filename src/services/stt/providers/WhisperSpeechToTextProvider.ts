@@ -0,0 +1,163 @@
+import axios from 'axios';
+import { LANGUAGES } from '../../../config/languages';
+import {
+  SpeechToTextProvider,
+  SpeechToTextError,
+  SpeechToTextProviderSettings,
+  TranscriptionOptions,
+  TranscriptionResult
+} from '../SpeechToTextProvider';
+
+interface TranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number; // Seconds, only in verbose_json responses
+}
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  m4a: 'audio/m4a',
+  mp4: 'audio/mp4',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  caf: 'audio/x-caf'
+};
+
+/**
+ * Accepts a base URL (`https://api.openai.com`, `http://localhost:8080/v1`),
+ * a full transcriptions URL or a whisper.cpp `/inference` URL and returns
+ * the endpoint to post audio to.
+ */
+export const resolveTranscriptionsUrl = (apiUrl: string): string => {
+  const trimmed = apiUrl.trim().replace(/\/+$/, '');
+  if (trimmed.endsWith('/audio/transcriptions') || trimmed.endsWith('/inference')) {
+    return trimmed;
+  }
+  if (/\/v\d+$/.test(trimmed)) {
+    return `${trimmed}/audio/transcriptions`;
+  }
+  return `${trimmed}/v1/audio/transcriptions`;
+};
+
+/**
+ * Speech-to-text for any server speaking the OpenAI `/v1/audio/transcriptions`
+ * protocol: OpenAI Whisper, faster-whisper-server, or a whisper.cpp server
+ * (`whisper-server -m ggml-base.bin --host 0.0.0.0`) in development.
+ */
+export class WhisperSpeechToTextProvider implements SpeechToTextProvider {
+  public readonly name = 'whisper';
+  public readonly costPerMinute: number;
+  private settings: SpeechToTextProviderSettings;
+
+  constructor(settings: SpeechToTextProviderSettings) {
+    this.settings = settings;
+    this.costPerMinute = settings.costPerMinute;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.settings.apiUrl;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    return this.isConfigured();
+  }
+
+  public async transcribe(audioUri: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (!this.isConfigured()) {
+      throw new SpeechToTextError(`Speech-to-text provider ${this.name} is not configured`);
+    }
+    if (options.onDeviceOnly) {
+      throw new SpeechToTextError(`Speech-to-text provider ${this.name} sends audio off the device`);
+    }
+
+    const data = await this.withRetries(() => this.postAudio(audioUri, options));
+
+    return {
+      text: (data.text || '').trim(),
+      provider: this.name,
+      language: options.language,
+      durationSeconds: data.duration
+    };
+  }
+
+  private buildForm(audioUri: string, options: TranscriptionOptions): FormData {
+    const fileName = audioUri.split('/').pop() || 'recording.m4a';
+    const extension = fileName.split('.').pop()?.toLowerCase() || 'm4a';
+    const form = new FormData();
+
+    // React Native uploads local files from a { uri, name, type } descriptor
+    form.append('file', { uri: audioUri, name: fileName, type: AUDIO_MIME_TYPES[extension] || 'audio/m4a' } as unknown as Blob);
+    form.append('model', this.settings.model);
+    // Whisper rejects languages it was not trained on, such as Samoan; it detects those itself.
+    // Forcing one language also garbles the other half of a mixed sentence, so mixed speech is left to detection too
+    const isMixed = (options.alternativeLanguages || []).some(language => language !== options.language);
+    const whisperLanguage = isMixed ? undefined : LANGUAGES[options.language]?.whisperLanguage;
+    if (whisperLanguage) {
+      form.append('language', whisperLanguage);
+    }
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', '0');
+    // Whisper continues in the style of its prompt, so mixed-language hints keep those words as spoken
+    const prompt = [options.prompt, ...(options.hints || [])].filter(Boolean).join(', ');
+    if (prompt) {
+      form.append('prompt', prompt);
+    }
+    return form;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'multipart/form-data'
+    };
+    // Local whisper.cpp servers usually run without auth
+    if (this.settings.apiKey) {
+      headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async postAudio(audioUri: string, options: TranscriptionOptions): Promise<TranscriptionResponse> {
+    const response = await axios.post<TranscriptionResponse>(
+      resolveTranscriptionsUrl(this.settings.apiUrl),
+      this.buildForm(audioUri, options),
+      {
+        headers: this.getHeaders(),
+        timeout: this.settings.timeoutMs,
+        signal: options.signal
+      }
+    );
+    return response.data;
+  }
+
+  private async withRetries<T>(operation: () => Promise<T>): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await operation();
+      } catch (error) {
+        attempt++;
+        if (attempt > this.settings.maxRetries || !this.isRetryableError(error)) {
+          throw error;
+        }
+
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 8000);
+        console.warn(`${this.name} transcription failed (attempt ${attempt}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof SpeechToTextError) {
+      return error.retryable;
+    }
+    if (!axios.isAxiosError(error) || error.code === 'ERR_CANCELED') {
+      return false;
+    }
+    if (!error.response) {
+      return true;
+    }
+    const status = error.response.status;
+    return status === 408 || status === 429 || status >= 500;
+  }
+}
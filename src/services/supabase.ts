@@ -1,5 +1,16 @@
 import 'react-native-url-polyfill/auto';
 import { supabase } from '../lib/supabase';
+import {
+  TablesInsert,
+  TablesUpdate,
+  CulturalProfile,
+  CulturalContext,
+  CachedPhrase,
+  CheckInSchedule,
+  ConversationContext
+} from '../types';
+import { tables } from './supabase/repositories';
+import { toCulturalProfile, toCulturalContext, toCachedPhrase, toCheckInSchedule } from './supabase/mappers';
 
 // Export supabase client for use in other modules
 export { supabase };
@@ -31,169 +42,84 @@ export const userService = {
     return data;
   },
 
-  updateUserProfile: async (userId: string, updates: Record<string, unknown>) => {
-    const { data, error } = await supabase
-      .from('users')
-      .update(updates)
-      .eq('id', userId)
-      .select()
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
+  updateUserProfile: async (userId: string, updates: TablesUpdate<'users'>) => {
+    return tables.users.update(userId, updates);
   }
 };
 
 // Cultural profile management
 export const culturalService = {
-  getCulturalProfile: async (profileId: string) => {
-    const { data, error } = await supabase
-      .from('cultural_profiles')
-      .select('*, cultural_contexts(*)')
-      .eq('id', profileId)
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
+  getCulturalProfile: async (profileId: string): Promise<CulturalProfile | null> => {
+    const row = await tables.cultural_profiles.findById(profileId);
+    return row ? toCulturalProfile(row) : null;
   },
 
-  getCulturalContexts: async (profileId: string) => {
-    const { data, error } = await supabase
-      .from('cultural_contexts')
-      .select('*')
-      .eq('profile_id', profileId);
-    
-    handleSupabaseError(error);
-    return data;
+  getCulturalContexts: async (profileId: string): Promise<CulturalContext[]> => {
+    const rows = await tables.cultural_contexts.find({ profile_id: profileId });
+    return rows.map(toCulturalContext);
   }
 };
 
 // Conversation management
+// Written only by ConversationRepository, which keeps the local copy
 export const conversationService = {
   getConversationHistory: async (userId: string, limit = 100) => {
-    const { data, error } = await supabase
-      .rpc('get_user_conversation_history', {
-        user_id: userId,
-        limit_count: limit
-      });
-    
-    handleSupabaseError(error);
-    return data;
+    return tables.conversations.find(
+      { user_id: userId },
+      { orderBy: 'last_interaction', ascending: false, limit }
+    );
   },
 
-  saveConversation: async (userId: string, messages: Record<string, unknown>[]) => {
-    const { data, error } = await supabase
-      .from('conversations')
-      .insert({
-        user_id: userId,
-        messages,
-        last_interaction: new Date().toISOString()
-      })
-      .select()
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
-  },
-
-  updateConversation: async (conversationId: string, messages: Record<string, unknown>[]) => {
-    const { data, error } = await supabase
-      .from('conversations')
-      .update({
-        messages,
-        last_interaction: new Date().toISOString()
-      })
-      .eq('id', conversationId)
-      .select()
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
+  // Rows carry the id generated on the device, so a retried sync updates the same row
+  upsertConversation: async (conversation: TablesInsert<'conversations'>) => {
+    return tables.conversations.upsert(conversation);
   }
 };
 
 // Cached phrases management
 export const phrasesService = {
-  getCachedPhrases: async (culturalProfileId: string, context: string) => {
-    const { data, error } = await supabase
-      .from('cached_phrases')
-      .select('*')
-      .eq('cultural_profile_id', culturalProfileId)
-      .eq('context', context)
-      .order('use_count', { ascending: false });
-    
-    handleSupabaseError(error);
-    return data;
+  getCachedPhrases: async (culturalProfileId: string, context: ConversationContext): Promise<CachedPhrase[]> => {
+    const rows = await tables.cached_phrases.find(
+      { cultural_profile_id: culturalProfileId, context },
+      { orderBy: 'use_count', ascending: false }
+    );
+    return rows.map(toCachedPhrase);
   },
 
   updatePhraseUsage: async (phraseId: string) => {
     // First get the current count
-    const { data: currentPhrase, error: getError } = await supabase
-      .from('cached_phrases')
-      .select('use_count')
-      .eq('id', phraseId)
-      .single();
-    
-    handleSupabaseError(getError);
-    
+    const currentPhrase = await tables.cached_phrases.findById(phraseId);
     if (!currentPhrase) {
       throw new Error('Phrase not found');
     }
 
     // Then update with the incremented count
-    const { data, error } = await supabase
-      .from('cached_phrases')
-      .update({
-        use_count: (currentPhrase.use_count || 0) + 1,
-        last_used: new Date().toISOString()
-      })
-      .eq('id', phraseId)
-      .select()
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
+    return tables.cached_phrases.update(phraseId, {
+      use_count: currentPhrase.use_count + 1,
+      last_used: new Date().toISOString()
+    });
   }
 };
 
 // Emergency contact management
 export const emergencyService = {
   getEmergencyContacts: async (userId: string) => {
-    const { data, error } = await supabase
-      .from('emergency_contacts')
-      .select('*')
-      .eq('user_id', userId)
-      .order('is_primary', { ascending: false });
-    
-    handleSupabaseError(error);
-    return data;
+    return tables.emergency_contacts.find(
+      { user_id: userId },
+      { orderBy: 'is_primary', ascending: false }
+    );
   },
 
-  updateEmergencyContact: async (contactId: string, updates: Record<string, unknown>) => {
-    const { data, error } = await supabase
-      .from('emergency_contacts')
-      .update(updates)
-      .eq('id', contactId)
-      .select()
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
+  updateEmergencyContact: async (contactId: string, updates: TablesUpdate<'emergency_contacts'>) => {
+    return tables.emergency_contacts.update(contactId, updates);
   }
 };
 
 // Check-in management
 export const checkInService = {
-  getCheckInSchedule: async (userId: string) => {
-    const { data, error } = await supabase
-      .from('check_in_schedules')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_active', true)
-      .single();
-    
-    handleSupabaseError(error);
-    return data;
+  getCheckInSchedule: async (userId: string): Promise<CheckInSchedule | null> => {
+    const row = await tables.check_in_schedules.findOne({ user_id: userId, is_active: true });
+    return row ? toCheckInSchedule(row) : null;
   },
 
   updateCheckInStatus: async (userId: string) => {
@@ -203,4 +129,4 @@ export const checkInService = {
     handleSupabaseError(error);
     return data;
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,122 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { Database, Tables, TablesInsert, TablesUpdate } from '../../types';
+
+export type TableName = keyof Database['public']['Tables'];
+export type Column<T extends TableName> = keyof Tables<T> & string;
+export type RowFilter<T extends TableName> = Partial<Tables<T>>;
+
+export interface FindOptions<T extends TableName> {
+  orderBy?: Column<T>;
+  ascending?: boolean;
+  limit?: number;
+  gte?: RowFilter<T>; // Inclusive lower bounds, e.g. { date: '2025-01-01' }
+  lte?: RowFilter<T>;
+  in?: { column: Column<T>; values: readonly unknown[] };
+}
+
+/**
+ * Typed access to one table. Column names and values are checked against
+ * the generated Database type, and Supabase errors are thrown rather than
+ * returned so callers cannot read `data` without noticing a failure.
+ */
+export class TableRepository<T extends TableName> {
+  constructor(readonly table: T, private readonly key: Column<T> = 'id' as Column<T>) {}
+
+  async find(filters: RowFilter<T> = {}, options: FindOptions<T> = {}): Promise<Tables<T>[]> {
+    let query = this.query().select('*').match(filters);
+    Object.entries(options.gte || {}).forEach(([column, value]) => {
+      query = query.gte(column, value);
+    });
+    Object.entries(options.lte || {}).forEach(([column, value]) => {
+      query = query.lte(column, value);
+    });
+    if (options.in) {
+      query = query.in(options.in.column as string, [...options.in.values]);
+    }
+    if (options.orderBy) {
+      query = query.order(options.orderBy, { ascending: options.ascending ?? true });
+    }
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as Tables<T>[];
+  }
+
+  async findOne(filters: RowFilter<T>): Promise<Tables<T> | null> {
+    const { data, error } = await this.query().select('*').match(filters).limit(1).maybeSingle();
+    if (error) throw error;
+    return data as Tables<T> | null;
+  }
+
+  async findById(id: string): Promise<Tables<T> | null> {
+    return this.findOne({ [this.key]: id } as RowFilter<T>);
+  }
+
+  async count(filters: RowFilter<T> = {}): Promise<number> {
+    const { count, error } = await this.query().select('*', { count: 'exact', head: true }).match(filters);
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async insert(row: TablesInsert<T>): Promise<Tables<T>> {
+    const { data, error } = await this.query().insert(row).select().single();
+    if (error) throw error;
+    return data as Tables<T>;
+  }
+
+  /**
+   * Inserts without reading the row back, for tables the writer may insert
+   * into but not select from, such as audit_logs under its admin-only policy.
+   */
+  async append(row: TablesInsert<T>): Promise<void> {
+    const { error } = await this.query().insert(row);
+    if (error) throw error;
+  }
+
+  async insertMany(rows: TablesInsert<T>[]): Promise<Tables<T>[]> {
+    if (rows.length === 0) return [];
+    const { data, error } = await this.query().insert(rows).select();
+    if (error) throw error;
+    return (data || []) as Tables<T>[];
+  }
+
+  // `onConflict` names the unique columns, e.g. 'user_id,date'
+  async upsert(row: TablesInsert<T>, onConflict?: string): Promise<Tables<T>> {
+    const { data, error } = await this.query()
+      .upsert(row, onConflict ? { onConflict } : undefined)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Tables<T>;
+  }
+
+  async update(id: string, changes: TablesUpdate<T>): Promise<Tables<T> | null> {
+    const rows = await this.updateWhere({ [this.key]: id } as RowFilter<T>, changes);
+    return rows[0] ?? null;
+  }
+
+  async updateWhere(filters: RowFilter<T>, changes: TablesUpdate<T>): Promise<Tables<T>[]> {
+    const { data, error } = await this.query().update(changes).match(filters).select();
+    if (error) throw error;
+    return (data || []) as Tables<T>[];
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.removeWhere({ [this.key]: id } as RowFilter<T>);
+  }
+
+  async removeWhere(filters: RowFilter<T>): Promise<void> {
+    const { error } = await this.query().delete().match(filters);
+    if (error) throw error;
+  }
+
+  // The builder cannot narrow a generic table name, so the typed signatures
+  // above are the contract and the query itself is built untyped
+  private query() {
+    return (supabase as unknown as SupabaseClient).from(this.table);
+  }
+}
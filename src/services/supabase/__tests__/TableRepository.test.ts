@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { before, beforeEach, describe, test } from 'node:test';
+import { mockModule } from '../../../__tests__/mockModule';
+import { TablesInsert } from '../../../types';
+
+const ROW_LEVEL_SECURITY = { code: '42501', message: 'new row violates row-level security policy for table "audit_logs"' };
+
+// Each query as the list of builder calls that made it, e.g. ['from audit_logs', 'insert', 'select']
+const queries: string[][] = [];
+
+/**
+ * A Supabase client where audit_logs takes inserts but refuses to return
+ * them, as its admin-only select policy does for everyone else.
+ */
+const query = (table: string) => {
+  const calls = [`from ${table}`];
+  queries.push(calls);
+  const builder = {
+    insert: () => record('insert'),
+    select: () => record('select'),
+    single: () => record('single'),
+    then: <T>(onFulfilled: (response: { data: unknown; error: unknown }) => T) => {
+      const refused = table === 'audit_logs' && calls.includes('select');
+      return Promise.resolve(refused ? { data: null, error: ROW_LEVEL_SECURITY } : { data: { id: 'row-1' }, error: null })
+        .then(onFulfilled);
+    }
+  };
+  const record = (call: string) => {
+    calls.push(call);
+    return builder;
+  };
+  return builder;
+};
+
+mockModule(require.resolve('../supabaseClient'), { supabase: { from: query } });
+
+const AUDIT_ENTRY: TablesInsert<'audit_logs'> = {
+  action: 'cultural_detection_suggested',
+  user_id: 'user-1',
+  details: { group: 'maori' },
+  timestamp: '2026-10-19T00:00:00.000Z'
+};
+
+describe('TableRepository', () => {
+  let tables: typeof import('../repositories').tables;
+
+  before(async () => {
+    ({ tables } = await import('../repositories'));
+  });
+
+  beforeEach(() => {
+    queries.length = 0;
+  });
+
+  test('append inserts without reading the row back', async () => {
+    await tables.audit_logs.append(AUDIT_ENTRY);
+
+    assert.deepEqual(queries, [['from audit_logs', 'insert']]);
+  });
+
+  test('insert fails where the select policy hides the new row', async () => {
+    await assert.rejects(tables.audit_logs.insert(AUDIT_ENTRY), ROW_LEVEL_SECURITY);
+    assert.deepEqual(queries, [['from audit_logs', 'insert', 'select', 'single']]);
+  });
+});
@@ -0,0 +1,407 @@
+import {
+  Json,
+  Tables,
+  TablesInsert,
+  CulturalProfile,
+  CulturalContext,
+  CulturalGroup,
+  PreferredLanguage,
+  CommunicationStyle,
+  FamilyStructure,
+  SpiritualAspect,
+  StigmaLevel,
+  PreferredTerms,
+  CachedPhrase,
+  PronunciationEntry,
+  ConversationContext,
+  ConversationPreferences,
+  VoiceProfile,
+  VoiceGender,
+  NotificationTemplate,
+  NotificationType,
+  NotificationPriority,
+  NotificationChannel,
+  RecurrencePattern,
+  ScheduledNotification,
+  NotificationPreferences,
+  CheckInSchedule,
+  FamilyNotification,
+  CaregiverAlert,
+  WellnessIndicator,
+  NotificationDeliveryLog,
+  UserMemory,
+  MemoryMetadata
+} from '../../types';
+import { BUNDLED_CULTURAL_PACKS } from '../cultural/packs';
+
+// Conversions between snake_case rows and the app's camelCase domain types.
+// jsonb columns come back as Json; the shapes below are what the app writes.
+
+const fromJson = <T>(value: Json | null | undefined, fallback: T): T =>
+  value === null || value === undefined ? fallback : value as unknown as T;
+
+const toJson = (value: unknown): Json => (value ?? null) as Json;
+
+const orUndefined = <T>(value: T | null): T | undefined => value ?? undefined;
+
+const DEFAULT_MOOD: WellnessIndicator['moodIndicators'] = {
+  anxious: false,
+  confused: false,
+  content: false,
+  agitated: false,
+  responsive: false
+};
+
+const DEFAULT_CULTURAL_ENGAGEMENT: WellnessIndicator['culturalEngagement'] = {
+  traditionalGreetingsUsed: false,
+  familyMentioned: false,
+  culturalTopicsDiscussed: false,
+  spiritualReferencesNoted: false
+};
+
+export const toUserMemory = (row: Tables<'user_memories'>): UserMemory => ({
+  id: row.id,
+  user_id: row.user_id,
+  type: row.type,
+  content: row.content,
+  metadata: fromJson<Partial<MemoryMetadata> | null>(row.metadata, null),
+  created_at: row.created_at
+});
+
+export const toCulturalProfile = (row: Tables<'cultural_profiles'>): CulturalProfile => ({
+  id: row.id,
+  culturalGroup: row.cultural_group as CulturalGroup,
+  preferredLanguage: row.preferred_language as PreferredLanguage,
+  preferredTerms: fromJson<PreferredTerms>(row.preferred_terms, { dementia: '' }),
+  communicationStyle: row.communication_style as CommunicationStyle,
+  familyStructure: row.family_structure as FamilyStructure,
+  spiritualAspects: row.spiritual_aspects as SpiritualAspect,
+  stigmaLevel: row.stigma_level as StigmaLevel,
+  customNuances: fromJson<Record<string, unknown>>(row.custom_nuances, {})
+});
+
+export const toCulturalContext = (row: Tables<'cultural_contexts'>): CulturalContext => ({
+  id: row.id,
+  profileId: row.profile_id,
+  contextType: row.context_type as CulturalContext['contextType'],
+  templates: fromJson<CulturalContext['templates']>(row.templates, []),
+  culturalNotes: row.cultural_notes || []
+});
+
+export const toCachedPhrase = (row: Tables<'cached_phrases'>): CachedPhrase => ({
+  id: row.id,
+  content: row.content,
+  language: row.language as PreferredLanguage,
+  context: row.context as ConversationContext,
+  culturalProfileId: row.cultural_profile_id,
+  audioUrl: row.audio_url,
+  lastUsed: new Date(row.last_used),
+  useCount: row.use_count
+});
+
+export const toPronunciationEntry = (row: Tables<'pronunciation_lexicon'>): PronunciationEntry => ({
+  word: row.word,
+  respelling: row.respelling,
+  ipa: orUndefined(row.ipa),
+  inEnglish: row.in_english,
+  notes: orUndefined(row.notes),
+  updatedBy: orUndefined(row.updated_by),
+  updatedAt: row.updated_at
+});
+
+export const fromPronunciationEntry = (entry: PronunciationEntry): TablesInsert<'pronunciation_lexicon'> => ({
+  word: entry.word,
+  respelling: entry.respelling,
+  ipa: entry.ipa ?? null,
+  in_english: entry.inEnglish,
+  notes: entry.notes ?? null,
+  updated_by: entry.updatedBy ?? null,
+  updated_at: entry.updatedAt ?? new Date().toISOString()
+});
+
+export const toConversationPreferences = (row: Tables<'conversation_preferences'>): ConversationPreferences => ({
+  id: row.id,
+  userId: row.user_id,
+  preferredVolume: row.preferred_volume,
+  preferredSpeechRate: row.preferred_speech_rate,
+  preferredVoiceGender: row.preferred_voice_gender as ConversationPreferences['preferredVoiceGender'],
+  reminderFrequency: row.reminder_frequency as ConversationPreferences['reminderFrequency'],
+  emergencyContactId: row.emergency_contact_id || ''
+});
+
+export const toVoiceProfile = (row: Tables<'voice_preferences'>): VoiceProfile => ({
+  id: row.id,
+  userId: row.user_id,
+  language: row.language as PreferredLanguage,
+  voiceId: row.voice_id,
+  rate: row.speed,
+  pitch: row.pitch,
+  volume: row.volume,
+  stability: row.stability,
+  similarityBoost: row.similarity_boost,
+  preferredGender: row.preferred_gender as VoiceGender,
+  updatedAt: row.updated_at
+});
+
+export const fromVoiceProfile = (profile: VoiceProfile): TablesInsert<'voice_preferences'> => ({
+  id: profile.id,
+  user_id: profile.userId,
+  language: profile.language,
+  voice_id: profile.voiceId,
+  speed: profile.rate,
+  pitch: profile.pitch,
+  volume: profile.volume,
+  stability: profile.stability,
+  similarity_boost: profile.similarityBoost,
+  preferred_gender: profile.preferredGender
+});
+
+export const toNotificationTemplate = (row: Tables<'notification_templates'>): NotificationTemplate => ({
+  id: row.id,
+  type: row.type as NotificationType,
+  culturalGroup: row.cultural_group as CulturalGroup,
+  language: row.language as PreferredLanguage,
+  title: row.title,
+  message: row.message,
+  actionButtons: fromJson<NotificationTemplate['actionButtons']>(row.action_buttons, undefined),
+  culturalContext: orUndefined(row.cultural_context)
+});
+
+export const fromNotificationTemplate = (template: Omit<NotificationTemplate, 'id'>): TablesInsert<'notification_templates'> => ({
+  type: template.type,
+  cultural_group: template.culturalGroup,
+  language: template.language,
+  title: template.title,
+  message: template.message,
+  action_buttons: toJson(template.actionButtons || []),
+  cultural_context: template.culturalContext ?? null
+});
+
+export const toScheduledNotification = (row: Tables<'scheduled_notifications'>): ScheduledNotification => {
+  const culturalConfig = fromJson<Partial<ScheduledNotification['culturalConfig']>>(row.cultural_config, {});
+  return {
+    id: row.id,
+    userId: row.user_id || '',
+    type: row.type as NotificationType,
+    priority: row.priority as NotificationPriority,
+    title: row.title,
+    message: row.message,
+    scheduledFor: row.scheduled_for,
+    channels: (row.channels || ['push']) as NotificationChannel[],
+    isRecurring: row.is_recurring ?? false,
+    recurrencePattern: orUndefined(row.recurrence_pattern) as RecurrencePattern | undefined,
+    recurrenceConfig: fromJson<ScheduledNotification['recurrenceConfig']>(row.recurrence_config, undefined),
+    // Rows written before the config was stored fall back to the group's defaults
+    culturalConfig: {
+      culturalGroup: 'western',
+      ...BUNDLED_CULTURAL_PACKS[culturalConfig.culturalGroup || 'western'].notificationDelivery,
+      ...culturalConfig
+    },
+    metadata: fromJson<ScheduledNotification['metadata']>(row.metadata, undefined),
+    isActive: row.is_active ?? true,
+    lastSent: orUndefined(row.last_sent),
+    failureCount: row.failure_count ?? 0
+  };
+};
+
+export const fromScheduledNotification = (notification: Omit<ScheduledNotification, 'id'>): TablesInsert<'scheduled_notifications'> => ({
+  user_id: notification.userId,
+  type: notification.type,
+  priority: notification.priority,
+  title: notification.title,
+  message: notification.message,
+  scheduled_for: notification.scheduledFor,
+  channels: notification.channels,
+  is_recurring: notification.isRecurring,
+  recurrence_pattern: notification.recurrencePattern ?? null,
+  recurrence_config: toJson(notification.recurrenceConfig || {}),
+  cultural_config: toJson(notification.culturalConfig),
+  metadata: toJson(notification.metadata || {}),
+  is_active: notification.isActive,
+  last_sent: notification.lastSent ?? null,
+  failure_count: notification.failureCount
+});
+
+export const toNotificationPreferences = (row: Tables<'notification_preferences'>): NotificationPreferences => {
+  const culturalConfig = fromJson<Partial<NotificationPreferences['culturalConfig']>>(row.cultural_config, {});
+  return {
+    id: row.id,
+    userId: row.user_id || '',
+    enabledChannels: (row.enabled_channels || ['push']) as NotificationChannel[],
+    quietHours: fromJson(row.quiet_hours, { enabled: false, start: '22:00', end: '08:00' }),
+    culturalConfig: {
+      culturalGroup: 'western',
+      ...BUNDLED_CULTURAL_PACKS[culturalConfig.culturalGroup || 'western'].notificationDelivery,
+      ...culturalConfig
+    },
+    typePreferences: fromJson(row.type_preferences, {} as NotificationPreferences['typePreferences']),
+    emergencyContacts: row.emergency_contacts || [],
+    familyNotifications: fromJson(row.family_notifications, {
+      enabled: false,
+      contacts: [],
+      includeInRoutine: false,
+      emergencyOnly: true
+    })
+  };
+};
+
+export const fromNotificationPreferences = (
+  preferences: Partial<Omit<NotificationPreferences, 'id'>>
+): Partial<TablesInsert<'notification_preferences'>> => {
+  const row: Partial<TablesInsert<'notification_preferences'>> = {};
+  if (preferences.userId !== undefined) row.user_id = preferences.userId;
+  if (preferences.enabledChannels !== undefined) row.enabled_channels = preferences.enabledChannels;
+  if (preferences.quietHours !== undefined) row.quiet_hours = toJson(preferences.quietHours);
+  if (preferences.culturalConfig !== undefined) row.cultural_config = toJson(preferences.culturalConfig);
+  if (preferences.typePreferences !== undefined) row.type_preferences = toJson(preferences.typePreferences);
+  if (preferences.emergencyContacts !== undefined) row.emergency_contacts = preferences.emergencyContacts;
+  if (preferences.familyNotifications !== undefined) row.family_notifications = toJson(preferences.familyNotifications);
+  return row;
+};
+
+export const toCheckInSchedule = (row: Tables<'check_in_schedules'>): CheckInSchedule => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  isActive: row.is_active,
+  recurrence: (row.recurrence || row.frequency || 'daily') as RecurrencePattern,
+  // time columns read back as HH:mm:ss
+  preferredTime: row.preferred_time.slice(0, 5),
+  timezone: row.timezone,
+  culturalConsiderations: fromJson(row.cultural_considerations, {
+    avoidReligiousHours: false,
+    includeFamilyGreeting: false,
+    useTraditionalPhrases: false
+  }),
+  notifications: fromJson(row.notifications, {
+    reminder: { enabled: false, minutesBefore: 15 },
+    followUp: { enabled: false, minutesAfter: 30 }
+  }),
+  lastCheckIn: orUndefined(row.last_check_in),
+  missedCount: row.missed_count ?? 0,
+  escalationRules: fromJson<CheckInSchedule['escalationRules']>(row.escalation_rules, [])
+});
+
+export const fromCheckInSchedule = (schedule: Omit<CheckInSchedule, 'id'>): TablesInsert<'check_in_schedules'> => ({
+  user_id: schedule.userId,
+  name: schedule.name,
+  is_active: schedule.isActive,
+  recurrence: schedule.recurrence,
+  preferred_time: schedule.preferredTime,
+  timezone: schedule.timezone,
+  cultural_considerations: toJson(schedule.culturalConsiderations),
+  notifications: toJson(schedule.notifications),
+  last_check_in: schedule.lastCheckIn ?? null,
+  missed_count: schedule.missedCount,
+  escalation_rules: toJson(schedule.escalationRules)
+});
+
+export const toFamilyNotification = (row: Tables<'family_notifications'>): FamilyNotification => ({
+  id: row.id,
+  userId: row.user_id || '',
+  familyContactId: row.family_contact_id || '',
+  type: row.type as FamilyNotification['type'],
+  title: row.title,
+  content: row.content,
+  culturalContext: orUndefined(row.cultural_context),
+  includesConversationSummary: row.includes_conversation_summary ?? false,
+  conversationIds: orUndefined(row.conversation_ids),
+  timestamp: row.timestamp || new Date().toISOString(),
+  isRead: row.is_read ?? false,
+  requiresResponse: orUndefined(row.requires_response)
+});
+
+export const fromFamilyNotification = (notification: Omit<FamilyNotification, 'id'>): TablesInsert<'family_notifications'> => ({
+  user_id: notification.userId,
+  family_contact_id: notification.familyContactId || null,
+  type: notification.type,
+  title: notification.title,
+  content: notification.content,
+  cultural_context: notification.culturalContext ?? null,
+  includes_conversation_summary: notification.includesConversationSummary,
+  conversation_ids: notification.conversationIds ?? null,
+  timestamp: notification.timestamp,
+  is_read: notification.isRead,
+  requires_response: notification.requiresResponse ?? false
+});
+
+export const toCaregiverAlert = (row: Tables<'caregiver_alerts'>): CaregiverAlert => ({
+  id: row.id,
+  userId: row.user_id || '',
+  caregiverId: row.caregiver_id || '',
+  alertType: row.alert_type as CaregiverAlert['alertType'],
+  severity: row.severity as NotificationPriority,
+  title: row.title,
+  description: row.description,
+  culturalContext: orUndefined(row.cultural_context),
+  actionRequired: row.action_required ?? false,
+  suggestedActions: orUndefined(row.suggested_actions),
+  timestamp: row.timestamp || new Date().toISOString(),
+  isResolved: row.is_resolved ?? false,
+  resolvedBy: orUndefined(row.resolved_by),
+  resolvedAt: orUndefined(row.resolved_at),
+  notes: orUndefined(row.notes)
+});
+
+export const fromCaregiverAlert = (alert: Omit<CaregiverAlert, 'id'>): TablesInsert<'caregiver_alerts'> => ({
+  user_id: alert.userId,
+  caregiver_id: alert.caregiverId || null,
+  alert_type: alert.alertType,
+  severity: alert.severity,
+  title: alert.title,
+  description: alert.description,
+  cultural_context: alert.culturalContext ?? null,
+  action_required: alert.actionRequired,
+  suggested_actions: alert.suggestedActions ?? null,
+  timestamp: alert.timestamp,
+  is_resolved: alert.isResolved,
+  resolved_by: alert.resolvedBy ?? null,
+  resolved_at: alert.resolvedAt ?? null,
+  notes: alert.notes ?? null
+});
+
+export const toWellnessIndicator = (row: Tables<'wellness_indicators'>): WellnessIndicator => ({
+  id: row.id,
+  userId: row.user_id || '',
+  date: row.date,
+  checkInCompleted: row.check_in_completed ?? false,
+  conversationQuality: (row.conversation_quality || 'fair') as WellnessIndicator['conversationQuality'],
+  moodIndicators: { ...DEFAULT_MOOD, ...fromJson(row.mood_indicators, {}) },
+  culturalEngagement: { ...DEFAULT_CULTURAL_ENGAGEMENT, ...fromJson(row.cultural_engagement, {}) },
+  concerns: row.concerns || [],
+  positiveNotes: row.positive_notes || []
+});
+
+export const fromWellnessIndicator = (indicator: Omit<WellnessIndicator, 'id'>): TablesInsert<'wellness_indicators'> => ({
+  user_id: indicator.userId,
+  date: indicator.date,
+  check_in_completed: indicator.checkInCompleted,
+  conversation_quality: indicator.conversationQuality,
+  mood_indicators: toJson(indicator.moodIndicators),
+  cultural_engagement: toJson(indicator.culturalEngagement),
+  concerns: indicator.concerns,
+  positive_notes: indicator.positiveNotes
+});
+
+export const toNotificationDeliveryLog = (row: Tables<'notification_delivery_logs'>): NotificationDeliveryLog => ({
+  id: row.id,
+  notificationId: row.notification_id || '',
+  userId: row.user_id || '',
+  channel: row.channel as NotificationChannel,
+  status: row.status as NotificationDeliveryLog['status'],
+  timestamp: row.timestamp || new Date().toISOString(),
+  errorMessage: orUndefined(row.error_message),
+  retryCount: row.retry_count ?? 0,
+  culturalAdaptations: orUndefined(row.cultural_adaptations)
+});
+
+export const fromNotificationDeliveryLog = (log: Omit<NotificationDeliveryLog, 'id'>): TablesInsert<'notification_delivery_logs'> => ({
+  notification_id: log.notificationId || null,
+  user_id: log.userId,
+  channel: log.channel,
+  status: log.status,
+  timestamp: log.timestamp,
+  error_message: log.errorMessage ?? null,
+  retry_count: log.retryCount,
+  cultural_adaptations: log.culturalAdaptations ?? null
+});
@@ -1,44 +1,151 @@
 import { supabase } from './supabaseClient';
+import { MemoryMetadata, Tables, UserMemory, VoiceProfile } from '../../types';
+import SyncEngine, { SyncResult } from '../sync/SyncEngine';
+import { createUuid } from '../../utils/ids';
+import { fromVoiceProfile, toUserMemory, toVoiceProfile } from './mappers';
 
-export async function fetchUserProfile(userId: string) {
-  return supabase
+type UserProfile = Tables<'profiles'>;
+
+type ProfileFields = { full_name?: string; phone_number?: string };
+
+const memoriesScope = (userId: string) => `user_memories:${userId}`;
+const voicePreferencesScope = (userId: string) => `voice_preferences:${userId}`;
+
+// Reads fall back to the last copy fetched and include changes not yet synced
+
+export async function fetchUserProfile(userId: string): Promise<SyncResult<UserProfile>> {
+  return SyncEngine.read<UserProfile>('profiles', `profiles:${userId}`, () => supabase
     .from('profiles')
     .select('*')
     .eq('id', userId)
-    .single();
+    .single());
 }
 
-export async function updateUserProfile(userId: string, profileData: { full_name?: string; phone_number?: string }) {
-  return supabase
-    .from('profiles')
-    .update(profileData)
-    .eq('id', userId);
+// Writes resolve once the change is queued on the device; SyncEngine uploads it
+
+export async function updateUserProfile(userId: string, profileData: ProfileFields, previous?: ProfileFields): Promise<SyncResult<null>> {
+  await SyncEngine.enqueue({
+    entity: 'profiles',
+    operation: 'update',
+    recordId: userId,
+    changes: profileData,
+    baseValues: previous
+  });
+  return { data: null, error: null };
 }
 
-export async function fetchUserMemories(userId: string) {
-  return supabase
+export async function fetchUserMemories(userId: string): Promise<SyncResult<UserMemory[]>> {
+  const { data, error } = await SyncEngine.read<Tables<'user_memories'>[]>('user_memories', memoriesScope(userId), () => supabase
     .from('user_memories')
     .select('*')
     .eq('user_id', userId)
-    .order('created_at', { ascending: true });
+    .order('created_at', { ascending: true }));
+  return { data: data ? data.map(toUserMemory) : null, error };
 }
 
-export async function addUserMemory(userId: string, memory: { type: string; content: string; metadata?: object }) {
-  return supabase
-    .from('user_memories')
-    .insert([{ user_id: userId, ...memory }]);
+export async function addUserMemory(
+  userId: string,
+  memory: { type: string; content: string; metadata?: Partial<MemoryMetadata> }
+): Promise<SyncResult<UserMemory>> {
+  const row: UserMemory = {
+    // Generated here so a memory added offline keeps its id once synced
+    id: createUuid(),
+    user_id: userId,
+    ...memory,
+    created_at: new Date().toISOString()
+  };
+  await SyncEngine.enqueue({
+    entity: 'user_memories',
+    operation: 'insert',
+    recordId: row.id,
+    changes: { ...row },
+    scope: memoriesScope(userId)
+  });
+  return { data: row, error: null };
 }
 
-export async function updateUserMemory(memoryId: string, content: string) {
-  return supabase
-    .from('user_memories')
-    .update({ content })
-    .eq('id', memoryId);
+/**
+ * `previous` is the memory as the caller loaded it; passing it lets a
+ * family edit and a change from another device both survive the sync.
+ */
+export async function updateUserMemory(
+  memoryId: string,
+  content: string,
+  metadata?: Partial<MemoryMetadata>,
+  previous?: Pick<UserMemory, 'content' | 'metadata'>
+): Promise<SyncResult<null>> {
+  await SyncEngine.enqueue({
+    entity: 'user_memories',
+    operation: 'update',
+    recordId: memoryId,
+    changes: metadata ? { content, metadata } : { content },
+    baseValues: previous ? { content: previous.content, metadata: previous.metadata || {} } : undefined
+  });
+  return { data: null, error: null };
 }
 
-export async function deleteUserMemory(memoryId: string) {
-  return supabase
-    .from('user_memories')
-    .delete()
-    .eq('id', memoryId);
-} 
\ No newline at end of file
+export async function updateUserMemoryMetadata(
+  memoryId: string,
+  metadata: Partial<MemoryMetadata>,
+  previous?: Partial<MemoryMetadata> | null
+): Promise<SyncResult<null>> {
+  await SyncEngine.enqueue({
+    entity: 'user_memories',
+    operation: 'update',
+    recordId: memoryId,
+    changes: { metadata },
+    baseValues: previous !== undefined ? { metadata: previous || {} } : undefined
+  });
+  return { data: null, error: null };
+}
+
+export async function deleteUserMemory(memoryId: string): Promise<SyncResult<null>> {
+  await SyncEngine.enqueue({
+    entity: 'user_memories',
+    operation: 'delete',
+    recordId: memoryId,
+    changes: {}
+  });
+  return { data: null, error: null };
+}
+
+export async function fetchVoiceProfiles(userId: string): Promise<SyncResult<VoiceProfile[]>> {
+  const { data, error } = await SyncEngine.read<Tables<'voice_preferences'>[]>('voice_preferences', voicePreferencesScope(userId), () => supabase
+    .from('voice_preferences')
+    .select('*')
+    .eq('user_id', userId));
+  return { data: data ? data.map(toVoiceProfile) : null, error };
+}
+
+// A profile for a language the user has not set up before; `profile.id` is generated on the device
+export async function addVoiceProfile(profile: VoiceProfile): Promise<SyncResult<VoiceProfile>> {
+  await SyncEngine.enqueue({
+    entity: 'voice_preferences',
+    operation: 'insert',
+    recordId: profile.id,
+    changes: { ...fromVoiceProfile(profile) },
+    scope: voicePreferencesScope(profile.userId)
+  });
+  return { data: profile, error: null };
+}
+
+// The columns a profile edit may change; who and which language it is for are fixed
+const voiceProfileChanges = (profile: VoiceProfile): Record<string, unknown> => {
+  const changes: Record<string, unknown> = { ...fromVoiceProfile(profile) };
+  delete changes.id;
+  delete changes.user_id;
+  delete changes.language;
+  return changes;
+};
+
+// `previous` is the profile as the caller loaded it, so edits on two devices settle field by field
+export async function updateVoiceProfile(profile: VoiceProfile, previous?: VoiceProfile): Promise<SyncResult<null>> {
+  await SyncEngine.enqueue({
+    entity: 'voice_preferences',
+    operation: 'update',
+    recordId: profile.id,
+    changes: voiceProfileChanges(profile),
+    baseValues: previous ? voiceProfileChanges(previous) : undefined
+  });
+  return { data: null, error: null };
+}
@@ -0,0 +1,37 @@
+import { TableRepository, TableName } from './TableRepository';
+
+type Repositories = { [T in TableName]: TableRepository<T> };
+
+/**
+ * One repository per table in the generated Database type, keyed by table
+ * name, e.g. `tables.wellness_indicators.find({ user_id })`. Adding a table
+ * to the schema without adding it here fails to compile.
+ */
+export const tables: Repositories = {
+  admin_users: new TableRepository('admin_users', 'user_id'),
+  audit_logs: new TableRepository('audit_logs', 'uid'),
+  cached_phrases: new TableRepository('cached_phrases'),
+  caregiver_alerts: new TableRepository('caregiver_alerts'),
+  check_in_schedules: new TableRepository('check_in_schedules'),
+  conversation_preferences: new TableRepository('conversation_preferences'),
+  conversations: new TableRepository('conversations'),
+  cultural_contexts: new TableRepository('cultural_contexts'),
+  cultural_profiles: new TableRepository('cultural_profiles'),
+  emergency_contacts: new TableRepository('emergency_contacts'),
+  emotion_tracking: new TableRepository('emotion_tracking'),
+  error_logs: new TableRepository('error_logs', 'uid'),
+  family_notifications: new TableRepository('family_notifications'),
+  notification_delivery_logs: new TableRepository('notification_delivery_logs'),
+  notification_preferences: new TableRepository('notification_preferences'),
+  notification_templates: new TableRepository('notification_templates'),
+  notifications: new TableRepository('notifications'),
+  profiles: new TableRepository('profiles'),
+  pronunciation_lexicon: new TableRepository('pronunciation_lexicon'),
+  scheduled_notifications: new TableRepository('scheduled_notifications'),
+  user_memories: new TableRepository('user_memories'),
+  users: new TableRepository('users'),
+  voice_preferences: new TableRepository('voice_preferences'),
+  wellness_concerns: new TableRepository('wellness_concerns'),
+  wellness_indicators: new TableRepository('wellness_indicators'),
+  wellness_reports: new TableRepository('wellness_reports')
+};
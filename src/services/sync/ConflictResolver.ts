@@ -0,0 +1,176 @@
+import { OutboxMutation, SyncConflict, ConflictResolution } from '../../types';
+
+// Object columns compared key by key, so edits to different keys both survive
+const NESTED_FIELDS = ['metadata'];
+
+// Per-field ISO timestamps of the last write, kept in each synced row
+export const FIELD_TIMESTAMPS_COLUMN = 'field_updated_at';
+
+type FieldMerger = (local: unknown, remote: unknown) => unknown;
+
+const latest = (local: unknown, remote: unknown): unknown => String(local ?? '') > String(remote ?? '') ? local : remote;
+
+// Fields where both sides are right and the values can be combined
+const FIELD_MERGERS: Record<string, FieldMerger> = {
+  'metadata.mentions': (local, remote) => Math.max(Number(local) || 0, Number(remote) || 0),
+  'metadata.lastMentionedAt': latest,
+  'metadata.reviewedAt': latest,
+  'metadata.revisions': (local, remote) => {
+    const all = [...(Array.isArray(remote) ? remote : []), ...(Array.isArray(local) ? local : [])] as Array<{ content: string; replacedAt: string }>;
+    const seen = new Set<string>();
+    return all
+      .filter(revision => {
+        const key = `${revision.replacedAt}|${revision.content}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => a.replacedAt.localeCompare(b.replacedAt));
+  }
+};
+
+const REVIEWED_STATUSES = ['confirmed', 'rejected'];
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * One level of nesting flattened into dotted keys, e.g.
+ * `{ metadata: { status } }` -> `{ 'metadata.status': status }`.
+ */
+export const flattenFields = (values: Record<string, unknown>): Record<string, unknown> => {
+  const flat: Record<string, unknown> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (NESTED_FIELDS.includes(key) && isPlainObject(value)) {
+      Object.entries(value).forEach(([nestedKey, nestedValue]) => {
+        flat[`${key}.${nestedKey}`] = nestedValue;
+      });
+    } else {
+      flat[key] = value;
+    }
+  });
+  return flat;
+};
+
+/**
+ * Writes dotted keys back onto a copy of `row`. Nested objects start from
+ * the row's current value so keys the mutation did not touch are kept.
+ */
+export const applyFields = (row: Record<string, unknown>, fields: Record<string, unknown>): Record<string, unknown> => {
+  const result: Record<string, unknown> = { ...row };
+  Object.entries(fields).forEach(([field, value]) => {
+    const [key, nestedKey] = field.split('.', 2);
+    if (nestedKey === undefined) {
+      result[key] = value;
+      return;
+    }
+    const nested = isPlainObject(result[key]) ? { ...(result[key] as Record<string, unknown>) } : {};
+    if (value === undefined) {
+      delete nested[nestedKey];
+    } else {
+      nested[nestedKey] = value;
+    }
+    result[key] = nested;
+  });
+  return result;
+};
+
+export interface ResolvedUpdate {
+  update: Record<string, unknown>; // Columns to write, with nested objects whole
+  conflicts: SyncConflict[];
+}
+
+const resolveField = (
+  field: string,
+  local: unknown,
+  remote: unknown,
+  localTimestamp: string,
+  remoteTimestamp: string | undefined
+): { value: unknown; resolution: ConflictResolution } => {
+  const merger = FIELD_MERGERS[field];
+  if (merger) {
+    return { value: merger(local, remote), resolution: 'merged' };
+  }
+  // A family confirmation or rejection is never undone by the device's automatic updates
+  if (field === 'metadata.status' && local === 'unverified' && REVIEWED_STATUSES.includes(String(remote))) {
+    return { value: remote, resolution: 'remote' };
+  }
+  // Otherwise the later edit of this field wins; a change of unknown age is kept
+  return remoteTimestamp && localTimestamp >= remoteTimestamp
+    ? { value: local, resolution: 'local' }
+    : { value: remote, resolution: 'remote' };
+};
+
+/**
+ * Settles a queued update against the row as it is now on the server.
+ * Fields nobody else changed since the edit was made are written as-is;
+ * fields changed on both sides are merged where that makes sense and
+ * otherwise go to whichever side edited them last.
+ */
+export const resolveUpdate = (mutation: OutboxMutation, remoteRow: Record<string, unknown>): ResolvedUpdate => {
+  const localFields = flattenFields(mutation.changes);
+  const baseFields = flattenFields(mutation.baseValues || {});
+  const remoteFields = flattenFields(remoteRow);
+  const remoteTimestamps = (remoteRow[FIELD_TIMESTAMPS_COLUMN] as Record<string, string> | null) || {};
+  const rowTimestamp = (remoteRow.updated_at as string | undefined) || undefined;
+
+  const resolved: Record<string, unknown> = {};
+  const timestamps: Record<string, string> = { ...remoteTimestamps };
+  const conflicts: SyncConflict[] = [];
+
+  Object.entries(localFields).forEach(([field, local]) => {
+    const remote = remoteFields[field];
+    if (isSameValue(local, remote)) {
+      return;
+    }
+
+    const remoteTimestamp = remoteTimestamps[field] || rowTimestamp;
+    const remoteChanged = field in baseFields
+      ? !isSameValue(remote, baseFields[field])
+      : !!remoteTimestamp && remoteTimestamp > mutation.clientTimestamp;
+
+    if (!remoteChanged) {
+      resolved[field] = local;
+      timestamps[field] = mutation.clientTimestamp;
+      return;
+    }
+
+    const { value, resolution } = resolveField(field, local, remote, mutation.clientTimestamp, remoteTimestamp);
+    conflicts.push({
+      entity: mutation.entity,
+      recordId: mutation.recordId,
+      field,
+      localValue: local,
+      remoteValue: remote,
+      resolution,
+      resolvedAt: new Date().toISOString()
+    });
+    if (resolution !== 'remote') {
+      resolved[field] = value;
+      timestamps[field] = mutation.clientTimestamp;
+    }
+  });
+
+  if (Object.keys(resolved).length === 0) {
+    return { update: {}, conflicts };
+  }
+
+  const merged = applyFields(remoteRow, resolved);
+  const update: Record<string, unknown> = { [FIELD_TIMESTAMPS_COLUMN]: timestamps };
+  Object.keys(resolved).forEach(field => {
+    const [key] = field.split('.', 1);
+    update[key] = merged[key];
+  });
+  return { update, conflicts };
+};
+
+// Stamps every written field with the edit's time, for inserts
+export const getFieldTimestamps = (changes: Record<string, unknown>, timestamp: string): Record<string, string> => {
+  const timestamps: Record<string, string> = {};
+  Object.keys(flattenFields(changes)).forEach(field => {
+    timestamps[field] = timestamp;
+  });
+  return timestamps;
+};
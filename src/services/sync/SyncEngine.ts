@@ -0,0 +1,472 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../supabase/supabaseClient';
+import NetworkOptimizer from '../performance/NetworkOptimizer';
+import { OutboxMutation, SyncConflict, SyncEntity, SyncState } from '../../types';
+import { resolveUpdate, applyFields, flattenFields, getFieldTimestamps, FIELD_TIMESTAMPS_COLUMN } from './ConflictResolver';
+
+// Same shape as a Supabase response, so callers read offline results the same way
+export interface SyncResult<T> {
+  data: T | null;
+  error: Error | null;
+}
+
+export type SyncStateListener = (state: SyncState) => void;
+
+export type NewOutboxMutation = Omit<OutboxMutation, 'id' | 'clientTimestamp' | 'attempts'>;
+
+type Row = Record<string, unknown>;
+
+const OUTBOX_KEY = 'sync_outbox';
+const CONFLICTS_KEY = 'sync_conflicts';
+const SNAPSHOT_KEY_PREFIX = 'sync_snapshot_';
+
+// A mutation the server keeps refusing is dropped after this many refusals
+const MAX_ATTEMPTS = 5;
+// Retries wait twice as long after each failure, up to the maximum
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_RECENT_CONFLICTS = 50;
+const UNIQUE_VIOLATION = '23505';
+// Postgres error class 23, integrity constraint violations
+const CONSTRAINT_VIOLATION_CLASS = '23';
+const UNAUTHORIZED = 401;
+// Answers that say the change itself is wrong, so sending it again cannot help
+const REFUSAL_STATUSES = new Set([400, 403, 404, 409, 422]);
+
+const createMutationId = (): string => `mut_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const toError = (error: unknown): Error => {
+  if (error instanceof Error) return error;
+  const message = (error as { message?: string })?.message;
+  return new Error(message || String(error));
+};
+
+// A failed Supabase request; status 0 means no response came back
+class SyncRequestError extends Error {
+  public readonly status: number;
+  public readonly code?: string;
+
+  constructor(error: { message?: string; code?: string }, status: number) {
+    super(error.message || `Request failed with status ${status}`);
+    this.name = 'SyncRequestError';
+    this.status = status;
+    this.code = error.code || undefined;
+  }
+}
+
+const throwIfFailed = ({ error, status }: { error: { message?: string; code?: string } | null; status: number }): void => {
+  if (error) throw new SyncRequestError(error, status);
+};
+
+/**
+ * Whether Supabase refused the change itself. Anything else (no response, an
+ * expired session, a timeout, rate limiting, a server error) says nothing
+ * about the change, so it is retried without counting against it.
+ */
+const isRefusal = (error: unknown): boolean =>
+  error instanceof SyncRequestError &&
+  (REFUSAL_STATUSES.has(error.status) || Boolean(error.code?.startsWith(CONSTRAINT_VIOLATION_CLASS)));
+
+// Failures where Supabase was never reached; fetch rejects with a TypeError
+const isNetworkError = (error: unknown): boolean =>
+  error instanceof SyncRequestError ? error.status === 0 : error instanceof TypeError;
+
+const getRetryDelay = (failures: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(failures - 1, 0)), MAX_RETRY_DELAY_MS);
+
+const getRecordKey = (mutation: OutboxMutation): string => `${mutation.entity}:${mutation.recordId}`;
+
+/**
+ * Offline-first writes for memories, profiles and voice preferences. Every
+ * change is saved to an outbox on the device with the time it was made,
+ * shown to reads at once, and replayed against Supabase in order whenever
+ * the connection allows. Fields edited both here and elsewhere in the meantime are settled
+ * field by field (see ConflictResolver). A change Supabase refuses is retried
+ * with backoff while the rest of the outbox carries on, and after
+ * MAX_ATTEMPTS refusals it is discarded and recorded as a rejected conflict.
+ * When Supabase cannot be reached or is failing, the whole outbox backs off
+ * instead and no change is counted as refused.
+ */
+class SyncEngine {
+  private outbox: OutboxMutation[] = [];
+  private conflicts: SyncConflict[] = [];
+  private state: SyncState = { status: 'synced', pending: 0, recentConflicts: [] };
+  private listeners: Set<SyncStateListener> = new Set();
+  private loaded: Promise<void>;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Replays in a row that failed for reasons other than a refusal, for the backoff
+  private transientFailures = 0;
+  // Replays wait until then after such a failure, epoch ms
+  private pausedUntil = 0;
+
+  constructor() {
+    this.loaded = this.loadOutbox();
+    // Changes left over from the last session go up as soon as possible
+    this.loaded.then(() => this.flush());
+    NetworkOptimizer.addConnectionListener(isOnline => {
+      if (isOnline) {
+        this.pausedUntil = 0;
+        this.flush();
+      } else {
+        this.updateState({ status: 'offline' });
+      }
+    });
+  }
+
+  /**
+   * Records a change and starts replaying the outbox. Resolves once the
+   * change is safe on the device, not when Supabase has it.
+   */
+  async enqueue(input: NewOutboxMutation): Promise<OutboxMutation> {
+    await this.loaded;
+    const mutation: OutboxMutation = {
+      ...input,
+      id: createMutationId(),
+      clientTimestamp: new Date().toISOString(),
+      attempts: 0
+    };
+
+    // Deleting a record Supabase has not seen yet cancels it outright
+    const pendingInsert = this.outbox.some(queued =>
+      queued.entity === mutation.entity && queued.recordId === mutation.recordId && queued.operation === 'insert'
+    );
+    if (mutation.operation === 'delete' && pendingInsert && !this.flushing) {
+      this.outbox = this.outbox.filter(queued => !(queued.entity === mutation.entity && queued.recordId === mutation.recordId));
+    } else {
+      this.outbox.push(mutation);
+    }
+
+    await this.saveOutbox();
+    if (Date.now() < this.pausedUntil) {
+      // Keeps showing why the outbox is waiting
+      this.updateState({});
+    } else {
+      this.updateState({ status: NetworkOptimizer.isConnected() ? 'pending' : 'offline' });
+    }
+    this.flush();
+    return mutation;
+  }
+
+  /**
+   * Fetches through Supabase when possible and keeps the result for when
+   * it is not. Either way, changes still waiting in the outbox are applied
+   * on top so the caller sees its own edits.
+   */
+  async read<T>(
+    entity: SyncEntity,
+    scope: string,
+    fetcher: () => PromiseLike<{ data: T | null; error: unknown }>
+  ): Promise<SyncResult<T>> {
+    await this.loaded;
+    let data: T | null = null;
+    try {
+      const response = await fetcher();
+      if (response.error) {
+        throw response.error;
+      }
+      data = response.data;
+      await AsyncStorage.setItem(`${SNAPSHOT_KEY_PREFIX}${scope}`, JSON.stringify(data));
+    } catch (error) {
+      const snapshot = await AsyncStorage.getItem(`${SNAPSHOT_KEY_PREFIX}${scope}`);
+      if (!snapshot) {
+        return { data: null, error: toError(error) };
+      }
+      data = JSON.parse(snapshot);
+    }
+    return { data: this.applyPending(entity, scope, data), error: null };
+  }
+
+  /**
+   * Replays queued changes in the order they were made. Stops at the first
+   * failure that is not a refusal and picks up again after a backoff, or
+   * sooner on reconnect or when the user asks to try again.
+   */
+  async flush(): Promise<void> {
+    await this.loaded;
+    if (this.flushing) {
+      return this.flushing;
+    }
+    if (this.outbox.length === 0) {
+      this.updateState({ status: 'synced' });
+      return;
+    }
+    if (!NetworkOptimizer.isConnected()) {
+      this.updateState({ status: 'offline' });
+      return;
+    }
+    if (Date.now() < this.pausedUntil) {
+      return;
+    }
+
+    this.flushing = this.replay();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  /**
+   * Replays the outbox now, including changes waiting out a backoff, for
+   * when the user asks to try again.
+   */
+  async retry(): Promise<void> {
+    await this.loaded;
+    this.pausedUntil = 0;
+    this.outbox.forEach(mutation => {
+      mutation.nextAttemptAt = undefined;
+    });
+    return this.flush();
+  }
+
+  /**
+   * Clears rejected changes from the sync state once the user has seen them.
+   */
+  async dismissRejected(): Promise<void> {
+    this.conflicts = this.conflicts.filter(conflict => conflict.resolution !== 'rejected');
+    await this.saveConflicts();
+  }
+
+  getState(): SyncState {
+    return { ...this.state };
+  }
+
+  subscribe(listener: SyncStateListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sends each change that is due, in order. A refused change waits out its
+   * backoff, and later changes to the same record wait behind it, while
+   * changes to other records go ahead.
+   */
+  private async replay(): Promise<void> {
+    this.updateState({ status: 'syncing', lastError: undefined });
+    const now = Date.now();
+    const heldRecords = new Set<string>();
+    let lastError: string | undefined;
+    let index = 0;
+
+    // Changes enqueued meanwhile are appended, so they are sent in this pass too
+    while (index < this.outbox.length) {
+      const mutation = this.outbox[index];
+      const key = getRecordKey(mutation);
+      if (heldRecords.has(key) || (mutation.nextAttemptAt && Date.parse(mutation.nextAttemptAt) > now)) {
+        heldRecords.add(key);
+        lastError = mutation.lastError || lastError;
+        index++;
+        continue;
+      }
+
+      try {
+        await this.apply(mutation);
+        this.transientFailures = 0;
+        this.outbox.splice(index, 1);
+      } catch (error) {
+        const message = toError(error).message;
+        if (!isRefusal(error)) {
+          await this.backOff(error, message);
+          return;
+        }
+        mutation.attempts++;
+        mutation.lastError = message;
+        if (mutation.attempts >= MAX_ATTEMPTS) {
+          this.outbox.splice(index, 1);
+          await this.recordConflicts([{
+            entity: mutation.entity,
+            recordId: mutation.recordId,
+            field: '*',
+            localValue: mutation.changes,
+            remoteValue: null,
+            resolution: 'rejected',
+            resolvedAt: new Date().toISOString(),
+            reason: message
+          }]);
+        } else {
+          mutation.nextAttemptAt = new Date(Date.now() + getRetryDelay(mutation.attempts)).toISOString();
+          heldRecords.add(key);
+          lastError = message;
+          index++;
+        }
+      }
+      await this.saveOutbox();
+    }
+
+    if (this.outbox.length > 0) {
+      this.scheduleNextAttempt();
+      this.updateState({ status: 'error', lastError });
+      return;
+    }
+    this.updateState({ status: 'synced', lastSyncedAt: new Date().toISOString() });
+  }
+
+  // Pauses the whole outbox after a failure that is not the change's fault
+  private async backOff(error: unknown, message: string): Promise<void> {
+    if (error instanceof SyncRequestError && error.status === UNAUTHORIZED) {
+      // The next attempt goes out with the refreshed token
+      try {
+        await supabase.auth.refreshSession();
+      } catch (refreshError) {
+        console.warn('Failed to refresh session for sync:', refreshError);
+      }
+    }
+    this.transientFailures++;
+    const delay = getRetryDelay(this.transientFailures);
+    this.pausedUntil = Date.now() + delay;
+    this.scheduleRetry(delay);
+    this.updateState({ status: isNetworkError(error) ? 'offline' : 'error', lastError: message });
+  }
+
+  // Wakes the outbox when the first refused change is due again
+  private scheduleNextAttempt(): void {
+    const due = this.outbox
+      .map(mutation => (mutation.nextAttemptAt ? Date.parse(mutation.nextAttemptAt) : NaN))
+      .filter(time => !Number.isNaN(time));
+    if (due.length > 0) {
+      this.scheduleRetry(Math.max(Math.min(...due) - Date.now(), 0));
+    }
+  }
+
+  private scheduleRetry(delay: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private async apply(mutation: OutboxMutation): Promise<void> {
+    if (mutation.operation === 'insert') {
+      const response = await supabase
+        .from(mutation.entity)
+        .insert([{
+          ...mutation.changes,
+          id: mutation.recordId,
+          [FIELD_TIMESTAMPS_COLUMN]: getFieldTimestamps(mutation.changes, mutation.clientTimestamp)
+        }]);
+      // Already applied by an earlier attempt whose response was lost
+      if (response.error?.code !== UNIQUE_VIOLATION) {
+        throwIfFailed(response);
+      }
+      return;
+    }
+
+    if (mutation.operation === 'delete') {
+      throwIfFailed(await supabase.from(mutation.entity).delete().eq('id', mutation.recordId));
+      return;
+    }
+
+    const fetched = await supabase
+      .from(mutation.entity)
+      .select('*')
+      .eq('id', mutation.recordId)
+      .maybeSingle();
+    throwIfFailed(fetched);
+    const remote = fetched.data;
+    if (!remote) {
+      // Deleted elsewhere; a delete is never undone by an edit made before it was seen
+      await this.recordConflicts([{
+        entity: mutation.entity,
+        recordId: mutation.recordId,
+        field: '*',
+        localValue: mutation.changes,
+        remoteValue: null,
+        resolution: 'remote',
+        resolvedAt: new Date().toISOString()
+      }]);
+      return;
+    }
+
+    const { update, conflicts } = resolveUpdate(mutation, remote as Row);
+    if (conflicts.length > 0) {
+      await this.recordConflicts(conflicts);
+    }
+    if (Object.keys(update).length === 0) {
+      return;
+    }
+    throwIfFailed(await supabase.from(mutation.entity).update(update).eq('id', mutation.recordId));
+  }
+
+  // Pending changes laid over fetched rows, as Supabase will have them once replayed
+  private applyPending<T>(entity: SyncEntity, scope: string, data: T | null): T | null {
+    const pending = this.outbox.filter(mutation => mutation.entity === entity);
+    if (pending.length === 0 || data === null) {
+      return data;
+    }
+
+    const single = !Array.isArray(data);
+    let rows = (single ? [data] : data) as Row[];
+
+    pending.forEach(mutation => {
+      if (mutation.operation === 'insert') {
+        if (!single && mutation.scope === scope && !rows.some(row => row.id === mutation.recordId)) {
+          rows = [...rows, { ...mutation.changes, id: mutation.recordId }];
+        }
+      } else if (mutation.operation === 'delete') {
+        rows = rows.filter(row => row.id !== mutation.recordId);
+      } else {
+        rows = rows.map(row => row.id === mutation.recordId ? applyFields(row, flattenFields(mutation.changes)) : row);
+      }
+    });
+
+    return (single ? rows[0] ?? null : rows) as T | null;
+  }
+
+  private async recordConflicts(conflicts: SyncConflict[]): Promise<void> {
+    this.conflicts = [...this.conflicts, ...conflicts].slice(-MAX_RECENT_CONFLICTS);
+    await this.saveConflicts();
+  }
+
+  private async saveConflicts(): Promise<void> {
+    this.updateState({});
+    try {
+      await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(this.conflicts));
+    } catch (error) {
+      console.warn('Failed to save sync conflicts:', error);
+    }
+  }
+
+  private updateState(changes: Partial<SyncState>): void {
+    this.state = {
+      ...this.state,
+      ...changes,
+      pending: this.outbox.length,
+      recentConflicts: [...this.conflicts]
+    };
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.warn('Sync state listener failed:', error);
+      }
+    });
+  }
+
+  private async loadOutbox(): Promise<void> {
+    try {
+      const [outbox, conflicts] = await Promise.all([
+        AsyncStorage.getItem(OUTBOX_KEY),
+        AsyncStorage.getItem(CONFLICTS_KEY)
+      ]);
+      this.outbox = outbox ? JSON.parse(outbox) : [];
+      this.conflicts = conflicts ? JSON.parse(conflicts) : [];
+      this.updateState({ status: this.outbox.length > 0 ? 'pending' : 'synced' });
+    } catch (error) {
+      console.error('Error loading sync outbox:', error);
+    }
+  }
+
+  private async saveOutbox(): Promise<void> {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.outbox));
+  }
+}
+
+export default new SyncEngine();
@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, mock, test } from 'node:test';
+import { setImmediate } from 'node:timers/promises';
+import { mockModule } from '../../../__tests__/mockModule';
+import { NewOutboxMutation } from '../SyncEngine';
+
+interface FakeResponse {
+  error: { message: string; code?: string } | null;
+  status: number;
+}
+
+const OK: FakeResponse = { error: null, status: 201 };
+const UNAVAILABLE: FakeResponse = { error: { message: 'Service Unavailable' }, status: 503 };
+
+const storage = new Map<string, string>();
+const requests: string[] = [];
+let respond = (): FakeResponse => OK;
+let sessionRefreshes = 0;
+
+// Every query answers with respond() once awaited, however it was built
+const query = (description: string) => {
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    maybeSingle: () => builder,
+    then: <T>(onFulfilled: (response: FakeResponse) => T, onRejected?: (reason: unknown) => T) => {
+      requests.push(description);
+      return Promise.resolve(respond()).then(onFulfilled, onRejected);
+    }
+  };
+  return builder;
+};
+
+mockModule(require.resolve('@react-native-async-storage/async-storage'), {
+  default: {
+    getItem: async (key: string) => storage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      storage.set(key, value);
+    }
+  }
+});
+mockModule(require.resolve('../../supabase/supabaseClient'), {
+  supabase: {
+    from: (table: string) => ({
+      insert: () => query(`insert ${table}`),
+      update: () => query(`update ${table}`),
+      delete: () => query(`delete ${table}`),
+      select: () => query(`select ${table}`)
+    }),
+    auth: {
+      refreshSession: async () => {
+        sessionRefreshes++;
+        return { data: {}, error: null };
+      }
+    }
+  }
+});
+mockModule(require.resolve('../../performance/NetworkOptimizer'), {
+  default: {
+    isConnected: () => true,
+    addConnectionListener: () => () => {}
+  }
+});
+
+const memory = (recordId: string): NewOutboxMutation => ({
+  entity: 'user_memories',
+  operation: 'insert',
+  recordId,
+  changes: { user_id: 'user-1', type: 'people', content: 'Daughter Aroha visits on Sundays' }
+});
+
+// Lets every pending promise run; the fakes never wait on a timer
+const settle = () => setImmediate();
+
+// Moves the clock a second at a time so each retry can schedule the next
+const advance = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+    mock.timers.tick(1000);
+    await settle();
+  }
+};
+
+describe('SyncEngine', () => {
+  let SyncEngine: typeof import('../SyncEngine').default;
+
+  before(async () => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+    ({ default: SyncEngine } = await import('../SyncEngine'));
+    await settle();
+  });
+
+  after(() => {
+    mock.timers.reset();
+  });
+
+  beforeEach(async () => {
+    respond = () => OK;
+    requests.length = 0;
+    sessionRefreshes = 0;
+    await SyncEngine.dismissRejected();
+  });
+
+  const rejected = () => SyncEngine.getState().recentConflicts.filter(conflict => conflict.resolution === 'rejected');
+
+  test('keeps a change through a 503 outage longer than the retry window', async () => {
+    respond = () => UNAVAILABLE;
+    await SyncEngine.enqueue(memory('outage'));
+    await settle();
+
+    // Five refusals would have dropped it within half a minute
+    await advance(10 * 60 * 1000);
+    assert.ok(requests.length > 5, `${requests.length} attempts`);
+    assert.ok(requests.length <= 10, 'backs off between attempts');
+    assert.equal(SyncEngine.getState().pending, 1);
+    assert.equal(SyncEngine.getState().status, 'error');
+    assert.deepEqual(rejected(), []);
+
+    respond = () => OK;
+    await advance(5 * 60 * 1000);
+    assert.equal(SyncEngine.getState().pending, 0);
+    assert.equal(SyncEngine.getState().status, 'synced');
+    assert.deepEqual(rejected(), []);
+  });
+
+  test('holds new changes while the outbox backs off', async () => {
+    respond = () => UNAVAILABLE;
+    await SyncEngine.enqueue(memory('first'));
+    await settle();
+    await SyncEngine.enqueue(memory('second'));
+    await settle();
+
+    assert.equal(requests.length, 1);
+    assert.equal(SyncEngine.getState().pending, 2);
+
+    respond = () => OK;
+    await advance(2000);
+    assert.equal(requests.length, 3);
+    assert.equal(SyncEngine.getState().pending, 0);
+  });
+
+  test('refreshes the session after a 401 and sends the change again', async () => {
+    let responses = [{ error: { message: 'JWT expired' }, status: 401 }, OK];
+    respond = () => {
+      const [next, ...rest] = responses;
+      responses = rest.length > 0 ? rest : responses;
+      return next;
+    };
+    await SyncEngine.enqueue(memory('expired-session'));
+    await settle();
+    assert.equal(sessionRefreshes, 1);
+
+    await advance(2000);
+    assert.equal(SyncEngine.getState().pending, 0);
+    assert.deepEqual(rejected(), []);
+  });
+
+  test('rejects a change after five refusals', async () => {
+    respond = () => ({ error: { message: 'violates check constraint', code: '23514' }, status: 400 });
+    await SyncEngine.enqueue(memory('refused'));
+    await settle();
+
+    await advance(60 * 1000);
+    assert.equal(requests.length, 5);
+    assert.equal(SyncEngine.getState().pending, 0);
+    assert.deepEqual(rejected().map(conflict => [conflict.recordId, conflict.reason]), [
+      ['refused', 'violates check constraint']
+    ]);
+  });
+});
@@ -0,0 +1,5 @@
+export { default as SyncEngine } from './SyncEngine';
+export { resolveUpdate, flattenFields, applyFields, getFieldTimestamps, FIELD_TIMESTAMPS_COLUMN } from './ConflictResolver';
+
+export type { SyncResult, SyncStateListener, NewOutboxMutation } from './SyncEngine';
+export type { ResolvedUpdate } from './ConflictResolver';
@@ -0,0 +1,157 @@
+import CostMonitor from '../performance/CostMonitor';
+import {
+  SpeechSynthesisOptions,
+  SpeechSynthesisRequest,
+  SynthesizedSpeech,
+  TextToSpeechError,
+  TextToSpeechProvider
+} from './TextToSpeechProvider';
+import { adjustSpeechOptions, applyCulturalProsody, getCulturalSpeechOptions } from './culturalSpeech';
+import { parseProsody, stripProsody } from './prosody';
+import { PronunciationLexicon } from './lexicon';
+
+export interface TextToSpeechChainOptions {
+  failureThreshold: number; // Consecutive failures before a provider is rested
+  cooldownMs: number;
+  // Read for every sentence, so an advisor's correction is heard straight away
+  getLexicon?: () => PronunciationLexicon;
+}
+
+export interface TextToSpeechProviderHealth {
+  provider: string;
+  consecutiveFailures: number;
+  restingUntil: number | null; // Epoch ms, null while healthy
+  lastError?: string;
+}
+
+/**
+ * Tries providers in order for each sentence, so a failed ElevenLabs call
+ * falls back to the next voice instead of silence. A provider that keeps
+ * failing is rested for `cooldownMs` rather than retried on every sentence.
+ * In CostMonitor emergency mode only free providers are used.
+ *
+ * Text may carry prosody markup (see prosody.ts); providers receive the
+ * written text plus the parsed segments.
+ */
+export class TextToSpeechChain {
+  private providers: TextToSpeechProvider[];
+  private options: TextToSpeechChainOptions;
+  private health = new Map<string, TextToSpeechProviderHealth>();
+
+  constructor(providers: TextToSpeechProvider[], options: TextToSpeechChainOptions) {
+    this.providers = providers;
+    this.options = options;
+  }
+
+  public async synthesize(
+    text: string,
+    options: SpeechSynthesisOptions,
+    exclude: string[] = []
+  ): Promise<SynthesizedSpeech> {
+    // The one place cultural delivery is applied; each provider uses what it supports
+    const delivery = adjustSpeechOptions(getCulturalSpeechOptions(options.language), options);
+    const segments = parseProsody(text);
+    const lexicon = this.options.getLexicon?.();
+    const requests = new Map<boolean, SpeechSynthesisRequest>();
+    const getRequest = (nativeMaori: boolean): SpeechSynthesisRequest => {
+      let request = requests.get(nativeMaori);
+      if (!request) {
+        request = {
+          ...options,
+          delivery,
+          prosody: applyCulturalProsody(segments, options.language, { lexicon, nativeMaori })
+        };
+        requests.set(nativeMaori, request);
+      }
+      return request;
+    };
+    const writtenText = stripProsody(text).trim();
+    const freeOnly = CostMonitor.isEmergencyMode();
+    let lastError: unknown = null;
+
+    for (const provider of this.providers) {
+      if (exclude.includes(provider.name) || !provider.isConfigured() || this.isResting(provider)) {
+        continue;
+      }
+      if (freeOnly && provider.costPerCharacter > 0) {
+        continue;
+      }
+
+      try {
+        const request = getRequest(!!provider.nativeLanguages?.includes('mi'));
+        const speech = await provider.synthesize(writtenText, request);
+        if (!speech) {
+          continue;
+        }
+
+        this.recordSuccess(provider);
+        if (provider.costPerCharacter > 0) {
+          CostMonitor.trackTextToSpeechCost(writtenText.length, options.culturalContext, {
+            provider: provider.name,
+            costPerCharacter: provider.costPerCharacter
+          }).catch(error => console.warn('Failed to track text-to-speech cost:', error));
+        }
+        return speech;
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(provider, error);
+        console.warn(`${provider.name} synthesis failed, trying the next provider:`, error);
+      }
+    }
+
+    throw new TextToSpeechError(`No text-to-speech provider could speak this sentence: ${lastError ?? 'none available'}`);
+  }
+
+  // Stops live speech on every provider that has any
+  public async stop(): Promise<void> {
+    await Promise.all(this.providers.map(provider =>
+      provider.stop ? provider.stop().catch(error => console.warn(`Error stopping ${provider.name}:`, error)) : undefined
+    ));
+  }
+
+  public getHealth(): TextToSpeechProviderHealth[] {
+    return this.providers.map(provider => this.getProviderHealth(provider));
+  }
+
+  private getProviderHealth(provider: TextToSpeechProvider): TextToSpeechProviderHealth {
+    let health = this.health.get(provider.name);
+    if (!health) {
+      health = { provider: provider.name, consecutiveFailures: 0, restingUntil: null };
+      this.health.set(provider.name, health);
+    }
+    return health;
+  }
+
+  private isResting(provider: TextToSpeechProvider): boolean {
+    const health = this.getProviderHealth(provider);
+    if (health.restingUntil === null) {
+      return false;
+    }
+    if (Date.now() >= health.restingUntil) {
+      // Give it another chance; one more failure rests it again
+      health.restingUntil = null;
+      health.consecutiveFailures = this.options.failureThreshold - 1;
+      return false;
+    }
+    return true;
+  }
+
+  private recordSuccess(provider: TextToSpeechProvider): void {
+    const health = this.getProviderHealth(provider);
+    health.consecutiveFailures = 0;
+    health.restingUntil = null;
+  }
+
+  private recordFailure(provider: TextToSpeechProvider, error: unknown): void {
+    const health = this.getProviderHealth(provider);
+    health.consecutiveFailures++;
+    health.lastError = error instanceof Error ? error.message : String(error);
+
+    // Bad requests fail the same way every time, so rest the provider straight away
+    const retryable = !(error instanceof TextToSpeechError) || error.retryable;
+    if (!retryable || health.consecutiveFailures >= this.options.failureThreshold) {
+      health.restingUntil = Date.now() + this.options.cooldownMs;
+      console.warn(`Resting text-to-speech provider ${provider.name} for ${this.options.cooldownMs / 1000}s`);
+    }
+  }
+}
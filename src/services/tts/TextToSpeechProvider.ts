@@ -0,0 +1,69 @@
+import { PreferredLanguage } from '../../types';
+import { CulturalSpeechOptions } from './culturalSpeech';
+import { ProsodySegment } from './prosody';
+
+export interface SpeechSynthesisOptions {
+  language: PreferredLanguage;
+  voiceId?: string; // ElevenLabs voice ID, defaults to the voice for the language
+  stability?: number;
+  similarityBoost?: number;
+  // The listener's own adjustments from their voice profile, multiplying the cultural delivery
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  // WAV when the audio is processed before playback, e.g. for a hearing profile; providers may ignore it
+  outputFormat?: 'mp3' | 'wav';
+  culturalContext?: string; // Cost attribution, e.g. the cultural group
+}
+
+// What a provider receives: the caller's options plus the cultural delivery for the language
+export interface SpeechSynthesisRequest extends SpeechSynthesisOptions {
+  delivery: CulturalSpeechOptions;
+  // The sentence as prosody segments, with cultural pauses and pronunciation hints applied
+  prosody: ProsodySegment[];
+}
+
+export type SynthesizedSpeech =
+  // An audio file for expo-av; temporary files are deleted after playback.
+  // playbackRate asks the player to change speed, keeping pitch
+  | { type: 'file'; provider: string; fileUri: string; isTemporary: boolean; playbackRate?: number }
+  // Spoken directly by the platform when played, e.g. expo-speech
+  | { type: 'live'; provider: string; play: () => Promise<void> };
+
+/**
+ * A text-to-speech backend. Implementations own transport and platform
+ * concerns; `TextToSpeechChain` decides which one speaks each sentence.
+ */
+export interface TextToSpeechProvider {
+  readonly name: string;
+  readonly costPerCharacter: number; // USD, 0 for on-device and self-hosted
+  // Languages the voice speaks natively; Māori words are only respelled for voices without 'mi'
+  readonly nativeLanguages?: PreferredLanguage[];
+  isConfigured(): boolean;
+  // `text` is the written sentence without markup; render `request.prosody` where the engine can.
+  // Null when the provider has nothing for this text (e.g. an uncached phrase); not counted as a failure
+  synthesize(text: string, request: SpeechSynthesisRequest): Promise<SynthesizedSpeech | null>;
+  // Stops live speech started by play()
+  stop?(): Promise<void>;
+}
+
+export class TextToSpeechError extends Error {
+  public readonly status?: number;
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'TextToSpeechError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export interface TextToSpeechProviderSettings {
+  apiUrl: string;
+  apiKey?: string;
+  model: string; // ElevenLabs model, or the voice name for self-hosted servers
+  timeoutMs: number;
+  costPerCharacter: number;
+  nativeLanguages?: PreferredLanguage[];
+}
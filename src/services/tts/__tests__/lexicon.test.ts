@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import maori from '../../cultural/packs/maori.json';
+import { CulturalPack } from '../../cultural/culturalPack';
+import { PronunciationLexicon } from '../lexicon';
+import { DEFAULT_MAORI_LEXICON } from '../maoriLexicon';
+import { PreferredLanguage } from '../../../types';
+
+const pack = maori as CulturalPack;
+const lexicon = new PronunciationLexicon(DEFAULT_MAORI_LEXICON);
+
+// Placeholders are filled at runtime; the honorifics they stand for are checked on their own
+const withoutPlaceholders = (text: string): string => text.replace(/\{\{[^{}]*\}\}/g, ' ');
+
+const assertCovered = (source: string, text: string, language: PreferredLanguage) => {
+  assert.deepEqual(lexicon.findMissingWords(withoutPlaceholders(text), language), [], `${source}: "${text}"`);
+};
+
+describe('default Māori lexicon', () => {
+  test('covers every shipped Māori response template', () => {
+    pack.responseTemplates.forEach(template => assertCovered(template.id, template.template, template.language));
+  });
+
+  test('covers every honorific the templates can fill in', () => {
+    Object.entries(pack.honorifics || {}).forEach(([relation, title]) => assertCovered(`honorific ${relation}`, title, 'mi'));
+  });
+
+  test('covers every terminology entry', () => {
+    Object.entries(pack.terminology).forEach(([term, wording]) => assertCovered(`terminology ${term}`, wording, 'mi'));
+  });
+
+  test('covers every notification title and message', () => {
+    pack.notificationTemplates.forEach(notification => {
+      assertCovered(`notification ${notification.type}`, notification.title, notification.language);
+      assertCovered(`notification ${notification.type}`, notification.message, notification.language);
+    });
+  });
+
+  test('covers the conversation flow and priority phrases', () => {
+    Object.entries(pack.conversationFlow).forEach(([stage, phrases]) => {
+      phrases.forEach(phrase => assertCovered(`flow ${stage}`, phrase, 'mi'));
+    });
+    pack.priorityPhrases.forEach(phrase => assertCovered('priority phrase', phrase, 'mi'));
+  });
+
+  test('reports words it has no respelling for', () => {
+    assert.deepEqual(lexicon.findMissingWords('Kia ora e hoa', 'mi'), ['e', 'hoa']);
+    assert.deepEqual(lexicon.findMissingWords('My mate lives in Ōtautahi', 'en'), ['ōtautahi']);
+  });
+});
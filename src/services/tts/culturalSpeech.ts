@@ -0,0 +1,153 @@
+import { PreferredLanguage } from '../../types';
+import { LANGUAGES } from '../../config/languages';
+import { mapTextSegments, ProsodySegment } from './prosody';
+import type { PronunciationLexicon } from './lexicon';
+
+export interface CulturalSpeechOptions {
+  language: string; // Platform voice locale, e.g. en-NZ
+  rate: number; // 1 is the voice's normal pace
+  pitch: number;
+  volume: number; // 0-1
+}
+
+export const getSpeechLanguageCode = (language: PreferredLanguage): string =>
+  (LANGUAGES[language] || LANGUAGES.en).speechLocale;
+
+// Pace and volume for each language, applied by every text-to-speech provider that supports them
+export const getCulturalSpeechOptions = (language: PreferredLanguage): CulturalSpeechOptions => ({
+  language: getSpeechLanguageCode(language),
+  ...(LANGUAGES[language] || LANGUAGES.en).speech
+});
+
+// The cultural delivery with a listener's own rate, pitch and volume multiplied in
+export const adjustSpeechOptions = (
+  delivery: CulturalSpeechOptions,
+  adjustments: { rate?: number; pitch?: number; volume?: number }
+): CulturalSpeechOptions => ({
+  ...delivery,
+  rate: delivery.rate * (adjustments.rate ?? 1),
+  pitch: delivery.pitch * (adjustments.pitch ?? 1),
+  volume: Math.min(1, delivery.volume * (adjustments.volume ?? 1))
+});
+
+const CLAUSE_PUNCTUATION = /[,，、;；]/;
+const SENTENCE_PUNCTUATION = /[.!?…。！？]/;
+// The last letter of an abbreviation such as e.g. or i.e.
+const ABBREVIATION_END = /(^|[\s.])\p{L}\.$/u;
+
+// Forms of address (称呼) said with weight when speaking to an elder
+const HONORIFICS = '您|老人家|爷爷|奶奶|外公|外婆|阿姨|叔叔|伯伯|伯母|老师|先生|女士';
+const CHINESE_HONORIFICS = new RegExp(`(${HONORIFICS})`);
+const HONORIFIC_WORD = new RegExp(`^(${HONORIFICS})$`);
+
+const MACRON_VOWELS: Record<string, string> = {
+  ā: 'aa', ē: 'ee', ī: 'ii', ō: 'oo', ū: 'uu',
+  Ā: 'Aa', Ē: 'Ee', Ī: 'Ii', Ō: 'Oo', Ū: 'Uu'
+};
+const MACRON_WORD = /[A-Za-zĀāĒēĪīŌōŪū]*[ĀāĒēĪīŌōŪū][A-Za-zĀāĒēĪīŌōŪū]*/g;
+
+// Inserts cultural pauses after punctuation, replacing the old ellipsis padding
+export const addCulturalPauses = (segments: ProsodySegment[], language: PreferredLanguage): ProsodySegment[] => {
+  const pauses = (LANGUAGES[language] || LANGUAGES.en).pauses;
+
+  return mapTextSegments(segments, segment => {
+    // Spelled-out and substituted text is spoken as a unit
+    if (segment.alias !== undefined || segment.sayAs) {
+      return [segment];
+    }
+
+    const result: ProsodySegment[] = [];
+    let start = 0;
+    for (let i = 0; i < segment.text.length; i++) {
+      const char = segment.text[i];
+      const next = segment.text[i + 1];
+      // Wait for the last mark of a run such as "?!" or "..."
+      if (next !== undefined && SENTENCE_PUNCTUATION.test(next)) {
+        continue;
+      }
+      const isClause = CLAUSE_PUNCTUATION.test(char);
+      // Latin marks only end a sentence before whitespace, so 3.5 and e.g. stay whole
+      const isSentence = SENTENCE_PUNCTUATION.test(char) &&
+        (!/[.!?]/.test(char) || ((next === undefined || /\s/.test(next)) && !ABBREVIATION_END.test(segment.text.slice(0, i + 1))));
+      if (!isClause && !isSentence) {
+        continue;
+      }
+
+      result.push({ ...segment, text: segment.text.slice(start, i + 1) });
+      result.push({ type: 'pause', ms: isClause ? pauses.clause : pauses.sentence });
+      start = i + 1;
+    }
+    result.push({ ...segment, text: segment.text.slice(start) });
+    return result.filter(part => part.type === 'pause' || part.text.length > 0);
+  });
+};
+
+// Stresses forms of address in Mandarin, where getting 称呼 right is a mark of respect
+export const emphasizeHonorifics = (segments: ProsodySegment[]): ProsodySegment[] => {
+  return mapTextSegments(segments, segment => {
+    if (segment.emphasis || segment.alias !== undefined) {
+      return [segment];
+    }
+    return segment.text
+      .split(CHINESE_HONORIFICS)
+      .filter(part => part.length > 0)
+      .map(part => ({ ...segment, text: part, emphasis: HONORIFIC_WORD.test(part) }));
+  });
+};
+
+/**
+ * English-trained voices ignore macrons and shorten the vowel, which changes
+ * the word (mātua/matua). Macronised words are given a double-vowel alias,
+ * the long-vowel spelling used by Waikato-Tainui, which those voices lengthen.
+ */
+export const addMacronPronunciationHints = (segments: ProsodySegment[]): ProsodySegment[] => {
+  return mapTextSegments(segments, segment => {
+    if (segment.alias !== undefined || segment.sayAs) {
+      return [segment];
+    }
+
+    const result: ProsodySegment[] = [];
+    let position = 0;
+    for (const match of segment.text.matchAll(MACRON_WORD)) {
+      const index = match.index ?? 0;
+      result.push({ ...segment, text: segment.text.slice(position, index) });
+      result.push({
+        ...segment,
+        text: match[0],
+        alias: match[0].replace(/[ĀāĒēĪīŌōŪū]/g, vowel => MACRON_VOWELS[vowel])
+      });
+      position = index + match[0].length;
+    }
+    result.push({ ...segment, text: segment.text.slice(position) });
+    return result.filter(part => part.type === 'pause' || part.text.length > 0);
+  });
+};
+
+export interface CulturalProsodyOptions {
+  lexicon?: PronunciationLexicon; // Respellings for Te Reo Māori words
+  nativeMaori?: boolean; // The voice speaks Te Reo Māori, so words are left as written
+}
+
+/**
+ * Everything the cultural layer adds to a sentence before synthesis: pauses,
+ * honorific emphasis for Mandarin and, for voices without native Māori,
+ * lexicon respellings with macron hints for any word the lexicon lacks.
+ * Māori words appear in replies in every language.
+ */
+export const applyCulturalProsody = (
+  segments: ProsodySegment[],
+  language: PreferredLanguage,
+  options: CulturalProsodyOptions = {}
+): ProsodySegment[] => {
+  let result = segments;
+  if (!options.nativeMaori) {
+    if (options.lexicon) {
+      result = options.lexicon.apply(result, language);
+    }
+    result = addMacronPronunciationHints(result);
+  }
+  if (language === 'zh') {
+    result = emphasizeHonorifics(result);
+  }
+  return addCulturalPauses(result, language);
+};
@@ -0,0 +1,97 @@
+import config, { AppConfig, TextToSpeechProviderType } from '../../config';
+import { TextToSpeechProvider } from './TextToSpeechProvider';
+import { TextToSpeechChain } from './TextToSpeechChain';
+import { CachedPhraseTextToSpeechProvider } from './providers/CachedPhraseTextToSpeechProvider';
+import { ELEVEN_LABS_API_URL, ElevenLabsTextToSpeechProvider } from './providers/ElevenLabsTextToSpeechProvider';
+import { HttpTextToSpeechProvider } from './providers/HttpTextToSpeechProvider';
+import { DeviceTextToSpeechProvider } from './providers/DeviceTextToSpeechProvider';
+import PronunciationLexiconService from '../cultural/PronunciationLexiconService';
+
+export { CachedPhraseTextToSpeechProvider } from './providers/CachedPhraseTextToSpeechProvider';
+export { ElevenLabsTextToSpeechProvider, getDefaultVoiceId } from './providers/ElevenLabsTextToSpeechProvider';
+export { HttpTextToSpeechProvider } from './providers/HttpTextToSpeechProvider';
+export { DeviceTextToSpeechProvider } from './providers/DeviceTextToSpeechProvider';
+export { TextToSpeechChain } from './TextToSpeechChain';
+export { TextToSpeechError } from './TextToSpeechProvider';
+export {
+  addCulturalPauses,
+  addMacronPronunciationHints,
+  adjustSpeechOptions,
+  applyCulturalProsody,
+  emphasizeHonorifics,
+  getCulturalSpeechOptions,
+  getSpeechLanguageCode
+} from './culturalSpeech';
+export { parseProsody, splitProsodyByLanguage, stripProsody, toSpeechChunks, toSpokenText, toSsml } from './prosody';
+export { joinWav } from '../audio/wav';
+export { PronunciationLexicon, normalizeLexiconWord } from './lexicon';
+export { DEFAULT_MAORI_LEXICON } from './maoriLexicon';
+export { VOICE_OPTIONS, VOICE_SAMPLE_SENTENCES, getDefaultVoiceIdForGender, getVoiceOption } from './voices';
+
+export type {
+  SpeechSynthesisOptions,
+  SpeechSynthesisRequest,
+  SynthesizedSpeech,
+  TextToSpeechProvider,
+  TextToSpeechProviderSettings
+} from './TextToSpeechProvider';
+export type { TextToSpeechChainOptions, TextToSpeechProviderHealth } from './TextToSpeechChain';
+export type { CulturalProsodyOptions, CulturalSpeechOptions } from './culturalSpeech';
+export type { ProsodyPause, ProsodySegment, ProsodyText, SayAs, SpeechChunk } from './prosody';
+export type { VoiceOption } from './voices';
+
+export const createTextToSpeechProvider = (
+  type: TextToSpeechProviderType,
+  ttsConfig: AppConfig['tts'] = config.tts
+): TextToSpeechProvider => {
+  switch (type) {
+    case 'cache':
+      return new CachedPhraseTextToSpeechProvider();
+    case 'elevenlabs':
+      return new ElevenLabsTextToSpeechProvider({
+        apiUrl: ELEVEN_LABS_API_URL,
+        apiKey: config.elevenLabs.apiKey,
+        model: ttsConfig.elevenLabs.model,
+        timeoutMs: ttsConfig.elevenLabs.timeoutMs,
+        costPerCharacter: ttsConfig.elevenLabs.costPerCharacter
+      });
+    case 'http':
+      return new HttpTextToSpeechProvider({
+        apiUrl: ttsConfig.http.apiUrl,
+        apiKey: ttsConfig.http.apiKey,
+        model: ttsConfig.http.voice,
+        nativeLanguages: ttsConfig.http.nativeLanguages,
+        timeoutMs: ttsConfig.http.timeoutMs,
+        costPerCharacter: ttsConfig.http.costPerCharacter
+      });
+    case 'device':
+    default:
+      return new DeviceTextToSpeechProvider();
+  }
+};
+
+export const createTextToSpeechChain = (ttsConfig: AppConfig['tts'] = config.tts): TextToSpeechChain => {
+  return new TextToSpeechChain(
+    ttsConfig.providers.map(type => createTextToSpeechProvider(type, ttsConfig)),
+    {
+      failureThreshold: ttsConfig.failureThreshold,
+      cooldownMs: ttsConfig.cooldownMs,
+      getLexicon: () => PronunciationLexiconService.getInstance().getLexicon()
+    }
+  );
+};
+
+let sharedChain: TextToSpeechChain | null = null;
+
+// One chain per app, so provider health is shared between conversations
+export const getTextToSpeechChain = (): TextToSpeechChain => {
+  if (!sharedChain) {
+    sharedChain = createTextToSpeechChain();
+  }
+  return sharedChain;
+};
+
+// Replace the shared chain, e.g. with fixed providers in tests; null restores config
+export const setTextToSpeechChain = (chain: TextToSpeechChain | null): void => {
+  sharedChain = chain;
+};
@@ -0,0 +1,126 @@
+import { PreferredLanguage, PronunciationEntry } from '../../types';
+import { mapTextSegments, ProsodySegment } from './prosody';
+
+const WORD_PATTERN = /[A-Za-zĀāĒēĪīŌōŪū]+/g;
+const MACRON = /[ĀāĒēĪīŌōŪū]/;
+
+// Lookup key for a word or phrase: composed macrons, lower case, single spaces
+export const normalizeLexiconWord = (word: string): string => {
+  return word.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+/**
+ * Te Reo Māori words and phrases with respellings for voices that have no
+ * native Māori. Matching prefers the longest phrase, so "mate wareware" is
+ * respelled as a whole while the English "mate" is left alone. In Māori
+ * replies every entry applies; in other languages only entries marked
+ * `inEnglish`.
+ */
+export class PronunciationLexicon {
+  private entries = new Map<string, PronunciationEntry>();
+  private maxPhraseWords = 1;
+
+  constructor(entries: PronunciationEntry[] = []) {
+    entries.forEach(entry => this.set(entry));
+  }
+
+  // Replaces any entry for the same word
+  public set(entry: PronunciationEntry): void {
+    const key = normalizeLexiconWord(entry.word);
+    this.entries.set(key, entry);
+    this.maxPhraseWords = Math.max(this.maxPhraseWords, key.split(' ').length);
+  }
+
+  public get(word: string): PronunciationEntry | undefined {
+    return this.entries.get(normalizeLexiconWord(word));
+  }
+
+  public getEntries(): PronunciationEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.word.localeCompare(b.word));
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  // Gives each known word or phrase a sub alias with its respelling
+  public apply(segments: ProsodySegment[], language: PreferredLanguage): ProsodySegment[] {
+    return mapTextSegments(segments, segment => {
+      if (segment.alias !== undefined || segment.sayAs) {
+        return [segment];
+      }
+
+      const text = segment.text.normalize('NFC');
+      const words = Array.from(text.matchAll(WORD_PATTERN));
+      const result: ProsodySegment[] = [];
+      let position = 0;
+      let i = 0;
+
+      while (i < words.length) {
+        const match = this.matchPhrase(text, words, i, language);
+        if (!match) {
+          i++;
+          continue;
+        }
+
+        const start = words[i].index ?? 0;
+        const last = words[i + match.wordCount - 1];
+        const end = (last.index ?? 0) + last[0].length;
+        result.push({ ...segment, text: text.slice(position, start) });
+        result.push({ ...segment, text: text.slice(start, end), alias: match.entry.respelling });
+        position = end;
+        i += match.wordCount;
+      }
+      result.push({ ...segment, text: text.slice(position) });
+      return result.filter(part => part.type === 'pause' || part.text.length > 0);
+    });
+  }
+
+  /**
+   * Words in `text` that would be read without a respelling. In Māori text
+   * every word counts; elsewhere only words with macrons, which are Māori.
+   */
+  public findMissingWords(text: string, language: PreferredLanguage): string[] {
+    const segments = this.apply([{ type: 'text', text, emphasis: false, rate: 1 }], language);
+    const missing = new Set<string>();
+
+    segments.forEach(segment => {
+      if (segment.type !== 'text' || segment.alias !== undefined) {
+        return;
+      }
+      for (const [word] of segment.text.matchAll(WORD_PATTERN)) {
+        if (language === 'mi' || MACRON.test(word)) {
+          missing.add(normalizeLexiconWord(word));
+        }
+      }
+    });
+    return Array.from(missing);
+  }
+
+  private matchPhrase(
+    text: string,
+    words: RegExpMatchArray[],
+    index: number,
+    language: PreferredLanguage
+  ): { entry: PronunciationEntry; wordCount: number } | null {
+    const longest = Math.min(this.maxPhraseWords, words.length - index);
+
+    for (let count = longest; count >= 1; count--) {
+      const parts = words.slice(index, index + count);
+      // A phrase only matches across plain spaces, not punctuation
+      const joined = parts.every((word, j) => {
+        if (j === 0) return true;
+        const previous = parts[j - 1];
+        const gap = text.slice((previous.index ?? 0) + previous[0].length, word.index);
+        return /^\s+$/.test(gap);
+      });
+      if (!joined) continue;
+
+      const entry = this.entries.get(normalizeLexiconWord(parts.map(word => word[0]).join(' ')));
+      if (entry && (language === 'mi' || entry.inEnglish)) {
+        return { entry, wordCount: count };
+      }
+    }
+    return null;
+  }
+}
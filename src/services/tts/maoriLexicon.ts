@@ -0,0 +1,94 @@
+import { PronunciationEntry } from '../../types';
+
+/**
+ * Curated respellings for the Te Reo Māori in the app's own templates,
+ * greetings and terminology, plus common words in everyday replies. Vowels
+ * follow English spellings of the Māori sounds (ah, eh, ee, aw, oo), "wh" is
+ * said as f and a doubled vowel marks a macron. Advisors correct and extend
+ * these through `PronunciationLexiconService`; their entries win.
+ */
+export const DEFAULT_MAORI_LEXICON: PronunciationEntry[] = [
+  { word: 'Aotearoa', respelling: 'ah-aw-teh-ah-raw-ah', ipa: 'aɔˈtɛaɾɔa', inEnglish: true },
+  { word: 'a', respelling: 'ah', ipa: 'a', inEnglish: false },
+  { word: 'ā', respelling: 'aah', ipa: 'aː', inEnglish: false },
+  { word: 'aha', respelling: 'ah-hah', ipa: 'aha', inEnglish: false },
+  { word: 'aroha', respelling: 'ah-raw-hah', ipa: 'ˈaɾɔha', inEnglish: true },
+  { word: 'au', respelling: 'oh', ipa: 'au', inEnglish: false },
+  { word: 'haere', respelling: 'high-reh', ipa: 'ˈhaeɾɛ', inEnglish: false },
+  { word: 'haere mai', respelling: 'high-reh my', ipa: 'ˈhaeɾɛ mai', inEnglish: true },
+  { word: 'haere rā', respelling: 'high-reh raah', ipa: 'ˈhaeɾɛ ɾaː', inEnglish: true },
+  { word: 'hauora', respelling: 'hoh-aw-rah', ipa: 'ˈhauɔɾa', inEnglish: true },
+  { word: 'he', respelling: 'heh', ipa: 'hɛ', inEnglish: false },
+  { word: 'hei', respelling: 'hay', ipa: 'hei', inEnglish: false },
+  { word: 'hui', respelling: 'hoo-ee', ipa: 'ˈhʉi', inEnglish: true },
+  { word: 'i', respelling: 'ee', ipa: 'i', inEnglish: false },
+  { word: 'ka pai', respelling: 'kah pie', ipa: 'ka pai', inEnglish: true },
+  { word: 'kaha', respelling: 'kah-hah', ipa: 'ˈkaha', inEnglish: false },
+  { word: 'kai', respelling: 'kye', ipa: 'kai', inEnglish: true },
+  { word: 'kāore', respelling: 'kaah-aw-reh', ipa: 'ˈkaːɔɾɛ', inEnglish: true },
+  { word: 'kaore', respelling: 'kaah-aw-reh', ipa: 'ˈkaːɔɾɛ', inEnglish: true, notes: 'Often written without the macron; said with the long vowel of kāore' },
+  { word: 'karakia', respelling: 'kah-rah-kee-ah', ipa: 'ˈkaɾakia', inEnglish: true },
+  { word: 'kaumātua', respelling: 'koh-maah-too-ah', ipa: 'ˈkaumaːtʉa', inEnglish: true },
+  { word: 'kei', respelling: 'kay', ipa: 'kei', inEnglish: false },
+  { word: 'ki', respelling: 'kee', ipa: 'ki', inEnglish: false },
+  { word: 'kia', respelling: 'kee-ah', ipa: 'kia', inEnglish: false },
+  { word: 'kia kaha', respelling: 'kee-ah kah-hah', ipa: 'kia ˈkaha', inEnglish: true },
+  { word: 'kia ora', respelling: 'kee-ah aw-rah', ipa: 'kia ˈɔɾa', inEnglish: true },
+  { word: 'ko', respelling: 'kaw', ipa: 'kɔ', inEnglish: false },
+  { word: 'koe', respelling: 'kaw-eh', ipa: 'kɔe', inEnglish: false },
+  { word: 'konei', respelling: 'kaw-nay', ipa: 'ˈkɔnei', inEnglish: false },
+  { word: 'kōrero', respelling: 'kaw-reh-raw', ipa: 'ˈkɔːɾɛɾɔ', inEnglish: true },
+  { word: 'koro', respelling: 'kaw-raw', ipa: 'ˈkɔɾɔ', inEnglish: true },
+  { word: 'koroua', respelling: 'kaw-raw-oh-ah', ipa: 'ˈkɔɾɔua', inEnglish: true },
+  { word: 'kui', respelling: 'koo-ee', ipa: 'ˈkʉi', inEnglish: true },
+  { word: 'kuia', respelling: 'koo-ee-ah', ipa: 'ˈkʉia', inEnglish: true },
+  { word: 'mā', respelling: 'maah', ipa: 'maː', inEnglish: true },
+  { word: 'mā te wā', respelling: 'maah teh waah', ipa: 'maː tɛ waː', inEnglish: true },
+  { word: 'mahi', respelling: 'mah-hee', ipa: 'ˈmahi', inEnglish: true },
+  { word: 'mai', respelling: 'my', ipa: 'mai', inEnglish: false },
+  { word: 'māmā', respelling: 'maah-maah', ipa: 'ˈmaːmaː', inEnglish: true },
+  { word: 'mana', respelling: 'mah-nah', ipa: 'ˈmana', inEnglish: true },
+  { word: 'Māori', respelling: 'maah-aw-ree', ipa: 'ˈmaːɔɾi', inEnglish: true },
+  { word: 'marae', respelling: 'mah-rye', ipa: 'ˈmaɾae', inEnglish: true },
+  { word: 'mate', respelling: 'mah-teh', ipa: 'ˈmatɛ', inEnglish: false, notes: 'Only in Māori replies; in English this is the word for a friend' },
+  { word: 'mate wareware', respelling: 'mah-teh wah-reh-wah-reh', ipa: 'ˈmatɛ ˈwaɾɛwaɾɛ', inEnglish: true },
+  { word: 'matua', respelling: 'mah-too-ah', ipa: 'ˈmatʉa', inEnglish: true },
+  { word: 'me', respelling: 'meh', ipa: 'mɛ', inEnglish: false },
+  { word: 'mea', respelling: 'meh-ah', ipa: 'ˈmɛa', inEnglish: false },
+  { word: 'mokopuna', respelling: 'maw-kaw-poo-nah', ipa: 'ˈmɔkɔpʉna', inEnglish: true },
+  { word: 'ngā mihi', respelling: 'ngaah mee-hee', ipa: 'ŋaː ˈmihi', inEnglish: true },
+  { word: 'ngaro', respelling: 'ngah-raw', ipa: 'ˈŋaɾɔ', inEnglish: false },
+  { word: 'ngaro whakamahara', respelling: 'ngah-raw fah-kah-mah-hah-rah', ipa: 'ˈŋaɾɔ ˈfakamahaɾa', inEnglish: true },
+  { word: 'nei', respelling: 'nay', ipa: 'nei', inEnglish: false },
+  { word: 'nui', respelling: 'noo-ee', ipa: 'ˈnʉi', inEnglish: false },
+  { word: 'ora', respelling: 'aw-rah', ipa: 'ˈɔɾa', inEnglish: false },
+  { word: 'pai', respelling: 'pie', ipa: 'pai', inEnglish: false },
+  { word: 'pāpā', respelling: 'paah-paah', ipa: 'ˈpaːpaː', inEnglish: true },
+  { word: 'pēhea', respelling: 'peh-heh-ah', ipa: 'ˈpeːhɛa', inEnglish: true },
+  { word: 'rā', respelling: 'raah', ipa: 'ɾaː', inEnglish: true },
+  { word: 'rangi', respelling: 'rah-ngee', ipa: 'ˈɾaŋi', inEnglish: true },
+  { word: 'raruraru', respelling: 'rah-roo-rah-roo', ipa: 'ˈɾaɾʉɾaɾʉ', inEnglish: true },
+  { word: 'rongo', respelling: 'raw-ngaw', ipa: 'ˈɾɔŋɔ', inEnglish: false },
+  { word: 'taima', respelling: 'tie-mah', ipa: 'ˈtaima', inEnglish: false, notes: 'Loanword from English time' },
+  { word: 'tamariki', respelling: 'tah-mah-ree-kee', ipa: 'ˈtamaɾiki', inEnglish: true },
+  { word: 'tangi', respelling: 'tah-ngee', ipa: 'ˈtaŋi', inEnglish: true },
+  { word: 'tātou', respelling: 'taah-toh', ipa: 'ˈtaːtou', inEnglish: true },
+  { word: 'tautoko', respelling: 'toh-taw-kaw', ipa: 'ˈtautɔkɔ', inEnglish: true },
+  { word: 'tawhirimatea', respelling: 'tah-fee-ree-mah-teh-ah', ipa: 'ˈtafiɾimatɛa', inEnglish: true },
+  { word: 'tawhiti', respelling: 'tah-fee-tee', ipa: 'ˈtafiti', inEnglish: true },
+  { word: 'te', respelling: 'teh', ipa: 'tɛ', inEnglish: false },
+  { word: 'tēnā koe', respelling: 'teh-naah kaw-eh', ipa: 'ˈteːnaː kɔe', inEnglish: true },
+  { word: 'tēnei', respelling: 'teh-nay', ipa: 'ˈteːnei', inEnglish: true },
+  { word: 'tō', respelling: 'taw', ipa: 'tɔː', inEnglish: true },
+  { word: 'tūpuna', respelling: 'too-poo-nah', ipa: 'ˈtʉːpʉna', inEnglish: true },
+  { word: 'wā', respelling: 'waah', ipa: 'waː', inEnglish: true },
+  { word: 'waiata', respelling: 'wye-ah-tah', ipa: 'ˈwaiata', inEnglish: true },
+  { word: 'wairua', respelling: 'wye-roo-ah', ipa: 'ˈwaiɾʉa', inEnglish: true },
+  { word: 'whaea', respelling: 'fah-eh-ah', ipa: 'ˈfaɛa', inEnglish: true },
+  { word: 'whakaaro', respelling: 'fah-kah-ah-raw', ipa: 'ˈfakaaɾɔ', inEnglish: true },
+  { word: 'whakamahara', respelling: 'fah-kah-mah-hah-rah', ipa: 'ˈfakamahaɾa', inEnglish: true },
+  { word: 'whakapapa', respelling: 'fah-kah-pah-pah', ipa: 'ˈfakapapa', inEnglish: true },
+  { word: 'whakatū', respelling: 'fah-kah-too', ipa: 'ˈfakatʉː', inEnglish: true },
+  { word: 'whānau', respelling: 'faah-noh', ipa: 'ˈfaːnau', inEnglish: true },
+  { word: 'whare', respelling: 'fah-reh', ipa: 'ˈfaɾɛ', inEnglish: true }
+];
@@ -0,0 +1,353 @@
+import { LanguageSegment, PreferredLanguage } from '../../types';
+import { joinShortSegments, segmentLanguages } from '../cultural/languageIdentification';
+
+/**
+ * Prosody markup: a small SSML subset that the cultural layer and the chat
+ * model write into replies, and that each text-to-speech provider renders in
+ * whatever form it supports.
+ *
+ *   <break time="700ms"/>                      a pause (ms or s, max 3s)
+ *   <emphasis>tēnā koe</emphasis>              stressed words
+ *   <prosody rate="slow">...</prosody>         x-slow, slow, medium, fast or a percentage
+ *   <say-as interpret-as="date">2024-03-05</say-as>   date, name or characters
+ *   <sub alias="whaanau">whānau</sub>          say the alias, show the written word
+ *
+ * Unknown tags are left as text; unclosed tags end with the sentence.
+ */
+
+export type SayAs = 'date' | 'name' | 'characters';
+
+export interface ProsodyText {
+  type: 'text';
+  text: string; // As written
+  emphasis: boolean;
+  rate: number; // Relative to the voice's pace, 1 is unchanged
+  sayAs?: SayAs;
+  alias?: string; // Pronunciation to speak instead of text
+}
+
+export interface ProsodyPause {
+  type: 'pause';
+  ms: number;
+}
+
+export type ProsodySegment = ProsodyText | ProsodyPause;
+
+// A stretch of speech for engines without SSML, synthesised separately with silence between
+export type SpeechChunk =
+  | { type: 'speech'; text: string; rate: number; emphasis: boolean }
+  | { type: 'pause'; ms: number };
+
+const TAG_PATTERN = /<(\/?)(break|emphasis|prosody|say-as|sub)\b([^>]*?)\/?>/gi;
+// An opening tag still being streamed, e.g. `<brea`
+const PARTIAL_TAG_PATTERN = /<\/?(?:b|e|p|s)[a-z-]*(?:\s[^<>]*)?$/i;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const MAX_PAUSE_MS = 3000;
+const SPOKEN_CHARACTER = /[\p{L}\p{N}]/u;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  'x-weak': 100,
+  weak: 250,
+  medium: 500,
+  strong: 1000,
+  'x-strong': 1500
+};
+
+const NAMED_RATES: Record<string, number> = {
+  'x-slow': 0.6,
+  slow: 0.8,
+  medium: 1,
+  fast: 1.2,
+  'x-fast': 1.4
+};
+
+const MONTHS_EN = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+interface StyleFrame {
+  tag: string;
+  emphasis?: boolean;
+  rate?: number;
+  sayAs?: SayAs;
+  alias?: string;
+}
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? '';
+  }
+  return attributes;
+};
+
+const parseBreakMs = (attributes: Record<string, string>): number => {
+  const time = attributes.time?.trim().toLowerCase();
+  let ms = BREAK_STRENGTHS[attributes.strength?.toLowerCase() || 'medium'] ?? 500;
+  if (time) {
+    const value = parseFloat(time);
+    if (!isNaN(value)) {
+      ms = time.endsWith('ms') ? value : value * 1000;
+    }
+  }
+  return Math.max(0, Math.min(MAX_PAUSE_MS, Math.round(ms)));
+};
+
+const parseRate = (value: string | undefined): number => {
+  if (!value) return 1;
+  const rate = value.trim().toLowerCase();
+  if (NAMED_RATES[rate] !== undefined) return NAMED_RATES[rate];
+  const percent = parseFloat(rate);
+  return !isNaN(percent) && percent > 0 ? percent / 100 : 1;
+};
+
+const parseSayAs = (value: string | undefined): SayAs | undefined => {
+  const kind = (value || '').trim().toLowerCase();
+  if (kind === 'date' || kind === 'name' || kind === 'characters') return kind;
+  if (kind === 'spell-out') return 'characters';
+  return undefined;
+};
+
+const currentStyle = (stack: StyleFrame[]): Omit<ProsodyText, 'type' | 'text'> => {
+  const style: Omit<ProsodyText, 'type' | 'text'> = { emphasis: false, rate: 1 };
+  for (const frame of stack) {
+    if (frame.emphasis !== undefined) style.emphasis = frame.emphasis;
+    if (frame.rate !== undefined) style.rate *= frame.rate;
+    if (frame.sayAs) style.sayAs = frame.sayAs;
+    if (frame.alias !== undefined) style.alias = frame.alias;
+  }
+  return style;
+};
+
+export const parseProsody = (markup: string): ProsodySegment[] => {
+  const segments: ProsodySegment[] = [];
+  const stack: StyleFrame[] = [];
+  let position = 0;
+
+  const pushText = (text: string) => {
+    if (text) {
+      segments.push({ type: 'text', text, ...currentStyle(stack) });
+    }
+  };
+
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    pushText(markup.slice(position, match.index));
+    position = (match.index ?? 0) + match[0].length;
+
+    const [, closing, rawTag, rawAttributes] = match;
+    const tag = rawTag.toLowerCase();
+
+    if (tag === 'break') {
+      segments.push({ type: 'pause', ms: parseBreakMs(parseAttributes(rawAttributes)) });
+    } else if (closing) {
+      // Close the innermost matching tag; a stray closer is ignored
+      const index = stack.map(frame => frame.tag).lastIndexOf(tag);
+      if (index !== -1) {
+        stack.splice(index);
+      }
+    } else {
+      const attributes = parseAttributes(rawAttributes);
+      switch (tag) {
+        case 'emphasis':
+          stack.push({ tag, emphasis: attributes.level !== 'reduced' && attributes.level !== 'none' });
+          break;
+        case 'prosody':
+          stack.push({ tag, rate: parseRate(attributes.rate) });
+          break;
+        case 'say-as':
+          stack.push({ tag, sayAs: parseSayAs(attributes['interpret-as']) });
+          break;
+        case 'sub':
+          stack.push({ tag, alias: attributes.alias });
+          break;
+      }
+    }
+  }
+  pushText(markup.slice(position));
+
+  return segments;
+};
+
+/**
+ * Written text without markup, for display, history and cache keys. A tag
+ * cut off at the end of a streamed fragment is dropped too.
+ */
+export const stripProsody = (markup: string): string => {
+  return markup
+    .replace(TAG_PATTERN, '')
+    .replace(PARTIAL_TAG_PATTERN, '')
+    .replace(/[ \t]{2,}/g, ' ');
+};
+
+const formatDate = (text: string, language: PreferredLanguage): string => {
+  const match = text.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return text;
+  const [, year, month, day] = match;
+  const monthIndex = parseInt(month, 10) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return text;
+
+  if (language === 'zh') {
+    return `${parseInt(year, 10)}年${monthIndex + 1}月${parseInt(day, 10)}日`;
+  }
+  return `${parseInt(day, 10)} ${MONTHS_EN[monthIndex]} ${year}`;
+};
+
+// What the voice should say for a text segment, for engines without say-as and sub
+export const spokenText = (segment: ProsodyText, language: PreferredLanguage): string => {
+  if (segment.alias !== undefined) {
+    return segment.alias;
+  }
+  switch (segment.sayAs) {
+    case 'date':
+      return formatDate(segment.text, language);
+    case 'characters':
+      return segment.text.replace(/\s+/g, '').split('').join(' ');
+    default:
+      return segment.text;
+  }
+};
+
+// Plain speakable text, pauses dropped
+export const toSpokenText = (segments: ProsodySegment[], language: PreferredLanguage): string => {
+  return segments
+    .map(segment => segment.type === 'text' ? spokenText(segment, language) : ' ')
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Full SSML for engines that accept it
+export const toSsml = (segments: ProsodySegment[]): string => {
+  const body = segments.map(segment => {
+    if (segment.type === 'pause') {
+      return `<break time="${segment.ms}ms"/>`;
+    }
+    let xml = escapeXml(segment.text);
+    if (segment.alias !== undefined) xml = `<sub alias="${escapeXml(segment.alias)}">${xml}</sub>`;
+    if (segment.sayAs) xml = `<say-as interpret-as="${segment.sayAs}">${xml}</say-as>`;
+    if (segment.emphasis) xml = `<emphasis>${xml}</emphasis>`;
+    if (segment.rate !== 1) xml = `<prosody rate="${Math.round(segment.rate * 100)}%">${xml}</prosody>`;
+    return xml;
+  }).join('');
+  return `<speak>${body}</speak>`;
+};
+
+/**
+ * Splits segments into runs that share a rate and emphasis, separated by
+ * pauses, for engines that only take plain text. Engines that cannot stress
+ * a word pass `splitOnEmphasis: false` to avoid needless extra chunks.
+ */
+export const toSpeechChunks = (
+  segments: ProsodySegment[],
+  language: PreferredLanguage,
+  splitOnEmphasis = true
+): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+
+  for (const segment of segments) {
+    const last = chunks[chunks.length - 1];
+
+    if (segment.type === 'pause') {
+      if (segment.ms === 0) continue;
+      if (last?.type === 'pause') {
+        last.ms = Math.min(MAX_PAUSE_MS, last.ms + segment.ms);
+      } else if (last) {
+        // A leading pause has nothing to separate
+        chunks.push({ type: 'pause', ms: segment.ms });
+      }
+      continue;
+    }
+
+    const text = spokenText(segment, language);
+    const emphasis = splitOnEmphasis && segment.emphasis;
+    const sameStyle = last?.type === 'speech' && last.rate === segment.rate && last.emphasis === emphasis;
+    // Punctuation alone is not worth an utterance of its own
+    const hasWords = SPOKEN_CHARACTER.test(text);
+    if (last?.type === 'speech' && (sameStyle || !hasWords)) {
+      last.text += text;
+    } else if (hasWords) {
+      chunks.push({ type: 'speech', text, rate: segment.rate, emphasis });
+    }
+  }
+
+  while (chunks.length > 0 && chunks[chunks.length - 1].type === 'pause') {
+    chunks.pop();
+  }
+  return chunks
+    .map(chunk => chunk.type === 'speech' ? { ...chunk, text: chunk.text.replace(/\s+/g, ' ').trim() } : chunk)
+    .filter(chunk => chunk.type === 'pause' || chunk.text.length > 0);
+};
+
+// Maps each text segment through `transform`, which may split it into several segments
+export const mapTextSegments = (
+  segments: ProsodySegment[],
+  transform: (segment: ProsodyText) => ProsodySegment[]
+): ProsodySegment[] => {
+  return segments.flatMap(segment => segment.type === 'text' ? transform(segment) : [segment]);
+};
+
+// Opening tags, and the space after them, at the end of a stretch
+const OPENING_TAGS_AT_END = /(?:<(?:emphasis|prosody|say-as|sub)\b[^>]*>\s*)+$/i;
+
+interface OpenTag {
+  tag: string;
+  source: string; // As written, to open it again
+}
+
+// The tags still open at the end of `markup`, given those open at its start
+const getOpenTags = (markup: string, open: OpenTag[]): OpenTag[] => {
+  const stack = [...open];
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    const tag = match[2].toLowerCase();
+    if (tag === 'break') continue;
+    if (match[1]) {
+      const index = stack.map(frame => frame.tag).lastIndexOf(tag);
+      if (index !== -1) {
+        stack.splice(index);
+      }
+    } else {
+      stack.push({ tag, source: match[0] });
+    }
+  }
+  return stack;
+};
+
+/**
+ * Splits markup into stretches of one language, each voiced separately in
+ * its own language ("Kia ora! I hope your mokopuna are well"). A tag open
+ * across a change of language is closed before it and opened again after,
+ * so each stretch keeps its pauses and emphasis. A single Latin-script word
+ * stays with the words around it.
+ */
+export const splitProsodyByLanguage = (markup: string, candidates: PreferredLanguage[]): LanguageSegment[] => {
+  // Tag names are not words; blanking them keeps every position in place
+  const masked = markup.replace(TAG_PATTERN, tag => ' '.repeat(tag.length));
+  const segments = joinShortSegments(segmentLanguages(masked, candidates), 2);
+  const fallback = segments[0]?.language ?? candidates[0] ?? 'en';
+
+  let cursor = 0;
+  const starts = segments.map((segment, index) => {
+    const found = masked.indexOf(segment.text, cursor);
+    cursor = found + segment.text.length;
+    if (index === 0 || found < 0) return index === 0 ? 0 : -1;
+    // An opening tag just before a change belongs to the stretch it opens
+    const opening = markup.slice(0, found).match(OPENING_TAGS_AT_END);
+    return opening?.index ?? found;
+  });
+  if (segments.length < 2 || starts.includes(-1)) {
+    return [{ text: markup, language: fallback }];
+  }
+
+  let open: OpenTag[] = [];
+  return segments.map((segment, index) => {
+    const text = markup.slice(starts[index], starts[index + 1] ?? markup.length);
+    const reopened = open.map(frame => frame.source).join('');
+    open = getOpenTags(text, open);
+    const closing = [...open].reverse().map(frame => `</${frame.tag}>`).join('');
+    return { text: reopened + text + closing, language: segment.language };
+  });
+};
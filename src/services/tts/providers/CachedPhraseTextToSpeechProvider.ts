@@ -0,0 +1,35 @@
+import SpeechCacheService from '../../cultural/SpeechCacheService';
+import {
+  SpeechSynthesisRequest,
+  SynthesizedSpeech,
+  TextToSpeechProvider
+} from '../TextToSpeechProvider';
+import { getDefaultVoiceId } from './ElevenLabsTextToSpeechProvider';
+
+/**
+ * Audio pre-generated by `SpeechCacheService.warmCacheForUser`. Free and
+ * instant, so it goes first; sentences that are not cached fall through.
+ */
+export class CachedPhraseTextToSpeechProvider implements TextToSpeechProvider {
+  public readonly name = 'cache';
+  public readonly costPerCharacter = 0;
+  private speechCache: SpeechCacheService;
+
+  constructor(speechCache: SpeechCacheService = SpeechCacheService.getInstance()) {
+    this.speechCache = speechCache;
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async synthesize(text: string, request: SpeechSynthesisRequest): Promise<SynthesizedSpeech | null> {
+    // Cached audio is MP3 at the voice's usual pace and pitch; volume is applied when it plays
+    if ((request.rate ?? 1) !== 1 || (request.pitch ?? 1) !== 1 || request.outputFormat === 'wav') {
+      return null;
+    }
+    const voiceId = request.voiceId || getDefaultVoiceId(request.language);
+    const fileUri = await this.speechCache.getCachedAudio(text, voiceId, request.language);
+    return fileUri ? { type: 'file', provider: this.name, fileUri, isTemporary: false } : null;
+  }
+}
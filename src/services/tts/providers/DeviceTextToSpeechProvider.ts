@@ -0,0 +1,70 @@
+import * as Speech from 'expo-speech';
+import {
+  SpeechSynthesisRequest,
+  SynthesizedSpeech,
+  TextToSpeechError,
+  TextToSpeechProvider
+} from '../TextToSpeechProvider';
+import { CulturalSpeechOptions } from '../culturalSpeech';
+import { SpeechChunk, toSpeechChunks } from '../prosody';
+
+// expo-speech has no emphasis, so stressed words are lifted slightly instead
+const EMPHASIS_PITCH = 1.1;
+
+/**
+ * The platform voice through expo-speech. Free, offline and always
+ * configured, so it ends every chain. expo-speech takes plain text, so
+ * prosody is played as a run of utterances with timed silence between.
+ */
+export class DeviceTextToSpeechProvider implements TextToSpeechProvider {
+  public readonly name = 'device';
+  public readonly costPerCharacter = 0;
+  // Bumped by stop() so a sentence part-way through its chunks does not carry on
+  private generation = 0;
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async synthesize(_text: string, request: SpeechSynthesisRequest): Promise<SynthesizedSpeech> {
+    const { delivery } = request;
+    const chunks = toSpeechChunks(request.prosody, request.language);
+
+    return {
+      type: 'live',
+      provider: this.name,
+      play: async () => {
+        const generation = this.generation;
+        for (const chunk of chunks) {
+          if (generation !== this.generation) {
+            return;
+          }
+          if (chunk.type === 'pause') {
+            await new Promise(resolve => setTimeout(resolve, chunk.ms));
+          } else {
+            await this.speakChunk(chunk, delivery);
+          }
+        }
+      }
+    };
+  }
+
+  public async stop(): Promise<void> {
+    this.generation++;
+    await Speech.stop();
+  }
+
+  private speakChunk(chunk: Extract<SpeechChunk, { type: 'speech' }>, delivery: CulturalSpeechOptions): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      Speech.speak(chunk.text, {
+        language: delivery.language,
+        pitch: delivery.pitch * (chunk.emphasis ? EMPHASIS_PITCH : 1),
+        rate: delivery.rate * chunk.rate,
+        volume: delivery.volume,
+        onDone: () => resolve(),
+        onStopped: () => resolve(),
+        onError: error => reject(new TextToSpeechError(error?.message || 'Text-to-speech failed'))
+      });
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import * as FileSystem from 'expo-file-system';
+import { Buffer } from 'buffer';
+import { PreferredLanguage } from '../../../types';
+import {
+  SpeechSynthesisRequest,
+  SynthesizedSpeech,
+  TextToSpeechError,
+  TextToSpeechProvider,
+  TextToSpeechProviderSettings
+} from '../TextToSpeechProvider';
+import { ProsodySegment, spokenText } from '../prosody';
+import { writeWav } from '../../audio/wav';
+
+export const ELEVEN_LABS_API_URL = 'https://api.elevenlabs.io';
+
+// Default ElevenLabs voice IDs for different languages
+const DEFAULT_VOICE_IDS: Record<PreferredLanguage, string> = {
+  mi: 'pNInz6obpgDQGcFmaJgB', // Adam
+  zh: '21m00Tcm4TlvDq8ikWAM', // Chinese voice
+  en: 'EXAVITQu4vr4xnSDxMaL', // Rachel voice
+  // Spoken through the multilingual models
+  sm: 'EXAVITQu4vr4xnSDxMaL',
+  to: 'EXAVITQu4vr4xnSDxMaL',
+  hi: '21m00Tcm4TlvDq8ikWAM',
+  ko: '21m00Tcm4TlvDq8ikWAM'
+};
+
+// The speed range ElevenLabs accepts in voice_settings
+const MIN_SPEED = 0.7;
+const MAX_SPEED = 1.2;
+
+// Raw 16-bit mono PCM, wrapped in a WAV header here, for audio that is processed before playback
+const PCM_OUTPUT_FORMAT = 'pcm_22050';
+const PCM_SAMPLE_RATE = 22050;
+
+// Models that honour <break time="1.5s" /> in the text; older ones read the tag aloud
+const BREAK_TAG_MODELS = /^eleven_(multilingual_v2|turbo_v2|flash_v2)/;
+
+/**
+ * ElevenLabs takes plain text with break tags rather than full SSML, so
+ * aliases and say-as are resolved to spoken words here. Emphasis and rate
+ * changes are left to the voice, which follows the sentence's own stress.
+ */
+const toElevenLabsText = (segments: ProsodySegment[], language: PreferredLanguage, breaks: boolean): string => {
+  return segments
+    .map(segment => {
+      if (segment.type === 'text') {
+        return spokenText(segment, language);
+      }
+      return breaks && segment.ms > 0 ? ` <break time="${(segment.ms / 1000).toFixed(1)}s" /> ` : ' ';
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const getDefaultVoiceId = (language: PreferredLanguage): string => {
+  return DEFAULT_VOICE_IDS[language] || DEFAULT_VOICE_IDS.en;
+};
+
+/**
+ * ElevenLabs synthesis into a temporary MP3, or WAV when the request asks
+ * for it. Tries the streaming endpoint first and falls back to the regular
+ * one if it is refused.
+ */
+export class ElevenLabsTextToSpeechProvider implements TextToSpeechProvider {
+  public readonly name = 'elevenlabs';
+  public readonly costPerCharacter: number;
+  private settings: TextToSpeechProviderSettings;
+
+  constructor(settings: TextToSpeechProviderSettings) {
+    this.settings = settings;
+    this.costPerCharacter = settings.costPerCharacter;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.settings.apiKey;
+  }
+
+  public async synthesize(text: string, request: SpeechSynthesisRequest): Promise<SynthesizedSpeech> {
+    if (!this.isConfigured()) {
+      throw new TextToSpeechError(`Text-to-speech provider ${this.name} is not configured`);
+    }
+
+    const voiceId = request.voiceId || getDefaultVoiceId(request.language);
+    console.log(`Requesting speech synthesis from ElevenLabs for voice ID: ${voiceId} (${text.substring(0, 20)}...)`);
+
+    const payload = JSON.stringify({
+      text: toElevenLabsText(request.prosody, request.language, BREAK_TAG_MODELS.test(this.settings.model)) || text,
+      model_id: this.settings.model,
+      voice_settings: {
+        stability: request.stability ?? 0.5,
+        similarity_boost: request.similarityBoost ?? 0.75,
+        style: 0.0,
+        use_speaker_boost: true,
+        // Only the listener's own pace; the voice already speaks each language naturally
+        ...(request.rate !== undefined && request.rate !== 1
+          ? { speed: Math.min(MAX_SPEED, Math.max(MIN_SPEED, request.rate)) }
+          : {})
+      },
+      output_format: "mp3"
+    });
+
+    const isWav = request.outputFormat === 'wav';
+    const baseUrl = `${this.settings.apiUrl}/v1/text-to-speech/${voiceId}`;
+    const query = isWav ? `?output_format=${PCM_OUTPUT_FORMAT}` : '';
+    let response = await this.post(`${baseUrl}/stream${query}`, payload);
+
+    // If streaming endpoint fails, try regular endpoint
+    if (!response.ok) {
+      console.log(`Streaming endpoint failed (${response.status}), trying regular endpoint...`);
+      response = await this.post(`${baseUrl}${query}`, payload);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new TextToSpeechError(`ElevenLabs API error (${response.status}): ${errorText}`, {
+        status: response.status,
+        retryable: response.status === 429 || response.status >= 500
+      });
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    if (arrayBuffer.byteLength === 0) {
+      throw new TextToSpeechError('Received empty audio data from ElevenLabs', { retryable: true });
+    }
+    console.log(`Received audio data: ${Math.round(arrayBuffer.byteLength / 1024)} KB`);
+
+    const audio = isWav
+      ? writeWav({ audioFormat: 1, channels: 1, sampleRate: PCM_SAMPLE_RATE, bitsPerSample: 16 }, Buffer.from(arrayBuffer))
+      : Buffer.from(arrayBuffer);
+    const fileUri = `${FileSystem.cacheDirectory}tts_${Date.now()}_${Math.random().toString(36).substr(2, 6)}.${isWav ? 'wav' : 'mp3'}`;
+    await FileSystem.writeAsStringAsync(fileUri, audio.toString('base64'), {
+      encoding: FileSystem.EncodingType.Base64
+    });
+
+    return { type: 'file', provider: this.name, fileUri, isTemporary: true };
+  }
+
+  private async post(url: string, body: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.settings.timeoutMs);
+
+    try {
+      return await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'xi-api-key': this.settings.apiKey || '',
+          'Accept': 'audio/mpeg'
+        },
+        body,
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw new TextToSpeechError(`ElevenLabs request failed: ${error}`, { retryable: true });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
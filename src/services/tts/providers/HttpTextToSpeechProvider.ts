@@ -0,0 +1,99 @@
+import axios from 'axios';
+import * as FileSystem from 'expo-file-system';
+import { Buffer } from 'buffer';
+import { PreferredLanguage } from '../../../types';
+import {
+  SpeechSynthesisRequest,
+  SynthesizedSpeech,
+  TextToSpeechError,
+  TextToSpeechProvider,
+  TextToSpeechProviderSettings
+} from '../TextToSpeechProvider';
+import { toSpeechChunks } from '../prosody';
+import { joinWav } from '../../audio/wav';
+
+/**
+ * Speech from a self-hosted server that takes JSON and returns WAV, e.g.
+ * Piper (`python3 -m piper.http_server -m en_GB-alba-medium`) on the home
+ * network. Free and private, and keeps working when the ElevenLabs budget
+ * has run out.
+ *
+ * Piper reads no SSML, so a sentence with pauses or changes of pace is
+ * requested chunk by chunk and joined into one WAV with silence between.
+ */
+export class HttpTextToSpeechProvider implements TextToSpeechProvider {
+  public readonly name = 'http';
+  public readonly costPerCharacter: number;
+  public readonly nativeLanguages: PreferredLanguage[];
+  private settings: TextToSpeechProviderSettings;
+
+  constructor(settings: TextToSpeechProviderSettings) {
+    this.settings = settings;
+    this.costPerCharacter = settings.costPerCharacter;
+    this.nativeLanguages = settings.nativeLanguages || [];
+  }
+
+  public isConfigured(): boolean {
+    return !!this.settings.apiUrl;
+  }
+
+  public async synthesize(text: string, request: SpeechSynthesisRequest): Promise<SynthesizedSpeech> {
+    if (!this.isConfigured()) {
+      throw new TextToSpeechError(`Text-to-speech provider ${this.name} is not configured`);
+    }
+
+    try {
+      const chunks = toSpeechChunks(request.prosody, request.language, false);
+      const parts: (Buffer | number)[] = [];
+      for (const chunk of chunks) {
+        parts.push(chunk.type === 'pause'
+          ? chunk.ms
+          : await this.requestAudio(chunk.text, request.delivery.rate * chunk.rate));
+      }
+      if (parts.length === 0) {
+        parts.push(await this.requestAudio(text, request.delivery.rate));
+      }
+      const audio = parts.length === 1 && typeof parts[0] !== 'number' ? parts[0] : joinWav(parts);
+
+      const fileUri = `${FileSystem.cacheDirectory}tts_${Date.now()}_${Math.random().toString(36).substr(2, 6)}.wav`;
+      await FileSystem.writeAsStringAsync(fileUri, audio.toString('base64'), {
+        encoding: FileSystem.EncodingType.Base64
+      });
+
+      return { type: 'file', provider: this.name, fileUri, isTemporary: true };
+    } catch (error) {
+      if (error instanceof TextToSpeechError) {
+        throw error;
+      }
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new TextToSpeechError(`Speech server request failed: ${error}`, {
+        status,
+        retryable: status === undefined || status === 429 || status >= 500
+      });
+    }
+  }
+
+  private async requestAudio(text: string, rate: number): Promise<Buffer> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Accept': 'audio/wav' };
+    // Servers on the home network usually run without auth
+    if (this.settings.apiKey) {
+      headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+    }
+
+    const response = await axios.post<ArrayBuffer>(
+      this.settings.apiUrl,
+      {
+        text,
+        ...(this.settings.model ? { voice: this.settings.model } : {}),
+        // Piper slows down as length_scale grows
+        length_scale: 1 / rate
+      },
+      { headers, responseType: 'arraybuffer', timeout: this.settings.timeoutMs }
+    );
+
+    if (!response.data || response.data.byteLength === 0) {
+      throw new TextToSpeechError('Received empty audio data from the speech server', { retryable: true });
+    }
+    return Buffer.from(response.data);
+  }
+}
@@ -0,0 +1,42 @@
+import { PreferredLanguage, VoiceGender } from '../../types';
+import { getDefaultVoiceId } from './providers/ElevenLabsTextToSpeechProvider';
+
+// An ElevenLabs voice the user can choose; the multilingual models let each one speak every language
+export interface VoiceOption {
+  id: string;
+  name: string;
+  gender: VoiceGender;
+  description: string;
+}
+
+export const VOICE_OPTIONS: VoiceOption[] = [
+  { id: 'EXAVITQu4vr4xnSDxMaL', name: 'Bella', gender: 'female', description: 'Soft and warm' },
+  { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', gender: 'female', description: 'Calm and clear' },
+  { id: 'MF3mGyEYCl7XYWbV9V6O', name: 'Elli', gender: 'female', description: 'Bright and gentle' },
+  { id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', gender: 'male', description: 'Deep and steady' },
+  { id: 'ErXwobaYiN019PkySvjV', name: 'Antoni', gender: 'male', description: 'Friendly and rounded' },
+  { id: 'TxGEqnHWrfWFTfGW9XjX', name: 'Josh', gender: 'male', description: 'Young and relaxed' }
+];
+
+export const getVoiceOption = (voiceId: string): VoiceOption | undefined =>
+  VOICE_OPTIONS.find(voice => voice.id === voiceId);
+
+// The language's default voice when it matches the gender, otherwise the first voice that does
+export const getDefaultVoiceIdForGender = (language: PreferredLanguage, gender: VoiceGender): string => {
+  const defaultId = getDefaultVoiceId(language);
+  if (getVoiceOption(defaultId)?.gender === gender) {
+    return defaultId;
+  }
+  return VOICE_OPTIONS.find(voice => voice.gender === gender)?.id ?? defaultId;
+};
+
+// Read by the voice preview in settings
+export const VOICE_SAMPLE_SENTENCES: Record<PreferredLanguage, string> = {
+  en: 'Hello, it is lovely to hear from you. How are you feeling today?',
+  mi: 'Kia ora, he pai te rongo i a koe. Kei te pēhea koe i tēnei rā?',
+  zh: '您好，很高兴听到您的声音。您今天感觉怎么样？',
+  sm: "Talofa lava, e manaia le fa'alogo atu ia te oe. O a mai oe i le aso?",
+  to: "Mālō e lelei, 'oku fakafiefia ke fanongo kiate koe. Fēfē hake koe he 'aho ni?",
+  hi: 'नमस्ते, आपकी आवाज़ सुनकर बहुत अच्छा लगा। आज आप कैसा महसूस कर रहे हैं?',
+  ko: '안녕하세요, 목소리를 들으니 정말 반가워요. 오늘 기분은 어떠세요?'
+};
@@ -0,0 +1,111 @@
+import { VoiceActivityEvent } from '../audio/VoiceActivityDetector';
+
+export interface BargeInOptions {
+  startMarginDb: number; // Above the noise floor before talking over the reply counts
+  endMarginDb: number; // Above the noise floor below which the talking has stopped
+  minSpeechMs: number;
+  confirmMs: number; // The reply is ducked at first, and stopped once the talking lasts this long
+  duckVolume: number; // 0-1
+  echoMarginDb: number; // Above the reply's own bleed, once heard, before talking counts
+}
+
+// What to do with the reply being spoken
+export type BargeInAction = 'duck' | 'restore' | 'interrupt';
+
+// Readings this soon after ducking still carry the louder reply
+const DUCK_SETTLE_MS = 200;
+// The reply's bleed falls with its volume; a level falling by this share of the ducking is taken for it
+const ECHO_DROP_SHARE = 0.5;
+
+const mean = (values: number[]): number => values.reduce((total, value) => total + value, 0) / values.length;
+
+/**
+ * Tells the user talking over a reply from the reply itself. The microphone
+ * records under playback without echo cancellation, so the assistant's own
+ * voice from the speaker can be loud enough to look like speech.
+ *
+ * Loud sound ducks the reply first. The user's voice carries on at the same
+ * level, while the bleed drops with the playback volume: sound that falls by
+ * at least half the ducking is the reply, and the reply is restored. Its
+ * level is remembered, and for the rest of the reply only sound
+ * `echoMarginDb` louder than it can duck again.
+ *
+ * Pure and synchronous: feed it the VAD's metering level events.
+ */
+export class BargeInDetector {
+  private options: BargeInOptions;
+  private loudLevels: number[] = [];
+  private loudSinceMs: number | null = null;
+  private candidate: { startMs: number; levelDb: number; duckedLevels: number[] } | null = null;
+  private echoLevelDb = -Infinity;
+
+  constructor(options: BargeInOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Takes one metering level and returns what to do with the reply, if
+   * anything changes.
+   */
+  public process(event: Extract<VoiceActivityEvent, { type: 'level' }>): BargeInAction | null {
+    const { timeMs, levelDb, noiseFloorDb } = event;
+    if (this.candidate) {
+      return this.check(this.candidate, timeMs, levelDb, noiseFloorDb);
+    }
+
+    const thresholdDb = Math.max(noiseFloorDb + this.options.startMarginDb, this.echoLevelDb + this.options.echoMarginDb);
+    if (levelDb < thresholdDb) {
+      this.loudSinceMs = null;
+      this.loudLevels = [];
+      return null;
+    }
+
+    this.loudSinceMs = this.loudSinceMs ?? timeMs;
+    this.loudLevels.push(levelDb);
+    if (timeMs - this.loudSinceMs < this.options.minSpeechMs) {
+      return null;
+    }
+
+    this.candidate = { startMs: timeMs, levelDb: mean(this.loudLevels), duckedLevels: [] };
+    this.loudSinceMs = null;
+    this.loudLevels = [];
+    return 'duck';
+  }
+
+  // A new reply, whose bleed may differ from the last; the noise floor comes with each level
+  public reset(): void {
+    this.loudSinceMs = null;
+    this.loudLevels = [];
+    this.candidate = null;
+    this.echoLevelDb = -Infinity;
+  }
+
+  // The loud sound's level while the reply is ducked decides whose voice it is
+  private check(
+    candidate: { startMs: number; levelDb: number; duckedLevels: number[] },
+    timeMs: number,
+    levelDb: number,
+    noiseFloorDb: number
+  ): BargeInAction | null {
+    const elapsedMs = timeMs - candidate.startMs;
+    if (elapsedMs >= DUCK_SETTLE_MS) {
+      candidate.duckedLevels.push(levelDb);
+    }
+    if (elapsedMs < this.options.confirmMs || candidate.duckedLevels.length === 0) {
+      return null;
+    }
+
+    this.candidate = null;
+    const duckedDb = mean(candidate.duckedLevels);
+    // Stopped altogether, e.g. a cough: not the user cutting in, and nothing learnt about the bleed
+    if (duckedDb < noiseFloorDb + this.options.endMarginDb) {
+      return 'restore';
+    }
+    const duckingDb = -20 * Math.log10(this.options.duckVolume);
+    if (candidate.levelDb - duckedDb >= duckingDb * ECHO_DROP_SHARE) {
+      this.echoLevelDb = Math.max(this.echoLevelDb, candidate.levelDb);
+      return 'restore';
+    }
+    return 'interrupt';
+  }
+}
@@ -0,0 +1,240 @@
+import { PreferredLanguage } from '../../types';
+
+/**
+ * off: tap to talk. sleeping: listening for a wake phrase only.
+ * awake: every utterance is a turn. suspended: on, but not listening (low battery).
+ */
+export type HandsFreePhase = 'off' | 'sleeping' | 'awake' | 'suspended';
+
+export interface HandsFreeState {
+  phase: HandsFreePhase;
+  isMicLive: boolean;
+  wakePhrase: string; // The one to show and say for the current language
+}
+
+export type HandsFreeDecision =
+  // Not for the assistant, e.g. conversation in the room while sleeping
+  | { type: 'ignore' }
+  // The wake phrase was heard; request is whatever followed it, possibly empty
+  | { type: 'wake'; request: string }
+  | { type: 'respond'; request: string };
+
+export type HandsFreePrompt = 'started' | 'listening' | 'goodbye' | 'suspended';
+
+// The goodbye and suspended cues leave the wake phrase out, so the assistant cannot wake itself
+const PROMPTS: Record<PreferredLanguage, Record<HandsFreePrompt, (wakePhrase: string) => string>> = {
+  en: {
+    started: wakePhrase => `Hands-free is on. Say "${wakePhrase}" whenever you want to talk to me.`,
+    listening: () => "I'm listening.",
+    goodbye: () => "I'll let you rest now. Call me whenever you need me.",
+    suspended: () => "The battery is low, so I've stopped listening by myself. Tap the microphone when you want to talk."
+  },
+  mi: {
+    started: wakePhrase => `Kua tīmata te kōrero ringa-kore. Kīia mai "${wakePhrase}" ina hiahia koe ki te kōrero ki ahau.`,
+    listening: () => 'Kei te whakarongo ahau.',
+    goodbye: () => 'Ka noho puku ahau ināianei. Karanga mai ina hiahia koe ki ahau.',
+    suspended: () => 'Kua heke te hiko, nō reira kua mutu taku whakarongo. Pēhia te hopuoro hei kōrero ki ahau.'
+  },
+  zh: {
+    started: wakePhrase => `免提模式已开启。想和我说话时，请说"${wakePhrase}"。`,
+    listening: () => '我在听。',
+    goodbye: () => '我先不打扰您了。需要我的时候随时叫我。',
+    suspended: () => '电量不足，我已停止自动聆听。想说话时请按麦克风按钮。'
+  },
+  sm: {
+    started: wakePhrase => `Ua amata le talanoaga e aunoa ma lima. Fai mai "${wakePhrase}" pe a e mana'o e talanoa mai ia te a'u.`,
+    listening: () => "Ou te fa'alogo atu.",
+    goodbye: () => "O le a ou malolo nei. Vala'au mai pe a e mana'omia a'u.",
+    suspended: () => "Ua maualalo le maa, o lea ua ou le toe fa'alogo. Oomi le masini fa'alogo pe a e mana'o e talanoa."
+  },
+  to: {
+    started: wakePhrase => `Kuo kamata 'a e talanoa ta'e ngāue'aki 'a e nima. Lea mai "${wakePhrase}" ka ke fie talanoa mai kiate au.`,
+    listening: () => "'Oku ou fanongo atu.",
+    goodbye: () => "Te u tuku ke ke mālōlō he taimí ni. Ui mai ha taimi pē te ke fiema'u ai au.",
+    suspended: () => "Kuo ma'ulalo 'a e mahafu, ko ia kuo u tuku 'eku fanongo. Lomi 'a e maikolofoni ka ke fie talanoa."
+  },
+  hi: {
+    started: wakePhrase => `हैंड्स-फ़्री मोड चालू है। जब भी मुझसे बात करनी हो, "${wakePhrase}" कहिए।`,
+    listening: () => 'जी, बोलिए।',
+    goodbye: () => 'अब आप आराम कीजिए। जब भी ज़रूरत हो, मुझे बुला लीजिए।',
+    suspended: () => 'बैटरी कम है, इसलिए मैंने अपने आप सुनना बंद कर दिया है। बात करनी हो तो माइक्रोफ़ोन दबाइए।'
+  },
+  ko: {
+    started: wakePhrase => `핸즈프리 모드가 켜졌어요. 저와 이야기하고 싶으실 때 "${wakePhrase}"라고 말씀해 주세요.`,
+    listening: () => '네, 듣고 있어요.',
+    goodbye: () => '이제 편히 쉬세요. 필요하실 때 언제든 불러 주세요.',
+    suspended: () => '배터리가 부족해서 자동 듣기를 멈췄어요. 이야기하고 싶으시면 마이크 버튼을 눌러 주세요.'
+  }
+};
+
+export const getHandsFreePrompt = (prompt: HandsFreePrompt, language: PreferredLanguage, wakePhrase: string): string =>
+  PROMPTS[language][prompt](wakePhrase);
+
+interface CompactText {
+  text: string; // Lowercase letters and digits only, without diacritics
+  ends: number[]; // For each character, the index just past it in the original
+}
+
+// "Kia ora, Momenko!" -> "kiaoramomenko", so recognisers' spacing, macrons and punctuation don't matter
+const compact = (original: string): CompactText => {
+  let text = '';
+  const ends: number[] = [];
+  let index = 0;
+  for (const character of original) {
+    index += character.length;
+    const folded = character.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (const part of folded) {
+      if (/[\p{L}\p{N}]/u.test(part)) {
+        text += part;
+        ends.push(index);
+      }
+    }
+  }
+  return { text, ends };
+};
+
+/**
+ * Finds the end of the closest approximate occurrence of pattern in text
+ * (Sellers' edit distance with a free start), or -1 when it needs more
+ * than maxEdits insertions, deletions or substitutions.
+ */
+const findApproximate = (text: string, pattern: string, maxEdits: number): number => {
+  const patternChars = Array.from(pattern);
+  if (patternChars.length <= maxEdits) {
+    return -1;
+  }
+
+  let previous = patternChars.map((_, i) => i + 1);
+  let bestEnd = -1;
+  let bestCost = maxEdits + 1;
+
+  Array.from(text).forEach((character, j) => {
+    const current: number[] = [];
+    let diagonal = 0;
+    let left = 0;
+    patternChars.forEach((patternChar, i) => {
+      const cost = Math.min(
+        diagonal + (patternChar === character ? 0 : 1),
+        previous[i] + 1,
+        left + 1
+      );
+      diagonal = previous[i];
+      current.push(cost);
+      left = cost;
+    });
+    previous = current;
+    if (current[current.length - 1] < bestCost) {
+      bestCost = current[current.length - 1];
+      bestEnd = j + 1;
+    }
+  });
+
+  return bestEnd;
+};
+
+/**
+ * Looks for any of the wake phrases in a transcript, tolerating about one
+ * misrecognised letter in six. Returns what was said after the phrase.
+ */
+export const matchWakePhrase = (
+  transcript: string,
+  wakePhrases: string[]
+): { matched: boolean; remainder: string } => {
+  const spoken = compact(transcript);
+  for (const phrase of wakePhrases) {
+    const pattern = compact(phrase).text;
+    if (!pattern) continue;
+
+    const end = findApproximate(spoken.text, pattern, Math.floor(Array.from(pattern).length / 6));
+    if (end !== -1) {
+      const remainder = transcript.slice(spoken.ends[end - 1]).replace(/^[\s\p{P}]+/u, '').trim();
+      return { matched: true, remainder };
+    }
+  }
+  return { matched: false, remainder: transcript };
+};
+
+/**
+ * Decides what each utterance means in a hands-free conversation. Timers,
+ * recording and speech stay with VoiceCommunicationService; this only
+ * tracks the phase, so it can be driven without audio.
+ */
+export class HandsFreeController {
+  private phase: HandsFreePhase = 'off';
+  private wakePhrases: Record<PreferredLanguage, string[]>;
+
+  constructor(wakePhrases: Record<PreferredLanguage, string[]>) {
+    this.wakePhrases = wakePhrases;
+  }
+
+  public start(): void {
+    this.phase = 'sleeping';
+  }
+
+  public stop(): void {
+    this.phase = 'off';
+  }
+
+  // Returns false when there was nothing to suspend
+  public suspend(): boolean {
+    if (this.phase === 'off' || this.phase === 'suspended') {
+      return false;
+    }
+    this.phase = 'suspended';
+    return true;
+  }
+
+  public resume(): boolean {
+    if (this.phase !== 'suspended') {
+      return false;
+    }
+    this.phase = 'sleeping';
+    return true;
+  }
+
+  // Back to waiting for the wake phrase, e.g. after the idle timeout
+  public sleep(): boolean {
+    if (this.phase !== 'awake') {
+      return false;
+    }
+    this.phase = 'sleeping';
+    return true;
+  }
+
+  public handleTranscript(transcript: string, language: PreferredLanguage): HandsFreeDecision {
+    if ((this.phase !== 'sleeping' && this.phase !== 'awake') || !transcript.trim()) {
+      return { type: 'ignore' };
+    }
+
+    const { matched, remainder } = matchWakePhrase(transcript, this.getWakePhrases(language));
+    if (this.phase === 'sleeping') {
+      if (!matched) {
+        return { type: 'ignore' };
+      }
+      this.phase = 'awake';
+      return { type: 'wake', request: remainder };
+    }
+
+    // Saying the wake phrase on its own again gets the listening cue; otherwise it is part of the turn
+    return matched && !remainder
+      ? { type: 'wake', request: '' }
+      : { type: 'respond', request: transcript.trim() };
+  }
+
+  public getPhase(): HandsFreePhase {
+    return this.phase;
+  }
+
+  public isActive(): boolean {
+    return this.phase !== 'off';
+  }
+
+  // Whether each utterance goes through handleTranscript(), rather than straight to the model
+  public isListening(): boolean {
+    return this.phase === 'sleeping' || this.phase === 'awake';
+  }
+
+  public getWakePhrases(language: PreferredLanguage): string[] {
+    return this.wakePhrases[language] || this.wakePhrases.en;
+  }
+}
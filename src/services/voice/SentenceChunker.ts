@@ -0,0 +1,128 @@
+// Abbreviations whose trailing full stop does not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'st', 'mt', 'prof', 'sr', 'jr', 'vs', 'etc', 'e.g', 'i.e', 'approx'
+]);
+
+// Abbreviations only when a number follows, so "No. 5" runs on but "I said no. Then" ends
+const NUMBER_ABBREVIATIONS = new Set(['no']);
+
+// CJK terminators end a sentence on their own; Latin ones need following whitespace
+const CJK_TERMINATORS = /[。！？]/;
+const LATIN_TERMINATORS = /[.!?…]/;
+
+interface SentenceChunkerOptions {
+  // Sentences shorter than this are held back and joined with the next one
+  minLength?: number;
+}
+
+/**
+ * Cuts streamed model output into speakable sentences as the tokens arrive,
+ * so speech synthesis can start before the full reply is generated.
+ */
+export class SentenceChunker {
+  private buffer = '';
+  private minLength: number;
+
+  constructor(options: SentenceChunkerOptions = {}) {
+    this.minLength = options.minLength ?? 12;
+  }
+
+  /**
+   * Adds a streamed fragment and returns any sentences it completed.
+   */
+  public push(fragment: string): string[] {
+    this.buffer += fragment;
+    const sentences: string[] = [];
+    let boundary = this.findBoundary(0);
+
+    while (boundary !== -1) {
+      const sentence = this.buffer.slice(0, boundary).trim();
+      if (this.measure(sentence) >= this.minLength) {
+        sentences.push(sentence);
+        this.buffer = this.buffer.slice(boundary);
+        boundary = this.findBoundary(0);
+      } else {
+        boundary = this.findBoundary(boundary);
+      }
+    }
+
+    return sentences;
+  }
+
+  /**
+   * Returns whatever text is left once the stream has finished.
+   */
+  public flush(): string | null {
+    const remainder = this.buffer.trim();
+    this.buffer = '';
+    return remainder || null;
+  }
+
+  public reset(): void {
+    this.buffer = '';
+  }
+
+  // Han characters carry roughly a word each, so weigh them like two Latin letters
+  private measure(sentence: string): number {
+    const hanCount = (sentence.match(/[\u4e00-\u9fff]/g) || []).length;
+    return sentence.length + hanCount;
+  }
+
+  private findBoundary(from: number): number {
+    for (let i = from; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+
+      if (char === '\n') {
+        return i + 1;
+      }
+
+      if (CJK_TERMINATORS.test(char)) {
+        return this.skipClosingPunctuation(i + 1);
+      }
+
+      if (LATIN_TERMINATORS.test(char)) {
+        const end = this.skipClosingPunctuation(i + 1);
+        // Wait for the next character to know whether this is "3.5" or "Dr. Smith"
+        if (end >= this.buffer.length) {
+          return -1;
+        }
+        if (/\s/.test(this.buffer[end])) {
+          const abbreviation = this.isAbbreviation(i, end);
+          // Wait for the next word to know whether "no." is "No. 5"
+          if (abbreviation === null) {
+            return -1;
+          }
+          if (!abbreviation) {
+            return end;
+          }
+        }
+      }
+    }
+    return -1;
+  }
+
+  private skipClosingPunctuation(index: number): number {
+    let end = index;
+    while (end < this.buffer.length && /[.!?…"'”’)\]」』]/.test(this.buffer[end])) {
+      end++;
+    }
+    return end;
+  }
+
+  // Null while the word after a number abbreviation has not arrived yet
+  private isAbbreviation(terminatorIndex: number, end: number): boolean | null {
+    if (this.buffer[terminatorIndex] !== '.') {
+      return false;
+    }
+    const match = this.buffer.slice(0, terminatorIndex).match(/([A-Za-z.]+)$/);
+    if (!match) {
+      return false;
+    }
+    if (NUMBER_ABBREVIATIONS.has(match[1].toLowerCase())) {
+      const next = this.buffer.slice(end).match(/\S/);
+      return next ? /\d/.test(next[0]) : null;
+    }
+    // Single initials such as "J. Smith", but not the pronoun "I"
+    return ABBREVIATIONS.has(match[1].toLowerCase()) || /^[A-HJ-Z]$/.test(match[1]);
+  }
+}
@@ -0,0 +1,124 @@
+interface SpeechQueueHandlers<T> {
+  // Synthesises a sentence; runs for the next sentence while the current one plays
+  prepare: (text: string) => Promise<T>;
+  // Plays a prepared sentence and resolves when playback has finished
+  play: (prepared: T, text: string) => Promise<void>;
+  onStart?: () => void;
+  onDrained?: () => void;
+  onError?: (error: unknown, text: string) => void;
+}
+
+interface PendingSentence<T> {
+  text: string;
+  prepared: Promise<T>;
+}
+
+/**
+ * Plays sentences in order as they are produced, preparing one sentence
+ * ahead so there is no synthesis gap between them.
+ */
+export class SpeechQueue<T> {
+  private handlers: SpeechQueueHandlers<T>;
+  private waiting: string[] = [];
+  private isRunning = false;
+  private isOpen = false;
+  private isClosed = false;
+  private hasStarted = false;
+  // Bumped by clear() so an in-flight drain loop knows it was cancelled
+  private generation = 0;
+
+  constructor(handlers: SpeechQueueHandlers<T>) {
+    this.handlers = handlers;
+  }
+
+  // True from the first enqueued sentence until the reply has drained or been cleared
+  public get isActive(): boolean {
+    return this.isOpen;
+  }
+
+  public enqueue(text: string): void {
+    if (!text.trim()) {
+      return;
+    }
+    this.isOpen = true;
+    this.isClosed = false;
+    this.waiting.push(text);
+    if (!this.isRunning) {
+      this.drain(this.generation);
+    }
+  }
+
+  /**
+   * Marks the end of the current reply; `onDrained` fires once the remaining
+   * sentences have been played (or straight away if nothing is queued).
+   */
+  public close(): void {
+    this.isClosed = true;
+    if (!this.isRunning && this.waiting.length === 0) {
+      this.finish();
+    }
+  }
+
+  // Drops everything queued without firing onDrained
+  public clear(): void {
+    this.generation++;
+    this.waiting = [];
+    this.isRunning = false;
+    this.isOpen = false;
+    this.isClosed = false;
+    this.hasStarted = false;
+  }
+
+  private takeNext(): PendingSentence<T> | null {
+    const text = this.waiting.shift();
+    if (text === undefined) {
+      return null;
+    }
+    return { text, prepared: this.handlers.prepare(text) };
+  }
+
+  private async drain(generation: number): Promise<void> {
+    this.isRunning = true;
+    let current = this.takeNext();
+
+    while (current) {
+      let prepared: T | undefined;
+      try {
+        prepared = await current.prepared;
+      } catch (error) {
+        this.handlers.onError?.(error, current.text);
+      }
+      if (generation !== this.generation) return;
+
+      // Start synthesising the following sentence while this one plays
+      const following = this.takeNext();
+
+      if (prepared !== undefined) {
+        if (!this.hasStarted) {
+          this.hasStarted = true;
+          this.handlers.onStart?.();
+        }
+        try {
+          await this.handlers.play(prepared, current.text);
+        } catch (error) {
+          this.handlers.onError?.(error, current.text);
+        }
+      }
+      if (generation !== this.generation) return;
+
+      current = following ?? this.takeNext();
+    }
+
+    this.isRunning = false;
+    if (this.isClosed) {
+      this.finish();
+    }
+  }
+
+  private finish(): void {
+    this.isOpen = false;
+    this.isClosed = false;
+    this.hasStarted = false;
+    this.handlers.onDrained?.();
+  }
+}
@@ -1,24 +1,65 @@
 import * as FileSystem from 'expo-file-system';
 import { Audio, AVPlaybackStatus } from 'expo-av';
 import { AudioManager } from '../audio/AudioManager';
-import config from '../../config';
-import { PreferredLanguage } from '../../types';
-import { Buffer } from 'buffer';
-import axios from 'axios';
-import { speechRecognition } from '../../utils/speech-recognition';
+import { VoiceActivityEvent } from '../audio/VoiceActivityDetector';
+import HearingProfileService from '../audio/HearingProfileService';
+import config, { getContextTokenBudget } from '../../config';
+import { PreferredLanguage, CulturalProfile, CulturalGroup, LanguageSegment, VoiceProfile } from '../../types';
+import { getOnDeviceSpeechToTextProvider, getSpeechToTextProvider } from '../stt';
+import CostMonitor from '../performance/CostMonitor';
+import { ChatConversation, ChatProvider, getChatProvider } from '../ai';
+import { loadPromptFacts } from '../memory';
+import { getCurrentUserId } from '../supabase/auth';
+import {
+  getDefaultVoiceId,
+  getTextToSpeechChain,
+  SpeechSynthesisOptions,
+  splitProsodyByLanguage,
+  stripProsody,
+  SynthesizedSpeech,
+  TextToSpeechChain
+} from '../tts';
+import { SentenceChunker } from './SentenceChunker';
+import { BargeInDetector } from './BargeInDetector';
+import { SpeechQueue } from './SpeechQueue';
+import { getHandsFreePrompt, HandsFreeController, HandsFreePrompt, HandsFreeState } from './HandsFreeController';
+import { interpretConfirmation } from './voiceConfirmation';
+import { buildCulturalSystemPrompt } from '../cultural/CulturalPromptBuilder';
+import CulturalPackService from '../cultural/CulturalPackService';
+import { identifyLanguages, segmentLanguages } from '../cultural/languageIdentification';
 
 // Define interfaces
 export interface VoiceCommunicationOptions {
   preferredLanguage: PreferredLanguage;
-  onTranscriptUpdate?: (transcript: string, isFinal: boolean) => void;
+  // Final transcripts come with the stretches of each language the user mixed
+  onTranscriptUpdate?: (transcript: string, isFinal: boolean, segments?: LanguageSegment[]) => void;
   onError?: (error: string) => void;
   onSpeechStart?: () => void;
   onSpeechEnd?: () => void;
   voiceId?: string; // ElevenLabs voice ID
-  modelId?: string; // DeepSeek model ID
+  modelId?: string; // Chat model ID, defaults to config.llm.model
+  chatProvider?: ChatProvider; // Defaults to the provider selected in config.llm
+  textToSpeech?: TextToSpeechChain; // Defaults to the shared chain from config.tts
   stability?: number;
   similarityBoost?: number;
-  onAIResponseReceived?: (response: string) => void; // Callback for AI responses
+  voiceProfile?: VoiceProfileSettings; // The user's saved voice for preferredLanguage, see VoiceProfileService
+  onAIResponseReceived?: (response: string, isFinal: boolean, segments?: LanguageSegment[]) => void; // Accumulated reply while streaming, then the final reply with its languages
+  streamResponses?: boolean; // Stream replies and speak sentence by sentence (default true)
+  culturalProfile?: CulturalProfile; // Shapes the system prompt; defaults to the profile for preferredLanguage
+  onVoiceActivity?: (event: VoiceActivityEvent) => void; // Speech start/end and metering levels while listening
+  onInterruption?: (interruption: SpeechInterruption) => void; // The user talked over a reply (barge-in)
+  onHandsFreeChange?: (state: HandsFreeState) => void; // Hands-free phase and whether the microphone is live
+}
+
+// What a saved voice profile sets on the service
+export type VoiceProfileSettings = Pick<VoiceProfile, 'voiceId' | 'rate' | 'pitch' | 'volume' | 'stability' | 'similarityBoost'>;
+
+// A reply cut short by the user talking over it
+export interface SpeechInterruption {
+  timestamp: Date;
+  playbackPositionMs: number; // Into the sentence that was playing
+  heardText: string;
+  unheardText: string;
 }
 
 export interface SpeechRecognitionResult {
@@ -32,6 +73,27 @@ interface _WebSocketMessage {
   data: unknown;
 }
 
+// A stretch of a sentence in one language; speech is null when no provider could voice it
+interface SpeechPart {
+  text: string;
+  speech: SynthesizedSpeech | null;
+}
+
+// A synthesised sentence ready to play, one part per language it mixes
+interface PreparedSentence {
+  text: string;
+  parts: SpeechPart[];
+}
+
+// Words from the other languages' packs given to the recogniser at most, most important first
+const MAX_RECOGNITION_HINTS = 40;
+
+// The device voice reports no playback position, so progress is estimated at a slow speaking rate
+const DEVICE_VOICE_CHARS_PER_SECOND = 13;
+
+// How long a yes/no question waits for an answer once it has been asked
+const CONFIRMATION_TIMEOUT_MS = 20000;
+
 export interface TTSOptions {
   text: string;
   voiceId?: string;
@@ -41,35 +103,6 @@ export interface TTSOptions {
   modelId?: string;
 }
 
-// DeepSeek Chat API interfaces
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
-interface ChatCompletionRequest {
-  model: string;
-  messages: ChatMessage[];
-  temperature?: number;
-  max_tokens?: number;
-  stream?: boolean;
-}
-
-interface ChatCompletionResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: {
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }[];
-}
-
 export class VoiceCommunicationService {
   private audioManager: AudioManager;
   private language: PreferredLanguage;
@@ -88,17 +121,55 @@ export class VoiceCommunicationService {
   private silenceTimeout: NodeJS.Timeout | null = null;
   private stability: number;
   private similarityBoost: number;
+  // The voice profile's adjustments to the language's delivery, 1 when unchanged
+  private rate: number = 1;
+  private pitch: number = 1;
+  private volume: number = 1;
   private lastPlaybackPosition: number = 0;
   private stalledPlaybackCount: number = 0;
   private lastRecordingDuration: number = 0;
-  private conversationHistory: ChatMessage[] = [];
+  private chatProvider: ChatProvider;
+  private conversation: ChatConversation;
+  // The signed-in user whose memories are pinned to the conversation, looked up on the first turn
+  private userId: string | null = null;
+  private culturalProfile: Omit<CulturalProfile, 'id'> | undefined;
+  private streamResponses: boolean;
+  private textToSpeech: TextToSpeechChain;
+  private speechQueue: SpeechQueue<PreparedSentence>;
+  private chatAbortController: AbortController | null = null;
+  private resolvePlaybackFinished: (() => void) | null = null;
 
   // Callbacks
-  private onTranscriptUpdate: ((transcript: string, isFinal: boolean) => void) | undefined;
+  private onTranscriptUpdate: ((transcript: string, isFinal: boolean, segments?: LanguageSegment[]) => void) | undefined;
   private onError: ((error: string) => void) | undefined;
   private onSpeechStart: (() => void) | undefined;
   private onSpeechEnd: (() => void) | undefined;
-  private onAIResponseReceived: ((response: string) => void) | undefined;
+  private onAIResponseReceived: ((response: string, isFinal: boolean, segments?: LanguageSegment[]) => void) | undefined;
+  private onInterruption: ((interruption: SpeechInterruption) => void) | undefined;
+  private onHandsFreeChange: ((state: HandsFreeState) => void) | undefined;
+  private removeVoiceActivityListener: (() => void) | null = null;
+  // Barge-in: a recording kept running under the reply so the user can cut in
+  private isBargeInListening: boolean = false;
+  private bargeIn = new BargeInDetector({ ...config.voice.bargeIn, endMarginDb: config.audio.vad.endMarginDb });
+  // Sentences of the reply being spoken, to work out what the user heard before cutting in
+  private replySentences: string[] = [];
+  private playingSentenceIndex: number = -1;
+  private sentenceStartedAt: number = 0;
+  private lastPlaybackDuration: number = 0;
+  // Where the part of the sentence now playing sits in it, for sentences voiced in several languages
+  private playingPartStart: number = 0;
+  private playingPartLength: number = 0;
+  // Bumped by stopSpeaking() so the rest of a sentence's parts are not played
+  private speechGeneration: number = 0;
+  // Languages other than the reply language the user has mixed into their speech this conversation
+  private heardLanguages: PreferredLanguage[] = [];
+  private activeReply: Promise<string> | null = null;
+  // Hands-free: a continuous conversation opened with a wake phrase
+  private handsFree = new HandsFreeController(config.voice.handsFree.wakePhrases);
+  private handsFreeIdleTimer: NodeJS.Timeout | null = null;
+  private listeningRestartTimer: NodeJS.Timeout | null = null;
+  // A yes/no question waiting for the next thing the user says, see confirmByVoice()
+  private pendingConfirmation: { resolve: (answer: boolean | null) => void; timer: NodeJS.Timeout | null } | null = null;
 
   constructor(options: VoiceCommunicationOptions) {
     this.audioManager = new AudioManager();
@@ -108,10 +179,41 @@ export class VoiceCommunicationService {
     this.onSpeechStart = options.onSpeechStart;
     this.onSpeechEnd = options.onSpeechEnd;
     this.onAIResponseReceived = options.onAIResponseReceived;
-    this.voiceId = options.voiceId || this.getDefaultVoiceId(options.preferredLanguage);
-    this.modelId = options.modelId || 'deepseek-chat';
+    this.onInterruption = options.onInterruption;
+    this.onHandsFreeChange = options.onHandsFreeChange;
+    this.removeVoiceActivityListener = this.audioManager.addVoiceActivityListener(event => {
+      this.handleVoiceActivity(event);
+      if (options.onVoiceActivity) {
+        options.onVoiceActivity(event);
+      }
+    });
+    this.voiceId = options.voiceId || getDefaultVoiceId(options.preferredLanguage);
+    this.chatProvider = options.chatProvider || getChatProvider();
+    this.modelId = options.modelId || config.llm.model;
+    this.conversation = new ChatConversation({ tokenBudget: getContextTokenBudget(this.modelId) });
     this.stability = options.stability || 0.5;
     this.similarityBoost = options.similarityBoost || 0.75;
+    if (options.voiceProfile) {
+      this.setVoiceProfile(options.voiceProfile);
+    }
+    this.streamResponses = options.streamResponses ?? true;
+    this.culturalProfile = options.culturalProfile;
+    this.textToSpeech = options.textToSpeech || getTextToSpeechChain();
+    this.speechQueue = new SpeechQueue<PreparedSentence>({
+      prepare: text => this.prepareSentence(text),
+      play: prepared => this.playPreparedSentence(prepared),
+      onStart: () => {
+        this.isSpeaking = true;
+        if (this.onSpeechStart) {
+          this.onSpeechStart();
+        }
+        this.startBargeInListener();
+      },
+      onDrained: () => this.handleSpeechFinished(),
+      onError: (error, text) => {
+        console.warn(`Failed to speak sentence "${text.substring(0, 30)}":`, error);
+      }
+    });
     
     // Initialize conversation with a system message
     this.initializeConversation();
@@ -125,25 +227,83 @@ export class VoiceCommunicationService {
   
   private initializeConversation(): void {
     // Reset conversation history
-    this.conversationHistory = [
-      {
-        role: 'system',
-        content: 'You are a helpful, friendly assistant. Respond naturally like a human would in conversation. Keep responses brief and conversational. Do not use emojis, symbols, asterisks, or any formatting. Speak like you are having a casual conversation.'
-      }
-    ];
+    this.conversation.reset();
+    this.updateSystemPrompt();
+  }
+
+  // Rebuilds the system prompt for the current profile and language, keeping history
+  private updateSystemPrompt(): void {
+    const profile = this.culturalProfile || CulturalPackService.getInstance().getProfileDefaults(this.getDefaultCulturalGroup(this.language));
+    this.conversation.setSystemPrompt(buildCulturalSystemPrompt(profile, {
+      language: this.language,
+      mixedLanguages: this.heardLanguages
+    }));
+  }
+
+  // Languages the user may mix with the reply language: those heard so far and their profile's
+  private getMixedLanguages(): PreferredLanguage[] {
+    const languages = [...this.heardLanguages, this.culturalProfile?.preferredLanguage];
+    return languages.filter((language, index): language is PreferredLanguage =>
+      !!language && language !== this.language && languages.indexOf(language) === index);
+  }
+
+  // Every language a message in this conversation may be in; English is kept for loanwords and names
+  private getConversationLanguages(): PreferredLanguage[] {
+    return [...new Set<PreferredLanguage>([this.language, ...this.getMixedLanguages(), 'en'])];
   }
 
-  private getDefaultVoiceId(language: PreferredLanguage): string {
-    // Default ElevenLabs voice IDs for different languages
-    switch (language) {
-      case 'mi': // Māori
-        return 'pNInz6obpgDQGcFmaJgB'; // Adam
-      case 'zh': // Chinese
-        return '21m00Tcm4TlvDq8ikWAM'; // Chinese voice
-      case 'en': // English
-      default:
-        return 'EXAVITQu4vr4xnSDxMaL'; // Rachel voice
+  /**
+   * Final transcripts go out with the stretches of each language in them,
+   * and a language newly mixed in is added to the system prompt so replies
+   * mirror it.
+   */
+  private notifyFinalTranscript(transcript: string): void {
+    if (!this.isFallbackTranscript(transcript)) {
+      const counts = identifyLanguages(transcript);
+      const heard = this.getConversationLanguages().filter(language =>
+        language !== this.language && !this.heardLanguages.includes(language) && (counts[language] || 0) >= 1);
+      if (heard.length > 0) {
+        console.log(`🗣️ Heard ${heard.join(', ')} mixed into ${this.language}`);
+        this.heardLanguages = [...this.heardLanguages, ...heard];
+        this.updateSystemPrompt();
+      }
     }
+    if (this.onTranscriptUpdate) {
+      this.onTranscriptUpdate(transcript, true, segmentLanguages(transcript, this.getConversationLanguages()));
+    }
+  }
+
+  // Phrases from the mixed-in languages' packs, so the recogniser spells them as the user says them
+  private getRecognitionHints(): string[] {
+    const packs = CulturalPackService.getInstance();
+    const hints = this.getMixedLanguages().flatMap(language => {
+      const pack = packs.getPack(packs.getCulturalGroupForLanguage(language));
+      return [...pack.priorityPhrases, ...Object.values(pack.terminology)];
+    });
+    return [...new Set(hints)].slice(0, MAX_RECOGNITION_HINTS);
+  }
+
+  private getDefaultCulturalGroup(language: PreferredLanguage): CulturalGroup {
+    return CulturalPackService.getInstance().getCulturalGroupForLanguage(language);
+  }
+
+  /**
+   * Applies an updated cultural profile to the rest of the conversation.
+   */
+  public setCulturalProfile(profile: CulturalProfile): void {
+    this.culturalProfile = profile;
+    this.updateSystemPrompt();
+  }
+
+  // Used from the next sentence on, so an edit in settings is heard mid-conversation
+  public setVoiceProfile(profile: VoiceProfileSettings): void {
+    this.voiceId = profile.voiceId;
+    this.rate = profile.rate;
+    this.pitch = profile.pitch;
+    this.volume = profile.volume;
+    this.stability = profile.stability;
+    this.similarityBoost = profile.similarityBoost;
+    this.setPlaybackVolume(this.volume);
   }
 
   private initializationInProgress = false;
@@ -203,22 +363,19 @@ export class VoiceCommunicationService {
       console.log('🔧 Configuring audio manager session...');
       await this.audioManager.configureAudioSession();
       
-      // Validate that ElevenLabs is configured for voice synthesis
-      console.log('🔑 Checking ElevenLabs API configuration...');
-      if (!config.elevenLabs.isConfigured) {
-        console.error('❌ ElevenLabs API not configured');
-        this.handleError('ElevenLabs API is not configured. Please add ELEVEN_LABS_API_KEY to your environment.');
-        this.initializationInProgress = false;
-        return;
+      // ElevenLabs is optional; the text-to-speech chain falls back to the next provider
+      if (config.elevenLabs.isConfigured) {
+        console.log('✅ ElevenLabs API configured');
+      } else {
+        console.warn(`⚠️ ElevenLabs API not configured, speaking with: ${config.tts.providers.filter(p => p !== 'elevenlabs').join(', ')}`);
       }
-      console.log('✅ ElevenLabs API configured');
-      
-      // Check if DeepSeek chat API is available (not required but useful)
-      console.log('🔑 Checking DeepSeek API configuration...');
-      if (config.deepseek.isConfigured && !this.initializationComplete) {
-        console.log('✅ DeepSeek API configured, key length:', config.deepseek.apiKey.length);
-      } else if (!config.deepseek.isConfigured && !this.initializationComplete) {
-        console.warn('⚠️ DeepSeek API not configured. Chat functionality may be limited.');
+      
+      // Check if the chat provider is available (not required but useful)
+      console.log('🔑 Checking chat provider configuration...');
+      if (this.chatProvider.isConfigured() && !this.initializationComplete) {
+        console.log(`✅ Chat provider configured: ${this.chatProvider.name} (${this.modelId})`);
+      } else if (!this.chatProvider.isConfigured() && !this.initializationComplete) {
+        console.warn(`⚠️ Chat provider ${this.chatProvider.name} not configured. Chat functionality may be limited.`);
       }
       
       if (!this.initializationComplete) {
@@ -261,6 +418,9 @@ export class VoiceCommunicationService {
       return; // Silently ignore repeated calls
     }
 
+    // A fresh recording replaces the one running under the reply
+    await this.stopBargeInListener();
+
     try {
       // Ensure audio mode is properly set for recording
       try {
@@ -286,6 +446,7 @@ export class VoiceCommunicationService {
       
       // Start audio processing directly
       this.startAudioProcessing();
+      this.notifyHandsFree();
     } catch (error) {
       this.isListening = false;
       this.handleError(`Failed to start listening: ${error}`);
@@ -305,6 +466,7 @@ export class VoiceCommunicationService {
       }
 
       this.isListening = false;
+      this.notifyHandsFree();
       
       // Stop recording and get the audio file
       this.lastRecordingUri = await this.audioManager.stopRecording();
@@ -335,20 +497,16 @@ export class VoiceCommunicationService {
     }
   }
 
+  // Called by voice activity detection once the pause after speech has outlasted the speaker's usual pauses
   private handleSilenceDetected(): void {
     if (config.voice.autoStopOnSilence && this.isListening) {
-      // Set a timeout to stop listening if silence continues
-      this.silenceTimeout = setTimeout(() => {
-        // If we have interim transcript, convert it to final before stopping
-        if (this.interimTranscript && this.interimTranscript.trim()) {
-          this.finalTranscript = this.interimTranscript;
-          if (this.onTranscriptUpdate) {
-            this.onTranscriptUpdate(this.interimTranscript, true);
-          }
-          this.interimTranscript = '';
-        }
-        this.stopListening();
-      }, 4000); // 4 second delay before stopping (increased sensitivity)
+      // If we have interim transcript, convert it to final before stopping
+      if (this.interimTranscript && this.interimTranscript.trim()) {
+        this.finalTranscript = this.interimTranscript;
+        this.notifyFinalTranscript(this.interimTranscript);
+        this.interimTranscript = '';
+      }
+      this.stopListening();
     }
   }
 
@@ -396,37 +554,38 @@ export class VoiceCommunicationService {
       
       console.log(`Processing audio file: ${fileUri}`);
       
-      // Use iOS Speech Framework for real speech recognition
-      const transcript = await this.processWithNativeSpeechRecognition(fileUri);
+      // Transcribe with the provider configured for the current language
+      const transcript = await this.transcribeRecording(fileUri);
       
       // Store duration for better voice analysis
       this.lastRecordingDuration = 0;
       
+      if (this.pendingConfirmation) {
+        this.handleConfirmationTurn(transcript);
+        return;
+      }
+      
+      if (this.handsFree.isListening()) {
+        await this.handleHandsFreeTurn(transcript);
+        return;
+      }
+      
       // Update the final transcript
       this.finalTranscript = transcript;
       
       // Notify about the final transcript
-      if (this.onTranscriptUpdate) {
-        this.onTranscriptUpdate(transcript, true);
-      }
+      this.notifyFinalTranscript(transcript);
       
       // Log the generated transcript
       console.log(`Generated transcript: "${transcript}"`);
       
-      // Only send to DeepSeek if we have actual speech content (not fallback)
-      if (config.deepseek.isConfigured && transcript.trim() && !this.isFallbackTranscript(transcript)) {
-        await this.sendToDeepSeekChat(transcript);
+      // Only send to the chat model if we have actual speech content (not fallback)
+      if (this.chatProvider.isConfigured() && transcript.trim() && !this.isFallbackTranscript(transcript)) {
+        await this.sendToChatProvider(transcript);
       } else if (!transcript.trim() || this.isFallbackTranscript(transcript)) {
         console.log('🤫 No real speech detected, continuing to listen...');
         // Auto-restart listening since no real speech was detected
-        setTimeout(() => {
-          if (!this.isListening && this.isInitialized) {
-            console.log("🎤 Auto-restarting listening (no speech detected)");
-            this.startListening().catch(error => {
-              console.error("Failed to auto-restart listening:", error);
-            });
-          }
-        }, 1000);
+        this.scheduleListeningRestart(1000, 'no speech detected');
       }
     } catch (error) {
       console.error('Error processing audio file:', error);
@@ -434,35 +593,117 @@ export class VoiceCommunicationService {
     }
   }
   
-  private async processWithNativeSpeechRecognition(fileUri: string): Promise<string> {
+  /**
+   * A turn in hands-free mode. While sleeping only the wake phrase is acted
+   * on; anything else said in the room is neither shown nor sent to the model.
+   */
+  private async handleHandsFreeTurn(transcript: string): Promise<void> {
+    const heard = this.isFallbackTranscript(transcript) ? '' : transcript;
+    const decision = this.handsFree.handleTranscript(heard, this.language);
+
+    if (decision.type === 'wake') {
+      console.log('👋 Wake phrase heard');
+      this.notifyHandsFree();
+    }
+    if (decision.type !== 'ignore') {
+      this.resetHandsFreeIdleTimer();
+    }
+
+    if (decision.type === 'wake' && !decision.request) {
+      await this.speakHandsFreePrompt('listening');
+      return;
+    }
+
+    if (decision.type !== 'ignore') {
+      this.finalTranscript = decision.request;
+      this.notifyFinalTranscript(decision.request);
+      await this.sendToChatProvider(decision.request);
+    }
+
+    // Nothing to answer, or the model had nothing to say
+    this.scheduleListeningRestart(1000, 'hands-free');
+  }
+
+  /**
+   * Asks a yes/no question and takes the answer from the next thing said,
+   * without waiting for the wake phrase or passing it to the model.
+   * Resolves true or false, or null when the answer was unclear or none came.
+   */
+  public async confirmByVoice(question: string): Promise<boolean | null> {
+    this.settleConfirmation(null);
+    const answer = new Promise<boolean | null>(resolve => {
+      this.pendingConfirmation = { resolve, timer: null };
+    });
+    const pending = this.pendingConfirmation;
+
+    await this.speak(question);
+    if (pending && this.pendingConfirmation === pending) {
+      pending.timer = setTimeout(() => this.settleConfirmation(null), CONFIRMATION_TIMEOUT_MS);
+    }
+    return answer;
+  }
+
+  private handleConfirmationTurn(transcript: string): void {
+    if (transcript.trim() && !this.isFallbackTranscript(transcript)) {
+      this.finalTranscript = transcript;
+      this.notifyFinalTranscript(transcript);
+      this.settleConfirmation(interpretConfirmation(transcript, this.language));
+    }
+    // Silence keeps the question open until it times out
+    this.scheduleListeningRestart(1000, 'confirmation');
+  }
+
+  private settleConfirmation(answer: boolean | null): void {
+    const pending = this.pendingConfirmation;
+    if (!pending) {
+      return;
+    }
+    this.pendingConfirmation = null;
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    pending.resolve(answer);
+  }
+
+  /**
+   * While hands-free sleeps, everything said in the room is recorded to
+   * listen for the wake phrase. Those recordings are transcribed on the
+   * device only, and neither logged nor billed; without on-device
+   * recognition for the language the wake phrase cannot be heard.
+   */
+  private async transcribeRecording(fileUri: string): Promise<string> {
+    const overheard = this.handsFree.getPhase() === 'sleeping' && !this.pendingConfirmation;
+    const provider = overheard ? getOnDeviceSpeechToTextProvider() : getSpeechToTextProvider(this.language);
     try {
-      console.log('🎤 Processing audio with native iOS Speech Framework');
+      console.log(`🎤 Transcribing audio with ${provider.name} speech-to-text (${this.language})`);
       
-      // Check if native speech recognition is available
-      const isAvailable = await speechRecognition.isAvailable();
+      // Covers device support and permissions for the native provider
+      const isAvailable = await provider.isAvailable();
       if (!isAvailable) {
-        console.warn('Speech recognition not available on this device');
+        console.warn(`Speech-to-text provider ${provider.name} not available`);
         return this.getFallbackTranscript(fileUri);
       }
       
-      // Request permissions if needed
-      const hasPermission = await speechRecognition.requestPermissions();
-      if (!hasPermission) {
-        console.warn('Speech recognition permission denied');
-        return this.getFallbackTranscript(fileUri);
+      const result = await provider.transcribe(fileUri, {
+        language: this.language,
+        alternativeLanguages: this.getMixedLanguages(),
+        hints: this.getRecognitionHints(),
+        onDeviceOnly: overheard
+      });
+      if (overheard) {
+        return result.text;
       }
+      console.log(`✅ ${provider.name} transcription result:`, result.text);
       
-      // Get language code for iOS Speech Framework
-      const languageCode = this.getLanguageCode();
-      console.log(`🎤 Using language: ${languageCode}`);
+      CostMonitor.trackSpeechToTextCost(result.text.length, this.culturalProfile?.culturalGroup, {
+        provider: provider.name,
+        costPerMinute: provider.costPerMinute,
+        durationSeconds: result.durationSeconds
+      }).catch(error => console.warn('Failed to track speech-to-text cost:', error));
       
-      // Perform speech recognition
-      const result = await speechRecognition.recognizeAudio(fileUri, languageCode);
-      console.log('✅ Native speech recognition result:', result);
-      
-      return result && result.trim() ? result.trim() : "No speech detected";
+      return result.text ? result.text : "No speech detected";
     } catch (error) {
-      console.error('Error processing audio with speech recognition:', error);
+      console.error(`Error transcribing audio with ${provider.name}:`, error);
       return this.getFallbackTranscript(fileUri);
     }
   }
@@ -494,85 +735,433 @@ export class VoiceCommunicationService {
   }
   
   /**
-   * Sends user input to DeepSeek Chat API and processes the response
+   * Sends user input to the configured chat provider and speaks the response
    */
-  private async sendToDeepSeekChat(userInput: string): Promise<void> {
+  private async sendToChatProvider(userInput: string): Promise<void> {
     try {
-      if (!config.deepseek.isConfigured) {
-        console.warn('DeepSeek API not configured, skipping chat request');
+      if (!this.chatProvider.isConfigured()) {
+        console.warn(`Chat provider ${this.chatProvider.name} not configured, skipping chat request`);
         return;
       }
       
-      console.log(`Sending to DeepSeek Chat API: "${userInput}"`);
+      console.log(`Sending to ${this.chatProvider.name} chat provider: "${userInput}"`);
+      await this.loadMemories(userInput);
       
-      // Add the user's message to conversation history
-      this.conversationHistory.push({
-        role: 'user',
-        content: userInput
-      });
+      if (this.streamResponses) {
+        await this.streamChatResponse(userInput);
+        return;
+      }
       
-      // Prepare request
-      const request: ChatCompletionRequest = {
-        model: 'deepseek-chat',
-        messages: this.conversationHistory,
+      const aiResponse = await this.conversation.send(this.chatProvider, userInput, {
+        model: this.modelId,
         temperature: 0.7,
-        max_tokens: 500
-      };
-      
-      // Call the DeepSeek API
-      const response = await axios.post<ChatCompletionResponse>(
-        'https://api.deepseek.com/v1/chat/completions',
-        request,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${config.deepseek.apiKey}`
-          }
-        }
-      );
+        maxTokens: 500
+      });
       
-      // Process the response
-      if (response.data.choices && response.data.choices.length > 0) {
-        const aiMessage = response.data.choices[0].message;
-        const aiResponse = aiMessage.content;
-        
-        // Add the assistant's response to conversation history
-        this.conversationHistory.push({
-          role: 'assistant',
-          content: aiResponse
-        });
-        
+      if (aiResponse) {
         console.log(`Received AI response: "${aiResponse.substring(0, 100)}${aiResponse.length > 100 ? '...' : ''}"`);
         
-        // Notify via callback
-        if (this.onAIResponseReceived) {
-          this.onAIResponseReceived(aiResponse);
-        }
+        // Notify via callback; prosody markup is for the voice only
+        this.notifyFinalResponse(aiResponse);
         
         // Automatically speak the response
         await this.speak(aiResponse);
       } else {
-        console.warn('Received empty response from DeepSeek Chat API');
-      }
-      
-      // Limit conversation history to maintain context without exceeding token limits
-      if (this.conversationHistory.length > 10) {
-        // Keep system message and last 4 exchanges (8 messages)
-        this.conversationHistory = [
-          this.conversationHistory[0], // System message
-          ...this.conversationHistory.slice(-8) // Last 4 exchanges
-        ];
+        console.warn(`Received empty response from ${this.chatProvider.name} chat provider`);
       }
     } catch (error) {
-      console.error('Error calling DeepSeek Chat API:', error);
+      console.error('Error calling chat provider:', error);
       
       // Don't throw error to user, just log it
       if (error instanceof Error) {
-        console.warn(`DeepSeek API error: ${error.message}`);
+        console.warn(`Chat provider error: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Pins what the family pinned and the memories relevant to this utterance
+   * to the conversation. When they cannot be loaded the last turn's stay.
+   */
+  private async loadMemories(userInput: string): Promise<void> {
+    try {
+      this.userId = this.userId || await getCurrentUserId();
+      if (!this.userId) {
+        return;
+      }
+      this.conversation.setPinnedFacts(await loadPromptFacts(this.userId, userInput, getContextTokenBudget(this.modelId)));
+    } catch (error) {
+      console.warn('Failed to load memories for the conversation:', error);
+    }
+  }
+
+  /**
+   * Streams the reply and hands each completed sentence to the speech queue,
+   * so the user hears the first sentence while the rest is still generating.
+   */
+  private async streamChatResponse(userInput: string): Promise<void> {
+    const chunker = new SentenceChunker();
+    const abortController = new AbortController();
+    let partialResponse = '';
+
+    this.speechQueue.clear();
+    this.beginReply([]);
+    this.chatAbortController = abortController;
+
+    const reply = this.conversation.stream(
+      this.chatProvider,
+      userInput,
+      delta => {
+        partialResponse += delta;
+        if (this.onAIResponseReceived) {
+          this.onAIResponseReceived(stripProsody(partialResponse), false);
+        }
+        chunker.push(delta).forEach(sentence => this.enqueueSentence(sentence));
+      },
+      {
+        model: this.modelId,
+        temperature: 0.7,
+        maxTokens: 500,
+        signal: abortController.signal
+      }
+    );
+    this.activeReply = reply;
+
+    try {
+      const aiResponse = await reply;
+
+      console.log(`Received AI response: "${aiResponse.substring(0, 100)}${aiResponse.length > 100 ? '...' : ''}"`);
+
+      this.notifyFinalResponse(aiResponse);
+    } finally {
+      if (this.activeReply === reply) {
+        this.activeReply = null;
+      }
+      // Speak whatever was received, even if the stream broke part way
+      if (this.chatAbortController === abortController) {
+        this.chatAbortController = null;
+        const remainder = chunker.flush();
+        if (remainder) {
+          this.enqueueSentence(remainder);
+        }
+        this.speechQueue.close();
       }
     }
   }
 
+  // Prosody markup is for the voice only
+  private notifyFinalResponse(aiResponse: string): void {
+    if (this.onAIResponseReceived) {
+      const response = stripProsody(aiResponse);
+      this.onAIResponseReceived(response, true, segmentLanguages(response, this.getConversationLanguages()));
+    }
+  }
+
+  private beginReply(sentences: string[]): void {
+    this.replySentences = sentences;
+    this.playingSentenceIndex = -1;
+  }
+
+  private enqueueSentence(sentence: string): void {
+    if (!sentence.trim()) {
+      return;
+    }
+    this.replySentences.push(sentence);
+    this.speechQueue.enqueue(sentence);
+  }
+
+  private getSynthesisOptions(options?: Partial<TTSOptions>, language: PreferredLanguage = this.language): SpeechSynthesisOptions {
+    return {
+      language,
+      voiceId: options?.voiceId || this.voiceId,
+      stability: options?.stability || this.stability,
+      similarityBoost: options?.similarityBoost || this.similarityBoost,
+      rate: this.rate,
+      pitch: this.pitch,
+      volume: this.volume,
+      outputFormat: HearingProfileService.getInstance().getSynthesisFormat(),
+      culturalContext: this.culturalProfile?.culturalGroup
+    };
+  }
+
+  // Synthesises a sentence and applies the listener's hearing profile
+  private async synthesizeForListener(
+    text: string,
+    options?: Partial<TTSOptions>,
+    language: PreferredLanguage = this.language
+  ): Promise<SynthesizedSpeech> {
+    const speech = await this.textToSpeech.synthesize(text, this.getSynthesisOptions(options, language));
+    return HearingProfileService.getInstance().personaliseSpeech(speech);
+  }
+
+  /**
+   * Voices each language in a mixed sentence in that language, in the
+   * user's voice, so "Kia ora! I hope your mokopuna are well" is not read
+   * entirely with English pronunciation.
+   */
+  private async prepareSentence(text: string): Promise<PreparedSentence> {
+    const spans = splitProsodyByLanguage(text, this.getConversationLanguages());
+    const parts = await Promise.all(spans.map(async span => {
+      try {
+        return { text: span.text, speech: await this.synthesizeForListener(span.text, undefined, span.language) };
+      } catch (error) {
+        console.error('No text-to-speech provider could voice sentence, skipping it:', error);
+        return { text: span.text, speech: null };
+      }
+    }));
+    return { text, parts };
+  }
+
+  private async playPreparedSentence(prepared: PreparedSentence): Promise<void> {
+    this.markSentenceStarted(prepared.text);
+
+    const generation = this.speechGeneration;
+    let partStart = 0;
+    for (const part of prepared.parts) {
+      // Stopped part way through the sentence
+      if (generation !== this.speechGeneration) {
+        return;
+      }
+      const partLength = stripProsody(part.text).length;
+      this.markPartStarted(partStart, partLength);
+      await this.playSpeechPart(part);
+      partStart += partLength;
+    }
+  }
+
+  private async playSpeechPart({ speech }: SpeechPart): Promise<void> {
+    if (!speech) {
+      return;
+    }
+    if (speech.type === 'live') {
+      await speech.play();
+      return;
+    }
+
+    const finished = new Promise<void>(resolve => {
+      this.resolvePlaybackFinished = resolve;
+    });
+
+    try {
+      await this.playAudioFile(speech.fileUri, speech.playbackRate);
+    } catch (error) {
+      this.settlePlayback();
+      throw error;
+    }
+    await finished;
+
+    if (speech.isTemporary) {
+      FileSystem.deleteAsync(speech.fileUri, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  private settlePlayback(): void {
+    if (this.resolvePlaybackFinished) {
+      const resolve = this.resolvePlaybackFinished;
+      this.resolvePlaybackFinished = null;
+      resolve();
+    }
+  }
+
+  private markSentenceStarted(text: string): void {
+    const index = this.replySentences.indexOf(text, this.playingSentenceIndex + 1);
+    if (index >= 0) {
+      this.playingSentenceIndex = index;
+    }
+    this.markPartStarted(0, text.length);
+  }
+
+  private markPartStarted(start: number, length: number): void {
+    this.playingPartStart = start;
+    this.playingPartLength = length;
+    this.sentenceStartedAt = Date.now();
+    this.lastPlaybackPosition = 0;
+    this.lastPlaybackDuration = 0;
+  }
+
+  /**
+   * End of the assistant's turn: notify listeners and go back to listening.
+   */
+  private handleSpeechFinished(): void {
+    this.isSpeaking = false;
+    
+    if (this.onSpeechEnd) {
+      this.onSpeechEnd();
+    }
+    
+    // The barge-in recording carries on as the user's turn, so an answer
+    // started the moment the reply ends is not lost
+    if (this.isBargeInListening) {
+      this.isBargeInListening = false;
+      this.audioManager.setVoiceActivitySensitivity();
+      this.isListening = true;
+      return;
+    }
+    
+    // The quiet time before a hands-free goodbye counts from the end of the reply
+    this.resetHandsFreeIdleTimer();
+    
+    // Auto-restart listening after AI finishes speaking
+    this.scheduleListeningRestart(1500, 'after AI response'); // Longer delay to ensure audio cleanup is complete and avoid conflicts
+  }
+
+  /**
+   * Goes back to listening after a turn, unless listening or a reply has
+   * started in the meantime or hands-free listening is suspended.
+   */
+  private scheduleListeningRestart(delayMs: number, reason: string): void {
+    if (this.listeningRestartTimer || this.handsFree.getPhase() === 'suspended') {
+      return;
+    }
+
+    this.listeningRestartTimer = setTimeout(() => {
+      this.listeningRestartTimer = null;
+      if (this.isListening || this.isSpeaking || this.speechQueue.isActive || !this.isInitialized ||
+          this.handsFree.getPhase() === 'suspended') {
+        return;
+      }
+      console.log(`🎤 Auto-restarting listening (${reason})`);
+      this.startListening().catch(error => {
+        console.error("Failed to auto-restart listening:", error);
+      });
+    }, delayMs);
+  }
+
+  // Ends the current recording without treating it as the user's turn
+  private async cancelListening(): Promise<void> {
+    if (!this.isListening) {
+      return;
+    }
+
+    this.isListening = false;
+    this.notifyHandsFree();
+    const uri = await this.audioManager.stopRecording();
+    if (uri) {
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Hands-free conversation: the microphone stays open, a wake phrase for
+   * the current language starts a conversation, and after
+   * config.voice.handsFree.idleTimeoutMs without a turn the assistant says
+   * goodbye and waits for the wake phrase again. Pass suspended to start
+   * it paused, e.g. when the battery is already low.
+   */
+  public async startHandsFree(options: { suspended?: boolean } = {}): Promise<void> {
+    this.clearHandsFreeTimers();
+    this.handsFree.start();
+    if (options.suspended) {
+      this.handsFree.suspend();
+    }
+    this.notifyHandsFree();
+    await this.cancelListening();
+    await this.speakHandsFreePrompt(options.suspended ? 'suspended' : 'started');
+  }
+
+  // Back to tap to talk
+  public async stopHandsFree(): Promise<void> {
+    if (!this.handsFree.isActive()) {
+      return;
+    }
+
+    this.handsFree.stop();
+    this.clearHandsFreeTimers();
+    this.notifyHandsFree();
+    await this.cancelListening();
+  }
+
+  // Closes the microphone until resumeHandsFree(); tapping to talk still works meanwhile
+  public async suspendHandsFree(): Promise<void> {
+    if (!this.handsFree.suspend()) {
+      return;
+    }
+
+    console.log('🔋 Hands-free listening suspended');
+    this.clearHandsFreeTimers();
+    this.notifyHandsFree();
+    await this.cancelListening();
+    await this.speakHandsFreePrompt('suspended');
+  }
+
+  public async resumeHandsFree(): Promise<void> {
+    if (!this.handsFree.resume()) {
+      return;
+    }
+
+    console.log('🔋 Hands-free listening resumed');
+    this.notifyHandsFree();
+    // Don't talk over a turn the user started by tapping
+    if (this.isListening) {
+      return;
+    }
+    await this.speakHandsFreePrompt('started');
+  }
+
+  public getHandsFreeState(): HandsFreeState {
+    return {
+      phase: this.handsFree.getPhase(),
+      isMicLive: this.isListening || this.isBargeInListening,
+      wakePhrase: this.handsFree.getWakePhrases(this.language)[0]
+    };
+  }
+
+  private notifyHandsFree(): void {
+    if (this.onHandsFreeChange) {
+      this.onHandsFreeChange(this.getHandsFreeState());
+    }
+  }
+
+  private async speakHandsFreePrompt(prompt: HandsFreePrompt): Promise<void> {
+    await this.speak(getHandsFreePrompt(prompt, this.language, this.getHandsFreeState().wakePhrase));
+    // Listening resumes when playback ends, or now if the cue could not be spoken
+    this.scheduleListeningRestart(1000, 'hands-free cue');
+  }
+
+  private resetHandsFreeIdleTimer(): void {
+    if (this.handsFreeIdleTimer) {
+      clearTimeout(this.handsFreeIdleTimer);
+      this.handsFreeIdleTimer = null;
+    }
+    if (this.handsFree.getPhase() !== 'awake') {
+      return;
+    }
+
+    this.handsFreeIdleTimer = setTimeout(() => {
+      this.handsFreeIdleTimer = null;
+      this.handleHandsFreeIdle().catch(error => {
+        console.error('Failed to end the hands-free conversation:', error);
+      });
+    }, config.voice.handsFree.idleTimeoutMs);
+  }
+
+  // Nobody has spoken for a while: say goodbye and wait for the wake phrase again
+  private async handleHandsFreeIdle(): Promise<void> {
+    if (this.isSpeaking || this.chatAbortController) {
+      this.resetHandsFreeIdleTimer();
+      return;
+    }
+    if (!this.handsFree.sleep()) {
+      return;
+    }
+
+    console.log('💤 Hands-free conversation idle, waiting for the wake phrase');
+    this.notifyHandsFree();
+    await this.cancelListening();
+    await this.speakHandsFreePrompt('goodbye');
+  }
+
+  private clearHandsFreeTimers(): void {
+    if (this.handsFreeIdleTimer) {
+      clearTimeout(this.handsFreeIdleTimer);
+      this.handsFreeIdleTimer = null;
+    }
+    if (this.listeningRestartTimer) {
+      clearTimeout(this.listeningRestartTimer);
+      this.listeningRestartTimer = null;
+    }
+  }
+
   // These methods are replaced with simulated transcription
   // as the DeepSeek API endpoints for audio transcription are not available
 
@@ -583,6 +1172,7 @@ export class VoiceCommunicationService {
     
     try {
       this.isSpeaking = true;
+      this.beginReply([text]);
       
       if (this.onSpeechStart) {
         this.onSpeechStart();
@@ -590,26 +1180,26 @@ export class VoiceCommunicationService {
       
       console.log(`Starting speech synthesis for text: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
       
-      // Get audio from ElevenLabs
-      const audioData = await this.getElevenLabsAudio({
-        text,
-        voiceId: options?.voiceId || this.voiceId,
-        stability: options?.stability || this.stability,
-        similarityBoost: options?.similarityBoost || this.similarityBoost
-      });
-      
-      // Save audio to a temporary file
-      const tempFile = `${FileSystem.cacheDirectory}tts_${Date.now()}.mp3`;
-      console.log(`Saving audio to temp file: ${tempFile}`);
+      const speech = await this.synthesizeForListener(text, options);
+      console.log(`Speaking with ${speech.provider}`);
+      this.markSentenceStarted(text);
       
-      await FileSystem.writeAsStringAsync(tempFile, audioData, {
-        encoding: FileSystem.EncodingType.Base64
-      });
+      if (speech.type === 'live') {
+        this.startBargeInListener();
+        await speech.play();
+        // stopSpeaking() clears isSpeaking before stopping the voice
+        if (this.isSpeaking) {
+          this.handleSpeechFinished();
+        }
+        return;
+      }
       
-      // Play the audio
-      await this.playAudioFile(tempFile);
+      // Listening first, so playback opens the recording-capable audio session
+      this.startBargeInListener();
+      await this.playAudioFile(speech.fileUri, speech.playbackRate);
     } catch (error) {
       this.isSpeaking = false;
+      this.stopBargeInListener().catch(() => {});
       this.handleError(`Failed to speak: ${error}`);
       
       if (this.onSpeechEnd) {
@@ -618,80 +1208,142 @@ export class VoiceCommunicationService {
     }
   }
 
-  private async getElevenLabsAudio(options: TTSOptions): Promise<string> {
-    try {
-      const voiceId = options.voiceId || this.voiceId;
-      // Try endpoint with stream first, fallback to regular endpoint if it fails
-      let url = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream`;
-      
-      console.log(`Requesting speech synthesis from ElevenLabs for voice ID: ${voiceId} (${options.text.substring(0, 20)}...)`);
-      
-      // Prepare payload with retry logic
-      const payload = {
-        text: options.text,
-        model_id: "eleven_monolingual_v1",
-        voice_settings: {
-          stability: options.stability || this.stability,
-          similarity_boost: options.similarityBoost || this.similarityBoost,
-          style: 0.0,
-          use_speaker_boost: true
-        },
-        output_format: "mp3"
-      };
-      
-      // Attempt first request with streaming endpoint
-      let response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'xi-api-key': config.elevenLabs.apiKey,
-          'Accept': 'audio/mpeg'
-        },
-        body: JSON.stringify(payload)
-      });
-      
-      // If streaming endpoint fails, try regular endpoint
-      if (!response.ok && response.status >= 400) {
-        console.log(`Streaming endpoint failed (${response.status}), trying regular endpoint...`);
-        url = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`;
-        
-        response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'xi-api-key': config.elevenLabs.apiKey,
-            'Accept': 'audio/mpeg'
-          },
-          body: JSON.stringify(payload)
+  /**
+   * Records under the reply with a raised start margin, so the assistant's
+   * own voice from the speaker is not mistaken for the user.
+   */
+  private startBargeInListener(): void {
+    if (!config.voice.bargeIn.enabled || this.isListening || this.isBargeInListening) {
+      return;
+    }
+    // Hands-free cues spoken while waiting name the wake phrase, which the assistant would hear itself say
+    const phase = this.handsFree.getPhase();
+    if (phase === 'sleeping' || phase === 'suspended') {
+      return;
+    }
+
+    this.isBargeInListening = true;
+    this.bargeIn.reset();
+    const { startMarginDb, minSpeechMs } = config.voice.bargeIn;
+
+    this.audioManager.startRecording(this.handleSilenceDetected.bind(this), {
+      sensitivity: { startMarginDb, minSpeechMs },
+      preserveAudioSession: true
+    }).catch(error => {
+      console.warn('Barge-in listener failed to start, this reply cannot be interrupted:', error);
+      this.isBargeInListening = false;
+      this.notifyHandsFree();
+    });
+    this.notifyHandsFree();
+  }
+
+  private async stopBargeInListener(): Promise<void> {
+    if (!this.isBargeInListening) {
+      return;
+    }
+
+    this.isBargeInListening = false;
+    this.notifyHandsFree();
+    const uri = await this.audioManager.stopRecording();
+    if (uri) {
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Ducks the reply when something loud starts under it and stops it once
+   * BargeInDetector is sure that is the user rather than the reply itself
+   * coming back through the microphone.
+   */
+  private handleVoiceActivity(event: VoiceActivityEvent): void {
+    if (event.type === 'speech_start' && this.handsFree.getPhase() === 'awake') {
+      this.resetHandsFreeIdleTimer();
+    }
+
+    if (!this.isBargeInListening || !this.isSpeaking || event.type !== 'level') {
+      return;
+    }
+
+    switch (this.bargeIn.process(event)) {
+      case 'duck':
+        this.setPlaybackVolume(config.voice.bargeIn.duckVolume * this.volume);
+        break;
+      case 'restore':
+        this.setPlaybackVolume(this.volume);
+        break;
+      case 'interrupt':
+        this.handleBargeIn().catch(error => {
+          console.error('Failed to handle barge-in:', error);
         });
-      }
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`ElevenLabs API error: ${response.status}`, errorText);
-        throw new Error(`ElevenLabs API error (${response.status}): ${errorText}`);
-      }
-      
-      // Get response as array buffer
-      const arrayBuffer = await response.arrayBuffer();
-      
-      if (arrayBuffer.byteLength === 0) {
-        throw new Error('Received empty audio data from ElevenLabs');
-      }
-      
-      // Convert to base64
-      const base64 = Buffer.from(arrayBuffer).toString('base64');
-      
-      console.log(`Received audio data: ${Math.round(arrayBuffer.byteLength / 1024)} KB`);
-      
-      return base64;
-    } catch (error) {
-      console.error("ElevenLabs API error details:", error);
-      throw new Error(`ElevenLabs API error: ${error}`);
+        break;
     }
   }
 
-  private async playAudioFile(fileUri: string): Promise<void> {
+  private async handleBargeIn(): Promise<void> {
+    const { heardText, unheardText } = this.splitReplyAtInterruption();
+    const interruption: SpeechInterruption = {
+      timestamp: new Date(),
+      playbackPositionMs: this.lastPlaybackPosition,
+      heardText,
+      unheardText
+    };
+    console.log(`✋ User interrupted the reply after: "${heardText.slice(-40)}"`);
+
+    // The barge-in recording becomes the user's turn and ends at their end of utterance
+    this.isBargeInListening = false;
+    this.isListening = true;
+    this.audioManager.setVoiceActivitySensitivity();
+
+    const reply = this.activeReply;
+    await this.stopSpeaking();
+    if (reply) {
+      // An aborted stream still records the text it received
+      await reply.catch(() => {});
+    }
+
+    this.conversation.markLastReplyInterrupted(heardText, unheardText);
+    if (this.onInterruption) {
+      this.onInterruption(interruption);
+    }
+  }
+
+  // Splits the reply at the playback position, finishing the word being spoken
+  private splitReplyAtInterruption(): { heardText: string; unheardText: string } {
+    const sentences = this.replySentences.map(sentence => stripProsody(sentence).trim());
+    const index = Math.max(this.playingSentenceIndex, 0);
+    const current = sentences[index] || '';
+    let cut = Math.round(current.length * this.getSentenceProgress(current));
+    if (cut > 0) {
+      const wordEnd = current.indexOf(' ', cut);
+      cut = wordEnd === -1 ? current.length : wordEnd;
+    }
+
+    return {
+      heardText: [...sentences.slice(0, index), current.slice(0, cut)].join(' ').trim(),
+      unheardText: [current.slice(cut), ...sentences.slice(index + 1)].join(' ').trim()
+    };
+  }
+
+  private getSentenceProgress(text: string): number {
+    const partLength = Math.min(this.playingPartLength, text.length - this.playingPartStart);
+    return text.length > 0 ? Math.min(1, (this.playingPartStart + partLength * this.getPartProgress(partLength)) / text.length) : 1;
+  }
+
+  private getPartProgress(length: number): number {
+    if (this.currentSound && this.lastPlaybackDuration > 0) {
+      return Math.min(1, this.lastPlaybackPosition / this.lastPlaybackDuration);
+    }
+    const expectedMs = (length / DEVICE_VOICE_CHARS_PER_SECOND) * 1000;
+    return expectedMs > 0 ? Math.min(1, (Date.now() - this.sentenceStartedAt) / expectedMs) : 1;
+  }
+
+  private setPlaybackVolume(volume: number): void {
+    if (this.currentSound) {
+      this.currentSound.setVolumeAsync(volume).catch(() => {});
+    }
+  }
+
+  private async playAudioFile(fileUri: string, playbackRate = 1): Promise<void> {
     try {
       console.log(`Loading audio file: ${fileUri}`);
       
@@ -705,9 +1357,9 @@ export class VoiceCommunicationService {
         }
       }
       
-      // Configure audio mode for playback
+      // Configure audio mode for playback, still recording if the user may barge in
       await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
+        allowsRecordingIOS: this.isBargeInListening,
         playsInSilentModeIOS: true,
         staysActiveInBackground: false,
         shouldDuckAndroid: true,
@@ -729,7 +1381,9 @@ export class VoiceCommunicationService {
             { uri: fileUri },
             { 
               shouldPlay: true,
-              volume: 1.0,
+              volume: this.volume,
+              rate: playbackRate,
+              shouldCorrectPitch: true,
               progressUpdateIntervalMillis: 100
             },
             this.onPlaybackStatusUpdate
@@ -771,9 +1425,14 @@ export class VoiceCommunicationService {
         console.error(`Audio playback error: ${status.error}`);
         this.handleError(`Audio playback error: ${status.error}`);
         
-        this.isSpeaking = false;
-        if (this.onSpeechEnd) {
-          this.onSpeechEnd();
+        // The speech queue moves on to the next sentence and ends the turn itself
+        if (this.speechQueue.isActive) {
+          this.settlePlayback();
+        } else {
+          this.isSpeaking = false;
+          if (this.onSpeechEnd) {
+            this.onSpeechEnd();
+          }
         }
         
         // Ensure sound is unloaded on error
@@ -789,14 +1448,13 @@ export class VoiceCommunicationService {
       return;
     }
     
+    if (status.durationMillis) {
+      this.lastPlaybackDuration = status.durationMillis;
+    }
+    
     // If playback just finished
     if (status.didJustFinish) {
       console.log("Audio playback finished");
-      this.isSpeaking = false;
-      
-      if (this.onSpeechEnd) {
-        this.onSpeechEnd();
-      }
       
       // Unload the sound
       if (this.currentSound) {
@@ -808,15 +1466,13 @@ export class VoiceCommunicationService {
         this.currentSound = null;
       }
       
-      // Auto-restart listening after AI finishes speaking
-      setTimeout(() => {
-        if (!this.isListening && this.isInitialized) {
-          console.log("🎤 Auto-restarting listening after AI response");
-          this.startListening().catch(error => {
-            console.error("Failed to auto-restart listening:", error);
-          });
-        }
-      }, 1500); // Longer delay to ensure audio cleanup is complete and avoid conflicts
+      // Mid-reply sentences hand control back to the speech queue
+      if (this.speechQueue.isActive) {
+        this.settlePlayback();
+        return;
+      }
+      
+      this.handleSpeechFinished();
     }
     
     // Log playback position for debugging (optional)
@@ -842,6 +1498,19 @@ export class VoiceCommunicationService {
 
   public async stopSpeaking(): Promise<void> {
     try {
+      this.isSpeaking = false;
+      this.speechGeneration++;
+      await this.stopBargeInListener();
+      
+      // Cancel any reply still streaming and drop queued sentences
+      if (this.chatAbortController) {
+        this.chatAbortController.abort();
+        this.chatAbortController = null;
+      }
+      this.speechQueue.clear();
+      this.settlePlayback();
+      await this.textToSpeech.stop();
+      
       if (this.currentSound) {
         try {
           // Make multiple attempts to stop sound if needed
@@ -893,8 +1562,12 @@ export class VoiceCommunicationService {
       modelId: this.modelId,
       stability: this.stability,
       similarityBoost: this.similarityBoost,
+      rate: this.rate,
+      pitch: this.pitch,
+      volume: this.volume,
       isSimulatedTranscription: true, // Flag to indicate we're using simulated transcription
-      hasConversationHistory: this.conversationHistory.length > 1 // At least one exchange
+      chatProvider: this.chatProvider.name,
+      hasConversationHistory: this.conversation.length > 0 // At least one exchange
     };
   }
   
@@ -914,15 +1587,27 @@ export class VoiceCommunicationService {
         this.silenceTimeout = null;
       }
       
+      // Nothing should start listening again once the screen has gone
+      this.handsFree.stop();
+      this.clearHandsFreeTimers();
+      this.settleConfirmation(null);
+      
       // Stop listening and speaking
       if (this.isListening) {
         await this.stopListening();
       }
       
-      if (this.isSpeaking) {
+      if (this.isSpeaking || this.chatAbortController) {
         await this.stopSpeaking();
       }
       
+      await this.stopBargeInListener();
+      
+      if (this.removeVoiceActivityListener) {
+        this.removeVoiceActivityListener();
+        this.removeVoiceActivityListener = null;
+      }
+      
       // Close WebSocket connection
       this.closeWebSocketConnection();
       
@@ -984,7 +1669,14 @@ export class VoiceCommunicationService {
       
       // Update language
       this.language = language;
-      this.voiceId = this.getDefaultVoiceId(language);
+      // Voice profiles are per language; the caller applies the new language's with setVoiceProfile
+      this.voiceId = getDefaultVoiceId(language);
+      this.rate = 1;
+      this.pitch = 1;
+      this.volume = 1;
+      this.updateSystemPrompt();
+      // The wake phrase shown and listened for is the new language's
+      this.notifyHandsFree();
       
       console.log(`Language changed to: ${language}`);
       
@@ -997,18 +1689,6 @@ export class VoiceCommunicationService {
     }
   }
 
-  private getLanguageCode(): string {
-    switch (this.language) {
-      case 'mi':
-        return 'en'; // Fallback to English for Te Reo Māori as DeepSeek might not support it directly
-      case 'zh':
-        return 'zh'; // DeepSeek uses simple language codes
-      case 'en':
-      default:
-        return 'en'; // English - DeepSeek format
-    }
-  }
-  
   // For debugging purposes
   private async logResponseDetails(response: Response): Promise<void> {
     console.log(`Response status: ${response.status} ${response.statusText}`);
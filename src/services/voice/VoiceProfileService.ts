@@ -0,0 +1,252 @@
+import * as FileSystem from 'expo-file-system';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { PreferredLanguage, VoiceGender, VoiceProfile } from '../../types';
+import { tables } from '../supabase/repositories';
+import { addVoiceProfile, fetchVoiceProfiles, updateVoiceProfile } from '../supabase/profile';
+import { getTextToSpeechChain, SpeechSynthesisOptions } from '../tts';
+import { getDefaultVoiceIdForGender, getVoiceOption, VOICE_SAMPLE_SENTENCES } from '../tts/voices';
+import { createUuid } from '../../utils/ids';
+import HearingProfileService from '../audio/HearingProfileService';
+
+export type VoiceProfileChanges = Partial<Pick<VoiceProfile,
+  'voiceId' | 'rate' | 'pitch' | 'volume' | 'stability' | 'similarityBoost' | 'preferredGender'>>;
+
+type VoiceProfileListener = (profile: VoiceProfile) => void;
+
+const DEFAULT_GENDER: VoiceGender = 'female';
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * The signed-in user's voice for each language: which ElevenLabs voice, and
+ * how fast, high and loud it speaks. Stored in `voice_preferences` through
+ * SyncEngine, so a change made offline or on another device is picked up
+ * on the next load. Languages without a saved profile use the language's
+ * default voice in the gender from conversation preferences.
+ */
+class VoiceProfileService {
+  private static instance: VoiceProfileService;
+  private userId: string | null = null;
+  private profiles: Map<PreferredLanguage, VoiceProfile> = new Map();
+  private defaultGender: VoiceGender = DEFAULT_GENDER;
+  private listeners: Set<VoiceProfileListener> = new Set();
+  private previewSound: Audio.Sound | null = null;
+  private finishPreview: (() => void) | null = null;
+  private previewGeneration = 0;
+  private isPreviewingLive = false;
+
+  private constructor() {}
+
+  public static getInstance(): VoiceProfileService {
+    if (!VoiceProfileService.instance) {
+      VoiceProfileService.instance = new VoiceProfileService();
+    }
+    return VoiceProfileService.instance;
+  }
+
+  // Fetches the user's profiles, falling back to the copy from the last load when offline
+  public async load(userId: string): Promise<VoiceProfile[]> {
+    if (userId !== this.userId) {
+      this.userId = userId;
+      this.profiles.clear();
+      this.defaultGender = DEFAULT_GENDER;
+    }
+
+    const [{ data, error }, gender] = await Promise.all([
+      fetchVoiceProfiles(userId),
+      this.loadPreferredGender(userId)
+    ]);
+    if (error) {
+      console.warn('Failed to load voice profiles:', error);
+    }
+    this.defaultGender = gender ?? this.defaultGender;
+    (data || []).forEach(profile => this.profiles.set(profile.language, profile));
+
+    const profiles = [...this.profiles.values()];
+    profiles.forEach(profile => this.notify(profile));
+    return profiles;
+  }
+
+  public isLoaded(): boolean {
+    return this.userId !== null;
+  }
+
+  // The saved profile, or what an unsaved one would sound like
+  public getProfile(language: PreferredLanguage): VoiceProfile {
+    return this.profiles.get(language) ?? this.createDefaultProfile(language);
+  }
+
+  public isSaved(language: PreferredLanguage): boolean {
+    return this.profiles.has(language);
+  }
+
+  /**
+   * Saves changes to one language's profile. Choosing another gender moves
+   * to a voice of that gender unless a voice is chosen in the same change.
+   */
+  public async saveProfile(language: PreferredLanguage, changes: VoiceProfileChanges): Promise<VoiceProfile> {
+    if (!this.userId) {
+      throw new Error('Voice profiles are not loaded; call load() with the signed-in user first');
+    }
+
+    const previous = this.profiles.get(language);
+    const current = previous ?? this.createDefaultProfile(language);
+    const preferredGender = changes.preferredGender ?? current.preferredGender;
+    let voiceId = changes.voiceId ?? current.voiceId;
+    const genderChanged = preferredGender !== current.preferredGender;
+    if (!changes.voiceId && genderChanged && getVoiceOption(voiceId)?.gender !== preferredGender) {
+      voiceId = getDefaultVoiceIdForGender(language, preferredGender);
+    }
+
+    const profile: VoiceProfile = {
+      ...current,
+      ...changes,
+      id: current.id || createUuid(),
+      voiceId,
+      preferredGender,
+      rate: clamp(changes.rate ?? current.rate, 0.5, 2),
+      pitch: clamp(changes.pitch ?? current.pitch, 0.5, 2),
+      volume: clamp(changes.volume ?? current.volume, 0, 1),
+      stability: clamp(changes.stability ?? current.stability, 0, 1),
+      similarityBoost: clamp(changes.similarityBoost ?? current.similarityBoost, 0, 1),
+      updatedAt: new Date().toISOString()
+    };
+
+    if (previous) {
+      await updateVoiceProfile(profile, previous);
+    } else {
+      await addVoiceProfile(profile);
+    }
+    this.profiles.set(language, profile);
+    this.notify(profile);
+    return profile;
+  }
+
+  // Called with a language's profile whenever it is loaded or saved
+  public subscribe(listener: VoiceProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public toSynthesisOptions(profile: VoiceProfile): SpeechSynthesisOptions {
+    return {
+      language: profile.language,
+      voiceId: profile.voiceId,
+      stability: profile.stability,
+      similarityBoost: profile.similarityBoost,
+      rate: profile.rate,
+      pitch: profile.pitch,
+      volume: profile.volume
+    };
+  }
+
+  /**
+   * Speaks the sample sentence for a language with that language's profile,
+   * or with `profile` to hear unsaved edits, through the hearing profile as
+   * replies are. Resolves when playback ends; a new preview stops the one before it.
+   */
+  public async preview(language: PreferredLanguage, profile: VoiceProfile = this.getProfile(language)): Promise<void> {
+    await this.stopPreview();
+    const generation = ++this.previewGeneration;
+
+    const hearing = HearingProfileService.getInstance();
+    const speech = await hearing.personaliseSpeech(await getTextToSpeechChain().synthesize(
+      VOICE_SAMPLE_SENTENCES[language],
+      { ...this.toSynthesisOptions(profile), outputFormat: hearing.getSynthesisFormat() }
+    ));
+    if (speech.type === 'live') {
+      this.isPreviewingLive = true;
+      try {
+        await speech.play();
+      } finally {
+        this.isPreviewingLive = false;
+      }
+      return;
+    }
+
+    try {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+      await new Promise<void>((resolve, reject) => {
+        this.finishPreview = resolve;
+        Audio.Sound.createAsync(
+          { uri: speech.fileUri },
+          { shouldPlay: true, volume: profile.volume, rate: speech.playbackRate ?? 1, shouldCorrectPitch: true },
+          (status: AVPlaybackStatus) => {
+            if (!status.isLoaded) {
+              if (status.error) reject(new Error(status.error));
+              return;
+            }
+            if (status.didJustFinish) resolve();
+          }
+        ).then(({ sound }) => {
+          if (generation === this.previewGeneration) {
+            this.previewSound = sound;
+          } else {
+            // Another preview started while this one loaded
+            sound.unloadAsync().catch(() => {});
+            resolve();
+          }
+        }, reject);
+      });
+    } finally {
+      if (generation === this.previewGeneration) {
+        await this.stopPreview();
+      }
+      if (speech.isTemporary) {
+        await FileSystem.deleteAsync(speech.fileUri, { idempotent: true }).catch(() => {});
+      }
+    }
+  }
+
+  public async stopPreview(): Promise<void> {
+    const sound = this.previewSound;
+    this.previewSound = null;
+    this.finishPreview?.();
+    this.finishPreview = null;
+    if (sound) {
+      await sound.unloadAsync().catch(() => {});
+    }
+    if (this.isPreviewingLive) {
+      await getTextToSpeechChain().stop();
+    }
+  }
+
+  private createDefaultProfile(language: PreferredLanguage): VoiceProfile {
+    return {
+      id: '',
+      userId: this.userId ?? '',
+      language,
+      voiceId: getDefaultVoiceIdForGender(language, this.defaultGender),
+      rate: 1,
+      pitch: 1,
+      volume: 1,
+      stability: 0.5,
+      similarityBoost: 0.75,
+      preferredGender: this.defaultGender
+    };
+  }
+
+  private async loadPreferredGender(userId: string): Promise<VoiceGender | null> {
+    try {
+      const preferences = await tables.conversation_preferences.findOne({ user_id: userId });
+      return preferences ? preferences.preferred_voice_gender as VoiceGender : null;
+    } catch (error) {
+      console.warn('Could not load the preferred voice gender:', error);
+      return null;
+    }
+  }
+
+  private notify(profile: VoiceProfile): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(profile);
+      } catch (error) {
+        console.warn('Voice profile listener failed:', error);
+      }
+    });
+  }
+}
+
+export default VoiceProfileService;
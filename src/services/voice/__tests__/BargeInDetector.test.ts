@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BargeInAction, BargeInDetector, BargeInOptions } from '../BargeInDetector';
+import { detectVoiceActivity, MeteringSample, VoiceActivityDetector, VoiceActivityOptions } from '../../audio/VoiceActivityDetector';
+import { buildTrace, REPLY_BLEED, USER_CUTTING_IN } from '../../audio/__tests__/fixtures/meteringTraces';
+
+// As in config.audio.vad
+const VAD_OPTIONS: VoiceActivityOptions = {
+  calibrationMs: 600,
+  initialNoiseFloorDb: -50,
+  startMarginDb: 12,
+  endMarginDb: 6,
+  minSpeechMs: 200,
+  endOfUtteranceMs: 2000,
+  minEndOfUtteranceMs: 1200,
+  maxEndOfUtteranceMs: 6000
+};
+
+// As in config.voice.bargeIn
+const BARGE_IN_OPTIONS: BargeInOptions = {
+  startMarginDb: 20,
+  endMarginDb: 6,
+  minSpeechMs: 300,
+  confirmMs: 600,
+  duckVolume: 0.25,
+  echoMarginDb: 6
+};
+
+const ROOM = buildTrace([{ ms: 7000, levelDb: -60, jitterDb: 2 }]);
+const SILENCE = buildTrace([{ ms: 7000, levelDb: -160 }]);
+
+// Sound from several sources adds up by power
+const mix = (...levelsDb: number[]): number => 10 * Math.log10(levelsDb.reduce((total, levelDb) => total + Math.pow(10, levelDb / 10), 0));
+
+interface TimedAction {
+  timeMs: number;
+  action: BargeInAction;
+}
+
+/**
+ * Plays the reply through the VAD and detector as VoiceCommunicationService
+ * does, with the bleed following the playback volume: ducking the reply
+ * lowers it, restoring raises it again. The VAD has already calibrated to
+ * the room while listening before the reply.
+ */
+const playReply = (bleed: MeteringSample[], user: MeteringSample[]): TimedAction[] => {
+  const vad = new VoiceActivityDetector(VAD_OPTIONS);
+  ROOM.slice(0, 10).forEach(sample => vad.process(sample));
+  vad.reset();
+  vad.setSensitivity({ startMarginDb: BARGE_IN_OPTIONS.startMarginDb, minSpeechMs: BARGE_IN_OPTIONS.minSpeechMs });
+
+  const detector = new BargeInDetector(BARGE_IN_OPTIONS);
+  const actions: TimedAction[] = [];
+  let volume = 1;
+
+  for (let i = 0; i < bleed.length; i++) {
+    const { timeMs } = bleed[i];
+    const levelDb = mix(ROOM[i].levelDb, bleed[i].levelDb + 20 * Math.log10(volume), user[i].levelDb);
+    for (const event of vad.process({ timeMs, levelDb })) {
+      if (event.type !== 'level') continue;
+      const action = detector.process(event);
+      if (!action) continue;
+      actions.push({ timeMs, action });
+      if (action === 'interrupt') return actions;
+      volume = action === 'duck' ? BARGE_IN_OPTIONS.duckVolume : 1;
+    }
+  }
+  return actions;
+};
+
+describe('BargeInDetector', () => {
+  test('the VAD alone takes the reply coming back through the microphone for speech', () => {
+    const trace = REPLY_BLEED.map((sample, i) => ({ ...sample, levelDb: mix(ROOM[i].levelDb, sample.levelDb) }));
+    const events = detectVoiceActivity([...ROOM.slice(0, 10), ...trace.map(sample => ({ ...sample, timeMs: sample.timeMs + 1000 }))], {
+      ...VAD_OPTIONS,
+      startMarginDb: BARGE_IN_OPTIONS.startMarginDb,
+      minSpeechMs: BARGE_IN_OPTIONS.minSpeechMs
+    });
+
+    assert.ok(events.some(event => event.type === 'speech_start'));
+  });
+
+  test('does not stop a reply for its own bleed', () => {
+    const actions = playReply(REPLY_BLEED, SILENCE);
+
+    assert.ok(actions.every(({ action }) => action !== 'interrupt'));
+    assert.equal(actions[actions.length - 1].action, 'restore');
+  });
+
+  test('ducks for the bleed once, then ignores it for the rest of the reply', () => {
+    assert.deepEqual(playReply(REPLY_BLEED, SILENCE), [
+      { timeMs: 500, action: 'duck' },
+      { timeMs: 1100, action: 'restore' }
+    ]);
+  });
+
+  test('stops the reply when the user talks over the bleed', () => {
+    const actions = playReply(REPLY_BLEED, USER_CUTTING_IN);
+    const [interrupt] = actions.filter(({ action }) => action === 'interrupt');
+
+    // Loud for minSpeechMs from 3.5 s, then ducked for confirmMs; the bleed's dips can delay it a little
+    assert.ok(interrupt, JSON.stringify(actions));
+    assert.ok(interrupt.timeMs >= 3500 + 300 + 600 && interrupt.timeMs <= 5000, `${interrupt.timeMs} ms`);
+  });
+
+  test('stops the reply when the user talks with no bleed, e.g. on headphones', () => {
+    assert.deepEqual(playReply(SILENCE, USER_CUTTING_IN), [
+      { timeMs: 3800, action: 'duck' },
+      { timeMs: 4400, action: 'interrupt' }
+    ]);
+  });
+
+  test('restores the reply after a cough', () => {
+    const cough = buildTrace([{ ms: 1000, levelDb: -160 }, { ms: 400, levelDb: -20 }, { ms: 5600, levelDb: -160 }]);
+
+    assert.deepEqual(playReply(SILENCE, cough).map(({ action }) => action), ['duck', 'restore']);
+  });
+});
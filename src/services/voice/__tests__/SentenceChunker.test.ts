@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { SentenceChunker } from '../SentenceChunker';
+
+// Feeds the text a few characters at a time, as a model stream does
+const chunk = (text: string, size = 3, minLength?: number): string[] => {
+  const chunker = new SentenceChunker({ minLength });
+  const sentences: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    sentences.push(...chunker.push(text.slice(i, i + size)));
+  }
+  const remainder = chunker.flush();
+  return remainder ? [...sentences, remainder] : sentences;
+};
+
+describe('SentenceChunker', () => {
+  test('cuts at full stops, question marks and exclamation marks', () => {
+    assert.deepEqual(chunk('How are you feeling today? I hope you slept well. That is wonderful news!'), [
+      'How are you feeling today?',
+      'I hope you slept well.',
+      'That is wonderful news!'
+    ]);
+  });
+
+  test('does not cut after titles, initials or decimals', () => {
+    assert.deepEqual(chunk('Dr. Smith will see you at 3.30 today. J. Smith is his nurse.'), [
+      'Dr. Smith will see you at 3.30 today.',
+      'J. Smith is his nurse.'
+    ]);
+  });
+
+  test('treats "No." as an abbreviation before a number', () => {
+    assert.deepEqual(chunk('Your appointment is in room No. 5 on the left. Please arrive early.'), [
+      'Your appointment is in room No. 5 on the left.',
+      'Please arrive early.'
+    ]);
+  });
+
+  test('ends a sentence at "no." when no number follows', () => {
+    assert.deepEqual(chunk('I asked whether it hurt and she said no. Then we had a cup of tea.'), [
+      'I asked whether it hurt and she said no.',
+      'Then we had a cup of tea.'
+    ]);
+  });
+
+  test('waits for the word after "no." before deciding', () => {
+    const chunker = new SentenceChunker();
+
+    assert.deepEqual(chunker.push('The answer was no. '), []);
+    assert.deepEqual(chunker.push('  That is fine.'), ['The answer was no.']);
+    assert.equal(chunker.flush(), 'That is fine.');
+  });
+
+  test('keeps "no." at the end of the stream for flush', () => {
+    const chunker = new SentenceChunker();
+
+    assert.deepEqual(chunker.push('She said no. '), []);
+    assert.equal(chunker.flush(), 'She said no.');
+  });
+
+  test('cuts Chinese at full-width terminators without spaces', () => {
+    assert.deepEqual(chunk('奶奶，您今天感觉怎么样？我们慢慢聊天吧。', 2, 4), ['奶奶，您今天感觉怎么样？', '我们慢慢聊天吧。']);
+  });
+
+  test('joins sentences shorter than the minimum with the next', () => {
+    assert.deepEqual(chunk('Oh. Yes. That sounds lovely to me.'), ['Oh. Yes. That sounds lovely to me.']);
+  });
+
+  test('keeps closing quotes with their sentence', () => {
+    assert.deepEqual(chunk('She told me "that was lovely." We laughed about it.'), [
+      'She told me "that was lovely."',
+      'We laughed about it.'
+    ]);
+  });
+});
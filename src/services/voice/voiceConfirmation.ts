@@ -0,0 +1,78 @@
+import { PreferredLanguage } from '../../types';
+import { LANGUAGES } from '../../config/languages';
+
+interface ConfirmationWords {
+  yes: string[];
+  no: string[];
+}
+
+// English is always understood as well, since Samoan and Tongan are heard through the English recogniser
+const CONFIRMATION_WORDS: Record<PreferredLanguage, ConfirmationWords> = {
+  en: {
+    yes: ['yes', 'yeah', 'yep', 'sure', 'okay', 'ok', 'please do', 'go ahead', 'alright'],
+    no: ['no', 'nope', 'not now', 'leave it']
+  },
+  mi: { yes: ['āe', 'ae', 'kāti', 'tika'], no: ['kāo', 'kao', 'kāore', 'kaore'] },
+  zh: { yes: ['是', '好', '对', '可以', '行', '要'], no: ['不要', '不用', '不是', '不好', '不行', '不', '别', '没'] },
+  sm: { yes: ['ioe', "'io"], no: ['leai', 'leaai'] },
+  to: { yes: ["'io", 'io'], no: ["'ikai", 'ikai'] },
+  hi: { yes: ['हाँ', 'हां', 'जी', 'ठीक'], no: ['नहीं', 'ना', 'मत'] },
+  ko: { yes: ['네', '예', '응', '좋아요', '그래요'], no: ['아니', '싫어요'] }
+};
+
+// Asked before a detected cultural profile change is applied
+const CULTURAL_SUGGESTION_QUESTIONS: Record<PreferredLanguage, (groupName: string, languageName: string) => string> = {
+  en: (groupName, languageName) =>
+    `I've noticed you often speak ${languageName} with me. Would you like me to follow ${groupName} ways and speak ${languageName} with you from now on? Please say yes or no.`,
+  mi: (groupName, languageName) =>
+    `Kua kite au he maha ō kōrero ki ahau i te ${languageName}. Me whai au i ngā tikanga ${groupName}, me kōrero hoki i te ${languageName} ki a koe? Kīia mai "āe" rānei, "kāo" rānei.`,
+  zh: (groupName, languageName) =>
+    `我注意到您常用${languageName}和我交谈。以后要我按照${groupName}的习惯，用${languageName}和您说话吗？请说"是"或"不"。`,
+  sm: (groupName, languageName) =>
+    `Ua ou matauina e te talanoa soo mai i le ${languageName}. E te mana'o ou te mulimuli i aga ${groupName} ma talanoa atu i le ${languageName}? Fai mai "ioe" pe "leai".`,
+  to: (groupName, languageName) =>
+    `Kuo u sio 'oku ke faka'aonga'i lahi 'a e ${languageName} 'i ho'o talanoa mai. 'Oku ke fiema'u ke u muimui 'i he anga faka-${groupName} pea lea ${languageName} atu kiate koe? Lea mai "'io" pe "'ikai".`,
+  hi: (groupName, languageName) =>
+    `मैंने देखा है कि आप अक्सर मुझसे ${languageName} में बात करते हैं। क्या आप चाहेंगे कि अब से मैं ${groupName} रीति से और ${languageName} में आपसे बात करूँ? कृपया "हाँ" या "नहीं" कहिए।`,
+  ko: (groupName, languageName) =>
+    `${languageName}로 자주 말씀하시는 것 같아요. 앞으로 ${groupName} 방식에 맞춰 ${languageName}로 이야기해 드릴까요? "네" 또는 "아니요"라고 말씀해 주세요.`
+};
+
+// Words must stand alone ("no" is not in "know", ना is not in करना), except in
+// Chinese and Korean, where answers run on into the rest of the sentence
+const containsPhrase = (text: string, phrase: string): boolean => {
+  if (/[\p{Script=Han}\p{Script=Hangul}]/u.test(phrase)) {
+    return text.includes(phrase);
+  }
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{M}'])${escaped}(?=$|[^\\p{L}\\p{M}'])`, 'u').test(text);
+};
+
+/**
+ * Reads a spoken answer to a yes/no question: true for yes, false for no,
+ * null when it was neither or both ("yes... no, wait").
+ */
+export const interpretConfirmation = (transcript: string, language: PreferredLanguage): boolean | null => {
+  const text = transcript.toLowerCase().normalize('NFC').replace(/[ʻ‘’`]/g, "'");
+  const words = [CONFIRMATION_WORDS[language], CONFIRMATION_WORDS.en];
+  const saidNo = words.some(({ no }) => no.some(phrase => containsPhrase(text, phrase)));
+  // 不要 is no, though 要 on its own is yes
+  const withoutNo = words.reduce((remaining, { no }) => no.reduce((rest, phrase) =>
+    (/[\p{Script=Han}\p{Script=Hangul}]/u.test(phrase) ? rest.split(phrase).join(' ') : rest), remaining), text);
+  const saidYes = words.some(({ yes }) => yes.some(phrase => containsPhrase(withoutNo, phrase)));
+
+  if (saidYes === saidNo) {
+    return null;
+  }
+  return saidYes;
+};
+
+// Asked in the language the person speaks now, naming the suggested language in English or in its own words
+export const getCulturalSuggestionQuestion = (
+  language: PreferredLanguage,
+  groupName: string,
+  suggestedLanguage: PreferredLanguage
+): string => {
+  const definition = LANGUAGES[suggestedLanguage];
+  return CULTURAL_SUGGESTION_QUESTIONS[language](groupName, language === 'en' ? definition.name : definition.nativeName);
+};
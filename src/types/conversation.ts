@@ -1,8 +1,9 @@
-import { CulturalProfile, PreferredLanguage } from './cultural';
+import { CulturalProfile, CulturalGroup, PreferredLanguage } from './cultural';
 
 export type ConversationMode = 'listening' | 'speaking' | 'idle' | 'processing';
 export type EmotionalState = 'neutral' | 'happy' | 'sad' | 'confused' | 'anxious';
 export type ConversationContext = 'casual' | 'medical' | 'family' | 'memory' | 'emergency';
+export type ConversationChannel = 'text' | 'voice';
 
 export interface AudioState {
   isRecording: boolean;
@@ -20,6 +21,31 @@ export interface ConversationMessage {
   emotionalState?: EmotionalState;
   context?: ConversationContext;
   audioUrl?: string;
+  channel?: ConversationChannel; // Typed in the chat screen or spoken on a call
+  culturalContext?: string; // Label shown beside the message, e.g. 'greeting'
+  segments?: LanguageSegment[]; // When the message mixes languages, each stretch in order; language is the main one
+}
+
+// A stretch of a message in one language, e.g. "Kia ora, " in "Kia ora, I went to see my mokopuna".
+// A type rather than an interface so stored messages still count as Json
+export type LanguageSegment = {
+  text: string;
+  language: PreferredLanguage;
+};
+
+// ConversationMessage as it is kept in conversations.messages
+export type StoredConversationMessage = Omit<ConversationMessage, 'timestamp'> & { timestamp: string };
+
+// One sitting with the assistant; stored locally and in the conversations table
+export interface ConversationSession {
+  id: string;
+  userId: string;
+  startedAt: Date;
+  lastInteraction: Date;
+  endedAt?: Date;
+  culturalGroup?: CulturalGroup;
+  summary?: string;
+  messages: ConversationMessage[];
 }
 
 export interface ConversationState {
@@ -43,13 +69,32 @@ export interface ConversationPreferences {
   emergencyContactId: string;
 }
 
+export type VoiceGender = ConversationPreferences['preferredVoiceGender'];
+
+// How the assistant sounds to one user in one language, synced across their devices
+export interface VoiceProfile {
+  id: string;
+  userId: string;
+  language: PreferredLanguage;
+  voiceId: string; // ElevenLabs voice ID
+  rate: number; // Multiplies the language's usual pace, 1 is unchanged
+  pitch: number; // Multiplies the language's usual pitch
+  volume: number; // Multiplies the language's usual volume, 0-1
+  stability: number; // ElevenLabs voice settings, 0-1
+  similarityBoost: number;
+  preferredGender: VoiceGender;
+  updatedAt?: string;
+}
+
 export interface CachedPhrase {
   id: string;
   content: string;
   language: PreferredLanguage;
   context: ConversationContext;
   culturalProfileId: string;
-  audioUrl: string;
+  audioUrl: string; // Local file for pre-generated audio
   lastUsed: Date;
   useCount: number;
+  voiceId?: string; // Voice the audio was generated with
+  audioBytes?: number; // Size when written, checked before the file is played
 } 
\ No newline at end of file
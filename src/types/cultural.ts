@@ -1,8 +1,14 @@
-export type CulturalGroup = 'maori' | 'chinese' | 'western';
-export type PreferredLanguage = 'en' | 'mi' | 'zh';
+// A new culture is added here, with a cultural pack (services/cultural/packs) and its language in config/languages
+export const CULTURAL_GROUPS = ['maori', 'chinese', 'western', 'samoan', 'tongan', 'indian', 'korean'] as const;
+export const PREFERRED_LANGUAGES = ['en', 'mi', 'zh', 'sm', 'to', 'hi', 'ko'] as const;
+
+export type CulturalGroup = (typeof CULTURAL_GROUPS)[number];
+export type PreferredLanguage = (typeof PREFERRED_LANGUAGES)[number];
 export type CommunicationStyle = 'indirect_respectful' | 'hierarchical_respectful' | 'direct_medical';
-export type FamilyStructure = 'whanau_centered' | 'filial_piety_based' | 'individual_focused';
-export type SpiritualAspect = 'journey_based' | 'karma_concepts' | 'optional';
+// extended_family_centered: aiga, kāinga and joint families, where elders and relatives share decisions
+export type FamilyStructure = 'whanau_centered' | 'filial_piety_based' | 'individual_focused' | 'extended_family_centered';
+// faith_based: church and prayer at the centre of life, as in many Pasifika families
+export type SpiritualAspect = 'journey_based' | 'karma_concepts' | 'optional' | 'faith_based';
 export type StigmaLevel = 'low' | 'moderate' | 'high';
 
 export interface PreferredTerms {
@@ -24,8 +30,8 @@ export interface CulturalProfile {
 
 export interface CulturalContext {
   id: string;
-  profileId: string;
-  contextType: 'greeting' | 'emotional_support' | 'medical_discussion' | 'family_interaction';
+  profileId: string | null; // Null on rows holding a published cultural pack
+  contextType: 'greeting' | 'emotional_support' | 'medical_discussion' | 'family_interaction' | 'cultural_pack';
   templates: Array<{
     language: PreferredLanguage;
     content: string;
@@ -34,41 +40,13 @@ export interface CulturalContext {
   culturalNotes: string[];
 }
 
-export const DEFAULT_CULTURAL_PROFILES: Record<CulturalGroup, Omit<CulturalProfile, 'id'>> = {
-  maori: {
-    culturalGroup: 'maori',
-    preferredLanguage: 'mi',
-    preferredTerms: {
-      dementia: 'mate wareware'
-    },
-    communicationStyle: 'indirect_respectful',
-    familyStructure: 'whanau_centered',
-    spiritualAspects: 'journey_based',
-    stigmaLevel: 'low',
-    customNuances: {}
-  },
-  chinese: {
-    culturalGroup: 'chinese',
-    preferredLanguage: 'zh',
-    preferredTerms: {
-      dementia: '痴呆症'
-    },
-    communicationStyle: 'hierarchical_respectful',
-    familyStructure: 'filial_piety_based',
-    spiritualAspects: 'karma_concepts',
-    stigmaLevel: 'high',
-    customNuances: {}
-  },
-  western: {
-    culturalGroup: 'western',
-    preferredLanguage: 'en',
-    preferredTerms: {
-      dementia: 'dementia'
-    },
-    communicationStyle: 'direct_medical',
-    familyStructure: 'individual_focused',
-    spiritualAspects: 'optional',
-    stigmaLevel: 'moderate',
-    customNuances: {}
-  }
-}; 
\ No newline at end of file
+// How a Te Reo Māori word or phrase should sound from a voice without native Māori
+export interface PronunciationEntry {
+  word: string; // As written, with macrons; may be a phrase such as "mate wareware"
+  respelling: string; // Phonetic respelling an English-trained voice reads correctly, e.g. "faa-noh"
+  ipa?: string;
+  inEnglish: boolean; // Also respelled inside English replies; false for words such as "he" or "mate" that are English too
+  notes?: string;
+  updatedBy?: string; // Advisor who last corrected the entry; unset for the curated defaults
+  updatedAt?: string;
+}
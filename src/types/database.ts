@@ -1,100 +1,1149 @@
-import { CulturalProfile, CulturalContext } from './cultural';
-import { ConversationMessage, ConversationPreferences, CachedPhrase } from './conversation';
+// Written by hand to mirror the schema in supabase/migrations, in the shape
+// `npm run db:types` produces. Update it in the same change as any migration;
+// running db:types against a local database replaces it wholesale.
 
-export interface Database {
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
   public: {
     Tables: {
-      users: {
+      admin_users: {
         Row: {
-          id: string;
-          created_at: string;
-          email: string;
-          full_name: string;
-          avatar_url: string | null;
-          cultural_profile_id: string;
-        };
-        Insert: Omit<Database['public']['Tables']['users']['Row'], 'id' | 'created_at'>;
-        Update: Partial<Database['public']['Tables']['users']['Insert']>;
-      };
-      cultural_profiles: {
-        Row: CulturalProfile;
-        Insert: Omit<CulturalProfile, 'id'>;
-        Update: Partial<CulturalProfile>;
-      };
-      cultural_contexts: {
-        Row: CulturalContext;
-        Insert: Omit<CulturalContext, 'id'>;
-        Update: Partial<CulturalContext>;
-      };
-      conversations: {
+          created_at: string | null
+          is_super_admin: boolean | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          is_super_admin?: boolean | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          is_super_admin?: boolean | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      audit_logs: {
         Row: {
-          id: string;
-          created_at: string;
-          user_id: string;
-          messages: ConversationMessage[];
-          last_interaction: string;
-        };
-        Insert: Omit<Database['public']['Tables']['conversations']['Row'], 'id' | 'created_at'>;
-        Update: Partial<Database['public']['Tables']['conversations']['Insert']>;
-      };
-      conversation_preferences: {
-        Row: ConversationPreferences;
-        Insert: Omit<ConversationPreferences, 'id'>;
-        Update: Partial<ConversationPreferences>;
-      };
+          action: string
+          created_at: string | null
+          details: Json | null
+          timestamp: string
+          uid: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          details?: Json | null
+          timestamp: string
+          uid?: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          details?: Json | null
+          timestamp?: string
+          uid?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       cached_phrases: {
-        Row: CachedPhrase;
-        Insert: Omit<CachedPhrase, 'id'>;
-        Update: Partial<CachedPhrase>;
-      };
-      emergency_contacts: {
         Row: {
-          id: string;
-          user_id: string;
-          name: string;
-          phone: string;
-          relationship: string;
-          is_primary: boolean;
-          notification_preferences: {
-            email: boolean;
-            sms: boolean;
-            push: boolean;
-          };
-        };
-        Insert: Omit<Database['public']['Tables']['emergency_contacts']['Row'], 'id'>;
-        Update: Partial<Database['public']['Tables']['emergency_contacts']['Insert']>;
-      };
+          audio_url: string
+          content: string
+          context: string
+          created_at: string
+          cultural_profile_id: string
+          id: string
+          language: string
+          last_used: string
+          updated_at: string
+          use_count: number
+        }
+        Insert: {
+          audio_url: string
+          content: string
+          context: string
+          created_at?: string
+          cultural_profile_id: string
+          id?: string
+          language: string
+          last_used?: string
+          updated_at?: string
+          use_count?: number
+        }
+        Update: {
+          audio_url?: string
+          content?: string
+          context?: string
+          created_at?: string
+          cultural_profile_id?: string
+          id?: string
+          language?: string
+          last_used?: string
+          updated_at?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cached_phrases_cultural_profile_id_fkey"
+            columns: ["cultural_profile_id"]
+            isOneToOne: false
+            referencedRelation: "cultural_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      caregiver_alerts: {
+        Row: {
+          action_required: boolean | null
+          alert_type: string
+          caregiver_id: string | null
+          cultural_context: string | null
+          description: string
+          id: string
+          is_resolved: boolean | null
+          notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          severity: string
+          suggested_actions: string[] | null
+          timestamp: string | null
+          title: string
+          user_id: string | null
+        }
+        Insert: {
+          action_required?: boolean | null
+          alert_type: string
+          caregiver_id?: string | null
+          cultural_context?: string | null
+          description: string
+          id?: string
+          is_resolved?: boolean | null
+          notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          severity?: string
+          suggested_actions?: string[] | null
+          timestamp?: string | null
+          title: string
+          user_id?: string | null
+        }
+        Update: {
+          action_required?: boolean | null
+          alert_type?: string
+          caregiver_id?: string | null
+          cultural_context?: string | null
+          description?: string
+          id?: string
+          is_resolved?: boolean | null
+          notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          severity?: string
+          suggested_actions?: string[] | null
+          timestamp?: string | null
+          title?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       check_in_schedules: {
         Row: {
-          id: string;
-          user_id: string;
-          frequency: 'daily' | 'weekly' | 'custom';
-          preferred_time: string;
-          timezone: string;
-          is_active: boolean;
-          last_check_in: string | null;
-          notification_sent: boolean;
-        };
-        Insert: Omit<Database['public']['Tables']['check_in_schedules']['Row'], 'id'>;
-        Update: Partial<Database['public']['Tables']['check_in_schedules']['Insert']>;
-      };
-    };
+          created_at: string
+          cultural_considerations: Json | null
+          escalation_rules: Json | null
+          frequency: string | null
+          id: string
+          is_active: boolean
+          last_check_in: string | null
+          missed_count: number | null
+          name: string
+          notification_sent: boolean
+          notifications: Json | null
+          preferred_time: string
+          recurrence: string
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          cultural_considerations?: Json | null
+          escalation_rules?: Json | null
+          frequency?: string | null
+          id?: string
+          is_active?: boolean
+          last_check_in?: string | null
+          missed_count?: number | null
+          name?: string
+          notification_sent?: boolean
+          notifications?: Json | null
+          preferred_time?: string
+          recurrence?: string
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          cultural_considerations?: Json | null
+          escalation_rules?: Json | null
+          frequency?: string | null
+          id?: string
+          is_active?: boolean
+          last_check_in?: string | null
+          missed_count?: number | null
+          name?: string
+          notification_sent?: boolean
+          notifications?: Json | null
+          preferred_time?: string
+          recurrence?: string
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_in_schedules_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_preferences: {
+        Row: {
+          created_at: string
+          emergency_contact_id: string | null
+          id: string
+          preferred_speech_rate: number
+          preferred_voice_gender: string
+          preferred_volume: number
+          reminder_frequency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emergency_contact_id?: string | null
+          id?: string
+          preferred_speech_rate?: number
+          preferred_voice_gender: string
+          preferred_volume?: number
+          reminder_frequency: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emergency_contact_id?: string | null
+          id?: string
+          preferred_speech_rate?: number
+          preferred_voice_gender?: string
+          preferred_volume?: number
+          reminder_frequency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_preferences_emergency_contact_id_fkey"
+            columns: ["emergency_contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          cultural_group: string | null
+          ended_at: string | null
+          id: string
+          last_interaction: string
+          messages: Json
+          started_at: string
+          summary: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          cultural_group?: string | null
+          ended_at?: string | null
+          id?: string
+          last_interaction?: string
+          messages?: Json
+          started_at?: string
+          summary?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          cultural_group?: string | null
+          ended_at?: string | null
+          id?: string
+          last_interaction?: string
+          messages?: Json
+          started_at?: string
+          summary?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cultural_contexts: {
+        Row: {
+          context_type: string
+          created_at: string
+          cultural_group: string | null
+          cultural_notes: string[] | null
+          id: string
+          pack: Json | null
+          profile_id: string | null
+          templates: Json
+          updated_at: string
+        }
+        Insert: {
+          context_type: string
+          created_at?: string
+          cultural_group?: string | null
+          cultural_notes?: string[] | null
+          id?: string
+          pack?: Json | null
+          profile_id?: string | null
+          templates?: Json
+          updated_at?: string
+        }
+        Update: {
+          context_type?: string
+          created_at?: string
+          cultural_group?: string | null
+          cultural_notes?: string[] | null
+          id?: string
+          pack?: Json | null
+          profile_id?: string | null
+          templates?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cultural_contexts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "cultural_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cultural_profiles: {
+        Row: {
+          communication_style: string
+          created_at: string
+          cultural_group: string
+          custom_nuances: Json | null
+          family_structure: string
+          id: string
+          preferred_language: string
+          preferred_terms: Json
+          spiritual_aspects: string
+          stigma_level: string
+          updated_at: string
+        }
+        Insert: {
+          communication_style: string
+          created_at?: string
+          cultural_group: string
+          custom_nuances?: Json | null
+          family_structure: string
+          id?: string
+          preferred_language: string
+          preferred_terms?: Json
+          spiritual_aspects: string
+          stigma_level: string
+          updated_at?: string
+        }
+        Update: {
+          communication_style?: string
+          created_at?: string
+          cultural_group?: string
+          custom_nuances?: Json | null
+          family_structure?: string
+          id?: string
+          preferred_language?: string
+          preferred_terms?: Json
+          spiritual_aspects?: string
+          stigma_level?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      emergency_contacts: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          is_primary: boolean
+          name: string
+          notification_preferences: Json
+          phone: string
+          relationship: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_primary?: boolean
+          name: string
+          notification_preferences?: Json
+          phone: string
+          relationship: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_primary?: boolean
+          name?: string
+          notification_preferences?: Json
+          phone?: string
+          relationship?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_contacts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      emotion_tracking: {
+        Row: {
+          confidence: number
+          created_at: string | null
+          emotion: string
+          id: string
+          session_id: string
+          timestamp: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string | null
+          emotion: string
+          id?: string
+          session_id: string
+          timestamp: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string | null
+          emotion?: string
+          id?: string
+          session_id?: string
+          timestamp?: string
+        }
+        Relationships: []
+      }
+      error_logs: {
+        Row: {
+          context: Json | null
+          created_at: string | null
+          error_message: string
+          error_stack: string | null
+          timestamp: string
+          uid: string
+        }
+        Insert: {
+          context?: Json | null
+          created_at?: string | null
+          error_message: string
+          error_stack?: string | null
+          timestamp: string
+          uid?: string
+        }
+        Update: {
+          context?: Json | null
+          created_at?: string | null
+          error_message?: string
+          error_stack?: string | null
+          timestamp?: string
+          uid?: string
+        }
+        Relationships: []
+      }
+      family_notifications: {
+        Row: {
+          content: string
+          conversation_ids: string[] | null
+          cultural_context: string | null
+          family_contact_id: string | null
+          id: string
+          includes_conversation_summary: boolean | null
+          is_read: boolean | null
+          requires_response: boolean | null
+          responded_at: string | null
+          response: string | null
+          timestamp: string | null
+          title: string
+          type: string
+          user_id: string | null
+        }
+        Insert: {
+          content: string
+          conversation_ids?: string[] | null
+          cultural_context?: string | null
+          family_contact_id?: string | null
+          id?: string
+          includes_conversation_summary?: boolean | null
+          is_read?: boolean | null
+          requires_response?: boolean | null
+          responded_at?: string | null
+          response?: string | null
+          timestamp?: string | null
+          title: string
+          type: string
+          user_id?: string | null
+        }
+        Update: {
+          content?: string
+          conversation_ids?: string[] | null
+          cultural_context?: string | null
+          family_contact_id?: string | null
+          id?: string
+          includes_conversation_summary?: boolean | null
+          is_read?: boolean | null
+          requires_response?: boolean | null
+          responded_at?: string | null
+          response?: string | null
+          timestamp?: string | null
+          title?: string
+          type?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "family_notifications_family_contact_id_fkey"
+            columns: ["family_contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_delivery_logs: {
+        Row: {
+          channel: string
+          cultural_adaptations: string[] | null
+          error_message: string | null
+          id: string
+          notification_id: string | null
+          retry_count: number | null
+          status: string
+          timestamp: string | null
+          user_id: string | null
+        }
+        Insert: {
+          channel: string
+          cultural_adaptations?: string[] | null
+          error_message?: string | null
+          id?: string
+          notification_id?: string | null
+          retry_count?: number | null
+          status?: string
+          timestamp?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          channel?: string
+          cultural_adaptations?: string[] | null
+          error_message?: string | null
+          id?: string
+          notification_id?: string | null
+          retry_count?: number | null
+          status?: string
+          timestamp?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string | null
+          cultural_config: Json
+          emergency_contacts: string[] | null
+          enabled_channels: string[] | null
+          family_notifications: Json | null
+          id: string
+          quiet_hours: Json | null
+          type_preferences: Json
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          cultural_config?: Json
+          emergency_contacts?: string[] | null
+          enabled_channels?: string[] | null
+          family_notifications?: Json | null
+          id?: string
+          quiet_hours?: Json | null
+          type_preferences?: Json
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          cultural_config?: Json
+          emergency_contacts?: string[] | null
+          enabled_channels?: string[] | null
+          family_notifications?: Json | null
+          id?: string
+          quiet_hours?: Json | null
+          type_preferences?: Json
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      notification_templates: {
+        Row: {
+          action_buttons: Json | null
+          created_at: string | null
+          cultural_context: string | null
+          cultural_group: string
+          id: string
+          language: string
+          message: string
+          title: string
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          action_buttons?: Json | null
+          created_at?: string | null
+          cultural_context?: string | null
+          cultural_group: string
+          id?: string
+          language: string
+          message: string
+          title: string
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          action_buttons?: Json | null
+          created_at?: string | null
+          cultural_context?: string | null
+          cultural_group?: string
+          id?: string
+          language?: string
+          message?: string
+          title?: string
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          patient_id: string
+          prompt_id: string | null
+          scheduled_time: string
+          sent_time: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          patient_id: string
+          prompt_id?: string | null
+          scheduled_time: string
+          sent_time?: string | null
+          status: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          patient_id?: string
+          prompt_id?: string | null
+          scheduled_time?: string
+          sent_time?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          field_updated_at: Json
+          full_name: string | null
+          id: string
+          phone_number: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          field_updated_at?: Json
+          full_name?: string | null
+          id: string
+          phone_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          field_updated_at?: Json
+          full_name?: string | null
+          id?: string
+          phone_number?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pronunciation_lexicon: {
+        Row: {
+          created_at: string
+          id: string
+          in_english: boolean
+          ipa: string | null
+          notes: string | null
+          respelling: string
+          updated_at: string
+          updated_by: string | null
+          word: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          in_english?: boolean
+          ipa?: string | null
+          notes?: string | null
+          respelling: string
+          updated_at?: string
+          updated_by?: string | null
+          word: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          in_english?: boolean
+          ipa?: string | null
+          notes?: string | null
+          respelling?: string
+          updated_at?: string
+          updated_by?: string | null
+          word?: string
+        }
+        Relationships: []
+      }
+      scheduled_notifications: {
+        Row: {
+          channels: string[] | null
+          created_at: string | null
+          cultural_config: Json
+          failure_count: number | null
+          id: string
+          is_active: boolean | null
+          is_recurring: boolean | null
+          last_sent: string | null
+          message: string
+          metadata: Json | null
+          priority: string
+          recurrence_config: Json | null
+          recurrence_pattern: string | null
+          scheduled_for: string
+          title: string
+          type: string
+          user_id: string | null
+        }
+        Insert: {
+          channels?: string[] | null
+          created_at?: string | null
+          cultural_config?: Json
+          failure_count?: number | null
+          id?: string
+          is_active?: boolean | null
+          is_recurring?: boolean | null
+          last_sent?: string | null
+          message: string
+          metadata?: Json | null
+          priority?: string
+          recurrence_config?: Json | null
+          recurrence_pattern?: string | null
+          scheduled_for: string
+          title: string
+          type: string
+          user_id?: string | null
+        }
+        Update: {
+          channels?: string[] | null
+          created_at?: string | null
+          cultural_config?: Json
+          failure_count?: number | null
+          id?: string
+          is_active?: boolean | null
+          is_recurring?: boolean | null
+          last_sent?: string | null
+          message?: string
+          metadata?: Json | null
+          priority?: string
+          recurrence_config?: Json | null
+          recurrence_pattern?: string | null
+          scheduled_for?: string
+          title?: string
+          type?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_memories: {
+        Row: {
+          content: string
+          created_at: string
+          field_updated_at: Json
+          id: string
+          metadata: Json | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          field_updated_at?: Json
+          id?: string
+          metadata?: Json | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          field_updated_at?: Json
+          id?: string
+          metadata?: Json | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          cultural_profile_id: string | null
+          email: string
+          full_name: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          cultural_profile_id?: string | null
+          email: string
+          full_name: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          cultural_profile_id?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_cultural_profile_id_fkey"
+            columns: ["cultural_profile_id"]
+            isOneToOne: false
+            referencedRelation: "cultural_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      voice_preferences: {
+        Row: {
+          created_at: string
+          field_updated_at: Json
+          id: string
+          language: string
+          pitch: number
+          preferred_gender: string
+          similarity_boost: number
+          speed: number
+          stability: number
+          updated_at: string
+          user_id: string
+          voice_id: string
+          volume: number
+        }
+        Insert: {
+          created_at?: string
+          field_updated_at?: Json
+          id?: string
+          language: string
+          pitch?: number
+          preferred_gender?: string
+          similarity_boost?: number
+          speed?: number
+          stability?: number
+          updated_at?: string
+          user_id: string
+          voice_id: string
+          volume?: number
+        }
+        Update: {
+          created_at?: string
+          field_updated_at?: Json
+          id?: string
+          language?: string
+          pitch?: number
+          preferred_gender?: string
+          similarity_boost?: number
+          speed?: number
+          stability?: number
+          updated_at?: string
+          user_id?: string
+          voice_id?: string
+          volume?: number
+        }
+        Relationships: []
+      }
+      wellness_concerns: {
+        Row: {
+          concern_type: string
+          created_at: string | null
+          details: Json
+          id: string
+          is_resolved: boolean | null
+          resolved_at: string | null
+          severity: string
+          user_id: string | null
+        }
+        Insert: {
+          concern_type: string
+          created_at?: string | null
+          details?: Json
+          id?: string
+          is_resolved?: boolean | null
+          resolved_at?: string | null
+          severity?: string
+          user_id?: string | null
+        }
+        Update: {
+          concern_type?: string
+          created_at?: string | null
+          details?: Json
+          id?: string
+          is_resolved?: boolean | null
+          resolved_at?: string | null
+          severity?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      wellness_indicators: {
+        Row: {
+          check_in_completed: boolean | null
+          concerns: string[] | null
+          conversation_quality: string | null
+          created_at: string | null
+          cultural_engagement: Json | null
+          date: string
+          id: string
+          mood_indicators: Json | null
+          positive_notes: string[] | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          check_in_completed?: boolean | null
+          concerns?: string[] | null
+          conversation_quality?: string | null
+          created_at?: string | null
+          cultural_engagement?: Json | null
+          date: string
+          id?: string
+          mood_indicators?: Json | null
+          positive_notes?: string[] | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          check_in_completed?: boolean | null
+          concerns?: string[] | null
+          conversation_quality?: string | null
+          created_at?: string | null
+          cultural_engagement?: Json | null
+          date?: string
+          id?: string
+          mood_indicators?: Json | null
+          positive_notes?: string[] | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      wellness_reports: {
+        Row: {
+          average_conversation_quality: number | null
+          check_ins_completed: number | null
+          completion_rate: number | null
+          concerns: string[] | null
+          cultural_engagement_score: number | null
+          generated_at: string | null
+          id: string
+          positive_notes: string[] | null
+          total_days: number | null
+          user_id: string | null
+          week_start: string
+        }
+        Insert: {
+          average_conversation_quality?: number | null
+          check_ins_completed?: number | null
+          completion_rate?: number | null
+          concerns?: string[] | null
+          cultural_engagement_score?: number | null
+          generated_at?: string | null
+          id?: string
+          positive_notes?: string[] | null
+          total_days?: number | null
+          user_id?: string | null
+          week_start: string
+        }
+        Update: {
+          average_conversation_quality?: number | null
+          check_ins_completed?: number | null
+          completion_rate?: number | null
+          concerns?: string[] | null
+          cultural_engagement_score?: number | null
+          generated_at?: string | null
+          id?: string
+          positive_notes?: string[] | null
+          total_days?: number | null
+          user_id?: string | null
+          week_start?: string
+        }
+        Relationships: []
+      }
+    }
     Views: {
       user_profiles_with_cultural: {
-        Row: Database['public']['Tables']['users']['Row'] & {
-          cultural_profile: Database['public']['Tables']['cultural_profiles']['Row'];
-        };
-      };
-    };
+        Row: {
+          avatar_url: string | null
+          communication_style: string | null
+          cultural_group: string | null
+          cultural_profile_id: string | null
+          custom_nuances: Json | null
+          email: string | null
+          family_structure: string | null
+          full_name: string | null
+          preferred_language: string | null
+          preferred_terms: Json | null
+          profile_created_at: string | null
+          profile_ref_id: string | null
+          profile_updated_at: string | null
+          spiritual_aspects: string | null
+          stigma_level: string | null
+          user_created_at: string | null
+          user_id: string | null
+          user_updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_cultural_profile_id_fkey"
+            columns: ["profile_ref_id"]
+            isOneToOne: false
+            referencedRelation: "cultural_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
     Functions: {
+      cleanup_old_logs: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       get_user_conversation_history: {
-        Args: { user_id: string; limit: number };
-        Returns: Array<Database['public']['Tables']['conversations']['Row']>;
-      };
+        Args: {
+          user_id: string
+          limit_count?: number
+        }
+        Returns: {
+          conversation_id: string
+          messages: Json
+          last_interaction: string
+        }[]
+      }
       update_check_in_status: {
-        Args: { user_id: string };
-        Returns: boolean;
-      };
-    };
-  };
-} 
\ No newline at end of file
+        Args: {
+          user_id: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
+
+export type Views<ViewName extends keyof PublicSchema["Views"]> =
+  PublicSchema["Views"][ViewName]["Row"]
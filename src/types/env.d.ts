@@ -6,4 +6,20 @@ declare module "@env" {
   export const ELEVEN_LABS_API_KEY: string;
   export const APP_ENV: string;
   export const DEBUG_MODE: string;
+  export const LLM_PROVIDER: string;
+  export const LLM_API_URL: string;
+  export const LLM_API_KEY: string;
+  export const LLM_MODEL: string;
+  export const STT_PROVIDER: string;
+  export const STT_LANGUAGE_PROVIDERS: string;
+  export const STT_API_URL: string;
+  export const STT_API_KEY: string;
+  export const STT_MODEL: string;
+  export const STT_COST_PER_MINUTE: string;
+  export const TTS_PROVIDERS: string;
+  export const TTS_API_URL: string;
+  export const TTS_API_KEY: string;
+  export const TTS_VOICE: string;
+  export const TTS_NATIVE_LANGUAGES: string;
+  export const HANDS_FREE_WAKE_PHRASES: string;
 }
@@ -0,0 +1,29 @@
+// Pure-tone frequencies tested by the in-app hearing check, in Hz
+export const AUDIOGRAM_FREQUENCIES = [250, 500, 1000, 2000, 4000, 8000] as const;
+
+export type AudiogramFrequency = typeof AUDIOGRAM_FREQUENCIES[number];
+
+export type Ear = 'left' | 'right';
+
+// Hearing threshold in dB HL at each frequency; frequencies not tested are missing
+export type EarThresholds = Partial<Record<AudiogramFrequency, number>>;
+
+export interface Audiogram {
+  left: EarThresholds;
+  right: EarThresholds;
+  testedAt: string;
+}
+
+export interface HearingProfile {
+  audiogram: Audiogram | null;
+  equalisation: boolean; // Boost the frequencies each ear hears less of
+  compression: boolean; // Bring quiet syllables up closer to loud ones
+  speechRate: number; // Below 1 slows speech without lowering its pitch
+}
+
+export const DEFAULT_HEARING_PROFILE: HearingProfile = {
+  audiogram: null,
+  equalisation: true,
+  compression: false,
+  speechRate: 1
+};
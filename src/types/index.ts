@@ -25,6 +25,9 @@ export * from "./cultural";
 export * from "./conversation";
 export * from "./database";
 export * from "./notifications";
+export * from "./memory";
+export * from "./sync";
+export * from "./hearing";
 
 // Re-export commonly used types
 export type {
@@ -0,0 +1,63 @@
+import type { HASH_EMBEDDING_MODEL } from '../services/memory/HashingEmbedder';
+
+// Fixed taxonomy stored in user_memories.type
+export type MemoryCategory = 'people' | 'places' | 'routines' | 'health' | 'preferences' | 'life_events';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['people', 'places', 'routines', 'health', 'preferences', 'life_events'];
+
+export const MEMORY_CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  people: 'People',
+  places: 'Places',
+  routines: 'Routines',
+  health: 'Health',
+  preferences: 'Preferences',
+  life_events: 'Life events'
+};
+
+// Where a remembered fact came from
+export type MemorySource = 'user' | 'assistant' | 'manual';
+
+// How a fact was extracted from conversation text
+export type MemoryExtractor = 'regex' | 'llm' | 'manual';
+
+// Family review state; rejected facts are kept so they are not extracted again
+export type MemoryStatus = 'unverified' | 'confirmed' | 'rejected';
+
+export interface MemoryRevision {
+  content: string;
+  replacedAt: string; // ISO timestamp
+}
+
+export interface MemoryMetadata {
+  source: MemorySource;
+  extractor: MemoryExtractor;
+  confidence: number; // 0-1
+  status: MemoryStatus;
+  mentions: number; // Times the fact has been extracted
+  lastMentionedAt: string; // ISO timestamp
+  reviewedAt?: string; // ISO timestamp of the last confirm/reject
+  revisions?: MemoryRevision[]; // Earlier wordings replaced by merged updates, newest last
+  pinned?: boolean; // Always sent to the model
+  expiresAt?: string; // ISO timestamp after which the fact is removed
+  embedding?: number[]; // Precomputed vector for retrieval
+  embeddingModel?: typeof HASH_EMBEDDING_MODEL; // The on-device embedder, the only model retrieval supports
+}
+
+export interface UserMemory {
+  id: string;
+  user_id: string;
+  type: string;
+  content: string;
+  metadata?: Partial<MemoryMetadata> | null;
+  created_at: string;
+}
+
+// A fact extracted from text before it is matched against stored memories
+export interface MemoryCandidate {
+  type: string;
+  content: string;
+  source: MemorySource;
+  extractor: MemoryExtractor;
+  confidence: number;
+  expiresAt?: string;
+}
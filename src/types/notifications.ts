@@ -213,54 +213,3 @@ export interface CulturalCelebration {
   suggestedActivities: string[];
   familyInvolvementRecommended: boolean;
 }
-
-export const DEFAULT_CULTURAL_NOTIFICATION_CONFIGS: Record<CulturalGroup, CulturalNotificationConfig> = {
-  maori: {
-    culturalGroup: 'maori',
-    respectfulHours: {
-      start: '08:00',
-      end: '19:00'
-    },
-    avoidDays: [],
-    specialConsiderations: {
-      familyInvolvement: true,
-      indirectCommunication: true,
-      hierarchicalApproach: false,
-      spiritualSensitivity: true
-    },
-    preferredChannels: ['push', 'voice_call', 'in_app'],
-    escalationDelay: 30
-  },
-  chinese: {
-    culturalGroup: 'chinese',
-    respectfulHours: {
-      start: '09:00',
-      end: '20:00'
-    },
-    avoidDays: [],
-    specialConsiderations: {
-      familyInvolvement: true,
-      indirectCommunication: true,
-      hierarchicalApproach: true,
-      spiritualSensitivity: true
-    },
-    preferredChannels: ['push', 'sms', 'in_app'],
-    escalationDelay: 20
-  },
-  western: {
-    culturalGroup: 'western',
-    respectfulHours: {
-      start: '08:00',
-      end: '21:00'
-    },
-    avoidDays: [],
-    specialConsiderations: {
-      familyInvolvement: false,
-      indirectCommunication: false,
-      hierarchicalApproach: false,
-      spiritualSensitivity: false
-    },
-    preferredChannels: ['push', 'email', 'sms'],
-    escalationDelay: 15
-  }
-};
\ No newline at end of file
@@ -0,0 +1,43 @@
+// Tables whose writes go through the offline outbox
+export type SyncEntity = 'user_memories' | 'profiles' | 'voice_preferences';
+
+export type SyncOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxMutation {
+  id: string;
+  entity: SyncEntity;
+  operation: SyncOperation;
+  recordId: string;
+  changes: Record<string, unknown>; // Fields written, nested objects such as metadata included whole
+  baseValues?: Record<string, unknown>; // The same fields as the device last saw them
+  scope?: string; // Read whose results an insert belongs in, e.g. 'user_memories:<userId>'
+  clientTimestamp: string; // ISO time the edit was made on the device
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string; // ISO time before which a refused change is not retried
+}
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+// How a field edited both here and elsewhere was settled; 'rejected' when
+// Supabase kept refusing the change and it was discarded
+export type ConflictResolution = 'local' | 'remote' | 'merged' | 'rejected';
+
+export interface SyncConflict {
+  entity: SyncEntity;
+  recordId: string;
+  field: string; // Dotted for nested fields, e.g. 'metadata.status'
+  localValue: unknown;
+  remoteValue: unknown;
+  resolution: ConflictResolution;
+  resolvedAt: string;
+  reason?: string; // Supabase's last error for a rejected change
+}
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+  recentConflicts: SyncConflict[];
+}
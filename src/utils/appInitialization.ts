@@ -10,7 +10,7 @@ export interface InitializationResult {
   warnings: string[];
   timestamp: Date;
   config: {
-    deepseek: boolean;
+    chatProvider: boolean;
     elevenLabs: boolean;
     supabase: boolean;
     permissions: boolean;
@@ -53,7 +53,7 @@ class AppInitialization {
     const errors: string[] = [];
     const warnings: string[] = [];
     const configStatus = {
-      deepseek: false,
+      chatProvider: false,
       elevenLabs: false,
       supabase: false,
       permissions: false,
@@ -74,7 +74,7 @@ class AppInitialization {
           console.error('❌ Configuration validation failed:', configValidation.errors);
         }
       } else {
-        configStatus.deepseek = config.deepseek.isConfigured;
+        configStatus.chatProvider = config.llm.isConfigured;
         configStatus.elevenLabs = config.elevenLabs.isConfigured;
         configStatus.supabase = config.supabase.isConfigured;
         if (logDetails) {
@@ -123,10 +123,10 @@ class AppInitialization {
       }
 
       // Step 4: Validate voice API configurations
-      if (!config.deepseek.isConfigured) {
-        warnings.push('DeepSeek API not configured - speech recognition may not work properly');
+      if (!config.llm.isConfigured) {
+        warnings.push(`Chat provider (${config.llm.provider}) not configured - assistant replies will not work`);
       } else if (logDetails) {
-        console.log('✅ DeepSeek API configured');
+        console.log(`✅ Chat provider configured: ${config.llm.provider}`);
       }
       
       if (!config.elevenLabs.isConfigured) {
@@ -309,7 +309,7 @@ class AppInitialization {
       `Time: ${result.timestamp.toLocaleString()}`,
       '',
       'Configuration Status:',
-      `- DeepSeek API: ${result.config.deepseek ? 'OK' : 'Failed'}`,
+      `- Chat Provider: ${result.config.chatProvider ? 'OK' : 'Failed'}`,
       `- ElevenLabs API: ${result.config.elevenLabs ? 'OK' : 'Failed'}`,
       `- Supabase: ${result.config.supabase ? 'OK' : 'Failed'}`,
       `- Permissions: ${result.config.permissions ? 'OK' : 'Failed'}`,
@@ -3,7 +3,7 @@ import { NativeModules, Platform } from 'react-native';
 interface SpeechRecognitionModule {
   isAvailable: () => Promise<boolean>;
   requestPermissions: () => Promise<boolean>;
-  recognizeAudio: (audioUri: string, language: string) => Promise<string>;
+  recognizeAudio: (audioUri: string, language: string, contextualStrings: string[], onDeviceOnly: boolean) => Promise<string>;
   stopRecognition: () => Promise<boolean>;
 }
 
@@ -57,7 +57,14 @@ export class SpeechRecognitionService {
     }
   }
 
-  public async recognizeAudio(audioUri: string, language: string = 'en-US'): Promise<string> {
+  // contextualStrings are words the recognizer should expect, e.g. Māori words in English speech;
+  // onDeviceOnly keeps the audio off Apple's servers and fails where the device cannot recognise the language
+  public async recognizeAudio(
+    audioUri: string,
+    language: string = 'en-US',
+    contextualStrings: string[] = [],
+    onDeviceOnly: boolean = false
+  ): Promise<string> {
     if (Platform.OS !== 'ios') {
       throw new Error('Speech recognition is only available on iOS');
     }
@@ -67,7 +74,7 @@ export class SpeechRecognitionService {
     }
 
     try {
-      const result = await SpeechRecognition.recognizeAudio(audioUri, language);
+      const result = await SpeechRecognition.recognizeAudio(audioUri, language, contextualStrings, onDeviceOnly);
       return result || '';
     } catch (error) {
       console.error('Error recognizing audio:', error);
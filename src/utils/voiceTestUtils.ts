@@ -85,7 +85,7 @@ export class VoiceTestUtils {
           ? 'All required configuration is valid'
           : `Configuration errors: ${validation.errors.join(', ')}`,
         details: {
-          deepseek: config.deepseek.isConfigured,
+          chatProvider: config.llm.isConfigured,
           elevenLabs: config.elevenLabs.isConfigured,
           supabase: config.supabase.isConfigured,
           errors: validation.errors
@@ -165,20 +165,20 @@ export class VoiceTestUtils {
 
   private async testAPIConfiguration(): Promise<VoiceTestResult> {
     try {
-      // Check if DeepSeek and ElevenLabs APIs are configured
-      const deepseekConfigured = config.deepseek.isConfigured;
+      // Check if the chat provider and ElevenLabs APIs are configured
+      const chatConfigured = config.llm.isConfigured;
       const elevenLabsConfigured = config.elevenLabs.isConfigured;
       
-      const passed = deepseekConfigured && elevenLabsConfigured;
+      const passed = chatConfigured && elevenLabsConfigured;
       let message = '';
       
       if (passed) {
-        message = 'DeepSeek and ElevenLabs APIs are properly configured';
+        message = `Chat provider (${config.llm.provider}) and ElevenLabs APIs are properly configured`;
       } else {
-        if (!deepseekConfigured && !elevenLabsConfigured) {
-          message = 'Both DeepSeek and ElevenLabs APIs are not configured';
-        } else if (!deepseekConfigured) {
-          message = 'DeepSeek API is not configured';
+        if (!chatConfigured && !elevenLabsConfigured) {
+          message = `Both chat provider (${config.llm.provider}) and ElevenLabs APIs are not configured`;
+        } else if (!chatConfigured) {
+          message = `Chat provider (${config.llm.provider}) is not configured`;
         } else {
           message = 'ElevenLabs API is not configured';
         }
@@ -189,10 +189,12 @@ export class VoiceTestUtils {
         passed,
         message,
         details: {
-          deepseek: {
-            configured: deepseekConfigured,
-            apiUrl: config.deepseek.apiUrl,
-            keyLength: config.deepseek.apiKey ? config.deepseek.apiKey.length : 0
+          chatProvider: {
+            provider: config.llm.provider,
+            configured: chatConfigured,
+            apiUrl: config.llm.apiUrl,
+            model: config.llm.model,
+            keyLength: config.llm.apiKey ? config.llm.apiKey.length : 0
           },
           elevenLabs: {
             configured: elevenLabsConfigured,
@@ -380,9 +382,10 @@ export class VoiceTestUtils {
     diagnostic.push('=== Configuration Details ===');
     
     // Check API configuration
-    diagnostic.push(`DeepSeek API: ${config.deepseek.isConfigured ? 'CONFIGURED' : 'NOT CONFIGURED'}`);
-    if (config.deepseek.isConfigured) {
-      diagnostic.push(`  API URL: ${config.deepseek.apiUrl}`);
+    diagnostic.push(`Chat Provider (${config.llm.provider}): ${config.llm.isConfigured ? 'CONFIGURED' : 'NOT CONFIGURED'}`);
+    if (config.llm.isConfigured) {
+      diagnostic.push(`  API URL: ${config.llm.apiUrl || 'n/a'}`);
+      diagnostic.push(`  Model: ${config.llm.model}`);
     }
     
     diagnostic.push(`ElevenLabs API: ${config.elevenLabs.isConfigured ? 'CONFIGURED' : 'NOT CONFIGURED'}`);
@@ -0,0 +1,55 @@
+-- Conversations become the single remote store for chat and call transcripts.
+-- Rows are created on the device with their own uuid and upserted by the app.
+
+ALTER TABLE "public"."conversations"
+    ADD COLUMN "started_at" timestamp with time zone DEFAULT now() NOT NULL,
+    ADD COLUMN "ended_at" timestamp with time zone,
+    ADD COLUMN "cultural_group" text CHECK (cultural_group IN ('maori', 'chinese', 'western')),
+    ADD COLUMN "summary" text;
+
+UPDATE "public"."conversations" SET started_at = created_at;
+
+-- chat_history was only ever written by the retired chat.ts helpers. Its
+-- rows become one conversation per user and day before the table goes; rows
+-- whose user no longer exists cannot be copied, so the table is then kept.
+DO $$
+DECLARE
+    uncopied bigint;
+BEGIN
+    IF to_regclass('public.chat_history') IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO "public"."conversations" (user_id, messages, started_at, ended_at, last_interaction, created_at, updated_at)
+    SELECT
+        history.user_id,
+        jsonb_agg(
+            jsonb_build_object(
+                'id', extensions.uuid_generate_v4()::text,
+                'timestamp', to_char(history."timestamp" AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+                'content', history.message,
+                'language', 'en',
+                'speaker', CASE WHEN history.sender = 'bot' THEN 'assistant' ELSE 'user' END,
+                'channel', 'text'
+            )
+            ORDER BY history."timestamp"
+        ),
+        min(history."timestamp"),
+        max(history."timestamp"),
+        max(history."timestamp"),
+        min(history."timestamp"),
+        max(history."timestamp")
+    FROM "public"."chat_history" history
+    JOIN "public"."users" ON users.id = history.user_id
+    GROUP BY history.user_id, (history."timestamp" AT TIME ZONE 'UTC')::date;
+
+    SELECT count(*) INTO uncopied
+    FROM "public"."chat_history" history
+    WHERE NOT EXISTS (SELECT 1 FROM "public"."users" WHERE users.id = history.user_id);
+
+    IF uncopied > 0 THEN
+        RAISE NOTICE 'Keeping chat_history: % rows belong to users that no longer exist', uncopied;
+    ELSE
+        DROP TABLE "public"."chat_history";
+    END IF;
+END $$;
@@ -0,0 +1,9 @@
+-- Per-field write times for rows edited offline, used by the app's sync
+-- engine to settle the same field being changed on two devices.
+-- Keys are column names, or "metadata.<key>" for keys inside metadata.
+
+ALTER TABLE IF EXISTS "public"."user_memories"
+    ADD COLUMN IF NOT EXISTS "field_updated_at" jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE IF EXISTS "public"."profiles"
+    ADD COLUMN IF NOT EXISTS "field_updated_at" jsonb NOT NULL DEFAULT '{}'::jsonb;
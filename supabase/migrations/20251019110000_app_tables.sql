@@ -0,0 +1,59 @@
+-- Tables the app has always used but that were only ever created from the
+-- dashboard, so the migrations (and the generated types) now describe them.
+
+CREATE TABLE IF NOT EXISTS "public"."profiles" (
+    "id" uuid NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    "full_name" text,
+    "phone_number" text,
+    "field_updated_at" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "public"."user_memories" (
+    "id" uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    "user_id" uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    "type" text NOT NULL,
+    "content" text NOT NULL,
+    "metadata" jsonb DEFAULT '{}'::jsonb,
+    "field_updated_at" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_id ON user_memories(user_id);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own profile" ON profiles;
+CREATE POLICY "Users can manage own profile" ON profiles
+    FOR ALL
+    USING (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Users can manage own memories" ON user_memories;
+CREATE POLICY "Users can manage own memories" ON user_memories
+    FOR ALL
+    USING (auth.uid() = user_id);
+
+-- check_in_schedules and emergency_contacts are defined by both the
+-- notification system and the later schema rewrite. Whichever ran, give
+-- them the columns both sets of services read.
+
+ALTER TABLE "public"."check_in_schedules"
+    ADD COLUMN IF NOT EXISTS "name" text NOT NULL DEFAULT 'Daily check-in',
+    ADD COLUMN IF NOT EXISTS "recurrence" text NOT NULL DEFAULT 'daily' CHECK (recurrence IN ('daily', 'weekly', 'monthly', 'custom')),
+    ADD COLUMN IF NOT EXISTS "frequency" text CHECK (frequency IN ('daily', 'weekly', 'custom')),
+    ADD COLUMN IF NOT EXISTS "cultural_considerations" jsonb DEFAULT '{"avoidReligiousHours": false, "includeFamilyGreeting": false, "useTraditionalPhrases": false}'::jsonb,
+    ADD COLUMN IF NOT EXISTS "notifications" jsonb DEFAULT '{"reminder": {"enabled": false, "minutesBefore": 15}, "followUp": {"enabled": false, "minutesAfter": 30}}'::jsonb,
+    ADD COLUMN IF NOT EXISTS "missed_count" integer DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS "escalation_rules" jsonb DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS "notification_sent" boolean NOT NULL DEFAULT false;
+
+-- The notification services schedule by "recurrence" and never set "frequency"
+ALTER TABLE "public"."check_in_schedules"
+    ALTER COLUMN "frequency" DROP NOT NULL,
+    ALTER COLUMN "preferred_time" SET DEFAULT '10:00',
+    ALTER COLUMN "timezone" SET DEFAULT 'Pacific/Auckland';
+
+ALTER TABLE "public"."emergency_contacts"
+    ADD COLUMN IF NOT EXISTS "email" text;
@@ -0,0 +1,30 @@
+-- Advisor corrections to the app's Te Reo Māori pronunciation lexicon.
+-- The curated defaults ship with the app; a row here overrides the default
+-- for the same word, or adds a word the defaults do not cover.
+
+CREATE TABLE IF NOT EXISTS "public"."pronunciation_lexicon" (
+    "id" uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    "word" text NOT NULL UNIQUE,
+    "respelling" text NOT NULL,
+    "ipa" text,
+    "in_english" boolean NOT NULL DEFAULT false,
+    "notes" text,
+    "updated_by" uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE pronunciation_lexicon ENABLE ROW LEVEL SECURITY;
+
+-- Every voice needs the lexicon, so any signed-in user may read it
+DROP POLICY IF EXISTS "Pronunciation lexicon is readable by authenticated users" ON pronunciation_lexicon;
+CREATE POLICY "Pronunciation lexicon is readable by authenticated users" ON pronunciation_lexicon
+    FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- Only cultural advisors (admin_users) may correct it
+DROP POLICY IF EXISTS "Advisors can edit the pronunciation lexicon" ON pronunciation_lexicon;
+CREATE POLICY "Advisors can edit the pronunciation lexicon" ON pronunciation_lexicon
+    FOR ALL
+    USING (EXISTS (SELECT 1 FROM admin_users WHERE admin_users.user_id = auth.uid()))
+    WITH CHECK (EXISTS (SELECT 1 FROM admin_users WHERE admin_users.user_id = auth.uid()));
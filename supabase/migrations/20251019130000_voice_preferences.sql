@@ -0,0 +1,36 @@
+-- Per-user voice profiles, one row per language. The original
+-- voice_preferences table was keyed by patient and dropped with patients;
+-- this brings it back keyed by user, with the settings the app now applies.
+-- Rate, pitch and volume multiply the language's own delivery (1 = as is).
+
+CREATE TABLE IF NOT EXISTS "public"."voice_preferences" (
+    "id" uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    "user_id" uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    "language" text NOT NULL CHECK (language IN ('en', 'mi', 'zh')),
+    "voice_id" text NOT NULL,
+    "speed" double precision NOT NULL DEFAULT 1.0 CHECK (speed BETWEEN 0.5 AND 2.0),
+    "pitch" double precision NOT NULL DEFAULT 1.0 CHECK (pitch BETWEEN 0.5 AND 2.0),
+    "volume" double precision NOT NULL DEFAULT 1.0 CHECK (volume BETWEEN 0.0 AND 1.0),
+    "stability" double precision NOT NULL DEFAULT 0.5 CHECK (stability BETWEEN 0.0 AND 1.0),
+    "similarity_boost" double precision NOT NULL DEFAULT 0.75 CHECK (similarity_boost BETWEEN 0.0 AND 1.0),
+    "preferred_gender" text NOT NULL DEFAULT 'female' CHECK (preferred_gender IN ('male', 'female')),
+    "field_updated_at" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE ("user_id", "language")
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_preferences_user_id ON voice_preferences(user_id);
+
+DROP TRIGGER IF EXISTS update_voice_preferences_updated_at ON voice_preferences;
+CREATE TRIGGER update_voice_preferences_updated_at
+    BEFORE UPDATE ON voice_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE voice_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own voice preferences" ON voice_preferences;
+CREATE POLICY "Users can manage own voice preferences" ON voice_preferences
+    FOR ALL
+    USING (auth.uid() = user_id);
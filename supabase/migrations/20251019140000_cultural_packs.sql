@@ -0,0 +1,44 @@
+-- Cultural packs published by advisors. A pack is the JSON the app otherwise
+-- ships in its bundle (terminology, templates, phrase sets, notification
+-- templates, respectful hours) for one cultural group. The app uses a row
+-- here instead of its bundled pack when the row's pack has a higher version.
+
+ALTER TABLE cultural_contexts ALTER COLUMN profile_id DROP NOT NULL;
+
+ALTER TABLE cultural_contexts DROP CONSTRAINT IF EXISTS cultural_contexts_context_type_check;
+ALTER TABLE cultural_contexts ADD CONSTRAINT cultural_contexts_context_type_check
+    CHECK (context_type IN ('greeting', 'emotional_support', 'medical_discussion', 'family_interaction', 'cultural_pack'));
+
+ALTER TABLE cultural_contexts ADD COLUMN IF NOT EXISTS "cultural_group" text;
+ALTER TABLE cultural_contexts ADD COLUMN IF NOT EXISTS "pack" jsonb;
+
+ALTER TABLE cultural_contexts DROP CONSTRAINT IF EXISTS cultural_contexts_pack_check;
+ALTER TABLE cultural_contexts ADD CONSTRAINT cultural_contexts_pack_check
+    CHECK (context_type <> 'cultural_pack' OR (
+        cultural_group IN ('maori', 'chinese', 'western')
+        AND pack IS NOT NULL
+        AND pack->>'culturalGroup' = cultural_group
+    ));
+
+-- One published pack per group; publishing again replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cultural_contexts_pack_group
+    ON cultural_contexts(cultural_group)
+    WHERE context_type = 'cultural_pack';
+
+-- Only cultural advisors (admin_users) may publish packs; reading stays open to authenticated users
+DROP POLICY IF EXISTS "Advisors can edit cultural contexts" ON cultural_contexts;
+CREATE POLICY "Advisors can edit cultural contexts" ON cultural_contexts
+    FOR ALL
+    USING (EXISTS (SELECT 1 FROM admin_users WHERE admin_users.user_id = auth.uid()))
+    WITH CHECK (EXISTS (SELECT 1 FROM admin_users WHERE admin_users.user_id = auth.uid()));
+
+-- Running apps reload a pack as soon as it is published
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'cultural_contexts'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE cultural_contexts;
+    END IF;
+END $$;
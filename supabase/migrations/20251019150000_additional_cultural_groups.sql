@@ -0,0 +1,44 @@
+-- Samoan, Tongan, Indian and Korean cultural groups, with their languages
+-- (sm, to, hi, ko). Widens every check that listed the original three
+-- groups and languages; the lists match CULTURAL_GROUPS and
+-- PREFERRED_LANGUAGES in src/types/cultural.ts.
+
+ALTER TABLE "public"."cultural_profiles" DROP CONSTRAINT IF EXISTS cultural_profiles_cultural_group_check;
+ALTER TABLE "public"."cultural_profiles" ADD CONSTRAINT cultural_profiles_cultural_group_check
+    CHECK (cultural_group IN ('maori', 'chinese', 'western', 'samoan', 'tongan', 'indian', 'korean'));
+
+ALTER TABLE "public"."cultural_profiles" DROP CONSTRAINT IF EXISTS cultural_profiles_preferred_language_check;
+ALTER TABLE "public"."cultural_profiles" ADD CONSTRAINT cultural_profiles_preferred_language_check
+    CHECK (preferred_language IN ('en', 'mi', 'zh', 'sm', 'to', 'hi', 'ko'));
+
+ALTER TABLE "public"."cultural_profiles" DROP CONSTRAINT IF EXISTS cultural_profiles_family_structure_check;
+ALTER TABLE "public"."cultural_profiles" ADD CONSTRAINT cultural_profiles_family_structure_check
+    CHECK (family_structure IN ('whanau_centered', 'filial_piety_based', 'individual_focused', 'extended_family_centered'));
+
+ALTER TABLE "public"."cultural_profiles" DROP CONSTRAINT IF EXISTS cultural_profiles_spiritual_aspects_check;
+ALTER TABLE "public"."cultural_profiles" ADD CONSTRAINT cultural_profiles_spiritual_aspects_check
+    CHECK (spiritual_aspects IN ('journey_based', 'karma_concepts', 'optional', 'faith_based'));
+
+ALTER TABLE "public"."conversations" DROP CONSTRAINT IF EXISTS conversations_cultural_group_check;
+ALTER TABLE "public"."conversations" ADD CONSTRAINT conversations_cultural_group_check
+    CHECK (cultural_group IN ('maori', 'chinese', 'western', 'samoan', 'tongan', 'indian', 'korean'));
+
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_cultural_group_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_cultural_group_check
+    CHECK (cultural_group IN ('maori', 'chinese', 'western', 'samoan', 'tongan', 'indian', 'korean'));
+
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_language_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_language_check
+    CHECK (language IN ('en', 'mi', 'zh', 'sm', 'to', 'hi', 'ko'));
+
+ALTER TABLE "public"."voice_preferences" DROP CONSTRAINT IF EXISTS voice_preferences_language_check;
+ALTER TABLE "public"."voice_preferences" ADD CONSTRAINT voice_preferences_language_check
+    CHECK (language IN ('en', 'mi', 'zh', 'sm', 'to', 'hi', 'ko'));
+
+ALTER TABLE cultural_contexts DROP CONSTRAINT IF EXISTS cultural_contexts_pack_check;
+ALTER TABLE cultural_contexts ADD CONSTRAINT cultural_contexts_pack_check
+    CHECK (context_type <> 'cultural_pack' OR (
+        cultural_group IN ('maori', 'chinese', 'western', 'samoan', 'tongan', 'indian', 'korean')
+        AND pack IS NOT NULL
+        AND pack->>'culturalGroup' = cultural_group
+    ));